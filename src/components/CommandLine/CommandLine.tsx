@@ -9,7 +9,7 @@ const CommandLine = () => {
     const [history, setHistory] = useState<string[]>(['Type a command (LINE, CIRCLE, PLINE, RECT, POLYGON, MOVE, COPY, ...)']);
     const [input, setInput] = useState('');
     const [aiInput, setAiInput] = useState('');
-    const { startCommand, activeCommand, step, handleValueInput } = useDrawing();
+    const { startCommand, activeCommand, step, commandState, handleValueInput } = useDrawing();
     const { generateCADCommands, isLoading: isAILoading, error: aiError, apiKey, clearError, useMultiAgent, activeAgent } = useAI();
 
     // Dragging state
@@ -83,10 +83,41 @@ const CommandLine = () => {
             'SPLINE': 'SPLINE', 'SPL': 'SPLINE',
             'RAY': 'RAY',
             'XLINE': 'XLINE', 'XL': 'XLINE',
-            'DONUT': 'DONUT', 'DO': 'DONUT'
+            'DONUT': 'DONUT', 'DO': 'DONUT',
+            'BLOCK': 'BLOCK', 'B': 'BLOCK',
+            'INSERT': 'INSERT', 'I': 'INSERT',
+            'WBLOCK': 'WBLOCK', 'W': 'WBLOCK',
+            'BEDIT': 'BEDIT', 'BE': 'BEDIT',
+            'BCLOSE': 'BCLOSE',
+            'ATTDEF': 'ATTDEF', 'ATT': 'ATTDEF',
+            'DATAEXTRACTION': 'DATAEXTRACTION', 'DX': 'DATAEXTRACTION',
+            'GCCOINCIDENT': 'GEOMCONSTRAINT_COINCIDENT',
+            'GCPARALLEL': 'GEOMCONSTRAINT_PARALLEL',
+            'GCPERPENDICULAR': 'GEOMCONSTRAINT_PERPENDICULAR',
+            'GCTANGENT': 'GEOMCONSTRAINT_TANGENT',
+            'GCHORIZONTAL': 'GEOMCONSTRAINT_HORIZONTAL',
+            'GCVERTICAL': 'GEOMCONSTRAINT_VERTICAL',
+            'GCEQUAL': 'GEOMCONSTRAINT_EQUAL',
+            'GCCONCENTRIC': 'GEOMCONSTRAINT_CONCENTRIC',
+            'GCFIX': 'GEOMCONSTRAINT_FIX',
+            'DELCONSTRAINT': 'DELCONSTRAINT', 'DELCON': 'DELCONSTRAINT',
+            'DCLINEAR': 'DIMCONSTRAINT_LINEAR',
+            'DCALIGNED': 'DIMCONSTRAINT_ALIGNED',
+            'DCRADIUS': 'DIMCONSTRAINT_RADIAL',
+            'DCDIAMETER': 'DIMCONSTRAINT_DIAMETER',
+            'DCANGULAR': 'DIMCONSTRAINT_ANGULAR',
+            'PARAMETERS': 'PARAMETERS', 'PAR': 'PARAMETERS',
+            'PURGE': 'PURGE', 'PU': 'PURGE',
+            'AUDIT': 'AUDIT'
         };
 
-        if (activeCommand && !knownCommands[cmd]) {
+        // PLINE seçenekleri (A, L, C...) komut kısaltmalarından önce gelir
+        const polylineOptions = ['A', 'ARC', 'L', 'LINE', 'W', 'WIDTH', 'C', 'CL', 'CLOSE'];
+        const isPolylineOption = activeCommand === 'POLYLINE' && (polylineOptions.includes(cmd) || !!commandState.widthPrompt);
+        // HATCH / BOUNDARY ada algılama seçenekleri (O, I kısaltmalarından önce)
+        const isBoundaryOption = (activeCommand === 'HATCH' || activeCommand === 'BOUNDARY') && step === 1 && ['N', 'O', 'I'].includes(cmd);
+
+        if (activeCommand && (isPolylineOption || isBoundaryOption || !knownCommands[cmd])) {
             handleValueInput(value);
             setHistory(prev => [...prev, `${activeCommand} > ${value}`]);
         } else if (knownCommands[cmd]) {
@@ -128,7 +159,13 @@ const CommandLine = () => {
                 if (step === 1) return 'Arc Specify start point:';
                 if (step === 2) return 'Arc Specify second point:';
                 return 'Arc Specify end point:';
-            case 'POLYLINE': return step === 1 ? 'PLine Specify start point:' : 'PLine Specify next point [Close]:';
+            case 'POLYLINE':
+                if (step === 1) return 'PLine Specify start point:';
+                if (commandState.widthPrompt === 'start') return `PLine Specify starting width <${(commandState.width?.[0] ?? 0)}>:`;
+                if (commandState.widthPrompt === 'end') return `PLine Specify ending width <${(commandState.width?.[0] ?? 0)}>:`;
+                return commandState.arcMode
+                    ? 'PLine Specify endpoint of arc [Line/Width/CLose]:'
+                    : 'PLine Specify next point [Arc/Width/CLose]:';
             case 'RECTANGLE': return step === 1 ? 'Rect Specify first corner:' : 'Rect Specify other corner:';
             case 'POLYGON':
                 if (step === 1) return 'Polygon Enter number of sides <6>:';
@@ -169,8 +206,34 @@ const CommandLine = () => {
             case 'DIMCONTINUE': return 'DimContinue Select extension line origin:';
             case 'DIMBASELINE': return 'DimBaseline Select base dimension:';
             case 'LEADER': return step === 1 ? 'Leader Specify arrow start point:' : step === 2 ? 'Leader Specify next point:' : 'Leader Specify text width <0>:';
-            case 'HATCH': return step === 1 ? 'Hatch Select outer boundary (closed polyline/circle/ellipse):' : 'Hatch Select island boundary or Enter to finish:';
+            case 'HATCH': return step === 1 ? 'Hatch Pick internal point or select boundary [Normal/Outer/Ignore islands, or gap tolerance]:' : 'Hatch Select island boundary or Enter to finish:';
+            case 'BOUNDARY': return 'Boundary Pick internal point [Normal/Outer/Ignore islands, or gap tolerance]:';
             case 'ARRAY': return 'Array Select objects:';
+            case 'BLOCK': return step === 1 ? 'Block Select objects (press Enter when done):' : step === 2 ? 'Block Specify base point:' : 'Block Enter block name:';
+            case 'INSERT': return step === 1 ? 'Insert Select block:' : step === 2 ? 'Insert Specify insertion point:' : 'Insert Enter attribute values:';
+            case 'WBLOCK': return 'WBlock Select block reference to write:';
+            case 'BEDIT': return 'BEdit Select block to edit:';
+            case 'DATAEXTRACTION': return step === 1 ? 'DataExtraction Select blocks and output:' : 'DataExtraction Specify table insertion point:';
+            case 'ATTDEF': return step === 1 ? 'AttDef Define attribute:' : 'AttDef Specify start point:';
+            case 'GEOMCONSTRAINT_COINCIDENT': return step === 1 ? 'GcCoincident Select first point:' : 'GcCoincident Select second point:';
+            case 'GEOMCONSTRAINT_HORIZONTAL': return 'GcHorizontal Select a line or polyline segment:';
+            case 'GEOMCONSTRAINT_VERTICAL': return 'GcVertical Select a line or polyline segment:';
+            case 'GEOMCONSTRAINT_FIX': return 'GcFix Select point or object:';
+            case 'GEOMCONSTRAINT_PARALLEL':
+            case 'GEOMCONSTRAINT_PERPENDICULAR':
+            case 'GEOMCONSTRAINT_TANGENT':
+            case 'GEOMCONSTRAINT_EQUAL':
+            case 'GEOMCONSTRAINT_CONCENTRIC':
+                return step === 1 ? 'Constraint Select first object:' : 'Constraint Select second object:';
+            case 'DELCONSTRAINT': return 'DelConstraint Select objects to remove constraints from:';
+            case 'DIMCONSTRAINT_LINEAR': return step === 1 ? 'DcLinear Specify first constraint point:' : step === 2 ? 'DcLinear Specify second constraint point:' : step === 3 ? 'DcLinear Specify dimension line location:' : 'DcLinear Enter value or expression <measured>:';
+            case 'DIMCONSTRAINT_ALIGNED': return step === 1 ? 'DcAligned Specify first constraint point:' : step === 2 ? 'DcAligned Specify second constraint point:' : step === 3 ? 'DcAligned Specify dimension line location:' : 'DcAligned Enter value or expression <measured>:';
+            case 'DIMCONSTRAINT_RADIAL': return step === 1 ? 'DcRadius Select arc or circle:' : step === 2 ? 'DcRadius Specify dimension line location:' : 'DcRadius Enter value or expression <measured>:';
+            case 'DIMCONSTRAINT_DIAMETER': return step === 1 ? 'DcDiameter Select arc or circle:' : step === 2 ? 'DcDiameter Specify dimension line location:' : 'DcDiameter Enter value or expression <measured>:';
+            case 'DIMCONSTRAINT_ANGULAR': return step === 1 ? 'DcAngular Select first line:' : step === 2 ? 'DcAngular Select second line:' : step === 3 ? 'DcAngular Specify dimension arc location:' : 'DcAngular Enter angle or expression <measured>:';
+            case 'PARAMETERS': return 'Parameters Edit parameters:';
+            case 'PURGE': return 'Purge Select unused items to remove:';
+            case 'AUDIT': return 'Audit Review the report and fix errors:';
             default: return 'Command:';
         }
     };
@@ -2,7 +2,6 @@ import React, { useState } from 'react';
 import ReactDOM from 'react-dom';
 import { useDrawing } from '../../context/DrawingContext';
 import { useNotification } from '../../context/NotificationContext';
-import { exportDXF } from '../../utils/dxfExporter';
 
 interface ApplicationMenuDialogProps {
     isOpen: boolean;
@@ -12,11 +11,12 @@ interface ApplicationMenuDialogProps {
 const ApplicationMenuDialog: React.FC<ApplicationMenuDialogProps> = ({ isOpen, onClose }) => {
     const {
         addSheet,
-        activeSheetId,
-        sheets,
         loadProject,
+        saveProject,
+        saveDXF,
         setPrintDialogState,
-        entities,
+        setSvgExportDialogState,
+        setCamDialogState,
         fileName
     } = useDrawing();
 
@@ -44,21 +44,8 @@ const ApplicationMenuDialog: React.FC<ApplicationMenuDialogProps> = ({ isOpen, o
     };
 
     const handleSave = () => {
-        // Aktif projeyi JSON olarak kaydet
-        const data = {
-            version: "1.0",
-            savedAt: new Date().toISOString(),
-            activeSheetId,
-            sheets
-        };
-
-        const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `project_${new Date().getTime()}.cadjson`;
-        a.click();
-        URL.revokeObjectURL(url);
+        // Aktif projeyi proje dosyası (.cadjson) olarak kaydet
+        saveProject();
         onClose();
     };
 
@@ -76,12 +63,10 @@ const ApplicationMenuDialog: React.FC<ApplicationMenuDialogProps> = ({ isOpen, o
                     const content = ev.target?.result as string;
                     const data = JSON.parse(content);
 
-                    if (data.sheets && Array.isArray(data.sheets)) {
-                        loadProject(data);
-                    } else if (data.entities && Array.isArray(data.entities)) {
-                        loadProject(data); // loadProject handles legacy format too
-                    } else {
-                        showError('Dosya Hatası', 'Geçersiz dosya formatı.');
+                    // loadProject eski sürümleri de yükseltir
+                    const error = loadProject(data);
+                    if (error) {
+                        showError('Dosya Hatası', error);
                     }
                 } catch (err) {
                     console.error('File read error:', err);
@@ -102,7 +87,17 @@ const ApplicationMenuDialog: React.FC<ApplicationMenuDialogProps> = ({ isOpen, o
     const handleExport = () => {
         // Export to DXF format
         const exportFileName = fileName || `drawing_${Date.now()}`;
-        exportDXF(entities, exportFileName);
+        saveDXF(exportFileName);
+        onClose();
+    };
+
+    const handleExportSVG = () => {
+        setSvgExportDialogState({ isOpen: true });
+        onClose();
+    };
+
+    const handleExportGCode = () => {
+        setCamDialogState({ isOpen: true });
         onClose();
     };
 
@@ -285,6 +280,18 @@ Scroll: Zoom`);
                         desc="Export to DXF format"
                         onClick={handleExport}
                     />
+                    <MenuItem
+                        icon="image"
+                        title="Export SVG"
+                        desc="Export to SVG with layers as groups"
+                        onClick={handleExportSVG}
+                    />
+                    <MenuItem
+                        icon="precision_manufacturing"
+                        title="Export G-code"
+                        desc="Laser / CNC toolpaths with kerf offset"
+                        onClick={handleExportGCode}
+                    />
 
                     <Divider />
 
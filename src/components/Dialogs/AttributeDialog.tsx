@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react';
+import ReactDOM from 'react-dom';
+import type { AttributeDefinition } from '../../types/blocks';
+
+export interface AttributeDialogData {
+    // DEFINE (ATTDEF)
+    tag?: string;
+    prompt?: string;
+    defaultValue?: string;
+    height?: number;
+    invisible?: boolean;
+    constant?: boolean;
+    // VALUES (INSERT / attribute editor): TAG -> değer
+    values?: Record<string, string>;
+}
+
+interface AttributeDialogProps {
+    isOpen: boolean;
+    mode: 'DEFINE' | 'VALUES';
+    blockName?: string;
+    definitions?: AttributeDefinition[];
+    values?: Record<string, string>;
+    onClose: () => void;
+    onSubmit: (data: AttributeDialogData) => void;
+}
+
+const AttributeDialog: React.FC<AttributeDialogProps> = ({ isOpen, mode, blockName, definitions = [], values, onClose, onSubmit }) => {
+    const [tag, setTag] = useState('');
+    const [prompt, setPrompt] = useState('');
+    const [defaultValue, setDefaultValue] = useState('');
+    const [height, setHeight] = useState(2.5);
+    const [invisible, setInvisible] = useState(false);
+    const [constant, setConstant] = useState(false);
+    const [editValues, setEditValues] = useState<Record<string, string>>({});
+
+    // Design Tokens
+    const colors = {
+        bg: 'rgba(30, 30, 31, 0.98)',
+        surface: 'rgba(45, 45, 48, 0.5)',
+        border: 'rgba(255, 255, 255, 0.1)',
+        accent: '#4cc2ff',
+        textMain: '#ececec',
+        textDim: '#999999',
+        error: '#ff6b6b',
+        success: '#4cffa6',
+        glass: 'blur(16px)',
+        inputBg: 'rgba(0, 0, 0, 0.3)'
+    };
+
+    const inputStyle = {
+        width: '100%',
+        padding: '6px 8px',
+        backgroundColor: colors.inputBg,
+        color: colors.textMain,
+        border: `1px solid ${colors.border}`,
+        borderRadius: '4px',
+        fontFamily: "'Consolas', 'Monaco', monospace",
+        fontSize: '11px',
+        outline: 'none',
+        boxSizing: 'border-box' as const
+    };
+
+    const labelStyle = {
+        display: 'block',
+        marginBottom: '6px',
+        fontSize: '11px',
+        color: colors.textDim
+    };
+
+    useEffect(() => {
+        if (isOpen) {
+            setTag('');
+            setPrompt('');
+            setDefaultValue('');
+            setHeight(2.5);
+            setInvisible(false);
+            setConstant(false);
+            const initial: Record<string, string> = {};
+            definitions.forEach(attr => {
+                initial[attr.tag] = values?.[attr.tag] ?? attr.defaultValue;
+            });
+            setEditValues(initial);
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    // TAG boşluk içeremez (AutoCAD kuralı)
+    const normalizedTag = tag.trim().toUpperCase();
+    const tagValid = normalizedTag.length > 0 && !/\s/.test(normalizedTag);
+    const canSubmit = mode === 'DEFINE' ? tagValid && height > 0 : true;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        if (mode === 'DEFINE') {
+            onSubmit({
+                tag: normalizedTag,
+                prompt: prompt.trim() || normalizedTag,
+                defaultValue,
+                height,
+                invisible,
+                constant
+            });
+        } else {
+            onSubmit({ values: editValues });
+        }
+    };
+
+    const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.target === e.currentTarget) {
+            onClose();
+        }
+    };
+
+    const checkboxRow = (label: string, checked: boolean, onChange: (value: boolean) => void) => (
+        <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '11px', color: colors.textMain, cursor: 'pointer' }}>
+            <input type="checkbox" checked={checked} onChange={e => onChange(e.target.checked)} />
+            {label}
+        </label>
+    );
+
+    return ReactDOM.createPortal(
+        <div
+            onClick={handleOverlayClick}
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                width: '100%',
+                height: '100%',
+                backgroundColor: 'rgba(0,0,0,0.6)',
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'center',
+                zIndex: 2000,
+                backdropFilter: 'blur(5px)'
+            }}
+        >
+            <div style={{
+                backgroundColor: colors.bg,
+                borderRadius: '8px',
+                width: '360px',
+                display: 'flex',
+                flexDirection: 'column',
+                boxShadow: '0 8px 32px rgba(0, 0, 0, 0.6)',
+                border: `1px solid ${colors.border}`,
+                fontFamily: "'Consolas', 'Monaco', monospace",
+                backdropFilter: colors.glass,
+                overflow: 'hidden'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '12px 16px',
+                    borderBottom: `1px solid ${colors.border}`,
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    background: 'rgba(255, 255, 255, 0.03)'
+                }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <span className="material-icons" style={{ color: colors.accent, fontSize: '18px' }}>
+                            {mode === 'DEFINE' ? 'label' : 'edit_note'}
+                        </span>
+                        <span style={{ fontSize: '12px', fontWeight: '700', letterSpacing: '0.5px', color: colors.textMain }}>
+                            {mode === 'DEFINE' ? 'ATTRIBUTE DEFINITION' : `EDIT ATTRIBUTES${blockName ? ` · ${blockName}` : ''}`}
+                        </span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            background: 'none',
+                            border: 'none',
+                            color: colors.textDim,
+                            cursor: 'pointer',
+                            padding: '0',
+                            display: 'flex',
+                            opacity: 0.6
+                        }}
+                    >
+                        <span className="material-icons" style={{ fontSize: '16px' }}>close</span>
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px' }}>
+                    <form onSubmit={handleSubmit}>
+                        {mode === 'DEFINE' ? (
+                            <>
+                                <div style={{ marginBottom: '16px' }}>
+                                    <label style={labelStyle}>Tag</label>
+                                    <input
+                                        type="text"
+                                        value={tag}
+                                        onChange={e => setTag(e.target.value)}
+                                        style={inputStyle}
+                                        autoFocus
+                                    />
+                                    {tag.trim() && !tagValid && (
+                                        <div style={{ marginTop: '6px', fontSize: '11px', color: colors.error }}>
+                                            Tag cannot contain spaces.
+                                        </div>
+                                    )}
+                                </div>
+                                <div style={{ marginBottom: '16px' }}>
+                                    <label style={labelStyle}>Prompt</label>
+                                    <input
+                                        type="text"
+                                        value={prompt}
+                                        onChange={e => setPrompt(e.target.value)}
+                                        style={inputStyle}
+                                    />
+                                </div>
+                                <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '12px', marginBottom: '16px' }}>
+                                    <div>
+                                        <label style={labelStyle}>Default</label>
+                                        <input
+                                            type="text"
+                                            value={defaultValue}
+                                            onChange={e => setDefaultValue(e.target.value)}
+                                            style={inputStyle}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label style={labelStyle}>Text Height</label>
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            min="0"
+                                            value={height}
+                                            onChange={e => setHeight(parseFloat(e.target.value) || 0)}
+                                            style={inputStyle}
+                                        />
+                                    </div>
+                                </div>
+                                <div style={{ display: 'flex', gap: '24px', marginBottom: '16px' }}>
+                                    {checkboxRow('Invisible', invisible, setInvisible)}
+                                    {checkboxRow('Constant', constant, setConstant)}
+                                </div>
+                            </>
+                        ) : (
+                            <div style={{ marginBottom: '16px', maxHeight: '320px', overflowY: 'auto' }}>
+                                {definitions.length === 0 && (
+                                    <div style={{ fontSize: '11px', color: colors.textDim }}>
+                                        This block has no editable attributes.
+                                    </div>
+                                )}
+                                {definitions.map(attr => (
+                                    <div key={attr.tag} style={{ marginBottom: '12px' }}>
+                                        <label style={labelStyle}>
+                                            {attr.prompt || attr.tag}
+                                            <span style={{ opacity: 0.6 }}> ({attr.tag}{attr.invisible ? ', invisible' : ''})</span>
+                                        </label>
+                                        <input
+                                            type="text"
+                                            value={editValues[attr.tag] ?? ''}
+                                            onChange={e => setEditValues(prev => ({ ...prev, [attr.tag]: e.target.value }))}
+                                            style={inputStyle}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {/* Footer Buttons */}
+                        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: 'transparent',
+                                    color: colors.textMain,
+                                    border: `1px solid ${colors.border}`,
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontSize: '11px',
+                                    fontFamily: 'inherit',
+                                    transition: 'all 0.2s'
+                                }}
+                            >
+                                CANCEL
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={!canSubmit}
+                                style={{
+                                    padding: '8px 24px',
+                                    backgroundColor: colors.accent,
+                                    color: '#000',
+                                    border: 'none',
+                                    borderRadius: '4px',
+                                    cursor: canSubmit ? 'pointer' : 'not-allowed',
+                                    opacity: canSubmit ? 1 : 0.5,
+                                    fontSize: '11px',
+                                    fontFamily: 'inherit',
+                                    fontWeight: '700',
+                                    transition: 'all 0.2s',
+                                    boxShadow: '0 2px 8px rgba(76, 194, 255, 0.2)'
+                                }}
+                            >
+                                OK
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default AttributeDialog;
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import ReactDOM from 'react-dom';
+import type { AuditReport, AuditProblemType } from '../../utils/auditUtils';
+import { AUDIT_PROBLEMS } from '../../utils/auditUtils';
+
+interface AuditDialogProps {
+    isOpen: boolean;
+    report: AuditReport | null;
+    onClose: () => void;
+    onSubmit: (fix: boolean) => void;
+}
+
+const MAX_DETAILS = 100; // Ayrıntı listesinde gösterilecek en fazla satır
+
+const AuditDialog: React.FC<AuditDialogProps> = ({ isOpen, report, onClose, onSubmit }) => {
+    const [fix, setFix] = useState(true);
+
+    // Design Tokens
+    const colors = {
+        bg: 'rgba(30, 30, 31, 0.98)',
+        surface: 'rgba(45, 45, 48, 0.5)',
+        border: 'rgba(255, 255, 255, 0.1)',
+        accent: '#4cc2ff',
+        textMain: '#ececec',
+        textDim: '#999999',
+        error: '#ff6b6b',
+        success: '#4cffa6',
+        glass: 'blur(16px)',
+        inputBg: 'rgba(0, 0, 0, 0.3)'
+    };
+
+    const labelStyle = {
+        display: 'block',
+        marginBottom: '6px',
+        fontSize: '11px',
+        color: colors.textDim
+    };
+
+    const listStyle = {
+        overflowY: 'auto' as const,
+        padding: '6px 8px',
+        backgroundColor: colors.inputBg,
+        border: `1px solid ${colors.border}`,
+        borderRadius: '4px'
+    };
+
+    useEffect(() => {
+        if (isOpen) {
+            setFix(true);
+        }
+    }, [isOpen]);
+
+    if (!isOpen || !report) return null;
+
+    const problemCount = report.problems.length;
+    const types = Object.keys(report.counts) as AuditProblemType[];
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSubmit(problemCount > 0 && fix);
+    };
+
+    const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.target === e.currentTarget) {
+            onClose();
+        }
+    };
+
+    return ReactDOM.createPortal(
+        <div
+            onClick={handleOverlayClick}
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                width: '100%',
+                height: '100%',
+                backgroundColor: 'rgba(0,0,0,0.6)',
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'center',
+                zIndex: 2000,
+                backdropFilter: 'blur(5px)'
+            }}
+        >
+            <div style={{
+                backgroundColor: colors.bg,
+                borderRadius: '8px',
+                width: '460px',
+                display: 'flex',
+                flexDirection: 'column',
+                boxShadow: '0 8px 32px rgba(0, 0, 0, 0.6)',
+                border: `1px solid ${colors.border}`,
+                fontFamily: "'Consolas', 'Monaco', monospace",
+                backdropFilter: colors.glass,
+                overflow: 'hidden'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '12px 16px',
+                    borderBottom: `1px solid ${colors.border}`,
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    background: 'rgba(255, 255, 255, 0.03)'
+                }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <span className="material-icons" style={{ color: colors.accent, fontSize: '18px' }}>verified_user</span>
+                        <span style={{ fontSize: '12px', fontWeight: '700', letterSpacing: '0.5px', color: colors.textMain }}>
+                            AUDIT REPORT
+                        </span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            background: 'none',
+                            border: 'none',
+                            color: colors.textDim,
+                            cursor: 'pointer',
+                            padding: '0',
+                            display: 'flex',
+                            opacity: 0.6
+                        }}
+                    >
+                        <span className="material-icons" style={{ fontSize: '16px' }}>close</span>
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px' }}>
+                    <form onSubmit={handleSubmit}>
+                        <div style={{ marginBottom: '16px', fontSize: '11px', color: problemCount > 0 ? colors.error : colors.success }}>
+                            {report.entityCount} entities checked · {problemCount === 0 ? 'no errors found' : `${problemCount} error(s) found`}
+                        </div>
+
+                        {problemCount > 0 && (
+                            <>
+                                <div style={{ marginBottom: '16px' }}>
+                                    <label style={labelStyle}>Summary</label>
+                                    <div style={listStyle}>
+                                        {types.map(type => (
+                                            <div key={type} style={{ padding: '4px 0', fontSize: '11px', color: colors.textMain }}>
+                                                <span style={{ color: colors.error }}>{report.counts[type]}×</span> {AUDIT_PROBLEMS[type].title}
+                                                <div style={{ color: colors.textDim, paddingLeft: '20px' }}>
+                                                    {AUDIT_PROBLEMS[type].description} → {AUDIT_PROBLEMS[type].fix}
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div style={{ marginBottom: '16px' }}>
+                                    <label style={labelStyle}>Details</label>
+                                    <div style={{ ...listStyle, maxHeight: '140px' }}>
+                                        {report.problems.slice(0, MAX_DETAILS).map((problem, index) => (
+                                            <div key={index} style={{ fontSize: '11px', color: colors.textMain, padding: '1px 0' }}>
+                                                <span style={{ color: colors.textDim }}>#{problem.entityId} {problem.entityType}</span> {AUDIT_PROBLEMS[problem.type].title}
+                                            </div>
+                                        ))}
+                                        {problemCount > MAX_DETAILS && (
+                                            <div style={{ fontSize: '11px', color: colors.textDim, padding: '1px 0' }}>
+                                                … {problemCount - MAX_DETAILS} more
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+
+                                <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '11px', color: colors.textMain, cursor: 'pointer', marginBottom: '16px' }}>
+                                    <input type="checkbox" checked={fix} onChange={e => setFix(e.target.checked)} />
+                                    Fix any errors detected (can be undone)
+                                </label>
+                            </>
+                        )}
+
+                        {/* Footer Buttons */}
+                        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: 'transparent',
+                                    color: colors.textMain,
+                                    border: `1px solid ${colors.border}`,
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontSize: '11px',
+                                    fontFamily: 'inherit',
+                                    transition: 'all 0.2s'
+                                }}
+                            >
+                                CLOSE
+                            </button>
+                            {problemCount > 0 && fix && (
+                                <button
+                                    type="submit"
+                                    style={{
+                                        padding: '8px 24px',
+                                        backgroundColor: colors.accent,
+                                        color: '#000',
+                                        border: 'none',
+                                        borderRadius: '4px',
+                                        cursor: 'pointer',
+                                        fontSize: '11px',
+                                        fontFamily: 'inherit',
+                                        fontWeight: '700',
+                                        transition: 'all 0.2s',
+                                        boxShadow: '0 2px 8px rgba(76, 194, 255, 0.2)'
+                                    }}
+                                >
+                                    FIX ERRORS
+                                </button>
+                            )}
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default AuditDialog;
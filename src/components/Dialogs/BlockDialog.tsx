@@ -0,0 +1,310 @@
+import React, { useState, useEffect } from 'react';
+import ReactDOM from 'react-dom';
+import type { BlockTable } from '../../types/blocks';
+
+export interface BlockDialogData {
+    name: string;
+    description?: string;
+    scale?: [number, number, number];
+    rotation?: number; // Radyan
+}
+
+interface BlockDialogProps {
+    isOpen: boolean;
+    mode: 'DEFINE' | 'INSERT' | 'EDIT';
+    blocks: BlockTable;
+    instanceCounts: Record<string, number>;
+    onClose: () => void;
+    onSubmit: (data: BlockDialogData) => void;
+}
+
+const BlockDialog: React.FC<BlockDialogProps> = ({ isOpen, mode, blocks, instanceCounts, onClose, onSubmit }) => {
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [scaleX, setScaleX] = useState(1);
+    const [scaleY, setScaleY] = useState(1);
+    const [rotationDeg, setRotationDeg] = useState(0);
+
+    const blockNames = Object.keys(blocks).sort();
+
+    // Design Tokens
+    const colors = {
+        bg: 'rgba(30, 30, 31, 0.98)',
+        surface: 'rgba(45, 45, 48, 0.5)',
+        border: 'rgba(255, 255, 255, 0.1)',
+        accent: '#4cc2ff',
+        textMain: '#ececec',
+        textDim: '#999999',
+        error: '#ff6b6b',
+        success: '#4cffa6',
+        warning: '#ffb84c',
+        glass: 'blur(16px)',
+        inputBg: 'rgba(0, 0, 0, 0.3)'
+    };
+
+    const inputStyle = {
+        width: '100%',
+        padding: '6px 8px',
+        backgroundColor: colors.inputBg,
+        color: colors.textMain,
+        border: `1px solid ${colors.border}`,
+        borderRadius: '4px',
+        fontFamily: "'Consolas', 'Monaco', monospace",
+        fontSize: '11px',
+        outline: 'none',
+        boxSizing: 'border-box' as const
+    };
+
+    const labelStyle = {
+        display: 'block',
+        marginBottom: '6px',
+        fontSize: '11px',
+        color: colors.textDim
+    };
+
+    useEffect(() => {
+        if (isOpen) {
+            const names = Object.keys(blocks).sort();
+            setName(mode === 'DEFINE' ? '' : (names[0] || ''));
+            setDescription('');
+            setScaleX(1);
+            setScaleY(1);
+            setRotationDeg(0);
+        }
+    }, [isOpen, mode, blocks]);
+
+    if (!isOpen) return null;
+
+    const trimmedName = name.trim();
+    const existing = blocks[trimmedName];
+    const canSubmit = mode === 'DEFINE' ? trimmedName.length > 0 : !!existing;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        if (mode === 'DEFINE') {
+            onSubmit({ name: trimmedName, description: description.trim() || undefined });
+        } else if (mode === 'EDIT') {
+            onSubmit({ name: trimmedName });
+        } else {
+            onSubmit({
+                name: trimmedName,
+                scale: [scaleX || 1, scaleY || 1, 1],
+                rotation: (rotationDeg * Math.PI) / 180
+            });
+        }
+    };
+
+    const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.target === e.currentTarget) {
+            onClose();
+        }
+    };
+
+    return ReactDOM.createPortal(
+        <div
+            onClick={handleOverlayClick}
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                width: '100%',
+                height: '100%',
+                backgroundColor: 'rgba(0,0,0,0.6)',
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'center',
+                zIndex: 2000,
+                backdropFilter: 'blur(5px)'
+            }}
+        >
+            <div style={{
+                backgroundColor: colors.bg,
+                borderRadius: '8px',
+                width: '340px',
+                display: 'flex',
+                flexDirection: 'column',
+                boxShadow: '0 8px 32px rgba(0, 0, 0, 0.6)',
+                border: `1px solid ${colors.border}`,
+                fontFamily: "'Consolas', 'Monaco', monospace",
+                backdropFilter: colors.glass,
+                overflow: 'hidden'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '12px 16px',
+                    borderBottom: `1px solid ${colors.border}`,
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    background: 'rgba(255, 255, 255, 0.03)'
+                }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <span className="material-icons" style={{ color: colors.accent, fontSize: '18px' }}>
+                            {mode === 'DEFINE' ? 'widgets' : mode === 'EDIT' ? 'edit' : 'input'}
+                        </span>
+                        <span style={{ fontSize: '12px', fontWeight: '700', letterSpacing: '0.5px', color: colors.textMain }}>
+                            {mode === 'DEFINE' ? 'BLOCK DEFINITION' : mode === 'EDIT' ? 'EDIT BLOCK DEFINITION' : 'INSERT BLOCK'}
+                        </span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            background: 'none',
+                            border: 'none',
+                            color: colors.textDim,
+                            cursor: 'pointer',
+                            padding: '0',
+                            display: 'flex',
+                            opacity: 0.6
+                        }}
+                    >
+                        <span className="material-icons" style={{ fontSize: '16px' }}>close</span>
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px' }}>
+                    <form onSubmit={handleSubmit}>
+                        {mode === 'DEFINE' ? (
+                            <>
+                                <div style={{ marginBottom: '16px' }}>
+                                    <label style={labelStyle}>Name</label>
+                                    <input
+                                        type="text"
+                                        list="block-dialog-names"
+                                        value={name}
+                                        onChange={e => setName(e.target.value)}
+                                        style={inputStyle}
+                                        autoFocus
+                                    />
+                                    <datalist id="block-dialog-names">
+                                        {blockNames.map(n => <option key={n} value={n} />)}
+                                    </datalist>
+                                </div>
+                                <div style={{ marginBottom: '16px' }}>
+                                    <label style={labelStyle}>Description</label>
+                                    <input
+                                        type="text"
+                                        value={description}
+                                        onChange={e => setDescription(e.target.value)}
+                                        style={inputStyle}
+                                    />
+                                </div>
+                                {existing && (
+                                    <div style={{ marginBottom: '16px', fontSize: '11px', color: colors.warning }}>
+                                        "{trimmedName}" already exists and will be redefined.
+                                        {' '}{instanceCounts[trimmedName] || 0} instance(s) will be updated.
+                                    </div>
+                                )}
+                            </>
+                        ) : (
+                            <>
+                                <div style={{ marginBottom: '16px' }}>
+                                    <label style={labelStyle}>Block</label>
+                                    {blockNames.length > 0 ? (
+                                        <select
+                                            value={name}
+                                            onChange={e => setName(e.target.value)}
+                                            style={inputStyle}
+                                            autoFocus
+                                        >
+                                            {blockNames.map(n => <option key={n} value={n}>{n}</option>)}
+                                        </select>
+                                    ) : (
+                                        <div style={{ fontSize: '11px', color: colors.error }}>
+                                            No block definitions in this drawing. Create one with BLOCK.
+                                        </div>
+                                    )}
+                                    {existing && (
+                                        <div style={{ marginTop: '6px', fontSize: '11px', color: colors.textDim }}>
+                                            {existing.description ? `${existing.description} · ` : ''}
+                                            {existing.entities.length} object(s) · {instanceCounts[trimmedName] || 0} instance(s)
+                                        </div>
+                                    )}
+                                </div>
+                                {mode === 'INSERT' && (
+                                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr 1fr', gap: '12px', marginBottom: '16px' }}>
+                                    <div>
+                                        <label style={labelStyle}>Scale X</label>
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            value={scaleX}
+                                            onChange={e => setScaleX(parseFloat(e.target.value))}
+                                            style={inputStyle}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label style={labelStyle}>Scale Y</label>
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            value={scaleY}
+                                            onChange={e => setScaleY(parseFloat(e.target.value))}
+                                            style={inputStyle}
+                                        />
+                                    </div>
+                                    <div>
+                                        <label style={labelStyle}>Rotation (°)</label>
+                                        <input
+                                            type="number"
+                                            step="any"
+                                            value={rotationDeg}
+                                            onChange={e => setRotationDeg(parseFloat(e.target.value) || 0)}
+                                            style={inputStyle}
+                                        />
+                                    </div>
+                                </div>
+                                )}
+                            </>
+                        )}
+
+                        {/* Footer Buttons */}
+                        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: 'transparent',
+                                    color: colors.textMain,
+                                    border: `1px solid ${colors.border}`,
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontSize: '11px',
+                                    fontFamily: 'inherit',
+                                    transition: 'all 0.2s'
+                                }}
+                            >
+                                CANCEL
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={!canSubmit}
+                                style={{
+                                    padding: '8px 24px',
+                                    backgroundColor: colors.accent,
+                                    color: '#000',
+                                    border: 'none',
+                                    borderRadius: '4px',
+                                    cursor: canSubmit ? 'pointer' : 'not-allowed',
+                                    opacity: canSubmit ? 1 : 0.5,
+                                    fontSize: '11px',
+                                    fontFamily: 'inherit',
+                                    fontWeight: '700',
+                                    transition: 'all 0.2s',
+                                    boxShadow: '0 2px 8px rgba(76, 194, 255, 0.2)'
+                                }}
+                            >
+                                {mode === 'DEFINE' ? (existing ? 'REDEFINE' : 'CREATE') : mode === 'EDIT' ? 'EDIT' : 'INSERT'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default BlockDialog;
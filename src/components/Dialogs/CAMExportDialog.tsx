@@ -0,0 +1,312 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import ReactDOM from 'react-dom';
+import { useDrawing } from '../../context/DrawingContext';
+import { DEFAULT_CAM_SETTINGS, type CAMSettings, type CAMLayerSettings, type CAMMachine } from '../../types/cam';
+import { getCAMLayerSettings } from '../../utils/toolpathUtils';
+
+/**
+ * G-code / laser export. Docked beside the viewport without an overlay so the
+ * toolpath order preview stays visible while the settings are edited.
+ */
+const CAMExportDialog = () => {
+    const {
+        camDialogState,
+        setCamDialogState,
+        setToolpathPreview,
+        generateCAMToolpaths,
+        saveGCode,
+        layers
+    } = useDrawing();
+
+    const [settings, setSettings] = useState<CAMSettings>(DEFAULT_CAM_SETTINGS);
+
+    const result = useMemo(
+        () => (camDialogState.isOpen ? generateCAMToolpaths(settings) : null),
+        [camDialogState.isOpen, generateCAMToolpaths, settings]
+    );
+
+    // Önizleme diyalog açıkken ayarlarla birlikte güncellenir
+    useEffect(() => {
+        setToolpathPreview(result ? result.toolpaths : null);
+    }, [result, setToolpathPreview]);
+
+    // Design Tokens
+    const colors = {
+        bg: 'rgba(30, 30, 31, 0.98)',
+        surface: 'rgba(45, 45, 48, 0.5)',
+        border: 'rgba(255, 255, 255, 0.1)',
+        accent: '#4cc2ff',
+        textMain: '#ececec',
+        textDim: '#999999',
+        error: '#ff6b6b',
+        success: '#4cffa6',
+        glass: 'blur(16px)',
+        inputBg: 'rgba(0, 0, 0, 0.3)'
+    };
+
+    const inputStyle = {
+        width: '100%',
+        padding: '6px 8px',
+        backgroundColor: colors.inputBg,
+        color: colors.textMain,
+        border: `1px solid ${colors.border}`,
+        borderRadius: '4px',
+        fontFamily: "'Consolas', 'Monaco', monospace",
+        fontSize: '11px',
+        outline: 'none',
+        boxSizing: 'border-box' as const
+    };
+
+    const labelStyle = {
+        display: 'block',
+        marginBottom: '4px',
+        fontSize: '11px',
+        color: colors.textDim
+    };
+
+    const sectionTitleStyle = {
+        marginTop: 0,
+        marginBottom: '10px',
+        fontSize: '12px',
+        color: colors.accent,
+        fontWeight: '700',
+        letterSpacing: '0.5px',
+        textTransform: 'uppercase' as const,
+        borderBottom: `1px solid ${colors.border}`,
+        paddingBottom: '4px'
+    };
+
+    if (!camDialogState.isOpen || !result) return null;
+
+    const handleClose = () => setCamDialogState({ isOpen: false });
+
+    const handleDownload = () => {
+        saveGCode(settings);
+        handleClose();
+    };
+
+    const setNumber = (key: 'kerf' | 'maxPower' | 'safeZ' | 'passDepth' | 'plungeRate', value: string) => {
+        setSettings({ ...settings, [key]: Math.max(0, parseFloat(value) || 0) });
+    };
+
+    const setLayer = (layerId: string, patch: Partial<CAMLayerSettings>) => {
+        setSettings({
+            ...settings,
+            layers: { ...settings.layers, [layerId]: { ...getCAMLayerSettings(settings, layerId), ...patch } }
+        });
+    };
+
+    const cutLayers = layers.filter(layer => layer.visible && !layer.frozen);
+    const counts = {
+        outer: result.toolpaths.filter(path => path.contour === 'outer').length,
+        inner: result.toolpaths.filter(path => path.contour === 'inner').length,
+        open: result.toolpaths.filter(path => path.contour === 'open').length
+    };
+    const canExport = result.toolpaths.length > 0;
+
+    const numberField = (label: string, key: 'kerf' | 'maxPower' | 'safeZ' | 'passDepth' | 'plungeRate', step: number) => (
+        <div style={{ flex: 1 }}>
+            <label style={labelStyle}>{label}</label>
+            <input
+                type="number"
+                min={0}
+                step={step}
+                value={settings[key]}
+                onChange={e => setNumber(key, e.target.value)}
+                style={inputStyle}
+            />
+        </div>
+    );
+
+    return ReactDOM.createPortal(
+        <div style={{
+            position: 'fixed',
+            top: '120px',
+            right: '16px',
+            width: '420px',
+            maxHeight: 'calc(100vh - 180px)',
+            backgroundColor: colors.bg,
+            borderRadius: '8px',
+            display: 'flex',
+            flexDirection: 'column',
+            boxShadow: '0 8px 32px rgba(0, 0, 0, 0.6)',
+            border: `1px solid ${colors.border}`,
+            fontFamily: "'Consolas', 'Monaco', monospace",
+            backdropFilter: colors.glass,
+            overflow: 'hidden',
+            zIndex: 2000
+        }}>
+            {/* Header */}
+            <div style={{
+                padding: '12px 16px',
+                borderBottom: `1px solid ${colors.border}`,
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                background: 'rgba(255, 255, 255, 0.03)'
+            }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                    <span className="material-icons" style={{ color: colors.accent, fontSize: '18px' }}>precision_manufacturing</span>
+                    <span style={{ fontSize: '12px', fontWeight: '700', letterSpacing: '0.5px', color: colors.textMain }}>
+                        G-CODE EXPORT
+                    </span>
+                </div>
+                <button
+                    onClick={handleClose}
+                    style={{
+                        background: 'none',
+                        border: 'none',
+                        color: colors.textDim,
+                        cursor: 'pointer',
+                        padding: '0',
+                        display: 'flex',
+                        opacity: 0.6
+                    }}
+                >
+                    <span className="material-icons" style={{ fontSize: '16px' }}>close</span>
+                </button>
+            </div>
+
+            <div className="custom-scrollbar" style={{ padding: '20px', display: 'flex', flexDirection: 'column', gap: '20px', overflowY: 'auto' }}>
+                {/* Machine */}
+                <div>
+                    <h4 style={sectionTitleStyle}>Machine</h4>
+                    <div style={{ display: 'flex', gap: '12px', marginBottom: '12px' }}>
+                        <div style={{ flex: 1 }}>
+                            <label style={labelStyle}>Type</label>
+                            <select
+                                value={settings.machine}
+                                onChange={e => setSettings({ ...settings, machine: e.target.value as CAMMachine })}
+                                style={inputStyle}
+                            >
+                                <option value="laser">Laser (M4/M5)</option>
+                                <option value="cnc">CNC router (Z passes)</option>
+                            </select>
+                        </div>
+                        {numberField('Kerf (mm)', 'kerf', 0.01)}
+                        {numberField('Max S', 'maxPower', 1)}
+                    </div>
+                    {settings.machine === 'cnc' && (
+                        <div style={{ display: 'flex', gap: '12px' }}>
+                            {numberField('Safe Z (mm)', 'safeZ', 0.5)}
+                            {numberField('Pass depth (mm)', 'passDepth', 0.1)}
+                            {numberField('Plunge (mm/min)', 'plungeRate', 10)}
+                        </div>
+                    )}
+                </div>
+
+                {/* Layers */}
+                <div>
+                    <h4 style={sectionTitleStyle}>Layers</h4>
+                    <div style={{ display: 'grid', gridTemplateColumns: '20px 1fr 70px 56px 48px', gap: '6px', alignItems: 'center', fontSize: '11px' }}>
+                        <span />
+                        <span style={{ color: colors.textDim }}>Name</span>
+                        <span style={{ color: colors.textDim }}>Feed</span>
+                        <span style={{ color: colors.textDim }}>{settings.machine === 'laser' ? 'Power %' : 'Spindle %'}</span>
+                        <span style={{ color: colors.textDim }}>Passes</span>
+                        {cutLayers.map(layer => {
+                            const layerSettings = getCAMLayerSettings(settings, layer.id);
+                            return (
+                                <React.Fragment key={layer.id}>
+                                    <input
+                                        type="checkbox"
+                                        checked={layerSettings.enabled}
+                                        onChange={e => setLayer(layer.id, { enabled: e.target.checked })}
+                                    />
+                                    <span style={{ display: 'flex', alignItems: 'center', gap: '6px', color: colors.textMain, overflow: 'hidden', whiteSpace: 'nowrap' }}>
+                                        <span style={{ width: '10px', height: '10px', backgroundColor: layer.color, borderRadius: '2px', flexShrink: 0 }} />
+                                        {layer.name}
+                                    </span>
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        value={layerSettings.feedRate}
+                                        onChange={e => setLayer(layer.id, { feedRate: Math.max(1, parseFloat(e.target.value) || 1) })}
+                                        style={inputStyle}
+                                    />
+                                    <input
+                                        type="number"
+                                        min={0}
+                                        max={100}
+                                        value={layerSettings.power}
+                                        onChange={e => setLayer(layer.id, { power: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) })}
+                                        style={inputStyle}
+                                    />
+                                    <input
+                                        type="number"
+                                        min={1}
+                                        step={1}
+                                        value={layerSettings.passes}
+                                        onChange={e => setLayer(layer.id, { passes: Math.max(1, parseInt(e.target.value) || 1) })}
+                                        style={inputStyle}
+                                    />
+                                </React.Fragment>
+                            );
+                        })}
+                    </div>
+                    <div style={{ marginTop: '8px', fontSize: '10px', color: colors.textDim }}>Feed in mm/min</div>
+                </div>
+
+                {/* Summary */}
+                <div>
+                    <h4 style={sectionTitleStyle}>Toolpaths</h4>
+                    <div style={{ fontSize: '11px', color: canExport ? colors.textMain : colors.error }}>
+                        {canExport
+                            ? `${result.toolpaths.length} paths: ${counts.inner} inner, ${counts.outer} outer, ${counts.open} open`
+                            : 'No cuttable geometry on the enabled layers'}
+                    </div>
+                    <div style={{ marginTop: '4px', fontSize: '10px', color: colors.textDim }}>
+                        Cut order is numbered in the viewport; dashed lines are rapid moves.
+                    </div>
+                    {result.warnings.map((warning, index) => (
+                        <div key={index} style={{ marginTop: '4px', fontSize: '10px', color: '#ffb74c' }}>⚠ {warning}</div>
+                    ))}
+                </div>
+
+                {/* Footer Buttons */}
+                <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+                    <button
+                        type="button"
+                        onClick={handleClose}
+                        style={{
+                            padding: '8px 16px',
+                            backgroundColor: 'transparent',
+                            color: colors.textMain,
+                            border: `1px solid ${colors.border}`,
+                            borderRadius: '4px',
+                            cursor: 'pointer',
+                            fontSize: '11px',
+                            fontFamily: 'inherit'
+                        }}
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleDownload}
+                        disabled={!canExport}
+                        style={{
+                            padding: '8px 24px',
+                            backgroundColor: colors.accent,
+                            color: '#000',
+                            border: 'none',
+                            borderRadius: '4px',
+                            cursor: canExport ? 'pointer' : 'not-allowed',
+                            opacity: canExport ? 1 : 0.5,
+                            fontSize: '11px',
+                            fontFamily: 'inherit',
+                            fontWeight: '700',
+                            transition: 'all 0.2s',
+                            boxShadow: '0 2px 8px rgba(76, 194, 255, 0.2)'
+                        }}
+                    >
+                        DOWNLOAD
+                    </button>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default CAMExportDialog;
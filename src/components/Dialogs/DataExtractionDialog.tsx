@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import ReactDOM from 'react-dom';
+import type { Entity } from '../../types/entities';
+import type { BlockTable } from '../../types/blocks';
+import type { DataExtractionOptions } from '../../utils/dataExtraction';
+import { extractBlockData, getExtractionReferences } from '../../utils/dataExtraction';
+
+export interface DataExtractionDialogData {
+    options: DataExtractionOptions;
+    output: 'TABLE' | 'CSV';
+}
+
+interface DataExtractionDialogProps {
+    isOpen: boolean;
+    entities: Entity[];
+    blocks: BlockTable;
+    onClose: () => void;
+    onSubmit: (data: DataExtractionDialogData) => void;
+}
+
+const DataExtractionDialog: React.FC<DataExtractionDialogProps> = ({ isOpen, entities, blocks, onClose, onSubmit }) => {
+    const [selectedLayers, setSelectedLayers] = useState<string[]>([]);
+    const [selectedBlocks, setSelectedBlocks] = useState<string[]>([]);
+    const [output, setOutput] = useState<'TABLE' | 'CSV'>('TABLE');
+
+    // Filtre seçenekleri: çizimdeki tüm blok referanslarının katman ve blok adları
+    const references = useMemo(() => getExtractionReferences(entities), [entities]);
+    const layerNames = useMemo(() => Array.from(new Set(references.map(ref => ref.layer))).sort(), [references]);
+    const blockNames = useMemo(() => Array.from(new Set(references.map(ref => ref.blockName))).sort(), [references]);
+
+    const options: DataExtractionOptions = { layers: selectedLayers, blockNames: selectedBlocks };
+    const preview = isOpen ? extractBlockData(entities, options, blocks) : [];
+    const total = preview.reduce((sum, row) => sum + row.count, 0);
+
+    // Design Tokens
+    const colors = {
+        bg: 'rgba(30, 30, 31, 0.98)',
+        surface: 'rgba(45, 45, 48, 0.5)',
+        border: 'rgba(255, 255, 255, 0.1)',
+        accent: '#4cc2ff',
+        textMain: '#ececec',
+        textDim: '#999999',
+        error: '#ff6b6b',
+        success: '#4cffa6',
+        glass: 'blur(16px)',
+        inputBg: 'rgba(0, 0, 0, 0.3)'
+    };
+
+    const labelStyle = {
+        display: 'block',
+        marginBottom: '6px',
+        fontSize: '11px',
+        color: colors.textDim
+    };
+
+    const listStyle = {
+        maxHeight: '120px',
+        overflowY: 'auto' as const,
+        padding: '6px 8px',
+        backgroundColor: colors.inputBg,
+        border: `1px solid ${colors.border}`,
+        borderRadius: '4px'
+    };
+
+    useEffect(() => {
+        if (isOpen) {
+            setSelectedLayers([]);
+            setSelectedBlocks([]);
+            setOutput('TABLE');
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const toggle = (list: string[], value: string) =>
+        list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+    const canSubmit = preview.length > 0;
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        onSubmit({ options, output });
+    };
+
+    const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.target === e.currentTarget) {
+            onClose();
+        }
+    };
+
+    const checkList = (values: string[], selected: string[], onChange: (next: string[]) => void) => (
+        <div style={listStyle}>
+            {values.map(value => (
+                <label key={value} style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '11px', color: colors.textMain, cursor: 'pointer', padding: '2px 0' }}>
+                    <input type="checkbox" checked={selected.includes(value)} onChange={() => onChange(toggle(selected, value))} />
+                    {value}
+                </label>
+            ))}
+        </div>
+    );
+
+    return ReactDOM.createPortal(
+        <div
+            onClick={handleOverlayClick}
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                width: '100%',
+                height: '100%',
+                backgroundColor: 'rgba(0,0,0,0.6)',
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'center',
+                zIndex: 2000,
+                backdropFilter: 'blur(5px)'
+            }}
+        >
+            <div style={{
+                backgroundColor: colors.bg,
+                borderRadius: '8px',
+                width: '440px',
+                display: 'flex',
+                flexDirection: 'column',
+                boxShadow: '0 8px 32px rgba(0, 0, 0, 0.6)',
+                border: `1px solid ${colors.border}`,
+                fontFamily: "'Consolas', 'Monaco', monospace",
+                backdropFilter: colors.glass,
+                overflow: 'hidden'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '12px 16px',
+                    borderBottom: `1px solid ${colors.border}`,
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    background: 'rgba(255, 255, 255, 0.03)'
+                }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <span className="material-icons" style={{ color: colors.accent, fontSize: '18px' }}>fact_check</span>
+                        <span style={{ fontSize: '12px', fontWeight: '700', letterSpacing: '0.5px', color: colors.textMain }}>
+                            DATA EXTRACTION
+                        </span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            background: 'none',
+                            border: 'none',
+                            color: colors.textDim,
+                            cursor: 'pointer',
+                            padding: '0',
+                            display: 'flex',
+                            opacity: 0.6
+                        }}
+                    >
+                        <span className="material-icons" style={{ fontSize: '16px' }}>close</span>
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px' }}>
+                    <form onSubmit={handleSubmit}>
+                        {references.length === 0 ? (
+                            <div style={{ marginBottom: '16px', fontSize: '11px', color: colors.error }}>
+                                No block references on this sheet.
+                            </div>
+                        ) : (
+                            <>
+                                <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '12px', marginBottom: '16px' }}>
+                                    <div>
+                                        <label style={labelStyle}>Layers (none = all)</label>
+                                        {checkList(layerNames, selectedLayers, setSelectedLayers)}
+                                    </div>
+                                    <div>
+                                        <label style={labelStyle}>Blocks (none = all)</label>
+                                        {checkList(blockNames, selectedBlocks, setSelectedBlocks)}
+                                    </div>
+                                </div>
+
+                                <div style={{ marginBottom: '16px' }}>
+                                    <label style={labelStyle}>Preview · {total} instance(s), {preview.length} row(s)</label>
+                                    <div style={{ ...listStyle, maxHeight: '140px' }}>
+                                        {preview.map((row, index) => (
+                                            <div key={index} style={{ fontSize: '11px', color: colors.textMain, padding: '2px 0' }}>
+                                                <span style={{ color: colors.accent }}>{row.count}×</span> {row.blockName}
+                                                {Object.keys(row.attributes).length > 0 && (
+                                                    <span style={{ color: colors.textDim }}>
+                                                        {' '}{Object.entries(row.attributes).map(([tag, value]) => `${tag}=${value}`).join(', ')}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+
+                                <div style={{ display: 'flex', gap: '24px', marginBottom: '16px' }}>
+                                    {(['TABLE', 'CSV'] as const).map(value => (
+                                        <label key={value} style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '11px', color: colors.textMain, cursor: 'pointer' }}>
+                                            <input type="radio" name="data-extraction-output" checked={output === value} onChange={() => setOutput(value)} />
+                                            {value === 'TABLE' ? 'Table in drawing' : 'CSV file'}
+                                        </label>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+
+                        {/* Footer Buttons */}
+                        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: 'transparent',
+                                    color: colors.textMain,
+                                    border: `1px solid ${colors.border}`,
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontSize: '11px',
+                                    fontFamily: 'inherit',
+                                    transition: 'all 0.2s'
+                                }}
+                            >
+                                CANCEL
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={!canSubmit}
+                                style={{
+                                    padding: '8px 24px',
+                                    backgroundColor: colors.accent,
+                                    color: '#000',
+                                    border: 'none',
+                                    borderRadius: '4px',
+                                    cursor: canSubmit ? 'pointer' : 'not-allowed',
+                                    opacity: canSubmit ? 1 : 0.5,
+                                    fontSize: '11px',
+                                    fontFamily: 'inherit',
+                                    fontWeight: '700',
+                                    transition: 'all 0.2s',
+                                    boxShadow: '0 2px 8px rgba(76, 194, 255, 0.2)'
+                                }}
+                            >
+                                {output === 'TABLE' ? 'INSERT TABLE' : 'EXPORT CSV'}
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default DataExtractionDialog;
@@ -1,6 +1,9 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { PRESET_PATTERNS, PATTERN_CATEGORIES, getPatternPreview, addCustomPattern, deleteCustomPattern } from '../../utils/hatchPatterns';
+import { PRESET_PATTERNS, PATTERN_CATEGORIES, getPatternPreview, addCustomPattern, addPatPatterns, deleteCustomPattern } from '../../utils/hatchPatterns';
+import { parsePatFile } from '../../utils/patFile';
 import { useNotification } from '../../context/NotificationContext';
+import type { HatchGradient } from '../../types/entities';
+import type { IslandDetectionStyle } from '../../utils/boundaryUtils';
 import './HatchDialog.css';
 
 interface HatchDialogProps {
@@ -20,6 +23,10 @@ export interface HatchParams {
     scale: number;
     rotation: number;
     opacity: number;
+    associative?: boolean; // Sınır nesnelerine bağlı (yalnızca kapatılabilir)
+    gradient?: HatchGradient; // Gradyan desenlerinde
+    islandStyle?: IslandDetectionStyle; // Yeni taramada iç nokta seçimi için
+    gapTolerance?: number;
 }
 
 const HatchDialog: React.FC<HatchDialogProps> = ({
@@ -37,10 +44,20 @@ const HatchDialog: React.FC<HatchDialogProps> = ({
     const [scale, setScale] = useState(initialParams?.scale || 1);
     const [rotation, setRotation] = useState(initialParams?.rotation || 0);
     const [opacity, setOpacity] = useState(initialParams?.opacity || 1);
+    const [associative, setAssociative] = useState(!!initialParams?.associative);
+    // Gradyan ayarları (renk 1 = color)
+    const [twoColorGradient, setTwoColorGradient] = useState(!!initialParams?.gradient?.color2);
+    const [gradientColor2, setGradientColor2] = useState(initialParams?.gradient?.color2 || '#ffffff');
+    const [gradientTint, setGradientTint] = useState(initialParams?.gradient?.tint ?? 1);
+    const [gradientAngle, setGradientAngle] = useState(initialParams?.gradient?.angle || 0);
+    const [gradientShift, setGradientShift] = useState(initialParams?.gradient?.shift || 0);
+    const [islandStyle, setIslandStyle] = useState<IslandDetectionStyle>(initialParams?.islandStyle || 'normal');
+    const [gapTolerance, setGapTolerance] = useState(initialParams?.gapTolerance || 0);
     const [activeCategory, setActiveCategory] = useState<string>('architectural');
     const [refreshTrigger, setRefreshTrigger] = useState(0); // Force re-render when new patterns added
     const fileInputRef = React.useRef<HTMLInputElement>(null);
-    const { showConfirm } = useNotification();
+    const patInputRef = React.useRef<HTMLInputElement>(null);
+    const { showConfirm, showWarning } = useNotification();
 
     // Reset to defaults when dialog opens or params change
     useEffect(() => {
@@ -50,9 +67,27 @@ const HatchDialog: React.FC<HatchDialogProps> = ({
             setScale(initialParams?.scale || 1);
             setRotation(initialParams?.rotation || 0);
             setOpacity(initialParams?.opacity || 1);
+            setAssociative(!!initialParams?.associative);
+            setTwoColorGradient(!!initialParams?.gradient?.color2);
+            setGradientColor2(initialParams?.gradient?.color2 || '#ffffff');
+            setGradientTint(initialParams?.gradient?.tint ?? 1);
+            setGradientAngle(initialParams?.gradient?.angle || 0);
+            setGradientShift(initialParams?.gradient?.shift || 0);
+            setIslandStyle(initialParams?.islandStyle || 'normal');
+            setGapTolerance(initialParams?.gapTolerance || 0);
         }
     }, [isOpen, initialParams]);
 
+    // Seçili desen gradyansa geçerli gradyan tanımı
+    const gradientType = PRESET_PATTERNS[selectedPattern]?.type === 'gradient' ? PRESET_PATTERNS[selectedPattern].gradientType ?? 'linear' : null;
+    const gradient = useMemo((): HatchGradient | undefined => gradientType ? {
+        type: gradientType,
+        color1: color,
+        ...(twoColorGradient ? { color2: gradientColor2 } : { tint: gradientTint }),
+        angle: gradientAngle,
+        shift: gradientShift
+    } : undefined, [gradientType, color, twoColorGradient, gradientColor2, gradientTint, gradientAngle, gradientShift]);
+
     // Live update effect - trigger when any parameter changes in edit mode
     useEffect(() => {
         if (editMode && entityId !== undefined && onLiveUpdate) {
@@ -61,10 +96,12 @@ const HatchDialog: React.FC<HatchDialogProps> = ({
                 color,
                 scale,
                 rotation,
-                opacity
+                opacity,
+                associative,
+                gradient
             });
         }
-    }, [editMode, entityId, onLiveUpdate, selectedPattern, color, scale, rotation, opacity]);
+    }, [editMode, entityId, onLiveUpdate, selectedPattern, color, scale, rotation, opacity, associative, gradient]);
 
     // Pattern kategorileri için gruplandırma
     const patternsByCategory = useMemo(() => {
@@ -124,6 +161,34 @@ const HatchDialog: React.FC<HatchDialogProps> = ({
         reader.readAsDataURL(file);
     };
 
+    // .pat dosyasındaki desenler özel desen olarak eklenir
+    const handlePatUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            const { patterns, errors } = parsePatFile(String(event.target?.result || ''));
+            const added = addPatPatterns(patterns);
+            if (added.length > 0) {
+                setRefreshTrigger(prev => prev + 1);
+                setActiveCategory('custom');
+                setSelectedPattern(added[0]);
+            }
+            const skipped = patterns.length - added.length;
+            if (added.length === 0 || errors.length > 0 || skipped > 0) {
+                const lines = [
+                    `${added.length} pattern(s) loaded from ${file.name}.`,
+                    ...(skipped > 0 ? [`${skipped} pattern(s) skipped: a built-in pattern has the same name.`] : []),
+                    ...errors.slice(0, 10),
+                ];
+                showWarning('PAT Import', lines.join('\n'));
+            }
+        };
+        reader.readAsText(file);
+    };
+
     const handleDeletePattern = async (patternKey: string) => {
         const confirmed = await showConfirm('Desen Sil', 'Bu deseni silmek istediğinize emin misiniz?');
         if (confirmed) {
@@ -150,7 +215,10 @@ const HatchDialog: React.FC<HatchDialogProps> = ({
             color,
             scale,
             rotation,
-            opacity
+            opacity,
+            gradient,
+            islandStyle,
+            gapTolerance
         };
 
         if (editMode && entityId !== undefined && onUpdate) {
@@ -235,6 +303,20 @@ const HatchDialog: React.FC<HatchDialogProps> = ({
                                     {Math.round(opacity * 100)}%
                                 </span>
                             </div>
+                            {editMode && (
+                                <label
+                                    style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px' }}
+                                    title="Follow edits of the boundary objects. Once detached, the association cannot be restored."
+                                >
+                                    <input
+                                        type="checkbox"
+                                        checked={associative}
+                                        disabled={!associative}
+                                        onChange={(e) => setAssociative(e.target.checked)}
+                                    />
+                                    Associative
+                                </label>
+                            )}
                         </div>
 
                         {/* Color */}
@@ -259,6 +341,116 @@ const HatchDialog: React.FC<HatchDialogProps> = ({
                                 />
                             </div>
                         </div>
+
+                        {/* Boundary detection (new hatch only) */}
+                        {!editMode && (
+                            <div className="setting-row">
+                                <label>Boundary</label>
+                                <div className="slider-container">
+                                    <label style={{ width: '40px' }}>Islands</label>
+                                    <select
+                                        value={islandStyle}
+                                        onChange={(e) => setIslandStyle(e.target.value as IslandDetectionStyle)}
+                                        style={{ flex: 1, background: '#2b2b2b', color: '#ddd', border: '1px solid #444', borderRadius: '3px', padding: '2px 4px' }}
+                                        title="Normal: nested islands alternate, Outer: outermost islands only, Ignore: no islands"
+                                    >
+                                        <option value="normal">Normal</option>
+                                        <option value="outer">Outer</option>
+                                        <option value="ignore">Ignore</option>
+                                    </select>
+                                </div>
+                                <div className="slider-container">
+                                    <label style={{ width: '40px' }}>Gap</label>
+                                    <input
+                                        type="number"
+                                        className="number-input"
+                                        min="0"
+                                        step="0.1"
+                                        value={gapTolerance}
+                                        onChange={(e) => setGapTolerance(Math.max(0, parseFloat(e.target.value) || 0))}
+                                        title="Gaps up to this distance are treated as closed"
+                                    />
+                                </div>
+                            </div>
+                        )}
+
+                        {/* Gradient */}
+                        {gradientType && (
+                            <div className="setting-row">
+                                <label>Gradient</label>
+                                <div className="slider-container">
+                                    <label style={{ width: '40px' }}>Colors</label>
+                                    <select
+                                        value={twoColorGradient ? 'two' : 'one'}
+                                        onChange={(e) => setTwoColorGradient(e.target.value === 'two')}
+                                        style={{ flex: 1, background: '#2b2b2b', color: '#ddd', border: '1px solid #444', borderRadius: '3px', padding: '2px 4px' }}
+                                    >
+                                        <option value="one">One color</option>
+                                        <option value="two">Two color</option>
+                                    </select>
+                                    {twoColorGradient && (
+                                        <input
+                                            type="color"
+                                            value={gradientColor2}
+                                            onChange={(e) => setGradientColor2(e.target.value)}
+                                            className="color-btn"
+                                            style={{ padding: 0 }}
+                                            title="Color 2"
+                                        />
+                                    )}
+                                </div>
+                                {!twoColorGradient && (
+                                    <div className="slider-container">
+                                        <label style={{ width: '40px' }}>Tint</label>
+                                        <input
+                                            type="range"
+                                            min="0"
+                                            max="1"
+                                            step="0.05"
+                                            value={gradientTint}
+                                            onChange={(e) => setGradientTint(parseFloat(e.target.value))}
+                                            title="Shade (dark) to tint (light)"
+                                        />
+                                        <span className="number-input" style={{ border: 'none', background: 'transparent' }}>
+                                            {gradientTint < 0.5 ? 'Shade' : gradientTint > 0.5 ? 'Tint' : '-'}
+                                        </span>
+                                    </div>
+                                )}
+                                <div className="slider-container">
+                                    <label style={{ width: '40px' }}>Angle</label>
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max="360"
+                                        step="15"
+                                        value={gradientAngle}
+                                        onChange={(e) => setGradientAngle(parseFloat(e.target.value))}
+                                    />
+                                    <input
+                                        type="number"
+                                        className="number-input"
+                                        min="0"
+                                        max="360"
+                                        value={gradientAngle}
+                                        onChange={(e) => setGradientAngle(parseFloat(e.target.value) || 0)}
+                                    />
+                                </div>
+                                <div className="slider-container">
+                                    <label style={{ width: '40px' }}>Shift</label>
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max="1"
+                                        step="0.05"
+                                        value={gradientShift}
+                                        onChange={(e) => setGradientShift(parseFloat(e.target.value))}
+                                    />
+                                    <span className="number-input" style={{ border: 'none', background: 'transparent' }}>
+                                        {gradientShift === 0 ? 'Centered' : Math.round(gradientShift * 100) + '%'}
+                                    </span>
+                                </div>
+                            </div>
+                        )}
                     </div>
 
                     {/* Middle: Pattern Selection */}
@@ -297,6 +489,24 @@ const HatchDialog: React.FC<HatchDialogProps> = ({
                                     />
                                 </button>
                             )}
+                            {activeCategory === 'custom' && (
+                                <button
+                                    className="pattern-item upload-btn"
+                                    onClick={() => patInputRef.current?.click()}
+                                    title="Load AutoCAD .pat file"
+                                    style={{ borderStyle: 'dashed', opacity: 0.7 }}
+                                >
+                                    <span className="material-icons" style={{ fontSize: '24px', color: '#888' }}>texture</span>
+                                    <span className="pattern-name" style={{ opacity: 1, position: 'relative', background: 'transparent', fontSize: '9px', marginTop: '4px' }}>Load .PAT</span>
+                                    <input
+                                        type="file"
+                                        ref={patInputRef}
+                                        style={{ display: 'none' }}
+                                        accept=".pat"
+                                        onChange={handlePatUpload}
+                                    />
+                                </button>
+                            )}
                             {patternsByCategory[activeCategory]?.map(patternKey => {
                                 const pattern = PRESET_PATTERNS[patternKey];
                                 const isSelected = selectedPattern === patternKey;
@@ -0,0 +1,202 @@
+import React from 'react';
+import ReactDOM from 'react-dom';
+import type { DXFImportReport } from '../../utils/dxfLoader';
+
+interface ImportReportDialogProps {
+    isOpen: boolean;
+    fileName: string;
+    report: DXFImportReport | null;
+    onClose: () => void;
+}
+
+const MAX_WARNINGS = 100; // Uyarı listesinde gösterilecek en fazla satır
+
+const ImportReportDialog: React.FC<ImportReportDialogProps> = ({ isOpen, fileName, report, onClose }) => {
+    // Design Tokens
+    const colors = {
+        bg: 'rgba(30, 30, 31, 0.98)',
+        surface: 'rgba(45, 45, 48, 0.5)',
+        border: 'rgba(255, 255, 255, 0.1)',
+        accent: '#4cc2ff',
+        textMain: '#ececec',
+        textDim: '#999999',
+        error: '#ff6b6b',
+        warning: '#ffc04c',
+        success: '#4cffa6',
+        glass: 'blur(16px)',
+        inputBg: 'rgba(0, 0, 0, 0.3)'
+    };
+
+    const labelStyle = {
+        display: 'block',
+        marginBottom: '6px',
+        fontSize: '11px',
+        color: colors.textDim
+    };
+
+    const listStyle = {
+        maxHeight: '140px',
+        overflowY: 'auto' as const,
+        padding: '6px 8px',
+        backgroundColor: colors.inputBg,
+        border: `1px solid ${colors.border}`,
+        borderRadius: '4px'
+    };
+
+    if (!isOpen || !report) return null;
+
+    const sortByCount = (counts: Record<string, number>) => Object.entries(counts).sort((a, b) => b[1] - a[1]);
+    const imported = sortByCount(report.imported);
+    const skipped = sortByCount(report.skipped);
+    const importedCount = imported.reduce((sum, [, count]) => sum + count, 0);
+    const skippedCount = skipped.reduce((sum, [, count]) => sum + count, 0);
+
+    const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.target === e.currentTarget) {
+            onClose();
+        }
+    };
+
+    const renderCounts = (entries: [string, number][], color: string) => (
+        <div style={listStyle}>
+            {entries.map(([type, count]) => (
+                <div key={type} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '11px', color: colors.textMain, padding: '2px 0' }}>
+                    <span>{type}</span>
+                    <span style={{ color }}>{count}</span>
+                </div>
+            ))}
+        </div>
+    );
+
+    return ReactDOM.createPortal(
+        <div
+            onClick={handleOverlayClick}
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                width: '100%',
+                height: '100%',
+                backgroundColor: 'rgba(0,0,0,0.6)',
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'center',
+                zIndex: 2000,
+                backdropFilter: 'blur(5px)'
+            }}
+        >
+            <div style={{
+                backgroundColor: colors.bg,
+                borderRadius: '8px',
+                width: '420px',
+                display: 'flex',
+                flexDirection: 'column',
+                boxShadow: '0 8px 32px rgba(0, 0, 0, 0.6)',
+                border: `1px solid ${colors.border}`,
+                fontFamily: "'Consolas', 'Monaco', monospace",
+                backdropFilter: colors.glass,
+                overflow: 'hidden'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '12px 16px',
+                    borderBottom: `1px solid ${colors.border}`,
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    background: 'rgba(255, 255, 255, 0.03)'
+                }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <span className="material-icons" style={{ color: colors.accent, fontSize: '18px' }}>summarize</span>
+                        <span style={{ fontSize: '12px', fontWeight: '700', letterSpacing: '0.5px', color: colors.textMain }}>
+                            IMPORT REPORT
+                        </span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            background: 'none',
+                            border: 'none',
+                            color: colors.textDim,
+                            cursor: 'pointer',
+                            padding: '0',
+                            display: 'flex',
+                            opacity: 0.6
+                        }}
+                    >
+                        <span className="material-icons" style={{ fontSize: '16px' }}>close</span>
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px' }}>
+                    <div style={{ marginBottom: '16px', fontSize: '11px', color: colors.textMain }}>
+                        <div style={{ color: colors.textDim, marginBottom: '4px' }}>{fileName}</div>
+                        <span style={{ color: colors.success }}>{importedCount} imported</span>
+                        {' · '}
+                        <span style={{ color: skippedCount > 0 ? colors.error : colors.textDim }}>{skippedCount} skipped</span>
+                        {' · '}
+                        {report.blockCount} block definition(s)
+                    </div>
+
+                    {skipped.length > 0 && (
+                        <div style={{ marginBottom: '16px' }}>
+                            <label style={labelStyle}>Skipped entity types</label>
+                            {renderCounts(skipped, colors.error)}
+                        </div>
+                    )}
+
+                    {imported.length > 0 && (
+                        <div style={{ marginBottom: '16px' }}>
+                            <label style={labelStyle}>Imported entity types</label>
+                            {renderCounts(imported, colors.success)}
+                        </div>
+                    )}
+
+                    {report.warnings.length > 0 && (
+                        <div style={{ marginBottom: '16px' }}>
+                            <label style={labelStyle}>Warnings</label>
+                            <div style={listStyle}>
+                                {report.warnings.slice(0, MAX_WARNINGS).map((warning, index) => (
+                                    <div key={index} style={{ fontSize: '11px', color: colors.warning, padding: '1px 0' }}>
+                                        {warning}
+                                    </div>
+                                ))}
+                                {report.warnings.length > MAX_WARNINGS && (
+                                    <div style={{ fontSize: '11px', color: colors.textDim, padding: '1px 0' }}>
+                                        … {report.warnings.length - MAX_WARNINGS} more
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Footer Buttons */}
+                    <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+                        <button
+                            type="button"
+                            onClick={onClose}
+                            style={{
+                                padding: '8px 24px',
+                                backgroundColor: colors.accent,
+                                color: '#000',
+                                border: 'none',
+                                borderRadius: '4px',
+                                cursor: 'pointer',
+                                fontSize: '11px',
+                                fontFamily: 'inherit',
+                                fontWeight: '700',
+                                transition: 'all 0.2s',
+                                boxShadow: '0 2px 8px rgba(76, 194, 255, 0.2)'
+                            }}
+                        >
+                            OK
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default ImportReportDialog;
@@ -0,0 +1,341 @@
+import React, { useState, useEffect } from 'react';
+import ReactDOM from 'react-dom';
+import type { DimensionalConstraint, DimensionalConstraintType, UserParameter, ParametersUpdate } from '../../types/constraints';
+import { evaluateParameters, isValidParameterName, formatParameterValue } from '../../utils/expressionUtils';
+
+interface ParametersDialogProps {
+    isOpen: boolean;
+    dimensions: DimensionalConstraint[];
+    parameters: UserParameter[];
+    focusName?: string;
+    onClose: () => void;
+    onSubmit: (data: ParametersUpdate) => void;
+}
+
+interface ParameterRow {
+    key: string;
+    dimensionId?: number; // Sürücü ölçü satırı; yoksa kullanıcı parametresi
+    dimensionType?: DimensionalConstraintType;
+    name: string;
+    expression: string;
+    description: string;
+}
+
+const TYPE_LABELS: Record<DimensionalConstraintType, string> = {
+    LINEAR: 'Linear',
+    ALIGNED: 'Aligned',
+    RADIAL: 'Radius',
+    DIAMETER: 'Diameter',
+    ANGULAR: 'Angular',
+};
+
+const ParametersDialog: React.FC<ParametersDialogProps> = ({ isOpen, dimensions, parameters, focusName, onClose, onSubmit }) => {
+    const [rows, setRows] = useState<ParameterRow[]>([]);
+
+    // Design Tokens
+    const colors = {
+        bg: 'rgba(30, 30, 31, 0.98)',
+        surface: 'rgba(45, 45, 48, 0.5)',
+        border: 'rgba(255, 255, 255, 0.1)',
+        accent: '#4cc2ff',
+        textMain: '#ececec',
+        textDim: '#999999',
+        error: '#ff6b6b',
+        success: '#4cffa6',
+        glass: 'blur(16px)',
+        inputBg: 'rgba(0, 0, 0, 0.3)'
+    };
+
+    const inputStyle = {
+        width: '100%',
+        padding: '4px 6px',
+        backgroundColor: colors.inputBg,
+        color: colors.textMain,
+        border: `1px solid ${colors.border}`,
+        borderRadius: '4px',
+        fontFamily: "'Consolas', 'Monaco', monospace",
+        fontSize: '11px',
+        outline: 'none',
+        boxSizing: 'border-box' as const
+    };
+
+    const sectionStyle = {
+        marginBottom: '6px',
+        fontSize: '11px',
+        fontWeight: '700' as const,
+        color: colors.textDim
+    };
+
+    useEffect(() => {
+        if (isOpen) {
+            setRows([
+                ...dimensions.map(dim => ({
+                    key: `dim-${dim.id}`,
+                    dimensionId: dim.id,
+                    dimensionType: dim.type,
+                    name: dim.name,
+                    expression: dim.expression,
+                    description: ''
+                })),
+                ...parameters.map((param, index) => ({
+                    key: `user-${index}`,
+                    name: param.name,
+                    expression: param.expression,
+                    description: param.description || ''
+                }))
+            ]);
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    // Canlı değerlendirme: tüm ifadeler birlikte (birbirine başvurabilir)
+    const { values, errors } = evaluateParameters(rows.map(row => ({ name: row.name, expression: row.expression })));
+    const nameError = (row: ParameterRow): string | null => {
+        if (!isValidParameterName(row.name)) return 'Invalid name';
+        if (rows.some(other => other !== row && other.name === row.name)) return 'Duplicate name';
+        return null;
+    };
+    const rowError = (row: ParameterRow): string | null => {
+        const error = nameError(row) || errors[row.name] || null;
+        if (error || row.dimensionId === undefined) return error;
+        const value = values[row.name];
+        if (value <= 0 || (row.dimensionType === 'ANGULAR' && value >= 180)) return 'Value out of range';
+        return null;
+    };
+    const canSubmit = rows.every(row => !rowError(row));
+
+    const updateRow = (key: string, changes: Partial<ParameterRow>) => {
+        setRows(prev => prev.map(row => row.key === key ? { ...row, ...changes } : row));
+    };
+
+    const addUserParameter = () => {
+        const used = new Set(rows.map(row => row.name));
+        let index = 1;
+        while (used.has(`user${index}`)) index++;
+        setRows(prev => [...prev, { key: `new-${Date.now()}`, name: `user${index}`, expression: '1', description: '' }]);
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        onSubmit({
+            dimensions: rows
+                .filter(row => row.dimensionId !== undefined)
+                .map(row => ({ id: row.dimensionId!, name: row.name, expression: row.expression.trim() })),
+            parameters: rows
+                .filter(row => row.dimensionId === undefined)
+                .map(row => ({
+                    name: row.name,
+                    expression: row.expression.trim(),
+                    ...(row.description.trim() ? { description: row.description.trim() } : {})
+                }))
+        });
+    };
+
+    const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.target === e.currentTarget) {
+            onClose();
+        }
+    };
+
+    const renderRow = (row: ParameterRow) => {
+        const error = rowError(row);
+        const focused = row.name === focusName && row.dimensionId !== undefined;
+        return (
+            <div key={row.key} style={{ marginBottom: '8px' }}>
+                <div style={{ display: 'grid', gridTemplateColumns: '80px 1fr 70px 90px 20px', gap: '6px', alignItems: 'center' }}>
+                    <input
+                        type="text"
+                        value={row.name}
+                        onChange={e => updateRow(row.key, { name: e.target.value.trim() })}
+                        style={{ ...inputStyle, borderColor: nameError(row) ? colors.error : colors.border }}
+                    />
+                    <input
+                        type="text"
+                        value={row.expression}
+                        onChange={e => updateRow(row.key, { expression: e.target.value })}
+                        style={{ ...inputStyle, borderColor: focused ? colors.accent : colors.border }}
+                        autoFocus={focused}
+                    />
+                    <span style={{ fontSize: '11px', color: error ? colors.error : colors.success, textAlign: 'right' }}>
+                        {Object.prototype.hasOwnProperty.call(values, row.name) ? formatParameterValue(values[row.name]) : '—'}
+                    </span>
+                    {row.dimensionId !== undefined ? (
+                        <span style={{ fontSize: '11px', color: colors.textDim }}>{TYPE_LABELS[row.dimensionType!]}</span>
+                    ) : (
+                        <input
+                            type="text"
+                            value={row.description}
+                            placeholder="Description"
+                            onChange={e => updateRow(row.key, { description: e.target.value })}
+                            style={inputStyle}
+                        />
+                    )}
+                    <button
+                        type="button"
+                        onClick={() => setRows(prev => prev.filter(other => other.key !== row.key))}
+                        title="Delete"
+                        style={{ background: 'none', border: 'none', color: colors.textDim, cursor: 'pointer', padding: '0', display: 'flex' }}
+                    >
+                        <span className="material-icons" style={{ fontSize: '14px' }}>delete</span>
+                    </button>
+                </div>
+                {error && (
+                    <div style={{ marginTop: '2px', fontSize: '10px', color: colors.error }}>{error}</div>
+                )}
+            </div>
+        );
+    };
+
+    const dimensionRows = rows.filter(row => row.dimensionId !== undefined);
+    const userRows = rows.filter(row => row.dimensionId === undefined);
+
+    return ReactDOM.createPortal(
+        <div
+            onClick={handleOverlayClick}
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                width: '100%',
+                height: '100%',
+                backgroundColor: 'rgba(0,0,0,0.6)',
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'center',
+                zIndex: 2000,
+                backdropFilter: 'blur(5px)'
+            }}
+        >
+            <div style={{
+                backgroundColor: colors.bg,
+                borderRadius: '8px',
+                width: '480px',
+                display: 'flex',
+                flexDirection: 'column',
+                boxShadow: '0 8px 32px rgba(0, 0, 0, 0.6)',
+                border: `1px solid ${colors.border}`,
+                fontFamily: "'Consolas', 'Monaco', monospace",
+                backdropFilter: colors.glass,
+                overflow: 'hidden'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '12px 16px',
+                    borderBottom: `1px solid ${colors.border}`,
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    background: 'rgba(255, 255, 255, 0.03)'
+                }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <span className="material-icons" style={{ color: colors.accent, fontSize: '18px' }}>functions</span>
+                        <span style={{ fontSize: '12px', fontWeight: '700', letterSpacing: '0.5px', color: colors.textMain }}>
+                            PARAMETERS MANAGER
+                        </span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            background: 'none',
+                            border: 'none',
+                            color: colors.textDim,
+                            cursor: 'pointer',
+                            padding: '0',
+                            display: 'flex',
+                            opacity: 0.6
+                        }}
+                    >
+                        <span className="material-icons" style={{ fontSize: '16px' }}>close</span>
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px' }}>
+                    <form onSubmit={handleSubmit}>
+                        <div style={{ maxHeight: '360px', overflowY: 'auto', marginBottom: '16px' }}>
+                            <div style={sectionStyle}>Dimensional Constraint Parameters</div>
+                            {dimensionRows.length === 0 && (
+                                <div style={{ marginBottom: '12px', fontSize: '11px', color: colors.textDim }}>
+                                    No dimensional constraints on this sheet.
+                                </div>
+                            )}
+                            {dimensionRows.map(renderRow)}
+
+                            <div style={{ ...sectionStyle, marginTop: '12px' }}>User Parameters</div>
+                            {userRows.map(renderRow)}
+                            <button
+                                type="button"
+                                onClick={addUserParameter}
+                                style={{
+                                    display: 'flex',
+                                    alignItems: 'center',
+                                    gap: '4px',
+                                    padding: '4px 8px',
+                                    backgroundColor: 'transparent',
+                                    color: colors.accent,
+                                    border: `1px dashed ${colors.border}`,
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontSize: '11px',
+                                    fontFamily: 'inherit'
+                                }}
+                            >
+                                <span className="material-icons" style={{ fontSize: '14px' }}>add</span>
+                                New parameter
+                            </button>
+                        </div>
+
+                        <div style={{ marginBottom: '16px', fontSize: '10px', color: colors.textDim }}>
+                            Expressions: + - * / ^ ( ), sin cos tan (degrees), sqrt abs min max round, pi
+                        </div>
+
+                        {/* Footer Buttons */}
+                        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: 'transparent',
+                                    color: colors.textMain,
+                                    border: `1px solid ${colors.border}`,
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontSize: '11px',
+                                    fontFamily: 'inherit',
+                                    transition: 'all 0.2s'
+                                }}
+                            >
+                                CANCEL
+                            </button>
+                            <button
+                                type="submit"
+                                disabled={!canSubmit}
+                                style={{
+                                    padding: '8px 24px',
+                                    backgroundColor: colors.accent,
+                                    color: '#000',
+                                    border: 'none',
+                                    borderRadius: '4px',
+                                    cursor: canSubmit ? 'pointer' : 'not-allowed',
+                                    opacity: canSubmit ? 1 : 0.5,
+                                    fontSize: '11px',
+                                    fontFamily: 'inherit',
+                                    fontWeight: '700',
+                                    transition: 'all 0.2s',
+                                    boxShadow: '0 2px 8px rgba(76, 194, 255, 0.2)'
+                                }}
+                            >
+                                APPLY
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default ParametersDialog;
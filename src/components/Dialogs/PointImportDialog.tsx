@@ -0,0 +1,354 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import ReactDOM from 'react-dom';
+import { useDrawing } from '../../context/DrawingContext';
+import { useNotification } from '../../context/NotificationContext';
+import type { PointFileColumn, PointFileDelimiter } from '../../types/survey';
+import { DEFAULT_POINT_IMPORT_OPTIONS, POINT_FILE_COLUMN_LABELS } from '../../types/survey';
+import { parsePointFile, splitPointFile } from '../../utils/pointFileLoader';
+
+const PREVIEW_ROWS = 8;
+
+const DELIMITER_LABELS: Record<PointFileDelimiter, string> = {
+    auto: 'Auto detect',
+    comma: 'Comma (,)',
+    semicolon: 'Semicolon (;)',
+    tab: 'Tab',
+    space: 'Space'
+};
+
+/**
+ * Survey point import (CSV/TXT): column mapping over a file preview, labels,
+ * layer-by-code and code polylines. Points are loaded into a new sheet like DXF/SVG imports.
+ */
+const PointImportDialog = () => {
+    const {
+        pointImportDialogState,
+        setPointImportDialogState,
+        setImportReportDialogState,
+        addSheet,
+        loadEntities,
+        triggerZoomToFit
+    } = useDrawing();
+    const { showError } = useNotification();
+
+    const [delimiter, setDelimiter] = useState<PointFileDelimiter>(DEFAULT_POINT_IMPORT_OPTIONS.delimiter);
+    const [columns, setColumns] = useState<PointFileColumn[]>(DEFAULT_POINT_IMPORT_OPTIONS.columns);
+    const [labels, setLabels] = useState(DEFAULT_POINT_IMPORT_OPTIONS.labels);
+    const [labelHeight, setLabelHeight] = useState(DEFAULT_POINT_IMPORT_OPTIONS.labelHeight);
+    const [layerByCode, setLayerByCode] = useState(DEFAULT_POINT_IMPORT_OPTIONS.layerByCode);
+    const [connectByCode, setConnectByCode] = useState(DEFAULT_POINT_IMPORT_OPTIONS.connectByCode);
+
+    // Her yeni dosyada varsayılan P,N,E,Z,CODE düzenine dön
+    useEffect(() => {
+        if (pointImportDialogState.isOpen) {
+            setDelimiter(DEFAULT_POINT_IMPORT_OPTIONS.delimiter);
+            setColumns(DEFAULT_POINT_IMPORT_OPTIONS.columns);
+        }
+    }, [pointImportDialogState.isOpen, pointImportDialogState.content]);
+
+    const rows = useMemo(
+        () => splitPointFile(pointImportDialogState.content, delimiter),
+        [pointImportDialogState.content, delimiter]
+    );
+    const previewRows = rows.slice(0, PREVIEW_ROWS);
+    const columnCount = Math.max(1, ...previewRows.map(row => row.length));
+
+    // Design Tokens
+    const colors = {
+        bg: 'rgba(30, 30, 31, 0.98)',
+        surface: 'rgba(45, 45, 48, 0.5)',
+        border: 'rgba(255, 255, 255, 0.1)',
+        accent: '#4cc2ff',
+        textMain: '#ececec',
+        textDim: '#999999',
+        error: '#ff6b6b',
+        success: '#4cffa6',
+        glass: 'blur(16px)',
+        inputBg: 'rgba(0, 0, 0, 0.3)'
+    };
+
+    const inputStyle = {
+        width: '100%',
+        padding: '6px 8px',
+        backgroundColor: colors.inputBg,
+        color: colors.textMain,
+        border: `1px solid ${colors.border}`,
+        borderRadius: '4px',
+        fontFamily: "'Consolas', 'Monaco', monospace",
+        fontSize: '11px',
+        outline: 'none',
+        boxSizing: 'border-box' as const
+    };
+
+    const labelStyle = {
+        display: 'block',
+        marginBottom: '4px',
+        fontSize: '11px',
+        color: colors.textDim
+    };
+
+    const sectionTitleStyle = {
+        marginTop: 0,
+        marginBottom: '10px',
+        fontSize: '12px',
+        color: colors.accent,
+        fontWeight: '700',
+        letterSpacing: '0.5px',
+        textTransform: 'uppercase' as const,
+        borderBottom: `1px solid ${colors.border}`,
+        paddingBottom: '4px'
+    };
+
+    const checkboxStyle = { display: 'flex', alignItems: 'center', fontSize: '11px', cursor: 'pointer', color: colors.textMain };
+
+    if (!pointImportDialogState.isOpen) return null;
+
+    const handleClose = () => setPointImportDialogState({ isOpen: false, fileName: '', content: '' });
+
+    const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.target === e.currentTarget) {
+            handleClose();
+        }
+    };
+
+    const getColumn = (index: number): PointFileColumn => columns[index] || 'ignore';
+
+    // Bir anlam yalnızca tek sütuna atanabilir; önceki sütun 'ignore' olur
+    const handleColumnChange = (index: number, value: PointFileColumn) => {
+        setColumns(prev => {
+            const next = Array.from({ length: Math.max(prev.length, index + 1) }, (_, i) => prev[i] || 'ignore');
+            if (value !== 'ignore') {
+                next.forEach((column, i) => {
+                    if (column === value) next[i] = 'ignore';
+                });
+            }
+            next[index] = value;
+            return next;
+        });
+    };
+
+    const canImport = columns.includes('northing') && columns.includes('easting');
+
+    const handleImport = () => {
+        if (!canImport) return;
+        const { fileName, content } = pointImportDialogState;
+        const result = parsePointFile(content, { delimiter, columns, labels, labelHeight, layerByCode, connectByCode });
+        if (result.errors.length > 0) {
+            showError('Nokta Dosyası Hatası', 'Nokta dosyası okuma hatası: ' + result.errors.join('\n'));
+            return;
+        }
+        handleClose();
+        addSheet(fileName);
+        setTimeout(() => {
+            loadEntities(result.entities, fileName, result.blocks, result.layers);
+        }, 10);
+        setTimeout(() => triggerZoomToFit(), 150);
+        if (result.warnings.length > 0) {
+            setImportReportDialogState({ isOpen: true, fileName, report: result.report });
+        }
+    };
+
+    const cellStyle = {
+        padding: '4px 6px',
+        borderBottom: `1px solid ${colors.border}`,
+        whiteSpace: 'nowrap' as const,
+        fontSize: '11px'
+    };
+
+    return ReactDOM.createPortal(
+        <div
+            onClick={handleOverlayClick}
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                width: '100%',
+                height: '100%',
+                backgroundColor: 'rgba(0,0,0,0.6)',
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'center',
+                zIndex: 2000,
+                backdropFilter: 'blur(5px)'
+            }}
+        >
+            <div style={{
+                backgroundColor: colors.bg,
+                borderRadius: '8px',
+                width: '620px',
+                maxHeight: '90vh',
+                display: 'flex',
+                flexDirection: 'column',
+                boxShadow: '0 8px 32px rgba(0, 0, 0, 0.6)',
+                border: `1px solid ${colors.border}`,
+                fontFamily: "'Consolas', 'Monaco', monospace",
+                backdropFilter: colors.glass,
+                overflow: 'hidden'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '12px 16px',
+                    borderBottom: `1px solid ${colors.border}`,
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    background: 'rgba(255, 255, 255, 0.03)'
+                }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <span className="material-icons" style={{ color: colors.accent, fontSize: '18px' }}>scatter_plot</span>
+                        <span style={{ fontSize: '12px', fontWeight: '700', letterSpacing: '0.5px', color: colors.textMain }}>
+                            IMPORT POINTS — {pointImportDialogState.fileName}
+                        </span>
+                    </div>
+                    <button
+                        onClick={handleClose}
+                        style={{
+                            background: 'none',
+                            border: 'none',
+                            color: colors.textDim,
+                            cursor: 'pointer',
+                            padding: '0',
+                            display: 'flex',
+                            opacity: 0.6
+                        }}
+                    >
+                        <span className="material-icons" style={{ fontSize: '16px' }}>close</span>
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px', display: 'flex', flexDirection: 'column', gap: '20px', overflowY: 'auto' }}>
+                    {/* Column Mapping */}
+                    <div>
+                        <h4 style={sectionTitleStyle}>Columns</h4>
+                        <div style={{ width: '200px', marginBottom: '12px' }}>
+                            <label style={labelStyle}>Delimiter</label>
+                            <select
+                                value={delimiter}
+                                onChange={e => setDelimiter(e.target.value as PointFileDelimiter)}
+                                style={inputStyle}
+                            >
+                                {(Object.keys(DELIMITER_LABELS) as PointFileDelimiter[]).map(key => (
+                                    <option key={key} value={key}>{DELIMITER_LABELS[key]}</option>
+                                ))}
+                            </select>
+                        </div>
+                        <div style={{ overflowX: 'auto', background: colors.surface, borderRadius: '4px' }}>
+                            <table style={{ borderCollapse: 'collapse', width: '100%', color: colors.textMain }}>
+                                <thead>
+                                    <tr>
+                                        {Array.from({ length: columnCount }, (_, index) => (
+                                            <th key={index} style={{ ...cellStyle, minWidth: '100px' }}>
+                                                <select
+                                                    value={getColumn(index)}
+                                                    onChange={e => handleColumnChange(index, e.target.value as PointFileColumn)}
+                                                    style={{ ...inputStyle, color: getColumn(index) === 'ignore' ? colors.textDim : colors.accent }}
+                                                >
+                                                    {(Object.keys(POINT_FILE_COLUMN_LABELS) as PointFileColumn[]).map(key => (
+                                                        <option key={key} value={key}>{POINT_FILE_COLUMN_LABELS[key]}</option>
+                                                    ))}
+                                                </select>
+                                            </th>
+                                        ))}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {previewRows.map((row, rowIndex) => (
+                                        <tr key={rowIndex}>
+                                            {Array.from({ length: columnCount }, (_, index) => (
+                                                <td key={index} style={{ ...cellStyle, color: getColumn(index) === 'ignore' ? colors.textDim : colors.textMain }}>
+                                                    {row[index] ?? ''}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <div style={{ marginTop: '8px', fontSize: '11px', color: canImport ? colors.textDim : colors.error }}>
+                            {canImport
+                                ? `${rows.length} rows${rows.length > PREVIEW_ROWS ? ` (first ${PREVIEW_ROWS} shown)` : ''}`
+                                : 'Assign northing and easting columns'}
+                        </div>
+                    </div>
+
+                    {/* Options */}
+                    <div>
+                        <h4 style={sectionTitleStyle}>Options</h4>
+                        <div style={{ display: 'flex', gap: '24px' }}>
+                            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', flex: 1 }}>
+                                <label style={checkboxStyle}>
+                                    <input type="checkbox" checked={labels} onChange={e => setLabels(e.target.checked)} style={{ marginRight: '8px' }} />
+                                    Label point number and code
+                                </label>
+                                <label style={checkboxStyle}>
+                                    <input type="checkbox" checked={layerByCode} onChange={e => setLayerByCode(e.target.checked)} style={{ marginRight: '8px' }} />
+                                    Layer per code
+                                </label>
+                                <label style={checkboxStyle}>
+                                    <input type="checkbox" checked={connectByCode} onChange={e => setConnectByCode(e.target.checked)} style={{ marginRight: '8px' }} />
+                                    Connect points with the same code (polyline)
+                                </label>
+                            </div>
+                            <div style={{ width: '140px' }}>
+                                <label style={labelStyle}>Label height</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={0.1}
+                                    value={labelHeight}
+                                    disabled={!labels}
+                                    onChange={e => setLabelHeight(Math.max(0, parseFloat(e.target.value) || 0))}
+                                    style={{ ...inputStyle, opacity: labels ? 1 : 0.5 }}
+                                />
+                            </div>
+                        </div>
+                    </div>
+
+                    {/* Footer Buttons */}
+                    <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+                        <button
+                            type="button"
+                            onClick={handleClose}
+                            style={{
+                                padding: '8px 16px',
+                                backgroundColor: 'transparent',
+                                color: colors.textMain,
+                                border: `1px solid ${colors.border}`,
+                                borderRadius: '4px',
+                                cursor: 'pointer',
+                                fontSize: '11px',
+                                fontFamily: 'inherit'
+                            }}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleImport}
+                            disabled={!canImport}
+                            style={{
+                                padding: '8px 24px',
+                                backgroundColor: colors.accent,
+                                color: '#000',
+                                border: 'none',
+                                borderRadius: '4px',
+                                cursor: canImport ? 'pointer' : 'not-allowed',
+                                opacity: canImport ? 1 : 0.5,
+                                fontSize: '11px',
+                                fontFamily: 'inherit',
+                                fontWeight: '700',
+                                transition: 'all 0.2s',
+                                boxShadow: '0 2px 8px rgba(76, 194, 255, 0.2)'
+                            }}
+                        >
+                            IMPORT
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default PointImportDialog;
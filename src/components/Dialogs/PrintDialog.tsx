@@ -1,33 +1,9 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import ReactDOM from 'react-dom';
-import { useDrawing } from '../../context/DrawingContext';
+import { useDrawing, SCALE_PRESETS } from '../../context/DrawingContext';
+import { PAPER_SIZES, DEFAULT_PLOT_SETTINGS, VECTOR_PDF_PRINTER, HPGL_PRINTER, type PlotSettings } from '../../types/plot';
 import './PrintDialog.css'; // Keep for specific print styles if needed, but override main UI
 
-interface PrintSettings {
-    printer: string;
-    paperSize: string;
-    plotArea: 'display' | 'extents' | 'window';
-    fitToPaper: boolean;
-    scale: string;
-    orientation: 'portrait' | 'landscape';
-    plotStyle: 'none' | 'monochrome' | 'grayscale';
-    centerPlot: boolean;
-    lineweightDisplay: 'default' | 'hairline' | 'thick';
-    margins: { top: number; right: number; bottom: number; left: number };
-    quality: 'draft' | 'normal' | 'high';
-}
-
-// Paper size definitions in mm
-const PAPER_SIZES: { [key: string]: { width: number; height: number; name: string } } = {
-    'iso_a4': { width: 210, height: 297, name: 'A4' },
-    'iso_a3': { width: 297, height: 420, name: 'A3' },
-    'iso_a2': { width: 420, height: 594, name: 'A2' },
-    'iso_a1': { width: 594, height: 841, name: 'A1' },
-    'iso_a0': { width: 841, height: 1189, name: 'A0' },
-    'ansi_letter': { width: 216, height: 279, name: 'Letter' },
-    'ansi_legal': { width: 216, height: 356, name: 'Legal' },
-};
-
 const PrintDialog = () => {
     const {
         printDialogState,
@@ -37,25 +13,15 @@ const PrintDialog = () => {
         startPrintPreview,
         applyZoomWindow,
         getEntitiesBoundingBox,
-        triggerZoomToFit
+        triggerZoomToFit,
+        savePDF,
+        saveHPGL
     } = useDrawing();
 
     // Store original zoom state to restore after print
     const originalZoomRef = useRef<boolean>(false);
 
-    const [settings, setSettings] = useState<PrintSettings>({
-        printer: 'Adobe PDF',
-        paperSize: 'iso_a4',
-        plotArea: 'extents',
-        fitToPaper: true,
-        scale: '1:1',
-        orientation: 'landscape',
-        plotStyle: 'none',
-        centerPlot: true,
-        lineweightDisplay: 'default',
-        margins: { top: 10, right: 10, bottom: 10, left: 10 },
-        quality: 'normal'
-    });
+    const [settings, setSettings] = useState<PlotSettings>(DEFAULT_PLOT_SETTINGS);
 
     // Design Tokens
     const colors = {
@@ -182,6 +148,14 @@ const PrintDialog = () => {
     const handlePrint = () => {
         console.log("Printing with settings:", settings, "Window:", printWindowBox);
 
+        // Yerleşik yazıcılar: ekran görüntüsü yerine ölçekli vektör PDF veya HPGL dosyası indirilir
+        if (settings.printer === VECTOR_PDF_PRINTER || settings.printer === HPGL_PRINTER) {
+            if (settings.printer === HPGL_PRINTER) saveHPGL(settings);
+            else savePDF(settings);
+            setPrintDialogState({ isOpen: false });
+            return;
+        }
+
         // Apply settings
         injectPageCSS(settings.paperSize, settings.orientation, settings.margins);
         applyPlotStyle(settings.plotStyle);
@@ -295,6 +269,8 @@ const PrintDialog = () => {
                                     onChange={e => setSettings({ ...settings, printer: e.target.value })}
                                     style={inputStyle}
                                 >
+                                    <option value={VECTOR_PDF_PRINTER}>Built-in Vector PDF</option>
+                                    <option value={HPGL_PRINTER}>HPGL/2 Plotter (.plt)</option>
                                     <option value="Adobe PDF">Adobe PDF</option>
                                     <option value="Microsoft Print to PDF">Microsoft Print to PDF</option>
                                     <option value="Web Print">Web Browser Print</option>
@@ -412,11 +388,9 @@ const PrintDialog = () => {
                                         onChange={e => setSettings({ ...settings, scale: e.target.value })}
                                         style={inputStyle}
                                     >
-                                        <option value="1:1">1:1</option>
-                                        <option value="1:2">1:2</option>
-                                        <option value="1:10">1:10</option>
-                                        <option value="1:50">1:50</option>
-                                        <option value="1:100">1:100</option>
+                                        {Object.keys(SCALE_PRESETS).map(key => (
+                                            <option key={key} value={key}>{key}</option>
+                                        ))}
                                     </select>
                                 </div>
                             )}
@@ -436,6 +410,40 @@ const PrintDialog = () => {
                                     Center the plot
                                 </label>
                             </div>
+                            <div style={{ marginBottom: '12px' }}>
+                                <label style={labelStyle}>Lineweights</label>
+                                <select
+                                    value={settings.lineweightDisplay}
+                                    onChange={e => setSettings({ ...settings, lineweightDisplay: e.target.value as PlotSettings['lineweightDisplay'] })}
+                                    style={inputStyle}
+                                >
+                                    <option value="default">Object lineweights</option>
+                                    <option value="hairline">Hairline</option>
+                                    <option value="thick">Thick (2x)</option>
+                                </select>
+                            </div>
+                        </div>
+
+                        {/* Margins */}
+                        <div>
+                            <h4 style={sectionTitleStyle}>Margins (mm)</h4>
+                            <div style={{ display: 'flex', gap: '8px' }}>
+                                {(['top', 'right', 'bottom', 'left'] as const).map(side => (
+                                    <div key={side} style={{ flex: 1 }}>
+                                        <label style={labelStyle}>{side.charAt(0).toUpperCase() + side.slice(1)}</label>
+                                        <input
+                                            type="number"
+                                            min={0}
+                                            value={settings.margins[side]}
+                                            onChange={e => setSettings({
+                                                ...settings,
+                                                margins: { ...settings.margins, [side]: Math.max(0, parseFloat(e.target.value) || 0) }
+                                            })}
+                                            style={{ ...inputStyle, boxSizing: 'border-box' as const }}
+                                        />
+                                    </div>
+                                ))}
+                            </div>
                         </div>
 
                         {/* Orientation */}
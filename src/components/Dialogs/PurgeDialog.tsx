@@ -0,0 +1,229 @@
+import React, { useState, useEffect } from 'react';
+import ReactDOM from 'react-dom';
+import type { PurgeItem, PurgeItemKind } from '../../utils/purgeUtils';
+
+interface PurgeDialogProps {
+    isOpen: boolean;
+    items: PurgeItem[];
+    onClose: () => void;
+    onSubmit: (items: PurgeItem[]) => void;
+}
+
+const GROUPS: { kind: PurgeItemKind; label: string; icon: string }[] = [
+    { kind: 'layer', label: 'Layers', icon: 'layers' },
+    { kind: 'block', label: 'Blocks', icon: 'widgets' },
+    { kind: 'pattern', label: 'Hatch Patterns', icon: 'texture' },
+    { kind: 'sheet', label: 'Empty Sheets', icon: 'tab' },
+];
+
+const itemKey = (item: PurgeItem) => `${item.kind}:${item.id}`;
+
+const PurgeDialog: React.FC<PurgeDialogProps> = ({ isOpen, items, onClose, onSubmit }) => {
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+
+    // Design Tokens
+    const colors = {
+        bg: 'rgba(30, 30, 31, 0.98)',
+        surface: 'rgba(45, 45, 48, 0.5)',
+        border: 'rgba(255, 255, 255, 0.1)',
+        accent: '#4cc2ff',
+        textMain: '#ececec',
+        textDim: '#999999',
+        error: '#ff6b6b',
+        success: '#4cffa6',
+        glass: 'blur(16px)',
+        inputBg: 'rgba(0, 0, 0, 0.3)'
+    };
+
+    const listStyle = {
+        maxHeight: '320px',
+        overflowY: 'auto' as const,
+        padding: '6px 8px',
+        backgroundColor: colors.inputBg,
+        border: `1px solid ${colors.border}`,
+        borderRadius: '4px'
+    };
+
+    useEffect(() => {
+        if (isOpen) {
+            // Varsayılan: tüm kullanılmayan öğeler seçili
+            setSelected(new Set(items.map(itemKey)));
+        }
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const canSubmit = selected.size > 0;
+
+    const toggle = (key: string) => {
+        setSelected(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        onSubmit(items.filter(item => selected.has(itemKey(item))));
+    };
+
+    const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.target === e.currentTarget) {
+            onClose();
+        }
+    };
+
+    return ReactDOM.createPortal(
+        <div
+            onClick={handleOverlayClick}
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                width: '100%',
+                height: '100%',
+                backgroundColor: 'rgba(0,0,0,0.6)',
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'center',
+                zIndex: 2000,
+                backdropFilter: 'blur(5px)'
+            }}
+        >
+            <div style={{
+                backgroundColor: colors.bg,
+                borderRadius: '8px',
+                width: '380px',
+                display: 'flex',
+                flexDirection: 'column',
+                boxShadow: '0 8px 32px rgba(0, 0, 0, 0.6)',
+                border: `1px solid ${colors.border}`,
+                fontFamily: "'Consolas', 'Monaco', monospace",
+                backdropFilter: colors.glass,
+                overflow: 'hidden'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '12px 16px',
+                    borderBottom: `1px solid ${colors.border}`,
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    background: 'rgba(255, 255, 255, 0.03)'
+                }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <span className="material-icons" style={{ color: colors.accent, fontSize: '18px' }}>delete_sweep</span>
+                        <span style={{ fontSize: '12px', fontWeight: '700', letterSpacing: '0.5px', color: colors.textMain }}>
+                            PURGE
+                        </span>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        style={{
+                            background: 'none',
+                            border: 'none',
+                            color: colors.textDim,
+                            cursor: 'pointer',
+                            padding: '0',
+                            display: 'flex',
+                            opacity: 0.6
+                        }}
+                    >
+                        <span className="material-icons" style={{ fontSize: '16px' }}>close</span>
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px' }}>
+                    <form onSubmit={handleSubmit}>
+                        {items.length === 0 ? (
+                            <div style={{ marginBottom: '16px', fontSize: '11px', color: colors.success }}>
+                                Nothing to purge. All named items are in use.
+                            </div>
+                        ) : (
+                            <>
+                                <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '6px', fontSize: '11px', color: colors.textDim }}>
+                                    <span>Unused items · {selected.size}/{items.length} selected</span>
+                                    <span
+                                        onClick={() => setSelected(selected.size === items.length ? new Set() : new Set(items.map(itemKey)))}
+                                        style={{ color: colors.accent, cursor: 'pointer' }}
+                                    >
+                                        {selected.size === items.length ? 'Select none' : 'Select all'}
+                                    </span>
+                                </div>
+                                <div style={{ ...listStyle, marginBottom: '16px' }}>
+                                    {GROUPS.map(group => {
+                                        const groupItems = items.filter(item => item.kind === group.kind);
+                                        if (groupItems.length === 0) return null;
+                                        return (
+                                            <div key={group.kind} style={{ marginBottom: '8px' }}>
+                                                <div style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '11px', fontWeight: '700', color: colors.textDim, padding: '2px 0' }}>
+                                                    <span className="material-icons" style={{ fontSize: '14px' }}>{group.icon}</span>
+                                                    {group.label} ({groupItems.length})
+                                                </div>
+                                                {groupItems.map(item => (
+                                                    <label key={itemKey(item)} style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '11px', color: colors.textMain, cursor: 'pointer', padding: '2px 0 2px 20px' }}>
+                                                        <input type="checkbox" checked={selected.has(itemKey(item))} onChange={() => toggle(itemKey(item))} />
+                                                        {item.name}
+                                                    </label>
+                                                ))}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </>
+                        )}
+
+                        {/* Footer Buttons */}
+                        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+                            <button
+                                type="button"
+                                onClick={onClose}
+                                style={{
+                                    padding: '8px 16px',
+                                    backgroundColor: 'transparent',
+                                    color: colors.textMain,
+                                    border: `1px solid ${colors.border}`,
+                                    borderRadius: '4px',
+                                    cursor: 'pointer',
+                                    fontSize: '11px',
+                                    fontFamily: 'inherit',
+                                    transition: 'all 0.2s'
+                                }}
+                            >
+                                {items.length === 0 ? 'CLOSE' : 'CANCEL'}
+                            </button>
+                            {items.length > 0 && (
+                                <button
+                                    type="submit"
+                                    disabled={!canSubmit}
+                                    style={{
+                                        padding: '8px 24px',
+                                        backgroundColor: colors.accent,
+                                        color: '#000',
+                                        border: 'none',
+                                        borderRadius: '4px',
+                                        cursor: canSubmit ? 'pointer' : 'not-allowed',
+                                        opacity: canSubmit ? 1 : 0.5,
+                                        fontSize: '11px',
+                                        fontFamily: 'inherit',
+                                        fontWeight: '700',
+                                        transition: 'all 0.2s',
+                                        boxShadow: '0 2px 8px rgba(76, 194, 255, 0.2)'
+                                    }}
+                                >
+                                    PURGE
+                                </button>
+                            )}
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default PurgeDialog;
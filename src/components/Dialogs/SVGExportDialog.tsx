@@ -0,0 +1,319 @@
+import React, { useState, useEffect } from 'react';
+import ReactDOM from 'react-dom';
+import { useDrawing, SCALE_PRESETS } from '../../context/DrawingContext';
+import { convertToUnit } from '../../utils/unitConversion';
+import { DEFAULT_SVG_EXPORT_OPTIONS } from '../../types/svg';
+
+type ScaleKey = keyof typeof SCALE_PRESETS;
+
+const SVGExportDialog = () => {
+    const {
+        svgExportDialogState,
+        setSvgExportDialogState,
+        startPrintWindow,
+        printWindowBox,
+        getEntitiesBoundingBox,
+        drawingScale,
+        baseUnit,
+        saveSVG
+    } = useDrawing();
+
+    const [area, setArea] = useState<'extents' | 'window'>('extents');
+    const [scale, setScale] = useState<ScaleKey>('1:1');
+    const [margin, setMargin] = useState(DEFAULT_SVG_EXPORT_OPTIONS.margin);
+    const [transparent, setTransparent] = useState(false);
+
+    // Diyalog açıldığında sayfanın çizim ölçeğiyle başla
+    useEffect(() => {
+        if (svgExportDialogState.isOpen && drawingScale in SCALE_PRESETS) {
+            setScale(drawingScale as ScaleKey);
+        }
+    }, [svgExportDialogState.isOpen, drawingScale]);
+
+    // Update area if window box is selected
+    useEffect(() => {
+        if (printWindowBox && svgExportDialogState.isOpen) {
+            setArea('window');
+        }
+    }, [printWindowBox, svgExportDialogState.isOpen]);
+
+    // Design Tokens
+    const colors = {
+        bg: 'rgba(30, 30, 31, 0.98)',
+        surface: 'rgba(45, 45, 48, 0.5)',
+        border: 'rgba(255, 255, 255, 0.1)',
+        accent: '#4cc2ff',
+        textMain: '#ececec',
+        textDim: '#999999',
+        error: '#ff6b6b',
+        success: '#4cffa6',
+        glass: 'blur(16px)',
+        inputBg: 'rgba(0, 0, 0, 0.3)'
+    };
+
+    const inputStyle = {
+        width: '100%',
+        padding: '6px 8px',
+        backgroundColor: colors.inputBg,
+        color: colors.textMain,
+        border: `1px solid ${colors.border}`,
+        borderRadius: '4px',
+        fontFamily: "'Consolas', 'Monaco', monospace",
+        fontSize: '11px',
+        outline: 'none',
+        boxSizing: 'border-box' as const
+    };
+
+    const labelStyle = {
+        display: 'block',
+        marginBottom: '4px',
+        fontSize: '11px',
+        color: colors.textDim
+    };
+
+    const sectionTitleStyle = {
+        marginTop: 0,
+        marginBottom: '10px',
+        fontSize: '12px',
+        color: colors.accent,
+        fontWeight: '700',
+        letterSpacing: '0.5px',
+        textTransform: 'uppercase' as const,
+        borderBottom: `1px solid ${colors.border}`,
+        paddingBottom: '4px'
+    };
+
+    if (!svgExportDialogState.isOpen) return null;
+
+    const handleClose = () => setSvgExportDialogState({ isOpen: false });
+
+    const handleOverlayClick = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (e.target === e.currentTarget) {
+            handleClose();
+        }
+    };
+
+    const windowRegion = printWindowBox ? {
+        min: printWindowBox.start,
+        max: printWindowBox.end
+    } : undefined;
+
+    // Kağıt boyutu önizlemesi (mm)
+    const regionBox = area === 'window' ? windowRegion : getEntitiesBoundingBox();
+    const factor = convertToUnit(1, baseUnit, 'mm') * SCALE_PRESETS[scale];
+    const paperSize = regionBox ? {
+        width: Math.abs(regionBox.max[0] - regionBox.min[0]) * factor + margin * 2,
+        height: Math.abs(regionBox.max[1] - regionBox.min[1]) * factor + margin * 2
+    } : null;
+
+    const canExport = area === 'extents' || !!windowRegion;
+
+    const handleExport = () => {
+        if (!canExport) return;
+        saveSVG({
+            area,
+            window: area === 'window' ? windowRegion : undefined,
+            scale: SCALE_PRESETS[scale],
+            margin,
+            background: transparent ? null : '#ffffff'
+        });
+        handleClose();
+    };
+
+    return ReactDOM.createPortal(
+        <div
+            onClick={handleOverlayClick}
+            style={{
+                position: 'fixed',
+                top: 0,
+                left: 0,
+                width: '100%',
+                height: '100%',
+                backgroundColor: 'rgba(0,0,0,0.6)',
+                display: 'flex',
+                justifyContent: 'center',
+                alignItems: 'center',
+                zIndex: 2000,
+                backdropFilter: 'blur(5px)'
+            }}
+        >
+            <div style={{
+                backgroundColor: colors.bg,
+                borderRadius: '8px',
+                width: '380px',
+                display: 'flex',
+                flexDirection: 'column',
+                boxShadow: '0 8px 32px rgba(0, 0, 0, 0.6)',
+                border: `1px solid ${colors.border}`,
+                fontFamily: "'Consolas', 'Monaco', monospace",
+                backdropFilter: colors.glass,
+                overflow: 'hidden'
+            }}>
+                {/* Header */}
+                <div style={{
+                    padding: '12px 16px',
+                    borderBottom: `1px solid ${colors.border}`,
+                    display: 'flex',
+                    justifyContent: 'space-between',
+                    alignItems: 'center',
+                    background: 'rgba(255, 255, 255, 0.03)'
+                }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <span className="material-icons" style={{ color: colors.accent, fontSize: '18px' }}>image</span>
+                        <span style={{ fontSize: '12px', fontWeight: '700', letterSpacing: '0.5px', color: colors.textMain }}>
+                            EXPORT SVG
+                        </span>
+                    </div>
+                    <button
+                        onClick={handleClose}
+                        style={{
+                            background: 'none',
+                            border: 'none',
+                            color: colors.textDim,
+                            cursor: 'pointer',
+                            padding: '0',
+                            display: 'flex',
+                            opacity: 0.6
+                        }}
+                    >
+                        <span className="material-icons" style={{ fontSize: '16px' }}>close</span>
+                    </button>
+                </div>
+
+                <div style={{ padding: '24px', display: 'flex', flexDirection: 'column', gap: '20px' }}>
+                    {/* Export Area */}
+                    <div>
+                        <h4 style={sectionTitleStyle}>Export Area</h4>
+                        <select
+                            value={area}
+                            onChange={e => setArea(e.target.value as 'extents' | 'window')}
+                            style={inputStyle}
+                        >
+                            <option value="extents">Extents</option>
+                            <option value="window">Window</option>
+                        </select>
+
+                        {area === 'window' && (
+                            <div style={{ marginTop: '12px', padding: '12px', background: 'rgba(255,255,255,0.03)', borderRadius: '4px' }}>
+                                <button
+                                    type="button"
+                                    onClick={() => startPrintWindow('svg')}
+                                    style={{
+                                        display: 'flex',
+                                        alignItems: 'center',
+                                        gap: '8px',
+                                        padding: '8px 12px',
+                                        backgroundColor: 'rgba(76, 194, 255, 0.15)',
+                                        color: colors.accent,
+                                        border: `1px solid ${colors.accent}`,
+                                        borderRadius: '4px',
+                                        cursor: 'pointer',
+                                        fontSize: '11px',
+                                        fontFamily: 'inherit',
+                                        width: '100%',
+                                        justifyContent: 'center'
+                                    }}
+                                >
+                                    <span className="material-icons" style={{ fontSize: '16px' }}>crop_free</span>
+                                    Select Window
+                                </button>
+                                {printWindowBox ? (
+                                    <div style={{ marginTop: '8px', fontSize: '11px', color: colors.success, textAlign: 'center' }}>Window Selected ✓</div>
+                                ) : (
+                                    <div style={{ marginTop: '8px', fontSize: '11px', color: colors.error, textAlign: 'center' }}>No Window Selected</div>
+                                )}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Scale & Page */}
+                    <div>
+                        <h4 style={sectionTitleStyle}>Scale</h4>
+                        <div style={{ display: 'flex', gap: '12px', marginBottom: '12px' }}>
+                            <div style={{ flex: 1 }}>
+                                <label style={labelStyle}>Drawing scale</label>
+                                <select
+                                    value={scale}
+                                    onChange={e => setScale(e.target.value as ScaleKey)}
+                                    style={inputStyle}
+                                >
+                                    {Object.keys(SCALE_PRESETS).map(key => (
+                                        <option key={key} value={key}>{key}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div style={{ flex: 1 }}>
+                                <label style={labelStyle}>Margin (mm)</label>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    value={margin}
+                                    onChange={e => setMargin(Math.max(0, parseFloat(e.target.value) || 0))}
+                                    style={inputStyle}
+                                />
+                            </div>
+                        </div>
+                        <label style={{ display: 'flex', alignItems: 'center', fontSize: '11px', cursor: 'pointer', color: colors.textMain }}>
+                            <input
+                                type="checkbox"
+                                checked={transparent}
+                                onChange={e => setTransparent(e.target.checked)}
+                                style={{ marginRight: '8px' }}
+                            />
+                            Transparent background
+                        </label>
+                        <div style={{ marginTop: '12px', fontSize: '11px', color: colors.textDim }}>
+                            Page size: {paperSize
+                                ? `${paperSize.width.toFixed(1)} x ${paperSize.height.toFixed(1)} mm`
+                                : '—'}
+                        </div>
+                    </div>
+
+                    {/* Footer Buttons */}
+                    <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '12px' }}>
+                        <button
+                            type="button"
+                            onClick={handleClose}
+                            style={{
+                                padding: '8px 16px',
+                                backgroundColor: 'transparent',
+                                color: colors.textMain,
+                                border: `1px solid ${colors.border}`,
+                                borderRadius: '4px',
+                                cursor: 'pointer',
+                                fontSize: '11px',
+                                fontFamily: 'inherit'
+                            }}
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="button"
+                            onClick={handleExport}
+                            disabled={!canExport}
+                            style={{
+                                padding: '8px 24px',
+                                backgroundColor: colors.accent,
+                                color: '#000',
+                                border: 'none',
+                                borderRadius: '4px',
+                                cursor: canExport ? 'pointer' : 'not-allowed',
+                                opacity: canExport ? 1 : 0.5,
+                                fontSize: '11px',
+                                fontFamily: 'inherit',
+                                fontWeight: '700',
+                                transition: 'all 0.2s',
+                                boxShadow: '0 2px 8px rgba(76, 194, 255, 0.2)'
+                            }}
+                        >
+                            EXPORT
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>,
+        document.body
+    );
+};
+
+export default SVGExportDialog;
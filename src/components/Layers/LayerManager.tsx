@@ -2,7 +2,7 @@ import React, { useState } from 'react';
 import { useDrawing } from '../../context/DrawingContext';
 import { useNotification } from '../../context/NotificationContext';
 import { Layer } from '../../types/layers';
-import { ACI_COLORS } from '../../types/layers';
+import { ACI_COLORS, MAX_TRANSPARENCY } from '../../types/layers';
 import './LayerManager.css';
 
 import './LayerManager.css';
@@ -109,6 +109,7 @@ const LayerManager: React.FC<LayerManagerProps> = ({ onClose }) => {
                     <div className="col-visible">On</div>
                     <div className="col-locked">Lock</div>
                     <div className="col-plot">Plot</div>
+                    <div className="col-transparency">Transp.</div>
                     <div className="col-action"></div>
                 </div>
 
@@ -179,6 +180,22 @@ const LayerManager: React.FC<LayerManagerProps> = ({ onClose }) => {
                                 {layer.plot ? 'print' : 'print_disabled'}
                             </span>
                         </div>
+                        <div className="col-transparency">
+                            <input
+                                type="number"
+                                min="0"
+                                max={MAX_TRANSPARENCY}
+                                step="10"
+                                value={layer.transparency ?? 0}
+                                onChange={(e) => {
+                                    const value = parseInt(e.target.value, 10);
+                                    updateLayer(layer.id, { transparency: isNaN(value) ? 0 : Math.min(MAX_TRANSPARENCY, Math.max(0, value)) });
+                                }}
+                                onClick={(e) => e.stopPropagation()}
+                                onKeyDown={(e) => e.stopPropagation()}
+                                title="Layer transparency (%)"
+                            />
+                        </div>
                         <div className="col-action">
                             {layer.name !== '0' && (
                                 <button
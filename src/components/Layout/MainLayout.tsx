@@ -1,4 +1,4 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import { useDrawing } from '../../context/DrawingContext';
 import { useNotification } from '../../context/NotificationContext';
 import { FaFile, FaFolderOpen, FaSave, FaPrint } from 'react-icons/fa';
@@ -13,10 +13,22 @@ import TableEditDialog from '../Dialogs/TableEditDialog';
 import DimensionSettingsDialog from '../Dialogs/DimensionSettingsDialog';
 import DimensionEditDialog from '../Dialogs/DimensionEditDialog';
 import PrintDialog from '../Dialogs/PrintDialog';
+import SVGExportDialog from '../Dialogs/SVGExportDialog';
+import CAMExportDialog from '../Dialogs/CAMExportDialog';
+import PointImportDialog from '../Dialogs/PointImportDialog';
+import BlockDialog from '../Dialogs/BlockDialog';
+import AttributeDialog from '../Dialogs/AttributeDialog';
+import DataExtractionDialog from '../Dialogs/DataExtractionDialog';
+import ParametersDialog from '../Dialogs/ParametersDialog';
+import PurgeDialog from '../Dialogs/PurgeDialog';
+import AuditDialog from '../Dialogs/AuditDialog';
+import ImportReportDialog from '../Dialogs/ImportReportDialog';
+import { getPromptedAttributes } from '../../utils/blockUtils';
 import LayerManager from '../Layers/LayerManager';
 import { DimensionSettings, saveDimensionSettings } from '../../types/dimensionSettings';
 import { parseDxf } from '../../utils/dxfLoader';
-import { exportDXF } from '../../utils/dxfExporter';
+import { parseSvg } from '../../utils/svgLoader';
+import { isBlockReference } from '../../utils/blockUtils';
 import type { DimensionEntity } from '../../types/entities';
 import './MainLayout.css';
 
@@ -36,8 +48,30 @@ const MainLayout = () => {
         setDimensionSettingsDialogState,
         dimensionEditDialogState,
         setDimensionEditDialogState,
+        blockDialogState,
+        setBlockDialogState,
+        attributeDialogState,
+        setAttributeDialogState,
+        dataExtractionDialogState,
+        setDataExtractionDialogState,
+        parametersDialogState,
+        setParametersDialogState,
+        purgeDialogState,
+        setPurgeDialogState,
+        auditDialogState,
+        setAuditDialogState,
+        importReportDialogState,
+        setImportReportDialogState,
+        setPointImportDialogState,
+        dimensionalConstraints,
+        parameters,
+        blocks,
+        blockEditorName,
+        closeBlockEditor,
         entities,
         updateEntity,
+        detachedHatchIds,
+        clearDetachedHatchIds,
         startCommand,
         // Sheet management
         sheets,
@@ -55,6 +89,7 @@ const MainLayout = () => {
         cancelInPlaceEdit,
         // File operations
         fileName,
+        saveDXF,
         addSheet,
         loadEntities,
         // Print
@@ -70,9 +105,28 @@ const MainLayout = () => {
         triggerView
     } = useDrawing();
 
-    const { showError } = useNotification();
+    const { showError, showWarning } = useNotification();
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    // Blok adı -> referans sayısı (blok diyaloğu için)
+    const blockInstanceCounts = useMemo(() => {
+        const counts: Record<string, number> = {};
+        entities.forEach(ent => {
+            if (isBlockReference(ent)) {
+                counts[ent.blockName] = (counts[ent.blockName] || 0) + 1;
+            }
+        });
+        return counts;
+    }, [entities]);
+
+    // İlişkisel taramanın sınırı açıldığında kullanıcıyı bilgilendir
+    useEffect(() => {
+        if (detachedHatchIds.length === 0) return;
+        const count = detachedHatchIds.length;
+        clearDetachedHatchIds();
+        showWarning('Hatch', `${count} hatch${count > 1 ? 'es' : ''} lost associativity: the boundary is no longer closed.`);
+    }, [detachedHatchIds, clearDetachedHatchIds, showWarning]);
+
 
 
 
@@ -154,7 +208,7 @@ const MainLayout = () => {
                     <button className="qat-btn" onClick={() => fileInputRef.current?.click()} title="Open">
                         <FaFolderOpen />
                     </button>
-                    <button className="qat-btn" onClick={() => exportDXF(entities, fileName)} title="Save">
+                    <button className="qat-btn" onClick={() => saveDXF(fileName)} title="Save">
                         <FaSave />
                     </button>
                     <button className="qat-btn" onClick={() => setPrintDialogState({ isOpen: true })} title="Print">
@@ -166,23 +220,31 @@ const MainLayout = () => {
                     type="file"
                     ref={fileInputRef}
                     style={{ display: 'none' }}
-                    accept=".dxf,.dwg"
+                    accept=".dxf,.dwg,.svg,.csv,.txt"
                     onChange={(e) => {
                         const file = e.target.files?.[0];
                         if (file) {
                             const reader = new FileReader();
                             reader.onload = (event) => {
                                 const content = event.target?.result as string;
-                                const result = parseDxf(content);
+                                if (/\.(csv|txt)$/i.test(file.name)) {
+                                    setPointImportDialogState({ isOpen: true, fileName: file.name, content });
+                                    return;
+                                }
+                                const format = file.name.toLowerCase().endsWith('.svg') ? 'SVG' : 'DXF';
+                                const result = format === 'SVG' ? parseSvg(content) : parseDxf(content);
                                 if (result.errors.length > 0) {
-                                    showError('DXF Hatası', 'DXF okuma hatası: ' + result.errors.join('\n'));
+                                    showError(`${format} Hatası`, `${format} okuma hatası: ` + result.errors.join('\n'));
                                     return;
                                 }
                                 addSheet(file.name);
                                 setTimeout(() => {
-                                    loadEntities(result.entities, file.name);
+                                    loadEntities(result.entities, file.name, result.blocks, result.layers);
                                 }, 10);
                                 setTimeout(() => triggerZoomToFit(), 150);
+                                if (Object.keys(result.report.skipped).length > 0 || result.warnings.length > 0) {
+                                    setImportReportDialogState({ isOpen: true, fileName: file.name, report: result.report });
+                                }
                             };
                             reader.readAsText(file);
                         }
@@ -289,6 +351,118 @@ const MainLayout = () => {
                 initialValues={tableDialogState.initialValues}
             />
 
+            {/* Blok tanımlama / ekleme diyaloğu */}
+            <BlockDialog
+                isOpen={blockDialogState.isOpen}
+                mode={blockDialogState.mode}
+                blocks={blocks}
+                instanceCounts={blockInstanceCounts}
+                onClose={() => {
+                    setBlockDialogState(prev => ({ ...prev, isOpen: false }));
+                    cancelCommand();
+                }}
+                onSubmit={(data) => {
+                    if (blockDialogState.callback) {
+                        blockDialogState.callback(data);
+                    }
+                    setBlockDialogState(prev => ({ ...prev, isOpen: false }));
+                }}
+            />
+
+            {/* Öznitelik tanımlama (ATTDEF) / değer girişi (INSERT) diyaloğu */}
+            <AttributeDialog
+                isOpen={attributeDialogState.isOpen}
+                mode={attributeDialogState.mode}
+                blockName={attributeDialogState.blockName}
+                definitions={attributeDialogState.blockName ? getPromptedAttributes(blocks[attributeDialogState.blockName]) : []}
+                values={attributeDialogState.values}
+                onClose={() => {
+                    setAttributeDialogState(prev => ({ ...prev, isOpen: false }));
+                    cancelCommand();
+                }}
+                onSubmit={(data) => {
+                    if (attributeDialogState.callback) {
+                        attributeDialogState.callback(data);
+                    }
+                    setAttributeDialogState(prev => ({ ...prev, isOpen: false }));
+                }}
+            />
+
+            {/* Veri çıkarma (malzeme listesi) diyaloğu */}
+            <DataExtractionDialog
+                isOpen={dataExtractionDialogState.isOpen}
+                entities={entities}
+                blocks={blocks}
+                onClose={() => {
+                    setDataExtractionDialogState(prev => ({ ...prev, isOpen: false }));
+                    cancelCommand();
+                }}
+                onSubmit={(data) => {
+                    if (dataExtractionDialogState.callback) {
+                        dataExtractionDialogState.callback(data);
+                    }
+                    setDataExtractionDialogState(prev => ({ ...prev, isOpen: false }));
+                }}
+            />
+
+            <ParametersDialog
+                isOpen={parametersDialogState.isOpen}
+                dimensions={dimensionalConstraints}
+                parameters={parameters}
+                focusName={parametersDialogState.focusName}
+                onClose={() => {
+                    setParametersDialogState(prev => ({ ...prev, isOpen: false }));
+                    cancelCommand();
+                }}
+                onSubmit={(data) => {
+                    if (parametersDialogState.callback) {
+                        parametersDialogState.callback(data);
+                    }
+                    setParametersDialogState(prev => ({ ...prev, isOpen: false }));
+                    cancelCommand();
+                }}
+            />
+
+            <PurgeDialog
+                isOpen={purgeDialogState.isOpen}
+                items={purgeDialogState.items}
+                onClose={() => {
+                    setPurgeDialogState(prev => ({ ...prev, isOpen: false }));
+                    cancelCommand();
+                }}
+                onSubmit={(items) => {
+                    if (purgeDialogState.callback) {
+                        purgeDialogState.callback(items);
+                    }
+                    setPurgeDialogState(prev => ({ ...prev, isOpen: false }));
+                    cancelCommand();
+                }}
+            />
+
+            <AuditDialog
+                isOpen={auditDialogState.isOpen}
+                report={auditDialogState.report}
+                onClose={() => {
+                    setAuditDialogState(prev => ({ ...prev, isOpen: false }));
+                    cancelCommand();
+                }}
+                onSubmit={(fix) => {
+                    if (auditDialogState.callback) {
+                        auditDialogState.callback(fix);
+                    }
+                    setAuditDialogState(prev => ({ ...prev, isOpen: false }));
+                    cancelCommand();
+                }}
+            />
+
+            {/* DXF İçe Aktarma Raporu */}
+            <ImportReportDialog
+                isOpen={importReportDialogState.isOpen}
+                fileName={importReportDialogState.fileName}
+                report={importReportDialogState.report}
+                onClose={() => setImportReportDialogState(prev => ({ ...prev, isOpen: false }))}
+            />
+
             {/* Ölçülendirme Ayarları Diyaloğu */}
             <DimensionSettingsDialog
                 isOpen={dimensionSettingsDialogState.isOpen}
@@ -305,6 +479,9 @@ const MainLayout = () => {
 
             {/* Print Dialog */}
             <PrintDialog />
+            <SVGExportDialog />
+            <CAMExportDialog />
+            <PointImportDialog />
 
             {/* Print Preview Overlay */}
             {printPreviewMode && (
@@ -323,6 +500,32 @@ const MainLayout = () => {
                 </div>
             )}
 
+            {/* Blok Editörü Çubuğu */}
+            {blockEditorName && (
+                <div className="block-editor-overlay">
+                    <div className="block-editor-toolbar">
+                        <span className="material-icons" style={{ fontSize: '18px' }}>edit</span>
+                        <span style={{ fontWeight: 'bold' }}>Block Editor: {blockEditorName}</span>
+                        <div style={{ display: 'flex', gap: '10px' }}>
+                            <button
+                                className="qa-btn"
+                                style={{ width: 'auto', padding: '0 10px' }}
+                                onClick={() => {
+                                    if (!closeBlockEditor(true)) {
+                                        showError('Blok Hatası', `"${blockEditorName}" bloğu kendisini içeremez.`);
+                                    }
+                                }}
+                            >
+                                <span className="material-icons" style={{ fontSize: '16px', marginRight: '5px' }}>save</span> Save &amp; Close
+                            </button>
+                            <button className="qa-btn" style={{ width: 'auto', padding: '0 10px' }} onClick={() => closeBlockEditor(false)}>
+                                <span className="material-icons" style={{ fontSize: '16px', marginRight: '5px' }}>close</span> Discard
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* Ölçü Düzenleme Diyaloğu */}
             <DimensionEditDialog
                 isOpen={dimensionEditDialogState.isOpen}
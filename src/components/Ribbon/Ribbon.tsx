@@ -6,9 +6,10 @@ import {
 import { useDrawing } from '../../context/DrawingContext';
 import { useNotification } from '../../context/NotificationContext';
 import { parseDxf } from '../../utils/dxfLoader';
-import { exportDXF } from '../../utils/dxfExporter';
+import { parseSvg } from '../../utils/svgLoader';
 import { PRESET_PATTERNS, PATTERN_CATEGORIES, getPatternPreview } from '../../utils/hatchPatterns';
 import HatchDialog, { HatchParams } from '../Dialogs/HatchDialog';
+import { MAX_TRANSPARENCY } from '../../types/layers';
 
 // Helper Component for Visual Line Type Selection
 // Helper Component for Visual Line Type Selection
@@ -150,6 +151,64 @@ const LineWeightSelector = ({ value, onChange }: { value: number, onChange: (val
     );
 };
 
+// Helper Component for Transparency Selection (undefined = ByLayer)
+const TransparencySelector = ({ value, onChange }: { value: number | undefined, onChange: (val: number | undefined) => void }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const dropdownRef = useRef<HTMLDivElement>(null);
+
+    const levels = Array.from({ length: MAX_TRANSPARENCY / 10 + 1 }, (_, i) => i * 10);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const renderPreview = (level: number | undefined) => (
+        <div style={{
+            width: '16px',
+            height: '12px',
+            backgroundColor: 'currentColor',
+            opacity: 1 - (level ?? 0) / 100,
+            border: '1px solid rgba(255,255,255,0.2)'
+        }}></div>
+    );
+
+    return (
+        <div className="property-selector" ref={dropdownRef}>
+            <div className="property-trigger" onClick={() => setIsOpen(!isOpen)}>
+                <div style={{ display: 'flex', alignItems: 'center', flex: 1, gap: '8px' }}>
+                    {renderPreview(value)}
+                    <span className="property-val-label">{value === undefined ? 'ByLayer' : `Transparency ${value}%`}</span>
+                </div>
+                <span className="material-icons" style={{ fontSize: '14px' }}>arrow_drop_down</span>
+            </div>
+
+            {isOpen && (
+                <div className="property-dropdown">
+                    {[undefined, ...levels].map(level => (
+                        <div
+                            key={level ?? 'bylayer'}
+                            className="property-option"
+                            onClick={() => {
+                                onChange(level);
+                                setIsOpen(false);
+                            }}
+                        >
+                            <div style={{ marginRight: '10px' }}>{renderPreview(level)}</div>
+                            <span>{level === undefined ? 'ByLayer' : `${level}%`}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
 const Ribbon = () => {
     const [activeTab, setActiveTab] = useState<string>('Home');
     const [dwgWarning, setDwgWarning] = useState<boolean>(false);
@@ -170,19 +229,24 @@ const Ribbon = () => {
 
     const {
         startCommand, selectedIds, updateEntity, updateEntityTransient, activeCommand, setCommandState, commandState, getEntity,
-        entities, fileName, isModified, newFile, loadEntities, addSheet,
+        entities, fileName, isModified, newFile, loadEntities, addSheet, loadProject, saveProject, saveDXF, setSvgExportDialogState, setCamDialogState, setImportReportDialogState, setPointImportDialogState,
         baseUnit, setBaseUnit, drawingUnit, setDrawingUnit, drawingScale, setDrawingScale,
         triggerZoomToFit, triggerZoomIn, triggerZoomOut, startZoomWindow, zoomWindowMode,
         // Layers
         layers, activeLayerId, setActiveLayerId, setLayerDialogState,
         // Global Properties
         activeLineType, setActiveLineType, activeLineWeight, setActiveLineWeight,
+        // Hatch boundary detection
+        boundaryOptions, setBoundaryOptions,
         // Dimension Settings
-        setDimensionSettingsDialogState
+        setDimensionSettingsDialogState,
+        // Constraints
+        constraintBarVisible, setConstraintBarVisible
     } = useDrawing();
 
     const { showConfirm, showError } = useNotification();
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const projectInputRef = useRef<HTMLInputElement>(null);
 
     // Hatch Context - memoized to prevent unnecessary re-renders
     const hatchContext = useMemo(() => {
@@ -312,23 +376,34 @@ const Ribbon = () => {
         const reader = new FileReader();
         reader.onload = (event) => {
             const content = event.target?.result as string;
-            const result = parseDxf(content);
+            // Nokta dosyaları önce sütun eşleme diyaloğuna gider
+            if (fileExt === 'csv' || fileExt === 'txt') {
+                setPointImportDialogState({ isOpen: true, fileName: file.name, content });
+                return;
+            }
+            // SVG de DXF ile aynı loadEntities yolundan yüklenir
+            const format = fileExt === 'svg' ? 'SVG' : 'DXF';
+            const result = format === 'SVG' ? parseSvg(content) : parseDxf(content);
             if (result.errors.length > 0) {
-                showError('DXF Hatası', 'DXF okuma hatası: ' + result.errors.join('\n'));
+                showError(`${format} Hatası`, `${format} okuma hatası: ` + result.errors.join('\n'));
                 return;
             }
             // Her zaman yeni sekme olarak aç (mevcut sekmeyi değiştirme)
             addSheet(file.name);
             // addSheet yeni sekmeye geçiyor, sonra loadEntities
             setTimeout(() => {
-                loadEntities(result.entities, file.name);
+                loadEntities(result.entities, file.name, result.blocks, result.layers);
             }, 10);
             // DXF yüklendikten sonra otomatik Zoom Extents
             setTimeout(() => {
                 triggerZoomToFit();
             }, 150);
             if (result.warnings.length > 0) {
-                console.warn('DXF uyarıları:', result.warnings);
+                console.warn(`${format} uyarıları:`, result.warnings);
+            }
+            // Atlanan tipler veya uyarılar varsa içe aktarma raporu gösterilir
+            if (Object.keys(result.report.skipped).length > 0 || result.warnings.length > 0) {
+                setImportReportDialogState({ isOpen: true, fileName: file.name, report: result.report });
             }
         };
         reader.readAsText(file);
@@ -338,14 +413,43 @@ const Ribbon = () => {
     };
 
     const handleSave = () => {
-        exportDXF(entities, fileName);
+        saveDXF(fileName);
+    };
+
+    // Proje dosyası (.cadjson): tüm sayfalar, katmanlar, bloklar, ölçü ayarları ve kamera
+    const handleProjectOpen = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+
+        const reader = new FileReader();
+        reader.onload = async (event) => {
+            if (isModified) {
+                const choice = await showConfirm('Uyarı', 'Kaydedilmemiş değişiklikler var. Proje açılınca tüm sayfalar değiştirilecek. Devam edilsin mi?');
+                if (!choice) return;
+            }
+            let data;
+            try {
+                data = JSON.parse(event.target?.result as string);
+            } catch {
+                showError('Proje Hatası', 'Proje dosyası okunamadı (geçersiz JSON).');
+                return;
+            }
+            const error = loadProject(data);
+            if (error) {
+                showError('Proje Hatası', error);
+            }
+        };
+        reader.readAsText(file);
+
+        // Reset input to allow re-selecting same file
+        if (projectInputRef.current) projectInputRef.current.value = '';
     };
 
     const handleSaveAs = () => {
         const newName = prompt('Dosya adını girin:', fileName);
         if (newName) {
             const finalName = newName.endsWith('.dxf') ? newName : newName + '.dxf';
-            exportDXF(entities, finalName);
+            saveDXF(finalName);
         }
     };
 
@@ -364,7 +468,9 @@ const Ribbon = () => {
                         color: hatch.color || '#808080',
                         scale: hatch.scale || 1,
                         rotation: hatch.rotation || 0,
-                        opacity: hatch.opacity ?? 1
+                        opacity: hatch.opacity ?? 1,
+                        associative: !!hatch.association,
+                        gradient: hatch.gradient
                     });
                     setEditingHatchId(lastEntity.id);
                     setHatchEditMode(true);
@@ -379,6 +485,7 @@ const Ribbon = () => {
     // HATCH dialog apply handler
     const handleHatchApply = (params: HatchParams) => {
         setHatchParams(params);
+        setBoundaryOptions({ islandStyle: params.islandStyle, gapTolerance: params.gapTolerance });
         setHatchDialogOpen(false);
         setHatchEditMode(false);
         setEditingHatchId(null);
@@ -414,7 +521,10 @@ const Ribbon = () => {
             color: params.color,
             scale: params.scale,
             rotation: params.rotation,
-            opacity: params.opacity
+            opacity: params.opacity,
+            gradient: params.gradient,
+            // İlişki kaldırıldıysa sınır artık kaynak nesneleri izlemez
+            ...(params.associative === false ? { association: undefined } : {})
         });
     };
 
@@ -427,6 +537,7 @@ const Ribbon = () => {
 
     // Open HATCH dialog instead of directly starting command
     const openHatchDialog = () => {
+        setHatchParams(prev => ({ ...prev, ...boundaryOptions }));
         setHatchEditMode(false);
         setEditingHatchId(null);
         setHatchDialogOpen(true);
@@ -460,16 +571,36 @@ const Ribbon = () => {
                             <button className="tool-btn" onClick={handleCloseFile} title="Close file"><span className="material-icons" style={{ fontSize: '16px' }}>close</span> <span>Close</span></button>
                             <button className="tool-btn" onClick={handleSave}><FaSave /> <span>Save</span></button>
                             <button className="tool-btn" onClick={handleSaveAs}><FaFileExport /> <span>Save As</span></button>
+                            <button className="tool-btn" onClick={() => setSvgExportDialogState({ isOpen: true })} title="Export to SVG (layers as groups)">
+                                <span className="material-icons" style={{ fontSize: '16px' }}>image</span> <span>Export SVG</span>
+                            </button>
+                            <button className="tool-btn" onClick={() => setCamDialogState({ isOpen: true })} title="Export laser / CNC toolpaths as G-code">
+                                <span className="material-icons" style={{ fontSize: '16px' }}>precision_manufacturing</span> <span>G-code</span>
+                            </button>
                         </div>
                         <input
                             type="file"
                             ref={fileInputRef}
                             style={{ display: 'none' }}
-                            accept=".dxf,.dwg"
+                            accept=".dxf,.dwg,.svg,.csv,.txt"
                             onChange={handleFileImport}
                         />
                         <div className="panel-label">File Operations</div>
                     </div>
+                    <div className="ribbon-panel">
+                        <div className="tool-grid">
+                            <button className="tool-btn" onClick={() => projectInputRef.current?.click()} title="Open project file (.cadjson)"><FaFolderOpen /> <span>Open Project</span></button>
+                            <button className="tool-btn" onClick={() => saveProject()} title="Save all sheets, layers and settings as a project file (.cadjson)"><FaSave /> <span>Save Project</span></button>
+                        </div>
+                        <input
+                            type="file"
+                            ref={projectInputRef}
+                            style={{ display: 'none' }}
+                            accept=".cadjson,.json"
+                            onChange={handleProjectOpen}
+                        />
+                        <div className="panel-label">Project</div>
+                    </div>
                     <div className="ribbon-panel">
                         <div className="tool-col" style={{ padding: '8px' }}>
                             <div style={{ fontSize: '11px', color: '#ccc' }}>
@@ -487,6 +618,9 @@ const Ribbon = () => {
                     <div className="ribbon-panel">
                         <div className="tool-col" style={{ padding: '8px', fontSize: '10px', color: '#aaa' }}>
                             <div>✓ DXF (AutoCAD)</div>
+                            <div>✓ SVG (Import / Export)</div>
+                            <div>✓ CSV / TXT Points (Import)</div>
+                            <div>✓ PDF / G-code (Export)</div>
                             <div style={{ color: '#ff9800' }}>⚠ DWG (Convert to DXF)</div>
                         </div>
                         <div className="panel-label">Formats</div>
@@ -1092,6 +1226,12 @@ const Ribbon = () => {
                                     value={selectedIds.size > 0 ? (getEntity(Array.from(selectedIds)[0])?.lineWeight ?? 0) : activeLineWeight}
                                     onChange={(val) => changeProperty('lineWeight', val)}
                                 />
+
+                                {/* Transparency Property */}
+                                <TransparencySelector
+                                    value={selectedIds.size > 0 ? getEntity(Array.from(selectedIds)[0])?.transparency : undefined}
+                                    onChange={(val) => changeProperty('transparency', val)}
+                                />
                             </div>
                             <div className="panel-label">PROPERTIES</div>
                         </div>
@@ -1103,16 +1243,45 @@ const Ribbon = () => {
                         <div className="ribbon-panel">
                             <div className="tool-grid">
                                 <button className="tool-btn" onClick={() => fileInputRef.current?.click()}><FaFolderOpen /> <span>DXF</span></button>
+                                <button className="tool-btn" onClick={() => fileInputRef.current?.click()} title="Import SVG paths, shapes and text">
+                                    <span className="material-icons">image</span> <span>SVG</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => fileInputRef.current?.click()} title="Import survey points from CSV/TXT (P,N,E,Z,CODE)">
+                                    <span className="material-icons">scatter_plot</span> <span>Points</span>
+                                </button>
                             </div>
                             <input
                                 type="file"
                                 ref={fileInputRef}
                                 style={{ display: 'none' }}
-                                accept=".dxf"
+                                accept=".dxf,.svg,.csv,.txt"
                                 onChange={handleFileImport}
                             />
                             <div className="panel-label">Import</div>
                         </div>
+                        <div className="ribbon-panel">
+                            <div className="tool-grid">
+                                <button className="tool-btn" onClick={() => startCommand('BLOCK')} title="Create Block (B)">
+                                    <span className="material-icons">widgets</span> <span>Create</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => startCommand('INSERT')} title="Insert Block (I)">
+                                    <span className="material-icons">input</span> <span>Insert</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => startCommand('BEDIT')} title="Block Editor (BE)">
+                                    <span className="material-icons">edit</span> <span>Edit</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => startCommand('ATTDEF')} title="Define Attributes (ATT)">
+                                    <span className="material-icons">label</span> <span>Attribute</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => startCommand('DATAEXTRACTION')} title="Data Extraction (DX)">
+                                    <span className="material-icons">fact_check</span> <span>Extract</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => startCommand('WBLOCK')} title="Write Block (W)">
+                                    <span className="material-icons">save_alt</span> <span>Write</span>
+                                </button>
+                            </div>
+                            <div className="panel-label">Block</div>
+                        </div>
                     </div>
                 );
             case 'View':
@@ -1329,9 +1498,61 @@ const Ribbon = () => {
                                 <button className="tool-btn" onClick={() => startCommand('GEOMCONSTRAINT_TANGENT')}>
                                     <span className="material-icons">radio_button_unchecked</span> <span>Tangent</span>
                                 </button>
+                                <button className="tool-btn" onClick={() => startCommand('GEOMCONSTRAINT_PERPENDICULAR')}>
+                                    <span className="material-icons">square_foot</span> <span>Perpendicular</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => startCommand('GEOMCONSTRAINT_HORIZONTAL')}>
+                                    <span className="material-icons">horizontal_rule</span> <span>Horizontal</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => startCommand('GEOMCONSTRAINT_VERTICAL')}>
+                                    <span className="material-icons">more_vert</span> <span>Vertical</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => startCommand('GEOMCONSTRAINT_EQUAL')}>
+                                    <span className="material-icons">drag_handle</span> <span>Equal</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => startCommand('GEOMCONSTRAINT_CONCENTRIC')}>
+                                    <span className="material-icons">adjust</span> <span>Concentric</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => startCommand('GEOMCONSTRAINT_FIX')}>
+                                    <span className="material-icons">lock</span> <span>Fix</span>
+                                </button>
                             </div>
                             <div className="panel-label">Geometric</div>
                         </div>
+                        <div className="ribbon-panel">
+                            <div className="tool-grid">
+                                <button className={`tool-btn ${activeCommand === 'DIMCONSTRAINT_LINEAR' ? 'active' : ''}`} onClick={() => startCommand('DIMCONSTRAINT_LINEAR')}>
+                                    <span className="material-icons">straighten</span> <span>Linear</span>
+                                </button>
+                                <button className={`tool-btn ${activeCommand === 'DIMCONSTRAINT_ALIGNED' ? 'active' : ''}`} onClick={() => startCommand('DIMCONSTRAINT_ALIGNED')}>
+                                    <span className="material-icons">open_in_full</span> <span>Aligned</span>
+                                </button>
+                                <button className={`tool-btn ${activeCommand === 'DIMCONSTRAINT_RADIAL' ? 'active' : ''}`} onClick={() => startCommand('DIMCONSTRAINT_RADIAL')}>
+                                    <span className="material-icons">radio_button_checked</span> <span>Radius</span>
+                                </button>
+                                <button className={`tool-btn ${activeCommand === 'DIMCONSTRAINT_DIAMETER' ? 'active' : ''}`} onClick={() => startCommand('DIMCONSTRAINT_DIAMETER')}>
+                                    <span className="material-icons">circle</span> <span>Diameter</span>
+                                </button>
+                                <button className={`tool-btn ${activeCommand === 'DIMCONSTRAINT_ANGULAR' ? 'active' : ''}`} onClick={() => startCommand('DIMCONSTRAINT_ANGULAR')}>
+                                    <span className="material-icons">architecture</span> <span>Angular</span>
+                                </button>
+                            </div>
+                            <div className="panel-label">Dimensional</div>
+                        </div>
+                        <div className="ribbon-panel">
+                            <div className="tool-grid">
+                                <button className={`tool-btn ${constraintBarVisible ? 'active' : ''}`} onClick={() => setConstraintBarVisible(!constraintBarVisible)}>
+                                    <span className="material-icons">{constraintBarVisible ? 'visibility' : 'visibility_off'}</span> <span>Show All</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => startCommand('DELCONSTRAINT')}>
+                                    <span className="material-icons">link_off</span> <span>Delete</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => startCommand('PARAMETERS')}>
+                                    <span className="material-icons">functions</span> <span>Parameters</span>
+                                </button>
+                            </div>
+                            <div className="panel-label">Manage</div>
+                        </div>
                     </div>
                 );
 
@@ -1359,6 +1580,12 @@ const Ribbon = () => {
                             <div className="tool-grid">
                                 <button className="tool-btn" onClick={handleSave}><FaSave /> <span>Save DXF</span></button>
                                 <button className="tool-btn" onClick={handleSaveAs}><FaFileExport /> <span>Save As...</span></button>
+                                <button className="tool-btn" onClick={() => setSvgExportDialogState({ isOpen: true })}>
+                                    <span className="material-icons">image</span> <span>Export SVG</span>
+                                </button>
+                                <button className="tool-btn" onClick={() => setCamDialogState({ isOpen: true })}>
+                                    <span className="material-icons">precision_manufacturing</span> <span>G-code</span>
+                                </button>
                             </div>
                             <div className="panel-label">Export</div>
                         </div>
@@ -0,0 +1,62 @@
+import React, { useMemo, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import { useDrawing } from '../../context/DrawingContext';
+import { getConstraintGlyphs, CONSTRAINT_GLYPHS } from '../../utils/constraintUtils';
+
+const GLYPH_PIXELS = 14; // Ekranda sabit glif boyutu (piksel)
+
+/**
+ * Geometric constraint glyphs (constraint bar) drawn next to the constrained objects
+ */
+const ConstraintGlyphs: React.FC = () => {
+    const { constraints, entities, constraintBarVisible, deleteConstraints, activeCommand } = useDrawing();
+    const { camera } = useThree();
+    const [zoom, setZoom] = useState(camera.zoom);
+
+    // Zoom değiştikçe glif boyutunu güncelle (kamera mutasyonu React'e bildirilmez)
+    useFrame(() => {
+        if (Math.abs(camera.zoom - zoom) > zoom * 0.05) setZoom(camera.zoom);
+    });
+
+    const size = GLYPH_PIXELS / zoom;
+    const glyphs = useMemo(
+        () => (constraintBarVisible ? getConstraintGlyphs(constraints, entities, size * 1.6) : []),
+        [constraints, entities, constraintBarVisible, size]
+    );
+
+    if (glyphs.length === 0) return null;
+
+    return (
+        <group>
+            {glyphs.map((glyph, index) => (
+                <group
+                    key={`${glyph.constraintId}-${index}`}
+                    position={[glyph.position[0], glyph.position[1], 0.05]}
+                    onDoubleClick={(e) => {
+                        // Çift tıklama ile kısıtı sil
+                        if (activeCommand) return;
+                        e.stopPropagation();
+                        deleteConstraints([glyph.constraintId]);
+                    }}
+                >
+                    <mesh>
+                        <planeGeometry args={[size * 1.4, size * 1.2]} />
+                        <meshBasicMaterial color="#2b3a4a" transparent opacity={0.85} />
+                    </mesh>
+                    <Text
+                        position={[0, 0, 0.01]}
+                        fontSize={size * 0.75}
+                        color={glyph.type === 'FIX' ? '#ff6b6b' : '#4cc2ff'}
+                        anchorX="center"
+                        anchorY="middle"
+                    >
+                        {CONSTRAINT_GLYPHS[glyph.type]}
+                    </Text>
+                </group>
+            ))}
+        </group>
+    );
+};
+
+export default ConstraintGlyphs;
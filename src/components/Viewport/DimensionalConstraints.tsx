@@ -0,0 +1,67 @@
+import React, { useMemo, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Line, Text } from '@react-three/drei';
+import { useDrawing } from '../../context/DrawingContext';
+import { getDimensionalConstraintGeometry } from '../../utils/constraintUtils';
+import { formatParameterValue } from '../../utils/expressionUtils';
+
+const TEXT_PIXELS = 12; // Ekranda sabit metin boyutu (piksel)
+const COLOR = '#4cc2ff';
+
+/**
+ * Driving dimensions (dynamic constraints) shown as "name=expression"; double-click edits the value
+ */
+const DimensionalConstraints: React.FC = () => {
+    const { dimensionalConstraints, entities, activeCommand, openParametersManager } = useDrawing();
+    const { camera } = useThree();
+    const [zoom, setZoom] = useState(camera.zoom);
+
+    // Zoom değiştikçe metin boyutunu güncelle (kamera mutasyonu React'e bildirilmez)
+    useFrame(() => {
+        if (Math.abs(camera.zoom - zoom) > zoom * 0.05) setZoom(camera.zoom);
+    });
+
+    const items = useMemo(
+        () => dimensionalConstraints
+            .map(constraint => ({ constraint, geometry: getDimensionalConstraintGeometry(constraint, entities) }))
+            .filter(item => item.geometry !== null),
+        [dimensionalConstraints, entities]
+    );
+
+    if (items.length === 0) return null;
+
+    const fontSize = TEXT_PIXELS / zoom;
+
+    return (
+        <group>
+            {items.map(({ constraint, geometry }) => {
+                const numeric = /^\s*[\d.]+\s*$/.test(constraint.expression);
+                const label = `${constraint.name}=${numeric ? formatParameterValue(constraint.value, 2) : constraint.expression}`;
+                return (
+                    <group key={constraint.id}>
+                        {geometry!.lines.map((points, index) => (
+                            <Line key={index} points={points} color={COLOR} lineWidth={1} dashed={index > 0} dashSize={fontSize / 2} gapSize={fontSize / 3} />
+                        ))}
+                        <Text
+                            position={[geometry!.textPosition[0], geometry!.textPosition[1], 0.05]}
+                            rotation={[0, 0, geometry!.rotation]}
+                            fontSize={fontSize}
+                            color={COLOR}
+                            anchorX="center"
+                            anchorY="bottom"
+                            onDoubleClick={(e) => {
+                                if (activeCommand) return;
+                                e.stopPropagation();
+                                openParametersManager(constraint.name);
+                            }}
+                        >
+                            {label}
+                        </Text>
+                    </group>
+                );
+            })}
+        </group>
+    );
+};
+
+export default DimensionalConstraints;
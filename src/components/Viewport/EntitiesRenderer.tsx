@@ -1,12 +1,17 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
 import { useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { Line, Text } from '@react-three/drei';
 import { useDrawing } from '../../context/DrawingContext';
-import type { Point, Entity } from '../../types/entities';
-import { DEFAULT_LAYER } from '../../types/layers';
-import { getGripPoints, rotatePoint, createArcFrom3Points } from '../../utils/geometryUtils';
+import type { Point, Entity, BlockReferenceEntity, LWPolylineEntity, HatchEntity } from '../../types/entities';
+import type { Layer } from '../../types/layers';
+import { DEFAULT_LAYER, getTransparencyOpacity } from '../../types/layers';
+import { flattenBlockReference } from '../../utils/blockUtils';
+import { getGripPoints, rotatePoint, createArcFrom3Points, sampleSpline } from '../../utils/geometryUtils';
 import { getPatternTexture } from '../../utils/hatchPatterns';
+import { getHatchFillRegions, getHatchGeometry, getHatchGradientPaint, getHatchLoops, isLineHatch } from '../../utils/hatchGeometry';
+import { createCanvasGradient } from '../../utils/hatchGradient';
+import { tessellatePolyline, hasWidths, getPolylineWidthTriangles, sampleSegment, bulgeFromTangent, getPolylineEndTangent } from '../../utils/polylineUtils';
 import { calculateDimensionGeometry } from '../../utils/dimensionUtils';
 import { calculateArrowCoords, formatDimensionValue, DEFAULT_DIMENSION_SETTINGS, type DecimalFormat } from '../../types/dimensionSettings';
 
@@ -205,7 +210,7 @@ const SnapMarker = ({ point, type }: { point: Point, type: string }) => {
 
     // Farklı snap türleri için farklı renkler
     const getSnapColor = () => {
-        switch (type) {
+        switch (type.toLowerCase()) {
             case 'endpoint': return '#FFD700'; // Sarı - uç nokta
             case 'midpoint': return '#00FF00'; // Yeşil - orta nokta
             case 'center': return '#FF00FF'; // Magenta - merkez
@@ -309,16 +314,16 @@ const SelectionBoxRenderer = ({ selectionBox }: { selectionBox: any }) => {
     );
 };
 
-// Custom component for hatch mesh with proper UV mapping
+// Dolgu (SOLID) ve resim desenli tarama yüzeyi
 const HatchMesh = React.memo(({ shape, pattern, color, scale = 1, rotation = 0, opacity = 1 }: {
-    shape: THREE.Shape,
+    shape: THREE.Shape | THREE.Shape[],
     pattern: string,
     color: string,
     scale: number,
     rotation: number,
     opacity?: number
 }) => {
-    const textureUrl = pattern === 'SOLID' ? null : getPatternTexture(pattern || 'ANSI31', color);
+    const textureUrl = pattern === 'SOLID' ? null : getPatternTexture(pattern, color);
 
     const geometry = useMemo(() => {
         const geo = new THREE.ShapeGeometry(shape);
@@ -328,9 +333,8 @@ const HatchMesh = React.memo(({ shape, pattern, color, scale = 1, rotation = 0,
             const uvAttribute = geo.getAttribute('uv');
             const posAttribute = geo.getAttribute('position');
 
-            // Calculate proper texture scale based on pattern
-            // Base texture is 64x64 pixels, we want it to repeat appropriately
-            const textureScale = 0.02 / scale; // Adjust this for proper scaling
+            // Resim döşemesi dünya koordinatlarında tekrar eder
+            const textureScale = 0.02 / scale;
 
             // Apply rotation to UVs if needed
             const cos = Math.cos(rotation);
@@ -387,16 +391,171 @@ const HatchMesh = React.memo(({ shape, pattern, color, scale = 1, rotation = 0,
 
 HatchMesh.displayName = 'HatchMesh';
 
+// Çizgi ailesi desenli tarama: kırpılmış desen çizgileri ve noktaları; görünmez yüzey tıklama için
+const HatchLines = React.memo(({ entity, shape, color, opacity = 1 }: {
+    entity: HatchEntity,
+    shape: THREE.Shape | THREE.Shape[],
+    color: string,
+    opacity?: number
+}) => {
+    const { lines, dots } = getHatchGeometry(entity);
+
+    const lineGeometry = useMemo(() => {
+        const geo = new THREE.BufferGeometry();
+        geo.setAttribute('position', new THREE.Float32BufferAttribute(lines.flatMap(([a, b]) => [a[0], a[1], a[2], b[0], b[1], b[2]]), 3));
+        return geo;
+    }, [lines]);
+
+    const dotGeometry = useMemo(() => {
+        if (dots.length === 0) return null;
+        const geo = new THREE.BufferGeometry();
+        geo.setAttribute('position', new THREE.Float32BufferAttribute(dots.flat(), 3));
+        return geo;
+    }, [dots]);
+
+    const pickGeometry = useMemo(() => new THREE.ShapeGeometry(shape), [shape]);
+
+    return (
+        <group>
+            <mesh position={[0, 0, -0.01]} geometry={pickGeometry}>
+                <meshBasicMaterial transparent opacity={0} depthWrite={false} side={THREE.DoubleSide} />
+            </mesh>
+            <lineSegments geometry={lineGeometry}>
+                <lineBasicMaterial color={color} transparent={opacity < 1} opacity={opacity} />
+            </lineSegments>
+            {dotGeometry && (
+                <points geometry={dotGeometry}>
+                    <pointsMaterial color={color} size={2} sizeAttenuation={false} transparent={opacity < 1} opacity={opacity} />
+                </points>
+            )}
+        </group>
+    );
+});
+
+HatchLines.displayName = 'HatchLines';
+
+// Gradyan tarama: gradyan kare bir tuvale çizilir ve sınır kutusuna UV ile eşlenir
+const GRADIENT_TEXTURE_SIZE = 256;
+
+const GradientHatchMesh = React.memo(({ entity, shape, opacity = 1 }: {
+    entity: HatchEntity,
+    shape: THREE.Shape | THREE.Shape[],
+    opacity?: number
+}) => {
+    // Kare pencere: küresel gradyan daire olarak kalır
+    const frame = useMemo(() => {
+        const points = getHatchLoops(entity).flat();
+        const minX = Math.min(...points.map(p => p[0]));
+        const minY = Math.min(...points.map(p => p[1]));
+        const size = Math.max(...points.map(p => p[0] - minX), ...points.map(p => p[1] - minY)) || 1;
+        return { minX, minY, size };
+    }, [entity]);
+
+    const texture = useMemo(() => {
+        const paint = getHatchGradientPaint(entity);
+        const canvas = document.createElement('canvas');
+        canvas.width = canvas.height = GRADIENT_TEXTURE_SIZE;
+        const ctx = canvas.getContext('2d');
+        if (!ctx || !paint) return null;
+        const pixelsPerUnit = GRADIENT_TEXTURE_SIZE / frame.size;
+        ctx.fillStyle = createCanvasGradient(ctx, paint, ([x, y]) => [
+            (x - frame.minX) * pixelsPerUnit,
+            GRADIENT_TEXTURE_SIZE - (y - frame.minY) * pixelsPerUnit,
+        ], pixelsPerUnit);
+        ctx.fillRect(0, 0, GRADIENT_TEXTURE_SIZE, GRADIENT_TEXTURE_SIZE);
+        const tex = new THREE.CanvasTexture(canvas);
+        tex.colorSpace = THREE.SRGBColorSpace;
+        return tex;
+    }, [entity, frame]);
+
+    useEffect(() => () => texture?.dispose(), [texture]);
+
+    const geometry = useMemo(() => {
+        const geo = new THREE.ShapeGeometry(shape);
+        const uvAttribute = geo.getAttribute('uv');
+        const posAttribute = geo.getAttribute('position');
+        for (let i = 0; i < uvAttribute.count; i++) {
+            uvAttribute.setXY(i, (posAttribute.getX(i) - frame.minX) / frame.size, (posAttribute.getY(i) - frame.minY) / frame.size);
+        }
+        uvAttribute.needsUpdate = true;
+        return geo;
+    }, [shape, frame]);
+
+    return (
+        <mesh position={[0, 0, -0.01]} geometry={geometry}>
+            <meshBasicMaterial map={texture} color="white" transparent opacity={opacity} side={THREE.DoubleSide} />
+        </mesh>
+    );
+});
+
+GradientHatchMesh.displayName = 'GradientHatchMesh';
+
+// Saydam nesne: alt nesnelerin malzeme opaklığı nesne / katman saydamlığıyla çarpılır
+const TransparencyGroup = ({ opacity, children }: { opacity: number, children: React.ReactNode }) => {
+    const groupRef = useRef<THREE.Group>(null);
+
+    useLayoutEffect(() => {
+        groupRef.current?.traverse(object => {
+            const material = (object as THREE.Mesh).material;
+            if (!material) return;
+            (Array.isArray(material) ? material : [material]).forEach(m => {
+                // Prop güncellemesi opaklığı değiştirdiyse taban değer yeniden alınır
+                if (m.userData.appliedOpacity !== m.opacity) m.userData.baseOpacity = m.opacity;
+                m.opacity = m.userData.baseOpacity * opacity;
+                m.userData.appliedOpacity = m.opacity;
+                if (!m.transparent) {
+                    m.transparent = true;
+                    m.needsUpdate = true;
+                }
+            });
+        });
+    });
+
+    return <group ref={groupRef}>{children}</group>;
+};
+
+// Genişlikli polyline segmentlerinin dolgu yüzeyi
+const PolylineWidthMesh = React.memo(({ entity, color, onClick }: {
+    entity: LWPolylineEntity,
+    color: string,
+    onClick?: (e: any) => void
+}) => {
+    const geometry = useMemo(() => {
+        const geo = new THREE.BufferGeometry();
+        geo.setAttribute('position', new THREE.Float32BufferAttribute(getPolylineWidthTriangles(entity), 3));
+        return geo;
+    }, [entity]);
+
+    return (
+        <mesh position={[0, 0, -0.005]} geometry={geometry} onClick={onClick}>
+            <meshBasicMaterial color={color} side={THREE.DoubleSide} />
+        </mesh>
+    );
+});
+
+PolylineWidthMesh.displayName = 'PolylineWidthMesh';
+
+// Blok üyesinin rengini çöz: BYBLOCK ve 0 katmanındaki BYLAYER üyeler referansın rengini alır
+const resolveBlockMemberColor = (member: Entity, blockColor: string, layers: Layer[]): string => {
+    if (member.color === 'BYBLOCK') return blockColor;
+    if (!member.color || member.color === 'BYLAYER') {
+        if (!member.layer || member.layer === DEFAULT_LAYER.id) return blockColor;
+        return (layers.find(l => l.id === member.layer) || DEFAULT_LAYER).color;
+    }
+    return member.color;
+};
+
 // Memoized entity component to prevent re-renders
 interface EntityRendererProps {
     entity: Entity;
     isSelected: boolean;
     isHovered?: boolean;
     isCuttingEdge?: boolean;
+    ownerId?: number; // Blok üyeleri için seçilecek referansın ID'si
 }
 
-const EntityRenderer = React.memo(({ entity: ent, isSelected, isHovered, isCuttingEdge }: EntityRendererProps) => {
-    const { setDimensionEditDialogState, toggleSelection, activeCommand } = useDrawing();
+const EntityRenderer = React.memo(({ entity: ent, isSelected, isHovered, isCuttingEdge, ownerId }: EntityRendererProps) => {
+    const { setDimensionEditDialogState, toggleSelection, activeCommand, layers, blocks } = useDrawing();
     // Cutting Edge: cyan, Selected: blue, Hovered: light cyan, Normal: entity color
     const displayColor = isCuttingEdge ? '#00ffff' : isSelected ? '#0078d4' : isHovered ? '#00d4ff' : ent.color;
     const displayDashed = isSelected;
@@ -414,7 +573,7 @@ const EntityRenderer = React.memo(({ entity: ent, isSelected, isHovered, isCutti
             // Düzenleme modunda veya Ctrl/Shift basılıysa çoklu seçim yap
             // toggleSelection genellikle tek argüman alır (ID) ve var olanı tersine çevirir.
             // Çoklu seçim desteği Context implementasyonuna bağlıdır, ancak varsayılan davranış genellikle 'seçime ekle/çıkar' şeklindedir.
-            toggleSelection(ent.id);
+            toggleSelection(ownerId ?? ent.id);
         }
 
         // Dimension düzenleme (IDLE modunda)
@@ -425,7 +584,7 @@ const EntityRenderer = React.memo(({ entity: ent, isSelected, isHovered, isCutti
 
     // Dimension edit için çift tıklama
     const handleDimensionClick = (e: any) => {
-        if (ent.type === 'DIMENSION' && !activeCommand) {
+        if (ent.type === 'DIMENSION' && !activeCommand && ownerId === undefined) {
             e.stopPropagation();
             setDimensionEditDialogState({
                 isOpen: true,
@@ -465,9 +624,9 @@ const EntityRenderer = React.memo(({ entity: ent, isSelected, isHovered, isCutti
     }
 
     if (ent.type === 'LWPOLYLINE') {
-        let points = [...ent.vertices];
-        if (ent.closed) points.push(ent.vertices[0]);
-        return (
+        // Yay segmentleri (bulge) örneklenerek çizilir
+        const points = tessellatePolyline(ent, true);
+        const line = (
             <Line
                 points={points}
                 color={displayColor}
@@ -477,6 +636,13 @@ const EntityRenderer = React.memo(({ entity: ent, isSelected, isHovered, isCutti
                 onClick={handleEntityClick}
             />
         );
+        if (!hasWidths(ent)) return line;
+        return (
+            <group>
+                <PolylineWidthMesh entity={ent} color={displayColor} onClick={handleEntityClick} />
+                {line}
+            </group>
+        );
     }
 
     if (ent.type === 'ARC') {
@@ -537,7 +703,8 @@ const EntityRenderer = React.memo(({ entity: ent, isSelected, isHovered, isCutti
     }
 
     if (ent.type === 'SPLINE') {
-        const splinePoints = generateSplinePoints(ent.controlPoints, ent.degree, 64);
+        // Düğüm vektörü varsa (içe aktarılan Bézier yolları) ona göre örneklenir
+        const splinePoints = sampleSpline(ent, Math.max(64, ent.controlPoints.length * 8));
         return (
             <Line
                 points={splinePoints}
@@ -607,54 +774,45 @@ const EntityRenderer = React.memo(({ entity: ent, isSelected, isHovered, isCutti
     }
 
     if (ent.type === 'HATCH') {
-        const { boundary, pattern, scale = 1, rotation = 0, islands } = ent;
+        const { boundary, pattern, scale = 1, rotation = 0 } = ent;
         if (!boundary || !boundary.vertices || boundary.vertices.length < 3) return null;
 
-        // Create outer boundary shape
-        const shape = new THREE.Shape();
-        shape.moveTo(boundary.vertices[0][0], boundary.vertices[0][1]);
-        for (let i = 1; i < boundary.vertices.length; i++) {
-            shape.lineTo(boundary.vertices[i][0], boundary.vertices[i][1]);
-        }
-        shape.closePath();
-
-        // Add island holes if present
-        if (islands && islands.length > 0) {
-            for (const island of islands) {
-                if (island.vertices && island.vertices.length >= 3) {
-                    const hole = new THREE.Path();
-                    hole.moveTo(island.vertices[0][0], island.vertices[0][1]);
-                    for (let i = 1; i < island.vertices.length; i++) {
-                        hole.lineTo(island.vertices[i][0], island.vertices[i][1]);
-                    }
-                    hole.closePath();
-                    shape.holes.push(hole);
-                }
-            }
-        }
+        // Sınır ve adalar (bulge yayları dahil); ada içindeki adalar yeniden dolar
+        const shapes = getHatchFillRegions(ent).map(({ outer, holes }) => {
+            const region = new THREE.Shape(outer.map(p => new THREE.Vector2(p[0], p[1])));
+            holes.forEach(hole => region.holes.push(new THREE.Path(hole.map(p => new THREE.Vector2(p[0], p[1])))));
+            return region;
+        });
+        if (shapes.length === 0) return null;
 
         return (
             <group onClick={handleEntityClick}>
                 {/* Hatch fill - always use original color to prevent texture reload */}
-                <HatchMesh
-                    shape={shape}
-                    pattern={pattern.name || 'ANSI31'}
-                    color={ent.color || '#ffffff'}
-                    scale={scale}
-                    rotation={rotation}
-                    opacity={ent.opacity ?? 1}
-                />
+                {isLineHatch(ent) ? (
+                    <HatchLines entity={ent} shape={shapes} color={ent.color || '#ffffff'} opacity={ent.opacity ?? 1} />
+                ) : getHatchGradientPaint(ent) ? (
+                    <GradientHatchMesh entity={ent} shape={shapes} opacity={ent.opacity ?? 1} />
+                ) : (
+                    <HatchMesh
+                        shape={shapes}
+                        pattern={pattern.name || 'ANSI31'}
+                        color={ent.color || '#ffffff'}
+                        scale={scale}
+                        rotation={rotation}
+                        opacity={ent.opacity ?? 1}
+                    />
+                )}
                 {/* Selection overlay - semi-transparent blue fill over the hatch area */}
                 {isSelected && (
                     <mesh position={[0, 0, 0.01]}>
-                        <shapeGeometry args={[shape]} />
+                        <shapeGeometry args={[shapes]} />
                         <meshBasicMaterial color="#0078d4" transparent opacity={0.3} side={THREE.DoubleSide} />
                     </mesh>
                 )}
                 {/* Hover overlay - semi-transparent cyan */}
                 {isHovered && !isSelected && (
                     <mesh position={[0, 0, 0.01]}>
-                        <shapeGeometry args={[shape]} />
+                        <shapeGeometry args={[shapes]} />
                         <meshBasicMaterial color="#00d4ff" transparent opacity={0.2} side={THREE.DoubleSide} />
                     </mesh>
                 )}
@@ -1134,6 +1292,28 @@ const EntityRenderer = React.memo(({ entity: ent, isSelected, isHovered, isCutti
         );
     }
 
+    if (ent.type === 'BLOCK_REFERENCE' || ent.type === 'INSERT') {
+        // Blok referansı: tanımdaki üyeleri (iç içe bloklar dahil) örnek dönüşümüyle çiz
+        const members = flattenBlockReference(ent, blocks);
+        return (
+            <group>
+                {members.map((member, index) => {
+                    const memberColor = resolveBlockMemberColor(member, ent.color, layers);
+                    return (
+                        <EntityRenderer
+                            key={`${ent.id}-${index}`}
+                            entity={member.color === memberColor ? member : { ...member, color: memberColor } as Entity}
+                            isSelected={isSelected}
+                            isHovered={isHovered}
+                            isCuttingEdge={isCuttingEdge}
+                            ownerId={ownerId ?? ent.id}
+                        />
+                    );
+                })}
+            </group>
+        );
+    }
+
     return null;
 }, (prevProps, nextProps) => {
     // Custom comparison for better memoization - compare entity by id, not reference
@@ -1158,9 +1338,10 @@ const EntitiesRenderer = React.memo(() => {
 
             // Resolve color: if entity color is missing or 'BYLAYER', use layer color
             const displayColor = (!ent.color || ent.color === 'BYLAYER') ? layer.color : ent.color;
+            const opacity = getTransparencyOpacity(ent.transparency, layer);
 
-            return { ent, displayColor, layerVisible: true };
-        }).filter(Boolean) as { ent: Entity; displayColor: string; layerVisible: boolean }[];
+            return { ent, displayColor, opacity, layerVisible: true };
+        }).filter(Boolean) as { ent: Entity; displayColor: string; opacity: number; layerVisible: boolean }[];
     }, [entities, layers]);
 
     // Get cutting edges for TRIM command highlighting
@@ -1172,11 +1353,11 @@ const EntitiesRenderer = React.memo(() => {
     }, [activeCommand, commandState?.cuttingEdges]);
 
     // Render entity list - selection state is passed as props (EntityRenderer handles memoization)
-    const entityList = entityBaseList.map(({ ent, displayColor }) => {
+    const entityList = entityBaseList.map(({ ent, displayColor, opacity }) => {
         // Use stable entity reference with computed color
         const displayEntity = ent.color === displayColor ? ent : { ...ent, color: displayColor };
 
-        return (
+        const renderer = (
             <EntityRenderer
                 key={ent.id}
                 entity={displayEntity}
@@ -1185,6 +1366,7 @@ const EntitiesRenderer = React.memo(() => {
                 isCuttingEdge={cuttingEdgeIds.has(ent.id)}
             />
         );
+        return opacity < 1 ? <TransparencyGroup key={ent.id} opacity={opacity}>{renderer}</TransparencyGroup> : renderer;
     });
 
     // Memoize grips rendering
@@ -1281,12 +1463,19 @@ const EntitiesRenderer = React.memo(() => {
             {activeCommand === 'POLYLINE' && tempPoints.length > 0 && (
                 <>
                     <Line
-                        points={tempPoints}
+                        points={tessellatePolyline({ vertices: tempPoints, bulges: commandState.bulges, closed: false })}
                         color="yellow"
                         lineWidth={1}
                     />
                     <Line
-                        points={[tempPoints[tempPoints.length - 1], cursorPosition]}
+                        points={sampleSegment({
+                            index: tempPoints.length - 1,
+                            start: tempPoints[tempPoints.length - 1],
+                            end: cursorPosition,
+                            bulge: commandState.arcMode
+                                ? bulgeFromTangent(tempPoints[tempPoints.length - 1], getPolylineEndTangent(tempPoints, commandState.bulges), cursorPosition)
+                                : 0
+                        })}
                         color="yellow"
                         lineWidth={1}
                         dashed={true}
@@ -1532,6 +1721,23 @@ const EntitiesRenderer = React.memo(() => {
                 </group>
             )}
 
+            {/* INSERT: ekleme noktasında blok önizlemesi */}
+            {activeCommand === 'INSERT' && step === 2 && commandState.blockName && (
+                <EntityRenderer
+                    entity={{
+                        id: -1,
+                        type: 'BLOCK_REFERENCE',
+                        blockName: commandState.blockName,
+                        position: cursorPosition,
+                        scale: commandState.scale || [1, 1, 1],
+                        rotation: commandState.rotation || 0,
+                        color: 'yellow',
+                        layer: DEFAULT_LAYER.id,
+                    } as BlockReferenceEntity}
+                    isSelected={false}
+                />
+            )}
+
             {activeCommand === 'ROTATE' && step === 3 && commandState.base && (
                 <group position={[commandState.base[0], commandState.base[1], 0]}>
                     {/* Protractor visual */}
@@ -5,6 +5,7 @@ import type { Point, Entity } from '../../types/entities';
 import { DEFAULT_DIMENSION_SETTINGS } from '../../types/dimensionSettings';
 import { closestPointOnEntity } from '../../utils/geometryUtils';
 import { findEntityIntersections } from '../../utils/intersectionUtils';
+import { tessellatePolyline, bulgeFromTangent, getPolylineEndTangent } from '../../utils/polylineUtils';
 
 // Daire için noktalar oluştur
 const generateCirclePoints = (center: Point, radius: number, segments: number = 64): [number, number, number][] => {
@@ -94,8 +95,16 @@ const PreviewRenderer = () => {
 
     // POLYLINE preview
     if (activeCommand === 'POLYLINE' && tempPoints.length > 0) {
-        const previewPoints: [number, number, number][] = tempPoints.map(p => [p[0], p[1], 0.05]);
-        previewPoints.push([cursorPosition[0], cursorPosition[1], 0.05]);
+        // Yay modunda imlece giden segment önceki segmente teğet yay olarak gösterilir
+        const bulges = commandState.bulges || [];
+        const nextBulge = commandState.arcMode
+            ? bulgeFromTangent(tempPoints[tempPoints.length - 1], getPolylineEndTangent(tempPoints, bulges), cursorPosition)
+            : 0;
+        const previewPoints: [number, number, number][] = tessellatePolyline({
+            vertices: [...tempPoints, cursorPosition],
+            bulges: [...bulges, nextBulge],
+            closed: false
+        }).map(p => [p[0], p[1], 0.05]);
 
         return (
             <Line
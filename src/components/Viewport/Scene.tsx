@@ -4,124 +4,22 @@ import { useThree, useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import InteractionPlane from './InteractionPlane';
 import EntitiesRenderer from './EntitiesRenderer';
+import ConstraintGlyphs from './ConstraintGlyphs';
+import ToolpathPreview from './ToolpathPreview';
+import DimensionalConstraints from './DimensionalConstraints';
 import DynamicInput from './DynamicInput';
 import PreviewRenderer from './PreviewRenderer';
 import TransformationPreview from './TransformationPreview';
 import InPlaceTextEditor from './InPlaceTextEditor';
 import { useDrawing } from '../../context/DrawingContext';
-import type { Entity, Point } from '../../types/entities';
-
-// Camera state localStorage key
-const CAMERA_STATE_KEY = 'cad_app_camera_state';
-
-// Entity'lerin bounding box'ını hesapla
-const calculateBoundingBox = (entities: Entity[]): { min: Point; max: Point } | null => {
-    if (entities.length === 0) return null;
-
-    let minX = Infinity, minY = Infinity;
-    let maxX = -Infinity, maxY = -Infinity;
-
-    entities.forEach(ent => {
-        if (ent.visible === false) return;
-
-        if (ent.type === 'LINE') {
-            minX = Math.min(minX, ent.start[0], ent.end[0]);
-            minY = Math.min(minY, ent.start[1], ent.end[1]);
-            maxX = Math.max(maxX, ent.start[0], ent.end[0]);
-            maxY = Math.max(maxY, ent.start[1], ent.end[1]);
-        } else if (ent.type === 'CIRCLE' || ent.type === 'DONUT') {
-            const r = ent.type === 'CIRCLE' ? ent.radius : ent.outerRadius;
-            minX = Math.min(minX, ent.center[0] - r);
-            minY = Math.min(minY, ent.center[1] - r);
-            maxX = Math.max(maxX, ent.center[0] + r);
-            maxY = Math.max(maxY, ent.center[1] + r);
-        } else if (ent.type === 'ARC') {
-            minX = Math.min(minX, ent.center[0] - ent.radius);
-            minY = Math.min(minY, ent.center[1] - ent.radius);
-            maxX = Math.max(maxX, ent.center[0] + ent.radius);
-            maxY = Math.max(maxY, ent.center[1] + ent.radius);
-        } else if (ent.type === 'ELLIPSE') {
-            minX = Math.min(minX, ent.center[0] - ent.rx);
-            minY = Math.min(minY, ent.center[1] - ent.ry);
-            maxX = Math.max(maxX, ent.center[0] + ent.rx);
-            maxY = Math.max(maxY, ent.center[1] + ent.ry);
-        } else if (ent.type === 'LWPOLYLINE') {
-            ent.vertices.forEach(v => {
-                minX = Math.min(minX, v[0]);
-                minY = Math.min(minY, v[1]);
-                maxX = Math.max(maxX, v[0]);
-                maxY = Math.max(maxY, v[1]);
-            });
-        } else if (ent.type === 'POINT') {
-            minX = Math.min(minX, ent.position[0]);
-            minY = Math.min(minY, ent.position[1]);
-            maxX = Math.max(maxX, ent.position[0]);
-            maxY = Math.max(maxY, ent.position[1]);
-        } else if (ent.type === 'DIMENSION') {
-            // Include dimension start, end and dimLinePosition
-            minX = Math.min(minX, ent.start[0], ent.end[0]);
-            minY = Math.min(minY, ent.start[1], ent.end[1]);
-            maxX = Math.max(maxX, ent.start[0], ent.end[0]);
-            maxY = Math.max(maxY, ent.start[1], ent.end[1]);
-            if (ent.dimLinePosition) {
-                minX = Math.min(minX, ent.dimLinePosition[0]);
-                minY = Math.min(minY, ent.dimLinePosition[1]);
-                maxX = Math.max(maxX, ent.dimLinePosition[0]);
-                maxY = Math.max(maxY, ent.dimLinePosition[1]);
-            }
-        } else if (ent.type === 'TEXT' || ent.type === 'MTEXT') {
-            const pos = ent.position;
-            const h = ent.height || 10;
-            const w = ent.type === 'MTEXT' ? (ent.width || 100) : (ent.text?.length || 1) * h * 0.6;
-            minX = Math.min(minX, pos[0]);
-            minY = Math.min(minY, pos[1] - h);
-            maxX = Math.max(maxX, pos[0] + w);
-            maxY = Math.max(maxY, pos[1] + h);
-        } else if (ent.type === 'TABLE') {
-            const pos = ent.position;
-            const tableWidth = ent.cols * ent.colWidth;
-            const tableHeight = ent.rows * ent.rowHeight;
-            minX = Math.min(minX, pos[0]);
-            minY = Math.min(minY, pos[1] - tableHeight);
-            maxX = Math.max(maxX, pos[0] + tableWidth);
-            maxY = Math.max(maxY, pos[1]);
-        } else if (ent.type === 'HATCH') {
-            if (ent.boundary?.vertices) {
-                ent.boundary.vertices.forEach(v => {
-                    minX = Math.min(minX, v[0]);
-                    minY = Math.min(minY, v[1]);
-                    maxX = Math.max(maxX, v[0]);
-                    maxY = Math.max(maxY, v[1]);
-                });
-            }
-        } else if (ent.type === 'SPLINE') {
-            ent.controlPoints.forEach(v => {
-                minX = Math.min(minX, v[0]);
-                minY = Math.min(minY, v[1]);
-                maxX = Math.max(maxX, v[0]);
-                maxY = Math.max(maxY, v[1]);
-            });
-        } else if (ent.type === 'RAY' || ent.type === 'XLINE') {
-            // RAY and XLINE extend to infinity, just include origin
-            minX = Math.min(minX, ent.origin[0]);
-            minY = Math.min(minY, ent.origin[1]);
-            maxX = Math.max(maxX, ent.origin[0]);
-            maxY = Math.max(maxY, ent.origin[1]);
-        }
-    });
-
-    if (minX === Infinity) return null;
-
-    return {
-        min: [minX, minY, 0],
-        max: [maxX, maxY, 0]
-    };
-};
+import type { Point } from '../../types/entities';
+import { calculateBoundingBox } from '../../utils/geometryUtils';
+import { CAMERA_STATE_KEY } from '../../utils/projectFile';
 
 // Camera State Persistence - kamera durumunu localStorage'a kaydeder ve yükler
 const CameraStatePersistence = () => {
     const { camera, controls } = useThree();
-    const { activeSheetId } = useDrawing();
+    const { activeSheetId, projectCamera } = useDrawing();
     const isInitialized = useRef(false);
     const saveTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
@@ -176,6 +74,22 @@ const CameraStatePersistence = () => {
         }
     }, [camera, controls]);
 
+    // Proje dosyası açıldığında kaydedilmiş görünümü uygula (sekme değişimindeki zoom extents'ten sonra)
+    useEffect(() => {
+        if (!projectCamera) return;
+        const timeoutId = setTimeout(() => {
+            const orthoCamera = camera as THREE.OrthographicCamera;
+            camera.position.set(projectCamera.positionX || 0, projectCamera.positionY || 0, 100);
+            orthoCamera.zoom = projectCamera.zoom || 20;
+            orthoCamera.updateProjectionMatrix();
+            if (controls) {
+                (controls as any).target.set(projectCamera.targetX || 0, projectCamera.targetY || 0, 0);
+                (controls as any).update();
+            }
+        }, 150);
+        return () => clearTimeout(timeoutId);
+    }, [projectCamera, camera, controls]);
+
     // Save camera state on every frame (debounced)
     useFrame(() => {
         saveState();
@@ -780,11 +694,14 @@ const Scene = () => {
 
             <InteractionPlane />
             <EntitiesRenderer />
+            <ConstraintGlyphs />
+            <DimensionalConstraints />
             <TransformationPreview />
             <PreviewRenderer />
             <DynamicInput />
             <ZoomWindowBoxRenderer />
             <PrintWindowBoxRenderer />
+            <ToolpathPreview />
             <InPlaceTextEditor />
         </>
     );
@@ -0,0 +1,73 @@
+import React, { useMemo, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Line, Text } from '@react-three/drei';
+import { useDrawing } from '../../context/DrawingContext';
+import type { ToolpathContour } from '../../types/cam';
+import { tessellatePolyline } from '../../utils/polylineUtils';
+
+const LABEL_PIXELS = 12; // Ekranda sabit sıra numarası boyutu (piksel)
+
+const CONTOUR_COLORS: Record<ToolpathContour, string> = {
+    open: '#4cc2ff',
+    inner: '#ffb74c',
+    outer: '#4cffa6'
+};
+
+/**
+ * CAM path-order preview: cut paths colored by contour type, dashed rapid moves
+ * between them (starting at the origin) and the cut sequence number at each start point
+ */
+const ToolpathPreview: React.FC = () => {
+    const { toolpathPreview } = useDrawing();
+    const { camera } = useThree();
+    const [zoom, setZoom] = useState(camera.zoom);
+
+    // Zoom değiştikçe etiket boyutunu güncelle (kamera mutasyonu React'e bildirilmez)
+    useFrame(() => {
+        if (Math.abs(camera.zoom - zoom) > zoom * 0.05) setZoom(camera.zoom);
+    });
+
+    const paths = useMemo(() => (toolpathPreview || []).map(path => ({
+        contour: path.contour,
+        points: tessellatePolyline(path, path.closed).map(p => [p[0], p[1], 0.3] as [number, number, number]),
+        start: path.vertices[0]
+    })), [toolpathPreview]);
+
+    if (paths.length === 0) return null;
+
+    const size = LABEL_PIXELS / zoom;
+    const rapids: [number, number, number][][] = [];
+    let position: [number, number, number] = [0, 0, 0.3];
+    paths.forEach(path => {
+        rapids.push([position, path.points[0]]);
+        position = path.points[path.points.length - 1];
+    });
+
+    return (
+        <group>
+            {rapids.map((points, index) => (
+                <Line key={`rapid-${index}`} points={points} color="#888888" lineWidth={1} dashed dashSize={size / 2} gapSize={size / 3} />
+            ))}
+            {paths.map((path, index) => (
+                <group key={`path-${index}`}>
+                    <Line points={path.points} color={CONTOUR_COLORS[path.contour]} lineWidth={2} />
+                    <mesh position={[path.start[0], path.start[1], 0.31]}>
+                        <circleGeometry args={[size * 0.9, 16]} />
+                        <meshBasicMaterial color="#2b3a4a" transparent opacity={0.85} />
+                    </mesh>
+                    <Text
+                        position={[path.start[0], path.start[1], 0.32]}
+                        fontSize={size}
+                        color={CONTOUR_COLORS[path.contour]}
+                        anchorX="center"
+                        anchorY="middle"
+                    >
+                        {String(index + 1)}
+                    </Text>
+                </group>
+            ))}
+        </group>
+    );
+};
+
+export default ToolpathPreview;
@@ -2,6 +2,7 @@ import { useMemo } from 'react';
 import { useDrawing } from '../../context/DrawingContext';
 import { Line, Text } from '@react-three/drei';
 import { translatePoint, rotatePoint, scalePointFromCenter, mirrorPoint } from '../../utils/geometryUtils';
+import { tessellatePolyline } from '../../utils/polylineUtils';
 import type { Entity, Point } from '../../types/entities';
 
 // Helper to render a ghost entity
@@ -27,8 +28,7 @@ const GhostEntityRenderer = ({ entity }: { entity: Entity }) => {
             />
         );
     } else if (entity.type === 'LWPOLYLINE') {
-        const points = [...entity.vertices];
-        if (entity.closed) points.push(points[0]);
+        const points = tessellatePolyline(entity, true);
         return (
             <Line
                 points={points}
@@ -334,6 +334,7 @@ const TransformationPreview = () => {
                         newEnt.end = mirrorPoint(ent.end, p1[0], p1[1], p2[0], p2[1]);
                     } else if (ent.type === 'LWPOLYLINE') {
                         newEnt.vertices = ent.vertices.map((v: Point) => mirrorPoint(v, p1[0], p1[1], p2[0], p2[1]));
+                        if (ent.bulges) newEnt.bulges = ent.bulges.map(b => -b);
                     } else if (ent.type === 'CIRCLE' || ent.type === 'ARC' || ent.type === 'ELLIPSE' || ent.type === 'DONUT') {
                         newEnt.center = mirrorPoint(ent.center, p1[0], p1[1], p2[0], p2[1]);
                         // Note: For ARC/ELLIPSE rotation/angles might be needed to be flipped/calculated properly.
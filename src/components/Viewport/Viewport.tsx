@@ -5,7 +5,9 @@ import { useDrawing } from '../../context/DrawingContext';
 import './Viewport.css';
 import TextInputDialog from '../Dialogs/TextInputDialog';
 import HatchDialog, { HatchParams } from '../Dialogs/HatchDialog';
+import AttributeDialog from '../Dialogs/AttributeDialog';
 import { PRESET_PATTERNS } from '../../utils/hatchPatterns';
+import { getPromptedAttributes } from '../../utils/blockUtils';
 
 // Fixed UCS Icon (Bottom Left)
 const FixedUCS = () => (
@@ -31,7 +33,7 @@ const FixedUCS = () => (
 );
 
 const Viewport = () => {
-    const { activeCommand, selectedIds, getEntity, updateEntity, updateEntityTransient, step } = useDrawing();
+    const { activeCommand, selectedIds, getEntity, updateEntity, updateEntityTransient, step, openBlockEditor, blockEditorName, blocks } = useDrawing();
     const [isPanning, setIsPanning] = useState(false);
 
     const handleMouseDown = useCallback((e: React.MouseEvent) => {
@@ -68,6 +70,9 @@ const Viewport = () => {
         opacity: 1
     });
 
+    // Editing Block Attributes
+    const [editAttributeId, setEditAttributeId] = useState<number | null>(null);
+
     const handleDoubleClick = useCallback(() => {
         if (selectedIds.size === 1) {
             const id = Array.from(selectedIds)[0];
@@ -90,10 +95,17 @@ const Viewport = () => {
                         opacity: hatch.opacity ?? 1
                     });
                     setShowHatchEditDialog(true);
+                } else if (entity.type === 'BLOCK_REFERENCE' || entity.type === 'INSERT') {
+                    // Öznitelikli blok: öznitelik editörü, diğerleri: blok editörü
+                    if (getPromptedAttributes(blocks[entity.blockName]).length > 0) {
+                        setEditAttributeId(id);
+                    } else if (!blockEditorName) {
+                        openBlockEditor(entity.blockName);
+                    }
                 }
             }
         }
-    }, [selectedIds, getEntity]);
+    }, [selectedIds, getEntity, openBlockEditor, blockEditorName, blocks]);
 
     // Listen for custom edit events from EntityRenderer
     useEffect(() => {
@@ -108,7 +120,9 @@ const Viewport = () => {
                     color: hatch.color || '#808080',
                     scale: hatch.scale || 1,
                     rotation: hatch.rotation || 0,
-                    opacity: hatch.opacity ?? 1
+                    opacity: hatch.opacity ?? 1,
+                    associative: !!hatch.association,
+                    gradient: hatch.gradient
                 });
                 setShowHatchEditDialog(true);
             }
@@ -141,7 +155,10 @@ const Viewport = () => {
             color: params.color,
             scale: params.scale,
             rotation: params.rotation,
-            opacity: params.opacity
+            opacity: params.opacity,
+            gradient: params.gradient,
+            // İlişki kaldırıldıysa sınır artık kaynak nesneleri izlemez
+            ...(params.associative === false ? { association: undefined } : {})
         });
         // Don't close dialog - let user see changes live
     }, [updateEntity]);
@@ -153,6 +170,18 @@ const Viewport = () => {
         setEditHatchId(null);
     }, []);
 
+    const editAttributeEntity = editAttributeId !== null ? getEntity(editAttributeId) : undefined;
+    const editAttributeBlock = editAttributeEntity && (editAttributeEntity.type === 'BLOCK_REFERENCE' || editAttributeEntity.type === 'INSERT')
+        ? editAttributeEntity
+        : undefined;
+
+    const handleAttributeSubmit = useCallback((data: { values?: Record<string, string> }) => {
+        if (editAttributeId !== null && data.values) {
+            updateEntity(editAttributeId, { attributes: data.values });
+        }
+        setEditAttributeId(null);
+    }, [editAttributeId, updateEntity]);
+
     // Aktif komuta göre cursor class'ını belirle
     const commandClass = useMemo(() => {
         if (!activeCommand) return '';
@@ -226,6 +255,17 @@ const Viewport = () => {
                 editMode={true}
                 entityId={editHatchId ?? undefined}
             />
+
+            {/* Block Attribute Edit Dialog */}
+            <AttributeDialog
+                isOpen={!!editAttributeBlock}
+                mode="VALUES"
+                blockName={editAttributeBlock?.blockName}
+                definitions={editAttributeBlock ? getPromptedAttributes(blocks[editAttributeBlock.blockName]) : []}
+                values={editAttributeBlock?.attributes}
+                onClose={() => setEditAttributeId(null)}
+                onSubmit={handleAttributeSubmit}
+            />
         </div>
     );
 };
@@ -1,17 +1,41 @@
-import React, { createContext, useContext, useState, useCallback, useRef, useMemo, useEffect } from 'react';
-import type { Entity, Point } from '../types/entities';
+import React, { createContext, useContext, useState, useCallback, useRef, useMemo, useEffect, useLayoutEffect } from 'react';
+import type { Entity, Point, BlockReferenceEntity } from '../types/entities';
 import type { CommandType } from '../types/commands';
 import { closestPointOnEntity, rotatePoint as rotatePt, scalePoint as scalePt, translatePoint as translatePt, mirrorPoint as mirrorPt, getClosestSnapPoint, SnapPoint, GripPoint, distance2D, isEntityInBox, doesEntityIntersectBox, createArcFrom3Points } from '../utils/geometryUtils';
 import { trimLineEntity, trimArcEntity, trimCircleEntity, trimPolylineEntity, extendLineEntity, extendArcEntity } from '../utils/intersectionUtils';
 import { findAlignmentPoints, AlignmentGuide, scaleEntity } from '../utils/geometryUtils';
-import { findBoundaryFromPoint } from '../utils/boundaryUtils';
+import { findBoundaryFromPoint, findBoundaryRegion, DEFAULT_BOUNDARY_OPTIONS, type BoundaryOptions, type IslandDetectionStyle } from '../utils/boundaryUtils';
+import { updateAssociativeHatches, getClosedEntityLoop, buildLoopFromSources } from '../utils/hatchAssociation';
 import { convertToUnit } from '../utils/unitConversion';
 
 import { HistoryManager } from '../utils/historyManager';
+import { exportDXF } from '../utils/dxfExporter';
+import { exportSVG } from '../utils/svgExporter';
+import { exportPDF } from '../utils/pdfExporter';
+import { exportHPGL } from '../utils/hpglExporter';
+import { exportGCode } from '../utils/gcodeExporter';
+import { generateToolpaths, type ToolpathResult } from '../utils/toolpathUtils';
+import { DXF_UNITS_BY_DRAWING_UNIT } from '../types/dxf';
+import type { SVGExportOptions } from '../types/svg';
+import type { PlotSettings } from '../types/plot';
+import type { CAMSettings, Toolpath } from '../types/cam';
 import { calculateDimensionGeometry, autoDetectPoints } from '../utils/dimensionUtils';
-import { DEFAULT_DIMENSION_SETTINGS } from '../types/dimensionSettings';
+import { DEFAULT_DIMENSION_SETTINGS, loadDimensionSettings, saveDimensionSettings } from '../types/dimensionSettings';
 import type { Layer } from '../types/layers';
-import { DEFAULT_LAYER } from '../types/layers';
+import { DEFAULT_LAYER, mergeImportedLayers } from '../types/layers';
+import type { BlockDefinition, BlockTable } from '../types/blocks';
+import { setActiveBlockTable, isBlockReference, resolveBlockReference, createBlockDefinition, migrateLegacyBlockReferences, blockReferencesBlock, getBlockEditorEntities, getPromptedAttributes, getDefaultAttributeValues } from '../utils/blockUtils';
+import type { GeometricConstraint, GeometricConstraintType, ConstraintEntityRef, ConstraintPointRef, DimensionalConstraint, DimensionalConstraintType, UserParameter, ParametersUpdate } from '../types/constraints';
+import { solveConstraints, getConstraintEntityIds, findConstraintPoint, findConstraintEntity, validateConstraintRefs, getConstraintPoint, isCircularRef, getDimensionalEntityIds, getNextDimensionalName, measureDimensionalConstraint, validateDimensionalRefs } from '../utils/constraintUtils';
+import { evaluateParameters, formatParameterValue, replaceExpressionReference } from '../utils/expressionUtils';
+import { findPurgeableItems, type PurgeItem } from '../utils/purgeUtils';
+import { auditEntities, repairEntities, type AuditReport } from '../utils/auditUtils';
+import type { DXFImportReport } from '../utils/dxfLoader';
+import { explodePolyline, offsetPolyline, getPolylineSide, getPolylineEndTangent, bulgeFromTangent, createPolylineData, tessellatePolyline } from '../utils/polylineUtils';
+import { migrateProjectData, createProjectFile, exportProjectFile, loadCameraState, PROJECT_SCHEMA_VERSION, type CameraState } from '../utils/projectFile';
+import { getCustomPatterns, deleteCustomPattern, restoreCustomPattern } from '../utils/hatchPatterns';
+import type { DataExtractionOptions } from '../utils/dataExtraction';
+import { extractBlockData, buildExtractionTable, buildExtractionTableEntity, exportExtractionCSV } from '../utils/dataExtraction';
 
 interface ActiveGrip {
   entityId: number;
@@ -54,8 +78,22 @@ export interface DrawingSheet {
   baseUnit: DrawingUnit;
   drawingUnit: DrawingUnit;
   drawingScale: string;
+  blocks?: BlockTable; // Block definitions of this drawing
+  constraints?: GeometricConstraint[]; // Parametric geometric constraints
+  dimensionalConstraints?: DimensionalConstraint[]; // Driving dimensions
+  parameters?: UserParameter[]; // User parameters (parameters manager)
 }
 
+// Parametrik bir düzenlemenin değiştirdiği sayfa alanları (geometri ve kısıt listeleri)
+type ParametricState = Partial<Pick<DrawingSheet, 'entities' | 'constraints' | 'dimensionalConstraints' | 'parameters'>>;
+
+// Eski blok referanslarını (attributes.entities JSON) blok tablosuna taşı
+const migrateSheetBlocks = (sheet: DrawingSheet): DrawingSheet => {
+  const { entities, blocks, migrated } = migrateLegacyBlockReferences(sheet.entities || [], sheet.blocks || {});
+  if (migrated === 0 && sheet.blocks) return sheet;
+  return { ...sheet, entities, blocks };
+};
+
 interface DrawingContextValue {
   // Sheet/Tab management
   sheets: DrawingSheet[];
@@ -71,8 +109,15 @@ interface DrawingContextValue {
   fileName: string;
   isModified: boolean;
   newFile: () => void;
-  loadEntities: (entities: Entity[], fileName?: string) => void;
-  loadProject: (data: any) => void;
+  loadEntities: (entities: Entity[], fileName?: string, blocks?: BlockTable, layers?: Layer[]) => void;
+  loadProject: (data: any) => string | undefined; // Hata mesajı döner
+  saveProject: (fileName?: string) => void;
+  saveDXF: (fileName?: string) => void; // Katman, stil ve ölçü tablolarıyla DXF
+  saveSVG: (options?: Partial<SVGExportOptions>, fileName?: string) => void; // Katmanları <g> olan ölçekli SVG
+  savePDF: (settings?: Partial<PlotSettings>, fileName?: string) => void; // Kağıt boyutu ve çizim ölçeğinde vektör PDF
+  saveHPGL: (settings?: Partial<PlotSettings>, fileName?: string) => void; // Kalem çizici / vinil kesici için .plt
+  generateCAMToolpaths: (settings: CAMSettings) => ToolpathResult; // Kesim sırasına dizilmiş takım yolları
+  saveGCode: (settings: CAMSettings, fileName?: string) => void;
 
   // Layer state
   layerDialogState: { isOpen: boolean };
@@ -88,6 +133,116 @@ interface DrawingContextValue {
   activeLineWeight: number; // 0 means BYLAYER usually, or specifics
   setActiveLineWeight: (weight: number) => void;
 
+  // Block definitions (active sheet)
+  blocks: BlockTable;
+  defineBlock: (definition: BlockDefinition) => void;
+  removeBlock: (name: string) => void;
+  blockDialogState: {
+    isOpen: boolean;
+    mode: 'DEFINE' | 'INSERT' | 'EDIT';
+    callback?: (data: any) => void;
+  };
+  setBlockDialogState: React.Dispatch<React.SetStateAction<{
+    isOpen: boolean;
+    mode: 'DEFINE' | 'INSERT' | 'EDIT';
+    callback?: (data: any) => void;
+  }>>;
+  // Attribute Dialog State (ATTDEF / INSERT values)
+  attributeDialogState: {
+    isOpen: boolean;
+    mode: 'DEFINE' | 'VALUES';
+    blockName?: string;
+    values?: Record<string, string>;
+    callback?: (data: any) => void;
+  };
+  setAttributeDialogState: React.Dispatch<React.SetStateAction<{
+    isOpen: boolean;
+    mode: 'DEFINE' | 'VALUES';
+    blockName?: string;
+    values?: Record<string, string>;
+    callback?: (data: any) => void;
+  }>>;
+  // Data Extraction Dialog State (DATAEXTRACTION)
+  dataExtractionDialogState: {
+    isOpen: boolean;
+    callback?: (data: any) => void;
+  };
+  setDataExtractionDialogState: React.Dispatch<React.SetStateAction<{
+    isOpen: boolean;
+    callback?: (data: any) => void;
+  }>>;
+  // Geometric constraints (Parametric)
+  constraints: GeometricConstraint[];
+  addConstraint: (constraint: Omit<GeometricConstraint, 'id'>, lockedIds?: number[]) => void;
+  deleteConstraints: (ids: number[]) => void;
+  constraintBarVisible: boolean;
+  setConstraintBarVisible: (visible: boolean) => void;
+  // Dimensional constraints & parameters
+  dimensionalConstraints: DimensionalConstraint[];
+  parameters: UserParameter[];
+  addDimensionalConstraint: (constraint: Omit<DimensionalConstraint, 'id' | 'name' | 'expression' | 'value'>, expression?: string) => string | null;
+  deleteDimensionalConstraints: (ids: number[]) => void;
+  applyParameters: (data: ParametersUpdate) => string | null;
+  parametersDialogState: {
+    isOpen: boolean;
+    focusName?: string;
+    callback?: (data: any) => void;
+  };
+  setParametersDialogState: React.Dispatch<React.SetStateAction<{
+    isOpen: boolean;
+    focusName?: string;
+    callback?: (data: any) => void;
+  }>>;
+  openParametersManager: (focusName?: string) => void;
+  // Purge Dialog State (PURGE)
+  purgeDialogState: {
+    isOpen: boolean;
+    items: PurgeItem[];
+    callback?: (data: any) => void;
+  };
+  setPurgeDialogState: React.Dispatch<React.SetStateAction<{
+    isOpen: boolean;
+    items: PurgeItem[];
+    callback?: (data: any) => void;
+  }>>;
+  // Audit Dialog State (AUDIT)
+  auditDialogState: {
+    isOpen: boolean;
+    report: AuditReport | null;
+    callback?: (data: any) => void;
+  };
+  setAuditDialogState: React.Dispatch<React.SetStateAction<{
+    isOpen: boolean;
+    report: AuditReport | null;
+    callback?: (data: any) => void;
+  }>>;
+  // DXF Import Report Dialog State (atlanan entity tipleri)
+  importReportDialogState: {
+    isOpen: boolean;
+    fileName: string;
+    report: DXFImportReport | null;
+  };
+  setImportReportDialogState: React.Dispatch<React.SetStateAction<{
+    isOpen: boolean;
+    fileName: string;
+    report: DXFImportReport | null;
+  }>>;
+  // Survey point file (CSV/TXT) import dialog; content is the raw file text
+  pointImportDialogState: {
+    isOpen: boolean;
+    fileName: string;
+    content: string;
+  };
+  setPointImportDialogState: React.Dispatch<React.SetStateAction<{
+    isOpen: boolean;
+    fileName: string;
+    content: string;
+  }>>;
+  // Block editor (BEDIT)
+  blockEditorName: string | null;
+  openBlockEditor: (name: string) => void;
+  closeBlockEditor: (save: boolean) => boolean;
+
   // Scale & Units
   baseUnit: DrawingUnit; // Proje baz birimi (değerler bu birimde saklanır)
   setBaseUnit: (unit: DrawingUnit) => void;
@@ -104,6 +259,10 @@ interface DrawingContextValue {
   updateEntityTransient: (id: number, updates: any) => void; // No history, for high-frequency updates
   deleteEntities: (ids: Set<number>) => void;
   getEntity: (id: number) => Entity | undefined;
+  detachedHatchIds: number[]; // İlişkisi kopan taramalar (bildirim için)
+  clearDetachedHatchIds: () => void;
+  boundaryOptions: Required<BoundaryOptions>; // HATCH / BOUNDARY ada algılama ve boşluk toleransı
+  setBoundaryOptions: (options: BoundaryOptions) => void;
 
   // Command state
   activeCommand: CommandType | null;
@@ -167,6 +326,7 @@ interface DrawingContextValue {
   // Zoom controls
   zoomToFitTrigger: number;
   triggerZoomToFit: () => void;
+  projectCamera: CameraState | null; // Proje dosyasından geri yüklenecek kamera
   zoomInTrigger: number;
   triggerZoomIn: () => void;
   zoomOutTrigger: number;
@@ -293,8 +453,18 @@ interface DrawingContextValue {
   printDialogState: { isOpen: boolean };
   setPrintDialogState: React.Dispatch<React.SetStateAction<{ isOpen: boolean }>>;
 
+  // SVG Export Dialog State
+  svgExportDialogState: { isOpen: boolean };
+  setSvgExportDialogState: React.Dispatch<React.SetStateAction<{ isOpen: boolean }>>;
+
+  // CAM (G-code) Dialog State
+  camDialogState: { isOpen: boolean };
+  setCamDialogState: React.Dispatch<React.SetStateAction<{ isOpen: boolean }>>;
+  toolpathPreview: Toolpath[] | null; // Görünüm alanında çizilen kesim sırası önizlemesi
+  setToolpathPreview: React.Dispatch<React.SetStateAction<Toolpath[] | null>>;
+
   printWindowMode: boolean;
-  startPrintWindow: () => void;
+  startPrintWindow: (returnTo?: 'print' | 'svg') => void; // Seçimden sonra açılacak diyalog
   finishPrintWindow: () => void;
   printWindowBox: { start: Point; end: Point } | null;
   setPrintWindowBox: React.Dispatch<React.SetStateAction<{ start: Point; end: Point } | null>>;
@@ -324,37 +494,19 @@ interface DrawingProviderProps {
 // localStorage keys
 const STORAGE_KEY = 'cad_app_data';
 
-// Load from localStorage
 // Load from localStorage
 const loadFromStorage = (): { sheets: DrawingSheet[]; activeSheetId: string; layers: Layer[]; activeLayerId: string } | null => {
   try {
     const saved = localStorage.getItem(STORAGE_KEY);
     if (saved) {
-      const data = JSON.parse(saved);
-      // Yeni format (sheets array)
-      if (data.sheets && Array.isArray(data.sheets)) {
-        return {
-          sheets: data.sheets,
-          activeSheetId: data.activeSheetId || data.sheets[0]?.id || '',
-          layers: data.layers || [DEFAULT_LAYER],
-          activeLayerId: data.activeLayerId || DEFAULT_LAYER.id,
-        };
-      }
-      // Eski format (tek entities) - geriye dönük uyumluluk
-      if (data.entities) {
+      // Eski kayıtlar (tek entities, sürümsüz sheets) proje şemasına yükseltilir
+      const { project } = migrateProjectData(JSON.parse(saved));
+      if (project) {
         return {
-          sheets: [{
-            id: `sheet_${Date.now()}`,
-            name: data.fileName || 'Untitled.dxf',
-            entities: data.entities,
-            isModified: false,
-            baseUnit: data.baseUnit || 'mm',
-            drawingUnit: data.drawingUnit || 'mm',
-            drawingScale: data.drawingScale || '1:1',
-          }],
-          activeSheetId: '',
-          layers: [DEFAULT_LAYER],
-          activeLayerId: DEFAULT_LAYER.id,
+          sheets: project.sheets.map(migrateSheetBlocks),
+          activeSheetId: project.activeSheetId,
+          layers: project.layers,
+          activeLayerId: project.activeLayerId,
         };
       }
     }
@@ -382,6 +534,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     baseUnit: 'mm',
     drawingUnit: 'mm',
     drawingScale: '1:1',
+    blocks: {},
   });
 
   // Sheet/Tab management - initialize from localStorage or with one empty sheet
@@ -458,19 +611,38 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     isOpen: boolean;
   }>({ isOpen: false });
 
+  // SVG dışa aktarma diyaloğu (pencere seçimini yazdırma ile paylaşır)
+  const [svgExportDialogState, setSvgExportDialogState] = useState<{
+    isOpen: boolean;
+  }>({ isOpen: false });
+
+  // CAM diyaloğu ve takım yolu önizlemesi
+  const [camDialogState, setCamDialogState] = useState<{
+    isOpen: boolean;
+  }>({ isOpen: false });
+  const [toolpathPreview, setToolpathPreview] = useState<Toolpath[] | null>(null);
+
   const [printWindowMode, setPrintWindowMode] = useState(false);
   const [printWindowBox, setPrintWindowBox] = useState<{ start: Point; end: Point } | null>(null);
+  const printWindowReturnRef = useRef<'print' | 'svg'>('print');
 
-  const startPrintWindow = useCallback(() => {
+  const startPrintWindow = useCallback((returnTo: 'print' | 'svg' = 'print') => {
+    printWindowReturnRef.current = returnTo;
     setPrintWindowMode(true);
     setPrintDialogState({ isOpen: false }); // Hide dialog during selection
+    setSvgExportDialogState({ isOpen: false });
     setPrintWindowBox(null);
     cancelCommand();
   }, []);
 
   const finishPrintWindow = useCallback(() => {
     setPrintWindowMode(false);
-    setPrintDialogState({ isOpen: true }); // Show dialog after selection
+    // Show dialog after selection
+    if (printWindowReturnRef.current === 'svg') {
+      setSvgExportDialogState({ isOpen: true });
+    } else {
+      setPrintDialogState({ isOpen: true });
+    }
   }, []);
 
   const applyPrintWindow = useCallback((start: Point, end: Point) => {
@@ -491,6 +663,13 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
   const drawingUnit = activeSheet?.drawingUnit || 'mm';
   const drawingScale = activeSheet?.drawingScale || '1:1';
   const scaleFactor = SCALE_PRESETS[drawingScale as keyof typeof SCALE_PRESETS] || 1;
+  const blocks = useMemo(() => activeSheet?.blocks || {}, [activeSheet?.blocks]);
+
+  // Render/seçim yardımcıları blok referanslarını aktif tablo üzerinden çözer;
+  // tablo render sırasında değil, commit aşamasında (boyamadan önce) güncellenir
+  useLayoutEffect(() => {
+    setActiveBlockTable(blocks);
+  }, [blocks]);
 
   // Update active sheet helper
   const updateActiveSheet = useCallback((updates: Partial<DrawingSheet>) => {
@@ -509,6 +688,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
       baseUnit: 'mm',
       drawingUnit: 'mm',
       drawingScale: '1:1',
+      blocks: {},
     };
     setSheets(prev => [...prev, newSheet]);
     setActiveSheetId(newSheet.id);
@@ -527,6 +707,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
         baseUnit: 'mm',
         drawingUnit: 'mm',
         drawingScale: '1:1',
+        blocks: {},
       };
       setSheets([newSheet]);
       setActiveSheetId(newSheet.id);
@@ -575,6 +756,143 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     }));
   }, [activeSheetId]);
 
+  // Kısıtları koruyarak entity güncelle: düzenlenen entity'ler sabit kalır, bağlı geometri yeniden çözülür
+  const setEntitiesWithConstraints = useCallback((newEntities: Entity[] | ((prev: Entity[]) => Entity[]), lockedIds: number[]) => {
+    setSheets(prev => prev.map(sheet => {
+      if (sheet.id !== activeSheetId) return sheet;
+      const updatedEntities = typeof newEntities === 'function'
+        ? newEntities(sheet.entities)
+        : newEntities;
+      if (!sheet.constraints?.length && !sheet.dimensionalConstraints?.length) return { ...sheet, entities: updatedEntities };
+      return { ...sheet, entities: solveConstraints(updatedEntities, sheet.constraints || [], lockedIds, sheet.dimensionalConstraints).entities };
+    }));
+  }, [activeSheetId]);
+
+  // Geometric constraints of the active sheet
+  const constraints = useMemo(() => activeSheet?.constraints || [], [activeSheet?.constraints]);
+  const [constraintBarVisible, setConstraintBarVisible] = useState(true);
+
+  // Apply a parametric edit as one undoable action: only the changed sheet fields are
+  // swapped, so consecutive edits (e.g. DELCONSTRAINT) don't overwrite each other.
+  // Selection is left untouched by these edits, so none is recorded
+  const commitParametricChange = useCallback((command: CommandType, before: ParametricState, after: ParametricState) => {
+    const sheetId = activeSheetId;
+    const applyState = (state: ParametricState) => {
+      setSheets(prev => prev.map(sheet => sheet.id === sheetId ? { ...sheet, ...state, isModified: true } : sheet));
+    };
+
+    applyState(after);
+    historyManager.current.pushHistory(
+      historyManager.current.createActionItem(command, entities, new Set(), () => applyState(before), () => applyState(after))
+    );
+  }, [activeSheetId, entities]);
+
+  // Add a constraint and satisfy it immediately; locked entities (first pick) keep their geometry.
+  // A constraint the solver cannot satisfy together with the existing ones is not added
+  const addConstraint = useCallback((constraint: Omit<GeometricConstraint, 'id'>, lockedIds: number[] = []) => {
+    if (!activeSheet) return;
+    const existing = activeSheet.constraints || [];
+    const id = existing.reduce((max, c) => Math.max(max, c.id), 0) + 1;
+    const nextConstraints = [...existing, { ...constraint, id }];
+    const { entities: solvedEntities, solved } = solveConstraints(activeSheet.entities, nextConstraints, lockedIds.length > 0 ? lockedIds : getConstraintEntityIds({ ...constraint, id }).slice(0, 1), activeSheet.dimensionalConstraints);
+    if (!solved) {
+      console.log(`${constraint.type}: Over-constrained, conflicts with existing constraints`);
+      return;
+    }
+    commitParametricChange(
+      `GEOMCONSTRAINT_${constraint.type}`,
+      { entities: activeSheet.entities, constraints: activeSheet.constraints },
+      { entities: solvedEntities, constraints: nextConstraints }
+    );
+  }, [activeSheet, commitParametricChange]);
+
+  // Driving dimensions and user parameters of the active sheet
+  const dimensionalConstraints = useMemo(() => activeSheet?.dimensionalConstraints || [], [activeSheet?.dimensionalConstraints]);
+  const parameters = useMemo(() => activeSheet?.parameters || [], [activeSheet?.parameters]);
+
+  // Add a driving dimension; without an expression it keeps the current measured value
+  const addDimensionalConstraint = useCallback((constraint: Omit<DimensionalConstraint, 'id' | 'name' | 'expression' | 'value'>, expression?: string): string | null => {
+    const measured = measureDimensionalConstraint(constraint as DimensionalConstraint, entities);
+    if (measured === null) return 'Invalid geometry';
+    const name = getNextDimensionalName(constraint.type, [...dimensionalConstraints.map(c => c.name), ...parameters.map(p => p.name)]);
+    const finalExpression = expression?.trim() || formatParameterValue(measured);
+    const { values, errors } = evaluateParameters([...dimensionalConstraints, ...parameters, { name, expression: finalExpression }]);
+    if (errors[name]) return errors[name];
+    const value = values[name];
+    if (value <= 0 || (constraint.type === 'ANGULAR' && value >= 180)) return 'Value out of range';
+
+    if (!activeSheet) return 'No active drawing';
+    const existing = activeSheet.dimensionalConstraints || [];
+    const id = existing.reduce((max, c) => Math.max(max, c.id), 0) + 1;
+    const nextDimensions = [...existing, { ...constraint, id, name, expression: finalExpression, value }];
+    const { entities: solvedEntities, solved } = solveConstraints(activeSheet.entities, activeSheet.constraints || [], [], nextDimensions);
+    if (!solved) return 'Over-constrained: the value cannot be reached';
+    commitParametricChange(
+      `DIMCONSTRAINT_${constraint.type}`,
+      { entities: activeSheet.entities, dimensionalConstraints: activeSheet.dimensionalConstraints },
+      { entities: solvedEntities, dimensionalConstraints: nextDimensions }
+    );
+    return null;
+  }, [activeSheet, entities, dimensionalConstraints, parameters, commitParametricChange]);
+
+  // Remove geometric constraints and driving dimensions as one undoable action; expressions
+  // that reference a deleted dimension keep its last value (as in AutoCAD)
+  const removeConstraints = useCallback((ids: number[], dimensionIds: number[]) => {
+    if (!activeSheet) return;
+    const idSet = new Set(ids);
+    const dimensionIdSet = new Set(dimensionIds);
+    const dimensions = activeSheet.dimensionalConstraints || [];
+    const removed = dimensions.filter(c => dimensionIdSet.has(c.id));
+    const inline = <T extends { expression: string }>(item: T): T => {
+      const expression = removed.reduce((expr, c) => replaceExpressionReference(expr, c.name, c.value), item.expression);
+      return expression === item.expression ? item : { ...item, expression };
+    };
+
+    const before: ParametricState = {};
+    const after: ParametricState = {};
+    if (idSet.size > 0) {
+      before.constraints = activeSheet.constraints;
+      after.constraints = (activeSheet.constraints || []).filter(c => !idSet.has(c.id));
+    }
+    if (removed.length > 0) {
+      before.dimensionalConstraints = activeSheet.dimensionalConstraints;
+      before.parameters = activeSheet.parameters;
+      after.dimensionalConstraints = dimensions.filter(c => !dimensionIdSet.has(c.id)).map(inline);
+      after.parameters = activeSheet.parameters?.map(inline);
+    }
+    commitParametricChange('DELCONSTRAINT', before, after);
+  }, [activeSheet, commitParametricChange]);
+
+  const deleteConstraints = useCallback((ids: number[]) => removeConstraints(ids, []), [removeConstraints]);
+  const deleteDimensionalConstraints = useCallback((ids: number[]) => removeConstraints([], ids), [removeConstraints]);
+
+  // Parameters manager: re-evaluate all expressions and drive the geometry with the new values
+  const applyParameters = useCallback((data: ParametersUpdate): string | null => {
+    const { values, errors } = evaluateParameters([...data.dimensions, ...data.parameters]);
+    const firstError = Object.entries(errors)[0];
+    if (firstError) return `${firstError[0]}: ${firstError[1]}`;
+
+    if (!activeSheet) return 'No active drawing';
+    const existing = new Map((activeSheet.dimensionalConstraints || []).map(c => [c.id, c] as [number, DimensionalConstraint]));
+    const nextDimensions = data.dimensions
+      .filter(d => existing.has(d.id))
+      .map(d => ({ ...existing.get(d.id)!, name: d.name, expression: d.expression, value: values[d.name] }));
+    const nextParameters: UserParameter[] = data.parameters.map(p => ({
+      name: p.name,
+      expression: p.expression,
+      value: values[p.name],
+      ...(p.description ? { description: p.description } : {}),
+    }));
+    const { entities: solvedEntities, solved } = solveConstraints(activeSheet.entities, activeSheet.constraints || [], [], nextDimensions);
+    if (!solved) return 'Over-constrained: the values cannot be reached';
+    commitParametricChange(
+      'PARAMETERS',
+      { entities: activeSheet.entities, dimensionalConstraints: activeSheet.dimensionalConstraints, parameters: activeSheet.parameters },
+      { entities: solvedEntities, dimensionalConstraints: nextDimensions, parameters: nextParameters }
+    );
+    return null;
+  }, [activeSheet, commitParametricChange]);
+
   const setBaseUnit = useCallback((unit: DrawingUnit) => {
     updateActiveSheet({ baseUnit: unit });
   }, [updateActiveSheet]);
@@ -589,9 +907,40 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
 
       // Scale all entities to preserve physical size
       const newEntities = sheet.entities.map(ent => scaleEntity(ent, factor));
+      const newBlocks: BlockTable = {};
+      Object.values(sheet.blocks || {}).forEach(def => {
+        newBlocks[def.name] = {
+          ...def,
+          basePoint: [def.basePoint[0] * factor, def.basePoint[1] * factor, (def.basePoint[2] || 0) * factor],
+          entities: def.entities.map(ent => scaleEntity(ent, factor)),
+          ...(def.attributes ? {
+            attributes: def.attributes.map(attr => ({
+              ...attr,
+              position: [attr.position[0] * factor, attr.position[1] * factor, (attr.position[2] || 0) * factor] as Point,
+              height: attr.height * factor,
+            })),
+          } : {}),
+        };
+      });
 
       return {
         ...sheet,
+        blocks: newBlocks,
+        // FIX kısıtlarının kilitli konumları da ölçeklenir
+        ...(sheet.constraints ? {
+          constraints: sheet.constraints.map(c => c.position
+            ? { ...c, position: [c.position[0] * factor, c.position[1] * factor, (c.position[2] || 0) * factor] as Point }
+            : c),
+        } : {}),
+        // Sürücü ölçüler: konum ölçeklenir, sayısal uzunluk değerleri yeni birime çevrilir
+        ...(sheet.dimensionalConstraints ? {
+          dimensionalConstraints: sheet.dimensionalConstraints.map(c => {
+            const dimLinePosition = [c.dimLinePosition[0] * factor, c.dimLinePosition[1] * factor, (c.dimLinePosition[2] || 0) * factor] as Point;
+            if (c.type === 'ANGULAR' || !/^\s*[\d.]+\s*$/.test(c.expression)) return { ...c, dimLinePosition };
+            const expression = formatParameterValue(c.value * factor);
+            return { ...c, dimLinePosition, expression, value: parseFloat(expression) };
+          }),
+        } : {}),
         drawingUnit: newUnit,
         baseUnit: newUnit, // Assume baseUnit changes too for now to keep consistency
         entities: newEntities
@@ -603,6 +952,92 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     updateActiveSheet({ drawingScale: scale });
   }, [updateActiveSheet]);
 
+  // Block table management - redefining a block updates every instance on next render
+  const defineBlock = useCallback((definition: BlockDefinition) => {
+    setSheets(prev => prev.map(sheet =>
+      sheet.id === activeSheetId
+        ? { ...sheet, blocks: { ...(sheet.blocks || {}), [definition.name]: definition }, isModified: true }
+        : sheet
+    ));
+  }, [activeSheetId]);
+
+  const removeBlock = useCallback((name: string) => {
+    setSheets(prev => prev.map(sheet => {
+      if (sheet.id !== activeSheetId || !sheet.blocks?.[name]) return sheet;
+      const nextBlocks = { ...sheet.blocks };
+      delete nextBlocks[name];
+      return { ...sheet, blocks: nextBlocks, isModified: true };
+    }));
+  }, [activeSheetId]);
+
+  // Block Dialog State (BLOCK / INSERT)
+  const [blockDialogState, setBlockDialogState] = useState<{
+    isOpen: boolean;
+    mode: 'DEFINE' | 'INSERT' | 'EDIT';
+    callback?: (data: any) => void;
+  }>({ isOpen: false, mode: 'DEFINE' });
+
+  // Attribute Dialog State (ATTDEF / INSERT values)
+  const [attributeDialogState, setAttributeDialogState] = useState<{
+    isOpen: boolean;
+    mode: 'DEFINE' | 'VALUES';
+    blockName?: string;
+    values?: Record<string, string>;
+    callback?: (data: any) => void;
+  }>({ isOpen: false, mode: 'DEFINE' });
+
+  // Data Extraction Dialog State (DATAEXTRACTION)
+  const [dataExtractionDialogState, setDataExtractionDialogState] = useState<{
+    isOpen: boolean;
+    callback?: (data: any) => void;
+  }>({ isOpen: false });
+
+  // Purge Dialog State (PURGE)
+  const [purgeDialogState, setPurgeDialogState] = useState<{
+    isOpen: boolean;
+    items: PurgeItem[];
+    callback?: (data: any) => void;
+  }>({ isOpen: false, items: [] });
+
+  // Audit Dialog State (AUDIT)
+  const [auditDialogState, setAuditDialogState] = useState<{
+    isOpen: boolean;
+    report: AuditReport | null;
+    callback?: (data: any) => void;
+  }>({ isOpen: false, report: null });
+
+  // DXF Import Report Dialog State
+  const [importReportDialogState, setImportReportDialogState] = useState<{
+    isOpen: boolean;
+    fileName: string;
+    report: DXFImportReport | null;
+  }>({ isOpen: false, fileName: '', report: null });
+
+  // Nokta dosyası (CSV/TXT) içe aktarma diyaloğu
+  const [pointImportDialogState, setPointImportDialogState] = useState<{
+    isOpen: boolean;
+    fileName: string;
+    content: string;
+  }>({ isOpen: false, fileName: '', content: '' });
+
+  // Parameters Manager Dialog State (PARAMETERS)
+  const [parametersDialogState, setParametersDialogState] = useState<{
+    isOpen: boolean;
+    focusName?: string;
+    callback?: (data: any) => void;
+  }>({ isOpen: false });
+
+  const openParametersManager = useCallback((focusName?: string) => {
+    setParametersDialogState({
+      isOpen: true,
+      focusName,
+      callback: (data: ParametersUpdate) => {
+        const error = applyParameters(data);
+        if (error) console.log(`Parameters: ${error}`);
+      }
+    });
+  }, [applyParameters]);
+
   const [activeCommand, setActiveCommand] = useState<CommandType | null>(null);
   const [step, setStep] = useState(0);
   const [tempPoints, setTempPoints] = useState<Point[]>([]);
@@ -661,6 +1096,8 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     setZoomToFitTrigger(prev => prev + 1);
   }, []);
 
+  const [projectCamera, setProjectCamera] = useState<CameraState | null>(null);
+
   const [zoomInTrigger, setZoomInTrigger] = useState(0);
   const triggerZoomIn = useCallback(() => {
     setZoomInTrigger(prev => prev + 1);
@@ -732,12 +1169,28 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
   const [hoveredEntityId, setHoveredEntityId] = useState<number | null>(null);
 
+  // Block editor (BEDIT) session - drawing state stashed while block members are edited
+  const blockEditorRef = useRef<{
+    blockName: string;
+    sheetId: string;
+    drawingEntities: Entity[];
+    drawingSelection: Set<number>;
+    drawingHistory: HistoryManager;
+  } | null>(null);
+  const [blockEditorName, setBlockEditorName] = useState<string | null>(null);
+
   // Auto-save sheets and layers to localStorage (debounced)
   useEffect(() => {
     const timeoutId = setTimeout(() => {
       try {
+        // Blok editörü açıkken düzenlenen üyeler değil, çizimin kendisi kaydedilir
+        const session = blockEditorRef.current;
+        const drawingSheets = session
+          ? sheets.map(sheet => sheet.id === session.sheetId ? { ...sheet, entities: session.drawingEntities } : sheet)
+          : sheets;
         localStorage.setItem(STORAGE_KEY, JSON.stringify({
-          sheets,
+          schemaVersion: PROJECT_SCHEMA_VERSION,
+          sheets: drawingSheets,
           activeSheetId,
           layers,
           activeLayerId,
@@ -782,6 +1235,128 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     beforeStateRef.current = null;
   }, [entities, selectedIds]);
 
+  // PURGE: Remove unused named items as a single undoable operation
+  const purgeItems = useCallback((items: PurgeItem[]) => {
+    const ids = (kind: PurgeItem['kind']) => new Set(items.filter(item => item.kind === kind).map(item => item.id));
+    const layerIds = ids('layer');
+    const blockNames = ids('block');
+    const sheetIds = ids('sheet');
+    const patternIds = ids('pattern');
+    const sheetId = activeSheetId;
+
+    // Geri alma için silinen öğelerin kopyaları (liste sırası korunur)
+    const removedLayers = layers.map((layer, index) => ({ layer, index })).filter(({ layer }) => layerIds.has(layer.id));
+    const removedBlocks = Object.values(blocks).filter(def => blockNames.has(def.name));
+    const removedSheets = sheets.map((sheet, index) => ({ sheet, index })).filter(({ sheet }) => sheetIds.has(sheet.id));
+    const removedPatterns = Object.entries(getCustomPatterns()).filter(([id]) => patternIds.has(id));
+
+    const apply = () => {
+      setLayers(prev => prev.filter(layer => !layerIds.has(layer.id)));
+      setSheets(prev => prev
+        .filter(sheet => !sheetIds.has(sheet.id))
+        .map(sheet => {
+          if (sheet.id !== sheetId || blockNames.size === 0) return sheet;
+          const nextBlocks: BlockTable = { ...(sheet.blocks || {}) };
+          blockNames.forEach(name => delete nextBlocks[name]);
+          return { ...sheet, blocks: nextBlocks, isModified: true };
+        }));
+      removedPatterns.forEach(([id]) => deleteCustomPattern(id));
+    };
+
+    const restore = () => {
+      setLayers(prev => {
+        const next = [...prev];
+        removedLayers.forEach(({ layer, index }) => {
+          if (!next.some(l => l.id === layer.id)) next.splice(Math.min(index, next.length), 0, layer);
+        });
+        return next;
+      });
+      setSheets(prev => {
+        const next = prev.map(sheet => {
+          if (sheet.id !== sheetId || removedBlocks.length === 0) return sheet;
+          const nextBlocks: BlockTable = { ...(sheet.blocks || {}) };
+          removedBlocks.forEach(def => { nextBlocks[def.name] = def; });
+          return { ...sheet, blocks: nextBlocks };
+        });
+        removedSheets.forEach(({ sheet, index }) => {
+          if (!next.some(s => s.id === sheet.id)) next.splice(Math.min(index, next.length), 0, sheet);
+        });
+        return next;
+      });
+      removedPatterns.forEach(([id, config]) => restoreCustomPattern(id, config));
+    };
+
+    apply();
+    historyManager.current.pushHistory(
+      historyManager.current.createActionItem('PURGE', entities, selectedIds, restore, apply)
+    );
+    console.log(`PURGE: ${items.length} item(s) removed`);
+  }, [activeSheetId, layers, blocks, sheets, entities, selectedIds]);
+
+  // Open block editor: only the block members and attribute definitions are shown, relative to the base point
+  const openBlockEditor = useCallback((name: string) => {
+    const definition = blocks[name];
+    if (!definition || blockEditorRef.current) return;
+
+    blockEditorRef.current = {
+      blockName: name,
+      sheetId: activeSheetId,
+      drawingEntities: entities,
+      drawingSelection: new Set(selectedIds),
+      drawingHistory: historyManager.current,
+    };
+
+    // Üyeler ve ATTDEF metinleri; düzenleme sırasında benzersiz ID'ler atanır
+    const members = getBlockEditorEntities(definition).map(member => ({ ...member, id: generateUniqueId() }) as Entity);
+    setEntities(members);
+    setSelectedIds(new Set());
+    setActiveCommand(null);
+    setStep(0);
+    setTempPoints([]);
+    setCommandState({});
+    historyManager.current = new HistoryManager(100);
+    setBlockEditorName(name);
+  }, [blocks, activeSheetId, entities, selectedIds, setEntities]);
+
+  // Close block editor, optionally writing the edited members back to the definition.
+  // Returns false when saving would make the block reference itself.
+  const closeBlockEditor = useCallback((save: boolean): boolean => {
+    const session = blockEditorRef.current;
+    if (!session) return true;
+
+    const sessionSheet = sheets.find(s => s.id === session.sheetId);
+    const members = sessionSheet?.entities || [];
+    const sheetBlocks = sessionSheet?.blocks || {};
+
+    if (save && members.some(m => isBlockReference(m) && blockReferencesBlock(m.blockName, session.blockName, sheetBlocks))) {
+      console.warn(`Block "${session.blockName}" cannot contain a reference to itself`);
+      return false;
+    }
+
+    setSheets(prev => prev.map(sheet => {
+      if (sheet.id !== session.sheetId) return sheet;
+      if (!save) return { ...sheet, entities: session.drawingEntities };
+      const previous = sheet.blocks?.[session.blockName];
+      const definition = createBlockDefinition(session.blockName, [0, 0, 0], members, previous?.description);
+      return {
+        ...sheet,
+        entities: session.drawingEntities,
+        blocks: { ...(sheet.blocks || {}), [session.blockName]: definition },
+        isModified: true,
+      };
+    }));
+
+    setSelectedIds(new Set(session.drawingSelection));
+    setActiveCommand(null);
+    setStep(0);
+    setTempPoints([]);
+    setCommandState({});
+    historyManager.current = session.drawingHistory;
+    blockEditorRef.current = null;
+    setBlockEditorName(null);
+    return true;
+  }, [sheets]);
+
   // New file - clear all entities and reset state
   const newFile = useCallback(() => {
     setEntities([]);
@@ -801,11 +1376,30 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
 
 
   // Load entities from file
-  const loadEntities = useCallback((newEntities: Entity[], newFileName?: string) => {
+  const loadEntities = useCallback((newEntities: Entity[], newFileName?: string, newBlocks?: BlockTable, newLayers?: Layer[]) => {
+    let loadedEntities = newEntities;
+    let loadedBlocks = newBlocks;
+    if (newLayers && newLayers.length > 0) {
+      // İçe aktarılan katmanlar ada göre birleştirilir, entity'ler katman adından katman ID'sine çevrilir
+      const { layers: mergedLayers, layerIds } = mergeImportedLayers(layers, newLayers);
+      const toLayerId = (entity: Entity): Entity => {
+        const id = entity.layer ? layerIds[entity.layer.toLowerCase()] : undefined;
+        return id && id !== entity.layer ? { ...entity, layer: id } : entity;
+      };
+      loadedEntities = newEntities.map(toLayerId);
+      if (newBlocks) {
+        loadedBlocks = Object.fromEntries(Object.entries(newBlocks).map(([name, block]) =>
+          [name, { ...block, entities: block.entities.map(toLayerId) }]
+        ));
+      }
+      setLayers(mergedLayers);
+    }
+
     // Legacy support: update active sheet
     updateActiveSheet({
-      entities: newEntities,
-      name: newFileName || fileName
+      entities: loadedEntities,
+      name: newFileName || fileName,
+      ...(loadedBlocks ? { blocks: loadedBlocks } : {})
     });
     // Reset selection and command state
     setSelectedIds(new Set());
@@ -816,25 +1410,26 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
 
     // Reset history
     historyManager.current = new HistoryManager(100);
-  }, [updateActiveSheet, fileName]);
+  }, [updateActiveSheet, fileName, layers]);
 
-  // Load project (multi-sheet support)
+  // Load project (native project file, older schema versions are migrated)
   const loadProject = useCallback((data: any) => {
-    if (!data) return;
-
-    if (data.sheets && Array.isArray(data.sheets)) {
-      // Multi-sheet format
-      setSheets(data.sheets);
-
-      // Set active sheet
-      if (data.activeSheetId && data.sheets.some((s: any) => s.id === data.activeSheetId)) {
-        setActiveSheetId(data.activeSheetId);
-      } else if (data.sheets.length > 0) {
-        setActiveSheetId(data.sheets[0].id);
-      }
-    } else if (data.entities && Array.isArray(data.entities)) {
-      // Legacy format (single sheet)
-      loadEntities(data.entities, data.fileName || 'Untitled.dxf');
+    const { project, error } = migrateProjectData(data);
+    if (!project) return error;
+
+    // Blok editörü açıksa oturum kapatılır, yüklenen proje geçerli olur
+    blockEditorRef.current = null;
+    setBlockEditorName(null);
+
+    setSheets(project.sheets.map(migrateSheetBlocks));
+    setActiveSheetId(project.activeSheetId);
+    setLayers(project.layers);
+    setActiveLayerId(project.activeLayerId);
+    saveDimensionSettings(project.dimensionSettings);
+    if (project.camera) {
+      setProjectCamera(project.camera);
+    } else {
+      setTimeout(() => triggerZoomToFit(), 150);
     }
 
     // Reset common state
@@ -843,10 +1438,89 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     setStep(0);
     setTempPoints([]);
     setSelectedIds(new Set());
-    setSelectedIds(new Set());
     // setHistory and setRedoStack are not available, handled by resetting historyManager
     historyManager.current = new HistoryManager(100);
-  }, [loadEntities]);
+    return undefined;
+  }, [triggerZoomToFit]);
+
+  // Save project as native project file
+  const saveProject = useCallback((projectFileName?: string) => {
+    // Blok editörü açıkken düzenlenen üyeler değil, çizimin kendisi kaydedilir
+    const session = blockEditorRef.current;
+    const drawingSheets = session
+      ? sheets.map(sheet => sheet.id === session.sheetId ? { ...sheet, entities: session.drawingEntities } : sheet)
+      : sheets;
+    const activeSheet = drawingSheets.find(sheet => sheet.id === activeSheetId);
+    exportProjectFile(createProjectFile({
+      activeSheetId,
+      activeLayerId,
+      sheets: drawingSheets,
+      layers,
+      dimensionSettings: loadDimensionSettings(),
+      camera: loadCameraState(),
+    }), projectFileName || activeSheet?.name || 'project');
+  }, [sheets, activeSheetId, layers, activeLayerId]);
+
+  // Save active sheet as DXF with its layer table, blocks, dimension style and units
+  const saveDXF = useCallback((dxfFileName?: string) => {
+    const session = blockEditorRef.current;
+    const drawingEntities = session && session.sheetId === activeSheetId ? session.drawingEntities : entities;
+    // Çizgi tipi desenleri mm cinsinden; çizim birimine ve ölçeğe göre LTSCALE
+    const ltscale = convertToUnit(1, 'mm', baseUnit) / scaleFactor;
+    exportDXF(drawingEntities, dxfFileName || fileName, { units: DXF_UNITS_BY_DRAWING_UNIT[baseUnit] || 'Millimeters' }, {
+      layers,
+      blocks,
+      dimensionSettings: loadDimensionSettings(),
+      ltscale,
+    });
+  }, [activeSheetId, entities, fileName, baseUnit, scaleFactor, layers, blocks]);
+
+  // SVG: kağıt mm cinsinden; varsayılan ölçek sayfanın çizim ölçeği
+  const saveSVG = useCallback((options: Partial<SVGExportOptions> = {}, svgFileName?: string) => {
+    const session = blockEditorRef.current;
+    const drawingEntities = session && session.sheetId === activeSheetId ? session.drawingEntities : entities;
+    exportSVG(drawingEntities, svgFileName || fileName, {
+      unitSize: convertToUnit(1, baseUnit, 'mm'),
+      scale: scaleFactor,
+      ...options,
+    }, { layers, blocks });
+  }, [activeSheetId, entities, fileName, baseUnit, scaleFactor, layers, blocks]);
+
+  // PDF: yazdırma ayarlarıyla; pencere alanı printWindowBox'tan
+  const savePDF = useCallback((settings: Partial<PlotSettings> = {}, pdfFileName?: string) => {
+    const session = blockEditorRef.current;
+    const drawingEntities = session && session.sheetId === activeSheetId ? session.drawingEntities : entities;
+    exportPDF(drawingEntities, pdfFileName || fileName, settings, {
+      layers,
+      blocks,
+      unitSize: convertToUnit(1, baseUnit, 'mm'),
+      window: printWindowBox ? { min: printWindowBox.start, max: printWindowBox.end } : undefined,
+    });
+  }, [activeSheetId, entities, fileName, baseUnit, layers, blocks, printWindowBox]);
+
+  // HPGL: PDF ile aynı yazdırma ayarları ve yerleşim
+  const saveHPGL = useCallback((settings: Partial<PlotSettings> = {}, plotFileName?: string) => {
+    const session = blockEditorRef.current;
+    const drawingEntities = session && session.sheetId === activeSheetId ? session.drawingEntities : entities;
+    exportHPGL(drawingEntities, plotFileName || fileName, settings, {
+      layers,
+      blocks,
+      unitSize: convertToUnit(1, baseUnit, 'mm'),
+      window: printWindowBox ? { min: printWindowBox.start, max: printWindowBox.end } : undefined,
+    });
+  }, [activeSheetId, entities, fileName, baseUnit, layers, blocks, printWindowBox]);
+
+  // CAM: takım yolları çizim biriminde, G-code mm cinsinden
+  const generateCAMToolpaths = useCallback((settings: CAMSettings) => {
+    const session = blockEditorRef.current;
+    const drawingEntities = session && session.sheetId === activeSheetId ? session.drawingEntities : entities;
+    return generateToolpaths(drawingEntities, settings, { layers, blocks, unitSize: convertToUnit(1, baseUnit, 'mm') });
+  }, [activeSheetId, entities, baseUnit, layers, blocks]);
+
+  const saveGCode = useCallback((settings: CAMSettings, gcodeFileName?: string) => {
+    const { toolpaths } = generateCAMToolpaths(settings);
+    exportGCode(toolpaths, gcodeFileName || fileName, settings, convertToUnit(1, baseUnit, 'mm'));
+  }, [generateCAMToolpaths, fileName, baseUnit]);
 
   // Unique ID counter - crypto.randomUUID kullan (daha güvenilir)
   const idCounterRef = useRef(0);
@@ -885,6 +1559,28 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
   }, [captureBeforeState, createHistoryItem]);
 
   // Update entity transient (no history, for live preview)
+  // İlişkisel taramalar: kaynak nesneler değişince sınırı yeniden hesapla
+  const associationBaseRef = useRef<Entity[]>(entities);
+  const [detachedHatchIds, setDetachedHatchIds] = useState<number[]>([]);
+  const [boundaryOptions, setBoundaryOptionsState] = useState<Required<BoundaryOptions>>(DEFAULT_BOUNDARY_OPTIONS);
+  const setBoundaryOptions = useCallback((options: BoundaryOptions) => {
+    setBoundaryOptionsState(prev => ({
+      islandStyle: options.islandStyle ?? prev.islandStyle,
+      gapTolerance: options.gapTolerance ?? prev.gapTolerance
+    }));
+  }, []);
+  useEffect(() => {
+    const previous = associationBaseRef.current;
+    if (previous === entities) return;
+    const { entities: next, detached } = updateAssociativeHatches(previous, entities);
+    // Kendi güncellememiz tekrar işlenmesin
+    associationBaseRef.current = next;
+    if (next !== entities) setEntities(next);
+    if (detached.length > 0) setDetachedHatchIds(prev => [...prev, ...detached]);
+  }, [entities, setEntities]);
+
+  const clearDetachedHatchIds = useCallback(() => setDetachedHatchIds([]), []);
+
   const updateEntityTransient = useCallback((id: number, updates: any) => {
     setEntities(prev => prev.map(ent =>
       ent.id === id ? { ...ent, ...updates } : ent
@@ -1037,8 +1733,127 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
       }
     }
 
+    // BEDIT: Seçili blok referansını veya listeden seçilen bloğu düzenle
+    if (cmd === 'BEDIT') {
+      if (blockEditorRef.current) {
+        console.log(`Block editor already open: ${blockEditorRef.current.blockName}`);
+        setActiveCommand(null);
+        setStep(0);
+        return;
+      }
+      const selectedRef = selectedIds.size === 1
+        ? entities.find(e => selectedIds.has(e.id) && isBlockReference(e)) as BlockReferenceEntity | undefined
+        : undefined;
+      if (selectedRef && blocks[selectedRef.blockName]) {
+        openBlockEditor(selectedRef.blockName);
+        return;
+      }
+      setBlockDialogState({
+        isOpen: true,
+        mode: 'EDIT',
+        callback: (data: { name: string }) => openBlockEditor(data.name)
+      });
+    }
+
+    // BCLOSE: Blok editörünü kaydedip kapat
+    if (cmd === 'BCLOSE') {
+      closeBlockEditor(true);
+      setActiveCommand(null);
+      setStep(0);
+      return;
+    }
+
+    // ATTDEF: Öznitelik tanımı (TAG, istem, varsayılan) al, sonra konum iste
+    if (cmd === 'ATTDEF') {
+      setAttributeDialogState({
+        isOpen: true,
+        mode: 'DEFINE',
+        callback: (data: { tag: string; prompt: string; defaultValue: string; height: number; invisible?: boolean; constant?: boolean }) => {
+          setCommandState({ attdef: data });
+          setStep(2);
+        }
+      });
+    }
+
+    // DATAEXTRACTION: Blok referanslarını say, tablo veya CSV olarak çıkar
+    if (cmd === 'DATAEXTRACTION') {
+      setDataExtractionDialogState({
+        isOpen: true,
+        callback: (data: { options: DataExtractionOptions; output: 'TABLE' | 'CSV' }) => {
+          const table = buildExtractionTable(extractBlockData(entities, data.options, blocks));
+          if (data.output === 'CSV') {
+            exportExtractionCSV(table);
+            setActiveCommand(null);
+            setStep(0);
+            return;
+          }
+          setCommandState({ extractionTable: table });
+          setStep(2);
+        }
+      });
+    }
+
+    // PURGE: Kullanılmayan katman, blok, tarama deseni ve boş sayfaları listele
+    if (cmd === 'PURGE') {
+      // Blok editörü açıkken çizimin kendisi taranır
+      const session = blockEditorRef.current;
+      const drawingSheets = session
+        ? sheets.map(sheet => sheet.id === session.sheetId ? { ...sheet, entities: session.drawingEntities } : sheet)
+        : sheets;
+      setPurgeDialogState({
+        isOpen: true,
+        items: findPurgeableItems({
+          sheets: drawingSheets,
+          activeSheetId,
+          layers,
+          activeLayerId,
+          customPatterns: getCustomPatterns(),
+          editingBlockName: session?.blockName,
+        }),
+        callback: (items: PurgeItem[]) => purgeItems(items)
+      });
+    }
+
+    // AUDIT: Bozuk entity'leri raporla, istenirse tek adımda geri alınabilir şekilde onar
+    if (cmd === 'AUDIT') {
+      setAuditDialogState({
+        isOpen: true,
+        report: auditEntities(entities, layers, blocks),
+        callback: (fix: boolean) => {
+          if (!fix) return;
+          const { entities: repaired, fixed, deleted } = repairEntities(entities, layers, blocks);
+          const repairedIds = new Set(repaired.map(ent => ent.id));
+          const afterSelection = new Set([...selectedIds].filter(id => repairedIds.has(id)));
+          historyManager.current.pushHistory(historyManager.current.createHistoryItem(
+            'AUDIT', entities, repaired, selectedIds, afterSelection
+          ));
+          setEntities(repaired);
+          setSelectedIds(afterSelection);
+          setIsModified(true);
+          console.log(`AUDIT: ${fixed} error(s) fixed, ${deleted} entity(s) deleted`);
+        }
+      });
+    }
+
+    // PARAMETERS: Parametre yöneticisi (sürücü ölçüler ve kullanıcı parametreleri)
+    if (cmd === 'PARAMETERS') {
+      openParametersManager();
+    }
+
+    // INSERT: Blok tablosundan blok seç, sonra ekleme noktası iste
+    if (cmd === 'INSERT') {
+      setBlockDialogState({
+        isOpen: true,
+        mode: 'INSERT',
+        callback: (data: { name: string; scale?: Point; rotation?: number }) => {
+          setCommandState({ blockName: data.name, scale: data.scale || [1, 1, 1], rotation: data.rotation || 0 });
+          setStep(2);
+        }
+      });
+    }
+
     console.log(`Command started: ${cmd}`);
-  }, [entities]);
+  }, [entities, selectedIds, blocks, openBlockEditor, closeBlockEditor, openParametersManager, sheets, activeSheetId, layers, activeLayerId, purgeItems, setEntities, setIsModified]);
 
   // Cancel command
   const cancelCommand = useCallback((saveIncomplete = true) => {
@@ -1048,7 +1863,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
       // Çizilen noktaları entity olarak kaydet
       addEntity({
         type: 'LWPOLYLINE',
-        vertices: tempPoints,
+        ...createPolylineData(tempPoints, commandState.bulges, commandState.startWidths, commandState.endWidths),
         closed: false,
         color: 'BYLAYER',
         layer: activeLayerId,
@@ -1072,7 +1887,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     setCommandState({});
     setAlignmentGuides({}); // Hizalama çizgilerini temizle
     console.log('Command cancelled');
-  }, [activeCommand, tempPoints, addEntity, activeLayerId]);
+  }, [activeCommand, tempPoints, commandState, addEntity, activeLayerId]);
 
   // Toggle selection
   const toggleSelection = useCallback((id: number) => {
@@ -1119,7 +1934,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
 
       addEntity({
         type: 'LWPOLYLINE',
-        vertices: isClosed ? tempPoints.slice(0, -1) : tempPoints,
+        ...createPolylineData(isClosed ? tempPoints.slice(0, -1) : tempPoints, commandState.bulges, commandState.startWidths, commandState.endWidths),
         closed: isClosed,
         color: 'BYLAYER',
         layer: activeLayerId,
@@ -1127,7 +1942,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
       // Pass false to prevent double-save (cancelCommand usually saves incomplete polylines on ESC)
       cancelCommand(false);
     }
-  }, [activeCommand, tempPoints, addEntity, cancelCommand, activeLayerId]);
+  }, [activeCommand, tempPoints, commandState, addEntity, cancelCommand, activeLayerId]);
 
 
   // Undo
@@ -1137,7 +1952,9 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
       return;
     }
     const item = historyManager.current.undo();
-    if (item) {
+    if (item?.undoAction) {
+      item.undoAction();
+    } else if (item) {
       setEntities(JSON.parse(JSON.stringify(item.before.entities)));
       setSelectedIds(new Set(item.before.selection));
     }
@@ -1150,7 +1967,9 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
       return;
     }
     const item = historyManager.current.redo();
-    if (item) {
+    if (item?.redoAction) {
+      item.redoAction();
+    } else if (item) {
       setEntities(JSON.parse(JSON.stringify(item.after.entities)));
       setSelectedIds(new Set(item.after.selection));
     }
@@ -1412,9 +2231,12 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
           newVerts[grip.index] = effectivePoint;
           newEnt.vertices = newVerts;
         }
+      } else if (originalEntity.type === 'BLOCK_REFERENCE' || originalEntity.type === 'INSERT') {
+        if (grip.type === 'origin') newEnt.position = effectivePoint;
       }
 
-      setEntities(prev => prev.map(e => e.id === entityId ? (newEnt as Entity) : e));
+      // Kısıtlı geometri tutamak sürüklenirken canlı olarak yeniden çözülür
+      setEntitiesWithConstraints(prev => prev.map(e => e.id === entityId ? (newEnt as Entity) : e), [entityId]);
       setCursorPosition(point); // Update cursor visual
       return;
     }
@@ -1437,6 +2259,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
       if (isDragging) {
         const dx = point[0] - dragStartPoint[0];
         const dy = point[1] - dragStartPoint[1];
+        const draggedEntities = new Map<number, Entity>();
 
         dragBaseEntities.forEach((baseEnt, id) => {
           const newEnt = { ...baseEnt };
@@ -1462,9 +2285,15 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
             if ((baseEnt as any).dimLinePosition) (newEnt as any).dimLinePosition = translatePt((baseEnt as any).dimLinePosition, dx, dy);
           }
 
-          updateEntityTransient(id, newEnt);
+          draggedEntities.set(id, newEnt);
         });
 
+        // Sürüklenen entity'ler sabit, kısıtla bağlı diğerleri çözücüyle takip eder
+        setEntitiesWithConstraints(
+          prev => prev.map(e => draggedEntities.get(e.id) || e),
+          Array.from(draggedEntities.keys())
+        );
+
         setCursorPosition(point);
         return;
       }
@@ -1566,7 +2395,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     }
 
     setCursorPosition(finalPoint);
-  }, [entities, osnapEnabled, activeGrip, activeCommand, activeSnap, setActiveSnap, setEntities, setCursorPosition, updateSelectionBox, shiftKeyPressed, tempPoints]);
+  }, [entities, osnapEnabled, activeGrip, activeCommand, activeSnap, setActiveSnap, setEntities, setEntitiesWithConstraints, setCursorPosition, updateSelectionBox, shiftKeyPressed, tempPoints]);
 
   const handleCommandInput = useCallback((rawPoint: Point) => {
     // Skip if we just finished box selection
@@ -1742,7 +2571,20 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
       if (step === 1) {
         setTempPoints([point]);
         setStep(2);
-      } else {
+      } else if (!commandState.widthPrompt) {
+        // Yay modunda segment, önceki segmente teğet olarak devam eder (bulge = tan(θ/4))
+        const last = tempPoints[tempPoints.length - 1];
+        const bulge = commandState.arcMode
+          ? bulgeFromTangent(last, getPolylineEndTangent(tempPoints, commandState.bulges), point)
+          : 0;
+        const [startWidth, endWidth] = commandState.width || [0, 0];
+        setCommandState((prev: any) => ({
+          ...prev,
+          bulges: [...(prev.bulges || []), bulge],
+          startWidths: [...(prev.startWidths || []), startWidth],
+          endWidths: [...(prev.endWidths || []), endWidth],
+          width: [endWidth, endWidth], // Sonraki segment önceki bitiş genişliğiyle başlar
+        }));
         setTempPoints(prev => [...prev, point]);
       }
     } else if (activeCommand === 'RECTANGLE') {
@@ -2020,6 +2862,8 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
           }
           updateEntity(id, newEnt as Entity);
         });
+        // Taşınan entity'lere kısıtla bağlı geometriyi yeniden çöz
+        setEntitiesWithConstraints(prev => prev, selectedEntities || Array.from(selectedIds));
         createHistoryItem('MOVE' as CommandType);
         cancelCommand();
         clearSelection();
@@ -2159,6 +3003,9 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
             (newEnt as any).position = rotatePt((ent as any).position, cx, cy, angle);
           } else if (ent.type === 'DONUT') {
             (newEnt as any).center = rotatePt((ent as any).center, cx, cy, angle);
+          } else if (ent.type === 'BLOCK_REFERENCE' || ent.type === 'INSERT') {
+            (newEnt as any).position = rotatePt(ent.position, cx, cy, angle);
+            (newEnt as any).rotation = (ent.rotation || 0) + angle;
           }
           setEntities(prev => prev.map(e => e.id === id ? (newEnt as Entity) : e));
         });
@@ -2232,6 +3079,9 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
             (newEnt as any).vertices = (ent as any).vertices.map((v: Point) =>
               scalePt(v, base[0], base[1], factor)
             );
+            if (ent.constantWidth) (newEnt as any).constantWidth = ent.constantWidth * factor;
+            if (ent.startWidths) (newEnt as any).startWidths = ent.startWidths.map(w => w * factor);
+            if (ent.endWidths) (newEnt as any).endWidths = ent.endWidths.map(w => w * factor);
           } else if (ent.type === 'TEXT') {
             (newEnt as any).position = scalePt((ent as any).position, base[0], base[1], factor);
             (newEnt as any).height *= factor;
@@ -2251,6 +3101,9 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
             (newEnt as any).position = scalePt((ent as any).position, base[0], base[1], factor);
             (newEnt as any).rowHeight *= factor;
             (newEnt as any).colWidth *= factor;
+          } else if (ent.type === 'BLOCK_REFERENCE' || ent.type === 'INSERT') {
+            (newEnt as any).position = scalePt(ent.position, base[0], base[1], factor);
+            (newEnt as any).scale = (ent.scale || [1, 1, 1]).map(v => v * factor);
           }
           setEntities(prev => prev.map(e => e.id === id ? (newEnt as Entity) : e));
         });
@@ -2311,12 +3164,21 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
             (newEnt as any).vertices = (ent as any).vertices.map((v: Point) =>
               mirrorPt(v, p1[0], p1[1], p2[0], p2[1])
             );
+            // Aynalamada yay segmentlerinin yönü tersine döner
+            if (ent.bulges) (newEnt as any).bulges = ent.bulges.map(b => -b);
           } else if (ent.type === 'HATCH') {
             if ((ent as any).boundary?.vertices) {
               (newEnt as any).boundary.vertices = (ent as any).boundary.vertices.map((v: Point) => mirrorPt(v, p1[0], p1[1], p2[0], p2[1]));
             }
           } else if (ent.type === 'TABLE' || ent.type === 'POINT' || ent.type === 'TEXT') {
             (newEnt as any).position = mirrorPt((ent as any).position, p1[0], p1[1], p2[0], p2[1]);
+          } else if (ent.type === 'BLOCK_REFERENCE' || ent.type === 'INSERT') {
+            // Aynalama: konum yansıtılır, Y ölçeği ters çevrilir, dönüş 2α - θ olur
+            const mirrorAngle = Math.atan2(p2[1] - p1[1], p2[0] - p1[0]);
+            const scale = ent.scale || [1, 1, 1];
+            (newEnt as any).position = mirrorPt(ent.position, p1[0], p1[1], p2[0], p2[1]);
+            (newEnt as any).scale = [scale[0], -scale[1], scale[2]];
+            (newEnt as any).rotation = 2 * mirrorAngle - (ent.rotation || 0);
           }
           addEntity(newEnt);
         });
@@ -2329,71 +3191,19 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
       // Step 1: Select outer boundary
       // Step 2+: Select inner boundaries (islands) - press Enter to finish
 
+      // Kapalı nesne sınırı (açık polyline'lar kapatılır)
       const convertToBoundary = (ent: Entity): any => {
-        if (ent.type === 'CIRCLE') {
-          const pts: Point[] = [];
-          const segs = 64;
-          for (let i = 0; i < segs; i++) {
-            const t = (i / segs) * Math.PI * 2;
-            pts.push([
-              (ent as any).center[0] + Math.cos(t) * (ent as any).radius,
-              (ent as any).center[1] + Math.sin(t) * (ent as any).radius,
-              0
-            ]);
-          }
-          return {
-            type: 'LWPOLYLINE',
-            vertices: pts,
-            closed: true,
-            color: ent.color,
-            layer: ent.layer,
-            id: ent.id
-          };
-        } else if (ent.type === 'ELLIPSE') {
-          const pts: Point[] = [];
-          const segs = 64;
-          const cx = (ent as any).center[0];
-          const cy = (ent as any).center[1];
-          const rx = (ent as any).rx;
-          const ry = (ent as any).ry;
-          const rotation = (ent as any).rotation || 0;
-          const cosR = Math.cos(rotation);
-          const sinR = Math.sin(rotation);
-          for (let i = 0; i < segs; i++) {
-            const t = (i / segs) * Math.PI * 2;
-            const cosT = Math.cos(t);
-            const sinT = Math.sin(t);
-            // Apply rotation to ellipse points
-            pts.push([
-              cx + cosR * rx * cosT - sinR * ry * sinT,
-              cy + sinR * rx * cosT + cosR * ry * sinT,
-              0
-            ]);
-          }
-          return {
-            type: 'LWPOLYLINE',
-            vertices: pts,
-            closed: true,
-            color: ent.color,
-            layer: ent.layer,
-            id: ent.id
-          };
-        } else if (ent.type === 'SPLINE') {
-          return {
-            type: 'LWPOLYLINE',
-            vertices: (ent as any).controlPoints,
-            closed: true,
-            color: ent.color,
-            layer: ent.layer,
-            id: ent.id
-          };
-        } else if (ent.type === 'LWPOLYLINE') {
-          return {
-            ...ent,
-            closed: true
-          };
-        }
-        return null;
+        const loop = getClosedEntityLoop(ent) ?? (ent.type === 'LWPOLYLINE' ? ent : null);
+        if (!loop) return null;
+        return {
+          type: 'LWPOLYLINE',
+          vertices: loop.vertices,
+          bulges: loop.bulges,
+          closed: true,
+          color: ent.color,
+          layer: ent.layer,
+          id: ent.id
+        };
       };
 
       if (step === 1) {
@@ -2421,13 +3231,40 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
             setCommandState({
               outerBoundary: boundary,
               islands: [],
+              // Yalnızca gerçekten kapalı nesneler ilişkilendirilir
+              association: getClosedEntityLoop(targetEnt) ? { boundary: [(targetEnt as Entity).id], islands: [] } : undefined,
               hatchParams: { scale: 1, rotation: 0, pattern: { name: 'ANSI31', type: 'predefined', angle: 45 } }
             });
             setStep(2);
             console.log('Outer boundary selected. Click to add islands or press Enter to finish');
           }
         } else {
-          console.log('No closed boundary found');
+          // İç nokta seçimi: çevreleyen bölge ve içindeki adalar otomatik bulunur
+          const region = findBoundaryRegion(point, entities, boundaryOptions);
+          if (region) {
+            const sourcesOf = (ids: number[]) => ids.map(id => entities.find(e => e.id === id)).filter((e): e is Entity => !!e);
+            const first = sourcesOf(region.sourceIds)[0];
+            const toBoundary = (vertices: Point[]) => ({
+              type: 'LWPOLYLINE',
+              vertices,
+              closed: true,
+              color: first?.color,
+              layer: first?.layer || activeLayerId,
+              id: Date.now() + Math.random()
+            });
+            // Sınır ve her ada kendi kaynaklarıyla kapanıyorsa ilişkilendirilir
+            const associative = [region, ...region.islands].every(loop => buildLoopFromSources(sourcesOf(loop.sourceIds)));
+            setCommandState({
+              outerBoundary: toBoundary(region.vertices),
+              islands: region.islands.map(island => toBoundary(island.vertices)),
+              association: associative ? { boundary: region.sourceIds, islands: region.islands.map(island => island.sourceIds) } : undefined,
+              hatchParams: { scale: 1, rotation: 0, pattern: { name: 'ANSI31', type: 'predefined', angle: 45 } }
+            });
+            setStep(2);
+            console.log(`Boundary detected with ${region.islands.length} island(s). Click to add islands or press Enter to finish`);
+          } else {
+            console.log('No closed boundary found');
+          }
         }
       } else if (step === 2) {
         // Select islands (inner boundaries)
@@ -2453,9 +3290,13 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
           if (islandBoundary) {
             const islands = commandState.islands || [];
             islands.push(islandBoundary);
+            const { association } = commandState;
             setCommandState({
               ...commandState,
-              islands
+              islands,
+              association: association && getClosedEntityLoop(targetEnt)
+                ? { ...association, islands: [...association.islands, [(targetEnt as Entity).id]] }
+                : undefined
             });
             console.log(`Island ${islands.length} added. Click for more islands or press Enter to finish`);
           }
@@ -2522,82 +3363,13 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
               newEnt = { ...ent, id: Date.now() + Math.random(), radius: newRadius } as Entity;
             }
           } else if (ent.type === 'LWPOLYLINE') {
-            // Offset polyline - simplified version (offset all vertices perpendicular)
-            const vertices = (ent as any).vertices;
-            const newVertices: Point[] = [];
-
-            // Calculate which side to offset based on click point
-            // Use first segment for direction determination
-            if (vertices.length >= 2) {
-              const dx = vertices[1][0] - vertices[0][0];
-              const dy = vertices[1][1] - vertices[0][1];
-              const len = Math.hypot(dx, dy);
-              const nx = -dy / len;
-              const ny = dx / len;
-
-              const vx = point[0] - vertices[0][0];
-              const vy = point[1] - vertices[0][1];
-              const dot = vx * nx + vy * ny;
-              const sign = dot > 0 ? 1 : -1;
-
-              // Offset each vertex
-              for (let i = 0; i < vertices.length; i++) {
-                const v = vertices[i];
-
-                // Calculate perpendicular direction for this vertex
-                let perpX = 0, perpY = 0;
-
-                if (i === 0 && !((ent as any).closed)) {
-                  // First vertex (if not closed)
-                  const dx = vertices[1][0] - v[0];
-                  const dy = vertices[1][1] - v[1];
-                  const len = Math.hypot(dx, dy);
-                  perpX = -dy / len;
-                  perpY = dx / len;
-                } else if (i === vertices.length - 1 && !((ent as any).closed)) {
-                  // Last vertex (if not closed)
-                  const dx = v[0] - vertices[i - 1][0];
-                  const dy = v[1] - vertices[i - 1][1];
-                  const len = Math.hypot(dx, dy);
-                  perpX = -dy / len;
-                  perpY = dx / len;
-                } else {
-                  // Middle vertex - average of adjacent segments
-                  const prevIdx = i === 0 ? vertices.length - 1 : i - 1;
-                  const nextIdx = i === vertices.length - 1 ? 0 : i + 1;
-
-                  const dx1 = v[0] - vertices[prevIdx][0];
-                  const dy1 = v[1] - vertices[prevIdx][1];
-                  const len1 = Math.hypot(dx1, dy1);
-                  const perp1X = -dy1 / len1;
-                  const perp1Y = dx1 / len1;
-
-                  const dx2 = vertices[nextIdx][0] - v[0];
-                  const dy2 = vertices[nextIdx][1] - v[1];
-                  const len2 = Math.hypot(dx2, dy2);
-                  const perp2X = -dy2 / len2;
-                  const perp2Y = dx2 / len2;
-
-                  perpX = (perp1X + perp2X) / 2;
-                  perpY = (perp1Y + perp2Y) / 2;
-                  const perpLen = Math.hypot(perpX, perpY);
-                  if (perpLen > 0.001) {
-                    perpX /= perpLen;
-                    perpY /= perpLen;
-                  }
-                }
-
-                newVertices.push([
-                  v[0] + perpX * sign * distance,
-                  v[1] + perpY * sign * distance,
-                  v[2]
-                ]);
-              }
-
+            // Offset polyline: line segments are shifted, arc segments stay concentric
+            const offset = offsetPolyline(ent, getPolylineSide(ent, point) * distance);
+            if (offset) {
               newEnt = {
                 ...ent,
                 id: Date.now() + Math.random(),
-                vertices: newVertices
+                ...offset
               } as Entity;
             }
           }
@@ -2967,28 +3739,17 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
           if (!ent) return;
 
           if (ent.type === 'LWPOLYLINE') {
-            // Explode polyline into lines
-            const vertices = (ent as any).vertices;
-            for (let i = 0; i < vertices.length - 1; i++) {
+            // Explode polyline into lines and arcs (bulge segments)
+            explodePolyline(ent).forEach((piece, i) => {
               toAdd.push({
-                type: 'LINE',
-                start: vertices[i],
-                end: vertices[i + 1],
-                color: ent.color,
-                layer: ent.layer,
+                ...piece,
                 id: Date.now() + Math.random() + i * 0.001,
               } as Entity);
-            }
-            if ((ent as any).closed && vertices.length > 2) {
-              toAdd.push({
-                type: 'LINE',
-                start: vertices[vertices.length - 1],
-                end: vertices[0],
-                color: ent.color,
-                layer: ent.layer,
-                id: Date.now() + Math.random() + vertices.length * 0.001,
-              } as Entity);
-            }
+            });
+            toDelete.push(id);
+          } else if (isBlockReference(ent)) {
+            // Explode block reference one level: nested references stay as references
+            resolveBlockReference(ent, blocks).forEach(member => toAdd.push(member));
             toDelete.push(id);
           }
           // Note: RECTANGLE is stored as LWPOLYLINE, handled above
@@ -3232,66 +3993,22 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
       // BOUNDARY: Create a boundary polyline from closed area
       // Step 1: Pick internal point
       if (step === 1) {
-        // Find closed boundary at the clicked point
-        const internalPoint = point;
+        // Çevreleyen bölge ve adaları (ada algılama ve boşluk toleransı HATCH ile ortak)
+        const region = findBoundaryRegion(point, entities, boundaryOptions);
 
-        // Collect all potential boundary entities
-        const boundaryEntities = entities.filter(ent =>
-          ent.visible !== false &&
-          (ent.type === 'LINE' || ent.type === 'LWPOLYLINE' || ent.type === 'CIRCLE' || ent.type === 'ARC')
-        );
-
-        // Simple boundary detection: find the closest closed polyline containing the point
-        let foundBoundary: Point[] | null = null;
-
-        for (const ent of boundaryEntities) {
-          if (ent.type === 'LWPOLYLINE' && (ent as any).closed) {
-            const vertices = (ent as any).vertices as Point[];
-            // Check if point is inside this polyline
-            let inside = false;
-            for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
-              const xi = vertices[i][0], yi = vertices[i][1];
-              const xj = vertices[j][0], yj = vertices[j][1];
-
-              if (((yi > internalPoint[1]) !== (yj > internalPoint[1])) &&
-                (internalPoint[0] < (xj - xi) * (internalPoint[1] - yi) / (yj - yi) + xi)) {
-                inside = !inside;
-              }
-            }
-            if (inside) {
-              foundBoundary = [...vertices];
-              break;
-            }
-          } else if (ent.type === 'CIRCLE') {
-            const circle = ent as any;
-            const dist = Math.hypot(internalPoint[0] - circle.center[0], internalPoint[1] - circle.center[1]);
-            if (dist < circle.radius) {
-              // Create boundary vertices from circle
-              const numPoints = 36;
-              foundBoundary = [];
-              for (let i = 0; i < numPoints; i++) {
-                const angle = (i / numPoints) * Math.PI * 2;
-                foundBoundary.push([
-                  circle.center[0] + Math.cos(angle) * circle.radius,
-                  circle.center[1] + Math.sin(angle) * circle.radius,
-                  0
-                ]);
-              }
-              break;
-            }
-          }
-        }
-
-        if (foundBoundary) {
-          addEntity({
+        if (region) {
+          [region, ...region.islands].forEach(loop => addEntity({
             type: 'LWPOLYLINE',
-            vertices: foundBoundary,
+            vertices: loop.vertices,
             closed: true,
             color: '#00ff00',
             layer: '0',
             id: Date.now() + Math.random(),
-          } as Entity);
+          } as Entity));
           createHistoryItem('BOUNDARY' as CommandType);
+          console.log(`Boundary created with ${region.islands.length} island(s)`);
+        } else {
+          console.log('No closed boundary found');
         }
 
         // Stay in command for multiple boundaries
@@ -4431,7 +5148,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
 
             // Convert boundary to vertices
             if (boundaryEnt.type === 'LWPOLYLINE') {
-              vertices = [...(boundaryEnt as any).vertices];
+              vertices = tessellatePolyline(boundaryEnt);
               // Close loop if needed
               if (vertices.length > 0 &&
                 (Math.abs(vertices[0][0] - vertices[vertices.length - 1][0]) > 0.001 ||
@@ -4497,7 +5214,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
         // 2. Pick Point Boundary Detection (New Feature)
         else {
           // Import handled at top of file hopefully, if not we will fix imports
-          const boundaryVertices = findBoundaryFromPoint(point, entities);
+          const boundaryVertices = findBoundaryFromPoint(point, entities, boundaryOptions);
           if (boundaryVertices && boundaryVertices.length >= 3) {
             const defaults = commandState.hatchParams || {};
             const defaultPattern = defaults.pattern || { name: 'ANSI31', type: 'predefined', angle: 45 };
@@ -4704,10 +5421,10 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
         // Step 4'te kal - devam et
       }
     } else if (activeCommand === 'BLOCK') {
-      // BLOCK: Define a block from selected entities
-      // Step 1: Select entities (multiple selection)
+      // BLOCK: Define (or redefine) a block from selected entities
+      // Step 1: Select entities (multiple selection), Enter to continue
       // Step 2: Select base point
-      // Step 3: Enter block name via text input
+      // Step 3: Enter block name via block dialog
       if (step === 1) {
         // Select entities
         let minD = Infinity;
@@ -4732,164 +5449,286 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
           return;
         }
 
-        setCommandState({ basePoint: point });
-        setTempPoints([point]);
+        const basePoint = point;
+        const members = entities.filter(e => selectedIds.has(e.id));
+        const beforeSelection = new Set(selectedIds);
+        setCommandState({ basePoint });
+        setTempPoints([basePoint]);
         setStep(3);
 
-        // Open text dialog for block name
-        setTextDialogState({
+        // Open block dialog for block name
+        setBlockDialogState({
           isOpen: true,
-          initialText: '',
-          onSubmit: (blockName: string) => {
-            if (!blockName || blockName.trim() === '') {
+          mode: 'DEFINE',
+          callback: (data: { name: string; description?: string }) => {
+            const blockName = data.name.trim();
+            if (!blockName) {
               console.log('Block name cannot be empty');
-              setTextDialogState({ isOpen: false, initialText: '', onSubmit: () => { } });
               cancelCommand();
               return;
             }
 
-            const { basePoint } = commandState;
-            const selectedEntities = entities.filter(e => selectedIds.has(e.id));
-
-            // Store block definition in commandState or global blocks storage
-            // For simplicity, we'll just group entities and convert selection to a block reference
-            // In a full CAD app, blocks would be stored separately and referenced
-
-            captureBeforeState();
-
-            // Create a BLOCK_REFERENCE entity that contains the selected entities
-            const blockEntities = selectedEntities.map(ent => {
-              // Store relative to base point
-              let relativeEnt = { ...ent };
-
-              if (ent.type === 'LINE') {
-                (relativeEnt as any).start = translatePt((ent as any).start, -basePoint[0], -basePoint[1]);
-                (relativeEnt as any).end = translatePt((ent as any).end, -basePoint[0], -basePoint[1]);
-              } else if (ent.type === 'CIRCLE' || ent.type === 'ARC' || ent.type === 'ELLIPSE' || ent.type === 'DONUT') {
-                (relativeEnt as any).center = translatePt((ent as any).center, -basePoint[0], -basePoint[1]);
-              } else if (ent.type === 'LWPOLYLINE') {
-                (relativeEnt as any).vertices = (ent as any).vertices.map((v: Point) =>
-                  translatePt(v, -basePoint[0], -basePoint[1])
-                );
-              } else if (ent.type === 'POINT' || ent.type === 'TEXT' || ent.type === 'TABLE') {
-                (relativeEnt as any).position = translatePt((ent as any).position, -basePoint[0], -basePoint[1]);
-              }
-
-              return relativeEnt;
-            });
+            // Bir blok kendisini (doğrudan veya iç içe) içeremez
+            if (members.some(m => isBlockReference(m) && blockReferencesBlock(m.blockName, blockName, blocks))) {
+              console.warn(`Block "${blockName}" cannot contain a reference to itself`);
+              cancelCommand();
+              return;
+            }
 
-            // Delete original entities
-            deleteEntities(selectedIds);
+            // Definition is stored once in the block table; existing instances pick up the new geometry
+            const description = data.description ?? blocks[blockName]?.description;
+            defineBlock(createBlockDefinition(blockName, basePoint, members, description));
 
-            // Create block reference at base point
-            addEntity({
+            // Replace the selected entities with a single reference to the definition
+            const memberIds = new Set(members.map(m => m.id));
+            const blockRef = {
+              id: generateUniqueId(),
               type: 'BLOCK_REFERENCE',
-              blockName: blockName,
+              blockName,
               position: basePoint,
               rotation: 0,
               scale: [1, 1, 1] as Point,
-              attributes: { entities: JSON.stringify(blockEntities) },
-              color: '#fff',
-              layer: '0',
-              id: Date.now() + Math.random(),
-            } as Entity);
+              color: 'BYLAYER',
+              layer: activeLayerId,
+              visible: true,
+              locked: false,
+              lineType: activeLineType,
+              lineWeight: activeLineWeight,
+            } as Entity;
+            const afterEntities = [...entities.filter(e => !memberIds.has(e.id)), blockRef];
 
-            createHistoryItem('BLOCK' as CommandType);
+            setEntities(afterEntities);
+            setIsModified(true);
+            historyManager.current.pushHistory(historyManager.current.createHistoryItem(
+              'BLOCK' as CommandType, entities, afterEntities, beforeSelection, new Set()
+            ));
             clearSelection();
             cancelCommand();
-            setTextDialogState({ isOpen: false, initialText: '', onSubmit: () => { } });
-          },
-          onCancel: () => {
-            setTextDialogState({ isOpen: false, initialText: '', onSubmit: () => { } });
-            cancelCommand();
           }
         });
       }
-    } else if (activeCommand === 'INSERT') {
-      // INSERT: Insert a block at a point
-      // Step 1: Enter block name via text input (or select from list)
-      // Step 2: Select insertion point
-      if (step === 1) {
-        // Open text dialog for block name
-        setTextDialogState({
-          isOpen: true,
-          initialText: '',
-          onSubmit: (blockName: string) => {
-            if (!blockName || blockName.trim() === '') {
-              console.log('Block name cannot be empty');
-              setTextDialogState({ isOpen: false, initialText: '', onSubmit: () => { } });
-              cancelCommand();
-              return;
-            }
-
-            // Find block definition - use blockName property (not name)
-            const blockDef = entities.find(e =>
-              e.type === 'BLOCK_REFERENCE' && (e as any).blockName === blockName
-            );
-
-            if (!blockDef) {
-              console.log(`Block "${blockName}" not found`);
-              setTextDialogState({ isOpen: false, initialText: '', onSubmit: () => { } });
-              cancelCommand();
-              return;
-            }
-
-            setCommandState({ blockDefinition: blockDef, blockName });
-            setStep(2);
-            setTextDialogState({ isOpen: false, initialText: '', onSubmit: () => { } });
+    } else if (activeCommand === 'ATTDEF') {
+      // ATTDEF: Place the attribute definition (shown as its tag) at the clicked point
+      if (step === 2 && commandState.attdef) {
+        const { tag, prompt, defaultValue, height, invisible, constant } = commandState.attdef;
+        addEntity({
+          type: 'TEXT',
+          position: point,
+          text: tag,
+          height,
+          rotation: 0,
+          attributeDefinition: {
+            prompt,
+            defaultValue,
+            ...(invisible ? { invisible: true } : {}),
+            ...(constant ? { constant: true } : {}),
           },
-          onCancel: () => {
-            setTextDialogState({ isOpen: false, initialText: '', onSubmit: () => { } });
-            cancelCommand();
-          }
         });
-      } else if (step === 2) {
-        // Insertion point selected
-        const { blockDefinition } = commandState;
+        cancelCommand();
+      }
+    } else if (activeCommand && activeCommand.startsWith('GEOMCONSTRAINT_')) {
+      // Geometrik kısıtlar: nesneleri (veya noktaları) seç, kısıtı ekle ve çöz
+      const type = activeCommand.replace('GEOMCONSTRAINT_', '') as GeometricConstraintType;
+      const SELECT_THRESHOLD = 5.0;
+
+      if (type === 'COINCIDENT') {
+        // Step 1: first point, Step 2: second point (second object moves)
+        const firstPoint: ConstraintPointRef | undefined = commandState.firstPoint;
+        const ref = findConstraintPoint(point, entities, SELECT_THRESHOLD, firstPoint?.entityId);
+        if (!ref) {
+          console.log('Coincident: no endpoint, center or vertex near the pick point');
+          return;
+        }
+        if (!firstPoint) {
+          setCommandState({ firstPoint: ref });
+          setStep(2);
+          return;
+        }
+        addConstraint({
+          type,
+          entities: [{ entityId: firstPoint.entityId }, { entityId: ref.entityId }],
+          points: [firstPoint, ref],
+        }, [firstPoint.entityId]);
+        cancelCommand();
+        return;
+      }
 
-        if (!blockDefinition) {
-          console.log('No block definition');
+      if (type === 'FIX') {
+        // Nokta yakınsa noktayı, değilse tüm nesneyi sabitle
+        const pointRef = findConstraintPoint(point, entities, SELECT_THRESHOLD);
+        const position = pointRef ? getConstraintPoint(pointRef, entities) : null;
+        if (pointRef && position) {
+          addConstraint({ type, entities: [{ entityId: pointRef.entityId }], points: [pointRef], position }, [pointRef.entityId]);
           cancelCommand();
           return;
         }
+        const entityRef = findConstraintEntity(point, entities, SELECT_THRESHOLD);
+        if (entityRef) {
+          addConstraint({ type, entities: [{ entityId: entityRef.entityId }] }, [entityRef.entityId]);
+          cancelCommand();
+        }
+        return;
+      }
 
-        captureBeforeState();
+      const ref = findConstraintEntity(point, entities, SELECT_THRESHOLD);
+      if (!ref) return;
 
-        // Insert block entities at insertion point
-        // Entities are stored as JSON string in attributes.entities
-        let blockEntities: any[] = [];
-        try {
-          const entitiesJson = (blockDefinition as any).attributes?.entities;
-          if (entitiesJson) {
-            blockEntities = JSON.parse(entitiesJson);
-          }
-        } catch (e) {
-          console.log('Error parsing block entities:', e);
+      const singleObject = type === 'HORIZONTAL' || type === 'VERTICAL';
+      const firstRef: ConstraintEntityRef | undefined = commandState.firstRef;
+      const refs = singleObject ? [ref] : firstRef ? [firstRef, ref] : null;
+
+      if (!refs) {
+        // İlk nesne: tür uygunluğunu ikinci seçimde kontrol et
+        setCommandState({ firstRef: ref });
+        setStep(2);
+        return;
+      }
+
+      const error = validateConstraintRefs(type, refs, entities, constraints);
+      if (error) {
+        console.log(`${type}: ${error}`);
+        if (!singleObject) {
+          setCommandState({});
+          setStep(1);
         }
-        const insertionPoint = point;
+        return;
+      }
 
-        blockEntities.forEach((ent: any) => {
-          let newEnt = { ...ent, id: Date.now() + Math.random() };
+      let internal: boolean | undefined;
+      if (type === 'TANGENT' && refs.every(r => isCircularRef(r, entities))) {
+        // Çember-çember teğetlik: mevcut duruma göre iç/dış teğet
+        const [a, b] = refs.map(r => entities.find(e => e.id === r.entityId) as any);
+        const d = Math.hypot(a.center[0] - b.center[0], a.center[1] - b.center[1]);
+        internal = d < Math.max(a.radius, b.radius);
+      }
 
-          if (ent.type === 'LINE') {
-            (newEnt as any).start = translatePt(ent.start, insertionPoint[0], insertionPoint[1]);
-            (newEnt as any).end = translatePt(ent.end, insertionPoint[0], insertionPoint[1]);
-          } else if (ent.type === 'CIRCLE' || ent.type === 'ARC' || ent.type === 'ELLIPSE' || ent.type === 'DONUT') {
-            (newEnt as any).center = translatePt(ent.center, insertionPoint[0], insertionPoint[1]);
-          } else if (ent.type === 'LWPOLYLINE') {
-            (newEnt as any).vertices = ent.vertices.map((v: Point) =>
-              translatePt(v, insertionPoint[0], insertionPoint[1])
-            );
-          } else if (ent.type === 'POINT' || ent.type === 'TEXT' || ent.type === 'MTEXT' || ent.type === 'TABLE') {
-            (newEnt as any).position = translatePt(ent.position, insertionPoint[0], insertionPoint[1]);
+      addConstraint({ type, entities: refs, ...(internal ? { internal } : {}) }, singleObject ? [] : [refs[0].entityId]);
+      cancelCommand();
+    } else if (activeCommand === 'DELCONSTRAINT') {
+      // DELCONSTRAINT: Remove all constraints of the picked object
+      const ref = findConstraintEntity(point, entities, 5.0);
+      if (!ref) return;
+      const ids = constraints.filter(c => getConstraintEntityIds(c).includes(ref.entityId)).map(c => c.id);
+      const dimensionIds = dimensionalConstraints.filter(c => getDimensionalEntityIds(c).includes(ref.entityId)).map(c => c.id);
+      if (ids.length + dimensionIds.length > 0) {
+        removeConstraints(ids, dimensionIds);
+        console.log(`Removed ${ids.length + dimensionIds.length} constraint(s)`);
+      }
+    } else if (activeCommand && activeCommand.startsWith('DIMCONSTRAINT_')) {
+      // Boyutsal kısıtlar: noktaları/nesneleri seç, ölçü konumunu belirle, sonra değer/ifade gir
+      const type = activeCommand.replace('DIMCONSTRAINT_', '') as DimensionalConstraintType;
+      const SELECT_THRESHOLD = 5.0;
+      const placementStep = type === 'RADIAL' || type === 'DIAMETER' ? 2 : 3;
+
+      if (step > placementStep) {
+        // Değer adımında tıklama: ölçülen değeri kabul et
+        const error = addDimensionalConstraint(commandState.pending);
+        if (error) console.log(`${type}: ${error}`);
+        cancelCommand();
+        return;
+      }
+
+      if (step < placementStep) {
+        if (type === 'LINEAR' || type === 'ALIGNED') {
+          // Step 1: first point, Step 2: second point
+          const ref = findConstraintPoint(point, entities, SELECT_THRESHOLD);
+          if (!ref) {
+            console.log(`${type}: no endpoint, center or vertex near the pick point`);
+            return;
           }
+          const firstPoint: ConstraintPointRef | undefined = commandState.points?.[0];
+          if (firstPoint && firstPoint.entityId === ref.entityId && firstPoint.kind === ref.kind && firstPoint.index === ref.index) return;
+          setCommandState({ points: firstPoint ? [firstPoint, ref] : [ref] });
+          setStep(step + 1);
+          return;
+        }
 
-          addEntity(newEnt as Entity);
+        // RADIAL/DIAMETER: circle or arc, ANGULAR: two lines
+        const ref = findConstraintEntity(point, entities, SELECT_THRESHOLD);
+        if (!ref) return;
+        const refs: ConstraintEntityRef[] = [...(commandState.refs || []), ref];
+        const error = validateDimensionalRefs(type, refs, entities);
+        if (error) {
+          console.log(`${type}: ${error}`);
+          return;
+        }
+        setCommandState({ refs });
+        setStep(step + 1);
+        return;
+      }
+
+      if (type === 'LINEAR' || type === 'ALIGNED') {
+        const [p0, p1] = (commandState.points as ConstraintPointRef[]).map(ref => getConstraintPoint(ref, entities));
+        if (!p0 || !p1) {
+          cancelCommand();
+          return;
+        }
+        let orientation: 'horizontal' | 'vertical' | undefined;
+        if (type === 'LINEAR') {
+          // DIMLINEAR gibi: ölçü konumu noktaların üstünde/altındaysa yatay, yanındaysa dikey
+          const insideX = point[0] >= Math.min(p0[0], p1[0]) && point[0] <= Math.max(p0[0], p1[0]);
+          const insideY = point[1] >= Math.min(p0[1], p1[1]) && point[1] <= Math.max(p0[1], p1[1]);
+          orientation = insideX && !insideY ? 'horizontal'
+            : insideY && !insideX ? 'vertical'
+              : Math.abs(p1[0] - p0[0]) >= Math.abs(p1[1] - p0[1]) ? 'horizontal' : 'vertical';
+        }
+        setCommandState({ pending: { type, points: commandState.points, ...(orientation ? { orientation } : {}), dimLinePosition: point } });
+      } else {
+        setCommandState({ pending: { type, entities: commandState.refs, dimLinePosition: point } });
+      }
+      setStep(placementStep + 1);
+    } else if (activeCommand === 'DATAEXTRACTION') {
+      // DATAEXTRACTION: Place the extracted bill of materials table (top-left corner)
+      if (step === 2 && commandState.extractionTable) {
+        addEntity({
+          ...buildExtractionTableEntity(commandState.extractionTable, point),
+          color: '#fff',
+          layer: '0'
         });
+        cancelCommand();
+      }
+    } else if (activeCommand === 'INSERT') {
+      // INSERT: Insert a block reference at a point
+      // Step 1: Select block from the block table (dialog opened by startCommand)
+      // Step 2: Select insertion point
+      if (step === 2) {
+        const { blockName, scale, rotation } = commandState;
 
-        createHistoryItem('INSERT' as CommandType);
-        // Stay in command for multiple inserts
-        setStep(2);
+        if (!blockName || !blocks[blockName]) {
+          console.log(`Block "${blockName}" not found`);
+          cancelCommand();
+          return;
+        }
+
+        const insertReference = (attributes?: Record<string, string>) => {
+          addEntity({
+            type: 'BLOCK_REFERENCE',
+            blockName,
+            position: point,
+            scale: (scale || [1, 1, 1]) as Point,
+            rotation: rotation || 0,
+            ...(attributes && Object.keys(attributes).length > 0 ? { attributes } : {}),
+          });
+          // Stay in command for multiple inserts
+          setStep(2);
+        };
+
+        // Öznitelikli blok: her değer için istem göster
+        if (getPromptedAttributes(blocks[blockName]).length > 0) {
+          setStep(3);
+          setAttributeDialogState({
+            isOpen: true,
+            mode: 'VALUES',
+            blockName,
+            values: getDefaultAttributeValues(blocks[blockName]),
+            callback: (data: { values: Record<string, string> }) => {
+              insertReference(getDefaultAttributeValues(blocks[blockName], data.values));
+            }
+          });
+          return;
+        }
+
+        insertReference();
       }
     } else if (activeCommand === 'BOUNDARY') {
       // BOUNDARY: Create a closed boundary polyline at a point
@@ -4972,8 +5811,8 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
         console.log('No closed boundary found at point');
       }
     } else if (activeCommand === 'WBLOCK') {
-      // WBLOCK: Write block to a DXF file
-      // Select a BLOCK_REFERENCE entity and export it
+      // WBLOCK: Write a block definition to a DXF file
+      // Select a block reference and export its definition (base point at origin)
 
       let minD = Infinity;
       let closestBlockRef: Entity | null = null;
@@ -4981,7 +5820,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
 
       entities.forEach(ent => {
         if (ent.visible === false) return;
-        if (ent.type !== 'BLOCK_REFERENCE') return;
+        if (!isBlockReference(ent)) return;
 
         const d = closestPointOnEntity(point[0], point[1], ent);
         if (d < SELECT_THRESHOLD && d < minD) {
@@ -4991,84 +5830,28 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
       });
 
       if (closestBlockRef) {
-        const blockRef = closestBlockRef as any;
+        const blockRef = closestBlockRef as BlockReferenceEntity;
         const blockName = blockRef.blockName || 'unnamed_block';
 
-        // Parse entities from JSON string in attributes.entities
-        let blockEntities: any[] = [];
-        try {
-          const entitiesJson = blockRef.attributes?.entities;
-          if (entitiesJson) {
-            blockEntities = JSON.parse(entitiesJson);
-          }
-        } catch (e) {
-          console.log('Error parsing block entities:', e);
-        }
+        // Definition members relative to the base point
+        const exportEntities = resolveBlockReference({
+          ...blockRef,
+          position: [0, 0, 0],
+          scale: [1, 1, 1],
+          rotation: 0,
+        }, blocks);
 
-        if (blockEntities.length === 0) {
+        if (exportEntities.length === 0) {
           console.log('Block has no entities to export');
           return;
         }
 
-        // Convert block entities to absolute positions for export
-        const exportEntities: Entity[] = blockEntities.map((ent: any) => {
-          let exportEnt = { ...ent, id: Date.now() + Math.random() };
-          const pos = blockRef.position;
-
-          if (ent.type === 'LINE') {
-            exportEnt.start = translatePt(ent.start, pos[0], pos[1]);
-            exportEnt.end = translatePt(ent.end, pos[0], pos[1]);
-          } else if (ent.type === 'CIRCLE' || ent.type === 'ARC' || ent.type === 'ELLIPSE' || ent.type === 'DONUT') {
-            exportEnt.center = translatePt(ent.center, pos[0], pos[1]);
-          } else if (ent.type === 'LWPOLYLINE') {
-            exportEnt.vertices = ent.vertices.map((v: Point) => translatePt(v, pos[0], pos[1]));
-          } else if (ent.type === 'POINT' || ent.type === 'TEXT' || ent.type === 'MTEXT' || ent.type === 'TABLE') {
-            exportEnt.position = translatePt(ent.position, pos[0], pos[1]);
-          }
-
-          return exportEnt as Entity;
-        });
-
-        // Generate DXF content
-        let dxfContent = '0\nSECTION\n2\nHEADER\n0\nENDSEC\n';
-        dxfContent += '0\nSECTION\n2\nENTITIES\n';
-
-        exportEntities.forEach((ent: any) => {
-          if (ent.type === 'LINE') {
-            dxfContent += '0\nLINE\n8\n0\n';
-            dxfContent += `10\n${ent.start[0]}\n20\n${ent.start[1]}\n30\n${ent.start[2] || 0}\n`;
-            dxfContent += `11\n${ent.end[0]}\n21\n${ent.end[1]}\n31\n${ent.end[2] || 0}\n`;
-          } else if (ent.type === 'CIRCLE') {
-            dxfContent += '0\nCIRCLE\n8\n0\n';
-            dxfContent += `10\n${ent.center[0]}\n20\n${ent.center[1]}\n30\n${ent.center[2] || 0}\n`;
-            dxfContent += `40\n${ent.radius}\n`;
-          } else if (ent.type === 'LWPOLYLINE') {
-            dxfContent += '0\nLWPOLYLINE\n8\n0\n';
-            dxfContent += `90\n${ent.vertices.length}\n`;
-            dxfContent += ent.closed ? '70\n1\n' : '70\n0\n';
-            ent.vertices.forEach((v: Point) => {
-              dxfContent += `10\n${v[0]}\n20\n${v[1]}\n`;
-            });
-          }
-        });
-
-        dxfContent += '0\nENDSEC\n0\nEOF\n';
-
-        // Download the file
-        const blob = new Blob([dxfContent], { type: 'application/dxf' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = `${blockName}.dxf`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        exportDXF(exportEntities, `${blockName}.dxf`, {}, { layers, blocks });
 
         console.log(`Block "${blockName}" exported as DXF file`);
         // Stay in WBLOCK mode for multiple exports
       } else {
-        console.log('No BLOCK_REFERENCE found at point. Create a block first with BLOCK command.');
+        console.log('No block reference found at point. Create a block first with BLOCK command.');
       }
     }
   }, [
@@ -5085,11 +5868,32 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     toggleSelection,
     clearSelection,
     setTextDialogState,
+    blocks,
+    defineBlock,
+    setEntities,
+    setEntitiesWithConstraints,
+    constraints,
+    addConstraint,
+    removeConstraints,
+    dimensionalConstraints,
+    addDimensionalConstraint,
+    activeLayerId,
+    activeLineType,
+    activeLineWeight,
+    boundaryOptions,
   ]);
 
   // Handle value input (text input)
   const handleValueInput = useCallback((value: string) => {
-    if (activeCommand === 'TRIM' && step === 1 && value === '') {
+    if (activeCommand?.startsWith('DIMCONSTRAINT_') && commandState.pending) {
+      // Sürücü ölçü değeri: sayı veya parametre ifadesi, boş Enter ölçülen değeri korur
+      const error = addDimensionalConstraint(commandState.pending, value);
+      if (error) {
+        console.log(`Invalid value: ${error}`);
+        return;
+      }
+      cancelCommand();
+    } else if (activeCommand === 'TRIM' && step === 1 && value === '') {
       // Enter pressed - move to trimming step
       // If cutting edges were selected, use them. Otherwise, Quick Trim mode (all entities are cutters)
       setStep(2);
@@ -5195,6 +5999,18 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
       } else {
         console.log('Select at least 2 objects to join');
       }
+    } else if ((activeCommand === 'HATCH' || activeCommand === 'BOUNDARY') && step === 1 && value.trim() !== '') {
+      // Ada algılama stili (N/O/I) veya boşluk toleransı
+      const styles: Record<string, IslandDetectionStyle> = { N: 'normal', O: 'outer', I: 'ignore' };
+      const style = styles[value.trim().toUpperCase()];
+      const tolerance = parseFloat(value);
+      if (style) {
+        setBoundaryOptions({ islandStyle: style });
+        console.log(`Island detection: ${style}`);
+      } else if (!isNaN(tolerance) && tolerance >= 0) {
+        setBoundaryOptions({ gapTolerance: tolerance });
+        console.log(`Gap tolerance: ${tolerance}`);
+      }
     } else if (activeCommand === 'HATCH' && step === 2 && value === '') {
       // Enter pressed - finish hatch with selected islands
       const { outerBoundary, islands, hatchParams } = commandState;
@@ -5222,6 +6038,10 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
         hatchEntity.islands = islands;
       }
 
+      if (commandState.association) {
+        hatchEntity.association = commandState.association;
+      }
+
       addEntity(hatchEntity as Entity);
       createHistoryItem('HATCH' as CommandType);
 
@@ -5265,16 +6085,44 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
         setStep(2);
       }
     } else if (activeCommand === 'POLYLINE') {
-      if (value.toUpperCase() === 'C' && tempPoints.length > 2) {
+      const option = value.trim().toUpperCase();
+      const [startWidth, endWidth] = commandState.width || [0, 0];
+      if (commandState.widthPrompt === 'start') {
+        // Boş giriş: mevcut başlangıç genişliği
+        const w = option === '' ? startWidth : parseFloat(option);
+        if (!isNaN(w) && w >= 0) {
+          setCommandState({ ...commandState, widthPrompt: 'end', width: [w, w] });
+        }
+      } else if (commandState.widthPrompt === 'end') {
+        const w = option === '' ? startWidth : parseFloat(option);
+        if (!isNaN(w) && w >= 0) {
+          setCommandState({ ...commandState, widthPrompt: undefined, width: [startWidth, w] });
+        }
+      } else if (step === 2 && (option === 'A' || option === 'ARC')) {
+        setCommandState({ ...commandState, arcMode: true });
+      } else if (step === 2 && (option === 'L' || option === 'LINE')) {
+        setCommandState({ ...commandState, arcMode: false });
+      } else if (step === 2 && (option === 'W' || option === 'WIDTH')) {
+        setCommandState({ ...commandState, widthPrompt: 'start' });
+      } else if ((option === 'C' || option === 'CL' || option === 'CLOSE') && tempPoints.length > 2) {
+        const last = tempPoints[tempPoints.length - 1];
+        const closingBulge = commandState.arcMode
+          ? bulgeFromTangent(last, getPolylineEndTangent(tempPoints, commandState.bulges), tempPoints[0])
+          : 0;
         addEntity({
           type: 'LWPOLYLINE',
-          vertices: tempPoints,
+          ...createPolylineData(
+            tempPoints,
+            [...(commandState.bulges || []), closingBulge],
+            [...(commandState.startWidths || []), startWidth],
+            [...(commandState.endWidths || []), endWidth]
+          ),
           closed: true,
-          color: '#fff',
-          layer: '0',
+          color: 'BYLAYER',
+          layer: activeLayerId,
         });
-        cancelCommand();
-      } else if (value === '') {
+        cancelCommand(false);
+      } else if (option === '') {
         finishPolyline();
       }
     } else if (activeCommand === 'SPLINE') {
@@ -5311,6 +6159,9 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
             (newEnt as any).vertices = (ent as any).vertices.map((v: Point) =>
               scalePt(v, base[0], base[1], factor)
             );
+            if (ent.constantWidth) (newEnt as any).constantWidth = ent.constantWidth * factor;
+            if (ent.startWidths) (newEnt as any).startWidths = ent.startWidths.map(w => w * factor);
+            if (ent.endWidths) (newEnt as any).endWidths = ent.endWidths.map(w => w * factor);
           } else if (ent.type === 'TEXT') {
             (newEnt as any).position = scalePt((ent as any).position, base[0], base[1], factor);
             (newEnt as any).height *= factor;
@@ -5381,6 +6232,9 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     cancelCommand,
     finishPolyline,
     clearSelection,
+    addDimensionalConstraint,
+    activeLayerId,
+    setBoundaryOptions,
   ]);
 
   // Print Preview
@@ -5432,8 +6286,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
         maxX = Math.max(maxX, e.center[0] + e.rx);
         maxY = Math.max(maxY, e.center[1] + e.ry);
       } else if (ent.type === 'LWPOLYLINE') {
-        const poly = ent as any;
-        poly.vertices.forEach((v: Point) => {
+        tessellatePolyline(ent).forEach((v: Point) => {
           minX = Math.min(minX, v[0]);
           minY = Math.min(minY, v[1]);
           maxX = Math.max(maxX, v[0]);
@@ -5470,6 +6323,13 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     newFile,
     loadEntities,
     loadProject,
+    saveProject,
+    saveDXF,
+    saveSVG,
+    savePDF,
+    saveHPGL,
+    generateCAMToolpaths,
+    saveGCode,
     // Layers
     layerDialogState,
     setLayerDialogState,
@@ -5483,6 +6343,40 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     setActiveLineType,
     activeLineWeight,
     setActiveLineWeight,
+    // Blocks
+    blocks,
+    defineBlock,
+    removeBlock,
+    blockDialogState,
+    setBlockDialogState,
+    attributeDialogState,
+    setAttributeDialogState,
+    dataExtractionDialogState,
+    setDataExtractionDialogState,
+    constraints,
+    addConstraint,
+    deleteConstraints,
+    constraintBarVisible,
+    setConstraintBarVisible,
+    dimensionalConstraints,
+    parameters,
+    addDimensionalConstraint,
+    deleteDimensionalConstraints,
+    applyParameters,
+    parametersDialogState,
+    setParametersDialogState,
+    openParametersManager,
+    purgeDialogState,
+    setPurgeDialogState,
+    auditDialogState,
+    setAuditDialogState,
+    importReportDialogState,
+    setImportReportDialogState,
+    pointImportDialogState,
+    setPointImportDialogState,
+    blockEditorName,
+    openBlockEditor,
+    closeBlockEditor,
     baseUnit,
     setBaseUnit,
     drawingUnit,
@@ -5496,6 +6390,10 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     updateEntityTransient,
     deleteEntities,
     getEntity,
+    detachedHatchIds,
+    clearDetachedHatchIds,
+    boundaryOptions,
+    setBoundaryOptions,
     activeCommand,
     startCommand,
     cancelCommand,
@@ -5537,6 +6435,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     canUndo,
     canRedo,
     zoomToFitTrigger,
+    projectCamera,
     triggerZoomToFit,
     zoomInTrigger,
     triggerZoomIn,
@@ -5571,6 +6470,12 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     // Print System
     printDialogState,
     setPrintDialogState,
+    svgExportDialogState,
+    setSvgExportDialogState,
+    camDialogState,
+    setCamDialogState,
+    toolpathPreview,
+    setToolpathPreview,
     printWindowMode,
     startPrintWindow,
     finishPrintWindow,
@@ -5588,10 +6493,11 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     alignmentGuides, // Export guides state
   }), [
     sheets, activeSheetId, addSheet, removeSheet, switchSheet, renameSheet,
-    fileName, isModified, newFile, loadEntities, loadProject,
+    fileName, isModified, newFile, loadEntities, loadProject, saveProject, saveDXF, saveSVG, savePDF, saveHPGL, generateCAMToolpaths, saveGCode,
     layerDialogState, setLayerDialogState, layers, activeLayerId, addLayer, removeLayer, updateLayer, setActiveLayerId,
+    blocks, defineBlock, removeBlock, blockDialogState, attributeDialogState, dataExtractionDialogState, constraints, addConstraint, deleteConstraints, constraintBarVisible, dimensionalConstraints, parameters, addDimensionalConstraint, deleteDimensionalConstraints, applyParameters, parametersDialogState, openParametersManager, purgeDialogState, auditDialogState, importReportDialogState, pointImportDialogState, blockEditorName, openBlockEditor, closeBlockEditor,
     baseUnit, drawingUnit, drawingScale, scaleFactor,
-    entities, addEntity, updateEntity, updateEntityTransient, deleteEntities, getEntity,
+    entities, addEntity, updateEntity, updateEntityTransient, deleteEntities, getEntity, detachedHatchIds, clearDetachedHatchIds, boundaryOptions, setBoundaryOptions,
     activeCommand, startCommand, cancelCommand,
     step, tempPoints, cursorPosition, commandState,
     handleCommandInput, handleMouseMove, handleValueInput, finishPolyline,
@@ -5602,7 +6508,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     activeGrip, activateGrip, cancelGrip, selectionBox,
     handlePointerDown, handlePointerUp,
     undo, redo, canUndo, canRedo,
-    zoomToFitTrigger, triggerZoomToFit,
+    zoomToFitTrigger, triggerZoomToFit, projectCamera,
     zoomInTrigger, triggerZoomIn, zoomOutTrigger, triggerZoomOut,
     panTrigger, triggerPan, viewTrigger, triggerView,
     zoomWindowMode, startZoomWindow, cancelZoomWindow, zoomWindowBox, applyZoomWindow, zoomWindowTrigger,
@@ -5611,7 +6517,7 @@ export const DrawingProvider: React.FC<DrawingProviderProps> = ({ children }) =>
     dimensionSettingsDialogState, setDimensionSettingsDialogState,
     dimensionEditDialogState, setDimensionEditDialogState,
     inPlaceTextEditorState, setInPlaceTextEditorState, submitInPlaceEdit, cancelInPlaceEdit,
-    printDialogState, setPrintDialogState,
+    printDialogState, setPrintDialogState, svgExportDialogState, setSvgExportDialogState, camDialogState, setCamDialogState, toolpathPreview, setToolpathPreview,
     printWindowMode, startPrintWindow, finishPrintWindow, printWindowBox, setPrintWindowBox, applyPrintWindow,
     printPreviewMode, startPrintPreview, finishPrintPreview
   ]);
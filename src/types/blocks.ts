@@ -0,0 +1,23 @@
+// Block definition types
+
+import type { Point, Entity, TextAttributeDefinition } from './entities';
+
+// Attribute definition stored with a block; each instance carries its own value
+export interface AttributeDefinition extends TextAttributeDefinition {
+  tag: string;
+  position: Point; // Block space, like member entities
+  height: number;
+  rotation?: number;
+}
+
+// Named block definition stored once per drawing, referenced by INSERT/BLOCK_REFERENCE
+export interface BlockDefinition {
+  name: string;
+  basePoint: Point;
+  entities: Entity[]; // Member entities in drawing coordinates (relative to basePoint)
+  description?: string;
+  attributes?: AttributeDefinition[];
+}
+
+// Block table: block name -> definition
+export type BlockTable = Record<string, BlockDefinition>;
@@ -0,0 +1,57 @@
+// CAM (laser / CNC) toolpath and G-code settings
+
+import type { Point } from './entities';
+
+export type CAMMachine = 'laser' | 'cnc';
+
+// Katman başına kesim ayarları
+export interface CAMLayerSettings {
+  enabled: boolean;
+  feedRate: number; // mm/dk
+  power: number; // % (lazer gücü veya iş mili devri)
+  passes: number;
+}
+
+export interface CAMSettings {
+  machine: CAMMachine;
+  kerf: number; // mm, kesim genişliği; kapalı konturlar yarısı kadar malzeme dışına kaydırılır
+  maxPower: number; // %100 güce karşılık gelen S değeri (GRBL varsayılanı 1000)
+  safeZ: number; // mm, CNC boşta hareket yüksekliği
+  passDepth: number; // mm, CNC paso başına derinlik
+  plungeRate: number; // mm/dk, CNC dalma hızı
+  tolerance: number; // mm, uç noktaların zincirlenme toleransı
+  layers: Record<string, CAMLayerSettings>; // Katman id'sine göre
+}
+
+export const DEFAULT_CAM_LAYER_SETTINGS: CAMLayerSettings = {
+  enabled: true,
+  feedRate: 1000,
+  power: 100,
+  passes: 1,
+};
+
+export const DEFAULT_CAM_SETTINGS: CAMSettings = {
+  machine: 'laser',
+  kerf: 0.15,
+  maxPower: 1000,
+  safeZ: 5,
+  passDepth: 1,
+  plungeRate: 300,
+  tolerance: 0.01,
+  layers: {},
+};
+
+// open: açık yol (kaydırılmaz), outer: parça dış konturu, inner: delik
+export type ToolpathContour = 'open' | 'outer' | 'inner';
+
+/**
+ * A chained contour in drawing coordinates, already kerf-compensated and in cutting
+ * order. bulges[i] belongs to the segment starting at vertices[i].
+ */
+export interface Toolpath {
+  layer: string;
+  vertices: Point[];
+  bulges: number[];
+  closed: boolean;
+  contour: ToolpathContour;
+}
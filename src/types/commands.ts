@@ -49,6 +49,10 @@ export type CommandType =
   | 'BLOCK'
   | 'WBLOCK'
   | 'INSERT'
+  | 'BEDIT'
+  | 'BCLOSE'
+  | 'ATTDEF'
+  | 'DATAEXTRACTION'
   // Hatch commands
   | 'HATCH'
   | 'BOUNDARY'
@@ -63,6 +67,19 @@ export type CommandType =
   | 'GEOMCONSTRAINT_COINCIDENT'
   | 'GEOMCONSTRAINT_PARALLEL'
   | 'GEOMCONSTRAINT_TANGENT'
+  | 'GEOMCONSTRAINT_PERPENDICULAR'
+  | 'GEOMCONSTRAINT_HORIZONTAL'
+  | 'GEOMCONSTRAINT_VERTICAL'
+  | 'GEOMCONSTRAINT_EQUAL'
+  | 'GEOMCONSTRAINT_CONCENTRIC'
+  | 'GEOMCONSTRAINT_FIX'
+  | 'DELCONSTRAINT'
+  | 'DIMCONSTRAINT_LINEAR'
+  | 'DIMCONSTRAINT_ALIGNED'
+  | 'DIMCONSTRAINT_RADIAL'
+  | 'DIMCONSTRAINT_DIAMETER'
+  | 'DIMCONSTRAINT_ANGULAR'
+  | 'PARAMETERS'
   // Management commands
   | 'PURGE'
   | 'AUDIT';
@@ -86,6 +103,9 @@ export interface CommandHistoryItem {
     entities: any[];
     selection: Set<EntityID>;
   };
+  // Changes outside the entity list (layers, block table, sheets), e.g. PURGE
+  undoAction?: () => void;
+  redoAction?: () => void;
 }
 
 // Command aliases map
@@ -166,6 +186,13 @@ export const COMMAND_ALIASES: Record<string, CommandType> = {
   'WBLOCK': 'WBLOCK',
   'I': 'INSERT',
   'INSERT': 'INSERT',
+  'BE': 'BEDIT',
+  'BEDIT': 'BEDIT',
+  'BCLOSE': 'BCLOSE',
+  'ATT': 'ATTDEF',
+  'ATTDEF': 'ATTDEF',
+  'DX': 'DATAEXTRACTION',
+  'DATAEXTRACTION': 'DATAEXTRACTION',
   'H': 'HATCH',
   'HATCH': 'HATCH',
   'BO': 'BOUNDARY',
@@ -178,4 +205,25 @@ export const COMMAND_ALIASES: Record<string, CommandType> = {
   'ZOOM': 'ZOOM',
   'P': 'PAN',
   'PAN': 'PAN',
+  'GCCOINCIDENT': 'GEOMCONSTRAINT_COINCIDENT',
+  'GCPARALLEL': 'GEOMCONSTRAINT_PARALLEL',
+  'GCPERPENDICULAR': 'GEOMCONSTRAINT_PERPENDICULAR',
+  'GCTANGENT': 'GEOMCONSTRAINT_TANGENT',
+  'GCHORIZONTAL': 'GEOMCONSTRAINT_HORIZONTAL',
+  'GCVERTICAL': 'GEOMCONSTRAINT_VERTICAL',
+  'GCEQUAL': 'GEOMCONSTRAINT_EQUAL',
+  'GCCONCENTRIC': 'GEOMCONSTRAINT_CONCENTRIC',
+  'GCFIX': 'GEOMCONSTRAINT_FIX',
+  'DELCON': 'DELCONSTRAINT',
+  'DELCONSTRAINT': 'DELCONSTRAINT',
+  'DCLINEAR': 'DIMCONSTRAINT_LINEAR',
+  'DCALIGNED': 'DIMCONSTRAINT_ALIGNED',
+  'DCRADIUS': 'DIMCONSTRAINT_RADIAL',
+  'DCDIAMETER': 'DIMCONSTRAINT_DIAMETER',
+  'DCANGULAR': 'DIMCONSTRAINT_ANGULAR',
+  'PAR': 'PARAMETERS',
+  'PARAMETERS': 'PARAMETERS',
+  'PU': 'PURGE',
+  'PURGE': 'PURGE',
+  'AUDIT': 'AUDIT',
 };
@@ -0,0 +1,67 @@
+// Geometric constraint types (Parametric)
+
+import type { EntityID, Point } from './entities';
+
+export type GeometricConstraintType =
+  | 'COINCIDENT'
+  | 'PARALLEL'
+  | 'PERPENDICULAR'
+  | 'TANGENT'
+  | 'HORIZONTAL'
+  | 'VERTICAL'
+  | 'EQUAL'
+  | 'CONCENTRIC'
+  | 'FIX';
+
+// Point on an entity: LINE start/end, ARC start/end/center, CIRCLE center, polyline vertex, POINT position
+export type ConstraintPointKind = 'start' | 'end' | 'center' | 'vertex' | 'position';
+
+export interface ConstraintPointRef {
+  entityId: EntityID;
+  kind: ConstraintPointKind;
+  index?: number; // LWPOLYLINE vertex index
+}
+
+// Constrained object: whole entity, or one segment of a polyline
+export interface ConstraintEntityRef {
+  entityId: EntityID;
+  segment?: number; // LWPOLYLINE segment index (vertex i -> i+1)
+}
+
+export interface GeometricConstraint {
+  id: number;
+  type: GeometricConstraintType;
+  entities: ConstraintEntityRef[]; // 1 (HORIZONTAL, VERTICAL, FIX) or 2 objects
+  points?: ConstraintPointRef[]; // COINCIDENT points, FIX on a single point
+  position?: Point; // FIX: locked point location
+  internal?: boolean; // TANGENT between circles: internal tangency
+}
+
+// Dimensional (driving) constraint types: the value drives the geometry
+export type DimensionalConstraintType = 'LINEAR' | 'ALIGNED' | 'RADIAL' | 'DIAMETER' | 'ANGULAR';
+
+export interface DimensionalConstraint {
+  id: number;
+  name: string; // Parameter name (d1, rad1, dia1, ang1)
+  type: DimensionalConstraintType;
+  points?: ConstraintPointRef[]; // LINEAR, ALIGNED: two points
+  entities?: ConstraintEntityRef[]; // RADIAL, DIAMETER: circle/arc; ANGULAR: two lines
+  orientation?: 'horizontal' | 'vertical'; // LINEAR only
+  expression: string; // e.g. "2*height + 10"
+  value: number; // Evaluated expression (drawing units, degrees for ANGULAR)
+  dimLinePosition: Point; // Dimension line / text placement
+}
+
+// User parameter defined in the parameters manager
+export interface UserParameter {
+  name: string;
+  expression: string;
+  value: number;
+  description?: string;
+}
+
+// Parameters manager edit: driving dimensions left out of `dimensions` are deleted
+export interface ParametersUpdate {
+  dimensions: { id: number; name: string; expression: string }[];
+  parameters: { name: string; expression: string; description?: string }[];
+}
@@ -1,6 +1,9 @@
 // DXF import/export types
 
 import type { Entity } from './entities';
+import type { Layer } from './layers';
+import type { BlockTable } from './blocks';
+import type { DimensionSettings } from './dimensionSettings';
 
 export interface DXFExportOptions {
   version: 'R12' | 'R2000' | 'R2007' | 'R2010' | 'R2018';
@@ -14,6 +17,14 @@ export const DEFAULT_DXF_EXPORT_OPTIONS: DXFExportOptions = {
   precision: 6,
 };
 
+// Çizim durumu: TABLES, BLOCKS ve HEADER bölümleri için
+export interface DXFDrawingData {
+  layers?: Layer[];
+  blocks: BlockTable;
+  dimensionSettings?: DimensionSettings;
+  ltscale?: number; // $LTSCALE (çizgi tipi tanımları mm cinsindendir)
+}
+
 export interface DXFImportResult {
   entities: Entity[];
   layers: string[];
@@ -53,3 +64,26 @@ export const ACAD_VERSIONS: Record<string, string> = {
   'R2010': 'AC1024',
   'R2018': 'AC1032',
 };
+
+// Sheet base unit -> DXF unit name
+export const DXF_UNITS_BY_DRAWING_UNIT: Record<string, DXFExportOptions['units']> = {
+  'mm': 'Millimeters',
+  'cm': 'Centimeters',
+  'm': 'Meters',
+  'inch': 'Inches',
+  'feet': 'Feet',
+};
+
+// Linetype definitions (acadiso.lin, mm): dash > 0, gap < 0, dot = 0
+export const DXF_LINETYPES: Record<string, { description: string; pattern: number[] }> = {
+  'CONTINUOUS': { description: 'Solid line', pattern: [] },
+  'DASHED': { description: 'Dashed __ __ __ __', pattern: [12.7, -6.35] },
+  'HIDDEN': { description: 'Hidden __ __ __ __', pattern: [6.35, -3.175] },
+  'CENTER': { description: 'Center ____ _ ____ _', pattern: [31.75, -6.35, 6.35, -6.35] },
+  'PHANTOM': { description: 'Phantom ____ _ _ ____', pattern: [31.75, -6.35, 6.35, -6.35, 6.35, -6.35] },
+  'DOTTED': { description: 'Dot . . . . . . .', pattern: [0, -3.175] },
+  'DASHDOT': { description: 'Dash dot __ . __ .', pattern: [12.7, -6.35, 0, -6.35] },
+};
+
+// Standard lineweights (1/100 mm)
+export const DXF_LINEWEIGHTS = [0, 5, 9, 13, 15, 18, 20, 25, 30, 35, 40, 50, 53, 60, 70, 80, 90, 100, 106, 120, 140, 158, 200, 211];
@@ -22,6 +22,7 @@ export interface BaseEntity {
   locked?: boolean;
   lineType?: string; // e.g. 'continuous', 'dashed'
   lineWeight?: number; // e.g. 1
+  transparency?: number; // Yüzde: 0 opak - 90; tanımsız = ByLayer
 }
 
 // Entity types
@@ -57,6 +58,10 @@ export interface LWPolylineEntity extends BaseEntity {
   closed: boolean;
   width?: number;
   constantWidth?: number;
+  // Per-vertex data for the segment that starts at vertices[i] (DXF group codes 42, 40, 41)
+  bulges?: number[]; // tan(θ/4) of the arc segment, 0 = straight, positive = counter-clockwise
+  startWidths?: number[];
+  endWidths?: number[];
 }
 
 export interface CircleEntity extends BaseEntity {
@@ -147,6 +152,14 @@ export interface TextStyle {
   oblique?: number; // Eğiklik açısı (derece)
 }
 
+// ATTDEF: blok tanımına alınacak öznitelik tanımı (TAG, metnin kendisidir)
+export interface TextAttributeDefinition {
+  prompt: string;
+  defaultValue: string;
+  invisible?: boolean;
+  constant?: boolean;
+}
+
 export interface TextEntity extends BaseEntity {
   type: 'TEXT';
   position: Point;
@@ -157,6 +170,7 @@ export interface TextEntity extends BaseEntity {
   justification?: 'left' | 'center' | 'right' | 'aligned' | 'middle' | 'fit';
   textStyle?: TextStyle;
   annotative?: boolean; // Ölçek bağımsız mı?
+  attributeDefinition?: TextAttributeDefinition; // Varsa metin bir ATTDEF'tir
 }
 
 export interface DimensionEntity extends BaseEntity {
@@ -213,6 +227,32 @@ export interface HatchEntity extends BaseEntity {
   scale: number;
   rotation: number;
   opacity?: number;
+  gradient?: HatchGradient; // Gradyan desenlerinde (GR_*) renk geçişi
+  association?: HatchAssociation; // İlişkisel tarama: kaynak nesneler değişince sınır yeniden hesaplanır
+}
+
+/**
+ * Source entities of an associative hatch: the boundary and each island (same order as
+ * `islands`) are formed by one closed entity or by edges joined end to end
+ */
+export interface HatchAssociation {
+  boundary: number[];
+  islands: number[][];
+}
+
+export type GradientType = 'linear' | 'cylindrical' | 'spherical';
+
+/**
+ * Gradient fill of a hatch from color1 to color2. One-color gradients leave color2
+ * unset and blend color1 with black or white by `tint`.
+ */
+export interface HatchGradient {
+  type: GradientType;
+  color1: string;
+  color2?: string;
+  tint?: number; // Tek renk: 0 koyu (siyah) - 0.5 aynı renk - 1 açık (beyaz)
+  angle: number; // Derece
+  shift: number; // 0 ortalanmış - 1 (merkez yarım boy kadar açı yönünde kayar)
 }
 
 export interface HatchPattern {
@@ -227,7 +267,7 @@ export interface BlockReferenceEntity extends BaseEntity {
   position: Point;
   scale: Point;
   rotation: number;
-  attributes?: Record<string, string>;
+  attributes?: Record<string, string>; // Öznitelik değerleri: TAG -> değer
 }
 
 // Union type of all entities
@@ -5,3 +5,5 @@ export * from './commands';
 export * from './snap';
 export * from './layers';
 export * from './dxf';
+export * from './blocks';
+export * from './constraints';
@@ -13,6 +13,7 @@ export interface Layer {
   locked: boolean;
   frozen: boolean;
   plot: boolean;
+  transparency?: number; // Yüzde: 0 opak - 90
   description?: string;
 }
 
@@ -36,6 +37,17 @@ export const DEFAULT_LAYER: Layer = {
   plot: true,
 };
 
+// Nesne / katman saydamlığı üst sınırı (AutoCAD gibi %90)
+export const MAX_TRANSPARENCY = 90;
+
+/**
+ * Opacity (0-1) from an entity's transparency; unset (ByLayer) uses the layer's
+ */
+export const getTransparencyOpacity = (transparency: number | undefined, layer?: Layer): number => {
+  const value = transparency ?? layer?.transparency ?? 0;
+  return 1 - Math.min(MAX_TRANSPARENCY, Math.max(0, value)) / 100;
+};
+
 // Common linetypes
 export const LINETYPES = [
   'CONTINUOUS',
@@ -47,36 +59,103 @@ export const LINETYPES = [
   'HIDDEN',
 ] as const;
 
+// AutoCAD Color Index (ACI) palette; 0 (BYBLOCK) and 256 (BYLAYER) are not real colors
+export const ACI_BYBLOCK = 0;
+export const ACI_BYLAYER = 256;
+
+const ACI_PALETTE = [
+  '#000000', '#ff0000', '#ffff00', '#00ff00', '#00ffff', '#0000ff', '#ff00ff', '#ffffff', // 0-7
+  '#808080', '#c0c0c0', '#ff0000', '#ff7f7f', '#cc0000', '#cc6666', '#990000', '#994c4c', // 8-15
+  '#7f0000', '#7f3f3f', '#4c0000', '#4c2626', '#ff3f00', '#ff9f7f', '#cc3300', '#cc7f66', // 16-23
+  '#992600', '#995f4c', '#7f1f00', '#7f4f3f', '#4c1300', '#4c2f26', '#ff7f00', '#ffbf7f', // 24-31
+  '#cc6600', '#cc9966', '#994c00', '#99724c', '#7f3f00', '#7f5f3f', '#4c2600', '#4c3926', // 32-39
+  '#ffbf00', '#ffdf7f', '#cc9900', '#ccb266', '#997200', '#99854c', '#7f5f00', '#7f6f3f', // 40-47
+  '#4c3900', '#4c4226', '#ffff00', '#ffff7f', '#cccc00', '#cccc66', '#989800', '#98984c', // 48-55
+  '#7f7f00', '#7f7f3f', '#4c4c00', '#4c4c26', '#bfff00', '#dfff7f', '#99cc00', '#b2cc66', // 56-63
+  '#729800', '#85984c', '#5f7f00', '#6f7f3f', '#394c00', '#424c26', '#7fff00', '#bfff7f', // 64-71
+  '#66cc00', '#99cc66', '#4c9800', '#72984c', '#3f7f00', '#5f7f3f', '#264c00', '#394c26', // 72-79
+  '#3fff00', '#9fff7f', '#33cc00', '#7fcc66', '#269800', '#5f984c', '#1f7f00', '#4f7f3f', // 80-87
+  '#134c00', '#2f4c26', '#00ff00', '#7fff7f', '#00cc00', '#66cc66', '#009800', '#4c984c', // 88-95
+  '#007f00', '#3f7f3f', '#004c00', '#264c26', '#00ff3f', '#7fff9f', '#00cc33', '#66cc7f', // 96-103
+  '#009826', '#4c985f', '#007f1f', '#3f7f4f', '#004c13', '#264c2f', '#00ff7f', '#7fffbf', // 104-111
+  '#00cc66', '#66cc99', '#00984c', '#4c9872', '#007f3f', '#3f7f5f', '#004c26', '#264c39', // 112-119
+  '#00ffbf', '#7fffdf', '#00cc99', '#66ccb2', '#009872', '#4c9885', '#007f5f', '#3f7f6f', // 120-127
+  '#004c39', '#264c42', '#00ffff', '#7fffff', '#00cccc', '#66cccc', '#009898', '#4c9898', // 128-135
+  '#007f7f', '#3f7f7f', '#004c4c', '#264c4c', '#00bfff', '#7fdfff', '#0099cc', '#66b2cc', // 136-143
+  '#007298', '#4c8598', '#005f7f', '#3f6f7f', '#00394c', '#26424c', '#007fff', '#7fbfff', // 144-151
+  '#0066cc', '#6699cc', '#004c98', '#4c7298', '#003f7f', '#3f5f7f', '#00264c', '#26394c', // 152-159
+  '#003fff', '#7f9fff', '#0033cc', '#667fcc', '#002698', '#4c5f98', '#001f7f', '#3f4f7f', // 160-167
+  '#00134c', '#262f4c', '#0000ff', '#7f7fff', '#0000cc', '#6666cc', '#000098', '#4c4c98', // 168-175
+  '#00007f', '#3f3f7f', '#00004c', '#26264c', '#3f00ff', '#9f7fff', '#3300cc', '#7f66cc', // 176-183
+  '#260098', '#5f4c98', '#1f007f', '#4f3f7f', '#13004c', '#2f264c', '#7f00ff', '#bf7fff', // 184-191
+  '#6600cc', '#9966cc', '#4c0098', '#724c98', '#3f007f', '#5f3f7f', '#26004c', '#39264c', // 192-199
+  '#bf00ff', '#df7fff', '#9900cc', '#b266cc', '#720098', '#854c98', '#5f007f', '#6f3f7f', // 200-207
+  '#39004c', '#42264c', '#ff00ff', '#ff7fff', '#cc00cc', '#cc66cc', '#980098', '#984c98', // 208-215
+  '#7f007f', '#7f3f7f', '#4c004c', '#4c264c', '#ff00bf', '#ff7fdf', '#cc0099', '#cc66b2', // 216-223
+  '#980072', '#984c85', '#7f005f', '#7f3f6f', '#4c0039', '#4c2642', '#ff007f', '#ff7fbf', // 224-231
+  '#cc0066', '#cc6699', '#98004c', '#984c72', '#7f003f', '#7f3f5f', '#4c0026', '#4c2639', // 232-239
+  '#ff003f', '#ff7f9f', '#cc0033', '#cc667f', '#980026', '#984c5f', '#7f001f', '#7f3f4f', // 240-247
+  '#4c0013', '#4c262f', '#333333', '#5b5b5b', '#848484', '#adadad', '#d6d6d6', '#ffffff', // 248-255
+];
+
 // AutoCAD Color Index (ACI) to RGB mapping
-export const ACI_COLORS: Record<number, string> = {
-  0: '#000000', // BYBLOCK
-  1: '#ff0000', // Red
-  2: '#ffff00', // Yellow
-  3: '#00ff00', // Green
-  4: '#00ffff', // Cyan
-  5: '#0000ff', // Blue
-  6: '#ff00ff', // Magenta
-  7: '#ffffff', // White/Black
-  8: '#808080', // Gray
-  9: '#c0c0c0', // Light Gray
-};
+export const ACI_COLORS: Record<number, string> = { ...ACI_PALETTE };
 
-// RGB to ACI (simplified)
+// RGB to ACI: exact palette match, otherwise the nearest color
 export const rgbToACI = (rgb: string): number => {
-  const colorMap: Record<string, number> = {
-    '#ff0000': 1,
-    '#ffff00': 2,
-    '#00ff00': 3,
-    '#00ffff': 4,
-    '#0000ff': 5,
-    '#ff00ff': 6,
-    '#ffffff': 7,
-    '#808080': 8,
-  };
-  return colorMap[rgb.toLowerCase()] || 7;
+  if (rgb.toUpperCase() === 'BYLAYER') return ACI_BYLAYER;
+  if (rgb.toUpperCase() === 'BYBLOCK') return ACI_BYBLOCK;
+  const value = parseInt(rgb.replace('#', ''), 16);
+  if (isNaN(value)) return 7;
+
+  const channels = (color: number) => [(color >> 16) & 0xff, (color >> 8) & 0xff, color & 0xff];
+  const [r, g, b] = channels(value);
+  let best = 7;
+  let bestDistance = Infinity;
+  for (let aci = 1; aci <= 255; aci++) {
+    const [pr, pg, pb] = channels(parseInt(ACI_PALETTE[aci].slice(1), 16));
+    const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+    if (distance < bestDistance) {
+      best = aci;
+      bestDistance = distance;
+    }
+  }
+  return best;
 };
 
 // ACI to RGB
 export const aciToRGB = (aci: number): string => {
   return ACI_COLORS[aci] || '#ffffff';
 };
+
+// DXF true color (group 420, 0x00RRGGBB) to RGB
+export const trueColorToRGB = (value: number): string => {
+  return '#' + (value & 0xffffff).toString(16).padStart(6, '0');
+};
+
+/**
+ * Merge imported layers into a layer table. Layers whose name already exists keep the
+ * existing layer (names compare case-insensitively, as in DXF); new layers get a unique id.
+ * Returns the merged table and the id of every imported layer, keyed by lower-case name.
+ */
+export const mergeImportedLayers = (
+  existing: Layer[],
+  imported: Layer[]
+): { layers: Layer[]; layerIds: Record<string, string> } => {
+  const layers = [...existing];
+  const layerIds: Record<string, string> = {};
+  const stamp = Date.now();
+
+  imported.forEach((layer, index) => {
+    const match = layers.find(l => l.name.toLowerCase() === layer.name.toLowerCase());
+    if (match) {
+      layerIds[layer.name.toLowerCase()] = match.id;
+      return;
+    }
+    const id = layers.some(l => l.id === layer.id) ? `${stamp}_${index}` : layer.id;
+    layers.push({ ...layer, id });
+    layerIds[layer.name.toLowerCase()] = id;
+  });
+
+  return { layers, layerIds };
+};
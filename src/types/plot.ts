@@ -0,0 +1,72 @@
+// Plot (print) settings shared by the print dialog and the plot writers
+
+import type { Point } from './entities';
+import type { Layer } from './layers';
+import type { BlockTable } from './blocks';
+
+export type PlotStyle = 'none' | 'monochrome' | 'grayscale';
+
+export interface PlotSettings {
+  printer: string;
+  paperSize: string;
+  plotArea: 'display' | 'extents' | 'window';
+  fitToPaper: boolean;
+  scale: string; // '1:100' gibi kağıt:çizim oranı
+  orientation: 'portrait' | 'landscape';
+  plotStyle: PlotStyle;
+  centerPlot: boolean;
+  lineweightDisplay: 'default' | 'hairline' | 'thick';
+  margins: { top: number; right: number; bottom: number; left: number }; // mm
+  quality: 'draft' | 'normal' | 'high';
+}
+
+// Yerleşik vektör PDF yazıcısı; diğer yazıcılar tarayıcının yazdırma penceresini kullanır
+export const VECTOR_PDF_PRINTER = 'vector_pdf';
+
+// HPGL/2 kalem çizici / vinil kesici çıktısı (.plt)
+export const HPGL_PRINTER = 'hpgl';
+
+export const DEFAULT_PLOT_SETTINGS: PlotSettings = {
+  printer: VECTOR_PDF_PRINTER,
+  paperSize: 'iso_a4',
+  plotArea: 'extents',
+  fitToPaper: true,
+  scale: '1:1',
+  orientation: 'landscape',
+  plotStyle: 'none',
+  centerPlot: true,
+  lineweightDisplay: 'default',
+  margins: { top: 10, right: 10, bottom: 10, left: 10 },
+  quality: 'normal',
+};
+
+// Paper size definitions in mm
+export const PAPER_SIZES: { [key: string]: { width: number; height: number; name: string } } = {
+  'iso_a4': { width: 210, height: 297, name: 'A4' },
+  'iso_a3': { width: 297, height: 420, name: 'A3' },
+  'iso_a2': { width: 420, height: 594, name: 'A2' },
+  'iso_a1': { width: 594, height: 841, name: 'A1' },
+  'iso_a0': { width: 841, height: 1189, name: 'A0' },
+  'ansi_letter': { width: 216, height: 279, name: 'Letter' },
+  'ansi_legal': { width: 216, height: 356, name: 'Legal' },
+};
+
+// Katman ve entity kalınlığı 0 (varsayılan) olduğunda kullanılan çizgi kalınlığı (mm)
+export const PLOT_DEFAULT_LINEWEIGHT = 0.25;
+
+// Tarama desen çizgilerinin kalınlığı (mm)
+export const PLOT_HATCH_LINEWEIGHT = 0.13;
+
+// HPGL çizici birimi: 1 plu = 0.025 mm
+export const HPGL_UNITS_PER_MM = 40;
+
+// Kalem haznesi; renkler ACI sırasıyla bu sayıya göre kalemlere dağıtılır
+export const HPGL_PEN_COUNT = 8;
+
+// Çizim durumu: katman tablosu, bloklar ve bir çizim biriminin mm karşılığı
+export interface PlotDrawingData {
+  layers?: Layer[];
+  blocks: BlockTable;
+  unitSize?: number;
+  window?: { min: Point; max: Point }; // plotArea === 'window' için
+}
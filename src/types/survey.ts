@@ -0,0 +1,37 @@
+// Survey point file (CSV/TXT) import types
+
+// Bir sütunun anlamı; 'ignore' sütunu okunmaz
+export type PointFileColumn = 'point' | 'northing' | 'easting' | 'elevation' | 'code' | 'ignore';
+
+export type PointFileDelimiter = 'auto' | 'comma' | 'semicolon' | 'tab' | 'space';
+
+export interface PointImportOptions {
+  delimiter: PointFileDelimiter;
+  columns: PointFileColumn[]; // Dosyadaki sütun sırasıyla
+  labels: boolean; // Nokta numarası ve kod için TEXT etiketleri
+  labelHeight: number; // Çizim birimi
+  layerByCode: boolean; // Her kod kendi katmanına; kapalıysa tüm noktalar POINTS katmanında
+  connectByCode: boolean; // Aynı kodlu noktalar dosya sırasıyla LWPOLYLINE ile birleştirilir
+}
+
+// P,N,E,Z,CODE düzeni
+export const DEFAULT_POINT_IMPORT_OPTIONS: PointImportOptions = {
+  delimiter: 'auto',
+  columns: ['point', 'northing', 'easting', 'elevation', 'code'],
+  labels: true,
+  labelHeight: 0.5,
+  layerByCode: true,
+  connectByCode: false,
+};
+
+export const POINT_FILE_COLUMN_LABELS: Record<PointFileColumn, string> = {
+  point: 'Point No',
+  northing: 'Northing (Y)',
+  easting: 'Easting (X)',
+  elevation: 'Elevation (Z)',
+  code: 'Code',
+  ignore: 'Ignore',
+};
+
+// Kodsuz noktaların ve kod katmanı kapalıyken tüm noktaların katmanı
+export const SURVEY_POINT_LAYER = 'POINTS';
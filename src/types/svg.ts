@@ -0,0 +1,36 @@
+// SVG export types
+
+import type { Point } from './entities';
+import type { Layer } from './layers';
+import type { BlockTable } from './blocks';
+
+export interface SVGExportOptions {
+  area: 'extents' | 'window';
+  window?: { min: Point; max: Point }; // area === 'window' için çizim koordinatlarında
+  scale: number; // Çizim ölçeği (SCALE_PRESETS değeri, 1:100 = 0.01)
+  unitSize: number; // Bir çizim biriminin mm karşılığı
+  margin: number; // mm
+  background: string | null; // null = saydam
+  precision: number; // mm cinsinden koordinatların ondalık basamağı
+}
+
+export const DEFAULT_SVG_EXPORT_OPTIONS: SVGExportOptions = {
+  area: 'extents',
+  scale: 1,
+  unitSize: 1,
+  margin: 10,
+  background: '#ffffff',
+  precision: 3,
+};
+
+// Katman tablosu ve blok referanslarının çözümü için çizim durumu
+export interface SVGDrawingData {
+  layers?: Layer[];
+  blocks: BlockTable;
+}
+
+// Katman kalınlığı 0 (varsayılan) olduğunda kullanılan çizgi kalınlığı (mm)
+export const SVG_DEFAULT_LINEWEIGHT = 0.25;
+
+// Tarama desen çizgilerinin kalınlığı (mm)
+export const SVG_HATCH_LINEWEIGHT = 0.13;
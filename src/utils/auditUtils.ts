@@ -0,0 +1,192 @@
+import type { Entity } from '../types/entities';
+import type { BlockTable } from '../types/blocks';
+import type { Layer } from '../types/layers';
+import { DEFAULT_LAYER } from '../types/layers';
+import { isBlockReference } from './blockUtils';
+
+// AUDIT: bozuk entity tespiti ve onarımı
+
+export type AuditProblemType =
+    | 'INVALID_COORDINATES'
+    | 'ZERO_LENGTH_LINE'
+    | 'DEGENERATE_POLYLINE'
+    | 'MISSING_LAYER'
+    | 'DUPLICATE_ID'
+    | 'CORRUPT_BLOCK_DATA'
+    | 'MISSING_BLOCK';
+
+export interface AuditProblem {
+    type: AuditProblemType;
+    entityId: number;
+    entityType: string;
+}
+
+export interface AuditReport {
+    entityCount: number;
+    problems: AuditProblem[];
+    counts: Partial<Record<AuditProblemType, number>>;
+}
+
+export const AUDIT_PROBLEMS: Record<AuditProblemType, { title: string; description: string; fix: string }> = {
+    INVALID_COORDINATES: {
+        title: 'Invalid coordinates',
+        description: 'NaN or infinite values in the geometry',
+        fix: 'Entity deleted',
+    },
+    ZERO_LENGTH_LINE: {
+        title: 'Zero-length lines',
+        description: 'Start and end points are identical',
+        fix: 'Entity deleted',
+    },
+    DEGENERATE_POLYLINE: {
+        title: 'Degenerate polylines',
+        description: 'Polyline or spline with fewer than two vertices',
+        fix: 'Entity deleted',
+    },
+    MISSING_LAYER: {
+        title: 'Missing layers',
+        description: 'Entity is on a layer that does not exist',
+        fix: 'Moved to layer 0',
+    },
+    DUPLICATE_ID: {
+        title: 'Duplicate IDs',
+        description: 'Another entity already uses the same ID',
+        fix: 'New ID assigned',
+    },
+    CORRUPT_BLOCK_DATA: {
+        title: 'Corrupt block data',
+        description: 'Block reference whose legacy attributes.entities JSON does not parse',
+        fix: 'Legacy data removed (reference deleted if the block is undefined)',
+    },
+    MISSING_BLOCK: {
+        title: 'Undefined blocks',
+        description: 'Block reference to a block that is not in the block table',
+        fix: 'Reference deleted',
+    },
+};
+
+// Silinerek onarılan problem türleri
+const DELETING_PROBLEMS: AuditProblemType[] = ['INVALID_COORDINATES', 'ZERO_LENGTH_LINE', 'DEGENERATE_POLYLINE', 'MISSING_BLOCK'];
+
+// Entity içindeki tüm sayısal değerler sonlu mu? (id hariç, iç içe nesneler dahil)
+const hasInvalidNumber = (value: unknown, key?: string): boolean => {
+    if (typeof value === 'number') return key !== 'id' && !Number.isFinite(value);
+    if (Array.isArray(value)) return value.some(item => hasInvalidNumber(item));
+    if (value && typeof value === 'object') {
+        return Object.entries(value).some(([k, v]) => hasInvalidNumber(v, k));
+    }
+    return false;
+};
+
+const legacyDataParses = (data: string): boolean => {
+    try {
+        return Array.isArray(JSON.parse(data));
+    } catch {
+        return false;
+    }
+};
+
+// Tek entity'nin problemleri (ID tekrarı hariç)
+const inspectEntity = (ent: Entity, layerKeys: Set<string>, blocks: BlockTable): AuditProblemType[] => {
+    const problems: AuditProblemType[] = [];
+    if (hasInvalidNumber(ent)) problems.push('INVALID_COORDINATES');
+
+    const e = ent as any;
+    if (ent.type === 'LINE' && Array.isArray(e.start) && Array.isArray(e.end) &&
+        Math.hypot(e.end[0] - e.start[0], e.end[1] - e.start[1], (e.end[2] || 0) - (e.start[2] || 0)) < 1e-9) {
+        problems.push('ZERO_LENGTH_LINE');
+    }
+    if ((ent.type === 'LWPOLYLINE' && (!Array.isArray(e.vertices) || e.vertices.length < 2)) ||
+        (ent.type === 'SPLINE' && (!Array.isArray(e.controlPoints) || e.controlPoints.length < 2))) {
+        problems.push('DEGENERATE_POLYLINE');
+    }
+    if (!layerKeys.has(ent.layer)) problems.push('MISSING_LAYER');
+
+    if (isBlockReference(ent)) {
+        const legacy = ent.attributes?.entities;
+        if (legacy !== undefined && !legacyDataParses(legacy)) problems.push('CORRUPT_BLOCK_DATA');
+        else if (!blocks[ent.blockName] && legacy === undefined) problems.push('MISSING_BLOCK');
+    }
+    return problems;
+};
+
+// Katman eşleşmesi: entity.layer katman ID'si veya adı olabilir
+const getLayerKeys = (layers: Layer[]): Set<string> => {
+    const keys = new Set<string>([DEFAULT_LAYER.id, DEFAULT_LAYER.name]);
+    layers.forEach(layer => {
+        keys.add(layer.id);
+        keys.add(layer.name);
+    });
+    return keys;
+};
+
+/**
+ * Check the entities for corrupt data and report the problems per type
+ */
+export const auditEntities = (entities: Entity[], layers: Layer[], blocks: BlockTable): AuditReport => {
+    const layerKeys = getLayerKeys(layers);
+    const seenIds = new Set<number>();
+    const problems: AuditProblem[] = [];
+
+    entities.forEach(ent => {
+        if (seenIds.has(ent.id)) problems.push({ type: 'DUPLICATE_ID', entityId: ent.id, entityType: ent.type });
+        seenIds.add(ent.id);
+        inspectEntity(ent, layerKeys, blocks).forEach(type => problems.push({ type, entityId: ent.id, entityType: ent.type }));
+    });
+
+    const counts: Partial<Record<AuditProblemType, number>> = {};
+    problems.forEach(problem => {
+        counts[problem.type] = (counts[problem.type] || 0) + 1;
+    });
+    return { entityCount: entities.length, problems, counts };
+};
+
+/**
+ * Repair the problems found by auditEntities. Unrecoverable entities are deleted,
+ * duplicate IDs renumbered, missing layers moved to layer 0 and corrupt legacy block data dropped.
+ */
+export const repairEntities = (
+    entities: Entity[],
+    layers: Layer[],
+    blocks: BlockTable
+): { entities: Entity[]; fixed: number; deleted: number } => {
+    const layerKeys = getLayerKeys(layers);
+    const seenIds = new Set<number>();
+    let nextId = entities.reduce((max, ent) => (Number.isFinite(ent.id) ? Math.max(max, ent.id) : max), 0) + 1;
+    let fixed = 0;
+    let deleted = 0;
+    const result: Entity[] = [];
+
+    entities.forEach(original => {
+        let ent = original;
+        const problems = inspectEntity(ent, layerKeys, blocks);
+
+        // Bozuk eski blok verisi: blok tanımı yoksa referans çizilemez
+        const blockless = problems.includes('CORRUPT_BLOCK_DATA') && isBlockReference(ent) && !blocks[ent.blockName];
+        if (problems.some(type => DELETING_PROBLEMS.includes(type)) || blockless) {
+            fixed += problems.length + (seenIds.has(ent.id) ? 1 : 0);
+            deleted++;
+            return;
+        }
+
+        if (seenIds.has(ent.id) || !Number.isFinite(ent.id)) {
+            ent = { ...ent, id: nextId++ };
+            fixed++;
+        }
+        if (problems.includes('MISSING_LAYER')) {
+            ent = { ...ent, layer: DEFAULT_LAYER.id };
+            fixed++;
+        }
+        if (problems.includes('CORRUPT_BLOCK_DATA') && isBlockReference(ent)) {
+            const attributes = { ...ent.attributes };
+            delete attributes.entities;
+            ent = { ...ent, attributes: Object.keys(attributes).length > 0 ? attributes : undefined } as Entity;
+            fixed++;
+        }
+
+        seenIds.add(ent.id);
+        result.push(ent);
+    });
+
+    return { entities: result, fixed, deleted };
+};
@@ -0,0 +1,442 @@
+import type { Entity, Point, BlockReferenceEntity, TextEntity } from '../types/entities';
+import type { AttributeDefinition, BlockDefinition, BlockTable } from '../types/blocks';
+
+// Aktif çizimin blok tablosu - DrawingContext tarafından senkronize edilir.
+// Render, seçim ve snap fonksiyonları referansları bu tablo üzerinden çözer.
+let activeBlockTable: BlockTable = {};
+
+/**
+ * Set the block table used to resolve block references
+ */
+export const setActiveBlockTable = (table: BlockTable): void => {
+    activeBlockTable = table;
+};
+
+/**
+ * Get the block table of the active drawing
+ */
+export const getActiveBlockTable = (): BlockTable => activeBlockTable;
+
+/**
+ * Find a block definition by name
+ */
+export const getBlockDefinition = (name: string, table: BlockTable = activeBlockTable): BlockDefinition | undefined => {
+    return table[name];
+};
+
+/**
+ * Check whether an entity is a block reference (INSERT / BLOCK_REFERENCE)
+ */
+export const isBlockReference = (ent: Entity): ent is BlockReferenceEntity => {
+    return ent.type === 'BLOCK_REFERENCE' || ent.type === 'INSERT';
+};
+
+/**
+ * Check whether an entity is an attribute definition (ATTDEF text)
+ */
+export const isAttributeDefinitionText = (ent: Entity): ent is TextEntity => {
+    return ent.type === 'TEXT' && !!ent.attributeDefinition;
+};
+
+/**
+ * Convert an ATTDEF text into a block attribute definition (tag is the text itself)
+ */
+export const textToAttributeDefinition = (text: TextEntity): AttributeDefinition => ({
+    tag: text.text.trim().toUpperCase(),
+    prompt: text.attributeDefinition?.prompt || text.text.trim(),
+    defaultValue: text.attributeDefinition?.defaultValue || '',
+    position: [text.position[0], text.position[1], text.position[2] || 0],
+    height: text.height,
+    rotation: text.rotation || 0,
+    ...(text.attributeDefinition?.invisible ? { invisible: true } : {}),
+    ...(text.attributeDefinition?.constant ? { constant: true } : {}),
+});
+
+/**
+ * Convert a block attribute definition back into an ATTDEF text (block editor)
+ */
+export const attributeDefinitionToText = (attr: AttributeDefinition, id: number): TextEntity => ({
+    id,
+    type: 'TEXT',
+    text: attr.tag,
+    position: [attr.position[0], attr.position[1], attr.position[2] || 0],
+    height: attr.height,
+    rotation: attr.rotation || 0,
+    color: 'BYLAYER',
+    layer: '0',
+    attributeDefinition: {
+        prompt: attr.prompt,
+        defaultValue: attr.defaultValue,
+        ...(attr.invisible ? { invisible: true } : {}),
+        ...(attr.constant ? { constant: true } : {}),
+    },
+});
+
+/**
+ * Create a block definition from drawing entities (members are deep cloned).
+ * ATTDEF texts among the entities become the block's attribute definitions.
+ */
+export const createBlockDefinition = (
+    name: string,
+    basePoint: Point,
+    entities: Entity[],
+    description?: string
+): BlockDefinition => {
+    const attributes: AttributeDefinition[] = [];
+    const members: Entity[] = [];
+    entities.forEach(ent => {
+        if (isAttributeDefinitionText(ent)) {
+            const attr = textToAttributeDefinition(ent);
+            // Aynı TAG iki kez tanımlanamaz, ilk tanım geçerli
+            if (attr.tag && !attributes.some(a => a.tag === attr.tag)) attributes.push(attr);
+        } else {
+            members.push(ent);
+        }
+    });
+
+    return {
+        name,
+        basePoint: [basePoint[0], basePoint[1], basePoint[2] || 0],
+        entities: JSON.parse(JSON.stringify(members)),
+        ...(description ? { description } : {}),
+        ...(attributes.length > 0 ? { attributes } : {}),
+    };
+};
+
+/**
+ * Attribute definitions that are prompted for a value on insert (constant ones are not)
+ */
+export const getPromptedAttributes = (def: BlockDefinition | undefined): AttributeDefinition[] => {
+    return (def?.attributes || []).filter(attr => !attr.constant);
+};
+
+/**
+ * Build the initial attribute values of a new instance, filling missing tags with defaults
+ */
+export const getDefaultAttributeValues = (
+    def: BlockDefinition | undefined,
+    values: Record<string, string> = {}
+): Record<string, string> => {
+    const result: Record<string, string> = {};
+    getPromptedAttributes(def).forEach(attr => {
+        result[attr.tag] = values[attr.tag] ?? attr.defaultValue;
+    });
+    return result;
+};
+
+/**
+ * Count references to a block in an entity list
+ */
+export const countBlockReferences = (entities: Entity[], blockName: string): number => {
+    return entities.filter(ent => isBlockReference(ent) && ent.blockName === blockName).length;
+};
+
+// Blok uzayından dünya uzayına dönüşüm: P + R(rotation) * S(scale) * (p - basePoint)
+interface InstanceTransform {
+    position: Point;
+    basePoint: Point;
+    sx: number;
+    sy: number;
+    rotation: number;
+}
+
+const getInstanceTransform = (ref: BlockReferenceEntity, basePoint: Point): InstanceTransform => ({
+    position: ref.position,
+    basePoint,
+    sx: ref.scale?.[0] ?? 1,
+    sy: ref.scale?.[1] ?? 1,
+    rotation: ref.rotation || 0,
+});
+
+const mapPoint = (t: InstanceTransform, p: Point): Point => {
+    const x = (p[0] - t.basePoint[0]) * t.sx;
+    const y = (p[1] - t.basePoint[1]) * t.sy;
+    const cos = Math.cos(t.rotation);
+    const sin = Math.sin(t.rotation);
+    return [
+        t.position[0] + x * cos - y * sin,
+        t.position[1] + x * sin + y * cos,
+        (t.position[2] || 0) + ((p[2] || 0) - (t.basePoint[2] || 0)),
+    ];
+};
+
+const mapVector = (t: InstanceTransform, v: Point): Point => {
+    const x = v[0] * t.sx;
+    const y = v[1] * t.sy;
+    const cos = Math.cos(t.rotation);
+    const sin = Math.sin(t.rotation);
+    return [x * cos - y * sin, x * sin + y * cos, v[2] || 0];
+};
+
+const mapAngle = (t: InstanceTransform, angle: number): number => {
+    const v = mapVector(t, [Math.cos(angle), Math.sin(angle), 0]);
+    return Math.atan2(v[1], v[0]);
+};
+
+// Uzunluklar için ortalama ölçek (yarıçap, yazı yüksekliği vb.)
+const lengthScale = (t: InstanceTransform): number => Math.sqrt(Math.abs(t.sx * t.sy));
+
+const isMirrored = (t: InstanceTransform): boolean => t.sx * t.sy < 0;
+
+const transformMember = (ent: Entity, t: InstanceTransform): Entity => {
+    const e: any = JSON.parse(JSON.stringify(ent));
+    const s = lengthScale(t);
+
+    switch (e.type) {
+        case 'LINE':
+            e.start = mapPoint(t, e.start);
+            e.end = mapPoint(t, e.end);
+            break;
+        case 'LWPOLYLINE':
+            e.vertices = e.vertices.map((v: Point) => mapPoint(t, v));
+            if (e.width) e.width *= s;
+            if (e.constantWidth) e.constantWidth *= s;
+            if (e.startWidths) e.startWidths = e.startWidths.map((w: number) => w * s);
+            if (e.endWidths) e.endWidths = e.endWidths.map((w: number) => w * s);
+            // Aynalamada yay segmentlerinin yönü tersine döner
+            if (e.bulges && isMirrored(t)) e.bulges = e.bulges.map((b: number) => -b);
+            break;
+        case 'CIRCLE':
+            e.center = mapPoint(t, e.center);
+            if (Math.abs(Math.abs(t.sx) - Math.abs(t.sy)) > 1e-9) {
+                // Eşit olmayan ölçekte daire elipse dönüşür
+                return {
+                    ...e,
+                    type: 'ELLIPSE',
+                    rx: e.radius * Math.abs(t.sx),
+                    ry: e.radius * Math.abs(t.sy),
+                    rotation: t.rotation,
+                } as Entity;
+            }
+            e.radius *= Math.abs(t.sx);
+            break;
+        case 'ARC': {
+            e.center = mapPoint(t, e.center);
+            e.radius *= s;
+            const start = mapAngle(t, e.startAngle);
+            const end = mapAngle(t, e.endAngle);
+            // Aynalamada yay yönü tersine döner
+            e.startAngle = isMirrored(t) ? end : start;
+            e.endAngle = isMirrored(t) ? start : end;
+            break;
+        }
+        case 'ELLIPSE':
+            e.center = mapPoint(t, e.center);
+            e.rx *= Math.abs(t.sx);
+            e.ry *= Math.abs(t.sy);
+            e.rotation = mapAngle(t, e.rotation || 0);
+            break;
+        case 'POINT':
+            e.position = mapPoint(t, e.position);
+            break;
+        case 'SPLINE':
+            if (e.controlPoints) e.controlPoints = e.controlPoints.map((p: Point) => mapPoint(t, p));
+            if (e.fitPoints) e.fitPoints = e.fitPoints.map((p: Point) => mapPoint(t, p));
+            break;
+        case 'RAY':
+        case 'XLINE':
+            e.origin = mapPoint(t, e.origin);
+            e.direction = mapVector(t, e.direction);
+            break;
+        case 'DONUT':
+            e.center = mapPoint(t, e.center);
+            e.innerRadius *= s;
+            e.outerRadius *= s;
+            break;
+        case 'TEXT':
+        case 'MTEXT':
+            e.position = mapPoint(t, e.position);
+            e.height *= Math.abs(t.sy);
+            if (e.width) e.width *= Math.abs(t.sx);
+            e.rotation = mapAngle(t, e.rotation || 0);
+            break;
+        case 'TABLE':
+            e.position = mapPoint(t, e.position);
+            e.rowHeight *= Math.abs(t.sy);
+            e.colWidth *= Math.abs(t.sx);
+            if (e.rowHeights) e.rowHeights = e.rowHeights.map((h: number) => h * Math.abs(t.sy));
+            if (e.columnWidths) e.columnWidths = e.columnWidths.map((w: number) => w * Math.abs(t.sx));
+            e.rotation = mapAngle(t, e.rotation || 0);
+            break;
+        case 'DIMENSION':
+            e.start = mapPoint(t, e.start);
+            e.end = mapPoint(t, e.end);
+            if (e.dimLinePosition) e.dimLinePosition = mapPoint(t, e.dimLinePosition);
+            if (e.textPosition) e.textPosition = mapPoint(t, e.textPosition);
+            if (e.center) e.center = mapPoint(t, e.center);
+            if (e.textHeight) e.textHeight *= s;
+            if (e.arrowSize) e.arrowSize *= s;
+            if (e.rotation !== undefined) e.rotation = mapAngle(t, e.rotation);
+            break;
+        case 'HATCH':
+            if (e.boundary?.vertices) {
+                e.boundary.vertices = e.boundary.vertices.map((v: Point) => mapPoint(t, v));
+            }
+            if (e.islands) {
+                e.islands = e.islands.map((island: any) => ({
+                    ...island,
+                    vertices: island.vertices.map((v: Point) => mapPoint(t, v)),
+                }));
+            }
+            e.scale = (e.scale || 1) * s;
+            e.rotation = (e.rotation || 0) + t.rotation;
+            break;
+        case 'BLOCK_REFERENCE':
+        case 'INSERT': {
+            // İç içe blok: S(sx,sy)·R(r) = R(±r)·S(sx,sy) (eşit mutlak ölçekte tam)
+            const scale: Point = e.scale || [1, 1, 1];
+            e.position = mapPoint(t, e.position);
+            e.rotation = t.rotation + (isMirrored(t) ? -(e.rotation || 0) : (e.rotation || 0));
+            e.scale = [scale[0] * t.sx, scale[1] * t.sy, scale[2] ?? 1];
+            break;
+        }
+    }
+
+    return e as Entity;
+};
+
+// Öznitelik değerini örnek dönüşümüyle konumlanmış bir metne çevir
+const attributeToText = (attr: AttributeDefinition, ref: BlockReferenceEntity): TextEntity => {
+    const value = attr.constant ? attr.defaultValue : (ref.attributes?.[attr.tag] ?? attr.defaultValue);
+    const text = attributeDefinitionToText(attr, ref.id);
+    delete text.attributeDefinition;
+    return { ...text, text: value };
+};
+
+/**
+ * Resolve a block reference into its member entities in world coordinates.
+ * Visible attributes are included as TEXT entities carrying the instance values.
+ * Returns an empty list when the definition is missing.
+ */
+export const resolveBlockReference = (ref: BlockReferenceEntity, table: BlockTable = activeBlockTable): Entity[] => {
+    const def = table[ref.blockName];
+    if (!def) return [];
+    const t = getInstanceTransform(ref, def.basePoint);
+    const attributeTexts = (def.attributes || [])
+        .filter(attr => !attr.invisible)
+        .map(attr => attributeToText(attr, ref))
+        .filter(text => text.text !== '');
+    return [...def.entities, ...attributeTexts].map(member => transformMember(member, t));
+};
+
+/**
+ * Entities shown in the block editor: members and ATTDEF texts relative to the base point
+ */
+export const getBlockEditorEntities = (def: BlockDefinition): Entity[] => {
+    const t: InstanceTransform = { position: [0, 0, 0], basePoint: def.basePoint, sx: 1, sy: 1, rotation: 0 };
+    const attributeTexts = (def.attributes || []).map(attr => attributeDefinitionToText(attr, 0));
+    return [...def.entities, ...attributeTexts].map(member => transformMember(member, t));
+};
+
+// Sonsuz döngüye karşı iç içe blok derinlik sınırı
+const MAX_BLOCK_NESTING = 16;
+
+// İç içe referans üyeleri referansın katman/renk özelliklerini devralır (0 katmanı, BYBLOCK)
+const inheritBlockProperties = (member: Entity, ref: BlockReferenceEntity): Entity => {
+    if (member.layer !== '0' && member.color !== 'BYBLOCK') return member;
+    return {
+        ...member,
+        layer: member.layer === '0' ? ref.layer : member.layer,
+        color: member.color === 'BYBLOCK' ? ref.color : member.color,
+    } as Entity;
+};
+
+/**
+ * Resolve a block reference recursively into primitive entities in world coordinates.
+ * Nested references compose their scale/rotation; cyclic definitions are cut off.
+ */
+export const flattenBlockReference = (
+    ref: BlockReferenceEntity,
+    table: BlockTable = activeBlockTable,
+    visited: Set<string> = new Set()
+): Entity[] => {
+    if (visited.has(ref.blockName) || visited.size >= MAX_BLOCK_NESTING) return [];
+    const path = new Set(visited).add(ref.blockName);
+    const result: Entity[] = [];
+
+    resolveBlockReference(ref, table).forEach(member => {
+        if (isBlockReference(member)) {
+            flattenBlockReference(member, table, path).forEach(inner => {
+                result.push(inheritBlockProperties(inner, member));
+            });
+        } else {
+            result.push(member);
+        }
+    });
+
+    return result;
+};
+
+/**
+ * Primitive members of a block reference as they are output (export, plot, CAM):
+ * BYBLOCK members and BYLAYER members on layer 0 take the reference's color,
+ * layer 0 members its layer and, unless they set their own, its transparency
+ */
+export const getReferenceOutputMembers = (ref: BlockReferenceEntity, table: BlockTable): Entity[] => {
+    return flattenBlockReference(ref, table).map(member => {
+        const onDefaultLayer = !member.layer || member.layer === '0';
+        let color = member.color;
+        if (color === 'BYBLOCK' || ((!color || color === 'BYLAYER') && onDefaultLayer)) color = ref.color;
+        const transparency = member.transparency ?? (onDefaultLayer ? ref.transparency : undefined);
+        return { ...member, layer: onDefaultLayer ? ref.layer : member.layer, color, transparency } as Entity;
+    });
+};
+
+/**
+ * Check whether a block (directly or through nested references) references the target block
+ */
+export const blockReferencesBlock = (
+    blockName: string,
+    targetName: string,
+    table: BlockTable = activeBlockTable,
+    visited: Set<string> = new Set()
+): boolean => {
+    if (blockName === targetName) return true;
+    if (visited.has(blockName)) return false;
+    visited.add(blockName);
+    const def = table[blockName];
+    if (!def) return false;
+    return def.entities.some(member =>
+        isBlockReference(member) && blockReferencesBlock(member.blockName, targetName, table, visited)
+    );
+};
+
+/**
+ * Convert legacy block references (members serialized into attributes.entities)
+ * into block table definitions. References that cannot be parsed are left untouched.
+ */
+export const migrateLegacyBlockReferences = (
+    entities: Entity[],
+    table: BlockTable = {}
+): { entities: Entity[]; blocks: BlockTable; migrated: number } => {
+    const blocks: BlockTable = { ...table };
+    let migrated = 0;
+
+    const nextEntities = entities.map(ent => {
+        if (!isBlockReference(ent) || !ent.attributes?.entities) return ent;
+
+        let members: Entity[];
+        try {
+            members = JSON.parse(ent.attributes.entities);
+        } catch {
+            return ent;
+        }
+        if (!Array.isArray(members)) return ent;
+
+        // Eski formatta üyeler baz noktasına göre (0,0) kaydediliyordu
+        if (!blocks[ent.blockName]) {
+            blocks[ent.blockName] = createBlockDefinition(ent.blockName, [0, 0, 0], members);
+        }
+        const attributes = { ...ent.attributes };
+        delete attributes.entities;
+        migrated++;
+        return {
+            ...ent,
+            scale: ent.scale || [1, 1, 1],
+            rotation: ent.rotation || 0,
+            attributes: Object.keys(attributes).length > 0 ? attributes : undefined,
+        } as Entity;
+    });
+
+    return { entities: nextEntities, blocks, migrated };
+};
@@ -1,105 +1,124 @@
 import type { Entity, Point } from '../types/entities';
 
-import {
-    findEntityIntersections
-} from './intersectionUtils';
+import { tessellatePolyline } from './polylineUtils';
+import { sampleSpline } from './geometryUtils';
 
 /**
- * Interface representing a Ray hit result
+ * Island detection style (as AutoCAD HPISLANDDETECTION)
+ * normal: nested islands alternate, outer: only the outermost islands, ignore: no islands
  */
-interface RayHit {
-    point: Point;
-    distance: number;
-    entity: Entity;
+export type IslandDetectionStyle = 'normal' | 'outer' | 'ignore';
+
+export interface BoundaryOptions {
+    islandStyle?: IslandDetectionStyle;
+    gapTolerance?: number; // Bu mesafeden kısa açıklıklar kapalı sayılır (HPGAPTOL)
 }
 
-// Distance helper since geometryUtils distance2D might have different signature or not exported properly
-const dist = (p1: Point, p2: Point) => Math.sqrt(Math.pow(p1[0] - p2[0], 2) + Math.pow(p1[1] - p2[1], 2));
+export const DEFAULT_BOUNDARY_OPTIONS: Required<BoundaryOptions> = {
+    islandStyle: 'normal',
+    gapTolerance: 0
+};
 
 /**
- * Cast a ray from start point in direction
- * Returns the closest entity hit
+ * Closed loop of a boundary with the entities that form it
  */
-export const castRay = (
-    start: Point,
-    dir: Point, // Normalized direction
-    entities: Entity[]
-): RayHit | null => {
-    // Create a long line segment representing the ray
-    const MAX_DIST = 10000;
-    const rayEnd: Point = [
-        start[0] + dir[0] * MAX_DIST,
-        start[1] + dir[1] * MAX_DIST,
-        0
-    ];
-
-    const rayEntity: Entity = {
-        id: -1,
-        type: 'LINE',
-        start: start,
-        end: rayEnd,
-        layer: '0',
-        color: '#000000'
-    };
+export interface BoundaryLoop {
+    vertices: Point[];
+    sourceIds: number[];
+}
 
-    let closestHit: RayHit | null = null;
-    let minDiff = Infinity;
+/**
+ * Region found from an internal point: its outer loop and the detected islands
+ */
+export interface BoundaryRegion extends BoundaryLoop {
+    islands: BoundaryLoop[];
+}
 
-    // Filter relevant entities (visible, on un-frozen layers etc - assumed filtered by caller)
-    for (const ent of entities) {
-        if (ent.type !== 'LINE' && ent.type !== 'LWPOLYLINE' && ent.type !== 'ARC' && ent.type !== 'CIRCLE') {
-            continue;
-        }
+// Daire / elips / yay örnek sayısı (tam tur için)
+const CURVE_SEGMENTS = 64;
 
-        const intersections = findEntityIntersections(rayEntity, ent);
+// Boşluk köprüleri bir nesneye ait değildir
+const BRIDGE_SOURCE = -1;
 
-        for (const hit of intersections) {
-            // Calculate distance from start
-            const d = dist(hit.point, start);
+interface Segment {
+    a: Point;
+    b: Point;
+    source: number;
+    splits: Point[];
+}
 
-            // Filter very close hits (self-intersection or start point)
-            if (d < 0.001) continue;
+interface HalfEdge {
+    from: number;
+    to: number;
+    angle: number;
+    source: number;
+    twin: number;
+    visited: boolean;
+}
 
-            if (d < minDiff) {
-                minDiff = d;
-                closestHit = {
-                    point: hit.point,
-                    distance: d,
-                    entity: ent
-                };
-            }
-        }
-    }
+interface Face {
+    vertices: Point[];
+    sourceIds: number[];
+    area: number;
+    component: number;
+}
 
-    return closestHit;
-};
+// Distance helper since geometryUtils distance2D might have different signature or not exported properly
+const dist = (p1: Point, p2: Point) => Math.sqrt(Math.pow(p1[0] - p2[0], 2) + Math.pow(p1[1] - p2[1], 2));
 
-/**
- * Get the signed angle from vector A to vector B
- * Range: (-PI, PI]
- * Positive: Left turn (CCW)
- * Negative: Right turn (CW)
- */
-const getSignedAngle = (v1: Point, v2: Point): number => {
-    const dot = v1[0] * v2[0] + v1[1] * v2[1];
-    const cross = v1[0] * v2[1] - v1[1] * v2[0];
-    return Math.atan2(cross, dot);
-};
+const ellipsePoints = (center: Point, rx: number, ry: number, rotation: number): Point[] =>
+    Array.from({ length: CURVE_SEGMENTS + 1 }, (_, i): Point => {
+        const t = (i / CURVE_SEGMENTS) * Math.PI * 2;
+        const [x, y] = [rx * Math.cos(t), ry * Math.sin(t)];
+        return [
+            center[0] + x * Math.cos(rotation) - y * Math.sin(rotation),
+            center[1] + x * Math.sin(rotation) + y * Math.cos(rotation),
+            0
+        ];
+    });
 
 /**
- * Generate circle/ellipse boundary points
+ * Edge chains of an entity; closed chains repeat their first point
  */
-const generateCircleBoundaryPoints = (center: Point, radius: number, segments: number = 64): Point[] => {
-    const points: Point[] = [];
-    for (let i = 0; i < segments; i++) {
-        const angle = (i / segments) * Math.PI * 2;
-        points.push([
-            center[0] + Math.cos(angle) * radius,
-            center[1] + Math.sin(angle) * radius,
-            0
-        ]);
+const getEdgeChains = (ent: Entity): Point[][] => {
+    switch (ent.type) {
+        case 'LINE':
+            return [[ent.start, ent.end]];
+        case 'LWPOLYLINE':
+            return ent.vertices.length >= 2 ? [tessellatePolyline(ent, true)] : [];
+        case 'ARC': {
+            let sweep = ent.endAngle - ent.startAngle;
+            if (sweep <= 0) sweep += Math.PI * 2;
+            const segments = Math.max(4, Math.ceil(sweep / (Math.PI * 2) * CURVE_SEGMENTS));
+            return [Array.from({ length: segments + 1 }, (_, i): Point => {
+                const a = ent.startAngle + sweep * i / segments;
+                return [ent.center[0] + Math.cos(a) * ent.radius, ent.center[1] + Math.sin(a) * ent.radius, 0];
+            })];
+        }
+        case 'CIRCLE':
+            return [ellipsePoints(ent.center, ent.radius, ent.radius, 0)];
+        case 'ELLIPSE':
+            return [ellipsePoints(ent.center, ent.rx, ent.ry, ent.rotation || 0)];
+        case 'DONUT':
+            return ent.innerRadius > 0
+                ? [ellipsePoints(ent.center, ent.outerRadius, ent.outerRadius, 0), ellipsePoints(ent.center, ent.innerRadius, ent.innerRadius, 0)]
+                : [ellipsePoints(ent.center, ent.outerRadius, ent.outerRadius, 0)];
+        case 'SPLINE': {
+            const points = sampleSpline(ent);
+            if (points.length < 2) return [];
+            return [ent.closed ? [...points, points[0]] : points];
+        }
+        default:
+            return [];
     }
-    return points;
+};
+
+const closestOnSegment = (p: Point, a: Point, b: Point): Point => {
+    const dx = b[0] - a[0];
+    const dy = b[1] - a[1];
+    const lengthSq = dx * dx + dy * dy;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSq)) : 0;
+    return [a[0] + dx * t, a[1] + dy * t, 0];
 };
 
 /**
@@ -122,374 +141,309 @@ const isPointInsidePolygon = (point: Point, polygon: Point[]): boolean => {
     return inside;
 };
 
-/**
- * Check if point is inside a circle
- */
-const isPointInsideCircle = (point: Point, center: Point, radius: number): boolean => {
-    const dx = point[0] - center[0];
-    const dy = point[1] - center[1];
-    return (dx * dx + dy * dy) < (radius * radius);
+const signedArea = (polygon: Point[]): number => {
+    let area = 0;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        area += (polygon[j][0] * polygon[i][1]) - (polygon[i][0] * polygon[j][1]);
+    }
+    return area / 2;
 };
 
 /**
- * Find the smallest closed loop surrounding the point
+ * Bridges closing gaps up to `tolerance`: free chain ends join the nearest free end,
+ * otherwise the nearest point of another entity
  */
-// Helper to get direction vector between two points
-const getDir = (p1: Point, p2: Point): Point => {
-    const dx = p2[0] - p1[0];
-    const dy = p2[1] - p1[1];
-    const len = Math.sqrt(dx * dx + dy * dy);
-    if (len < 0.000001) return [0, 0, 0];
-    return [dx / len, dy / len, 0];
+const bridgeGaps = (
+    chains: { points: Point[]; source: number }[],
+    segments: Segment[],
+    tolerance: number,
+    nodeTolerance: number
+): Segment[] => {
+    const ends: { point: Point; chain: number }[] = [];
+    chains.forEach((chain, index) => {
+        const first = chain.points[0];
+        const last = chain.points[chain.points.length - 1];
+        if (dist(first, last) <= nodeTolerance) return;
+        ends.push({ point: first, chain: index }, { point: last, chain: index });
+    });
+
+    // Başka bir nesneye değen uçlar serbest değildir
+    const free = ends.filter(end => !segments.some(s =>
+        s.source !== chains[end.chain].source && dist(end.point, closestOnSegment(end.point, s.a, s.b)) <= nodeTolerance
+    ));
+
+    const bridges: Segment[] = [];
+    const used = new Set<number>();
+    const pairs: { i: number; j: number; d: number }[] = [];
+    for (let i = 0; i < free.length; i++) {
+        for (let j = i + 1; j < free.length; j++) {
+            // Aynı zincirin iki ucu yalnızca zincir tek doğru değilse birleşir
+            if (free[i].chain === free[j].chain && chains[free[i].chain].points.length < 3) continue;
+            const d = dist(free[i].point, free[j].point);
+            if (d <= tolerance) pairs.push({ i, j, d });
+        }
+    }
+    pairs.sort((p, q) => p.d - q.d).forEach(({ i, j }) => {
+        if (used.has(i) || used.has(j)) return;
+        used.add(i);
+        used.add(j);
+        bridges.push({ a: free[i].point, b: free[j].point, source: BRIDGE_SOURCE, splits: [] });
+    });
+
+    free.forEach((end, index) => {
+        if (used.has(index)) return;
+        let best: Point | null = null;
+        let bestDistance = tolerance;
+        segments.forEach(s => {
+            if (s.source === chains[end.chain].source) return;
+            const p = closestOnSegment(end.point, s.a, s.b);
+            const d = dist(end.point, p);
+            if (d <= bestDistance) {
+                bestDistance = d;
+                best = p;
+            }
+        });
+        if (best) bridges.push({ a: end.point, b: best, source: BRIDGE_SOURCE, splits: [] });
+    });
+
+    return bridges;
 };
 
 /**
- * Find the smallest closed loop surrounding the point
- * Robust implementation handling intersections and midpoint starts
+ * Record split points where segments cross or an end point touches another segment
  */
-export const findBoundaryFromPoint = (
-    startPoint: Point,
-    entities: Entity[]
-): Point[] | null => {
-    // 0. Filter visible entities
-    const visibleEntities = entities.filter(e =>
-        e.visible !== false &&
-        (e.type === 'LINE' || e.type === 'LWPOLYLINE' || e.type === 'CIRCLE' || e.type === 'ARC')
-    );
-
-    // Initial check for point inside known closed shapes
-    for (const ent of visibleEntities) {
-        if (ent.type === 'CIRCLE') {
-            if (isPointInsideCircle(startPoint, ent.center, ent.radius)) {
-                return generateCircleBoundaryPoints(ent.center, ent.radius);
-            }
-        }
-        else if (ent.type === 'LWPOLYLINE' && ent.closed && ent.vertices.length >= 3) {
-            if (isPointInsidePolygon(startPoint, ent.vertices)) {
-                return [...ent.vertices];
-            }
-        }
-    }
-
-    // 1. Initial Ray Cast
-    const rayDir: Point = [1, 0, 0];
-    const initialHit = castRay(startPoint, rayDir, visibleEntities);
-
-    if (!initialHit) return null;
-
-    // Check if we hit a closed shape directly (Circle, Closed Polyline)
-    // Note: This logic assumes we are *inside* the shape. 
-    // Usually castRay hits the boundary. If we are inside, we hit the wall.
-    // We trace the wall.
-
-    // 2. Setup Traversal
-    // We need to pick an initial direction along the hit entity.
-    // "Left Wall Following" (CCW).
-    // Tangent T such that Ray x T > 0?
-    // Ray (1,0). T(0,1) -> 1. T(0,-1) -> -1.
-    // If we want Area on Left, and Ray comes from Inside-Left to Wall-Right.
-    // Facing Wall. Left hand on wall -> We move "Up" (Screen Y Decrease, -90 deg).
-    // Ray x Up = -1. 
-    // So we choose T that minimizes Signed Angle with Ray.
-
-    // Candidate Directions from Hit Point
-    let startEntity = initialHit.entity;
-    let currentPoint = initialHit.point;
-    let candidates: { dir: Point, ent: Entity }[] = [];
-
-    const addLineCandidates = (p: Point, ent: any) => {
-        if (ent.type !== 'LINE') return;
-        const d1 = getDir(p, ent.start);
-        const d2 = getDir(p, ent.end);
-        if (d1[0] !== 0 || d1[1] !== 0) candidates.push({ dir: d1, ent });
-        if (d2[0] !== 0 || d2[1] !== 0) candidates.push({ dir: d2, ent });
+const splitIntersections = (segments: Segment[], tolerance: number) => {
+    const bounds = segments.map(s => ({
+        minX: Math.min(s.a[0], s.b[0]) - tolerance,
+        maxX: Math.max(s.a[0], s.b[0]) + tolerance,
+        minY: Math.min(s.a[1], s.b[1]) - tolerance,
+        maxY: Math.max(s.a[1], s.b[1]) + tolerance
+    }));
+    const order = segments.map((_, i) => i).sort((i, j) => bounds[i].minX - bounds[j].minX);
+
+    // Uç noktada buluşan ardışık parçalar bölünmez
+    const touch = (p: Point, s: Segment) => {
+        if (dist(p, s.a) <= tolerance || dist(p, s.b) <= tolerance) return;
+        const q = closestOnSegment(p, s.a, s.b);
+        if (dist(p, q) <= tolerance) s.splits.push(q);
     };
 
-    if (startEntity.type === 'LINE') {
-        addLineCandidates(currentPoint, startEntity);
-    } else if (startEntity.type === 'LWPOLYLINE') {
-        // Find which segment we are on
-        const vertices = startEntity.vertices;
-        for (let i = 0; i < vertices.length - 1; i++) {
-            // simplified check: is point on segment?
-            // Since we just hit it, we assume we can find the segment.
-            // Check if currentPoint is on this segment
-            // We can use isPointOnSegment from interutils, but avoiding import overhead here if possible
-            // Let's just blindly add directions to adjacent vertices if close?
-            // Or better: Project point?
-            // Let's assume the hit point is exactly on the line.
-            // We just strictly follow the segment directions.
-            // For now, simpler: Treat polylines as individual segments in later steps.
-            // For Start, we iterate segments.
-            if (Math.abs((currentPoint[1] - vertices[i][1]) * (vertices[i + 1][0] - vertices[i][0]) - (currentPoint[0] - vertices[i][0]) * (vertices[i + 1][1] - vertices[i][1])) < 0.001) {
-                // On line defined by segment. Check bounds.
-                if (Math.min(vertices[i][0], vertices[i + 1][0]) <= currentPoint[0] + 0.001 &&
-                    Math.max(vertices[i][0], vertices[i + 1][0]) >= currentPoint[0] - 0.001 &&
-                    Math.min(vertices[i][1], vertices[i + 1][1]) <= currentPoint[1] + 0.001 &&
-                    Math.max(vertices[i][1], vertices[i + 1][1]) >= currentPoint[1] - 0.001) {
-                    candidates.push({ dir: getDir(currentPoint, vertices[i]), ent: startEntity });
-                    candidates.push({ dir: getDir(currentPoint, vertices[i + 1]), ent: startEntity });
-                }
-            }
-        }
-        if (startEntity.closed && vertices.length > 2) {
-            const vLast = vertices[vertices.length - 1];
-            const vFirst = vertices[0];
-            // Check closing segment
-            if (Math.abs((currentPoint[1] - vLast[1]) * (vFirst[0] - vLast[0]) - (currentPoint[0] - vLast[0]) * (vFirst[1] - vLast[1])) < 0.001) {
-                if (Math.min(vLast[0], vFirst[0]) <= currentPoint[0] + 0.001 &&
-                    Math.max(vLast[0], vFirst[0]) >= currentPoint[0] - 0.001 &&
-                    Math.min(vLast[1], vFirst[1]) <= currentPoint[1] + 0.001 &&
-                    Math.max(vLast[1], vFirst[1]) >= currentPoint[1] - 0.001) {
-                    candidates.push({ dir: getDir(currentPoint, vLast), ent: startEntity });
-                    candidates.push({ dir: getDir(currentPoint, vFirst), ent: startEntity });
+    // X ekseninde süpürme: yalnızca sınır kutuları çakışan çiftler denenir
+    for (let oi = 0; oi < order.length; oi++) {
+        const i = order[oi];
+        const s1 = segments[i];
+        for (let oj = oi + 1; oj < order.length && bounds[order[oj]].minX <= bounds[i].maxX; oj++) {
+            const j = order[oj];
+            if (bounds[j].minY > bounds[i].maxY || bounds[j].maxY < bounds[i].minY) continue;
+            const s2 = segments[j];
+
+            const d1 = [s1.b[0] - s1.a[0], s1.b[1] - s1.a[1]];
+            const d2 = [s2.b[0] - s2.a[0], s2.b[1] - s2.a[1]];
+            const denom = d1[0] * d2[1] - d1[1] * d2[0];
+            if (Math.abs(denom) > 1e-12) {
+                const t = ((s2.a[0] - s1.a[0]) * d2[1] - (s2.a[1] - s1.a[1]) * d2[0]) / denom;
+                const u = ((s2.a[0] - s1.a[0]) * d1[1] - (s2.a[1] - s1.a[1]) * d1[0]) / denom;
+                if (t > 0 && t < 1 && u > 0 && u < 1) {
+                    const p: Point = [s1.a[0] + d1[0] * t, s1.a[1] + d1[1] * t, 0];
+                    s1.splits.push(p);
+                    s2.splits.push(p);
                 }
             }
-        }
-    } else if (startEntity.type === 'CIRCLE') {
-        // Find tangent directions
-        // Tangent vector (-dy, dx) and (dy, -dx) from radius vector
-        const dx = currentPoint[0] - startEntity.center[0];
-        const dy = currentPoint[1] - startEntity.center[1];
-        candidates.push({ dir: [-dy, dx, 0], ent: startEntity }); // CCW
-        candidates.push({ dir: [dy, -dx, 0], ent: startEntity }); // CW
-    }
-
-    if (candidates.length === 0) return null;
-
-    // Pick 'Best' Start Direction (Minimize Signed Angle from Ray)
-    // Ray is Incoming. We want "Left" turn.
-    // getSignedAngle(Ray, Candidate). Minimize.
-    let bestStart = candidates[0];
-    let minStartAngle = Infinity;
-
-    for (const c of candidates) {
-        if (c.dir[0] === 0 && c.dir[1] === 0) continue;
-        const angle = getSignedAngle(rayDir, c.dir);
-        if (angle < minStartAngle) {
-            minStartAngle = angle;
-            bestStart = c;
+            // T birleşimleri ve çakışan doğrular uç noktalardan bölünür
+            touch(s1.a, s2);
+            touch(s1.b, s2);
+            touch(s2.a, s1);
+            touch(s2.b, s1);
         }
     }
+};
 
-    let currentDir = bestStart.dir;
-    let currentEnt = bestStart.ent;
-    const path: Point[] = [currentPoint];
-    const initialPoint = currentPoint;
-
-    // 3. Traversal Loop
-    for (let step = 0; step < 1000; step++) {
-        // Find "Next Event" along currentEnt in currentDir.
-        // Events:
-        // A. Intersection with ANY other entity.
-        // B. Endpoint/Vertex of currentEnt.
-
-        let bestDist = Infinity;
-        let nextP: Point | null = null;
-
-        // Check Endpoints (Vertex)
-        if (currentEnt.type === 'LINE') {
-            // Project end? No, just check if end is in direction
-            const vecToEnd = [currentEnt.end[0] - currentPoint[0], currentEnt.end[1] - currentPoint[1], 0];
-            const dot = vecToEnd[0] * currentDir[0] + vecToEnd[1] * currentDir[1];
-            if (dot > 0.001) {
-                const d = Math.sqrt(vecToEnd[0] * vecToEnd[0] + vecToEnd[1] * vecToEnd[1]);
-                if (d < bestDist) {
-                    bestDist = d;
-                    nextP = currentEnt.end;
-                }
-            }
-            const vecToStart = [currentEnt.start[0] - currentPoint[0], currentEnt.start[1] - currentPoint[1], 0];
-            const dotS = vecToStart[0] * currentDir[0] + vecToStart[1] * currentDir[1];
-            if (dotS > 0.001) {
-                const d = Math.sqrt(vecToStart[0] * vecToStart[0] + vecToStart[1] * vecToStart[1]);
-                if (d < bestDist) {
-                    bestDist = d;
-                    nextP = currentEnt.start;
-                }
-            }
-        } else if (currentEnt.type === 'LWPOLYLINE') {
-            // Find next vertex in direction on current Segment
-            // Simply iterate all vertices?
-            const vertices = currentEnt.vertices; // Plus closed loop handled by index logic
-            const n = vertices.length;
-            for (let i = 0; i < n; i++) {
-                const v = vertices[i];
-                const vec = [v[0] - currentPoint[0], v[1] - currentPoint[1], 0];
-                const dot = vec[0] * currentDir[0] + vec[1] * currentDir[1];
-                const distV = Math.sqrt(vec[0] * vec[0] + vec[1] * vec[1]);
-
-                // Must be on the line of travel?
-                // Dot product alone isn't enough, must be collinear. Use cross product
-                const cross = currentDir[0] * vec[1] - currentDir[1] * vec[0];
-                if (dot > 0.001 && Math.abs(cross) < 0.1 && distV < bestDist) { // Loose tolerance for collinear check
-                    bestDist = distV;
-                    nextP = v;
-                }
-            }
-        }
-
-        // Check Intersections with ALL other entities
-        for (const other of visibleEntities) {
-            if (other.id === currentEnt.id) continue;
-
-            // Find intersections
-            // We need a helper that returns points
-            const hits = findEntityIntersections(currentEnt, other);
-            for (const hit of hits) {
-                const vec = [hit.point[0] - currentPoint[0], hit.point[1] - currentPoint[1], 0];
-                const dot = vec[0] * currentDir[0] + vec[1] * currentDir[1];
-                const d = Math.sqrt(vec[0] * vec[0] + vec[1] * vec[1]);
-
-                if (dot > 0.001 && d < bestDist - 0.001) { // Prefer closer intersection
-                    bestDist = d;
-                    nextP = hit.point;
-                }
+/**
+ * Faces of the planar graph formed by the split segments. Bounded faces run counter-clockwise
+ * (positive area); each connected component also has one clockwise outer face.
+ */
+const buildFaces = (segments: Segment[], tolerance: number): Face[] => {
+    // Düğümler tolerans ızgarasında birleştirilir
+    const nodes: Point[] = [];
+    const grid = new Map<number, Map<number, number[]>>();
+    const nodeOf = (p: Point): number => {
+        const [cx, cy] = [Math.floor(p[0] / tolerance), Math.floor(p[1] / tolerance)];
+        for (let dx = -1; dx <= 1; dx++) {
+            const column = grid.get(cx + dx);
+            if (!column) continue;
+            for (let dy = -1; dy <= 1; dy++) {
+                const found = column.get(cy + dy)?.find(n => dist(nodes[n], p) <= tolerance);
+                if (found !== undefined) return found;
             }
         }
+        nodes.push(p);
+        if (!grid.has(cx)) grid.set(cx, new Map());
+        const column = grid.get(cx)!;
+        if (!column.has(cy)) column.set(cy, []);
+        column.get(cy)!.push(nodes.length - 1);
+        return nodes.length - 1;
+    };
 
-        if (!nextP) {
-            // Dead End
-            return null;
-        }
-
-        // Move
-        currentPoint = nextP;
-        path.push(currentPoint);
-
-        // Check Closure
-        if (dist(currentPoint, initialPoint) < 0.01 && step > 0) {
-            return path;
+    const edges = new Map<string, { u: number; v: number; source: number }>();
+    segments.forEach(s => {
+        const dx = s.b[0] - s.a[0];
+        const dy = s.b[1] - s.a[1];
+        const lengthSq = dx * dx + dy * dy || 1;
+        const chain = [s.a, ...s.splits, s.b]
+            .map(p => ({ p, t: ((p[0] - s.a[0]) * dx + (p[1] - s.a[1]) * dy) / lengthSq }))
+            .sort((p, q) => p.t - q.t)
+            .map(({ p }) => nodeOf(p));
+        for (let i = 0; i < chain.length - 1; i++) {
+            const [u, v] = [chain[i], chain[i + 1]];
+            if (u === v) continue;
+            const key = u < v ? `${u},${v}` : `${v},${u}`;
+            const existing = edges.get(key);
+            // Çakışan kenarlarda gerçek nesne köprüye tercih edilir
+            if (!existing || existing.source === BRIDGE_SOURCE) edges.set(key, { u, v, source: s.source });
         }
+    });
+
+    // Açık uçlu kenarlar (çıkıntılar) bölge sınırlamaz
+    const adjacency = nodes.map(() => new Set<string>());
+    edges.forEach((edge, key) => {
+        adjacency[edge.u].add(key);
+        adjacency[edge.v].add(key);
+    });
+    const stack = nodes.map((_, n) => n).filter(n => adjacency[n].size === 1);
+    while (stack.length > 0) {
+        const n = stack.pop()!;
+        if (adjacency[n].size !== 1) continue;
+        const key = [...adjacency[n]][0];
+        const edge = edges.get(key)!;
+        const other = edge.u === n ? edge.v : edge.u;
+        edges.delete(key);
+        adjacency[n].delete(key);
+        adjacency[other].delete(key);
+        if (adjacency[other].size === 1) stack.push(other);
+    }
 
-        // At NextPoint, determine Next Direction
-        // Find all outgoing vectors from this point (candidates)
-        candidates = [];
-
-        // Helper to add candidates from an entity at a point
-        const collectFromEnt = (ent: Entity, p: Point) => {
-            if (ent.type === 'LINE') {
-                const d1 = getDir(p, ent.start);
-                const d2 = getDir(p, ent.end);
-                // Check if length > 0
-                if (d1[0] !== 0 || d1[1] !== 0) candidates.push({ dir: d1, ent });
-                if (d2[0] !== 0 || d2[1] !== 0) candidates.push({ dir: d2, ent });
-            } else if (ent.type === 'LWPOLYLINE') {
-                // Add directions to adjacent vertices + segment directions
-                // Just iterate all vertices and see if we are close to segment?
-                // Simplification for Polyline at intersection:
-                // Treat segments as lines.
-                // Find which segment we are on or vertex we are at.
-                const vs = ent.vertices;
-                const n = vs.length;
-                for (let i = 0; i < n; i++) {
-                    const p1 = vs[i];
-                    const p2 = vs[(i + 1) % n];
-                    if (!ent.closed && i === n - 1) break;
-
-                    // Check if P is on segment p1-p2
-                    // We use generous tolerance
-                    const dx = p2[0] - p1[0]; const dy = p2[1] - p1[1];
-                    const length = Math.sqrt(dx * dx + dy * dy);
-                    if (length < 0.001) continue;
-
-                    // Project P onto line
-                    const t = ((p[0] - p1[0]) * dx + (p[1] - p1[1]) * dy) / (length * length);
-                    // Check perpendicular distance?
-                    // Assuming we are AT the point, we just check if t is in [0,1]
-                    // And point matches.
-                    // But simpler: just add directions to p1 and p2 from p
-                    // IF p is on segment.
-
-                    // Distance check
-                    const px = p1[0] + t * dx;
-                    const py = p1[1] + t * dy;
-                    const distToLine = Math.sqrt((p[0] - px) * (p[0] - px) + (p[1] - py) * (p[1] - py));
-
-                    if (distToLine < 0.01 && t >= -0.001 && t <= 1.001) {
-                        // On segment
-                        const dir1 = getDir(p, p1);
-                        const dir2 = getDir(p, p2);
-                        if (dir1[0] !== 0 || dir1[1] !== 0) candidates.push({ dir: dir1, ent });
-                        if (dir2[0] !== 0 || dir2[1] !== 0) candidates.push({ dir: dir2, ent });
-                    }
-                }
-            }
-            // Circle support omitted for brevity in this complex logic, assume converted or precise
-        };
-
-        // 1. Current Entity continues?
-        collectFromEnt(currentEnt, currentPoint);
-
-        // 2. Intersecting Entities?
-        // Identify all entities passing through currentPoint
-        for (const ent of visibleEntities) {
-            if (ent.id === currentEnt.id) continue;
-            // Check distance to entity
-            // Using isPointOnSegment equivalent
-            // or just distance to start/end if LINE (optimization)
-            if (ent.type === 'LINE') {
-                const dS = dist(currentPoint, ent.start);
-                const dE = dist(currentPoint, ent.end);
-                if (dS < 0.01 || dE < 0.01) {
-                    collectFromEnt(ent, currentPoint);
-                    continue;
-                }
-                // Check if point on middle
-                const totalL = dist(ent.start, ent.end);
-                if (Math.abs((dS + dE) - totalL) < 0.01) {
-                    collectFromEnt(ent, currentPoint);
+    const halfEdges: HalfEdge[] = [];
+    const outgoing: number[][] = nodes.map(() => []);
+    edges.forEach(({ u, v, source }) => {
+        const index = halfEdges.length;
+        const angle = Math.atan2(nodes[v][1] - nodes[u][1], nodes[v][0] - nodes[u][0]);
+        halfEdges.push({ from: u, to: v, angle, source, twin: index + 1, visited: false });
+        halfEdges.push({ from: v, to: u, angle: Math.atan2(nodes[u][1] - nodes[v][1], nodes[u][0] - nodes[v][0]), source, twin: index, visited: false });
+        outgoing[u].push(index);
+        outgoing[v].push(index + 1);
+    });
+    outgoing.forEach(list => list.sort((a, b) => halfEdges[a].angle - halfEdges[b].angle));
+
+    // Bağlı bileşenler (adalar sınırdan ayrı bileşenlerdir)
+    const component = nodes.map(() => -1);
+    let components = 0;
+    nodes.forEach((_, start) => {
+        if (component[start] >= 0 || outgoing[start].length === 0) return;
+        const queue = [start];
+        component[start] = components;
+        while (queue.length > 0) {
+            const n = queue.pop()!;
+            outgoing[n].forEach(h => {
+                const to = halfEdges[h].to;
+                if (component[to] < 0) {
+                    component[to] = components;
+                    queue.push(to);
                 }
-            } else if (ent.type === 'LWPOLYLINE') {
-                // Check if point on polyline (Reuse logic inside collectFromEnt implicitly?)
-                // We call collectFromEnt, it checks segments.
-                collectFromEnt(ent, currentPoint);
-            }
+            });
         }
-
-        // Choose Best Vector
-        // We want: Minimize Angle(Incoming, Outgoing)
-        // Incoming = currentDir (forward).
-        // Angle range (-PI, PI].
-        // Ideally we turn Left (-90).
-        // Minimize Signed Angle.
-
-        let bestCand: { dir: Point, ent: Entity } | null = null;
-        let minAngle = Infinity;
-
-        // Start Angle Reference: currentDir
-        // But we want relative turn.
-        // getSignedAngle(currentDir, candidateDir)
-
-        for (const cand of candidates) {
-            // Filter: Don't go back exactly the way we came (U-turn) unless necessary?
-            // Angle 180 or -180.
-            // Dot product close to -1.
-            const dot = cand.dir[0] * currentDir[0] + cand.dir[1] * currentDir[1];
-            if (dot < -0.99) continue; // Skip strict reversal
-
-            const angle = getSignedAngle(currentDir, cand.dir);
-
-            // We want the most negative angle (Sharpest Left Turn).
-            // -179 is better than -90. -90 better than 0. 0 better than 90.
-            // But wait, standard angle range (-PI, PI].
-            // -179 is very left. +179 is very right.
-            // So pure minimization works.
-
-            if (angle < minAngle) {
-                minAngle = angle;
-                bestCand = cand;
-            }
+        components++;
+    });
+
+    // Varış düğümünde ikiz kenardan saat yönündeki ilk kenarla devam edilir (yüz solda kalır)
+    const faces: Face[] = [];
+    halfEdges.forEach((start, startIndex) => {
+        if (start.visited) return;
+        const vertices: Point[] = [];
+        const sourceIds = new Set<number>();
+        let h = startIndex;
+        while (!halfEdges[h].visited) {
+            const edge = halfEdges[h];
+            edge.visited = true;
+            vertices.push(nodes[edge.from]);
+            if (edge.source !== BRIDGE_SOURCE) sourceIds.add(edge.source);
+            const around = outgoing[edge.to];
+            h = around[(around.indexOf(edge.twin) - 1 + around.length) % around.length];
         }
-
-        if (!bestCand) {
-            // Try U-turn?
-            return null;
+        if (vertices.length >= 3) {
+            faces.push({ vertices, sourceIds: [...sourceIds], area: signedArea(vertices), component: component[start.from] });
         }
+    });
 
-        currentDir = bestCand.dir;
-        currentEnt = bestCand.ent;
-    }
+    return faces;
+};
 
-    return null;
+/**
+ * Find the smallest closed loop surrounding the point
+ */
+export const findBoundaryFromPoint = (
+    startPoint: Point,
+    entities: Entity[],
+    options: BoundaryOptions = {}
+): Point[] | null => findBoundaryRegion(startPoint, entities, options)?.vertices ?? null;
+
+/**
+ * Find the region surrounding the point in the planar graph of all visible edges (lines,
+ * polylines, arcs, circles, ellipses, splines, donuts): the smallest face containing it,
+ * with the closed outlines inside it as islands per the detection style. Gaps up to
+ * `gapTolerance` are bridged.
+ */
+export const findBoundaryRegion = (
+    startPoint: Point,
+    entities: Entity[],
+    options: BoundaryOptions = {}
+): BoundaryRegion | null => {
+    const { islandStyle, gapTolerance } = { ...DEFAULT_BOUNDARY_OPTIONS, ...options };
+
+    const chains = entities
+        .filter(e => e.visible !== false)
+        .flatMap(e => getEdgeChains(e).map(points => ({ points, source: e.id })))
+        .filter(chain => chain.points.length >= 2);
+    if (chains.length === 0) return null;
+
+    // Düğüm toleransı çizim boyutuna göre
+    let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+    chains.forEach(chain => chain.points.forEach(p => {
+        minX = Math.min(minX, p[0]);
+        minY = Math.min(minY, p[1]);
+        maxX = Math.max(maxX, p[0]);
+        maxY = Math.max(maxY, p[1]);
+    }));
+    const nodeTolerance = Math.max(maxX - minX, maxY - minY, 1) * 1e-9;
+
+    const segments: Segment[] = chains.flatMap(chain => chain.points.slice(1).map((b, i): Segment => ({
+        a: chain.points[i], b, source: chain.source, splits: []
+    }))).filter(s => dist(s.a, s.b) > nodeTolerance);
+    if (gapTolerance > 0) segments.push(...bridgeGaps(chains, segments, gapTolerance, nodeTolerance));
+
+    splitIntersections(segments, nodeTolerance);
+    const faces = buildFaces(segments, nodeTolerance);
+
+    // Noktayı içeren en küçük sınırlı yüz
+    const outer = faces
+        .filter(face => face.area > 0 && isPointInsidePolygon(startPoint, face.vertices))
+        .reduce<Face | null>((best, face) => !best || face.area < best.area ? face : best, null);
+    if (!outer) return null;
+
+    // Adalar: bölgenin içinde kalan diğer bileşenlerin dış sınırları
+    const candidates = islandStyle === 'ignore' ? [] : faces.filter(face =>
+        face.area < 0 &&
+        face.component !== outer.component &&
+        isPointInsidePolygon(face.vertices[0], outer.vertices) &&
+        !isPointInsidePolygon(startPoint, face.vertices)
+    );
+    // Normal stilde iç içe adalar çift/tek kuralıyla dönüşümlü taranır; dış stilde yalnızca en dıştakiler kalır
+    const islands = islandStyle === 'outer'
+        ? candidates.filter(face => !candidates.some(other => other !== face && isPointInsidePolygon(face.vertices[0], other.vertices)))
+        : candidates;
+
+    return {
+        vertices: outer.vertices,
+        sourceIds: outer.sourceIds,
+        islands: islands.map(face => ({ vertices: face.vertices, sourceIds: face.sourceIds }))
+    };
 };
@@ -0,0 +1,787 @@
+import type { Entity, Point } from '../types/entities';
+import type {
+    GeometricConstraint,
+    GeometricConstraintType,
+    ConstraintPointRef,
+    ConstraintEntityRef,
+    DimensionalConstraint,
+    DimensionalConstraintType,
+} from '../types/constraints';
+import { closestPointOnEntity, distancePointToLineSegment } from './geometryUtils';
+import { calculateDimensionGeometry, calculateAngularDimensionGeometry } from './dimensionUtils';
+
+// Parametrik geometrik kısıtlar: referans çözümleme, seçim yardımcıları ve sayısal çözücü
+
+type Vec = [number, number];
+
+/**
+ * Entity ids a constraint depends on
+ */
+export const getConstraintEntityIds = (constraint: GeometricConstraint): number[] => {
+    const ids = new Set<number>(constraint.entities.map(ref => ref.entityId));
+    constraint.points?.forEach(ref => ids.add(ref.entityId));
+    return Array.from(ids);
+};
+
+/**
+ * Drop constraints that reference entities which no longer exist
+ */
+export const pruneConstraints = (constraints: GeometricConstraint[], entities: Entity[]): GeometricConstraint[] => {
+    const ids = new Set(entities.map(ent => ent.id));
+    return constraints.filter(c => getConstraintEntityIds(c).every(id => ids.has(id)));
+};
+
+// --- Geometri erişimi ---
+
+const polylineSegment = (ent: any, segment: number): [Point, Point] | null => {
+    const vertices: Point[] = ent.vertices || [];
+    if (segment < 0 || segment >= vertices.length) return null;
+    const next = segment + 1 < vertices.length ? segment + 1 : (ent.closed ? 0 : -1);
+    if (next < 0) return null;
+    return [vertices[segment], vertices[next]];
+};
+
+const getPoint = (ent: any, ref: ConstraintPointRef): Vec | null => {
+    if (!ent) return null;
+    switch (ref.kind) {
+        case 'start':
+            if (ent.type === 'LINE') return [ent.start[0], ent.start[1]];
+            if (ent.type === 'ARC') return [ent.center[0] + ent.radius * Math.cos(ent.startAngle), ent.center[1] + ent.radius * Math.sin(ent.startAngle)];
+            return null;
+        case 'end':
+            if (ent.type === 'LINE') return [ent.end[0], ent.end[1]];
+            if (ent.type === 'ARC') return [ent.center[0] + ent.radius * Math.cos(ent.endAngle), ent.center[1] + ent.radius * Math.sin(ent.endAngle)];
+            return null;
+        case 'center':
+            return ent.type === 'CIRCLE' || ent.type === 'ARC' ? [ent.center[0], ent.center[1]] : null;
+        case 'vertex': {
+            const v = ent.type === 'LWPOLYLINE' ? ent.vertices?.[ref.index ?? -1] : undefined;
+            return v ? [v[0], v[1]] : null;
+        }
+        case 'position':
+            return ent.type === 'POINT' ? [ent.position[0], ent.position[1]] : null;
+    }
+    return null;
+};
+
+const getLine = (ent: any, ref: ConstraintEntityRef): [Vec, Vec] | null => {
+    if (!ent) return null;
+    if (ent.type === 'LINE') return [[ent.start[0], ent.start[1]], [ent.end[0], ent.end[1]]];
+    if (ent.type === 'LWPOLYLINE' && ref.segment !== undefined) {
+        const seg = polylineSegment(ent, ref.segment);
+        return seg ? [[seg[0][0], seg[0][1]], [seg[1][0], seg[1][1]]] : null;
+    }
+    return null;
+};
+
+const getCircle = (ent: any): { center: Vec; radius: number } | null => {
+    if (!ent || (ent.type !== 'CIRCLE' && ent.type !== 'ARC')) return null;
+    return { center: [ent.center[0], ent.center[1]], radius: ent.radius };
+};
+
+/**
+ * Resolve a constraint point reference to its current location
+ */
+export const getConstraintPoint = (ref: ConstraintPointRef, entities: Entity[]): Point | null => {
+    const p = getPoint(entities.find(e => e.id === ref.entityId), ref);
+    return p ? [p[0], p[1], 0] : null;
+};
+
+export const isLinearRef = (ref: ConstraintEntityRef, entities: Entity[]): boolean =>
+    getLine(entities.find(e => e.id === ref.entityId), ref) !== null;
+
+export const isCircularRef = (ref: ConstraintEntityRef, entities: Entity[]): boolean =>
+    getCircle(entities.find(e => e.id === ref.entityId)) !== null;
+
+// --- Seçim yardımcıları ---
+
+const entityConstraintPoints = (ent: Entity): ConstraintPointRef[] => {
+    switch (ent.type) {
+        case 'LINE':
+            return [{ entityId: ent.id, kind: 'start' }, { entityId: ent.id, kind: 'end' }];
+        case 'ARC':
+            return [{ entityId: ent.id, kind: 'start' }, { entityId: ent.id, kind: 'end' }, { entityId: ent.id, kind: 'center' }];
+        case 'CIRCLE':
+            return [{ entityId: ent.id, kind: 'center' }];
+        case 'LWPOLYLINE':
+            return ent.vertices.map((_, index) => ({ entityId: ent.id, kind: 'vertex' as const, index }));
+        case 'POINT':
+            return [{ entityId: ent.id, kind: 'position' }];
+        default:
+            return [];
+    }
+};
+
+/**
+ * Find the constrainable point (endpoint, center, vertex) closest to a picked location
+ */
+export const findConstraintPoint = (
+    point: Point,
+    entities: Entity[],
+    tolerance: number,
+    excludeEntityId?: number
+): ConstraintPointRef | null => {
+    let best: ConstraintPointRef | null = null;
+    let bestDist = tolerance;
+    entities.forEach(ent => {
+        if (ent.visible === false || ent.id === excludeEntityId) return;
+        entityConstraintPoints(ent).forEach(ref => {
+            const p = getPoint(ent, ref);
+            if (!p) return;
+            const d = Math.hypot(p[0] - point[0], p[1] - point[1]);
+            if (d < bestDist) {
+                bestDist = d;
+                best = ref;
+            }
+        });
+    });
+    return best;
+};
+
+/**
+ * Find the constrainable object (line, polyline segment, circle, arc) closest to a picked location
+ */
+export const findConstraintEntity = (point: Point, entities: Entity[], tolerance: number): ConstraintEntityRef | null => {
+    let best: ConstraintEntityRef | null = null;
+    let bestDist = tolerance;
+    entities.forEach(ent => {
+        if (ent.visible === false) return;
+        if (ent.type === 'LWPOLYLINE') {
+            const count = ent.closed ? ent.vertices.length : ent.vertices.length - 1;
+            for (let i = 0; i < count; i++) {
+                const seg = polylineSegment(ent, i);
+                if (!seg) continue;
+                const d = distancePointToLineSegment(point[0], point[1], seg[0][0], seg[0][1], seg[1][0], seg[1][1]);
+                if (d < bestDist) {
+                    bestDist = d;
+                    best = { entityId: ent.id, segment: i };
+                }
+            }
+        } else if (ent.type === 'LINE' || ent.type === 'CIRCLE' || ent.type === 'ARC' || ent.type === 'POINT') {
+            const d = closestPointOnEntity(point[0], point[1], ent);
+            if (d < bestDist) {
+                bestDist = d;
+                best = { entityId: ent.id };
+            }
+        }
+    });
+    return best;
+};
+
+const sameRef = (a: ConstraintEntityRef, b: ConstraintEntityRef): boolean =>
+    a.entityId === b.entityId && a.segment === b.segment;
+
+// Aynı nesnelerde birlikte sağlanamayan kısıt çiftleri
+const CONFLICTING_TYPES: Partial<Record<GeometricConstraintType, GeometricConstraintType>> = {
+    HORIZONTAL: 'VERTICAL',
+    VERTICAL: 'HORIZONTAL',
+    PARALLEL: 'PERPENDICULAR',
+    PERPENDICULAR: 'PARALLEL',
+};
+
+/**
+ * Validate the picked objects for a constraint type. Returns an error message or null.
+ * A constraint that directly contradicts an existing one on the same objects is rejected.
+ */
+export const validateConstraintRefs = (
+    type: GeometricConstraintType,
+    refs: ConstraintEntityRef[],
+    entities: Entity[],
+    existing: GeometricConstraint[] = []
+): string | null => {
+    const linear = refs.map(ref => isLinearRef(ref, entities));
+    const circular = refs.map(ref => isCircularRef(ref, entities));
+    if (refs.length === 2 && sameRef(refs[0], refs[1])) {
+        return 'Select two different objects';
+    }
+    const conflicting = CONFLICTING_TYPES[type];
+    const conflict = conflicting && existing.find(c =>
+        c.type === conflicting &&
+        c.entities.length === refs.length &&
+        refs.every(ref => c.entities.some(other => sameRef(ref, other)))
+    );
+    if (conflict) return `Conflicts with the existing ${conflicting.toLowerCase()} constraint`;
+    switch (type) {
+        case 'PARALLEL':
+        case 'PERPENDICULAR':
+            return linear.every(Boolean) ? null : 'Select lines or polyline segments';
+        case 'HORIZONTAL':
+        case 'VERTICAL':
+            return linear[0] ? null : 'Select a line or polyline segment';
+        case 'CONCENTRIC':
+            return circular.every(Boolean) ? null : 'Select circles or arcs';
+        case 'EQUAL':
+            return linear.every(Boolean) || circular.every(Boolean) ? null : 'Select two lines or two circles/arcs';
+        case 'TANGENT':
+            return circular.some(Boolean) && refs.every((_, i) => linear[i] || circular[i])
+                ? null
+                : 'Select a line and a circle/arc, or two circles/arcs';
+        default:
+            return null;
+    }
+};
+
+// --- Artıklar (residuals) ---
+
+const sub = (a: Vec, b: Vec): Vec => [a[0] - b[0], a[1] - b[1]];
+const len = (v: Vec): number => Math.hypot(v[0], v[1]);
+const cross = (a: Vec, b: Vec): number => a[0] * b[1] - a[1] * b[0];
+const dot = (a: Vec, b: Vec): number => a[0] * b[0] + a[1] * b[1];
+
+// Sıfır uzunluklu doğrunun yönü yoktur: yön kısıtları onu sağlanmış değil hatalı sayar,
+// böylece çözücü çizgiyi noktaya çökerterek kısıtı "sağlayamaz"
+const DEGENERATE_RESIDUAL = 1;
+
+const constraintResiduals = (c: GeometricConstraint, lookup: (id: number) => any): number[] => {
+    const e0 = c.entities[0] ? lookup(c.entities[0].entityId) : undefined;
+    const e1 = c.entities[1] ? lookup(c.entities[1].entityId) : undefined;
+
+    switch (c.type) {
+        case 'COINCIDENT': {
+            if (!c.points || c.points.length < 2) return [];
+            const p = getPoint(lookup(c.points[0].entityId), c.points[0]);
+            const q = getPoint(lookup(c.points[1].entityId), c.points[1]);
+            return p && q ? [p[0] - q[0], p[1] - q[1]] : [];
+        }
+        case 'CONCENTRIC': {
+            const a = getCircle(e0);
+            const b = getCircle(e1);
+            return a && b ? [a.center[0] - b.center[0], a.center[1] - b.center[1]] : [];
+        }
+        case 'PARALLEL':
+        case 'PERPENDICULAR': {
+            const l0 = getLine(e0, c.entities[0]);
+            const l1 = getLine(e1, c.entities[1]);
+            if (!l0 || !l1) return [];
+            const d0 = sub(l0[1], l0[0]);
+            const d1 = sub(l1[1], l1[0]);
+            const n = len(d0) * len(d1);
+            if (n < 1e-12) return [DEGENERATE_RESIDUAL];
+            return [(c.type === 'PARALLEL' ? cross(d0, d1) : dot(d0, d1)) / n];
+        }
+        case 'HORIZONTAL':
+        case 'VERTICAL': {
+            const l0 = getLine(e0, c.entities[0]);
+            if (!l0) return [];
+            // Açının sinüsü: uzunluktan bağımsız, kısalan çizgi artığı küçültmez
+            const d = sub(l0[1], l0[0]);
+            const l = len(d);
+            if (l < 1e-12) return [DEGENERATE_RESIDUAL];
+            return [(c.type === 'HORIZONTAL' ? d[1] : d[0]) / l];
+        }
+        case 'EQUAL': {
+            const l0 = getLine(e0, c.entities[0]);
+            const l1 = getLine(e1, c.entities[1]);
+            if (l0 && l1) return [len(sub(l0[1], l0[0])) - len(sub(l1[1], l1[0]))];
+            const a = getCircle(e0);
+            const b = getCircle(e1);
+            return a && b ? [a.radius - b.radius] : [];
+        }
+        case 'TANGENT': {
+            const a = getCircle(e0);
+            const b = getCircle(e1);
+            if (a && b) {
+                const d = len(sub(a.center, b.center));
+                return [c.internal ? d - Math.abs(a.radius - b.radius) : d - (a.radius + b.radius)];
+            }
+            const circle = a || b;
+            const line = a ? getLine(e1, c.entities[1]) : getLine(e0, c.entities[0]);
+            if (!circle || !line) return [];
+            const dir = sub(line[1], line[0]);
+            const l = len(dir);
+            if (l < 1e-12) return [DEGENERATE_RESIDUAL];
+            // Merkezin (sonsuz) doğruya uzaklığı = yarıçap
+            return [Math.abs(cross(dir, sub(circle.center, line[0]))) / l - circle.radius];
+        }
+        case 'FIX': {
+            if (!c.points || !c.points[0] || !c.position) return [];
+            const p = getPoint(lookup(c.points[0].entityId), c.points[0]);
+            return p ? [p[0] - c.position[0], p[1] - c.position[1]] : [];
+        }
+    }
+    return [];
+};
+
+// --- Değişkenler ---
+
+interface Variable {
+    entityId: number;
+    read: () => number;
+    write: (value: number) => void;
+}
+
+const pointVariables = (entityId: number, p: number[]): Variable[] => [
+    { entityId, read: () => p[0], write: v => { p[0] = v; } },
+    { entityId, read: () => p[1], write: v => { p[1] = v; } },
+];
+
+const fieldVariable = (entityId: number, ent: any, field: string): Variable => ({
+    entityId,
+    read: () => ent[field],
+    write: v => { ent[field] = v; },
+});
+
+const entityVariables = (ent: any): Variable[] => {
+    switch (ent.type) {
+        case 'LINE':
+            return [...pointVariables(ent.id, ent.start), ...pointVariables(ent.id, ent.end)];
+        case 'CIRCLE':
+            return [...pointVariables(ent.id, ent.center), fieldVariable(ent.id, ent, 'radius')];
+        case 'ARC':
+            return [
+                ...pointVariables(ent.id, ent.center),
+                fieldVariable(ent.id, ent, 'radius'),
+                fieldVariable(ent.id, ent, 'startAngle'),
+                fieldVariable(ent.id, ent, 'endAngle'),
+            ];
+        case 'LWPOLYLINE':
+            return ent.vertices.flatMap((v: number[]) => pointVariables(ent.id, v));
+        case 'POINT':
+            return pointVariables(ent.id, ent.position);
+        default:
+            return [];
+    }
+};
+
+// Kısmi pivotlamalı Gauss eliminasyonu (A x = b)
+const solveLinear = (A: number[][], b: number[]): number[] | null => {
+    const n = b.length;
+    const M = A.map((row, i) => [...row, b[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let r = col + 1; r < n; r++) {
+            if (Math.abs(M[r][col]) > Math.abs(M[pivot][col])) pivot = r;
+        }
+        if (Math.abs(M[pivot][col]) < 1e-14) return null;
+        [M[col], M[pivot]] = [M[pivot], M[col]];
+        for (let r = col + 1; r < n; r++) {
+            const f = M[r][col] / M[col][col];
+            if (f === 0) continue;
+            for (let k = col; k <= n; k++) M[r][k] -= f * M[col][k];
+        }
+    }
+    const x = new Array(n).fill(0);
+    for (let r = n - 1; r >= 0; r--) {
+        let s = M[r][n];
+        for (let k = r + 1; k < n; k++) s -= M[r][k] * x[k];
+        x[r] = s / M[r][r];
+    }
+    return x;
+};
+
+// Çözücü terimi: bağlı entity'ler ve artık fonksiyonu (geometrik veya boyutsal kısıt)
+interface SolverTerm {
+    ids: number[];
+    residuals: (lookup: (id: number) => any) => number[];
+    fixedIds?: number[]; // Tüm nesneyi sabitleyen FIX
+}
+
+// Düzenlenen entity'lerle kısıt grafiği üzerinden bağlantılı terimler
+const connectedTerms = (terms: SolverTerm[], seedIds: number[]): SolverTerm[] => {
+    if (seedIds.length === 0) return terms;
+    const reached = new Set(seedIds);
+    const result = new Set<SolverTerm>();
+    let changed = true;
+    while (changed) {
+        changed = false;
+        terms.forEach(term => {
+            if (result.has(term)) return;
+            if (term.ids.some(id => reached.has(id))) {
+                result.add(term);
+                term.ids.forEach(id => reached.add(id));
+                changed = true;
+            }
+        });
+    }
+    return terms.filter(term => result.has(term));
+};
+
+export interface ConstraintSolveResult {
+    entities: Entity[];
+    solved: boolean; // Tüm kısıtlar tolerans içinde mi?
+}
+
+/**
+ * Re-satisfy constraints numerically (damped Gauss-Newton / Levenberg-Marquardt).
+ * Entities in `lockedIds` (the ones the user just edited) and FIX-ed entities keep their geometry;
+ * only constraints connected to the locked entities are solved (all when none are given).
+ * Driving dimensions in `dimensions` are solved together with the geometric constraints.
+ */
+export const solveConstraints = (
+    entities: Entity[],
+    constraints: GeometricConstraint[],
+    lockedIds: number[] = [],
+    dimensions: DimensionalConstraint[] = [],
+    tolerance: number = 1e-6
+): ConstraintSolveResult => {
+    const terms: SolverTerm[] = [
+        ...pruneConstraints(constraints, entities).map(c => ({
+            ids: getConstraintEntityIds(c),
+            residuals: (lookup: (id: number) => any) => constraintResiduals(c, lookup),
+            fixedIds: c.type === 'FIX' && !c.points?.length ? c.entities.map(ref => ref.entityId) : undefined,
+        })),
+        ...pruneDimensionalConstraints(dimensions, entities).map(c => ({
+            ids: getDimensionalEntityIds(c),
+            residuals: (lookup: (id: number) => any) => dimensionalResiduals(c, lookup),
+        })),
+    ];
+    const active = connectedTerms(terms, lockedIds);
+    if (active.length === 0) return { entities, solved: true };
+
+    // Çalışma kopyaları
+    const work = new Map<number, any>();
+    active.forEach(term => term.ids.forEach(id => {
+        if (!work.has(id)) {
+            const ent = entities.find(e => e.id === id);
+            if (ent) work.set(id, JSON.parse(JSON.stringify(ent)));
+        }
+    }));
+    const lookup = (id: number) => work.get(id);
+
+    const locked = new Set(lockedIds);
+    active.forEach(term => term.fixedIds?.forEach(id => locked.add(id)));
+
+    const variables: Variable[] = [];
+    work.forEach(ent => {
+        if (!locked.has(ent.id)) variables.push(...entityVariables(ent));
+    });
+
+    const evaluate = (): number[] => active.flatMap(term => term.residuals(lookup));
+    const cost = (r: number[]) => r.reduce((s, v) => s + v * v, 0);
+
+    let x = variables.map(v => v.read());
+    const apply = (values: number[]) => values.forEach((value, i) => variables[i].write(value));
+
+    let r = evaluate();
+    let currentCost = cost(r);
+    let lambda = 1e-3;
+
+    for (let iter = 0; iter < 100 && currentCost > tolerance * tolerance && variables.length > 0; iter++) {
+        // Sayısal Jacobian
+        const J: number[][] = r.map(() => new Array(variables.length).fill(0));
+        for (let j = 0; j < variables.length; j++) {
+            const h = 1e-7 * Math.max(1, Math.abs(x[j]));
+            variables[j].write(x[j] + h);
+            const rh = evaluate();
+            variables[j].write(x[j]);
+            for (let i = 0; i < r.length; i++) J[i][j] = (rh[i] - r[i]) / h;
+        }
+
+        // (JᵀJ + λI) δ = -Jᵀr
+        const n = variables.length;
+        const JtJ: number[][] = Array.from({ length: n }, () => new Array(n).fill(0));
+        const Jtr = new Array(n).fill(0);
+        for (let i = 0; i < r.length; i++) {
+            for (let a = 0; a < n; a++) {
+                const Jia = J[i][a];
+                if (Jia === 0) continue;
+                Jtr[a] += Jia * r[i];
+                for (let b = 0; b < n; b++) JtJ[a][b] += Jia * J[i][b];
+            }
+        }
+
+        let improved = false;
+        for (let attempt = 0; attempt < 10 && !improved; attempt++) {
+            const A = JtJ.map((row, a) => row.map((v, b) => (a === b ? v + lambda : v)));
+            const delta = solveLinear(A, Jtr.map(v => -v));
+            if (!delta) {
+                lambda *= 10;
+                continue;
+            }
+            const candidate = x.map((v, i) => v + delta[i]);
+            apply(candidate);
+            const rc = evaluate();
+            const cc = cost(rc);
+            if (cc < currentCost) {
+                x = candidate;
+                r = rc;
+                currentCost = cc;
+                lambda = Math.max(lambda / 3, 1e-12);
+                improved = true;
+            } else {
+                apply(x);
+                lambda *= 4;
+            }
+        }
+        if (!improved) break;
+    }
+
+    apply(x);
+    const solvedEntities = entities.map(ent => (work.has(ent.id) && !locked.has(ent.id) ? (work.get(ent.id) as Entity) : ent));
+    return { entities: solvedEntities, solved: currentCost <= tolerance * tolerance * 100 };
+};
+
+// --- Boyutsal (sürücü) kısıtlar ---
+
+const DEG = Math.PI / 180;
+
+// Varsayılan parametre adı önekleri (AutoCAD: d1, rad1, dia1, ang1)
+export const DIMENSIONAL_NAME_PREFIX: Record<DimensionalConstraintType, string> = {
+    LINEAR: 'd',
+    ALIGNED: 'd',
+    RADIAL: 'rad',
+    DIAMETER: 'dia',
+    ANGULAR: 'ang',
+};
+
+/**
+ * Next free parameter name for a dimensional constraint type
+ */
+export const getNextDimensionalName = (type: DimensionalConstraintType, usedNames: string[]): string => {
+    const prefix = DIMENSIONAL_NAME_PREFIX[type];
+    const used = new Set(usedNames);
+    let index = 1;
+    while (used.has(`${prefix}${index}`)) index++;
+    return `${prefix}${index}`;
+};
+
+/**
+ * Entity ids a dimensional constraint depends on
+ */
+export const getDimensionalEntityIds = (constraint: DimensionalConstraint): number[] => {
+    const ids = new Set<number>();
+    constraint.points?.forEach(ref => ids.add(ref.entityId));
+    constraint.entities?.forEach(ref => ids.add(ref.entityId));
+    return Array.from(ids);
+};
+
+/**
+ * Drop dimensional constraints that reference entities which no longer exist
+ */
+export const pruneDimensionalConstraints = (constraints: DimensionalConstraint[], entities: Entity[]): DimensionalConstraint[] => {
+    const ids = new Set(entities.map(ent => ent.id));
+    return constraints.filter(c => getDimensionalEntityIds(c).every(id => ids.has(id)));
+};
+
+// Açısal kısıt: iki doğrunun kesişiminden uzak uçlarına doğru ışınlar
+const angularRays = (c: DimensionalConstraint, lookup: (id: number) => any): { vertex: Vec; rays: [Vec, Vec] } | null => {
+    if (!c.entities || c.entities.length < 2) return null;
+    const l0 = getLine(lookup(c.entities[0].entityId), c.entities[0]);
+    const l1 = getLine(lookup(c.entities[1].entityId), c.entities[1]);
+    if (!l0 || !l1) return null;
+    const d0 = sub(l0[1], l0[0]);
+    const d1 = sub(l1[1], l1[0]);
+    const denom = cross(d0, d1);
+    if (Math.abs(denom) < 1e-12) return null;
+    const t = cross(sub(l1[0], l0[0]), d1) / denom;
+    const vertex: Vec = [l0[0][0] + d0[0] * t, l0[0][1] + d0[1] * t];
+    const farEnd = (line: [Vec, Vec]): Vec => (len(sub(line[0], vertex)) > len(sub(line[1], vertex)) ? line[0] : line[1]);
+    return { vertex, rays: [sub(farEnd(l0), vertex), sub(farEnd(l1), vertex)] };
+};
+
+// Geçerli geometriden ölçülen değer (uzunluk veya derece)
+const measureDimensional = (c: DimensionalConstraint, lookup: (id: number) => any): number | null => {
+    switch (c.type) {
+        case 'LINEAR':
+        case 'ALIGNED': {
+            if (!c.points || c.points.length < 2) return null;
+            const p = getPoint(lookup(c.points[0].entityId), c.points[0]);
+            const q = getPoint(lookup(c.points[1].entityId), c.points[1]);
+            if (!p || !q) return null;
+            if (c.type === 'ALIGNED') return len(sub(q, p));
+            return c.orientation === 'vertical' ? Math.abs(q[1] - p[1]) : Math.abs(q[0] - p[0]);
+        }
+        case 'RADIAL':
+        case 'DIAMETER': {
+            const circle = c.entities?.[0] ? getCircle(lookup(c.entities[0].entityId)) : null;
+            if (!circle) return null;
+            return c.type === 'DIAMETER' ? circle.radius * 2 : circle.radius;
+        }
+        case 'ANGULAR': {
+            const angular = angularRays(c, lookup);
+            if (!angular) return null;
+            const [a, b] = angular.rays;
+            return Math.atan2(Math.abs(cross(a, b)), dot(a, b)) / DEG;
+        }
+    }
+    return null;
+};
+
+/**
+ * Current measured value of a dimensional constraint's geometry
+ */
+export const measureDimensionalConstraint = (constraint: DimensionalConstraint, entities: Entity[]): number | null => {
+    const byId = new Map(entities.map(e => [e.id, e] as [number, Entity]));
+    return measureDimensional(constraint, id => byId.get(id));
+};
+
+const dimensionalResiduals = (c: DimensionalConstraint, lookup: (id: number) => any): number[] => {
+    const measured = measureDimensional(c, lookup);
+    if (measured === null) return [];
+    // Açılar radyan cinsinden karşılaştırılır (uzunluklarla benzer ölçek)
+    return [c.type === 'ANGULAR' ? (measured - c.value) * DEG : measured - c.value];
+};
+
+/**
+ * Validate the picked objects of a radial/angular dimensional constraint. Returns an error message or null.
+ */
+export const validateDimensionalRefs = (
+    type: DimensionalConstraintType,
+    refs: ConstraintEntityRef[],
+    entities: Entity[]
+): string | null => {
+    if (type === 'RADIAL' || type === 'DIAMETER') {
+        return refs[0] && isCircularRef(refs[0], entities) ? null : 'Select a circle or arc';
+    }
+    if (type === 'ANGULAR') {
+        if (!refs.every(ref => isLinearRef(ref, entities))) return 'Select lines or polyline segments';
+        if (refs.length === 2) {
+            const byId = new Map(entities.map(e => [e.id, e] as [number, Entity]));
+            if (!angularRays({ type, entities: refs } as DimensionalConstraint, id => byId.get(id))) {
+                return 'Lines are parallel';
+            }
+        }
+    }
+    return null;
+};
+
+export interface DimensionalConstraintGeometry {
+    lines: Point[][]; // Ölçü çizgisi/yayı ve uzatma çizgileri
+    textPosition: Point;
+    rotation: number;
+}
+
+// Metni ters durmayacak şekilde döndür
+const readableRotation = (angle: number): number => {
+    let a = angle;
+    while (a > Math.PI / 2) a -= Math.PI;
+    while (a <= -Math.PI / 2) a += Math.PI;
+    return a;
+};
+
+/**
+ * Display geometry of a dimensional constraint, built on the regular dimension geometry
+ */
+export const getDimensionalConstraintGeometry = (
+    c: DimensionalConstraint,
+    entities: Entity[]
+): DimensionalConstraintGeometry | null => {
+    const byId = new Map(entities.map(e => [e.id, e] as [number, Entity]));
+    const lookup = (id: number) => byId.get(id);
+    const placement = c.dimLinePosition;
+
+    switch (c.type) {
+        case 'LINEAR':
+        case 'ALIGNED': {
+            if (!c.points || c.points.length < 2) return null;
+            const p = getPoint(lookup(c.points[0].entityId), c.points[0]);
+            const q = getPoint(lookup(c.points[1].entityId), c.points[1]);
+            if (!p || !q) return null;
+            // Yatay/dikey ölçü: ikinci noktayı ölçü eksenine izdüşür
+            const end: Vec = c.type === 'ALIGNED' ? q : c.orientation === 'vertical' ? [p[0], q[1]] : [q[0], p[1]];
+            if (len(sub(end, p)) < 1e-9) return null;
+            const geo = calculateDimensionGeometry([p[0], p[1], 0], [end[0], end[1], 0], placement, 'aligned');
+            const dimEnd: Point = c.type === 'ALIGNED'
+                ? geo.dimEnd
+                : c.orientation === 'vertical' ? [geo.dimStart[0], q[1], 0] : [q[0], geo.dimStart[1], 0];
+            return {
+                lines: [
+                    [geo.dimStart, dimEnd],
+                    [[p[0], p[1], 0], geo.dimStart],
+                    [[q[0], q[1], 0], dimEnd],
+                ],
+                textPosition: geo.textPosition,
+                rotation: readableRotation(geo.rotation),
+            };
+        }
+        case 'RADIAL':
+        case 'DIAMETER': {
+            const circle = c.entities?.[0] ? getCircle(lookup(c.entities[0].entityId)) : null;
+            if (!circle) return null;
+            const toText = sub([placement[0], placement[1]], circle.center);
+            const dir: Vec = len(toText) > 1e-9 ? [toText[0] / len(toText), toText[1] / len(toText)] : [1, 0];
+            const rim: Point = [circle.center[0] + dir[0] * circle.radius, circle.center[1] + dir[1] * circle.radius, 0];
+            const from: Point = c.type === 'DIAMETER'
+                ? [circle.center[0] - dir[0] * circle.radius, circle.center[1] - dir[1] * circle.radius, 0]
+                : [circle.center[0], circle.center[1], 0];
+            const lines: Point[][] = [[from, rim]];
+            // Metin çemberin dışındaysa kenardan metne kılavuz çizgisi
+            if (len(toText) > circle.radius) lines.push([rim, [placement[0], placement[1], 0]]);
+            return { lines, textPosition: placement, rotation: readableRotation(Math.atan2(dir[1], dir[0])) };
+        }
+        case 'ANGULAR': {
+            const angular = angularRays(c, lookup);
+            if (!angular) return null;
+            const { vertex, rays } = angular;
+            const center: Point = [vertex[0], vertex[1], 0];
+            const p1: Point = [vertex[0] + rays[0][0], vertex[1] + rays[0][1], 0];
+            const p2: Point = [vertex[0] + rays[1][0], vertex[1] + rays[1][1], 0];
+            // Kısa yoldan (<180°) ölçülen açı: saat yönü tersine p1 -> p2 veya p2 -> p1
+            const ccw = cross(rays[0], rays[1]) >= 0;
+            const geo = calculateAngularDimensionGeometry(center, ccw ? p1 : p2, ccw ? p2 : p1, placement);
+            const arc: Point[] = [];
+            const segments = 24;
+            for (let i = 0; i <= segments; i++) {
+                const a = geo.startAngle + (geo.measureAngle * i) / segments;
+                arc.push([vertex[0] + Math.cos(a) * geo.radius, vertex[1] + Math.sin(a) * geo.radius, 0]);
+            }
+            const mid = geo.startAngle + geo.measureAngle / 2;
+            return {
+                lines: [arc],
+                textPosition: [vertex[0] + Math.cos(mid) * geo.radius * 1.15, vertex[1] + Math.sin(mid) * geo.radius * 1.15, 0],
+                rotation: readableRotation(mid - Math.PI / 2),
+            };
+        }
+    }
+    return null;
+};
+
+// --- Glifler ---
+
+// Görünüm yazı tipinde bulunan basit karakterler
+export const CONSTRAINT_GLYPHS: Record<GeometricConstraintType, string> = {
+    COINCIDENT: '•',
+    PARALLEL: '//',
+    PERPENDICULAR: '_|_',
+    TANGENT: 'T',
+    HORIZONTAL: 'H',
+    VERTICAL: 'V',
+    EQUAL: '=',
+    CONCENTRIC: '(o)',
+    FIX: 'F',
+};
+
+export interface ConstraintGlyph {
+    constraintId: number;
+    type: GeometricConstraintType;
+    position: Point;
+}
+
+// Bir nesnenin üzerinde glif konumu: doğru orta noktası, çember üst noktası
+const objectAnchor = (ref: ConstraintEntityRef, ent: any): Vec | null => {
+    const line = getLine(ent, ref);
+    if (line) return [(line[0][0] + line[1][0]) / 2, (line[0][1] + line[1][1]) / 2];
+    const circle = getCircle(ent);
+    if (circle) return [circle.center[0], circle.center[1] + circle.radius];
+    if (ent?.type === 'POINT') return [ent.position[0], ent.position[1]];
+    return null;
+};
+
+/**
+ * Glyph positions for constraint icons; glyphs on the same object are spread side by side
+ */
+export const getConstraintGlyphs = (constraints: GeometricConstraint[], entities: Entity[], spacing: number): ConstraintGlyph[] => {
+    const byId = new Map(entities.map(e => [e.id, e] as [number, Entity]));
+    const slots = new Map<string, number>();
+    const glyphs: ConstraintGlyph[] = [];
+
+    const place = (c: GeometricConstraint, key: string, anchor: Vec) => {
+        const slot = slots.get(key) || 0;
+        slots.set(key, slot + 1);
+        glyphs.push({ constraintId: c.id, type: c.type, position: [anchor[0] + slot * spacing, anchor[1] + spacing, 0] });
+    };
+
+    pruneConstraints(constraints, entities).forEach(c => {
+        if (c.points && c.points.length > 0) {
+            const p = getPoint(byId.get(c.points[0].entityId), c.points[0]);
+            if (p) place(c, `p:${c.points[0].entityId}:${c.points[0].kind}:${c.points[0].index ?? ''}`, p);
+            return;
+        }
+        c.entities.forEach(ref => {
+            const anchor = objectAnchor(ref, byId.get(ref.entityId));
+            if (anchor) place(c, `e:${ref.entityId}:${ref.segment ?? ''}`, anchor);
+        });
+    });
+
+    return glyphs;
+};
@@ -0,0 +1,133 @@
+import { saveAs } from 'file-saver';
+import type { Entity, Point, BlockReferenceEntity, TableEntity } from '../types/entities';
+import type { BlockTable } from '../types/blocks';
+import { isBlockReference } from './blockUtils';
+
+// Veri çıkarma (DATAEXTRACTION): blok referanslarından malzeme listesi
+
+export interface DataExtractionOptions {
+    layers?: string[]; // Boş/undefined: tüm katmanlar
+    blockNames?: string[]; // Boş/undefined: tüm bloklar
+}
+
+export interface DataExtractionRow {
+    blockName: string;
+    count: number;
+    attributes: Record<string, string>;
+}
+
+export interface DataExtractionTable {
+    headers: string[];
+    rows: string[][];
+}
+
+/**
+ * Attribute values of a reference: definition defaults and constants filled in,
+ * extra values stored on the instance kept as they are
+ */
+export const getReferenceAttributeValues = (
+    ref: BlockReferenceEntity,
+    table: BlockTable
+): Record<string, string> => {
+    const values: Record<string, string> = { ...(ref.attributes || {}) };
+    (table[ref.blockName]?.attributes || []).forEach(attr => {
+        values[attr.tag] = attr.constant ? attr.defaultValue : (ref.attributes?.[attr.tag] ?? attr.defaultValue);
+    });
+    return values;
+};
+
+/**
+ * Block references matching the extraction filter
+ */
+export const getExtractionReferences = (entities: Entity[], options: DataExtractionOptions = {}): BlockReferenceEntity[] => {
+    return entities.filter((ent): ent is BlockReferenceEntity => {
+        if (!isBlockReference(ent)) return false;
+        if (options.layers && options.layers.length > 0 && !options.layers.includes(ent.layer)) return false;
+        if (options.blockNames && options.blockNames.length > 0 && !options.blockNames.includes(ent.blockName)) return false;
+        return true;
+    });
+};
+
+/**
+ * Count block references per block name and identical attribute values
+ */
+export const extractBlockData = (
+    entities: Entity[],
+    options: DataExtractionOptions,
+    table: BlockTable
+): DataExtractionRow[] => {
+    const groups = new Map<string, DataExtractionRow>();
+
+    getExtractionReferences(entities, options).forEach(ref => {
+        const attributes = getReferenceAttributeValues(ref, table);
+        // Aynı blok ve aynı öznitelik değerleri tek satırda sayılır
+        const key = JSON.stringify([ref.blockName, Object.keys(attributes).sort().map(tag => [tag, attributes[tag]])]);
+        const group = groups.get(key);
+        if (group) {
+            group.count++;
+        } else {
+            groups.set(key, { blockName: ref.blockName, count: 1, attributes });
+        }
+    });
+
+    return Array.from(groups.values()).sort((a, b) =>
+        a.blockName.localeCompare(b.blockName) ||
+        JSON.stringify(a.attributes).localeCompare(JSON.stringify(b.attributes))
+    );
+};
+
+/**
+ * Lay out extraction rows as a table: Block, Count, then one column per attribute tag
+ */
+export const buildExtractionTable = (rows: DataExtractionRow[]): DataExtractionTable => {
+    const tags = Array.from(new Set(rows.flatMap(row => Object.keys(row.attributes)))).sort();
+    return {
+        headers: ['Block', 'Count', ...tags],
+        rows: rows.map(row => [row.blockName, String(row.count), ...tags.map(tag => row.attributes[tag] ?? '')]),
+    };
+};
+
+// CSV alanı: virgül, tırnak veya satır sonu içeriyorsa tırnakla
+const csvField = (value: string): string => {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Convert an extraction table to CSV text
+ */
+export const extractionTableToCSV = (table: DataExtractionTable): string => {
+    return [table.headers, ...table.rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Export an extraction table as a CSV file and trigger download
+ */
+export const exportExtractionCSV = (table: DataExtractionTable, filename: string = 'data_extraction.csv'): void => {
+    // BOM: Excel'in UTF-8 (Türkçe karakterler) olarak açması için
+    const blob = new Blob(['\uFEFF' + extractionTableToCSV(table)], { type: 'text/csv;charset=utf-8' });
+    saveAs(blob, filename);
+};
+
+/**
+ * Build TABLE entity properties (header row + data rows) for placing the extraction in the drawing
+ */
+export const buildExtractionTableEntity = (
+    table: DataExtractionTable,
+    position: Point,
+    rowHeight: number = 10
+): Omit<TableEntity, 'id' | 'color' | 'layer'> => {
+    const cellData = [table.headers, ...table.rows];
+    // Tablo tek sütun genişliği kullanır: en uzun hücreye göre boyutlandır
+    const longest = Math.max(...cellData.flatMap(row => row.map(cell => cell.length)), 4);
+    const colWidth = Math.max(rowHeight * 3, Math.ceil(longest * rowHeight * 0.45 + rowHeight));
+    return {
+        type: 'TABLE',
+        position: [position[0], position[1], 0],
+        rows: cellData.length,
+        cols: table.headers.length,
+        rowHeight,
+        colWidth,
+        cellData,
+        headerRow: true,
+    };
+};
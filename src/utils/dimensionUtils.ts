@@ -1,5 +1,7 @@
 import { Point, Entity } from '../types/entities';
+import type { DimensionEntity } from '../types/entities';
 import * as THREE from 'three';
+import { DEFAULT_DIMENSION_SETTINGS, formatDimensionValue, type DecimalFormat } from '../types/dimensionSettings';
 
 /**
  * Otomatik köşe noktası tespiti ve seçimi
@@ -329,3 +331,128 @@ export const calculateAngularDimensionGeometry = (
         measureAngle: diff // in radians
     };
 };
+
+/**
+ * Drawable parts of a dimension in world coordinates, shared by the file exporters.
+ * Arrows are filled triangles; texts are centered and kept readable (-90°..90°).
+ */
+export interface DimensionGraphics {
+    lines: [Point, Point][];
+    arcs: { center: Point; radius: number; startAngle: number; endAngle: number }[];
+    arrows: [Point, Point, Point][]; // Uç, sol ve sağ köşe
+    texts: { position: Point; height: number; text: string; rotation: number }[];
+}
+
+const polar = (center: Point, radius: number, angle: number): Point =>
+    [center[0] + Math.cos(angle) * radius, center[1] + Math.sin(angle) * radius, 0];
+
+// Başlangıçtan bitişe saat yönü tersine açı farkı (0..2π)
+const ccwSweep = (startAngle: number, endAngle: number): number => {
+    let diff = endAngle - startAngle;
+    if (diff < 0) diff += Math.PI * 2;
+    return diff;
+};
+
+// Dolu ok ucu: tip noktası ve oktan gövdeye doğru birim yön
+const arrowTriangle = (tip: Point, dir: [number, number], size: number): [Point, Point, Point] => {
+    const base: Point = [tip[0] + dir[0] * size, tip[1] + dir[1] * size, 0];
+    const half = size / 6;
+    return [
+        tip,
+        [base[0] - dir[1] * half, base[1] + dir[0] * half, 0],
+        [base[0] + dir[1] * half, base[1] - dir[0] * half, 0],
+    ];
+};
+
+// Metin ters okunmasın diye açı -90..90 aralığına getirilir
+const readableAngle = (rotation: number): number => {
+    let angle = rotation;
+    while (angle > Math.PI / 2) angle -= Math.PI;
+    while (angle <= -Math.PI / 2) angle += Math.PI;
+    return angle;
+};
+
+export const getDimensionGraphics = (entity: DimensionEntity): DimensionGraphics => {
+    const graphics: DimensionGraphics = { lines: [], arcs: [], arrows: [], texts: [] };
+    const { start, end, dimType } = entity;
+    const dimLinePosition: Point = entity.dimLinePosition || end;
+    const textHeight = entity.textHeight || DEFAULT_DIMENSION_SETTINGS.textHeight;
+    const arrowSize = entity.arrowStyle === 'none' ? 0 : (entity.arrowSize || DEFAULT_DIMENSION_SETTINGS.arrowSize);
+    const addText = (position: Point, text: string, rotation: number) => {
+        graphics.texts.push({ position, height: textHeight, text, rotation: readableAngle(rotation) });
+    };
+
+    if (dimType === 'DIMANGULAR' && entity.center) {
+        const { center } = entity;
+        const startAngle = entity.startAngle || 0;
+        const radius = Math.hypot(dimLinePosition[0] - center[0], dimLinePosition[1] - center[1]);
+        const sweep = ccwSweep(startAngle, entity.endAngle || 0);
+        const endAngle = startAngle + sweep;
+        const extOffset = entity.extensionLineOffset || 1.5;
+        const extExtend = entity.extensionLineExtend || 2.0;
+
+        graphics.arcs.push({ center, radius, startAngle, endAngle });
+
+        // Ölçülen nokta yayın içindeyse uzatma çizgisi yaya kadar çizilir
+        ([[start, startAngle], [end, endAngle]] as [Point | undefined, number][]).forEach(([point, angle]) => {
+            const distance = point ? Math.hypot(point[0] - center[0], point[1] - center[1]) : radius;
+            if (radius > distance + extOffset) {
+                graphics.lines.push([polar(center, distance + extOffset, angle), polar(center, radius + extExtend, angle)]);
+            }
+        });
+
+        if (arrowSize > 0) {
+            graphics.arrows.push(arrowTriangle(polar(center, radius, startAngle), [-Math.sin(startAngle), Math.cos(startAngle)], arrowSize));
+            graphics.arrows.push(arrowTriangle(polar(center, radius, endAngle), [Math.sin(endAngle), -Math.cos(endAngle)], arrowSize));
+        }
+
+        const midAngle = startAngle + sweep / 2;
+        const text = entity.text || `${(sweep * 180 / Math.PI).toFixed(DEFAULT_DIMENSION_SETTINGS.anglePrecision)}°`;
+        addText(polar(center, radius + textHeight, midAngle), text, midAngle - Math.PI / 2);
+    } else if (dimType === 'DIMRADIUS' || dimType === 'DIMDIAMETER') {
+        const from: Point = dimType === 'DIMDIAMETER' ? [2 * start[0] - end[0], 2 * start[1] - end[1], 0] : start;
+        const length = Math.hypot(end[0] - from[0], end[1] - from[1]) || 1;
+        const dir: [number, number] = [(end[0] - from[0]) / length, (end[1] - from[1]) / length];
+
+        graphics.lines.push([from, end]);
+        if (arrowSize > 0) {
+            graphics.arrows.push(arrowTriangle(end, [-dir[0], -dir[1]], arrowSize));
+            if (dimType === 'DIMDIAMETER') graphics.arrows.push(arrowTriangle(from, dir, arrowSize));
+        }
+        addText(dimLinePosition, entity.text || '', Math.atan2(dir[1], dir[0]));
+    } else {
+        const geo = calculateDimensionGeometry(start, end, dimLinePosition, 'aligned');
+        const { dimStart, dimEnd } = geo;
+        const offset = entity.extensionLineOffset || 1.5;
+        const extend = entity.extensionLineExtend || 1.25;
+
+        // Uzatma çizgileri ölçü çizgisinin bulunduğu tarafa doğru
+        const normal: [number, number] = [-Math.sin(geo.rotation), Math.cos(geo.rotation)];
+        const side = (dimStart[0] - start[0]) * normal[0] + (dimStart[1] - start[1]) * normal[1] >= 0 ? 1 : -1;
+        const nx = normal[0] * side;
+        const ny = normal[1] * side;
+
+        graphics.lines.push([dimStart, dimEnd]);
+        graphics.lines.push([[start[0] + nx * offset, start[1] + ny * offset, 0], [dimStart[0] + nx * extend, dimStart[1] + ny * extend, 0]]);
+        graphics.lines.push([[end[0] + nx * offset, end[1] + ny * offset, 0], [dimEnd[0] + nx * extend, dimEnd[1] + ny * extend, 0]]);
+
+        if (arrowSize > 0) {
+            const dir: [number, number] = [Math.cos(geo.rotation), Math.sin(geo.rotation)];
+            graphics.arrows.push(arrowTriangle(dimStart, dir, arrowSize));
+            graphics.arrows.push(arrowTriangle(dimEnd, [-dir[0], -dir[1]], arrowSize));
+        }
+
+        const text = entity.text || formatDimensionValue(
+            geo.measureLength,
+            {
+                ...DEFAULT_DIMENSION_SETTINGS,
+                precision: (entity.precision as DecimalFormat) || DEFAULT_DIMENSION_SETTINGS.precision,
+                unitDisplay: entity.showUnit ? 'suffix' : 'none'
+            },
+            entity.unit || 'mm'
+        );
+        addText(geo.textPosition, text, geo.rotation);
+    }
+
+    return graphics;
+};
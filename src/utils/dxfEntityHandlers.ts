@@ -0,0 +1,272 @@
+import type DxfArrayScanner from 'dxf-parser/dist/DxfArrayScanner';
+import type { IGroup } from 'dxf-parser/dist/DxfArrayScanner';
+import type IGeometry from 'dxf-parser/dist/entities/geomtry';
+import type { IEntity, IPoint } from 'dxf-parser/dist/entities/geomtry';
+import { checkCommonEntityProperties, parsePoint } from 'dxf-parser/dist/ParseHelpers';
+
+// dxf-parser'ın okumadığı entity tipleri için ek handler'lar (HATCH, LEADER, ATTRIB)
+
+export interface DxfHatchPath {
+  vertices: IPoint[];
+  bulges: number[];
+  external: boolean;
+}
+
+export interface DxfHatchEntity extends IEntity {
+  type: 'HATCH';
+  patternName: string;
+  solid: boolean;
+  patternAngle: number; // derece
+  patternScale: number;
+  paths: DxfHatchPath[];
+}
+
+export interface DxfLeaderEntity extends IEntity {
+  type: 'LEADER';
+  vertices: IPoint[];
+  arrowhead: boolean;
+  spline: boolean;
+}
+
+export interface DxfAttribEntity extends IEntity {
+  type: 'ATTRIB';
+  tag: string;
+  text: string;
+  position: IPoint;
+  textHeight: number;
+  rotation: number; // derece
+  invisible: boolean;
+}
+
+// Eliptik ve spline kenarlar çokgen olarak yaklaşıklanır
+const ELLIPSE_EDGE_SEGMENTS = 32;
+
+// Bir sonraki grup istenen koddaysa okunur, değilse yerinde bırakılır
+const take = (scanner: DxfArrayScanner, code: number): any => {
+  if (!scanner.hasNext() || scanner.peek().code !== code) return undefined;
+  return scanner.next().value;
+};
+
+const takeNumber = (scanner: DxfArrayScanner, code: number, fallback = 0): number => {
+  const value = take(scanner, code);
+  return typeof value === 'number' ? value : fallback;
+};
+
+// Sınır kenarı tipleri: 1 çizgi, 2 yay, 3 elips yayı, 4 spline
+const readEdges = (scanner: DxfArrayScanner, path: DxfHatchPath): void => {
+  const edgeCount = takeNumber(scanner, 93);
+  for (let i = 0; i < edgeCount; i++) {
+    const edgeType = takeNumber(scanner, 72);
+    if (edgeType === 1) {
+      const x = takeNumber(scanner, 10);
+      const y = takeNumber(scanner, 20);
+      takeNumber(scanner, 11);
+      takeNumber(scanner, 21);
+      path.vertices.push({ x, y, z: 0 });
+      path.bulges.push(0);
+    } else if (edgeType === 2) {
+      const cx = takeNumber(scanner, 10);
+      const cy = takeNumber(scanner, 20);
+      const radius = takeNumber(scanner, 40);
+      const start = takeNumber(scanner, 50);
+      const end = takeNumber(scanner, 51);
+      const ccw = takeNumber(scanner, 73, 1) !== 0;
+      // Saat yönündeki yayların açıları ters yönde verilir
+      const startAngle = (ccw ? start : -start) * Math.PI / 180;
+      let sweep = (end - start) * Math.PI / 180;
+      if (sweep <= 0) sweep += Math.PI * 2;
+      path.vertices.push({ x: cx + radius * Math.cos(startAngle), y: cy + radius * Math.sin(startAngle), z: 0 });
+      path.bulges.push(Math.tan((ccw ? sweep : -sweep) / 4));
+    } else if (edgeType === 3) {
+      const cx = takeNumber(scanner, 10);
+      const cy = takeNumber(scanner, 20);
+      const mx = takeNumber(scanner, 11);
+      const my = takeNumber(scanner, 21);
+      const ratio = takeNumber(scanner, 40, 1);
+      const start = takeNumber(scanner, 50);
+      const end = takeNumber(scanner, 51, 360);
+      const ccw = takeNumber(scanner, 73, 1) !== 0;
+      let sweep = (end - start) * Math.PI / 180;
+      if (sweep <= 0) sweep += Math.PI * 2;
+      const segments = Math.max(2, Math.ceil(ELLIPSE_EDGE_SEGMENTS * sweep / (Math.PI * 2)));
+      const startParam = (ccw ? start : -start) * Math.PI / 180;
+      for (let s = 0; s < segments; s++) {
+        const t = startParam + (ccw ? 1 : -1) * sweep * s / segments;
+        path.vertices.push({
+          x: cx + mx * Math.cos(t) - my * ratio * Math.sin(t),
+          y: cy + my * Math.cos(t) + mx * ratio * Math.sin(t),
+          z: 0,
+        });
+        path.bulges.push(0);
+      }
+    } else if (edgeType === 4) {
+      takeNumber(scanner, 94); // Derece
+      const rational = takeNumber(scanner, 73) !== 0;
+      takeNumber(scanner, 74); // Periyodik
+      const knotCount = takeNumber(scanner, 95);
+      const controlCount = takeNumber(scanner, 96);
+      for (let k = 0; k < knotCount; k++) takeNumber(scanner, 40);
+      const controlPoints: IPoint[] = [];
+      for (let c = 0; c < controlCount; c++) {
+        controlPoints.push({ x: takeNumber(scanner, 10), y: takeNumber(scanner, 20), z: 0 });
+        if (rational) takeNumber(scanner, 42);
+      }
+      // R2010+ uydurma noktaları; yoksa kontrol çokgeni kullanılır
+      const fitPoints: IPoint[] = [];
+      if (scanner.peek().code === 97) {
+        // Son kenarda 97 yolun kaynak sayısı da olabilir; 11 gelmezse uydurma verisi yoktur
+        const fitCount = takeNumber(scanner, 97);
+        for (let f = 0; f < fitCount && scanner.peek().code === 11; f++) {
+          fitPoints.push({ x: takeNumber(scanner, 11), y: takeNumber(scanner, 21), z: 0 });
+        }
+        [12, 22, 13, 23].forEach(code => take(scanner, code));
+      }
+      const points = fitPoints.length >= 2 ? fitPoints : controlPoints;
+      points.slice(0, -1).forEach(point => {
+        path.vertices.push(point);
+        path.bulges.push(0);
+      });
+    }
+  }
+};
+
+const readBoundaryPath = (scanner: DxfArrayScanner): DxfHatchPath => {
+  const flags = takeNumber(scanner, 92);
+  const path: DxfHatchPath = { vertices: [], bulges: [], external: (flags & 1) !== 0 };
+
+  if (flags & 2) {
+    // Polyline sınırı
+    const hasBulges = takeNumber(scanner, 72) !== 0;
+    takeNumber(scanner, 73); // Kapalı
+    const count = takeNumber(scanner, 93);
+    for (let i = 0; i < count; i++) {
+      path.vertices.push({ x: takeNumber(scanner, 10), y: takeNumber(scanner, 20), z: 0 });
+      path.bulges.push(hasBulges ? takeNumber(scanner, 42) : 0);
+    }
+  } else {
+    readEdges(scanner, path);
+  }
+
+  // Kaynak nesne tutamaçları
+  while (scanner.hasNext() && (scanner.peek().code === 97 || scanner.peek().code === 330)) scanner.next();
+  return path;
+};
+
+class Hatch {
+  ForEntityName = 'HATCH';
+
+  parseEntity(scanner: DxfArrayScanner, curr: IGroup): DxfHatchEntity {
+    const entity = { type: curr.value, patternName: '', solid: false, patternAngle: 0, patternScale: 1, paths: [] } as unknown as DxfHatchEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 2:
+          entity.patternName = String(curr.value);
+          break;
+        case 70:
+          entity.solid = curr.value === 1;
+          break;
+        case 91: {
+          const count = curr.value as number;
+          for (let i = 0; i < count; i++) {
+            // Yol başına kadar beklenmeyen grupları atla
+            while (scanner.hasNext() && ![92, 0, 75].includes(scanner.peek().code)) scanner.next();
+            if (scanner.peek().code !== 92) break;
+            entity.paths.push(readBoundaryPath(scanner));
+          }
+          break;
+        }
+        case 52:
+          entity.patternAngle = curr.value as number;
+          break;
+        case 41:
+          entity.patternScale = curr.value as number;
+          break;
+        case 10: // Yükseklik noktası ve tohum noktaları
+        case 20:
+        case 30:
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+class Leader {
+  ForEntityName = 'LEADER';
+
+  parseEntity(scanner: DxfArrayScanner, curr: IGroup): DxfLeaderEntity {
+    const entity = { type: curr.value, vertices: [], arrowhead: true, spline: false } as unknown as DxfLeaderEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 10:
+          entity.vertices.push(parsePoint(scanner));
+          break;
+        case 71:
+          entity.arrowhead = curr.value !== 0;
+          break;
+        case 72:
+          entity.spline = curr.value === 1;
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+class Attrib {
+  ForEntityName = 'ATTRIB';
+
+  parseEntity(scanner: DxfArrayScanner, curr: IGroup): DxfAttribEntity {
+    const entity = { type: curr.value, tag: '', text: '', textHeight: 1, rotation: 0, invisible: false } as unknown as DxfAttribEntity;
+    curr = scanner.next();
+    while (!scanner.isEOF()) {
+      if (curr.code === 0) break;
+      switch (curr.code) {
+        case 1:
+          entity.text = String(curr.value);
+          break;
+        case 2:
+          entity.tag = String(curr.value);
+          break;
+        case 10:
+          entity.position = parsePoint(scanner);
+          break;
+        case 40:
+          entity.textHeight = curr.value as number;
+          break;
+        case 50:
+          entity.rotation = curr.value as number;
+          break;
+        case 70:
+          entity.invisible = ((curr.value as number) & 1) !== 0;
+          break;
+        default:
+          checkCommonEntityProperties(entity, curr, scanner);
+          break;
+      }
+      curr = scanner.next();
+    }
+    return entity;
+  }
+}
+
+// ForEntityName tipi dxf-parser'ın kendi listesiyle sınırlı olduğundan dönüştürülerek kaydedilir
+export const DXF_ENTITY_HANDLERS = [Hatch, Leader, Attrib] as unknown as (new () => IGeometry)[];
+
+// Kayıtlı handler'ı olan tipler (dxf-parser + ek handler'lar); diğerleri okunmadan atlanır
+export const PARSED_DXF_TYPES = new Set([
+  '3DFACE', 'ARC', 'ATTDEF', 'CIRCLE', 'DIMENSION', 'ELLIPSE', 'INSERT', 'LINE', 'LWPOLYLINE',
+  'MTEXT', 'POINT', 'POLYLINE', 'SOLID', 'SPLINE', 'TEXT', 'HATCH', 'LEADER', 'ATTRIB',
+]);
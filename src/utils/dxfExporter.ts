@@ -1,31 +1,63 @@
 import { saveAs } from 'file-saver';
-import type { Entity } from '../types/entities';
-import type { DXFExportOptions } from '../types/dxf';
-import { DEFAULT_DXF_EXPORT_OPTIONS, UNIT_CODES, ACAD_VERSIONS } from '../types/dxf';
+import type { Entity, Point } from '../types/entities';
+import type { BlockTable } from '../types/blocks';
+import type { Layer } from '../types/layers';
+import { DEFAULT_LAYER, ACI_COLORS, getTransparencyOpacity, rgbToACI } from '../types/layers';
+import type { DXFExportOptions, DXFDrawingData } from '../types/dxf';
+import { DEFAULT_DXF_EXPORT_OPTIONS, UNIT_CODES, ACAD_VERSIONS, DXF_LINETYPES, DXF_LINEWEIGHTS } from '../types/dxf';
+import { DEFAULT_DIMENSION_SETTINGS, type DimensionSettings } from '../types/dimensionSettings';
+import { calculateDimensionGeometry, getDimensionGraphics } from './dimensionUtils';
+import { calculateBoundingBox } from './geometryUtils';
+import { PRESET_PATTERNS, getPatternLineFamilies } from './hatchPatterns';
+import { getHatchGradient } from './hatchGeometry';
+import { getGradientColors } from './hatchGradient';
+
+// Blok içeriği BYBLOCK renkli ve 0 katmanında yazılır (ölçü blokları entity'nin rengini alır)
+const BYBLOCK = 0;
+
+// Gerçek renk (420), saydamlık (440) ve gradyan (450-470) kodları AutoCAD 2004 (AC1018) ile geldi
+const R2004_VERSION = 'AC1018';
+
+// DXF gradyan adları
+const GRADIENT_NAMES = { linear: 'LINEAR', cylindrical: 'CYLINDER', spherical: 'SPHERICAL' };
 
 /**
  * DXFExporter exports entities to DXF file format
  */
 export class DXFExporter {
   private options: DXFExportOptions;
+  private blocks: BlockTable = {};
+  private layers: Layer[] = [];
+  private dimensionBlocks: { name: string; content: string[] }[] = [];
 
   constructor(options: Partial<DXFExportOptions> = {}) {
     this.options = { ...DEFAULT_DXF_EXPORT_OPTIONS, ...options };
   }
 
-  export(entities: Entity[]): string {
+  export(entities: Entity[], data: DXFDrawingData): string {
     const dxf: string[] = [];
-
-    dxf.push(...this.buildHeader());
-    dxf.push(...this.buildTables(entities));
-    dxf.push(...this.buildEntities(entities));
+    this.blocks = data.blocks;
+    this.layers = data.layers ?? [];
+    this.dimensionBlocks = [];
+
+    // Ölçülerin anonim blokları entity'ler yazılırken toplanır, BLOCKS bölümü ENTITIES'ten önce gelir
+    const entitySection = this.buildEntities(entities);
+    const blockSection = this.buildBlocks();
+    const blockMembers = Object.values(this.blocks).flatMap(def => def.entities);
+
+    dxf.push(...this.buildHeader(entities, data.ltscale ?? 1));
+    dxf.push(...this.buildTables([...entities, ...blockMembers], data.dimensionSettings ?? DEFAULT_DIMENSION_SETTINGS));
+    dxf.push(...blockSection);
+    dxf.push(...entitySection);
     dxf.push('0', 'EOF');
 
     return dxf.join('\n');
   }
 
-  private buildHeader(): string[] {
+  private buildHeader(entities: Entity[], ltscale: number): string[] {
     const header: string[] = [];
+    const extents = calculateBoundingBox(entities.filter(entity => entity.visible), this.blocks);
+    const imperial = this.options.units === 'Inches' || this.options.units === 'Feet';
 
     header.push('0', 'SECTION');
     header.push('2', 'HEADER');
@@ -33,16 +65,29 @@ export class DXFExporter {
     header.push('1', ACAD_VERSIONS[this.options.version]);
     header.push('9', '$INSUNITS');
     header.push('70', UNIT_CODES[this.options.units].toString());
+    header.push('9', '$MEASUREMENT');
+    header.push('70', imperial ? '0' : '1');
+    header.push('9', '$LUNITS');
+    header.push('70', '2'); // Decimal
     header.push('9', '$LUPREC');
     header.push('70', this.options.precision.toString());
+    header.push('9', '$EXTMIN');
+    header.push(...this.pointCodes(10, extents?.min ?? [0, 0, 0]));
+    header.push('9', '$EXTMAX');
+    header.push(...this.pointCodes(10, extents?.max ?? [0, 0, 0]));
+    header.push('9', '$LTSCALE');
+    header.push('40', this.format(ltscale));
+    header.push('9', '$CLAYER');
+    header.push('8', this.layerName(DEFAULT_LAYER.id));
+    header.push('9', '$DIMSTYLE');
+    header.push('2', 'STANDARD');
     header.push('0', 'ENDSEC');
 
     return header;
   }
 
-  private buildTables(entities: Entity[]): string[] {
+  private buildTables(entities: Entity[], dimensionSettings: DimensionSettings): string[] {
     const tables: string[] = [];
-    const layers = this.extractLayers(entities);
 
     tables.push('0', 'SECTION');
     tables.push('2', 'TABLES');
@@ -53,42 +98,171 @@ export class DXFExporter {
     tables.push('70', '0');
     tables.push('0', 'ENDTAB');
 
-    // LTYPE table
+    tables.push(...this.buildLinetypeTable(entities));
+    tables.push(...this.buildLayerTable(entities));
+    tables.push(...this.buildStyleTable(entities));
+
+    // APPID table
     tables.push('0', 'TABLE');
-    tables.push('2', 'LTYPE');
+    tables.push('2', 'APPID');
     tables.push('70', '1');
-    tables.push('0', 'LTYPE');
-    tables.push('2', 'CONTINUOUS');
+    tables.push('0', 'APPID');
+    tables.push('2', 'ACAD');
     tables.push('70', '0');
-    tables.push('3', 'Solid line');
-    tables.push('72', '65');
-    tables.push('73', '0');
-    tables.push('40', '0.0');
     tables.push('0', 'ENDTAB');
 
-    // LAYER table
+    tables.push(...this.buildDimStyleTable(dimensionSettings));
+
+    tables.push('0', 'ENDSEC');
+
+    return tables;
+  }
+
+  // Katmanlarda ve entity'lerde kullanılan tüm çizgi tipleri
+  private buildLinetypeTable(entities: Entity[]): string[] {
+    const names = new Set<string>(['BYBLOCK', 'BYLAYER', 'CONTINUOUS']);
+    this.layers.forEach(layer => names.add(this.linetypeName(layer.linetype || 'CONTINUOUS')));
+    entities.forEach(entity => {
+      if (entity.lineType) names.add(this.linetypeName(entity.lineType));
+    });
+
+    const tables: string[] = [];
+    tables.push('0', 'TABLE');
+    tables.push('2', 'LTYPE');
+    tables.push('70', names.size.toString());
+
+    for (const name of names) {
+      const pattern = DXF_LINETYPES[name]?.pattern ?? [];
+      tables.push('0', 'LTYPE');
+      tables.push('2', name);
+      tables.push('70', '0');
+      tables.push('3', DXF_LINETYPES[name]?.description ?? '');
+      tables.push('72', '65');
+      tables.push('73', pattern.length.toString());
+      tables.push('40', this.format(pattern.reduce((sum, element) => sum + Math.abs(element), 0)));
+      pattern.forEach(element => {
+        tables.push('49', this.format(element));
+        tables.push('74', '0');
+      });
+    }
+
+    tables.push('0', 'ENDTAB');
+    return tables;
+  }
+
+  // Katman tablosu: Layer durumunun tamamı; tabloda olmayan ama kullanılan katmanlar varsayılanlarla eklenir
+  private buildLayerTable(entities: Entity[]): string[] {
+    const records: Layer[] = this.layers.some(layer => layer.id === DEFAULT_LAYER.id)
+      ? [...this.layers]
+      : [DEFAULT_LAYER, ...this.layers];
+    const names = new Set(records.map(layer => layer.name));
+    for (const layer of this.extractLayers(entities)) {
+      const name = this.layerName(layer);
+      if (!names.has(name)) {
+        names.add(name);
+        records.push({ ...DEFAULT_LAYER, id: layer, name });
+      }
+    }
+
+    const tables: string[] = [];
     tables.push('0', 'TABLE');
     tables.push('2', 'LAYER');
-    tables.push('70', layers.size.toString());
+    tables.push('70', records.length.toString());
 
-    for (const layer of layers) {
+    for (const layer of records) {
+      const color = this.colorToACI(layer.color);
       tables.push('0', 'LAYER');
-      tables.push('2', layer);
-      tables.push('70', '0');
-      tables.push('62', '7'); // Color
-      tables.push('6', 'CONTINUOUS');
+      tables.push('2', layer.name);
+      tables.push('70', ((layer.frozen ? 1 : 0) | (layer.locked ? 4 : 0)).toString());
+      tables.push('62', (layer.visible === false ? -color : color).toString()); // Negatif renk: katman kapalı
+      tables.push(...this.trueColorCodes(layer.color));
+      tables.push('6', this.linetypeName(layer.linetype || 'CONTINUOUS'));
+      tables.push('290', layer.plot === false ? '0' : '1');
+      tables.push('370', this.toLineweight(layer.lineweight).toString());
     }
 
     tables.push('0', 'ENDTAB');
+    return tables;
+  }
 
-    // STYLE table
+  // Yazı stilleri: STANDARD ve metinlerin style adları (yazı tipi, stili kullanan ilk metinden)
+  private buildStyleTable(entities: Entity[]): string[] {
+    const styles = new Map<string, { font: string; widthFactor: number; oblique: number }>();
+    styles.set('STANDARD', { font: 'txt', widthFactor: 1, oblique: 0 });
+    entities.forEach(entity => {
+      if (entity.type !== 'TEXT' || !entity.style || styles.has(entity.style)) return;
+      styles.set(entity.style, {
+        font: entity.textStyle?.fontFamily || 'txt',
+        widthFactor: entity.textStyle?.widthFactor ?? 1,
+        oblique: entity.textStyle?.oblique ?? 0,
+      });
+    });
+
+    const tables: string[] = [];
     tables.push('0', 'TABLE');
     tables.push('2', 'STYLE');
-    tables.push('70', '0');
+    tables.push('70', styles.size.toString());
+
+    for (const [name, style] of styles) {
+      tables.push('0', 'STYLE');
+      tables.push('2', name);
+      tables.push('70', '0');
+      tables.push('40', '0'); // Sabit yükseklik yok
+      tables.push('41', this.format(style.widthFactor));
+      tables.push('50', this.format(style.oblique));
+      tables.push('71', '0');
+      tables.push('42', this.format(DEFAULT_DIMENSION_SETTINGS.textHeight));
+      tables.push('3', style.font);
+      tables.push('4', '');
+    }
+
     tables.push('0', 'ENDTAB');
+    return tables;
+  }
 
-    tables.push('0', 'ENDSEC');
+  // STANDARD ölçü stili, DimensionSettings değerlerinden
+  private buildDimStyleTable(settings: DimensionSettings): string[] {
+    const arrowBlocks: Record<string, string> = {
+      closed: '',
+      open: '_OPEN',
+      dot: '_DOT',
+      arrowDot: '_DOTSMALL',
+      architectural: '_ARCHTICK',
+      none: '_NONE',
+    };
+    const angleUnits: Record<string, number> = { decimal: 0, degMinSec: 1, gradian: 2, radian: 3 };
+    const fraction = settings.precision === 'fraction';
+    const decimals = fraction ? 4 : settings.precision.split('.')[1]?.length ?? 0;
+    const zeroSuppression = (settings.suppressLeadingZeros ? 4 : 0) | (settings.suppressTrailingZeros ? 8 : 0);
+    const horizontalText = settings.textRotation === 'horizontal' ? '1' : '0';
 
+    const tables: string[] = [];
+    tables.push('0', 'TABLE');
+    tables.push('2', 'DIMSTYLE');
+    tables.push('70', '1');
+    tables.push('0', 'DIMSTYLE');
+    tables.push('2', 'STANDARD');
+    tables.push('70', '0');
+    tables.push('5', arrowBlocks[settings.arrowStyle] ?? ''); // DIMBLK
+    tables.push('40', this.format(settings.scale)); // DIMSCALE
+    tables.push('41', this.format(settings.arrowSize * settings.arrowSizeMultiplier)); // DIMASZ
+    tables.push('42', this.format(settings.extensionLineOffset)); // DIMEXO
+    tables.push('44', this.format(settings.extensionLineExtend)); // DIMEXE
+    tables.push('73', horizontalText); // DIMTIH
+    tables.push('74', horizontalText); // DIMTOH
+    tables.push('77', settings.textAlignment === 'above' ? '1' : '0'); // DIMTAD
+    tables.push('78', zeroSuppression.toString()); // DIMZIN
+    tables.push('140', this.format(settings.textHeight)); // DIMTXT
+    tables.push('147', this.format(settings.textGap)); // DIMGAP
+    tables.push('170', settings.alternateUnits.enabled ? '1' : '0'); // DIMALT
+    tables.push('176', this.colorToACI(settings.dimLineColor).toString()); // DIMCLRD
+    tables.push('177', this.colorToACI(settings.extLineColor).toString()); // DIMCLRE
+    tables.push('178', this.colorToACI(settings.textColor).toString()); // DIMCLRT
+    tables.push('179', settings.anglePrecision.toString()); // DIMADEC
+    tables.push('271', decimals.toString()); // DIMDEC
+    tables.push('275', (angleUnits[settings.angleFormat] ?? 0).toString()); // DIMAUNIT
+    tables.push('277', fraction ? '5' : '2'); // DIMLUNIT
+    tables.push('0', 'ENDTAB');
     return tables;
   }
 
@@ -108,11 +282,73 @@ export class DXFExporter {
     return dxf;
   }
 
-  private buildEntity(entity: Entity): string[] {
+  private buildBlocks(): string[] {
     const dxf: string[] = [];
 
-    dxf.push('8', entity.layer);
+    dxf.push('0', 'SECTION');
+    dxf.push('2', 'BLOCKS');
+
+    for (const def of Object.values(this.blocks)) {
+      const content: string[] = [];
+      for (const member of def.entities) {
+        if (member.visible === false) continue;
+        content.push(...this.buildEntity(member));
+      }
+      for (const attr of def.attributes || []) {
+        content.push(...this.buildAttributeDefinition(attr));
+      }
+      dxf.push(...this.buildBlock(def.name, def.basePoint, content, false));
+    }
+
+    // Üye ölçülerinin blokları da yukarıda eklenmiş olur
+    for (const block of this.dimensionBlocks) {
+      dxf.push(...this.buildBlock(block.name, [0, 0, 0], block.content, true));
+    }
+
+    dxf.push('0', 'ENDSEC');
+
+    return dxf;
+  }
+
+  private buildBlock(name: string, basePoint: Point, content: string[], anonymous: boolean): string[] {
+    const dxf: string[] = [];
+    dxf.push('0', 'BLOCK');
+    dxf.push('8', '0');
+    dxf.push('2', name);
+    dxf.push('70', anonymous ? '1' : '0');
+    dxf.push('10', this.format(basePoint[0]));
+    dxf.push('20', this.format(basePoint[1]));
+    dxf.push('30', this.format(basePoint[2] || 0));
+    dxf.push('3', name);
+    dxf.push('1', '');
+    dxf.push(...content);
+    dxf.push('0', 'ENDBLK');
+    dxf.push('8', '0');
+    return dxf;
+  }
+
+  // Ortak grup kodları: tip, katman ve renk (HATCH/DIMENSION için alt sınıf işaretleri ile)
+  private entityHeader(type: string, entity: Entity, subclass?: string): string[] {
+    const dxf: string[] = ['0', type];
+    if (subclass) dxf.push('100', 'AcDbEntity');
+    dxf.push('8', this.layerName(entity.layer));
     dxf.push('62', this.colorToACI(entity.color).toString());
+    dxf.push(...this.trueColorCodes(entity.color));
+    if (entity.lineType && !['CONTINUOUS', 'BYLAYER'].includes(this.linetypeName(entity.lineType))) {
+      dxf.push('6', this.linetypeName(entity.lineType));
+    }
+    if (entity.lineWeight) dxf.push('370', this.toLineweight(entity.lineWeight).toString());
+    if (entity.transparency !== undefined && this.supportsR2004Codes()) {
+      // 0x02000000 | alfa (0 saydam - 255 opak)
+      const alpha = Math.round(255 * getTransparencyOpacity(entity.transparency));
+      dxf.push('440', (0x02000000 | alpha).toString());
+    }
+    if (subclass) dxf.push('100', subclass);
+    return dxf;
+  }
+
+  private buildEntity(entity: Entity): string[] {
+    const dxf: string[] = [];
 
     switch (entity.type) {
       case 'LINE':
@@ -148,8 +384,22 @@ export class DXFExporter {
       case 'DONUT':
         dxf.push(...this.buildDonut(entity));
         break;
+      case 'RAY':
+      case 'XLINE':
+        dxf.push(...this.buildRay(entity));
+        break;
+      case 'HATCH':
+        dxf.push(...this.buildHatch(entity));
+        break;
+      case 'DIMENSION':
+        dxf.push(...this.buildDimension(entity));
+        break;
+      case 'BLOCK_REFERENCE':
+      case 'INSERT':
+        dxf.push(...this.buildInsert(entity));
+        break;
       default:
-        console.warn(`Unsupported entity type for DXF export: ${entity.type}`);
+        console.warn(`Unsupported entity type for DXF export: ${(entity as Entity).type}`);
     }
 
     return dxf;
@@ -157,7 +407,7 @@ export class DXFExporter {
 
   private buildLine(entity: any): string[] {
     const dxf: string[] = [];
-    dxf.push('0', 'LINE');
+    dxf.push(...this.entityHeader('LINE', entity));
     dxf.push('10', this.format(entity.start[0]));
     dxf.push('20', this.format(entity.start[1]));
     dxf.push('30', this.format(entity.start[2] || 0));
@@ -169,21 +419,31 @@ export class DXFExporter {
 
   private buildLWPolyline(entity: any): string[] {
     const dxf: string[] = [];
-    dxf.push('0', 'LWPOLYLINE');
+    dxf.push(...this.entityHeader('LWPOLYLINE', entity));
     dxf.push('90', entity.vertices.length.toString());
     dxf.push('70', entity.closed ? '1' : '0');
+    if (entity.constantWidth) dxf.push('43', this.format(entity.constantWidth));
 
-    for (const vertex of entity.vertices) {
+    entity.vertices.forEach((vertex: number[], i: number) => {
       dxf.push('10', this.format(vertex[0]));
       dxf.push('20', this.format(vertex[1]));
-    }
+      // Per-vertex widths and bulge of the segment starting here
+      const startWidth = entity.startWidths?.[i] || 0;
+      const endWidth = entity.endWidths?.[i] || 0;
+      if (startWidth || endWidth) {
+        dxf.push('40', this.format(startWidth));
+        dxf.push('41', this.format(endWidth));
+      }
+      const bulge = entity.bulges?.[i] || 0;
+      if (bulge) dxf.push('42', this.format(bulge));
+    });
 
     return dxf;
   }
 
   private buildCircle(entity: any): string[] {
     const dxf: string[] = [];
-    dxf.push('0', 'CIRCLE');
+    dxf.push(...this.entityHeader('CIRCLE', entity));
     dxf.push('10', this.format(entity.center[0]));
     dxf.push('20', this.format(entity.center[1]));
     dxf.push('30', this.format(entity.center[2] || 0));
@@ -193,7 +453,7 @@ export class DXFExporter {
 
   private buildArc(entity: any): string[] {
     const dxf: string[] = [];
-    dxf.push('0', 'ARC');
+    dxf.push(...this.entityHeader('ARC', entity));
     dxf.push('10', this.format(entity.center[0]));
     dxf.push('20', this.format(entity.center[1]));
     dxf.push('30', this.format(entity.center[2] || 0));
@@ -205,7 +465,7 @@ export class DXFExporter {
 
   private buildEllipse(entity: any): string[] {
     const dxf: string[] = [];
-    dxf.push('0', 'ELLIPSE');
+    dxf.push(...this.entityHeader('ELLIPSE', entity));
     dxf.push('10', this.format(entity.center[0]));
     dxf.push('20', this.format(entity.center[1]));
     dxf.push('30', this.format(entity.center[2] || 0));
@@ -220,7 +480,7 @@ export class DXFExporter {
 
   private buildPoint(entity: any): string[] {
     const dxf: string[] = [];
-    dxf.push('0', 'POINT');
+    dxf.push(...this.entityHeader('POINT', entity));
     dxf.push('10', this.format(entity.position[0]));
     dxf.push('20', this.format(entity.position[1]));
     dxf.push('30', this.format(entity.position[2] || 0));
@@ -229,12 +489,13 @@ export class DXFExporter {
 
   private buildText(entity: any): string[] {
     const dxf: string[] = [];
-    dxf.push('0', 'TEXT');
+    dxf.push(...this.entityHeader('TEXT', entity));
     dxf.push('10', this.format(entity.position[0]));
     dxf.push('20', this.format(entity.position[1]));
     dxf.push('30', this.format(entity.position[2] || 0));
     dxf.push('40', this.format(entity.height));
     dxf.push('1', entity.text);
+    if (entity.style) dxf.push('7', entity.style);
 
     if (entity.rotation !== undefined) {
       dxf.push('50', this.format(entity.rotation * 180 / Math.PI));
@@ -245,7 +506,7 @@ export class DXFExporter {
 
   private buildMText(entity: any): string[] {
     const dxf: string[] = [];
-    dxf.push('0', 'MTEXT');
+    dxf.push(...this.entityHeader('MTEXT', entity));
     dxf.push('10', this.format(entity.position[0]));
     dxf.push('20', this.format(entity.position[1]));
     dxf.push('30', this.format(entity.position[2] || 0));
@@ -291,7 +552,7 @@ export class DXFExporter {
       const [x2, y2] = rotatePoint(startX + tableWidth, y);
 
       dxf.push('0', 'LINE');
-      dxf.push('8', entity.layer);
+      dxf.push('8', this.layerName(entity.layer));
       dxf.push('10', this.format(x1));
       dxf.push('20', this.format(y1));
       dxf.push('30', '0');
@@ -307,7 +568,7 @@ export class DXFExporter {
       const [x2, y2] = rotatePoint(x, startY - tableHeight);
 
       dxf.push('0', 'LINE');
-      dxf.push('8', entity.layer);
+      dxf.push('8', this.layerName(entity.layer));
       dxf.push('10', this.format(x1));
       dxf.push('20', this.format(y1));
       dxf.push('30', '0');
@@ -327,7 +588,7 @@ export class DXFExporter {
             const [tx, ty] = rotatePoint(cellX, cellY);
 
             dxf.push('0', 'TEXT');
-            dxf.push('8', entity.layer);
+            dxf.push('8', this.layerName(entity.layer));
             dxf.push('10', this.format(tx));
             dxf.push('20', this.format(ty));
             dxf.push('30', '0');
@@ -346,7 +607,7 @@ export class DXFExporter {
 
   private buildSpline(entity: any): string[] {
     const dxf: string[] = [];
-    dxf.push('0', 'SPLINE');
+    dxf.push(...this.entityHeader('SPLINE', entity));
     dxf.push('70', entity.closed ? '11' : '8'); // Flags
     dxf.push('71', entity.degree.toString()); // Degree
     dxf.push('72', '0'); // Number of knots (will be calculated)
@@ -364,29 +625,295 @@ export class DXFExporter {
   }
 
   private buildDonut(entity: any): string[] {
-    // DONUT, DXF'te LWPOLYLINE olarak kaydedilir (iki yarım daire arc)
-    // Basitlik için iki daire olarak export edelim
+    // DONUT, DXF'te iki yarım daire yaydan oluşan kalın kapalı LWPOLYLINE olarak kaydedilir
+    const { center, innerRadius, outerRadius } = entity;
+    const radius = (innerRadius + outerRadius) / 2;
+    return this.buildLWPolyline({
+      ...entity,
+      vertices: [
+        [center[0] - radius, center[1], center[2] || 0],
+        [center[0] + radius, center[1], center[2] || 0],
+      ],
+      bulges: [1, 1],
+      constantWidth: outerRadius - innerRadius,
+      closed: true,
+    });
+  }
+
+  private buildRay(entity: any): string[] {
     const dxf: string[] = [];
+    const length = Math.hypot(entity.direction[0], entity.direction[1], entity.direction[2] || 0) || 1;
+    dxf.push(...this.entityHeader(entity.type, entity));
+    dxf.push('10', this.format(entity.origin[0]));
+    dxf.push('20', this.format(entity.origin[1]));
+    dxf.push('30', this.format(entity.origin[2] || 0));
+    dxf.push('11', this.format(entity.direction[0] / length));
+    dxf.push('21', this.format(entity.direction[1] / length));
+    dxf.push('31', this.format((entity.direction[2] || 0) / length));
+    return dxf;
+  }
 
-    // İç çember
-    dxf.push('0', 'CIRCLE');
-    dxf.push('8', entity.layer);
-    dxf.push('10', this.format(entity.center[0]));
-    dxf.push('20', this.format(entity.center[1]));
-    dxf.push('30', this.format(entity.center[2] || 0));
-    dxf.push('40', this.format(entity.innerRadius));
+  private buildHatch(entity: any): string[] {
+    const dxf: string[] = [];
+    const patternName: string = entity.pattern?.name || 'ANSI31';
+    const config = PRESET_PATTERNS[patternName];
+    const gradient = getHatchGradient(entity);
+    // Gradyanlar dolu tarama olarak yazılır; eski sürümlerde düz dolgu kalır
+    const solid = patternName.toUpperCase() === 'SOLID' || config?.type === 'solid' || !!gradient;
+    const paths = [entity.boundary, ...(entity.islands || [])].filter(path => path?.vertices?.length >= 3);
+
+    dxf.push(...this.entityHeader('HATCH', entity, 'AcDbHatch'));
+    dxf.push('10', '0', '20', '0', '30', '0'); // Elevation point
+    dxf.push('210', '0', '220', '0', '230', '1'); // Extrusion
+    dxf.push('2', solid ? 'SOLID' : patternName);
+    dxf.push('70', solid ? '1' : '0');
+    dxf.push('71', '0'); // Non-associative
+    dxf.push('91', paths.length.toString());
+
+    paths.forEach((path: any, index: number) => {
+      const hasBulges = (path.bulges || []).some((b: number) => b !== 0);
+      dxf.push('92', index === 0 ? '3' : '2'); // Polyline path (+1 external for the outer boundary)
+      dxf.push('72', hasBulges ? '1' : '0');
+      dxf.push('73', '1');
+      dxf.push('93', path.vertices.length.toString());
+      path.vertices.forEach((vertex: number[], i: number) => {
+        dxf.push('10', this.format(vertex[0]));
+        dxf.push('20', this.format(vertex[1]));
+        if (hasBulges) dxf.push('42', this.format(path.bulges?.[i] || 0));
+      });
+      dxf.push('97', '0'); // Source boundary objects
+    });
+
+    dxf.push('75', '0'); // Normal hatch style
+    dxf.push('76', !config ? '0' : config.category === 'custom' ? '2' : '1'); // User-defined / predefined / custom
+
+    if (!solid) {
+      const rotation = (entity.rotation || 0) * 180 / Math.PI;
+      const scale = entity.scale || 1;
+      // Çizgi aileleri ölçek ve döndürme uygulanmış olarak yazılır (43/44 başlangıç, 45/46 dünya öteleme)
+      const families = getPatternLineFamilies(config ?? PRESET_PATTERNS['ANSI31']);
+
+      dxf.push('52', this.format(rotation));
+      dxf.push('41', this.format(scale));
+      dxf.push('77', '0');
+      dxf.push('78', families.length.toString());
+      families.forEach(family => {
+        const angle = family.angle + rotation;
+        const rad = angle * Math.PI / 180;
+        const base = rotation * Math.PI / 180;
+        const [ox, oy] = family.origin;
+        const [dx, dy] = family.offset;
+        dxf.push('53', this.format(angle));
+        dxf.push('43', this.format((ox * Math.cos(base) - oy * Math.sin(base)) * scale));
+        dxf.push('44', this.format((ox * Math.sin(base) + oy * Math.cos(base)) * scale));
+        dxf.push('45', this.format((dx * Math.cos(rad) - dy * Math.sin(rad)) * scale));
+        dxf.push('46', this.format((dx * Math.sin(rad) + dy * Math.cos(rad)) * scale));
+        dxf.push('79', family.dashes.length.toString());
+        family.dashes.forEach(dash => dxf.push('49', this.format(dash * scale)));
+      });
+    }
 
-    // Dış çember
-    dxf.push('0', 'CIRCLE');
-    dxf.push('8', entity.layer);
-    dxf.push('10', this.format(entity.center[0]));
-    dxf.push('20', this.format(entity.center[1]));
-    dxf.push('30', this.format(entity.center[2] || 0));
-    dxf.push('40', this.format(entity.outerRadius));
+    dxf.push('98', '0'); // Seed points
+
+    if (gradient && this.supportsR2004Codes()) {
+      const colors = getGradientColors(gradient);
+      dxf.push('450', '1'); // Gradient fill
+      dxf.push('451', '0');
+      dxf.push('452', gradient.color2 ? '0' : '1'); // One-color gradient
+      dxf.push('453', '2');
+      dxf.push('460', this.format((gradient.angle || 0) * Math.PI / 180));
+      dxf.push('461', this.format(gradient.shift || 0));
+      dxf.push('462', this.format(gradient.tint ?? 1));
+      colors.forEach((color, i) => {
+        dxf.push('463', i.toString());
+        dxf.push('63', this.colorToACI(color).toString());
+        dxf.push('421', parseInt(color.replace('#', ''), 16).toString());
+      });
+      dxf.push('470', GRADIENT_NAMES[gradient.type]);
+    }
+    return dxf;
+  }
+
+  private buildDimension(entity: any): string[] {
+    const dxf: string[] = [];
+    const name = `*D${this.dimensionBlocks.length + 1}`;
+    const { start, end, dimType } = entity;
+    const dimLinePosition: Point = entity.dimLinePosition || end;
+
+    let typeCode: number;
+    let definition: Point;
+    let textPosition: Point;
+    let subclass: string[];
+
+    if (dimType === 'DIMANGULAR' && entity.center) {
+      const { center } = entity;
+      const radius = Math.hypot(dimLinePosition[0] - center[0], dimLinePosition[1] - center[1]);
+      const p1 = start || this.polar(center, radius, entity.startAngle);
+      const p2 = end || this.polar(center, radius, entity.endAngle);
+      typeCode = 5; // 3-point angular
+      definition = dimLinePosition;
+      textPosition = this.polar(center, radius, entity.startAngle + this.sweep(entity.startAngle, entity.endAngle) / 2);
+      subclass = ['100', 'AcDb3PointAngularDimension', ...this.pointCodes(13, p1), ...this.pointCodes(14, p2), ...this.pointCodes(15, center)];
+    } else if (dimType === 'DIMRADIUS') {
+      typeCode = 4;
+      definition = start;
+      textPosition = dimLinePosition;
+      subclass = ['100', 'AcDbRadialDimension', ...this.pointCodes(15, end), '40', '0'];
+    } else if (dimType === 'DIMDIAMETER') {
+      typeCode = 3;
+      definition = [2 * start[0] - end[0], 2 * start[1] - end[1], 0];
+      textPosition = dimLinePosition;
+      subclass = ['100', 'AcDbDiametricDimension', ...this.pointCodes(15, end), '40', '0'];
+    } else {
+      // DIMLINEAR, DIMALIGNED, DIMCONTINUE, DIMBASELINE: ölçü çizgisi ölçülen doğrultuya paraleldir
+      const geo = calculateDimensionGeometry(start, end, dimLinePosition, 'aligned');
+      const rotated = dimType !== 'DIMALIGNED';
+      typeCode = rotated ? 0 : 1;
+      definition = geo.dimEnd;
+      textPosition = geo.textPosition;
+      subclass = ['100', 'AcDbAlignedDimension', ...this.pointCodes(13, start), ...this.pointCodes(14, end)];
+      if (rotated) subclass.push('50', this.format(geo.rotation * 180 / Math.PI), '100', 'AcDbRotatedDimension');
+    }
+
+    this.dimensionBlocks.push({ name, content: this.buildDimensionGeometry(entity) });
+
+    dxf.push(...this.entityHeader('DIMENSION', entity, 'AcDbDimension'));
+    dxf.push('2', name);
+    dxf.push('3', 'STANDARD');
+    dxf.push(...this.pointCodes(10, definition));
+    dxf.push(...this.pointCodes(11, textPosition));
+    dxf.push('70', (typeCode | 32).toString()); // 32: blok yalnızca bu ölçüye ait
+    dxf.push('1', entity.text || '');
+    dxf.push(...subclass);
+    return dxf;
+  }
+
+  // Ölçünün görünen geometrisi (çizgiler, oklar, metin) - ekrandaki çizimle aynı hesap
+  private buildDimensionGeometry(entity: any): string[] {
+    const dxf: string[] = [];
+    const graphics = getDimensionGraphics(entity);
+
+    graphics.arcs.forEach(arc => {
+      dxf.push('0', 'ARC', '8', '0', '62', BYBLOCK.toString());
+      dxf.push(...this.pointCodes(10, arc.center));
+      dxf.push('40', this.format(arc.radius));
+      dxf.push('50', this.format(arc.startAngle * 180 / Math.PI));
+      dxf.push('51', this.format(arc.endAngle * 180 / Math.PI));
+    });
+    graphics.lines.forEach(([p1, p2]) => dxf.push(...this.blockLine(p1, p2)));
+    graphics.arrows.forEach(arrow => dxf.push(...this.blockArrow(arrow)));
+    graphics.texts.forEach(text => dxf.push(...this.blockText(text.position, text.height, text.text, text.rotation)));
 
     return dxf;
   }
 
+  private buildInsert(entity: any): string[] {
+    const dxf: string[] = [];
+    const def = this.blocks[entity.blockName];
+    if (!def) {
+      console.warn(`Block definition not found for DXF export: ${entity.blockName}`);
+      return dxf;
+    }
+
+    const [sx, sy, sz] = entity.scale || [1, 1, 1];
+    const rotation = entity.rotation || 0;
+    const attributes = (def.attributes || []).filter(attr => !attr.constant);
+
+    dxf.push(...this.entityHeader('INSERT', entity));
+    if (attributes.length > 0) dxf.push('66', '1');
+    dxf.push('2', entity.blockName);
+    dxf.push(...this.pointCodes(10, entity.position));
+    dxf.push('41', this.format(sx ?? 1));
+    dxf.push('42', this.format(sy ?? 1));
+    dxf.push('43', this.format(sz ?? 1));
+    dxf.push('50', this.format(rotation * 180 / Math.PI));
+
+    if (attributes.length === 0) return dxf;
+
+    // Örnek değerleri ATTRIB olarak, blok dönüşümüyle konumlanmış şekilde yazılır
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    for (const attr of attributes) {
+      const x = (attr.position[0] - def.basePoint[0]) * (sx ?? 1);
+      const y = (attr.position[1] - def.basePoint[1]) * (sy ?? 1);
+      dxf.push('0', 'ATTRIB');
+      dxf.push('8', this.layerName(entity.layer));
+      dxf.push('62', this.colorToACI(entity.color).toString());
+      dxf.push(...this.trueColorCodes(entity.color));
+      dxf.push('10', this.format(entity.position[0] + x * cos - y * sin));
+      dxf.push('20', this.format(entity.position[1] + x * sin + y * cos));
+      dxf.push('30', this.format(entity.position[2] || 0));
+      dxf.push('40', this.format(attr.height * Math.sqrt(Math.abs((sx ?? 1) * (sy ?? 1)))));
+      dxf.push('1', entity.attributes?.[attr.tag] ?? attr.defaultValue);
+      dxf.push('50', this.format(((attr.rotation || 0) + rotation) * 180 / Math.PI));
+      dxf.push('2', attr.tag);
+      dxf.push('70', attr.invisible ? '1' : '0');
+    }
+    dxf.push('0', 'SEQEND');
+    dxf.push('8', this.layerName(entity.layer));
+
+    return dxf;
+  }
+
+  private buildAttributeDefinition(attr: any): string[] {
+    const dxf: string[] = [];
+    dxf.push('0', 'ATTDEF');
+    dxf.push('8', '0');
+    dxf.push(...this.pointCodes(10, attr.position));
+    dxf.push('40', this.format(attr.height));
+    dxf.push('1', attr.defaultValue);
+    dxf.push('50', this.format((attr.rotation || 0) * 180 / Math.PI));
+    dxf.push('3', attr.prompt);
+    dxf.push('2', attr.tag);
+    dxf.push('70', ((attr.invisible ? 1 : 0) | (attr.constant ? 2 : 0)).toString());
+    return dxf;
+  }
+
+  private blockLine(p1: Point, p2: Point): string[] {
+    return ['0', 'LINE', '8', '0', '62', BYBLOCK.toString(), ...this.pointCodes(10, p1), ...this.pointCodes(11, p2)];
+  }
+
+  // Dolu ok ucu (SOLID üçgen): uç, sol ve sağ köşe
+  private blockArrow([tip, left, right]: [Point, Point, Point]): string[] {
+    return [
+      '0', 'SOLID', '8', '0', '62', BYBLOCK.toString(),
+      ...this.pointCodes(10, tip), ...this.pointCodes(11, left), ...this.pointCodes(12, right), ...this.pointCodes(13, right),
+    ];
+  }
+
+  // Ortalanmış metin (açı okunur aralığa getirilmiş olarak gelir)
+  private blockText(position: Point, height: number, text: string, rotation: number): string[] {
+    return [
+      '0', 'TEXT', '8', '0', '62', BYBLOCK.toString(),
+      ...this.pointCodes(10, position),
+      '40', this.format(height),
+      '1', text,
+      '50', this.format(rotation * 180 / Math.PI),
+      '72', '1',
+      ...this.pointCodes(11, position),
+      '73', '2',
+    ];
+  }
+
+  private pointCodes(code: number, point: Point): string[] {
+    return [
+      code.toString(), this.format(point[0]),
+      (code + 10).toString(), this.format(point[1]),
+      (code + 20).toString(), this.format(point[2] || 0),
+    ];
+  }
+
+  private polar(center: Point, radius: number, angle: number): Point {
+    return [center[0] + Math.cos(angle) * radius, center[1] + Math.sin(angle) * radius, 0];
+  }
+
+  // Başlangıçtan bitişe saat yönü tersine açı farkı (0..2π)
+  private sweep(startAngle: number, endAngle: number): number {
+    let diff = endAngle - startAngle;
+    if (diff < 0) diff += Math.PI * 2;
+    return diff;
+  }
+
   private extractLayers(entities: Entity[]): Set<string> {
     const layers = new Set<string>();
     for (const entity of entities) {
@@ -395,23 +922,44 @@ export class DXFExporter {
     return layers;
   }
 
+  // Entity'ler katman ID'si veya adı taşıyabilir; DXF'e katman adı yazılır
+  private layerName(layer: string): string {
+    return this.layers.find(l => l.id === layer)?.name ?? layer;
+  }
+
+  private linetypeName(linetype: string): string {
+    return linetype.toUpperCase();
+  }
+
+  // mm cinsinden çizgi kalınlığı -> en yakın standart DXF değeri (1/100 mm), 0 = varsayılan (-3)
+  private toLineweight(weight: number): number {
+    if (!weight || weight <= 0) return -3;
+    const target = weight * 100;
+    return DXF_LINEWEIGHTS.reduce((best, value) => Math.abs(value - target) < Math.abs(best - target) ? value : best);
+  }
+
+  private supportsR2004Codes(): boolean {
+    return (ACAD_VERSIONS[this.options.version] || '') >= R2004_VERSION;
+  }
+
   private format(value: number): string {
     return value.toFixed(this.options.precision);
   }
 
   private colorToACI(hexColor: string): number {
-    // Simplified color mapping
-    const colorMap: Record<string, number> = {
-      '#ffffff': 7,
-      '#ff0000': 1,
-      '#ffff00': 2,
-      '#00ff00': 3,
-      '#00ffff': 4,
-      '#0000ff': 5,
-      '#ff00ff': 6,
-      '#000000': 7,
-    };
-    return colorMap[hexColor.toLowerCase()] || 7;
+    if (!hexColor) return 7;
+    // Siyah, arka plana göre siyah/beyaz çizilen 7 olarak yazılır
+    if (hexColor.toLowerCase() === '#000000') return 7;
+    return rgbToACI(hexColor);
+  }
+
+  // 62 en yakın ACI rengidir; palette tam karşılığı olmayan renkler 420 ile birebir yazılır
+  private trueColorCodes(hexColor: string): string[] {
+    if (!hexColor?.startsWith('#') || !this.supportsR2004Codes()) return [];
+    const aci = this.colorToACI(hexColor);
+    if (aci === 7 && hexColor.toLowerCase() === '#000000') return [];
+    if (ACI_COLORS[aci]?.toLowerCase() === hexColor.toLowerCase()) return [];
+    return ['420', (parseInt(hexColor.slice(1), 16) & 0xffffff).toString()];
   }
 }
 
@@ -421,10 +969,11 @@ export class DXFExporter {
 export const exportDXF = (
   entities: Entity[],
   filename: string = 'drawing.dxf',
-  options?: Partial<DXFExportOptions>
+  options: Partial<DXFExportOptions> = {},
+  data: DXFDrawingData
 ): void => {
   const exporter = new DXFExporter(options);
-  const dxfContent = exporter.export(entities);
+  const dxfContent = exporter.export(entities, data);
   const blob = new Blob([dxfContent], { type: 'application/dxf' });
   saveAs(blob, filename);
 };
@@ -434,8 +983,9 @@ export const exportDXF = (
  */
 export const exportDXFToString = (
   entities: Entity[],
-  options?: Partial<DXFExportOptions>
+  options: Partial<DXFExportOptions> = {},
+  data: DXFDrawingData
 ): string => {
   const exporter = new DXFExporter(options);
-  return exporter.export(entities);
+  return exporter.export(entities, data);
 };
@@ -1,24 +1,66 @@
 import DxfParser from 'dxf-parser';
-import type { Entity } from '../types/entities';
+import type { IDxf } from 'dxf-parser';
+import type { Entity, BaseEntity, Point, LWPolylineEntity, DimensionEntity } from '../types/entities';
+import type { BlockTable } from '../types/blocks';
+import type { Layer } from '../types/layers';
+import { DEFAULT_LAYER, ACI_BYBLOCK, ACI_BYLAYER, aciToRGB, trueColorToRGB } from '../types/layers';
+import { createBlockDefinition } from './blockUtils';
+import { createPolylineData } from './polylineUtils';
+import { polygonArea } from './geometryUtils';
+import { PRESET_PATTERNS } from './hatchPatterns';
+import { getAcadColor } from 'dxf-parser/dist/ParseHelpers';
+import { DXF_ENTITY_HANDLERS, PARSED_DXF_TYPES } from './dxfEntityHandlers';
+import type { DxfHatchEntity, DxfHatchPath, DxfLeaderEntity, DxfAttribEntity } from './dxfEntityHandlers';
+
+/**
+ * Summary of a DXF import: imported and skipped DXF entity types with counts
+ */
+export interface DXFImportReport {
+  imported: Record<string, number>;
+  skipped: Record<string, number>;
+  blockCount: number;
+  warnings: string[];
+}
 
 interface DXFImportResult {
   entities: Entity[];
-  layers: string[];
+  blocks: BlockTable;
+  layers: Layer[]; // Katman tablosu; entity.layer katman adını taşır
   errors: string[];
   warnings: string[];
+  report: DXFImportReport;
 }
 
+// Dönüştürme sırasında paylaşılan durum
+interface ConversionContext {
+  dxf: IDxf;
+  blocks: BlockTable;
+  converting: Set<string>; // Döngüsel blok tanımlarına karşı
+  report: DXFImportReport;
+  arrowSize: number; // LEADER ok boyu ($DIMASZ * $DIMSCALE)
+}
+
+// Tüm dönüştürülen entity'lerde ortak alanlar
+type CommonProperties = Pick<BaseEntity, 'color' | 'layer' | 'visible' | 'locked'>;
+
+// Entity olmayan yapı grupları (bölüm/blok sınırları, POLYLINE alt kayıtları)
+const STRUCTURE_TYPES = new Set(['SECTION', 'ENDSEC', 'BLOCK', 'ENDBLK', 'SEQEND', 'VERTEX', 'EOF']);
+
 /**
  * Parse DXF file content and convert to internal entity format
  */
 export const parseDxf = (fileContent: string): DXFImportResult => {
   const parser = new DxfParser();
+  DXF_ENTITY_HANDLERS.forEach(handler => parser.registerEntityHandler(handler));
   const result: DXFImportResult = {
     entities: [],
-    layers: ['0'],
+    blocks: {},
+    layers: [],
     errors: [],
     warnings: [],
+    report: { imported: {}, skipped: {}, blockCount: 0, warnings: [] },
   };
+  result.report.warnings = result.warnings;
 
   try {
     const dxf = parser.parseSync(fileContent);
@@ -29,27 +71,34 @@ export const parseDxf = (fileContent: string): DXFImportResult => {
       return result;
     }
 
-    // Extract tables for layers
-    if (dxf.tables && dxf.tables.layer && dxf.tables.layer.layers) {
-      for (const layerName in dxf.tables.layer.layers) {
-        if (layerName !== '0') {
-          result.layers.push(layerName);
-        }
-      }
-    }
+    // Ayrıştırıcının hiç okumadığı tipler doğrudan atlanmış sayılır
+    result.report.skipped = countUnparsedTypes(fileContent);
+
+    const header = dxf.header || {};
+    const ctx: ConversionContext = {
+      dxf,
+      blocks: result.blocks,
+      converting: new Set(),
+      report: result.report,
+      arrowSize: ((header.$DIMASZ as number) || 2.5) * ((header.$DIMSCALE as number) || 1),
+    };
 
     if (dxf.entities) {
-      for (const ent of dxf.entities) {
-        try {
-          const converted = convertDxfEntity(ent);
-          if (converted) {
-            result.entities.push(converted);
-          }
-        } catch (err) {
-          result.warnings.push(`Failed to convert entity ${ent.type}: ${err}`);
-        }
-      }
+      result.entities = convertEntities(dxf.entities, ctx);
+    }
+
+    // Referans verilmeyen isimli bloklar da tabloya alınır (anonim *D, *U, *Model_Space hariç)
+    for (const name in dxf.blocks || {}) {
+      if (!name.startsWith('*')) ensureBlock(name, ctx);
     }
+    result.report.blockCount = Object.keys(result.blocks).length;
+
+    // Katman tablosu ham gruplardan okunur (ayrıştırıcı çizgi tipi, kalınlık, kilit ve 420'yi atlıyor)
+    result.layers = readLayerTable(fileContent);
+    addMissingLayers(result.layers, [
+      ...result.entities,
+      ...Object.values(result.blocks).flatMap(block => block.entities),
+    ]);
   } catch (e) {
     result.errors.push(`DXF Parse Error: ${e}`);
   }
@@ -57,128 +106,280 @@ export const parseDxf = (fileContent: string): DXFImportResult => {
   return result;
 };
 
+/**
+ * Visit every group code/value pair of a DXF file together with the section it belongs to
+ */
+const forEachGroup = (fileContent: string, visit: (code: number, value: string, section: string) => void): void => {
+  const lines = fileContent.split(/\r\n|\r|\n/);
+  let section = '';
+
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i], 10);
+    const value = lines[i + 1].trim();
+    if (code === 2 && i >= 2 && lines[i - 1].trim() === 'SECTION') {
+      section = value;
+    } else if (code === 0 && value === 'ENDSEC') {
+      section = '';
+    }
+    visit(code, value, section);
+  }
+};
+
+/**
+ * Count entity types in the ENTITIES and BLOCKS sections that the parser has no handler for
+ */
+const countUnparsedTypes = (fileContent: string): Record<string, number> => {
+  const counts: Record<string, number> = {};
+
+  forEachGroup(fileContent, (code, value, section) => {
+    if (code === 0 && (section === 'ENTITIES' || section === 'BLOCKS') && !STRUCTURE_TYPES.has(value) && !PARSED_DXF_TYPES.has(value)) {
+      counts[value] = (counts[value] || 0) + 1;
+    }
+  });
+
+  return counts;
+};
+
+/**
+ * Read the LAYER table: color (62, negative = off), true color (420), flags (70: 1 frozen, 4 locked),
+ * linetype (6), lineweight (370, 1/100 mm) and plot flag (290)
+ */
+const readLayerTable = (fileContent: string): Layer[] => {
+  const layers: Layer[] = [];
+  let table = '';
+  let layer: Layer | null = null;
+
+  forEachGroup(fileContent, (code, value, section) => {
+    if (section !== 'TABLES') return;
+    if (code === 0) {
+      layer = null;
+      if (value === 'TABLE') table = '';
+      if (value === 'LAYER' && table === 'LAYER') {
+        layer = { ...DEFAULT_LAYER };
+        layers.push(layer);
+      }
+      return;
+    }
+    if (code === 2 && table === '' && !layer) {
+      table = value;
+      return;
+    }
+    if (!layer) return;
+
+    const number = parseFloat(value);
+    switch (code) {
+      case 2:
+        layer.name = value;
+        layer.id = value;
+        break;
+      case 62:
+        layer.color = aciToRGB(Math.abs(number));
+        layer.visible = number >= 0;
+        break;
+      case 420: // 62'den sonra gelir ve onu geçersiz kılar
+        layer.color = trueColorToRGB(number);
+        break;
+      case 70:
+        layer.frozen = (number & 1) !== 0;
+        layer.locked = (number & 4) !== 0;
+        break;
+      case 6:
+        layer.linetype = value.toUpperCase();
+        break;
+      case 370:
+        layer.lineweight = number > 0 ? number / 100 : 0;
+        break;
+      case 290:
+        layer.plot = number !== 0;
+        break;
+    }
+  });
+
+  return layers.filter(l => l.name);
+};
+
+/**
+ * Add default layers for layer names used by entities but missing from the LAYER table
+ */
+const addMissingLayers = (layers: Layer[], entities: Entity[]): void => {
+  const names = new Set(layers.map(l => l.name.toLowerCase()));
+  if (!names.has(DEFAULT_LAYER.name)) {
+    layers.unshift({ ...DEFAULT_LAYER });
+    names.add(DEFAULT_LAYER.name);
+  }
+  entities.forEach(entity => {
+    if (entity.layer && !names.has(entity.layer.toLowerCase())) {
+      layers.push({ ...DEFAULT_LAYER, id: entity.layer, name: entity.layer });
+      names.add(entity.layer.toLowerCase());
+    }
+  });
+};
+
+/**
+ * Convert a list of parsed entities; ATTRIBs are attached to the INSERT they follow
+ */
+const convertEntities = (entities: any[], ctx: ConversionContext): Entity[] => {
+  const result: Entity[] = [];
+  let lastInsert: any = null;
+
+  for (const ent of entities) {
+    if (ent.type === 'ATTRIB') {
+      if (lastInsert) (lastInsert.attribs ||= []).push(ent);
+      continue;
+    }
+    if (ent.type === 'INSERT') lastInsert = ent;
+  }
+
+  for (const ent of entities) {
+    if (ent.type === 'ATTRIB') continue;
+    try {
+      const converted = convertDxfEntity(ent, ctx);
+      if (converted.length > 0) {
+        result.push(...converted);
+        ctx.report.imported[ent.type] = (ctx.report.imported[ent.type] || 0) + 1;
+      } else {
+        ctx.report.skipped[ent.type] = (ctx.report.skipped[ent.type] || 0) + 1;
+      }
+    } catch (err) {
+      ctx.report.warnings.push(`Failed to convert entity ${ent.type}: ${err}`);
+      ctx.report.skipped[ent.type] = (ctx.report.skipped[ent.type] || 0) + 1;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Convert a DXF block into the block table (once); nested blocks are converted first
+ */
+const ensureBlock = (name: string, ctx: ConversionContext): boolean => {
+  if (ctx.blocks[name]) return true;
+  const block = ctx.dxf.blocks?.[name];
+  if (!block || ctx.converting.has(name)) return false;
+
+  ctx.converting.add(name);
+  const members = convertEntities(block.entities || [], ctx);
+  ctx.converting.delete(name);
+
+  const base = block.position || { x: 0, y: 0, z: 0 };
+  ctx.blocks[name] = createBlockDefinition(name, [base.x, base.y, base.z || 0], members);
+  return true;
+};
+
+const toPoint = (p: any): Point => [p?.x || 0, p?.y || 0, p?.z || 0];
+
 /**
  * Convert a DXF parser entity to our internal Entity format
+ * (one DXF entity may become several, e.g. exploded POLYLINEs and MINSERT arrays)
  */
-const convertDxfEntity = (ent: any): Entity | null => {
-  const color = ent.color ? aciToRgb(ent.color) : '#ffffff';
+const convertDxfEntity = (ent: any, ctx: ConversionContext): Entity[] => {
+  const color = resolveColor(ent);
   const layer = ent.layer || '0';
+  const common: CommonProperties = { color, layer, visible: true, locked: false };
 
   switch (ent.type) {
     case 'LINE': {
-      return {
+      return [{
         id: generateId(),
         type: 'LINE',
         start: [ent.vertices[0].x, ent.vertices[0].y, ent.vertices[0].z || 0],
         end: [ent.vertices[1].x, ent.vertices[1].y, ent.vertices[1].z || 0],
-        color,
-        layer,
-        visible: true,
-        locked: false,
-      };
+        ...common,
+      }];
     }
 
     case 'CIRCLE': {
-      return {
+      return [{
         id: generateId(),
         type: 'CIRCLE',
         center: [ent.center.x, ent.center.y, ent.center.z || 0],
         radius: ent.radius,
-        color,
-        layer,
-        visible: true,
-        locked: false,
-      };
+        ...common,
+      }];
     }
 
     case 'ARC': {
-      return {
+      return [{
         id: generateId(),
         type: 'ARC',
         center: [ent.center.x, ent.center.y, ent.center.z || 0],
         radius: ent.radius,
         startAngle: (ent.startAngle || 0) * Math.PI / 180,
         endAngle: (ent.endAngle || 0) * Math.PI / 180,
-        color,
-        layer,
-        visible: true,
-        locked: false,
-      };
+        ...common,
+      }];
     }
 
     case 'LWPOLYLINE':
     case 'POLYLINE': {
       const vertices: [number, number, number][] = [];
+      const bulges: number[] = [];
+      const startWidths: number[] = [];
+      const endWidths: number[] = [];
       if (ent.vertices) {
         for (const v of ent.vertices) {
           vertices.push([v.x, v.y, v.z || 0]);
+          // Group codes 42 (bulge), 40 / 41 (start / end width)
+          bulges.push(v.bulge || 0);
+          startWidths.push(v.startWidth || 0);
+          endWidths.push(v.endWidth || 0);
         }
       }
 
       if (vertices.length < 2) {
-        return null;
+        return [];
       }
 
-      // For open polylines, convert to line segments
+      // For open polylines without arc segments, convert to line segments
       // For closed polylines, keep as LWPOLYLINE
       const closed = ent.shape || ent.closed || false;
+      const hasBulges = bulges.some(b => b !== 0);
+      const hasWidths = startWidths.some(w => w !== 0) || endWidths.some(w => w !== 0);
 
-      if (closed || ent.type === 'LWPOLYLINE') {
-        return {
+      if (closed || hasBulges || hasWidths || ent.type === 'LWPOLYLINE') {
+        return [{
           id: generateId(),
           type: 'LWPOLYLINE',
-          vertices,
           closed,
-          color,
-          layer,
-          visible: true,
-          locked: false,
-        };
-      } else {
-        // Explode to line segments
-        const lines: Entity[] = [];
-        for (let i = 0; i < vertices.length - 1; i++) {
-          lines.push({
-            id: generateId(),
-            type: 'LINE',
-            start: vertices[i],
-            end: vertices[i + 1],
-            color,
-            layer,
-            visible: true,
-            locked: false,
-          });
-        }
-        // Return first line, rest will be added by the loop
-        return lines[0];
+          ...createPolylineData(vertices, bulges, startWidths, endWidths),
+          ...common,
+          ...(ent.width ? { constantWidth: ent.width } : {}),
+        }];
       }
+
+      // Explode to line segments
+      const lines: Entity[] = [];
+      for (let i = 0; i < vertices.length - 1; i++) {
+        lines.push({
+          id: generateId(),
+          type: 'LINE',
+          start: vertices[i],
+          end: vertices[i + 1],
+          ...common,
+        });
+      }
+      return lines;
     }
 
     case 'POINT': {
-      return {
+      return [{
         id: generateId(),
         type: 'POINT',
         position: [ent.position.x, ent.position.y, ent.position.z || 0],
-        color,
-        layer,
-        visible: true,
-        locked: false,
-      };
+        ...common,
+      }];
     }
 
     case 'ELLIPSE': {
-      return {
+      return [{
         id: generateId(),
         type: 'ELLIPSE',
         center: [ent.center.x, ent.center.y, ent.center.z || 0],
         rx: ent.majorAxisEndPoint.x * ent.axisRatio,
         ry: ent.majorAxisEndPoint.y * ent.axisRatio,
         rotation: Math.atan2(ent.majorAxisEndPoint.y, ent.majorAxisEndPoint.x),
-        color,
-        layer,
-        visible: true,
-        locked: false,
-      };
+        ...common,
+      }];
     }
 
     case 'SPLINE': {
@@ -188,73 +389,326 @@ const convertDxfEntity = (ent: any): Entity | null => {
           controlPoints.push([p.x, p.y, p.z || 0]);
         }
       }
-      return {
+      return [{
         id: generateId(),
         type: 'SPLINE',
         controlPoints,
         degree: ent.degree || 3,
         closed: ent.closed || false,
-        color,
-        layer,
-        visible: true,
-        locked: false,
-      };
+        ...common,
+      }];
     }
 
     case 'TEXT': {
-      return {
+      return [{
         id: generateId(),
         type: 'TEXT',
         position: [ent.position.x, ent.position.y, ent.position.z || 0],
         text: ent.text || '',
         height: ent.textHeight || 1,
         rotation: ent.rotation ? ent.rotation * Math.PI / 180 : 0,
-        color,
-        layer,
-        visible: true,
-        locked: false,
-      };
+        ...common,
+      }];
     }
 
     case 'MTEXT': {
-      return {
+      // MTEXT tek bir TEXT'e dönüşür: paragraf sonları satır sonu olur, biçim kodları atılır
+      const text = (ent.text || '')
+        .replace(/\\P/g, '\n')
+        .replace(/\\[A-Za-z][^;\\]*;/g, '')
+        .replace(/[{}]/g, '');
+      return [{
         id: generateId(),
-        type: 'MTEXT',
+        type: 'TEXT',
         position: [ent.position.x, ent.position.y, ent.position.z || 0],
-        text: ent.text || '',
-        width: ent.width || 100,
+        text,
+        height: ent.height || ent.textHeight || 1,
+        rotation: ent.rotation ? ent.rotation * Math.PI / 180 : 0,
+        ...common,
+      }];
+    }
+
+    case 'ATTDEF': {
+      // Blok içindeki öznitelik tanımı: createBlockDefinition bunu bloğun özniteliği yapar
+      return [{
+        id: generateId(),
+        type: 'TEXT',
+        position: toPoint(ent.startPoint),
+        text: ent.tag || '',
         height: ent.textHeight || 1,
         rotation: ent.rotation ? ent.rotation * Math.PI / 180 : 0,
-        color,
-        layer,
-        visible: true,
-        locked: false,
-      };
+        ...common,
+        attributeDefinition: {
+          prompt: ent.prompt || ent.tag || '',
+          defaultValue: ent.text || '',
+          ...(ent.invisible ? { invisible: true } : {}),
+          ...(ent.constant ? { constant: true } : {}),
+        },
+      }];
     }
 
+    case 'INSERT':
+      return convertInsert(ent, ctx, common);
+
+    case 'DIMENSION': {
+      const dimension = convertDimension(ent, common);
+      if (dimension) return [dimension];
+      // Desteklenmeyen ölçü tipleri (ordinate vb.) ölçünün anonim bloğu olarak gelir
+      if (ent.block && ensureBlock(ent.block, ctx)) {
+        return [{
+          id: generateId(),
+          type: 'BLOCK_REFERENCE',
+          blockName: ent.block,
+          position: [0, 0, 0],
+          scale: [1, 1, 1],
+          rotation: 0,
+          ...common,
+        }];
+      }
+      return [];
+    }
+
+    case 'HATCH':
+      return convertHatch(ent as DxfHatchEntity, ctx, common);
+
+    case 'SOLID': {
+      // SOLID köşe sırası 1-2-4-3; dolu tarama olarak gelir
+      const [p1, p2, p3, p4] = (ent.points || []).map(toPoint);
+      if (!p1 || !p2 || !p3) return [];
+      const corners = !p4 || (p4[0] === p3[0] && p4[1] === p3[1]) ? [p1, p2, p3] : [p1, p2, p4, p3];
+      return [{
+        id: generateId(),
+        type: 'HATCH',
+        boundary: createBoundary(corners, [], common),
+        pattern: { name: 'SOLID', type: 'predefined', angle: 0 },
+        scale: 1,
+        rotation: 0,
+        ...common,
+      }];
+    }
+
+    case '3DFACE': {
+      // Tel kafes olarak kapalı polyline (tekrarlanan dördüncü köşe atılır)
+      const vertices = (ent.vertices || [])
+        .filter((v: any) => typeof v?.x === 'number')
+        .map(toPoint)
+        .filter((p: Point, i: number, all: Point[]) => i === 0 || p.some((value, axis) => value !== all[i - 1][axis]));
+      if (vertices.length < 3) return [];
+      return [{ ...createBoundary(vertices, [], common), id: generateId() }];
+    }
+
+    case 'LEADER':
+      return convertLeader(ent as DxfLeaderEntity, ctx, common);
+
     default:
       console.warn(`Unsupported DXF entity type: ${ent.type}`);
-      return null;
+      return [];
   }
 };
 
 /**
- * Convert AutoCAD Color Index (ACI) to RGB hex string
+ * INSERT -> block reference; MINSERT arrays (70/71 column/row counts) become one reference per cell
  */
-const aciToRgb = (aci: number): string => {
-  const colorMap: Record<number, string> = {
-    0: '#000000', // BYBLOCK
-    1: '#ff0000', // Red
-    2: '#ffff00', // Yellow
-    3: '#00ff00', // Green
-    4: '#00ffff', // Cyan
-    5: '#0000ff', // Blue
-    6: '#ff00ff', // Magenta
-    7: '#ffffff', // White/Black
-    8: '#808080', // Gray
-    9: '#c0c0c0', // Light Gray
-  };
-  return colorMap[aci] || '#ffffff';
+const convertInsert = (ent: any, ctx: ConversionContext, common: CommonProperties): Entity[] => {
+  if (!ensureBlock(ent.name, ctx)) {
+    ctx.report.warnings.push(`Block "${ent.name}" is not defined in the BLOCKS section`);
+    return [];
+  }
+
+  const rotation = (ent.rotation || 0) * Math.PI / 180;
+  const position = toPoint(ent.position);
+  const attributes: Record<string, string> = {};
+  (ent.attribs || []).forEach((attrib: DxfAttribEntity) => {
+    if (attrib.tag) attributes[attrib.tag.toUpperCase()] = attrib.text;
+  });
+
+  const columns = Math.max(1, ent.columnCount || 1);
+  const rows = Math.max(1, ent.rowCount || 1);
+  const references: Entity[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const dx = column * (ent.columnSpacing || 0);
+      const dy = row * (ent.rowSpacing || 0);
+      references.push({
+        id: generateId(),
+        type: 'BLOCK_REFERENCE',
+        blockName: ent.name,
+        position: [
+          position[0] + dx * Math.cos(rotation) - dy * Math.sin(rotation),
+          position[1] + dx * Math.sin(rotation) + dy * Math.cos(rotation),
+          position[2],
+        ],
+        scale: [ent.xScale ?? 1, ent.yScale ?? 1, ent.zScale ?? 1],
+        rotation,
+        ...common,
+        ...(Object.keys(attributes).length > 0 ? { attributes } : {}),
+      } as Entity);
+    }
+  }
+  return references;
+};
+
+/**
+ * DIMENSION -> DimensionEntity from its definition points (DXF 70 & 0x0F: 0 rotated,
+ * 1 aligned, 2 angular, 3 diameter, 4 radius, 5 angular 3-point). Ordinate returns null.
+ */
+const convertDimension = (ent: any, common: CommonProperties): DimensionEntity | null => {
+  const kind = (ent.dimensionType || 0) & 0x0F;
+  const definition = toPoint(ent.anchorPoint);
+  // '<>' ölçülen değer yer tutucusudur; yalnızca gerçek metin geçersiz kılma olarak alınır
+  const text = ent.text && !ent.text.includes('<>') ? { text: ent.text } : {};
+  const base = { id: generateId(), type: 'DIMENSION' as const, ...common, ...text };
+
+  if ((kind === 0 || kind === 1) && ent.linearOrAngularPoint1 && ent.linearOrAngularPoint2) {
+    const start = toPoint(ent.linearOrAngularPoint1);
+    let end = toPoint(ent.linearOrAngularPoint2);
+    if (kind === 0) {
+      // Döndürülmüş ölçü, ölçülen doğrultuya paralel çizilir: ikinci nokta ölçü yönüne izdüşürülür
+      const angle = (ent.angle || 0) * Math.PI / 180;
+      const ux = Math.cos(angle);
+      const uy = Math.sin(angle);
+      const length = (end[0] - start[0]) * ux + (end[1] - start[1]) * uy;
+      if (Math.abs((end[0] - start[0]) * uy - (end[1] - start[1]) * ux) > 1e-9) {
+        end = [start[0] + ux * length, start[1] + uy * length, start[2]];
+      }
+    }
+    return { ...base, dimType: kind === 0 ? 'DIMLINEAR' : 'DIMALIGNED', start, end, dimLinePosition: definition };
+  }
+
+  if (kind === 3 && ent.diameterOrRadiusPoint) {
+    const onCircle = toPoint(ent.diameterOrRadiusPoint);
+    const center: Point = [(definition[0] + onCircle[0]) / 2, (definition[1] + onCircle[1]) / 2, 0];
+    return { ...base, dimType: 'DIMDIAMETER', start: center, end: onCircle, dimLinePosition: toPoint(ent.middleOfText) };
+  }
+
+  if (kind === 4 && ent.diameterOrRadiusPoint) {
+    return { ...base, dimType: 'DIMRADIUS', start: definition, end: toPoint(ent.diameterOrRadiusPoint), dimLinePosition: toPoint(ent.middleOfText) };
+  }
+
+  if (kind === 5 && ent.linearOrAngularPoint1 && ent.linearOrAngularPoint2 && ent.diameterOrRadiusPoint) {
+    const center = toPoint(ent.diameterOrRadiusPoint);
+    const p1 = toPoint(ent.linearOrAngularPoint1);
+    const p2 = toPoint(ent.linearOrAngularPoint2);
+    return {
+      ...base,
+      dimType: 'DIMANGULAR',
+      start: p1,
+      end: p2,
+      center,
+      startAngle: Math.atan2(p1[1] - center[1], p1[0] - center[0]),
+      endAngle: Math.atan2(p2[1] - center[1], p2[0] - center[0]),
+      dimLinePosition: definition,
+    };
+  }
+
+  if (kind === 2 && ent.linearOrAngularPoint1 && ent.linearOrAngularPoint2 && ent.diameterOrRadiusPoint) {
+    // İki çizgili açı ölçüsü: 13-14 birinci, 15-10 ikinci çizgi, 16 yay konumu
+    const a1 = toPoint(ent.linearOrAngularPoint1);
+    const a2 = toPoint(ent.linearOrAngularPoint2);
+    const b1 = toPoint(ent.diameterOrRadiusPoint);
+    const b2 = definition;
+    const d1 = [a2[0] - a1[0], a2[1] - a1[1]];
+    const d2 = [b2[0] - b1[0], b2[1] - b1[1]];
+    const denominator = d1[0] * d2[1] - d1[1] * d2[0];
+    if (Math.abs(denominator) < 1e-12) return null;
+    const t = ((b1[0] - a1[0]) * d2[1] - (b1[1] - a1[1]) * d2[0]) / denominator;
+    const center: Point = [a1[0] + d1[0] * t, a1[1] + d1[1] * t, 0];
+    return {
+      ...base,
+      dimType: 'DIMANGULAR',
+      start: a2,
+      end: b2,
+      center,
+      startAngle: Math.atan2(a2[1] - center[1], a2[0] - center[0]),
+      endAngle: Math.atan2(b2[1] - center[1], b2[0] - center[0]),
+      dimLinePosition: toPoint(ent.arcPoint || ent.middleOfText),
+    };
+  }
+
+  return null;
+};
+
+const createBoundary = (vertices: Point[], bulges: number[], common: CommonProperties): LWPolylineEntity => ({
+  id: generateId(),
+  type: 'LWPOLYLINE',
+  closed: true,
+  ...createPolylineData(vertices, bulges),
+  ...common,
+} as LWPolylineEntity);
+
+/**
+ * HATCH -> HatchEntity; the external (or largest) path is the boundary, the others are islands
+ */
+const convertHatch = (ent: DxfHatchEntity, ctx: ConversionContext, common: CommonProperties): Entity[] => {
+  const paths = ent.paths.filter(path => path.vertices.length >= 3);
+  if (paths.length === 0) return [];
+
+  const toBoundary = (path: DxfHatchPath) => createBoundary(path.vertices.map(toPoint), path.bulges, common);
+  const area = (path: DxfHatchPath) => polygonArea(path.vertices.map(toPoint));
+  const outer = paths.find(path => path.external) || paths.reduce((a, b) => area(b) > area(a) ? b : a);
+
+  let name = ent.solid ? 'SOLID' : ent.patternName.toUpperCase();
+  if (!PRESET_PATTERNS[name]) {
+    ctx.report.warnings.push(`Hatch pattern "${ent.patternName}" is not available, ANSI31 used`);
+    name = 'ANSI31';
+  }
+
+  return [{
+    id: generateId(),
+    type: 'HATCH',
+    boundary: toBoundary(outer),
+    ...(paths.length > 1 ? { islands: paths.filter(path => path !== outer).map(toBoundary) } : {}),
+    pattern: { name, type: 'predefined', angle: PRESET_PATTERNS[name].angle },
+    scale: ent.patternScale || 1,
+    rotation: (ent.patternAngle || 0) * Math.PI / 180,
+    ...common,
+  } as Entity];
+};
+
+/**
+ * LEADER -> open polyline; the arrowhead is a tapered first segment (width 0 at the tip)
+ */
+const convertLeader = (ent: DxfLeaderEntity, ctx: ConversionContext, common: CommonProperties): Entity[] => {
+  const vertices = ent.vertices.map(toPoint);
+  if (vertices.length < 2) return [];
+
+  if (ent.spline) {
+    return [{ id: generateId(), type: 'SPLINE', controlPoints: vertices, degree: 3, closed: false, ...common } as Entity];
+  }
+
+  const startWidths: number[] = [];
+  const endWidths: number[] = [];
+  const [tip, next] = vertices;
+  const segmentLength = Math.hypot(next[0] - tip[0], next[1] - tip[1]);
+  if (ent.arrowhead && segmentLength > 0) {
+    const arrowLength = Math.min(ctx.arrowSize, segmentLength / 2);
+    const t = arrowLength / segmentLength;
+    vertices.splice(1, 0, [tip[0] + (next[0] - tip[0]) * t, tip[1] + (next[1] - tip[1]) * t, tip[2]]);
+    startWidths[0] = 0;
+    endWidths[0] = arrowLength / 3;
+  }
+
+  return [{
+    id: generateId(),
+    type: 'LWPOLYLINE',
+    closed: false,
+    ...createPolylineData(vertices, [], startWidths, endWidths),
+    ...common,
+  } as Entity];
+};
+
+/**
+ * Resolve an entity color: true color (420), BYBLOCK (0), BYLAYER (256 or missing) or an ACI color
+ * (the parser stores the RGB value of 62 or 420 in color and the raw 62 value in colorIndex)
+ */
+const resolveColor = (ent: any): string => {
+  const index: number | undefined = ent.colorIndex;
+  if (typeof ent.color === 'number' && (index === undefined || ent.color !== getAcadColor(Math.abs(index)))) {
+    return trueColorToRGB(ent.color);
+  }
+  if (index === ACI_BYBLOCK) return 'BYBLOCK';
+  if (index === undefined || index === ACI_BYLAYER) return 'BYLAYER';
+  return aciToRGB(Math.abs(index));
 };
 
 /**
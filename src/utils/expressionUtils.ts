@@ -0,0 +1,257 @@
+// Parametre ifadeleri: güvenli (eval kullanmayan) aritmetik ayrıştırıcı ve bağımlılık sıralı değerlendirme
+
+type Token =
+    | { kind: 'number'; value: number }
+    | { kind: 'name'; value: string }
+    | { kind: 'op'; value: string };
+
+const DEG = Math.PI / 180;
+
+// Trigonometrik fonksiyonlar derece ile çalışır (açısal parametreler derece cinsindendir)
+const FUNCTIONS = new Map<string, (...args: number[]) => number>([
+    ['sin', x => Math.sin(x * DEG)],
+    ['cos', x => Math.cos(x * DEG)],
+    ['tan', x => Math.tan(x * DEG)],
+    ['asin', x => Math.asin(x) / DEG],
+    ['acos', x => Math.acos(x) / DEG],
+    ['atan', x => Math.atan(x) / DEG],
+    ['sqrt', Math.sqrt],
+    ['abs', Math.abs],
+    ['round', Math.round],
+    ['floor', Math.floor],
+    ['ceil', Math.ceil],
+    ['ln', Math.log],
+    ['log', Math.log10],
+    ['exp', Math.exp],
+    ['pow', Math.pow],
+    ['min', Math.min],
+    ['max', Math.max],
+]);
+
+const CONSTANTS = new Map<string, number>([
+    ['pi', Math.PI],
+    ['e', Math.E],
+]);
+
+// Kayıt anahtarı kontrolü; `in` Object.prototype adlarını (constructor, toString...) da bulur
+const hasOwn = (record: Record<string, unknown>, key: string): boolean => Object.prototype.hasOwnProperty.call(record, key);
+
+const NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Parameter names: a letter or underscore followed by letters, digits or underscores;
+ * function and constant names are reserved
+ */
+export const isValidParameterName = (name: string): boolean => {
+    const lower = name.toLowerCase();
+    return NAME_PATTERN.test(name) && !FUNCTIONS.has(lower) && !CONSTANTS.has(lower);
+};
+
+const tokenize = (expression: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < expression.length) {
+        const ch = expression[i];
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (/[0-9.]/.test(ch)) {
+            const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(expression.slice(i));
+            if (!match) throw new Error(`Invalid number at position ${i + 1}`);
+            tokens.push({ kind: 'number', value: parseFloat(match[0]) });
+            i += match[0].length;
+        } else if (/[A-Za-z_]/.test(ch)) {
+            const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(i))!;
+            tokens.push({ kind: 'name', value: match[0] });
+            i += match[0].length;
+        } else if ('+-*/^(),'.includes(ch)) {
+            tokens.push({ kind: 'op', value: ch });
+            i++;
+        } else {
+            throw new Error(`Unexpected character "${ch}"`);
+        }
+    }
+    return tokens;
+};
+
+/**
+ * Evaluate an arithmetic expression (+ - * / ^, parentheses, functions, pi, e)
+ * with the given parameter values. Throws an Error with a readable message.
+ */
+export const evaluateExpression = (expression: string, variables: Record<string, number> = {}): number => {
+    const tokens = tokenize(expression);
+    let pos = 0;
+
+    const peek = (): Token | undefined => tokens[pos];
+    const isOp = (value: string) => peek()?.kind === 'op' && peek()!.value === value;
+    const expect = (value: string) => {
+        if (!isOp(value)) throw new Error(`Expected "${value}"`);
+        pos++;
+    };
+
+    // Öncelik: toplama < çarpma < üs (sağdan birleşir) < tekli işaret
+    const parseSum = (): number => {
+        let value = parseProduct();
+        while (isOp('+') || isOp('-')) {
+            const op = tokens[pos++].value;
+            const rhs = parseProduct();
+            value = op === '+' ? value + rhs : value - rhs;
+        }
+        return value;
+    };
+
+    const parseProduct = (): number => {
+        let value = parseUnary();
+        while (isOp('*') || isOp('/')) {
+            const op = tokens[pos++].value;
+            const rhs = parseUnary();
+            if (op === '/' && rhs === 0) throw new Error('Division by zero');
+            value = op === '*' ? value * rhs : value / rhs;
+        }
+        return value;
+    };
+
+    const parseUnary = (): number => {
+        if (isOp('-')) {
+            pos++;
+            return -parseUnary();
+        }
+        if (isOp('+')) {
+            pos++;
+            return parseUnary();
+        }
+        return parsePower();
+    };
+
+    const parsePower = (): number => {
+        const base = parsePrimary();
+        if (isOp('^')) {
+            pos++;
+            return Math.pow(base, parseUnary());
+        }
+        return base;
+    };
+
+    const parsePrimary = (): number => {
+        const token = peek();
+        if (!token) throw new Error('Unexpected end of expression');
+        pos++;
+        if (token.kind === 'number') return token.value;
+        if (token.kind === 'op') {
+            if (token.value !== '(') throw new Error(`Unexpected "${token.value}"`);
+            const value = parseSum();
+            expect(')');
+            return value;
+        }
+
+        const lower = token.value.toLowerCase();
+        if (isOp('(')) {
+            const fn = FUNCTIONS.get(lower);
+            if (!fn) throw new Error(`Unknown function "${token.value}"`);
+            pos++;
+            const args: number[] = [];
+            if (!isOp(')')) {
+                args.push(parseSum());
+                while (isOp(',')) {
+                    pos++;
+                    args.push(parseSum());
+                }
+            }
+            expect(')');
+            return fn(...args);
+        }
+        if (hasOwn(variables, token.value)) return variables[token.value];
+        const constant = CONSTANTS.get(lower);
+        if (constant !== undefined) return constant;
+        throw new Error(`Unknown parameter "${token.value}"`);
+    };
+
+    if (tokens.length === 0) throw new Error('Expression is empty');
+    const result = parseSum();
+    if (pos < tokens.length) throw new Error(`Unexpected "${String(tokens[pos].value)}"`);
+    if (!Number.isFinite(result)) throw new Error('Result is not a finite number');
+    return result;
+};
+
+/**
+ * Parameter names referenced by an expression (functions and constants excluded)
+ */
+export const getExpressionReferences = (expression: string): string[] => {
+    try {
+        const tokens = tokenize(expression);
+        const names = tokens
+            .filter((token, i) => token.kind === 'name' && !(tokens[i + 1]?.kind === 'op' && tokens[i + 1].value === '('))
+            .map(token => String(token.value))
+            .filter(name => !CONSTANTS.has(name.toLowerCase()));
+        return Array.from(new Set(names));
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Replace the references to a parameter with a fixed value (e.g. when the parameter is deleted);
+ * function calls and names that only contain the parameter name stay as they are
+ */
+export const replaceExpressionReference = (expression: string, name: string, value: number): string => {
+    // Sayılar önce eşleşir: 1e5 içindeki "e5" ad olarak okunmaz
+    return expression.replace(/(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?|[A-Za-z_][A-Za-z0-9_]*(?![A-Za-z0-9_]|\s*\()/g, token =>
+        token === name ? formatParameterValue(value, 10) : token
+    );
+};
+
+export interface NamedExpression {
+    name: string;
+    expression: string;
+}
+
+export interface ParameterEvaluation {
+    values: Record<string, number>;
+    errors: Record<string, string>; // Parametre adı -> hata mesajı
+}
+
+/**
+ * Evaluate a set of named expressions that may reference each other,
+ * in dependency order; circular references are reported as errors
+ */
+export const evaluateParameters = (parameters: NamedExpression[]): ParameterEvaluation => {
+    const byName = new Map(parameters.map(p => [p.name, p] as [string, NamedExpression]));
+    const values: Record<string, number> = {};
+    const errors: Record<string, string> = {};
+    const state = new Map<string, 'visiting' | 'done'>();
+
+    const visit = (name: string): boolean => {
+        if (state.get(name) === 'done') return !hasOwn(errors, name);
+        if (state.get(name) === 'visiting') {
+            errors[name] = 'Circular reference';
+            return false;
+        }
+        state.set(name, 'visiting');
+        const param = byName.get(name)!;
+        const deps = getExpressionReferences(param.expression).filter(dep => byName.has(dep));
+        const failed = deps.find(dep => !visit(dep));
+        if (failed && !hasOwn(errors, name)) {
+            errors[name] = errors[failed] === 'Circular reference' ? 'Circular reference' : `Depends on invalid parameter "${failed}"`;
+        } else if (!failed) {
+            try {
+                values[name] = evaluateExpression(param.expression, values);
+            } catch (e) {
+                errors[name] = (e as Error).message;
+            }
+        }
+        state.set(name, 'done');
+        return !hasOwn(errors, name);
+    };
+
+    parameters.forEach(p => {
+        if (byName.get(p.name) !== p) errors[p.name] = 'Duplicate name';
+    });
+    parameters.forEach(p => visit(p.name));
+    return { values, errors };
+};
+
+/**
+ * Short display form of a parameter value
+ */
+export const formatParameterValue = (value: number, decimals: number = 4): string => {
+    return parseFloat(value.toFixed(decimals)).toString();
+};
@@ -0,0 +1,92 @@
+import { saveAs } from 'file-saver';
+import type { CAMSettings, Toolpath } from '../types/cam';
+import { getCAMLayerSettings } from './toolpathUtils';
+import { getPolylineSegments, bulgeToArc } from './polylineUtils';
+
+const num = (value: number): string => {
+  const result = Number(value.toFixed(3));
+  return String(result === 0 ? 0 : result);
+};
+
+/**
+ * Write toolpaths as G-code (G21/G90, G0 travel, G1 lines, G2/G3 arcs with I/J).
+ * Laser mode switches the beam with M4/M5 around each pass; CNC mode plunges by
+ * passDepth per pass and retracts to safeZ between paths. unitSize converts drawing
+ * units to mm.
+ */
+export const generateGCode = (toolpaths: Toolpath[], settings: CAMSettings, unitSize: number = 1, title: string = 'drawing'): string => {
+  const laser = settings.machine === 'laser';
+  const mm = (value: number) => num(value * unitSize);
+  const lines: string[] = [
+    `; ${title}`,
+    `; ${laser ? 'Laser' : 'CNC'} toolpaths: ${toolpaths.length}, kerf ${num(settings.kerf)} mm`,
+    'G21 ; mm',
+    'G90 ; absolute',
+    'G17',
+    laser ? 'M5' : `G0 Z${num(settings.safeZ)}`,
+  ];
+  let spindle = -1;
+
+  toolpaths.forEach((path, index) => {
+    const layer = getCAMLayerSettings(settings, path.layer);
+    const power = Math.round(Math.min(Math.max(layer.power, 0), 100) / 100 * settings.maxPower);
+    const passes = Math.max(1, Math.round(layer.passes));
+    const segments = getPolylineSegments(path);
+    const [x0, y0] = path.vertices[0];
+    lines.push(`; Path ${index + 1} (${path.contour}, layer ${path.layer})`);
+
+    // CNC'de iş mili devri yalnızca değiştiğinde yazılır
+    if (!laser && power !== spindle) {
+      lines.push(`M3 S${power}`);
+      spindle = power;
+    }
+
+    for (let pass = 0; pass < passes; pass++) {
+      // Kapalı konturda sonraki paso aynı noktadan başlar; açık yolda başa dönülür
+      if (pass === 0 || !path.closed) {
+        if (!laser && pass > 0) lines.push(`G0 Z${num(settings.safeZ)}`);
+        lines.push(`G0 X${mm(x0)} Y${mm(y0)}`);
+      }
+      if (laser) {
+        lines.push(`M4 S${power}`);
+      } else {
+        lines.push(`G1 Z${num(-settings.passDepth * (pass + 1))} F${num(settings.plungeRate)}`);
+      }
+
+      segments.forEach((segment, i) => {
+        const feed = i === 0 ? ` F${num(layer.feedRate)}` : '';
+        const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+        if (!arc) {
+          lines.push(`G1 X${mm(segment.end[0])} Y${mm(segment.end[1])}${feed}`);
+          return;
+        }
+        const code = arc.sweep > 0 ? 'G3' : 'G2';
+        const offsetI = arc.center[0] - segment.start[0];
+        const offsetJ = arc.center[1] - segment.start[1];
+        lines.push(`${code} X${mm(segment.end[0])} Y${mm(segment.end[1])} I${mm(offsetI)} J${mm(offsetJ)}${feed}`);
+      });
+
+      if (laser) lines.push('M5');
+    }
+    if (!laser) lines.push(`G0 Z${num(settings.safeZ)}`);
+  });
+
+  if (!laser) lines.push('M5');
+  lines.push('G0 X0 Y0', 'M2', '');
+  return lines.join('\n');
+};
+
+/**
+ * Export toolpaths to a G-code file and trigger download
+ */
+export const exportGCode = (
+  toolpaths: Toolpath[],
+  filename: string = 'drawing.gcode',
+  settings: CAMSettings,
+  unitSize: number = 1
+): void => {
+  const baseName = filename.replace(/\.(dxf|dwg|cadjson|svg|pdf|gcode|nc)$/i, '');
+  const gcode = generateGCode(toolpaths, settings, unitSize, baseName);
+  const blob = new Blob([gcode], { type: 'text/plain;charset=utf-8' });
+  saveAs(blob, baseName + '.gcode');
+};
@@ -1,4 +1,10 @@
-import type { Entity, Point } from '../types/entities';
+import type { Entity, Point, SplineEntity } from '../types/entities';
+import type { BlockTable } from '../types/blocks';
+import { isBlockReference, flattenBlockReference } from './blockUtils';
+import { getPolylineSegments, getSegmentMidpoint, bulgeToArc, closestPointOnPolyline, tessellatePolyline } from './polylineUtils';
+import { createSplineEvaluator } from './splineUtils';
+import { findIntersectionsNear } from './intersectionUtils';
+import { getHatchGeometry } from './hatchGeometry';
 
 /**
  * Calculate the shortest distance from a point to a line segment
@@ -64,25 +70,9 @@ export const closestPointOnEntity = (px: number, py: number, ent: Entity): numbe
     const avgRadius = (ent.rx + ent.ry) / 2;
     return Math.abs(distToCenter - avgRadius);
   } else if (ent.type === 'LWPOLYLINE') {
-    let minDist = Infinity;
-    const verts = ent.vertices;
-    for (let i = 0; i < verts.length - 1; i++) {
-      const d = distancePointToLineSegment(
-        px, py,
-        verts[i][0], verts[i][1],
-        verts[i + 1][0], verts[i + 1][1]
-      );
-      if (d < minDist) minDist = d;
-    }
-    if (ent.closed && verts.length > 1) {
-      const d = distancePointToLineSegment(
-        px, py,
-        verts[verts.length - 1][0], verts[verts.length - 1][1],
-        verts[0][0], verts[0][1]
-      );
-      if (d < minDist) minDist = d;
-    }
-    return minDist;
+    // Yay segmentleri (bulge) dahil her segmente olan en kısa mesafe
+    const closest = closestPointOnPolyline(ent, px, py);
+    return closest ? closest.distance : Infinity;
   } else if (ent.type === 'ARC') {
     // Approximate as circle for now
     const dx = px - ent.center[0];
@@ -323,6 +313,13 @@ export const closestPointOnEntity = (px: number, py: number, ent: Entity): numbe
       }
     }
 
+    return minDist;
+  } else if (isBlockReference(ent)) {
+    // Blok referansı: üye nesnelerden en yakın olanı
+    let minDist = Infinity;
+    flattenBlockReference(ent).forEach(member => {
+      minDist = Math.min(minDist, closestPointOnEntity(px, py, member));
+    });
     return minDist;
   }
   return Infinity;
@@ -544,7 +541,10 @@ export const anglesEqual = (a1: number, a2: number, tolerance: number = 0.0001):
   return diff < tolerance || diff > Math.PI * 2 - tolerance;
 };
 
-export type SnapType = 'ENDPOINT' | 'MIDPOINT' | 'CENTER' | 'NEAREST' | 'INTERSECTION';
+// Bir taramadan en fazla bu kadar desen uç noktası yakalanır
+const MAX_HATCH_SNAPS = 4000;
+
+export type SnapType = 'ENDPOINT' | 'MIDPOINT' | 'CENTER' | 'NEAREST' | 'INTERSECTION' | 'INSERTION';
 
 export interface SnapPoint {
   type: SnapType;
@@ -562,13 +562,12 @@ export const getSnapPoints = (ent: Entity): SnapPoint[] => {
     snaps.push({ type: 'ENDPOINT', point: ent.end });
     snaps.push({ type: 'MIDPOINT', point: midpoint(ent.start, ent.end) });
   } else if (ent.type === 'LWPOLYLINE') {
-    ent.vertices.forEach((v, i) => {
-      snaps.push({ type: 'ENDPOINT', point: v });
-      if (i < ent.vertices.length - 1) {
-        snaps.push({ type: 'MIDPOINT', point: midpoint(v, ent.vertices[i + 1]) });
-      } else if (ent.closed) {
-        snaps.push({ type: 'MIDPOINT', point: midpoint(v, ent.vertices[0]) });
-      }
+    ent.vertices.forEach(v => snaps.push({ type: 'ENDPOINT', point: v }));
+    getPolylineSegments(ent).forEach(segment => {
+      snaps.push({ type: 'MIDPOINT', point: getSegmentMidpoint(segment) });
+      // Yay segmentlerinin merkezi
+      const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+      if (arc) snaps.push({ type: 'CENTER', point: arc.center });
     });
   } else if (ent.type === 'CIRCLE' || ent.type === 'ARC' || ent.type === 'ELLIPSE' || ent.type === 'DONUT') {
     snaps.push({ type: 'CENTER', point: ent.center });
@@ -587,6 +586,19 @@ export const getSnapPoints = (ent: Entity): SnapPoint[] => {
     if (ent.closed && points.length > 2) {
       snaps.push({ type: 'MIDPOINT', point: midpoint(points[points.length - 1], points[0]) });
     }
+  } else if (ent.type === 'HATCH') {
+    // Sınır köşeleri ve desen çizgilerinin uçları (yoğun desenlerde ilk MAX_HATCH_SNAPS)
+    ent.boundary?.vertices?.forEach(v => snaps.push({ type: 'ENDPOINT', point: v }));
+    const { lines, dots } = getHatchGeometry(ent);
+    lines.slice(0, MAX_HATCH_SNAPS / 2).forEach(([a, b]) => {
+      snaps.push({ type: 'ENDPOINT', point: a });
+      snaps.push({ type: 'ENDPOINT', point: b });
+    });
+    dots.slice(0, MAX_HATCH_SNAPS).forEach(dot => snaps.push({ type: 'ENDPOINT', point: dot }));
+  } else if (isBlockReference(ent)) {
+    // Ekleme noktası + üye nesnelerin snap noktaları
+    snaps.push({ type: 'INSERTION', point: ent.position });
+    flattenBlockReference(ent).forEach(member => snaps.push(...getSnapPoints(member)));
   }
 
   return snaps;
@@ -603,8 +615,8 @@ export const getClosestSnapPoint = (
   let bestSnap: SnapPoint | null = null;
   let minD = threshold;
 
-  entities.forEach(ent => {
-    if (!ent.visible) return;
+  const visibleEntities = entities.filter(ent => ent.visible);
+  visibleEntities.forEach(ent => {
     const snaps = getSnapPoints(ent);
     snaps.forEach(snap => {
       const d = distance2D(cursor[0], cursor[1], snap.point[0], snap.point[1]);
@@ -615,6 +627,15 @@ export const getClosestSnapPoint = (
     });
   });
 
+  // Kesişimler uç noktalardan sonra: çakışan noktalarda ENDPOINT önceliklidir
+  findIntersectionsNear(cursor, visibleEntities, threshold).forEach(point => {
+    const d = distance2D(cursor[0], cursor[1], point[0], point[1]);
+    if (d < minD) {
+      minD = d;
+      bestSnap = { type: 'INTERSECTION', point };
+    }
+  });
+
   return bestSnap;
 };
 
@@ -802,6 +823,9 @@ export const getGripPoints = (ent: Entity): GripPoint[] => {
     if (dimType === 'DIMANGULAR' && center) {
       grips.push({ point: center, type: 'center' });
     }
+  } else if (isBlockReference(ent)) {
+    // Blok referansı için ekleme noktası
+    grips.push({ point: ent.position, type: 'origin' });
   }
 
   return grips;
@@ -826,7 +850,7 @@ export const isEntityInBox = (ent: Entity, min: Point, max: Point): boolean => {
     return ent.center[0] - r >= min[0] && ent.center[0] + r <= max[0] &&
       ent.center[1] - r >= min[1] && ent.center[1] + r <= max[1];
   } else if (ent.type === 'LWPOLYLINE') {
-    return ent.vertices.every(v => isPointInBox(v, min, max));
+    return tessellatePolyline(ent).every(v => isPointInBox(v, min, max));
   } else if (ent.type === 'POINT') {
     return isPointInBox(ent.position, min, max);
   } else if (ent.type === 'SPLINE') {
@@ -870,6 +894,9 @@ export const isEntityInBox = (ent: Entity, min: Point, max: Point): boolean => {
     return isPointInBox(start, min, max) &&
       isPointInBox(end, min, max) &&
       (!dimLinePosition || isPointInBox(dimLinePosition, min, max));
+  } else if (isBlockReference(ent)) {
+    const members = flattenBlockReference(ent);
+    return members.length > 0 && members.every(member => isEntityInBox(member, min, max));
   }
   return false;
 };
@@ -895,18 +922,11 @@ export const doesEntityIntersectBox = (ent: Entity, min: Point, max: Point): boo
     const dy = closestY - ent.center[1];
     return (dx * dx + dy * dy) <= (ent.radius * ent.radius);
   } else if (ent.type === 'LWPOLYLINE') {
-    for (let i = 0; i < ent.vertices.length - 1; i++) {
-      const p1 = ent.vertices[i];
-      const p2 = ent.vertices[i + 1];
-      const lineMinX = Math.min(p1[0], p2[0]);
-      const lineMaxX = Math.max(p1[0], p2[0]);
-      const lineMinY = Math.min(p1[1], p2[1]);
-      const lineMaxY = Math.max(p1[1], p2[1]);
-      if (!(lineMaxX < min[0] || lineMinX > max[0] || lineMaxY < min[1] || lineMinY > max[1])) return true;
-    }
-    if (ent.closed) {
-      const p1 = ent.vertices[ent.vertices.length - 1];
-      const p2 = ent.vertices[0];
+    // Yay segmentleri kısa kirişlere bölünerek kontrol edilir
+    const points = tessellatePolyline(ent, true);
+    for (let i = 0; i < points.length - 1; i++) {
+      const p1 = points[i];
+      const p2 = points[i + 1];
       const lineMinX = Math.min(p1[0], p2[0]);
       const lineMaxX = Math.max(p1[0], p2[0]);
       const lineMinY = Math.min(p1[1], p2[1]);
@@ -994,6 +1014,8 @@ export const doesEntityIntersectBox = (ent: Entity, min: Point, max: Point): boo
     }
 
     return false;
+  } else if (isBlockReference(ent)) {
+    return flattenBlockReference(ent).some(member => doesEntityIntersectBox(member, min, max));
   }
   return false;
 };
@@ -1017,6 +1039,9 @@ export const scaleEntity = (ent: Entity, factor: number): Entity => {
     e.ry *= factor;
   } else if (e.type === 'LWPOLYLINE') {
     e.vertices = e.vertices.map((v: Point) => [v[0] * factor, v[1] * factor, v[2] * factor]);
+    if (e.constantWidth) e.constantWidth *= factor;
+    if (e.startWidths) e.startWidths = e.startWidths.map((w: number) => w * factor);
+    if (e.endWidths) e.endWidths = e.endWidths.map((w: number) => w * factor);
   } else if (e.type === 'POINT') {
     e.position = [e.position[0] * factor, e.position[1] * factor, e.position[2] * factor];
   } else if (e.type === 'TEXT' || e.type === 'MTEXT') {
@@ -1025,7 +1050,7 @@ export const scaleEntity = (ent: Entity, factor: number): Entity => {
   } else if (e.type === 'DIMENSION') {
     if (e.defPoint) e.defPoint = [e.defPoint[0] * factor, e.defPoint[1] * factor, e.defPoint[2] * factor];
     if (e.textPoint) e.textPoint = [e.textPoint[0] * factor, e.textPoint[1] * factor, e.textPoint[2] * factor];
-  } else if (e.type === 'BLOCK') {
+  } else if (e.type === 'BLOCK' || e.type === 'BLOCK_REFERENCE' || e.type === 'INSERT') {
     if (e.position) e.position = [e.position[0] * factor, e.position[1] * factor, e.position[2] * factor];
   } else if (e.type === 'TABLE') {
     if (e.position) e.position = [e.position[0] * factor, e.position[1] * factor, e.position[2] * factor];
@@ -1113,3 +1138,135 @@ export const createArcFrom3Points = (p1: Point, p2: Point, p3: Point): {
     counterClockwise: false // Always return CCW definition for renderer
   };
 };
+
+/**
+ * Bounding box of the visible entities (block references by their members), null when empty.
+ * Exporters pass their own block table; otherwise the active drawing's table is used
+ */
+export const calculateBoundingBox = (entities: Entity[], blocks?: BlockTable): { min: Point; max: Point } | null => {
+  if (entities.length === 0) return null;
+
+  let minX = Infinity, minY = Infinity;
+  let maxX = -Infinity, maxY = -Infinity;
+
+  entities.forEach(ent => {
+    if (ent.visible === false) return;
+
+    if (isBlockReference(ent)) {
+      const box = calculateBoundingBox(flattenBlockReference(ent, blocks));
+      if (box) {
+        minX = Math.min(minX, box.min[0]);
+        minY = Math.min(minY, box.min[1]);
+        maxX = Math.max(maxX, box.max[0]);
+        maxY = Math.max(maxY, box.max[1]);
+      }
+    } else if (ent.type === 'LINE') {
+      minX = Math.min(minX, ent.start[0], ent.end[0]);
+      minY = Math.min(minY, ent.start[1], ent.end[1]);
+      maxX = Math.max(maxX, ent.start[0], ent.end[0]);
+      maxY = Math.max(maxY, ent.start[1], ent.end[1]);
+    } else if (ent.type === 'CIRCLE' || ent.type === 'DONUT') {
+      const r = ent.type === 'CIRCLE' ? ent.radius : ent.outerRadius;
+      minX = Math.min(minX, ent.center[0] - r);
+      minY = Math.min(minY, ent.center[1] - r);
+      maxX = Math.max(maxX, ent.center[0] + r);
+      maxY = Math.max(maxY, ent.center[1] + r);
+    } else if (ent.type === 'ARC') {
+      minX = Math.min(minX, ent.center[0] - ent.radius);
+      minY = Math.min(minY, ent.center[1] - ent.radius);
+      maxX = Math.max(maxX, ent.center[0] + ent.radius);
+      maxY = Math.max(maxY, ent.center[1] + ent.radius);
+    } else if (ent.type === 'ELLIPSE') {
+      minX = Math.min(minX, ent.center[0] - ent.rx);
+      minY = Math.min(minY, ent.center[1] - ent.ry);
+      maxX = Math.max(maxX, ent.center[0] + ent.rx);
+      maxY = Math.max(maxY, ent.center[1] + ent.ry);
+    } else if (ent.type === 'LWPOLYLINE') {
+      tessellatePolyline(ent).forEach(v => {
+        minX = Math.min(minX, v[0]);
+        minY = Math.min(minY, v[1]);
+        maxX = Math.max(maxX, v[0]);
+        maxY = Math.max(maxY, v[1]);
+      });
+    } else if (ent.type === 'POINT') {
+      minX = Math.min(minX, ent.position[0]);
+      minY = Math.min(minY, ent.position[1]);
+      maxX = Math.max(maxX, ent.position[0]);
+      maxY = Math.max(maxY, ent.position[1]);
+    } else if (ent.type === 'DIMENSION') {
+      // Include dimension start, end and dimLinePosition
+      minX = Math.min(minX, ent.start[0], ent.end[0]);
+      minY = Math.min(minY, ent.start[1], ent.end[1]);
+      maxX = Math.max(maxX, ent.start[0], ent.end[0]);
+      maxY = Math.max(maxY, ent.start[1], ent.end[1]);
+      if (ent.dimLinePosition) {
+        minX = Math.min(minX, ent.dimLinePosition[0]);
+        minY = Math.min(minY, ent.dimLinePosition[1]);
+        maxX = Math.max(maxX, ent.dimLinePosition[0]);
+        maxY = Math.max(maxY, ent.dimLinePosition[1]);
+      }
+    } else if (ent.type === 'TEXT') {
+      const pos = ent.position;
+      const h = ent.height || 10;
+      const w = (ent.text?.length || 1) * h * 0.6;
+      minX = Math.min(minX, pos[0]);
+      minY = Math.min(minY, pos[1] - h);
+      maxX = Math.max(maxX, pos[0] + w);
+      maxY = Math.max(maxY, pos[1] + h);
+    } else if (ent.type === 'TABLE') {
+      const pos = ent.position;
+      const tableWidth = ent.cols * ent.colWidth;
+      const tableHeight = ent.rows * ent.rowHeight;
+      minX = Math.min(minX, pos[0]);
+      minY = Math.min(minY, pos[1] - tableHeight);
+      maxX = Math.max(maxX, pos[0] + tableWidth);
+      maxY = Math.max(maxY, pos[1]);
+    } else if (ent.type === 'HATCH') {
+      if (ent.boundary?.vertices) {
+        ent.boundary.vertices.forEach(v => {
+          minX = Math.min(minX, v[0]);
+          minY = Math.min(minY, v[1]);
+          maxX = Math.max(maxX, v[0]);
+          maxY = Math.max(maxY, v[1]);
+        });
+      }
+    } else if (ent.type === 'SPLINE') {
+      ent.controlPoints.forEach(v => {
+        minX = Math.min(minX, v[0]);
+        minY = Math.min(minY, v[1]);
+        maxX = Math.max(maxX, v[0]);
+        maxY = Math.max(maxY, v[1]);
+      });
+    } else if (ent.type === 'RAY' || ent.type === 'XLINE') {
+      // RAY and XLINE extend to infinity, just include origin
+      minX = Math.min(minX, ent.origin[0]);
+      minY = Math.min(minY, ent.origin[1]);
+      maxX = Math.max(maxX, ent.origin[0]);
+      maxY = Math.max(maxY, ent.origin[1]);
+    }
+  });
+
+  if (minX === Infinity) return null;
+
+  return {
+    min: [minX, minY, 0],
+    max: [maxX, maxY, 0]
+  };
+};
+
+/**
+ * Sample a SPLINE as a polyline. Control points are evaluated as a B-spline of the entity's
+ * degree (with its knot vector when valid, otherwise clamped uniform); without control points
+ * the fit points are joined.
+ */
+export const sampleSpline = (ent: Pick<SplineEntity, 'controlPoints' | 'degree' | 'knots' | 'fitPoints'>, segments: number = 64): Point[] => {
+  const points = ent.controlPoints?.length ? ent.controlPoints : (ent.fitPoints || []);
+  if (points.length < 3 || !ent.controlPoints?.length) return points;
+
+  const spline = createSplineEvaluator(ent)!;
+  const result: Point[] = [];
+  for (let s = 0; s <= segments; s++) {
+    result.push(spline.at(spline.start + (spline.end - spline.start) * s / segments));
+  }
+  return result;
+};
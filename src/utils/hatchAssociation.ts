@@ -0,0 +1,172 @@
+import type { Entity, HatchEntity, LWPolylineEntity, Point } from '../types/entities';
+import { tessellatePolyline } from './polylineUtils';
+import { sampleSpline } from './geometryUtils';
+
+// İlişkisel taramalar: sınır ve adalar kaynak nesnelerden yeniden oluşturulur
+
+type BoundaryLoop = Pick<LWPolylineEntity, 'vertices' | 'bulges'>;
+
+// Daire / elips sınırlarının örnek sayısı (HATCH komutuyla aynı)
+const CURVE_SEGMENTS = 64;
+
+// Uç uca eklenen kenarlarda ve kapalılık kontrolünde uç nokta toleransı
+const JOIN_TOLERANCE = 0.01;
+
+const near = (a: Point, b: Point) => Math.hypot(a[0] - b[0], a[1] - b[1]) <= JOIN_TOLERANCE;
+
+const ellipsePoints = (center: Point, rx: number, ry: number, rotation: number): Point[] =>
+  Array.from({ length: CURVE_SEGMENTS }, (_, i): Point => {
+    const t = (i / CURVE_SEGMENTS) * Math.PI * 2;
+    const [x, y] = [rx * Math.cos(t), ry * Math.sin(t)];
+    return [
+      center[0] + x * Math.cos(rotation) - y * Math.sin(rotation),
+      center[1] + x * Math.sin(rotation) + y * Math.cos(rotation),
+      center[2] || 0,
+    ];
+  });
+
+/**
+ * Loop of a single closed entity (closed or end-to-start polyline, circle, ellipse,
+ * donut, closed spline); null for open geometry
+ */
+export const getClosedEntityLoop = (ent: Entity): BoundaryLoop | null => {
+  switch (ent.type) {
+    case 'LWPOLYLINE': {
+      if (ent.vertices.length < 3) return null;
+      if (ent.closed) return { vertices: ent.vertices, bulges: ent.bulges };
+      if (!near(ent.vertices[0], ent.vertices[ent.vertices.length - 1])) return null;
+      return { vertices: ent.vertices.slice(0, -1), bulges: ent.bulges?.slice(0, ent.vertices.length - 1) };
+    }
+    case 'CIRCLE':
+      return { vertices: ellipsePoints(ent.center, ent.radius, ent.radius, 0) };
+    case 'DONUT':
+      return { vertices: ellipsePoints(ent.center, ent.outerRadius, ent.outerRadius, 0) };
+    case 'ELLIPSE':
+      return { vertices: ellipsePoints(ent.center, ent.rx, ent.ry, ent.rotation || 0) };
+    case 'SPLINE': {
+      const points = sampleSpline(ent);
+      if (points.length < 3) return null;
+      if (ent.closed) return { vertices: points };
+      return near(points[0], points[points.length - 1]) ? { vertices: points.slice(0, -1) } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+// Açık kenarın nokta dizisi (yaylar örneklenir)
+const getEdgePoints = (ent: Entity): Point[] | null => {
+  switch (ent.type) {
+    case 'LINE':
+      return [ent.start, ent.end];
+    case 'ARC': {
+      let sweep = ent.endAngle - ent.startAngle;
+      if (sweep <= 0) sweep += Math.PI * 2;
+      const segments = Math.max(4, Math.ceil(sweep / (Math.PI * 2) * CURVE_SEGMENTS));
+      return Array.from({ length: segments + 1 }, (_, i): Point => {
+        const a = ent.startAngle + sweep * i / segments;
+        return [ent.center[0] + Math.cos(a) * ent.radius, ent.center[1] + Math.sin(a) * ent.radius, ent.center[2] || 0];
+      });
+    }
+    case 'LWPOLYLINE':
+      return ent.closed || ent.vertices.length < 2 ? null : tessellatePolyline(ent);
+    case 'SPLINE': {
+      const points = sampleSpline(ent);
+      return ent.closed || points.length < 2 ? null : points;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Loop formed by source entities: one closed entity, or open edges (lines, arcs,
+ * polylines, splines) that join end to end into a closed chain. Null when not closed.
+ */
+export const buildLoopFromSources = (sources: Entity[]): BoundaryLoop | null => {
+  if (sources.length === 1) {
+    const loop = getClosedEntityLoop(sources[0]);
+    if (loop) return loop;
+  }
+
+  const pieces = sources.map(getEdgePoints);
+  if (pieces.length === 0 || pieces.some(piece => !piece)) return null;
+  const remaining = pieces as Point[][];
+  const chain = [...remaining.shift()!];
+
+  while (remaining.length > 0) {
+    const end = chain[chain.length - 1];
+    const index = remaining.findIndex(piece => near(piece[0], end) || near(piece[piece.length - 1], end));
+    if (index < 0) return null;
+    const [piece] = remaining.splice(index, 1);
+    chain.push(...(near(piece[0], end) ? piece : [...piece].reverse()).slice(1));
+  }
+
+  if (chain.length < 4 || !near(chain[0], chain[chain.length - 1])) return null;
+  return { vertices: chain.slice(0, -1) };
+};
+
+const sameLoop = (loop: BoundaryLoop, polyline: LWPolylineEntity | undefined): boolean =>
+  !!polyline &&
+  loop.vertices.length === polyline.vertices.length &&
+  loop.vertices.every((v, i) => v[0] === polyline.vertices[i][0] && v[1] === polyline.vertices[i][1]) &&
+  loop.vertices.every((_, i) => (loop.bulges?.[i] || 0) === (polyline.bulges?.[i] || 0));
+
+const withoutAssociation = (hatch: HatchEntity): HatchEntity => {
+  const copy = { ...hatch };
+  delete copy.association;
+  return copy;
+};
+
+/**
+ * Follow source edits: associative hatches whose sources changed between `previous`
+ * and `next` get their boundary and islands rebuilt. A hatch loses its association when
+ * a source is deleted or no longer closes (returned in `detached`), or silently when
+ * the hatch itself is edited without its sources.
+ */
+export const updateAssociativeHatches = (previous: Entity[], next: Entity[]): { entities: Entity[]; detached: number[] } => {
+  const detached: number[] = [];
+  if (!next.some(ent => ent.type === 'HATCH' && ent.association)) return { entities: next, detached };
+
+  const before = new Map(previous.map(ent => [ent.id, ent]));
+  const after = new Map(next.map(ent => [ent.id, ent]));
+  // Önceki listede olmayan (ör. başka sayfadan gelen) nesneler değişmiş sayılmaz
+  const changed = (id: number) => before.has(id) && before.get(id) !== after.get(id);
+  const resolve = (ids: number[]): BoundaryLoop | null => {
+    const sources = ids.map(id => after.get(id));
+    return sources.every(Boolean) ? buildLoopFromSources(sources as Entity[]) : null;
+  };
+
+  let modified = false;
+  const entities = next.map(ent => {
+    if (ent.type !== 'HATCH' || !ent.association) return ent;
+    const { association } = ent;
+
+    if (![...association.boundary, ...association.islands.flat()].some(changed)) {
+      const old = before.get(ent.id);
+      if (!old || old === ent || old.type !== 'HATCH' || old.boundary === ent.boundary) return ent;
+      modified = true;
+      return withoutAssociation(ent);
+    }
+
+    const boundary = resolve(association.boundary);
+    const islands = association.islands.map(resolve);
+    if (!boundary || islands.some(island => !island)) {
+      detached.push(ent.id);
+      modified = true;
+      return withoutAssociation(ent);
+    }
+    if (sameLoop(boundary, ent.boundary) && islands.every((island, i) => sameLoop(island!, ent.islands?.[i]))) return ent;
+
+    modified = true;
+    return {
+      ...ent,
+      boundary: { ...ent.boundary, vertices: boundary.vertices, bulges: boundary.bulges, closed: true },
+      ...(association.islands.length > 0 ? {
+        islands: islands.map((island, i) => ({ ...(ent.islands?.[i] ?? ent.boundary), vertices: island!.vertices, bulges: island!.bulges, closed: true })),
+      } : {}),
+    };
+  });
+
+  return { entities: modified ? entities : next, detached };
+};
@@ -0,0 +1,107 @@
+import type { HatchEntity, HatchGradient, Point } from '../types/entities';
+import { tessellatePolyline } from './polylineUtils';
+import { PRESET_PATTERNS, getPatternLineFamilies, type HatchPatternConfig } from './hatchPatterns';
+import { expandLineFamilies } from './patFile';
+import { getGradientPaint, type GradientPaint } from './hatchGradient';
+
+// HATCH desen çizgileri: çizgi aileleri sınır ve adalara göre kırpılır
+
+export interface HatchGeometry {
+  lines: [Point, Point][];
+  dots: Point[];
+  truncated: boolean; // Çok yoğun desen: MAX_HATCH_ELEMENTS'te kesildi
+}
+
+export const MAX_HATCH_ELEMENTS = 20000;
+
+const geometryCache = new WeakMap<HatchEntity, HatchGeometry>();
+
+/**
+ * Pattern definition of a hatch (unknown names fall back to ANSI31)
+ */
+export const getHatchPatternConfig = (entity: HatchEntity): HatchPatternConfig =>
+  PRESET_PATTERNS[entity.pattern?.name || 'ANSI31'] ?? PRESET_PATTERNS['ANSI31'];
+
+/**
+ * Whether the hatch is drawn as pattern lines (not a solid fill or an image)
+ */
+export const isLineHatch = (entity: HatchEntity): boolean => {
+  if ((entity.pattern?.name || '').toUpperCase() === 'SOLID') return false;
+  const config = getHatchPatternConfig(entity);
+  return config.type !== 'solid' && config.type !== 'custom_image' && config.type !== 'gradient';
+};
+
+/**
+ * Gradient settings of a gradient-pattern hatch (one-color default when unset); null otherwise
+ */
+export const getHatchGradient = (entity: HatchEntity): HatchGradient | null => {
+  const config = getHatchPatternConfig(entity);
+  if (config.type !== 'gradient') return null;
+  return entity.gradient ?? { type: config.gradientType ?? 'linear', color1: entity.color, tint: 1, angle: 0, shift: 0 };
+};
+
+/**
+ * Boundary and island loops with bulge arcs tessellated
+ */
+export const getHatchLoops = (entity: HatchEntity): Point[][] =>
+  [entity.boundary, ...(entity.islands || [])]
+    .filter(loop => loop?.vertices?.length >= 2)
+    .map(loop => tessellatePolyline({ ...loop, closed: true }))
+    .filter(points => points.length >= 3);
+
+const isInsideLoop = (point: Point, loop: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = loop.length - 1; i < loop.length; j = i++) {
+    if ((loop[i][1] > point[1]) !== (loop[j][1] > point[1]) &&
+      point[0] < (loop[j][0] - loop[i][0]) * (point[1] - loop[i][1]) / (loop[j][1] - loop[i][1]) + loop[i][0]) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Filled areas of a hatch under the even-odd rule: every loop at even nesting depth with
+ * the loops directly inside it as holes (islands within islands are filled again)
+ */
+export const getHatchFillRegions = (entity: HatchEntity): { outer: Point[]; holes: Point[][] }[] => {
+  const loops = getHatchLoops(entity);
+  const depth = loops.map((loop, i) => loops.filter((other, j) => j !== i && isInsideLoop(loop[0], other)).length);
+  return loops.flatMap((loop, i) => depth[i] % 2 !== 0 ? [] : [{
+    outer: loop,
+    holes: loops.filter((hole, j) => depth[j] === depth[i] + 1 && isInsideLoop(hole[0], loop)),
+  }]);
+};
+
+/**
+ * Gradient fill of a hatch fitted to its loops; null when the hatch is not a gradient
+ */
+export const getHatchGradientPaint = (entity: HatchEntity): GradientPaint | null => {
+  const gradient = getHatchGradient(entity);
+  return gradient ? getGradientPaint(gradient, getHatchLoops(entity)) : null;
+};
+
+/**
+ * Pattern line segments and dots of a hatch in world coordinates (cached per entity object)
+ */
+export const getHatchGeometry = (entity: HatchEntity): HatchGeometry => {
+  const cached = geometryCache.get(entity);
+  if (cached) return cached;
+
+  const loops = getHatchLoops(entity);
+  const z = loops[0]?.[0]?.[2] || 0;
+  const families = isLineHatch(entity) ? getPatternLineFamilies(getHatchPatternConfig(entity)) : [];
+  const set = expandLineFamilies(
+    families,
+    loops.map(loop => loop.map((p): [number, number] => [p[0], p[1]])),
+    { rotation: (entity.rotation || 0) * 180 / Math.PI, scale: entity.scale || 1, maxElements: MAX_HATCH_ELEMENTS }
+  );
+
+  const geometry: HatchGeometry = {
+    lines: set.segments.map(([a, b]): [Point, Point] => [[a[0], a[1], z], [b[0], b[1], z]]),
+    dots: set.dots.map((p): Point => [p[0], p[1], z]),
+    truncated: set.truncated,
+  };
+  geometryCache.set(entity, geometry);
+  return geometry;
+};
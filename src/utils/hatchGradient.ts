@@ -0,0 +1,113 @@
+import type { HatchGradient, Point } from '../types/entities';
+
+// Gradyan dolgular: doğrusal, silindirik ve küresel renk geçişleri (ekran, SVG ve PDF aynı geometriyi kullanır)
+
+export interface GradientStop {
+  offset: number; // 0-1
+  color: string;
+}
+
+/**
+ * Gradient in drawing coordinates. Axial gradients run from `start` to `end`; radial ones
+ * spread from `start` out to `radius`. Areas beyond the ends keep the end colors.
+ */
+export interface GradientPaint {
+  kind: 'axial' | 'radial';
+  start: Point;
+  end: Point;
+  radius: number;
+  stops: GradientStop[];
+}
+
+const parseHex = (color: string): [number, number, number] => {
+  const value = parseInt(color.replace('#', ''), 16);
+  if (isNaN(value)) return [128, 128, 128];
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+const toHex = (rgb: number[]): string =>
+  '#' + rgb.map(c => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('');
+
+/**
+ * Second color of a one-color gradient: color1 shaded toward black (tint 0),
+ * unchanged at 0.5 and tinted toward white (tint 1)
+ */
+export const getGradientTintColor = (color: string, tint: number): string => {
+  const target = tint < 0.5 ? 0 : 255;
+  const amount = Math.min(1, Math.abs(tint - 0.5) * 2);
+  return toHex(parseHex(color).map(c => c + (target - c) * amount));
+};
+
+export const getGradientColors = (gradient: HatchGradient): [string, string] =>
+  [gradient.color1, gradient.color2 ?? getGradientTintColor(gradient.color1, gradient.tint ?? 1)];
+
+/**
+ * Gradient geometry fitted to the loops: the axis follows `angle` across the loop extents and
+ * `shift` moves the center toward the end of the axis. Cylindrical gradients put color2 on the
+ * center line, spherical ones at the center point.
+ */
+export const getGradientPaint = (gradient: HatchGradient, loops: Point[][]): GradientPaint | null => {
+  const points = loops.flat();
+  if (points.length < 3) return null;
+
+  const rad = (gradient.angle || 0) * Math.PI / 180;
+  const dir = [Math.cos(rad), Math.sin(rad)];
+  const projections = points.map(p => p[0] * dir[0] + p[1] * dir[1]);
+  const normals = points.map(p => -p[0] * dir[1] + p[1] * dir[0]);
+  const [tMin, tMax] = [Math.min(...projections), Math.max(...projections)];
+  const [nMin, nMax] = [Math.min(...normals), Math.max(...normals)];
+  const half = (tMax - tMin) / 2;
+  if (half <= 0 && nMax - nMin <= 0) return null;
+
+  const t = (tMin + tMax) / 2 + Math.min(1, Math.max(0, gradient.shift || 0)) * half;
+  const n = (nMin + nMax) / 2;
+  const center: Point = [t * dir[0] - n * dir[1], t * dir[1] + n * dir[0], points[0][2] || 0];
+  const along = (d: number): Point => [center[0] + dir[0] * d, center[1] + dir[1] * d, center[2]];
+  const [color1, color2] = getGradientColors(gradient);
+
+  switch (gradient.type) {
+    case 'spherical':
+      return {
+        kind: 'radial',
+        start: center,
+        end: center,
+        radius: Math.max(...points.map(p => Math.hypot(p[0] - center[0], p[1] - center[1]))) || 1,
+        stops: [{ offset: 0, color: color2 }, { offset: 1, color: color1 }],
+      };
+    case 'cylindrical':
+      return {
+        kind: 'axial',
+        start: along(-half),
+        end: along(half),
+        radius: 0,
+        stops: [{ offset: 0, color: color1 }, { offset: 0.5, color: color2 }, { offset: 1, color: color1 }],
+      };
+    default:
+      return {
+        kind: 'axial',
+        start: along(-half),
+        end: along(half),
+        radius: 0,
+        stops: [{ offset: 0, color: color1 }, { offset: 1, color: color2 }],
+      };
+  }
+};
+
+/**
+ * Canvas gradient of a paint; `toCanvas` maps drawing to canvas coordinates and
+ * `pixelsPerUnit` scales the radius
+ */
+export const createCanvasGradient = (
+  ctx: CanvasRenderingContext2D,
+  paint: GradientPaint,
+  toCanvas: (point: Point) => [number, number],
+  pixelsPerUnit: number
+): CanvasGradient => {
+  const [x0, y0] = toCanvas(paint.start);
+  const [x1, y1] = toCanvas(paint.end);
+  const canvasGradient = paint.kind === 'radial'
+    ? ctx.createRadialGradient(x0, y0, 0, x0, y0, paint.radius * pixelsPerUnit)
+    : ctx.createLinearGradient(x0, y0, x1, y1);
+  paint.stops.forEach(stop => canvasGradient.addColorStop(stop.offset, stop.color));
+  return canvasGradient;
+};
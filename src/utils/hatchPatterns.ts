@@ -1,5 +1,9 @@
+import { parsePatFile, expandLineFamilies, STANDARD_PAT, type PatternLineFamily, type PatPattern } from './patFile';
+import type { GradientType } from '../types/entities';
+import { createCanvasGradient, getGradientPaint } from './hatchGradient';
+
 // Simple types for pattern configuration
-export type PatternType = 'lines' | 'cross' | 'dots' | 'solid' | 'zigzag' | 'honeycomb' | 'hexagon' | 'diamond' | 'wave' | 'dash' | 'grid' | 'custom_image';
+export type PatternType = 'lines' | 'cross' | 'dots' | 'solid' | 'zigzag' | 'honeycomb' | 'hexagon' | 'diamond' | 'wave' | 'dash' | 'grid' | 'custom_image' | 'pat' | 'gradient';
 
 export interface HatchPatternConfig {
     name: string;
@@ -7,17 +11,24 @@ export interface HatchPatternConfig {
     angle: number; // base angle in degrees
     scale: number; // base scale
     spacing: number; // spacing between lines relative to scale
-    category: 'architectural' | 'industrial' | 'natural' | 'geometric' | 'custom';
+    category: 'architectural' | 'industrial' | 'natural' | 'geometric' | 'iso' | 'gradient' | 'custom';
     color?: string; // default color suggestion
     imageData?: string; // Base64 data for custom images
+    lines?: PatternLineFamily[]; // PAT çizgi aileleri (çizim birimi); yoksa type/spacing'den türetilir
+    gradientType?: GradientType; // type === 'gradient' için
 }
 
+// ANSI31 standart çizgi aralığı (3.175) desen tanımındaki 0.1 aralığa karşılık gelir
+export const PATTERN_SPACING_UNIT = 31.75;
+
 // Pattern categories for UI grouping
 export const PATTERN_CATEGORIES = {
     architectural: { name: 'Architectural', icon: '🏠' },
     industrial: { name: 'Industrial', icon: '⚙️' },
     natural: { name: 'Natural', icon: '🌿' },
     geometric: { name: 'Geometric', icon: '◇' },
+    iso: { name: 'ANSI / ISO', icon: '📐' },
+    gradient: { name: 'Gradient', icon: '🌈' },
     custom: { name: 'Custom', icon: '🖼️' },
 };
 
@@ -26,6 +37,11 @@ export const PRESET_PATTERNS: Record<string, HatchPatternConfig> = {
     // Solid
     'SOLID': { name: 'Solid', type: 'solid', angle: 0, scale: 1, spacing: 0, category: 'geometric', color: '#808080' },
 
+    // Gradient fills (renkler HatchEntity.gradient'ta)
+    'GR_LINEAR': { name: 'Linear', type: 'gradient', gradientType: 'linear', angle: 0, scale: 1, spacing: 0, category: 'gradient', color: '#4169E1' },
+    'GR_CYLINDER': { name: 'Cylindrical', type: 'gradient', gradientType: 'cylindrical', angle: 0, scale: 1, spacing: 0, category: 'gradient', color: '#4169E1' },
+    'GR_SPHERICAL': { name: 'Spherical', type: 'gradient', gradientType: 'spherical', angle: 0, scale: 1, spacing: 0, category: 'gradient', color: '#4169E1' },
+
     // Architectural patterns - Standard AutoCAD
     'ANSI31': { name: 'ANSI31 (Iron)', type: 'lines', angle: 45, scale: 1, spacing: 0.1, category: 'industrial', color: '#4a4a4a' },
     'ANSI32': { name: 'ANSI32 (Steel)', type: 'lines', angle: 45, scale: 1, spacing: 0.05, category: 'industrial', color: '#5a5a5a' },
@@ -77,8 +93,91 @@ export const PRESET_PATTERNS: Record<string, HatchPatternConfig> = {
     'GROUT': { name: 'Harç', type: 'dots', angle: 0, scale: 1, spacing: 0.035, category: 'architectural', color: '#C0C0C0' },
 };
 
+// Standart PAT desenleri: aynı adlı hazır desenler gerçek çizgi ailelerini alır, diğerleri ANSI / ISO kategorisine eklenir
+const patDisplayName = (pattern: PatPattern): string => {
+    const description = pattern.description.replace(/^ANSI\s+/, '').split(',')[0].trim();
+    return description ? `${pattern.name} (${description})` : pattern.name;
+};
+
+parsePatFile(STANDARD_PAT).patterns.forEach(pattern => {
+    const preset = PRESET_PATTERNS[pattern.name];
+    if (preset) {
+        preset.lines = pattern.lines;
+        return;
+    }
+    PRESET_PATTERNS[pattern.name] = {
+        name: patDisplayName(pattern),
+        type: 'pat',
+        angle: 0,
+        scale: 1,
+        spacing: 0,
+        category: 'iso',
+        color: '#4a4a4a',
+        lines: pattern.lines,
+    };
+});
+
+const HONEY = PRESET_PATTERNS['HONEY'].lines!;
+
+const scaleFamilies = (families: PatternLineFamily[], factor: number, angle: number): PatternLineFamily[] =>
+    families.map(family => {
+        const rad = angle * Math.PI / 180;
+        const [x, y] = family.origin;
+        return {
+            angle: family.angle + angle,
+            origin: [(x * Math.cos(rad) - y * Math.sin(rad)) * factor, (x * Math.sin(rad) + y * Math.cos(rad)) * factor],
+            offset: [family.offset[0] * factor, family.offset[1] * factor],
+            dashes: family.dashes.map(dash => dash * factor),
+        };
+    });
+
+/**
+ * Line families of a pattern in drawing units at scale 1. PAT patterns return their
+ * definition; the simple preset types are expressed as equivalent families.
+ * Solid and image patterns have none.
+ */
+export const getPatternLineFamilies = (config: HatchPatternConfig): PatternLineFamily[] => {
+    if (config.lines) return config.lines;
+
+    const s = (config.spacing || 0.1) * PATTERN_SPACING_UNIT;
+    const a = config.angle || 0;
+    const family = (angle: number, offset: [number, number], dashes: number[] = [], origin: [number, number] = [0, 0]): PatternLineFamily =>
+        ({ angle, origin, offset, dashes });
+
+    switch (config.type) {
+        case 'solid':
+        case 'custom_image':
+        case 'gradient':
+            return [];
+        case 'cross':
+        case 'grid':
+            return [family(a, [0, s]), family(a + 90, [0, s])];
+        case 'diamond':
+            return [family(a, [0, s / Math.SQRT2]), family(a + 90, [0, s / Math.SQRT2])];
+        case 'dots':
+            return [family(a, [0, s], [0, -s])];
+        case 'dash':
+            return [family(a, [s / 2, s], [s * 0.6, -s * 0.4])];
+        case 'zigzag':
+        case 'wave': {
+            // Yatay sıralar halinde s genişliğinde, s/2 yüksekliğinde zikzak
+            const d = s / Math.SQRT2;
+            return scaleFamilies([
+                family(45, [d, d], [d, -d]),
+                family(-45, [-d, d], [d, -d], [s / 2, s / 2]),
+            ], 1, a);
+        }
+        case 'honeycomb':
+        case 'hexagon':
+            // HONEY altıgen kenarı 3.175
+            return scaleFamilies(HONEY, (config.type === 'hexagon' ? s * 0.75 : s / 2) / 3.175, a);
+        default:
+            return [family(a, [0, s])];
+    }
+};
+
 /**
- * Generate a pattern texture as data URI
+ * Generate a pattern texture as data URI (gallery previews)
  */
 export const getPatternTexture = (patternName: string, color: string, scale: number = 1): string | null => {
     if (patternName === 'SOLID') return null;
@@ -91,238 +190,51 @@ export const getPatternTexture = (patternName: string, color: string, scale: num
         return config.imageData;
     }
 
-    let SIZE = 64;
-
-    // Special handling for seamless Honeycomb
-    // Period X: 3 * hexSize
-    // Period Y: 1.75 * hexSize (approximation of sqrt(3)=1.732 for seamless loop)
-    // We choose hexSize = 20
-    // Period X = 60, Period Y = 35. LCM = 420.
-    if (config.type === 'honeycomb') {
-        SIZE = 420;
-    }
-
+    const SIZE = 64;
     const canvas = document.createElement('canvas');
     canvas.width = SIZE;
     canvas.height = SIZE;
     const ctx = canvas.getContext('2d');
     if (!ctx) return null;
 
-    // Clear background (transparent)
     ctx.clearRect(0, 0, SIZE, SIZE);
 
-    // Set drawing styles
+    // Gradyan önizlemesi: seçili renkten beyaza
+    if (config.type === 'gradient') {
+        const square: [number, number, number][] = [[0, 0, 0], [SIZE, 0, 0], [SIZE, SIZE, 0], [0, SIZE, 0]];
+        const paint = getGradientPaint({ type: config.gradientType ?? 'linear', color1: color, tint: 1, angle: 0, shift: 0 }, [square]);
+        if (paint) {
+            ctx.fillStyle = createCanvasGradient(ctx, paint, ([x, y]) => [x, SIZE - y], 1);
+            ctx.fillRect(0, 0, SIZE, SIZE);
+        }
+        return canvas.toDataURL();
+    }
+
     ctx.strokeStyle = color;
     ctx.fillStyle = color;
     ctx.lineWidth = 1.5;
     ctx.lineCap = 'round';
 
-    // Calculate spacing based on preset config
-    let spacing = (config.spacing || 0.1) * (config.type === 'honeycomb' ? 100 : SIZE);
-    if (scale !== 1) spacing /= scale;
-    spacing = Math.max(4, spacing);
-
-    // Override spacing for Honeycomb to ensure seamless fit
-    if (config.type === 'honeycomb') {
-        spacing = 20; // Fixed hexSize for seamless 420x420 texture
-    }
-
-    switch (config.type) {
-        case 'lines':
-            drawLines(ctx, SIZE, config.angle, spacing);
-            break;
-        case 'cross':
-            drawCross(ctx, SIZE, config.angle, spacing);
-            break;
-        case 'dots':
-            drawDots(ctx, SIZE, spacing, patternName);
-            break;
-        case 'grid':
-            drawGrid(ctx, SIZE, spacing);
-            break;
-        case 'zigzag':
-            drawZigzag(ctx, SIZE, spacing);
-            break;
-        case 'honeycomb':
-            drawHoneycomb(ctx, SIZE, spacing);
-            break;
-        case 'hexagon':
-            drawHexagon(ctx, SIZE, spacing);
-            break;
-        case 'diamond':
-            drawDiamond(ctx, SIZE, spacing);
-            break;
-        case 'wave':
-            drawWave(ctx, SIZE, spacing);
-            break;
-        case 'dash':
-            drawDash(ctx, SIZE, config.angle, spacing);
-            break;
-        default:
-            drawLines(ctx, SIZE, 45, spacing);
-    }
-
-    return canvas.toDataURL();
-};
-
-// Drawing helper functions
-function drawLines(ctx: CanvasRenderingContext2D, size: number, angle: number, spacing: number) {
-    ctx.beginPath();
-    const rad = (angle * Math.PI) / 180;
-    const cos = Math.cos(rad);
-    const sin = Math.sin(rad);
-
-    for (let i = -size * 2; i < size * 3; i += spacing) {
-        const x1 = i;
-        const y1 = 0;
-        const x2 = i - size * sin;
-        const y2 = size * cos;
-
-        ctx.moveTo(x1 * cos - y1 * sin, x1 * sin + y1 * cos);
-        ctx.lineTo(x2 * cos - y2 * sin, x2 * sin + y2 * cos);
-    }
-    ctx.stroke();
-}
-
-function drawCross(ctx: CanvasRenderingContext2D, size: number, angle: number, spacing: number) {
-    drawLines(ctx, size, angle, spacing);
-    drawLines(ctx, size, angle + 90, spacing);
-}
-
-function drawDots(ctx: CanvasRenderingContext2D, size: number, spacing: number, patternName: string) {
-    const isRandom = ['CONCRETE', 'GRASS', 'EARTH', 'GRAVEL', 'SAND', 'STONE'].includes(patternName);
-    const dotCount = isRandom ? Math.floor(size * size / (spacing * spacing * 4)) : 0;
-
-    if (isRandom) {
-        // Random scattered dots
-        for (let i = 0; i < dotCount; i++) {
-            const x = Math.random() * size;
-            const y = Math.random() * size;
-            const radius = 0.5 + Math.random() * 1.5;
-            ctx.beginPath();
-            ctx.arc(x, y, radius, 0, Math.PI * 2);
-            ctx.fill();
-        }
-    } else {
-        // Grid dots
-        for (let x = spacing / 2; x < size; x += spacing) {
-            for (let y = spacing / 2; y < size; y += spacing) {
-                ctx.beginPath();
-                ctx.arc(x, y, 1.5, 0, Math.PI * 2);
-                ctx.fill();
-            }
-        }
-    }
-}
-
-function drawGrid(ctx: CanvasRenderingContext2D, size: number, spacing: number) {
-    ctx.beginPath();
-    // Horizontal lines
-    for (let y = 0; y < size; y += spacing) {
-        ctx.moveTo(0, y);
-        ctx.lineTo(size, y);
-    }
-    // Vertical lines
-    for (let x = 0; x < size; x += spacing) {
-        ctx.moveTo(x, 0);
-        ctx.lineTo(x, size);
-    }
-    ctx.stroke();
-}
-
-function drawZigzag(ctx: CanvasRenderingContext2D, size: number, spacing: number) {
-    ctx.beginPath();
-    const amplitude = spacing / 2;
-    for (let y = 0; y < size; y += spacing) {
-        ctx.moveTo(0, y);
-        for (let x = 0; x < size; x += amplitude) {
-            const yOffset = (Math.floor(x / amplitude) % 2 === 0) ? -amplitude / 2 : amplitude / 2;
-            ctx.lineTo(x + amplitude, y + yOffset);
-        }
-    }
-    ctx.stroke();
-}
-
-function drawHoneycomb(ctx: CanvasRenderingContext2D, size: number, spacing: number) {
-    const hexSize = spacing;
-    // Use distorted height for seamless tiling: h = hexSize * 1.75 / 2
-    // True height would be hexSize * sqrt(3) / 2 ~= hexSize * 1.732 / 2
-    // 1.75 allows integer period with period Y = 3.5r = 1.75d
-    const h = hexSize * 1.75 / 2;
-
-    ctx.beginPath();
-    // Draw expanding beyond bounds to ensure edges are covered
-    for (let row = -2; row < size / h + 2; row++) {
-        for (let col = -2; col < size / (hexSize * 1.5) + 2; col++) {
-            const cx = col * hexSize * 1.5;
-            const cy = row * h * 2 + (col % 2 === 0 ? 0 : h);
-            drawHexagonShape(ctx, cx, cy, hexSize / 2);
-        }
-    }
-    ctx.stroke();
-}
-
-function drawHexagonShape(ctx: CanvasRenderingContext2D, cx: number, cy: number, r: number) {
-    for (let i = 0; i < 6; i++) {
-        const angle = (i * 60 - 30) * Math.PI / 180;
-        const nextAngle = ((i + 1) * 60 - 30) * Math.PI / 180;
-        ctx.moveTo(cx + r * Math.cos(angle), cy + r * Math.sin(angle));
-        ctx.lineTo(cx + r * Math.cos(nextAngle), cy + r * Math.sin(nextAngle));
-    }
-}
-
-function drawHexagon(ctx: CanvasRenderingContext2D, size: number, spacing: number) {
-    drawHoneycomb(ctx, size, spacing * 1.5);
-}
+    // Önizleme: çizim biriminde bir kare pencerede gerçek çizgi aileleri
+    const pixelsPerUnit = 2 / scale;
+    const extent = SIZE / pixelsPerUnit;
+    const { segments, dots } = expandLineFamilies(getPatternLineFamilies(config), [[[0, 0], [extent, 0], [extent, extent], [0, extent]]], { maxElements: 2000 });
+    const toCanvas = ([x, y]: [number, number]): [number, number] => [x * pixelsPerUnit, SIZE - y * pixelsPerUnit];
 
-function drawDiamond(ctx: CanvasRenderingContext2D, size: number, spacing: number) {
     ctx.beginPath();
-    const d = spacing;
-    for (let y = 0; y < size + d; y += d) {
-        for (let x = 0; x < size + d; x += d) {
-            const offset = ((y / d) % 2 === 0) ? 0 : d / 2;
-            ctx.moveTo(x + offset, y - d / 2);
-            ctx.lineTo(x + offset + d / 2, y);
-            ctx.lineTo(x + offset, y + d / 2);
-            ctx.lineTo(x + offset - d / 2, y);
-            ctx.closePath();
-        }
-    }
-    ctx.stroke();
-}
-
-function drawWave(ctx: CanvasRenderingContext2D, size: number, spacing: number) {
-    ctx.beginPath();
-    const amplitude = spacing / 3;
-    const frequency = (2 * Math.PI) / spacing;
-
-    for (let y = 0; y < size; y += spacing) {
-        ctx.moveTo(0, y);
-        for (let x = 0; x <= size; x += 2) {
-            ctx.lineTo(x, y + Math.sin(x * frequency) * amplitude);
-        }
-    }
+    segments.forEach(([a, b]) => {
+        ctx.moveTo(...toCanvas(a));
+        ctx.lineTo(...toCanvas(b));
+    });
     ctx.stroke();
-}
+    dots.forEach(dot => {
+        ctx.beginPath();
+        ctx.arc(...toCanvas(dot), 1, 0, Math.PI * 2);
+        ctx.fill();
+    });
 
-function drawDash(ctx: CanvasRenderingContext2D, size: number, angle: number, spacing: number) {
-    ctx.beginPath();
-    const rad = (angle * Math.PI) / 180;
-    const dashLength = spacing * 0.6;
-    const gapLength = spacing * 0.4;
-
-    for (let i = -size; i < size * 2; i += spacing) {
-        for (let j = 0; j < size; j += dashLength + gapLength) {
-            const x1 = i + Math.cos(rad) * j;
-            const y1 = Math.sin(rad) * j;
-            const x2 = i + Math.cos(rad) * (j + dashLength);
-            const y2 = Math.sin(rad) * (j + dashLength);
-            ctx.moveTo(x1, y1);
-            ctx.lineTo(x2, y2);
-        }
-    }
-    ctx.stroke();
-}
+    return canvas.toDataURL();
+};
 
 /**
  * Generate a small preview thumbnail for pattern gallery
@@ -360,13 +272,7 @@ const STORAGE_KEY = 'CAD_CUSTOM_PATTERNS';
  */
 const saveCustomPatterns = () => {
     if (typeof window === 'undefined') return;
-    const customPatterns: Record<string, HatchPatternConfig> = {};
-    Object.entries(PRESET_PATTERNS).forEach(([k, v]) => {
-        if (v.category === 'custom') {
-            customPatterns[k] = v;
-        }
-    });
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(customPatterns));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(getCustomPatterns()));
 };
 
 /**
@@ -387,6 +293,31 @@ export const addCustomPattern = (name: string, imageData: string) => {
     return id;
 };
 
+/**
+ * Register patterns parsed from a .pat file as custom patterns (keyed by PAT name so
+ * DXF output keeps the name). Built-in patterns with the same name are kept.
+ */
+export const addPatPatterns = (patterns: PatPattern[]): string[] => {
+    const added: string[] = [];
+    patterns.forEach(pattern => {
+        const existing = PRESET_PATTERNS[pattern.name];
+        if (existing && existing.category !== 'custom') return;
+        PRESET_PATTERNS[pattern.name] = {
+            name: patDisplayName(pattern),
+            type: 'pat',
+            angle: 0,
+            scale: 1,
+            spacing: 0,
+            category: 'custom',
+            color: '#4a4a4a',
+            lines: pattern.lines,
+        };
+        added.push(pattern.name);
+    });
+    if (added.length > 0) saveCustomPatterns();
+    return added;
+};
+
 /**
  * Delete a custom pattern from registry and storage
  */
@@ -397,6 +328,27 @@ export const deleteCustomPattern = (id: string) => {
     }
 };
 
+/**
+ * Custom (user-added) patterns currently in the registry
+ */
+export const getCustomPatterns = (): Record<string, HatchPatternConfig> => {
+    const customPatterns: Record<string, HatchPatternConfig> = {};
+    Object.entries(PRESET_PATTERNS).forEach(([k, v]) => {
+        if (v.category === 'custom') {
+            customPatterns[k] = v;
+        }
+    });
+    return customPatterns;
+};
+
+/**
+ * Put a previously deleted custom pattern back (undo of PURGE)
+ */
+export const restoreCustomPattern = (id: string, config: HatchPatternConfig) => {
+    PRESET_PATTERNS[id] = config;
+    saveCustomPatterns();
+};
+
 // Initial Load from Storage (Self-executing on module load)
 if (typeof window !== 'undefined') {
     try {
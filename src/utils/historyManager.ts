@@ -39,6 +39,24 @@ export class HistoryManager {
     };
   }
 
+  /**
+   * Create a history item for a change outside the entity list (layers, block table, sheets);
+   * undo/redo run the given actions instead of restoring entities
+   */
+  createActionItem(
+    command: CommandType,
+    entities: Entity[],
+    selection: Set<number>,
+    undoAction: () => void,
+    redoAction: () => void
+  ): CommandHistoryItem {
+    return {
+      ...this.createHistoryItem(command, entities, entities, selection, selection),
+      undoAction,
+      redoAction,
+    };
+  }
+
   /**
    * Push a history item onto the undo stack
    */
@@ -0,0 +1,368 @@
+import { saveAs } from 'file-saver';
+import type { Entity, Point, LWPolylineEntity, HatchEntity, TableEntity, TextEntity } from '../types/entities';
+import type { BlockTable } from '../types/blocks';
+import type { Layer } from '../types/layers';
+import { DEFAULT_LAYER } from '../types/layers';
+import type { PlotSettings, PlotDrawingData } from '../types/plot';
+import { DEFAULT_PLOT_SETTINGS, HPGL_UNITS_PER_MM, HPGL_PEN_COUNT } from '../types/plot';
+import { DXF_LINETYPES } from '../types/dxf';
+import { getDimensionGraphics } from './dimensionUtils';
+import { sampleSpline } from './geometryUtils';
+import { getReferenceOutputMembers, isBlockReference } from './blockUtils';
+import { getPolylineSegments, bulgeToArc } from './polylineUtils';
+import { PATTERN_SPACING_UNIT } from './hatchPatterns';
+import { getHatchGeometry, getHatchPatternConfig, isLineHatch } from './hatchGeometry';
+import { computePlotLayout, getPlotPen, type PlotLayout } from './plotUtils';
+
+// POINT işaretinin yarı boyu (çizim birimi, ekrandaki çizimle aynı)
+const POINT_SIZE = 0.5;
+
+// Elips örnekleme sayısı (tam tur); HPGL'de yerel elips komutu yok
+const ELLIPSE_SEGMENTS = 72;
+
+// Etiket karakter genişliği / yüksekliği (HPGL stroke yazı tipi)
+const LABEL_ASPECT = 0.75;
+
+// Noktalar (0 boylu çizgi) kalem ucu kadar kısa çizgi olarak çizilir (mm)
+const DOT_LENGTH = 0.1;
+
+// Tarama tipine göre HPGL dolgu tipi: 3 paralel çizgi, 4 çapraz tarama; diğerleri desen çizgisi olarak
+const FILL_TYPES: Record<string, number> = { lines: 3, cross: 4, grid: 4 };
+
+const ETX = String.fromCharCode(3);
+
+/**
+ * HPGLExporter writes the visible entities as HP-GL/2 for pen plotters and vinyl
+ * cutters. Placement and scale come from the print dialog's plot settings; portrait
+ * sheets rotate the plotter frame with RO90. Arcs and circles are native AA/CI commands
+ * and simple hatches use the plotter's own fill types. Pens follow layer plot styles or colors.
+ */
+export class HPGLExporter {
+  private settings: PlotSettings;
+  private blocks: BlockTable = {};
+  private layers: Layer[] = [];
+  private layout: PlotLayout = computePlotLayout([], DEFAULT_PLOT_SETTINGS, { blocks: {} });
+  private linetypes: string[] = [];
+
+  constructor(settings: Partial<PlotSettings> = {}) {
+    this.settings = { ...DEFAULT_PLOT_SETTINGS, ...settings };
+  }
+
+  export(entities: Entity[], data: PlotDrawingData): string {
+    this.blocks = data.blocks;
+    this.layers = data.layers ?? [];
+    this.linetypes = [];
+
+    const visible = entities.filter(entity => entity.visible);
+    this.layout = computePlotLayout(visible, this.settings, data);
+
+    // Kalem değişimini azaltmak için komutlar kaleme göre toplanır
+    const byPen = new Map<number, string[]>();
+    const add = (entity: Entity) => {
+      const layer = this.getLayer(entity.layer);
+      if (!layer.visible || layer.frozen || layer.plot === false) return;
+      const ops = this.entityOps(entity);
+      if (!ops) return;
+      const pen = getPlotPen(this.resolveColor(entity), layer.plotStyle, this.settings.plotStyle);
+      if (!byPen.has(pen)) byPen.set(pen, []);
+      byPen.get(pen)!.push(this.linetype(entity, layer) + ops);
+    };
+    visible.forEach(entity => {
+      if (isBlockReference(entity)) getReferenceOutputMembers(entity, this.blocks).forEach(add);
+      else add(entity);
+    });
+
+    const { paperWidth, paperHeight, printable } = this.layout;
+    const portrait = this.settings.orientation === 'portrait';
+    const long = Math.max(paperWidth, paperHeight);
+    const short = Math.min(paperWidth, paperHeight);
+    const output: string[] = [
+      'IN;',
+      `PS${this.plu(long)},${this.plu(short)};`,
+      // Çizicinin doğal çerçevesi yataydır; dikey sayfada koordinat sistemi döndürülür
+      `RO${portrait ? 90 : 0};`,
+      'PA;',
+      // Kenar boşlukları dışına taşan çizimler kırpılır
+      `IW${this.plu(printable.x)},${this.plu(printable.y)},${this.plu(printable.x + printable.width)},${this.plu(printable.y + printable.height)};`,
+      ...this.linetypes.map((pattern, i) => `UL${i + 1},${pattern};`),
+    ];
+
+    [...byPen.keys()].sort((a, b) => a - b).forEach(pen => {
+      output.push(`SP${pen};`, ...byPen.get(pen)!);
+    });
+    output.push('PU;', 'SP0;', '');
+    return output.join('\n');
+  }
+
+  private entityOps(entity: Entity): string {
+    switch (entity.type) {
+      case 'LINE':
+        return `PU${this.xy(entity.start)};PD${this.xy(entity.end)};`;
+      case 'LWPOLYLINE':
+        return entity.vertices.length < 2 ? '' : this.polylineOps(entity);
+      case 'CIRCLE':
+        return `PU${this.xy(entity.center)};CI${this.plu(entity.radius * this.layout.factor)};`;
+      case 'ARC': {
+        let sweep = entity.endAngle - entity.startAngle;
+        if (sweep <= 0) sweep += Math.PI * 2;
+        const start = this.polar(entity.center, entity.radius, entity.startAngle);
+        return `PU${this.xy(start)};PD;AA${this.xy(entity.center)},${this.deg(sweep)};`;
+      }
+      case 'ELLIPSE': {
+        const { center, rx, ry } = entity;
+        const rotation = entity.rotation || 0;
+        const points = Array.from({ length: ELLIPSE_SEGMENTS + 1 }, (_, i): Point => {
+          const t = i / ELLIPSE_SEGMENTS * Math.PI * 2;
+          const ex = rx * Math.cos(t);
+          const ey = ry * Math.sin(t);
+          return [center[0] + ex * Math.cos(rotation) - ey * Math.sin(rotation), center[1] + ex * Math.sin(rotation) + ey * Math.cos(rotation), 0];
+        });
+        return this.pointsOps(points);
+      }
+      case 'POINT': {
+        const [x, y] = entity.position;
+        return `PU${this.xy([x - POINT_SIZE, y, 0])};PD${this.xy([x + POINT_SIZE, y, 0])};PU${this.xy([x, y - POINT_SIZE, 0])};PD${this.xy([x, y + POINT_SIZE, 0])};`;
+      }
+      case 'SPLINE': {
+        const points = sampleSpline(entity);
+        if (points.length < 2) return '';
+        return this.pointsOps(entity.closed ? [...points, points[0]] : points);
+      }
+      case 'RAY':
+      case 'XLINE':
+        return this.rayOps(entity.type, entity.origin, entity.direction);
+      case 'DONUT': {
+        const { center, innerRadius, outerRadius } = entity;
+        const inner = innerRadius > 0 ? `PM1;PU${this.xy([center[0] + innerRadius, center[1], 0])};PD;AA${this.xy(center)},360;` : '';
+        return `PU${this.xy([center[0] + outerRadius, center[1], 0])};PM0;PD;AA${this.xy(center)},360;${inner}PM2;FT1;FP;PU;`;
+      }
+      case 'TEXT':
+        return this.buildText(entity);
+      case 'DIMENSION':
+        return this.buildDimension(entity);
+      case 'HATCH':
+        return this.buildHatch(entity);
+      case 'TABLE':
+        return this.buildTable(entity);
+      default:
+        console.warn(`Unsupported entity type for HPGL export: ${(entity as Entity).type}`);
+        return '';
+    }
+  }
+
+  // Yay segmentleri AA ile (açı derece, saat yönü tersi pozitif)
+  private polylineOps(entity: Pick<LWPolylineEntity, 'vertices' | 'closed' | 'bulges'>): string {
+    const ops: string[] = [`PU${this.xy(entity.vertices[0])};PD;`];
+    getPolylineSegments(entity).forEach(segment => {
+      const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+      ops.push(arc ? `AA${this.xy(arc.center)},${this.deg(arc.sweep)};` : `PA${this.xy(segment.end)};`);
+    });
+    ops.push('PU;');
+    return ops.join('');
+  }
+
+  private pointsOps(points: Point[]): string {
+    return `PU${this.xy(points[0])};PD${points.slice(1).map(p => this.xy(p)).join(',')};`;
+  }
+
+  private rayOps(type: 'RAY' | 'XLINE', origin: Point, direction: Point): string {
+    // Alanı her durumda aşacak uzunlukta çizilir, giriş penceresi (IW) kırpar
+    const length = Math.hypot(direction[0], direction[1]) || 1;
+    const [dx, dy] = [direction[0] / length, direction[1] / length];
+    const { area, paperWidth, paperHeight, factor } = this.layout;
+    const reach = Math.hypot(origin[0] - (area.min[0] + area.max[0]) / 2, origin[1] - (area.min[1] + area.max[1]) / 2)
+      + Math.hypot(paperWidth, paperHeight) / factor;
+    const start: Point = type === 'XLINE' ? [origin[0] - dx * reach, origin[1] - dy * reach, 0] : origin;
+    return `PU${this.xy(start)};PD${this.xy([origin[0] + dx * reach, origin[1] + dy * reach, 0])};`;
+  }
+
+  private buildText(entity: TextEntity): string {
+    if (!entity.text) return '';
+    const align = entity.justification === 'center' || entity.justification === 'middle' ? 'center'
+      : entity.justification === 'right' ? 'right' : 'left';
+    return this.labelOps(entity.position, entity.height, entity.text, entity.rotation || 0, align, false);
+  }
+
+  private buildDimension(entity: Extract<Entity, { type: 'DIMENSION' }>): string {
+    const graphics = getDimensionGraphics(entity);
+    const ops: string[] = [
+      ...graphics.lines.map(([p1, p2]) => `PU${this.xy(p1)};PD${this.xy(p2)};`),
+      ...graphics.arcs.map(arc => `PU${this.xy(this.polar(arc.center, arc.radius, arc.startAngle))};PD;AA${this.xy(arc.center)},${this.deg(arc.endAngle - arc.startAngle)};`),
+      // Oklar kalemle dolu üçgen olarak
+      ...graphics.arrows.map(([tip, left, right]) => `PU${this.xy(tip)};PM0;PD${this.xy(left)},${this.xy(right)},${this.xy(tip)};PM2;FT1;FP;PU;`),
+    ];
+    graphics.texts.forEach(text => {
+      if (text.text) ops.push(this.labelOps(text.position, text.height, text.text, text.rotation, 'center', true));
+    });
+    return ops.join('');
+  }
+
+  // Dolu ve basit çizgi taramaları çiziciye kendi dolgu tipiyle yaptırılır (sınır ve adalar çokgen
+  // tamponunda, çift-tek kuralı); PAT desenleri ve diğer tipler kırpılmış desen çizgileri olarak çizilir
+  private buildHatch(entity: HatchEntity): string {
+    const paths = [entity.boundary, ...(entity.islands || [])].filter(path => path?.vertices?.length >= 3);
+    if (paths.length === 0) return '';
+    const config = getHatchPatternConfig(entity);
+    const type = isLineHatch(entity) ? FILL_TYPES[config.type] : config.type === 'custom_image' ? 3 : 1;
+
+    if (type === undefined || config.lines) {
+      const { lines, dots } = getHatchGeometry(entity);
+      const dot = DOT_LENGTH / this.layout.factor;
+      return 'LT;' + [
+        ...lines.map(([a, b]) => `PU${this.xy(a)};PD${this.xy(b)};`),
+        ...dots.map(p => `PU${this.xy(p)};PD${this.xy([p[0] + dot, p[1], p[2]])};`),
+      ].join('');
+    }
+
+    const polygon = paths.map((path, i) => {
+      const outline = this.polylineOps({ ...path, closed: true });
+      return `${i > 0 ? 'PM1;' : ''}${outline.slice(0, -'PU;'.length)}`;
+    });
+    const spacing = (config.spacing || 0.1) * PATTERN_SPACING_UNIT * (entity.scale || 1) * this.layout.factor;
+    const angle = (config.angle ?? entity.pattern?.angle ?? 0) + (entity.rotation || 0) * 180 / Math.PI;
+    const fill = type === 1 ? 'FT1;' : `FT${type},${this.plu(Math.max(spacing, 0.1))},${this.num(((angle % 360) + 360) % 360)};`;
+
+    const first = this.xy(paths[0].vertices[0]);
+    return `PU${first};PM0;${polygon.join('')}PM2;${fill}FP;PU;`;
+  }
+
+  // Tablo döndürülmemiş olarak hesaplanıp sol üst köşe etrafında döndürülür (ekrandaki çizimle aynı düzen)
+  private buildTable(entity: TableEntity): string {
+    const { position, rows, cols, rowHeight, colWidth, cellData, cellStyles, headerRow } = entity;
+    const [px, py] = [position[0], position[1]];
+    const rotation = entity.rotation || 0;
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const at = (x: number, y: number): Point => [
+      px + (x - px) * cos - (y - py) * sin,
+      py + (x - px) * sin + (y - py) * cos,
+      0,
+    ];
+    const line = (x1: number, y1: number, x2: number, y2: number) => `PU${this.xy(at(x1, y1))};PD${this.xy(at(x2, y2))};`;
+    const ops: string[] = [];
+
+    // Başlık çizgisi iki kez çizilerek kalınlaştırılır
+    for (let i = 0; i <= rows; i++) {
+      ops.push(line(px, py - i * rowHeight, px + cols * colWidth, py - i * rowHeight));
+      if (headerRow && i === 1) ops.push(line(px + cols * colWidth, py - i * rowHeight, px, py - i * rowHeight));
+    }
+    for (let j = 0; j <= cols; j++) {
+      ops.push(line(px + j * colWidth, py, px + j * colWidth, py - rows * rowHeight));
+    }
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const text = cellData?.[row]?.[col];
+        if (!text) continue;
+        const style = cellStyles?.[row]?.[col];
+        const alignment = style?.alignment || 'center';
+        const x = alignment === 'left' ? px + col * colWidth + colWidth * 0.05
+          : alignment === 'right' ? px + (col + 1) * colWidth - colWidth * 0.05
+            : px + col * colWidth + colWidth / 2;
+        ops.push(this.labelOps(at(x, py - row * rowHeight - rowHeight / 2), style?.textHeight || rowHeight * 0.6, text, rotation, alignment, true));
+      }
+    }
+    return ops.join('');
+  }
+
+  // Etiket: SI karakter boyu cm, DI yön vektörü, LO hizalama (1 sol, 4 orta, 7 sağ taban; +1 dikey orta)
+  private labelOps(position: Point, height: number, text: string, rotation: number, align: 'left' | 'center' | 'right', middle: boolean): string {
+    const size = height * this.layout.factor / 10;
+    if (size <= 0) return '';
+    const origin = (align === 'right' ? 7 : align === 'center' ? 4 : 1) + (middle ? 1 : 0);
+    const label = text.split('\n').map(line => this.encodeText(line)).join('\r\n');
+    return `PU${this.xy(position)};SI${this.num(size * LABEL_ASPECT, 4)},${this.num(size, 4)};DI${this.num(Math.cos(rotation), 4)},${this.num(Math.sin(rotation), 4)};LO${origin};LB${label}${ETX}`;
+  }
+
+  // Çizici yazı tipi ASCII'dir: aksanlı harfler taban harfe indirgenir
+  private encodeText(text: string): string {
+    return text
+      .replace(/ı/g, 'i')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[^\x20-\x7e]/g, '?');
+  }
+
+  // Katmandan farklı çizgi tipi entity'ye, yoksa katmanın çizgi tipi kullanılır
+  private linetype(entity: Entity, layer: Layer): string {
+    const name = (entity.lineType && entity.lineType.toUpperCase() !== 'BYLAYER' ? entity.lineType : layer.linetype || '').toUpperCase();
+    const pattern = DXF_LINETYPES[name]?.pattern;
+    if (!pattern || pattern.length === 0) return 'LT;';
+
+    // UL kalem indirme ile başlar ve yüzde olarak ardışık iner/kalkar uzunlukları alır
+    const lengths = pattern.map(value => (value === 0 ? DOT_LENGTH : Math.abs(value)));
+    const start = pattern.findIndex(value => value >= 0);
+    const ordered = start > 0 ? [...lengths.slice(start), ...lengths.slice(0, start)] : lengths;
+    if (ordered.length % 2 === 1) ordered.push(0);
+    const total = ordered.reduce((sum, value) => sum + value, 0);
+    const definition = ordered.map(value => this.num(value / total * 100, 2)).join(',');
+
+    let index = this.linetypes.indexOf(definition);
+    if (index < 0) {
+      // HPGL 8 kullanıcı çizgi tipi tutar; fazlası düz çizilir
+      if (this.linetypes.length >= HPGL_PEN_COUNT) return 'LT;';
+      this.linetypes.push(definition);
+      index = this.linetypes.length - 1;
+    }
+    return `LT${index + 1},${this.num(total, 3)},1;`;
+  }
+
+  private resolveColor(entity: Entity): string {
+    if (entity.color && entity.color.toUpperCase() !== 'BYLAYER' && entity.color.toUpperCase() !== 'BYBLOCK') return entity.color;
+    return this.getLayer(entity.layer).color;
+  }
+
+  private getLayer(id: string): Layer {
+    return this.layers.find(layer => layer.id === id) ?? { ...DEFAULT_LAYER, id, name: id };
+  }
+
+  private polar(center: Point, radius: number, angle: number): Point {
+    return [center[0] + radius * Math.cos(angle), center[1] + radius * Math.sin(angle), 0];
+  }
+
+  // Çizim koordinatından kağıt plu'suna (sol alt köşe başlangıç, y yukarı)
+  private xy(point: Point): string {
+    const { area, factor, origin } = this.layout;
+    return `${this.plu(origin[0] + (point[0] - area.min[0]) * factor)},${this.plu(origin[1] + (point[1] - area.min[1]) * factor)}`;
+  }
+
+  // Kağıt mm'sinden tam sayı plu'ya (klasik HPGL ondalık kabul etmez)
+  private plu(mm: number): string {
+    const value = Math.round(mm * HPGL_UNITS_PER_MM);
+    return String(value === 0 ? 0 : value);
+  }
+
+  private deg(radians: number): string {
+    return this.num(radians * 180 / Math.PI, 3);
+  }
+
+  private num(value: number, precision: number = 3): string {
+    const result = Number(value.toFixed(precision));
+    return String(result === 0 ? 0 : result);
+  }
+}
+
+/**
+ * Export entities to an HPGL/2 plot file and trigger download
+ */
+export const exportHPGL = (
+  entities: Entity[],
+  filename: string = 'drawing.plt',
+  settings: Partial<PlotSettings> = {},
+  data: PlotDrawingData
+): void => {
+  const hpgl = new HPGLExporter(settings).export(entities, data);
+  const blob = new Blob([hpgl], { type: 'application/vnd.hp-hpgl' });
+  saveAs(blob, filename.replace(/\.(dxf|dwg|cadjson|svg|pdf|plt|hpgl)$/i, '') + '.plt');
+};
+
+/**
+ * Export entities to an HPGL/2 string
+ */
+export const exportHPGLToString = (
+  entities: Entity[],
+  settings: Partial<PlotSettings> = {},
+  data: PlotDrawingData
+): string => {
+  return new HPGLExporter(settings).export(entities, data);
+};
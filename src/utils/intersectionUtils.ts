@@ -1,4 +1,7 @@
 import type { Point, Entity } from '../types/entities';
+import { closestPointOnPolyline, explodePolyline, getPolylineSegments, getSegmentParameter, extractPolylinePart, bulgeToArc } from './polylineUtils';
+import { isBlockReference, flattenBlockReference } from './blockUtils';
+import { createSplineEvaluator, type SplineEvaluator } from './splineUtils';
 
 /**
  * Intersection point result
@@ -269,37 +272,9 @@ export function closestPointOnEntityCoord(x: number, y: number, entity: Entity):
         entity.center[2] || 0,
       ];
     }
-    case 'LWPOLYLINE': {
-      let closestPoint: Point | null = null;
-      let minDist = Infinity;
-
-      for (let i = 0; i < entity.vertices.length - 1; i++) {
-        const pt = projectPointOnLine(point, entity.vertices[i], entity.vertices[i + 1]);
-        const d = Math.sqrt(
-          Math.pow(pt[0] - x, 2) + Math.pow(pt[1] - y, 2)
-        );
-        if (d < minDist) {
-          minDist = d;
-          closestPoint = pt;
-        }
-      }
-
-      if (entity.closed && entity.vertices.length > 2) {
-        const pt = projectPointOnLine(
-          point,
-          entity.vertices[entity.vertices.length - 1],
-          entity.vertices[0]
-        );
-        const dist = Math.sqrt(
-          Math.pow(pt[0] - x, 2) + Math.pow(pt[1] - y, 2)
-        );
-        if (dist < minDist) {
-          closestPoint = pt;
-        }
-      }
-
-      return closestPoint || point;
-    }
+    case 'LWPOLYLINE':
+      // Yay segmentleri (bulge) dahil
+      return closestPointOnPolyline(entity, x, y)?.point || point;
     default:
       return point;
   }
@@ -326,93 +301,502 @@ export function projectPointOnLine(point: Point, lineStart: Point, lineEnd: Poin
   ];
 }
 
+// Ortak tolerans modeli: snap, TRIM/EXTEND ve sınır izleme aynı değerleri kullanır
+export const INTERSECTION_TOLERANCE = 1e-6; // Çizim birimi; bu mesafedeki noktalar aynı kesişimdir
+
+const TWO_PI = Math.PI * 2;
+const CURVE_SAMPLES_PER_TURN = 64; // Yay/elips örnekleme yoğunluğu (sayısal çözüm için)
+const SPLINE_SAMPLES_PER_SPAN = 16;
+const MAX_CURVE_SAMPLES = 1024;
+const NEWTON_ITERATIONS = 24;
+
 /**
- * Find all intersections between two entities
+ * Primitive curves every entity is decomposed into. Lines cover LINE, RAY and XLINE
+ * (origin + t * direction, t in [min, max]); arcs and elliptical arcs run counter-clockwise
+ * from start over sweep radians; splines are evaluated parametrically.
  */
-export function findEntityIntersections(entity1: Entity, entity2: Entity): IntersectionResult[] {
-  // Line-Line
-  if (entity1.type === 'LINE' && entity2.type === 'LINE') {
-    const result = lineLineIntersection(entity1.start, entity1.end, entity2.start, entity2.end);
-    if (result && isPointOnSegment(result.point, entity1.start, entity1.end) &&
-      isPointOnSegment(result.point, entity2.start, entity2.end)) {
-      return [result];
+type CurvePrimitive =
+  | { kind: 'line'; origin: Point; direction: Point; min: number; max: number }
+  | { kind: 'arc'; center: Point; radius: number; start: number; sweep: number }
+  | { kind: 'ellipse'; center: Point; rx: number; ry: number; rotation: number; start: number; sweep: number }
+  | { kind: 'spline'; spline: SplineEvaluator };
+
+const linePrimitive = (start: Point, end: Point): CurvePrimitive | null => {
+  const direction: Point = [end[0] - start[0], end[1] - start[1], 0];
+  if (Math.hypot(direction[0], direction[1]) < INTERSECTION_TOLERANCE) return null;
+  return { kind: 'line', origin: start, direction, min: 0, max: 1 };
+};
+
+const fullCircle = (center: Point, radius: number): CurvePrimitive => ({ kind: 'arc', center, radius, start: 0, sweep: TWO_PI });
+
+/**
+ * Decompose an entity into intersection primitives. TEXT contributes its (estimated)
+ * text box and block references their flattened members.
+ */
+const getCurvePrimitives = (entity: Entity): CurvePrimitive[] => {
+  const primitives: (CurvePrimitive | null)[] = [];
+  switch (entity.type) {
+    case 'LINE':
+      primitives.push(linePrimitive(entity.start, entity.end));
+      break;
+    case 'RAY':
+    case 'XLINE':
+      if (Math.hypot(entity.direction[0], entity.direction[1]) > 0) {
+        primitives.push({
+          kind: 'line',
+          origin: entity.origin,
+          direction: entity.direction,
+          min: entity.type === 'RAY' ? 0 : -Infinity,
+          max: Infinity
+        });
+      }
+      break;
+    case 'CIRCLE':
+      primitives.push(fullCircle(entity.center, entity.radius));
+      break;
+    case 'ARC': {
+      let sweep = (entity.endAngle - entity.startAngle) % TWO_PI;
+      if (sweep <= 0) sweep += TWO_PI;
+      primitives.push({ kind: 'arc', center: entity.center, radius: entity.radius, start: entity.startAngle, sweep });
+      break;
     }
+    case 'ELLIPSE':
+      primitives.push({
+        kind: 'ellipse', center: entity.center, rx: entity.rx, ry: entity.ry, rotation: entity.rotation || 0, start: 0, sweep: TWO_PI
+      });
+      break;
+    case 'DONUT':
+      primitives.push(fullCircle(entity.center, entity.outerRadius));
+      if (entity.innerRadius > INTERSECTION_TOLERANCE) primitives.push(fullCircle(entity.center, entity.innerRadius));
+      break;
+    case 'LWPOLYLINE':
+      getPolylineSegments(entity).forEach(segment => {
+        const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+        if (!arc) {
+          primitives.push(linePrimitive(segment.start, segment.end));
+        } else {
+          // Saat yönündeki yaylar ters çevrilerek saat yönü tersine tanımlanır
+          primitives.push({
+            kind: 'arc',
+            center: arc.center,
+            radius: arc.radius,
+            start: arc.sweep >= 0 ? arc.startAngle : arc.startAngle + arc.sweep,
+            sweep: Math.abs(arc.sweep)
+          });
+        }
+      });
+      break;
+    case 'SPLINE': {
+      const spline = createSplineEvaluator(entity);
+      if (spline) {
+        primitives.push({ kind: 'spline', spline });
+        const first = spline.at(spline.start);
+        const last = spline.at(spline.end);
+        if (entity.closed) primitives.push(linePrimitive(last, first));
+      }
+      break;
+    }
+    case 'TEXT': {
+      // Seçimdeki metin kutusu tahminiyle aynı: genişlik = karakter * yükseklik * 0.6
+      const width = entity.text.length * entity.height * 0.6;
+      const rotation = entity.rotation || 0;
+      const cos = Math.cos(rotation);
+      const sin = Math.sin(rotation);
+      const corner = (x: number, y: number): Point => [
+        entity.position[0] + x * cos - y * sin,
+        entity.position[1] + x * sin + y * cos,
+        0
+      ];
+      const box = [corner(0, 0), corner(width, 0), corner(width, entity.height), corner(0, entity.height)];
+      box.forEach((point, i) => primitives.push(linePrimitive(point, box[(i + 1) % 4])));
+      break;
+    }
+    default:
+      if (isBlockReference(entity)) {
+        flattenBlockReference(entity).forEach(member => primitives.push(...getCurvePrimitives(member)));
+      }
+  }
+  return primitives.filter((primitive): primitive is CurvePrimitive => primitive !== null);
+};
+
+// Açının [start, start + sweep] aralığında olup olmadığı (uçlarda açısal tolerans)
+const isAngleInSweep = (angle: number, start: number, sweep: number, tolerance: number): boolean => {
+  if (sweep >= TWO_PI - tolerance) return true;
+  const delta = (((angle - start) % TWO_PI) + TWO_PI) % TWO_PI;
+  return delta <= sweep + tolerance || delta >= TWO_PI - tolerance;
+};
+
+const isParameterInRange = (t: number, primitive: { min: number; max: number }, tolerance: number): boolean =>
+  t >= primitive.min - tolerance && t <= primitive.max + tolerance;
+
+const intersectLines = (
+  a: Extract<CurvePrimitive, { kind: 'line' }>,
+  b: Extract<CurvePrimitive, { kind: 'line' }>
+): Point[] => {
+  const lengthA = Math.hypot(a.direction[0], a.direction[1]);
+  const lengthB = Math.hypot(b.direction[0], b.direction[1]);
+  const denom = a.direction[0] * b.direction[1] - a.direction[1] * b.direction[0];
+  // Paralel (ve çakışık) doğrular kesişim vermez
+  if (Math.abs(denom) <= 1e-12 * lengthA * lengthB) return [];
+
+  const wx = b.origin[0] - a.origin[0];
+  const wy = b.origin[1] - a.origin[1];
+  const s = (wx * b.direction[1] - wy * b.direction[0]) / denom;
+  const t = (wx * a.direction[1] - wy * a.direction[0]) / denom;
+  if (!isParameterInRange(s, a, INTERSECTION_TOLERANCE / lengthA) || !isParameterInRange(t, b, INTERSECTION_TOLERANCE / lengthB)) {
     return [];
   }
+  return [[a.origin[0] + s * a.direction[0], a.origin[1] + s * a.direction[1], 0]];
+};
 
-  // Line-Circle
-  if (entity1.type === 'LINE' && entity2.type === 'CIRCLE') {
-    return lineCircleIntersection(entity1.start, entity1.end, entity2.center, entity2.radius);
-  }
-  if (entity1.type === 'CIRCLE' && entity2.type === 'LINE') {
-    return lineCircleIntersection(entity2.start, entity2.end, entity1.center, entity1.radius);
+/**
+ * Line / unit-circle style solve: parameters where origin + t * direction is `radius`
+ * away from center. A tangent within tolerance yields a single root.
+ */
+const lineCircleParameters = (origin: Point, direction: Point, center: Point, radius: number, tolerance: number): number[] => {
+  const lengthSq = direction[0] * direction[0] + direction[1] * direction[1];
+  const t0 = ((center[0] - origin[0]) * direction[0] + (center[1] - origin[1]) * direction[1]) / lengthSq;
+  const distance = Math.hypot(origin[0] + t0 * direction[0] - center[0], origin[1] + t0 * direction[1] - center[1]);
+  if (distance > radius + tolerance) return [];
+  const half = Math.sqrt(Math.max(0, radius * radius - distance * distance));
+  if (half < tolerance) return [t0];
+  const dt = half / Math.sqrt(lengthSq);
+  return [t0 - dt, t0 + dt];
+};
+
+const intersectLineArc = (
+  line: Extract<CurvePrimitive, { kind: 'line' }>,
+  arc: Extract<CurvePrimitive, { kind: 'arc' }>
+): Point[] => {
+  const lineTolerance = INTERSECTION_TOLERANCE / Math.hypot(line.direction[0], line.direction[1]);
+  return lineCircleParameters(line.origin, line.direction, arc.center, arc.radius, INTERSECTION_TOLERANCE)
+    .filter(t => isParameterInRange(t, line, lineTolerance))
+    .map(t => [line.origin[0] + t * line.direction[0], line.origin[1] + t * line.direction[1], 0] as Point)
+    .filter(point => isAngleInSweep(
+      Math.atan2(point[1] - arc.center[1], point[0] - arc.center[0]), arc.start, arc.sweep, INTERSECTION_TOLERANCE / arc.radius
+    ));
+};
+
+const intersectArcs = (
+  a: Extract<CurvePrimitive, { kind: 'arc' }>,
+  b: Extract<CurvePrimitive, { kind: 'arc' }>
+): Point[] => {
+  const dx = b.center[0] - a.center[0];
+  const dy = b.center[1] - a.center[1];
+  const d = Math.hypot(dx, dy);
+  // Eş merkezli veya birbirinden uzak / iç içe çemberler
+  if (d < INTERSECTION_TOLERANCE || d > a.radius + b.radius + INTERSECTION_TOLERANCE || d < Math.abs(a.radius - b.radius) - INTERSECTION_TOLERANCE) {
+    return [];
   }
+  const along = (a.radius * a.radius - b.radius * b.radius + d * d) / (2 * d);
+  const h = Math.sqrt(Math.max(0, a.radius * a.radius - along * along));
+  const mx = a.center[0] + along * dx / d;
+  const my = a.center[1] + along * dy / d;
+  const points: Point[] = h < INTERSECTION_TOLERANCE
+    ? [[mx, my, 0]]
+    : [[mx + h * dy / d, my - h * dx / d, 0], [mx - h * dy / d, my + h * dx / d, 0]];
+  return points.filter(point =>
+    isAngleInSweep(Math.atan2(point[1] - a.center[1], point[0] - a.center[0]), a.start, a.sweep, INTERSECTION_TOLERANCE / a.radius) &&
+    isAngleInSweep(Math.atan2(point[1] - b.center[1], point[0] - b.center[0]), b.start, b.sweep, INTERSECTION_TOLERANCE / b.radius)
+  );
+};
+
+const ellipsePoint = (ellipse: Extract<CurvePrimitive, { kind: 'ellipse' }>, t: number): Point => {
+  const x = ellipse.rx * Math.cos(t);
+  const y = ellipse.ry * Math.sin(t);
+  const cos = Math.cos(ellipse.rotation);
+  const sin = Math.sin(ellipse.rotation);
+  return [ellipse.center[0] + x * cos - y * sin, ellipse.center[1] + x * sin + y * cos, 0];
+};
+
+// Doğru elipsin birim çember uzayına taşınır; doğru parametresi afin dönüşümde korunur
+const intersectLineEllipse = (
+  line: Extract<CurvePrimitive, { kind: 'line' }>,
+  ellipse: Extract<CurvePrimitive, { kind: 'ellipse' }>
+): Point[] => {
+  if (ellipse.rx < INTERSECTION_TOLERANCE || ellipse.ry < INTERSECTION_TOLERANCE) return [];
+  const cos = Math.cos(-ellipse.rotation);
+  const sin = Math.sin(-ellipse.rotation);
+  const toUnit = (x: number, y: number): Point => [(x * cos - y * sin) / ellipse.rx, (x * sin + y * cos) / ellipse.ry, 0];
+  const origin = toUnit(line.origin[0] - ellipse.center[0], line.origin[1] - ellipse.center[1]);
+  const direction = toUnit(line.direction[0], line.direction[1]);
+  const unitTolerance = INTERSECTION_TOLERANCE / Math.min(ellipse.rx, ellipse.ry);
+  const lineTolerance = INTERSECTION_TOLERANCE / Math.hypot(line.direction[0], line.direction[1]);
+
+  return lineCircleParameters(origin, direction, [0, 0, 0], 1, unitTolerance)
+    .filter(t => isParameterInRange(t, line, lineTolerance))
+    .map(t => Math.atan2(origin[1] + t * direction[1], origin[0] + t * direction[0]))
+    .filter(angle => isAngleInSweep(angle, ellipse.start, ellipse.sweep, unitTolerance))
+    .map(angle => ellipsePoint(ellipse, angle));
+};
+
+interface ParametricCurve {
+  min: number;
+  max: number;
+  at: (t: number) => Point;
+  samples: number;
+}
 
-  // Line-Arc
-  if (entity1.type === 'LINE' && entity2.type === 'ARC') {
-    return arcLineIntersection(entity2.center, entity2.radius, entity2.startAngle, entity2.endAngle, entity1.start, entity1.end);
+const toParametricCurve = (primitive: CurvePrimitive): ParametricCurve => {
+  switch (primitive.kind) {
+    case 'line':
+      return {
+        min: primitive.min,
+        max: primitive.max,
+        at: t => [primitive.origin[0] + t * primitive.direction[0], primitive.origin[1] + t * primitive.direction[1], 0],
+        samples: 1
+      };
+    case 'arc':
+      return {
+        min: primitive.start,
+        max: primitive.start + primitive.sweep,
+        at: t => [primitive.center[0] + primitive.radius * Math.cos(t), primitive.center[1] + primitive.radius * Math.sin(t), 0],
+        samples: Math.max(4, Math.ceil(primitive.sweep / TWO_PI * CURVE_SAMPLES_PER_TURN))
+      };
+    case 'ellipse':
+      return {
+        min: primitive.start,
+        max: primitive.start + primitive.sweep,
+        at: t => ellipsePoint(primitive, t),
+        samples: Math.max(4, Math.ceil(primitive.sweep / TWO_PI * CURVE_SAMPLES_PER_TURN))
+      };
+    case 'spline': {
+      const { spline } = primitive;
+      return {
+        min: spline.start,
+        max: spline.end,
+        at: t => spline.at(t),
+        samples: Math.min(MAX_CURVE_SAMPLES, Math.max(CURVE_SAMPLES_PER_TURN, Math.ceil((spline.end - spline.start) * SPLINE_SAMPLES_PER_SPAN)))
+      };
+    }
   }
-  if (entity1.type === 'ARC' && entity2.type === 'LINE') {
-    return arcLineIntersection(entity1.center, entity1.radius, entity1.startAngle, entity1.endAngle, entity2.start, entity2.end);
+};
+
+interface CurveSample {
+  t: number;
+  point: Point;
+}
+
+const sampleCurve = (curve: ParametricCurve): CurveSample[] => {
+  const samples: CurveSample[] = [];
+  for (let i = 0; i <= curve.samples; i++) {
+    const t = curve.min + (curve.max - curve.min) * i / curve.samples;
+    samples.push({ t, point: curve.at(t) });
   }
+  return samples;
+};
+
+interface SampleBox {
+  from: number;
+  to: number;
+  min: [number, number];
+  max: [number, number];
+}
 
-  // Circle-Circle
-  if (entity1.type === 'CIRCLE' && entity2.type === 'CIRCLE') {
-    return circleCircleIntersection(entity1.center, entity1.radius, entity2.center, entity2.radius);
+const SAMPLE_CHUNK = 8;
+
+// Örnekleri SAMPLE_CHUNK segmentlik kutulara böl (kaba eleme için)
+const chunkSamples = (samples: CurveSample[]): SampleBox[] => {
+  const boxes: SampleBox[] = [];
+  for (let from = 0; from < samples.length - 1; from += SAMPLE_CHUNK) {
+    const to = Math.min(samples.length - 1, from + SAMPLE_CHUNK);
+    const box: SampleBox = { from, to, min: [Infinity, Infinity], max: [-Infinity, -Infinity] };
+    for (let i = from; i <= to; i++) {
+      const [x, y] = samples[i].point;
+      box.min = [Math.min(box.min[0], x), Math.min(box.min[1], y)];
+      box.max = [Math.max(box.max[0], x), Math.max(box.max[1], y)];
+    }
+    boxes.push(box);
   }
+  return boxes;
+};
 
-  // Arc-Arc
-  if (entity1.type === 'ARC' && entity2.type === 'ARC') {
-    return arcArcIntersection(
-      entity1.center, entity1.radius, entity1.startAngle, entity1.endAngle,
-      entity2.center, entity2.radius, entity2.startAngle, entity2.endAngle
-    );
+const boxesOverlap = (a: SampleBox, b: SampleBox, margin: number): boolean =>
+  a.min[0] <= b.max[0] + margin && b.min[0] <= a.max[0] + margin &&
+  a.min[1] <= b.max[1] + margin && b.min[1] <= a.max[1] + margin;
+
+/**
+ * Newton iteration on A(s) - B(t) = 0 starting from a sampled hit; returns the
+ * refined parameters or null when it does not converge inside both ranges.
+ */
+const refineIntersection = (a: ParametricCurve, b: ParametricCurve, s: number, t: number): [number, number] | null => {
+  const hs = (a.max - a.min) * 1e-7;
+  const ht = (b.max - b.min) * 1e-7;
+  for (let i = 0; i < NEWTON_ITERATIONS; i++) {
+    const pa = a.at(s);
+    const pb = b.at(t);
+    const fx = pa[0] - pb[0];
+    const fy = pa[1] - pb[1];
+    if (Math.hypot(fx, fy) < INTERSECTION_TOLERANCE * 1e-3) break;
+
+    const a1 = a.at(Math.min(a.max, s + hs));
+    const a0 = a.at(Math.max(a.min, s - hs));
+    const b1 = b.at(Math.min(b.max, t + ht));
+    const b0 = b.at(Math.max(b.min, t - ht));
+    const dsx = (a1[0] - a0[0]) / (2 * hs);
+    const dsy = (a1[1] - a0[1]) / (2 * hs);
+    const dtx = -(b1[0] - b0[0]) / (2 * ht);
+    const dty = -(b1[1] - b0[1]) / (2 * ht);
+    const det = dsx * dty - dsy * dtx;
+    if (Math.abs(det) < 1e-14) return null; // Teğet: örnekleme sonucu kullanılır
+
+    s -= (fx * dty - fy * dtx) / det;
+    t -= (dsx * fy - dsy * fx) / det;
+    if (s < a.min || s > a.max || t < b.min || t > b.max) return null;
   }
+  const pa = a.at(s);
+  const pb = b.at(t);
+  return Math.hypot(pa[0] - pb[0], pa[1] - pb[1]) <= INTERSECTION_TOLERANCE ? [s, t] : null;
+};
 
-  // Circle-Arc
-  if (entity1.type === 'CIRCLE' && entity2.type === 'ARC') {
-    return arcArcIntersection(
-      entity1.center, entity1.radius, 0, Math.PI * 2,
-      entity2.center, entity2.radius, entity2.startAngle, entity2.endAngle
-    );
+/**
+ * Numeric intersection for curve pairs without a closed form (ellipse/arc, ellipse/ellipse,
+ * splines): both curves are sampled, sample chunks are culled by bounding box, segment
+ * crossings are found and then refined with Newton iterations on the exact curves.
+ */
+const intersectCurvesNumerically = (a: ParametricCurve, b: ParametricCurve): Point[] => {
+  const samplesA = sampleCurve(a);
+  const samplesB = sampleCurve(b);
+  const boxesB = chunkSamples(samplesB);
+  const points: Point[] = [];
+
+  chunkSamples(samplesA).forEach(boxA => {
+    boxesB.forEach(boxB => {
+      if (!boxesOverlap(boxA, boxB, INTERSECTION_TOLERANCE)) return;
+      for (let i = boxA.from; i < boxA.to; i++) {
+        for (let j = boxB.from; j < boxB.to; j++) {
+          const p1 = samplesA[i].point, p2 = samplesA[i + 1].point;
+          const p3 = samplesB[j].point, p4 = samplesB[j + 1].point;
+          const hit = intersectLines(
+            { kind: 'line', origin: p1, direction: [p2[0] - p1[0], p2[1] - p1[1], 0], min: 0, max: 1 },
+            { kind: 'line', origin: p3, direction: [p4[0] - p3[0], p4[1] - p3[1], 0], min: 0, max: 1 }
+          )[0];
+          if (!hit) continue;
+          const lengthA = Math.hypot(p2[0] - p1[0], p2[1] - p1[1]);
+          const lengthB = Math.hypot(p4[0] - p3[0], p4[1] - p3[1]);
+          const u = lengthA > 0 ? Math.hypot(hit[0] - p1[0], hit[1] - p1[1]) / lengthA : 0;
+          const v = lengthB > 0 ? Math.hypot(hit[0] - p3[0], hit[1] - p3[1]) / lengthB : 0;
+          const refined = refineIntersection(
+            a, b,
+            samplesA[i].t + (samplesA[i + 1].t - samplesA[i].t) * u,
+            samplesB[j].t + (samplesB[j + 1].t - samplesB[j].t) * v
+          );
+          points.push(refined ? a.at(refined[0]) : hit);
+        }
+      }
+    });
+  });
+  return points;
+};
+
+// Sonsuz doğruları diğer eğrinin sınır kutusuna kırp (sayısal çözüm sonlu aralık ister)
+const clipLineToCurve = (line: Extract<CurvePrimitive, { kind: 'line' }>, other: ParametricCurve): ParametricCurve => {
+  const curve = toParametricCurve(line);
+  if (Number.isFinite(line.min) && Number.isFinite(line.max)) return curve;
+
+  const lengthSq = line.direction[0] * line.direction[0] + line.direction[1] * line.direction[1];
+  let min = Infinity;
+  let max = -Infinity;
+  sampleCurve(other).forEach(({ point }) => {
+    const t = ((point[0] - line.origin[0]) * line.direction[0] + (point[1] - line.origin[1]) * line.direction[1]) / lengthSq;
+    min = Math.min(min, t);
+    max = Math.max(max, t);
+  });
+  const margin = (max - min) * 0.01 + 1;
+  return { ...curve, min: Math.max(line.min, min - margin), max: Math.min(line.max, max + margin) };
+};
+
+const intersectPrimitives = (a: CurvePrimitive, b: CurvePrimitive): Point[] => {
+  if (a.kind === 'line' && b.kind === 'line') return intersectLines(a, b);
+  if (a.kind === 'line' && b.kind === 'arc') return intersectLineArc(a, b);
+  if (a.kind === 'arc' && b.kind === 'line') return intersectLineArc(b, a);
+  if (a.kind === 'arc' && b.kind === 'arc') return intersectArcs(a, b);
+  if (a.kind === 'line' && b.kind === 'ellipse') return intersectLineEllipse(a, b);
+  if (a.kind === 'ellipse' && b.kind === 'line') return intersectLineEllipse(b, a);
+
+  const curveA = a.kind === 'line' ? null : toParametricCurve(a);
+  const curveB = b.kind === 'line' ? null : toParametricCurve(b);
+  if (a.kind === 'line' && curveB) {
+    const clipped = clipLineToCurve(a, curveB);
+    return clipped.min <= clipped.max ? intersectCurvesNumerically(clipped, curveB) : [];
   }
-  if (entity1.type === 'ARC' && entity2.type === 'CIRCLE') {
-    return arcArcIntersection(
-      entity1.center, entity1.radius, entity1.startAngle, entity1.endAngle,
-      entity2.center, entity2.radius, 0, Math.PI * 2
-    );
+  if (b.kind === 'line' && curveA) {
+    const clipped = clipLineToCurve(b, curveA);
+    return clipped.min <= clipped.max ? intersectCurvesNumerically(curveA, clipped) : [];
   }
+  return curveA && curveB ? intersectCurvesNumerically(curveA, curveB) : [];
+};
+
+// Tolerans içindeki kopya noktaları ayıkla
+const uniquePoints = (points: Point[]): Point[] => {
+  const unique: Point[] = [];
+  points.forEach(point => {
+    if (!unique.some(other => Math.hypot(other[0] - point[0], other[1] - point[1]) <= INTERSECTION_TOLERANCE * 10)) {
+      unique.push(point);
+    }
+  });
+  return unique;
+};
 
-  // Handle LWPOLYLINE by breaking it into segments
-  if (entity1.type === 'LWPOLYLINE') {
-    const results: IntersectionResult[] = [];
-    const vertices = entity1.vertices;
-    for (let i = 0; i < vertices.length - 1; i++) {
-      const segment = { ...entity1, type: 'LINE', start: vertices[i], end: vertices[i + 1] } as any;
-      results.push(...findEntityIntersections(segment, entity2));
+/**
+ * Find all intersections between two entities. Lines, rays, xlines, circles, arcs,
+ * polyline segments (straight and bulge arcs) and line/ellipse pairs are solved
+ * analytically; remaining ellipse and spline combinations use sampling with Newton
+ * refinement. Overlapping (collinear or coincident) geometry yields no points.
+ */
+export function findEntityIntersections(entity1: Entity, entity2: Entity): IntersectionResult[] {
+  const primitives1 = getCurvePrimitives(entity1);
+  const primitives2 = getCurvePrimitives(entity2);
+  const points: Point[] = [];
+  primitives1.forEach(a => primitives2.forEach(b => points.push(...intersectPrimitives(a, b))));
+  return uniquePoints(points).map(point => ({ point }));
+}
+
+// Bir ilkelin imlece yakın olup olmadığı (snap için kaba eleme)
+const isPrimitiveNear = (primitive: CurvePrimitive, point: Point, radius: number): boolean => {
+  switch (primitive.kind) {
+    case 'line': {
+      const lengthSq = primitive.direction[0] * primitive.direction[0] + primitive.direction[1] * primitive.direction[1];
+      const t = Math.max(primitive.min, Math.min(primitive.max,
+        ((point[0] - primitive.origin[0]) * primitive.direction[0] + (point[1] - primitive.origin[1]) * primitive.direction[1]) / lengthSq));
+      return Math.hypot(primitive.origin[0] + t * primitive.direction[0] - point[0], primitive.origin[1] + t * primitive.direction[1] - point[1]) <= radius;
     }
-    if (entity1.closed && vertices.length > 2) {
-      const segment = { ...entity1, type: 'LINE', start: vertices[vertices.length - 1], end: vertices[0] } as any;
-      results.push(...findEntityIntersections(segment, entity2));
+    case 'arc':
+      return Math.abs(Math.hypot(point[0] - primitive.center[0], point[1] - primitive.center[1]) - primitive.radius) <= radius;
+    case 'ellipse': {
+      const distance = Math.hypot(point[0] - primitive.center[0], point[1] - primitive.center[1]);
+      return distance >= Math.min(primitive.rx, primitive.ry) - radius && distance <= Math.max(primitive.rx, primitive.ry) + radius;
     }
-    return results;
+    case 'spline':
+      return chunkSamples(sampleCurve(toParametricCurve(primitive))).some(box =>
+        point[0] >= box.min[0] - radius && point[0] <= box.max[0] + radius &&
+        point[1] >= box.min[1] - radius && point[1] <= box.max[1] + radius
+      );
   }
+};
 
-  if (entity2.type === 'LWPOLYLINE') {
-    const results: IntersectionResult[] = [];
-    const vertices = entity2.vertices;
-    for (let i = 0; i < vertices.length - 1; i++) {
-      const segment = { ...entity2, type: 'LINE', start: vertices[i], end: vertices[i + 1] } as any;
-      results.push(...findEntityIntersections(entity1, segment));
-    }
-    if (entity2.closed && vertices.length > 2) {
-      const segment = { ...entity2, type: 'LINE', start: vertices[vertices.length - 1], end: vertices[0] } as any;
-      results.push(...findEntityIntersections(entity1, segment));
+/**
+ * Intersection points between different entities within `radius` of a point
+ * (INTERSECTION object snap). Only primitives passing near the point are tested.
+ */
+export function findIntersectionsNear(point: Point, entities: Entity[], radius: number): Point[] {
+  const near: { owner: number; primitive: CurvePrimitive }[] = [];
+  entities.forEach((entity, owner) => {
+    getCurvePrimitives(entity).forEach(primitive => {
+      if (isPrimitiveNear(primitive, point, radius)) near.push({ owner, primitive });
+    });
+  });
+
+  const points: Point[] = [];
+  for (let i = 0; i < near.length; i++) {
+    for (let j = i + 1; j < near.length; j++) {
+      if (near[i].owner === near[j].owner) continue;
+      intersectPrimitives(near[i].primitive, near[j].primitive).forEach(hit => {
+        if (Math.hypot(hit[0] - point[0], hit[1] - point[1]) <= radius) points.push(hit);
+      });
     }
-    return results;
   }
-
-  return [];
+  return uniquePoints(points);
 }
 
 /**
@@ -702,14 +1086,14 @@ export function extendLineEntity(
       if (extendStart) {
         const dotProduct = (result.point[0] - lineEntity.start[0]) * (-dirX) +
           (result.point[1] - lineEntity.start[1]) * (-dirY);
-        if (dotProduct > 0 && distFromOriginal < minDist) {
+        if (dotProduct > INTERSECTION_TOLERANCE && distFromOriginal < minDist) {
           minDist = distFromOriginal;
           closestIntersection = result.point;
         }
       } else {
         const dotProduct = (result.point[0] - lineEntity.end[0]) * dirX +
           (result.point[1] - lineEntity.end[1]) * dirY;
-        if (dotProduct > 0 && distFromOriginal < minDist) {
+        if (dotProduct > INTERSECTION_TOLERANCE && distFromOriginal < minDist) {
           minDist = distFromOriginal;
           closestIntersection = result.point;
         }
@@ -818,7 +1202,8 @@ export function extendArcEntity(
 }
 
 /**
- * Trim a LWPOLYLINE entity - can trim individual segments
+ * Trim a LWPOLYLINE entity - removes the part of the clicked segment (line or arc)
+ * between the nearest cutting edges, or up to the segment ends when there are none
  */
 export function trimPolylineEntity(
   polylineEntity: Entity,
@@ -826,212 +1211,43 @@ export function trimPolylineEntity(
   cuttingEdges: Entity[]
 ): Entity[] {
   if (polylineEntity.type !== 'LWPOLYLINE') return [polylineEntity];
-
-  const vertices = polylineEntity.vertices as Point[];
-  if (vertices.length < 2) return [polylineEntity];
+  if (polylineEntity.vertices.length < 2) return [polylineEntity];
 
   // Find which segment was clicked
-  let clickedSegmentIndex = -1;
-  let minClickDist = Infinity;
-
-  for (let i = 0; i < vertices.length - 1; i++) {
-    const segStart = vertices[i];
-    const segEnd = vertices[i + 1];
-
-    // Distance from click point to segment
-    const dx = segEnd[0] - segStart[0];
-    const dy = segEnd[1] - segStart[1];
-    const len = Math.sqrt(dx * dx + dy * dy);
-    if (len < 0.0001) continue;
-
-    const t = Math.max(0, Math.min(1,
-      ((clickPoint[0] - segStart[0]) * dx + (clickPoint[1] - segStart[1]) * dy) / (len * len)
-    ));
-
-    const projX = segStart[0] + t * dx;
-    const projY = segStart[1] + t * dy;
-    const dist = Math.hypot(clickPoint[0] - projX, clickPoint[1] - projY);
-
-    if (dist < minClickDist) {
-      minClickDist = dist;
-      clickedSegmentIndex = i;
-    }
-  }
-
-  // Handle closed polyline
-  if (polylineEntity.closed && vertices.length >= 3) {
-    const segStart = vertices[vertices.length - 1];
-    const segEnd = vertices[0];
-    const dx = segEnd[0] - segStart[0];
-    const dy = segEnd[1] - segStart[1];
-    const len = Math.sqrt(dx * dx + dy * dy);
-    if (len > 0.0001) {
-      const t = Math.max(0, Math.min(1,
-        ((clickPoint[0] - segStart[0]) * dx + (clickPoint[1] - segStart[1]) * dy) / (len * len)
-      ));
-      const projX = segStart[0] + t * dx;
-      const projY = segStart[1] + t * dy;
-      const dist = Math.hypot(clickPoint[0] - projX, clickPoint[1] - projY);
-      if (dist < minClickDist) {
-        minClickDist = dist;
-        clickedSegmentIndex = vertices.length - 1;
-      }
-    }
-  }
-
-  if (clickedSegmentIndex === -1) return [polylineEntity];
-
-  // Find intersections on the clicked segment
-  const segStart = vertices[clickedSegmentIndex];
-  const segEnd = clickedSegmentIndex === vertices.length - 1
-    ? (polylineEntity.closed ? vertices[0] : vertices[clickedSegmentIndex])
-    : vertices[clickedSegmentIndex + 1];
-
-  const intersections: { point: Point; t: number }[] = [];
-
-  // Create a temporary line entity for the segment
-  const tempLine: Entity = {
-    type: 'LINE',
-    start: segStart,
-    end: segEnd,
-    id: -1,
-    color: '#fff',
-    layer: '0'
-  };
-
+  const clicked = closestPointOnPolyline(polylineEntity, clickPoint[0], clickPoint[1]);
+  if (!clicked) return [polylineEntity];
+  const segments = getPolylineSegments(polylineEntity);
+  const segment = segments[clicked.segmentIndex];
+  const clickT = getSegmentParameter(segment, clickPoint[0], clickPoint[1]);
+
+  // Intersections on the clicked segment as parameters along it
+  const piece = { ...explodePolyline({ ...polylineEntity, vertices: [segment.start, segment.end], closed: false, bulges: [segment.bulge] })[0], id: -1 } as Entity;
+  const params: number[] = [];
   for (const cutter of cuttingEdges) {
-    const results = findEntityIntersections(tempLine, cutter);
-    for (const result of results) {
-      const dx = segEnd[0] - segStart[0];
-      const dy = segEnd[1] - segStart[1];
-      const len = Math.sqrt(dx * dx + dy * dy);
-      if (len < 0.0001) continue;
-
-      const t = ((result.point[0] - segStart[0]) * dx +
-        (result.point[1] - segStart[1]) * dy) / (len * len);
-
-      if (t > 0.001 && t < 0.999) {
-        intersections.push({ point: result.point, t });
-      }
+    for (const result of findEntityIntersections(piece, cutter)) {
+      const t = getSegmentParameter(segment, result.point[0], result.point[1]);
+      if (t > 0.001 && t < 0.999) params.push(t);
     }
   }
 
-  if (intersections.length === 0) {
-    // No intersection on this segment - remove the entire segment
-    // Create polylines from remaining segments
-    if (vertices.length <= 2) return [];
-
-    const newVertices = vertices.filter((_, i) =>
-      i !== clickedSegmentIndex && i !== clickedSegmentIndex + 1
-    );
+  const before = Math.max(0, ...params.filter(t => t < clickT));
+  const after = Math.min(1, ...params.filter(t => t > clickT));
+  const last = segments.length - 1;
 
-    if (newVertices.length < 2) return [];
+  // Kalan parçalar: kesilen aralığın öncesi ve sonrası
+  const parts = polylineEntity.closed
+    ? [extractPolylinePart(polylineEntity, { segment: clicked.segmentIndex, t: after }, { segment: clicked.segmentIndex, t: before })]
+    : [
+      extractPolylinePart(polylineEntity, { segment: 0, t: 0 }, { segment: clicked.segmentIndex, t: before }),
+      extractPolylinePart(polylineEntity, { segment: clicked.segmentIndex, t: after }, { segment: last, t: 1 })
+    ];
 
-    return [{
+  return parts
+    .filter(part => part !== null && part.vertices.length >= 2)
+    .map(part => ({
       ...polylineEntity,
-      vertices: newVertices,
+      ...part,
       closed: false,
       id: Date.now() + Math.random()
-    } as Entity];
-  }
-
-  // Sort intersections by parameter t
-  intersections.sort((a, b) => a.t - b.t);
-
-  // Find which portion to trim based on click position
-  const dx = segEnd[0] - segStart[0];
-  const dy = segEnd[1] - segStart[1];
-  const len = Math.sqrt(dx * dx + dy * dy);
-  const clickT = len > 0.0001
-    ? ((clickPoint[0] - segStart[0]) * dx + (clickPoint[1] - segStart[1]) * dy) / (len * len)
-    : 0;
-
-  // Determine which side of intersection(s) to keep
-  let trimStart = false;
-  let trimEnd = false;
-
-  if (intersections.length === 1) {
-    if (clickT < intersections[0].t) {
-      trimStart = true;
-    } else {
-      trimEnd = true;
-    }
-  } else {
-    // Multiple intersections - find which segment contains click
-    let prevT = 0;
-    for (const inter of intersections) {
-      if (clickT >= prevT && clickT <= inter.t) {
-        // Click is between prevT and inter.t - trim this portion
-        break;
-      }
-      prevT = inter.t;
-    }
-    if (clickT < intersections[0].t) {
-      trimStart = true;
-    } else if (clickT > intersections[intersections.length - 1].t) {
-      trimEnd = true;
-    }
-  }
-
-  // Create new polyline(s)
-  const results: Entity[] = [];
-
-  if (trimStart) {
-    // Keep from first intersection to end
-    const newVertices: Point[] = [
-      intersections[0].point,
-      ...vertices.slice(clickedSegmentIndex + 1)
-    ];
-    if (newVertices.length >= 2) {
-      results.push({
-        ...polylineEntity,
-        vertices: newVertices,
-        closed: false,
-        id: Date.now() + Math.random()
-      } as Entity);
-    }
-  } else if (trimEnd) {
-    // Keep from start to last intersection
-    const newVertices: Point[] = [
-      ...vertices.slice(0, clickedSegmentIndex + 1),
-      intersections[intersections.length - 1].point
-    ];
-    if (newVertices.length >= 2) {
-      results.push({
-        ...polylineEntity,
-        vertices: newVertices,
-        closed: false,
-        id: Date.now() + Math.random()
-      } as Entity);
-    }
-  } else {
-    // Keep both ends, remove middle
-    const newVertices1: Point[] = [
-      ...vertices.slice(0, clickedSegmentIndex + 1),
-      intersections[0].point
-    ];
-    const newVertices2: Point[] = [
-      intersections[intersections.length - 1].point,
-      ...vertices.slice(clickedSegmentIndex + 1)
-    ];
-
-    if (newVertices1.length >= 2) {
-      results.push({
-        ...polylineEntity,
-        vertices: newVertices1,
-        closed: false,
-        id: Date.now() + Math.random()
-      } as Entity);
-    }
-    if (newVertices2.length >= 2) {
-      results.push({
-        ...polylineEntity,
-        vertices: newVertices2,
-        closed: false,
-        id: Date.now() + Math.random()
-      } as Entity);
-    }
-  }
-
-  return results;
+    } as Entity));
 }
@@ -0,0 +1,260 @@
+// AutoCAD PAT (hatch pattern) dosyaları: her desen bir veya daha fazla çizgi ailesidir
+
+/**
+ * One line family of a hatch pattern, as in a PAT file row
+ * `angle, x-origin, y-origin, delta-x, delta-y [, dash-1, dash-2 ...]`.
+ * delta-x shifts successive lines along their direction, delta-y is the perpendicular
+ * spacing. Dashes are positive (pen down), negative (gap) or 0 (dot); none = continuous.
+ */
+export interface PatternLineFamily {
+  angle: number; // Derece
+  origin: [number, number];
+  offset: [number, number];
+  dashes: number[];
+}
+
+export interface PatPattern {
+  name: string;
+  description: string;
+  lines: PatternLineFamily[];
+}
+
+export interface PatParseResult {
+  patterns: PatPattern[];
+  errors: string[];
+}
+
+/**
+ * Parse a .pat file. Comments (`;`) and blank lines are ignored; a header line
+ * `*NAME, description` starts each pattern and the following rows are its line families.
+ */
+export const parsePatFile = (content: string): PatParseResult => {
+  const result: PatParseResult = { patterns: [], errors: [] };
+  let current: PatPattern | null = null;
+
+  content.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.replace(/;.*$/, '').trim();
+    if (!line) return;
+
+    if (line.startsWith('*')) {
+      const separator = line.indexOf(',');
+      const name = (separator >= 0 ? line.slice(1, separator) : line.slice(1)).trim().toUpperCase();
+      current = { name, description: separator >= 0 ? line.slice(separator + 1).trim() : '', lines: [] };
+      if (name) result.patterns.push(current);
+      return;
+    }
+
+    if (!current) {
+      result.errors.push(`Line ${index + 1}: definition outside of a pattern`);
+      return;
+    }
+    const values = line.split(',').map(value => Number(value.trim()));
+    if (values.length < 5 || values.some(value => !Number.isFinite(value))) {
+      result.errors.push(`Line ${index + 1}: invalid line family in ${current.name}`);
+      return;
+    }
+    const [angle, x, y, dx, dy, ...dashes] = values;
+    current.lines.push({ angle, origin: [x, y], offset: [dx, dy], dashes });
+  });
+
+  result.patterns = result.patterns.filter(pattern => {
+    if (pattern.lines.length > 0) return true;
+    result.errors.push(`Pattern ${pattern.name} has no line families`);
+    return false;
+  });
+  return result;
+};
+
+type Vec2 = [number, number];
+
+export interface PatternLineSet {
+  segments: [Vec2, Vec2][];
+  dots: Vec2[];
+  truncated: boolean; // maxElements aşıldı, desen eksik
+}
+
+interface ExpandOptions {
+  rotation?: number; // Derece, ailelerin açısına eklenir
+  scale?: number;
+  maxElements?: number;
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Expand line families inside closed loops (even-odd rule: loops inside the outer
+ * boundary are holes, their islands are hatched again). Each family line n starts at
+ * origin + n·offset and its dash sequence is anchored at that start point, as in AutoCAD.
+ */
+export const expandLineFamilies = (families: PatternLineFamily[], loops: Vec2[][], options: ExpandOptions = {}): PatternLineSet => {
+  const { rotation = 0, scale = 1, maxElements = 20000 } = options;
+  const result: PatternLineSet = { segments: [], dots: [], truncated: false };
+  const edges = loops.filter(loop => loop.length >= 3).flatMap(loop => loop.map((a, i): [Vec2, Vec2] => [a, loop[(i + 1) % loop.length]]));
+  if (edges.length === 0 || !(scale > 0)) return result;
+  const corners = edges.map(edge => edge[0]);
+  let count = 0;
+
+  for (const family of families) {
+    const theta = (family.angle + rotation) * Math.PI / 180;
+    const dir: Vec2 = [Math.cos(theta), Math.sin(theta)];
+    const normal: Vec2 = [-dir[1], dir[0]];
+    const rad = rotation * Math.PI / 180;
+    const origin: Vec2 = [
+      (family.origin[0] * Math.cos(rad) - family.origin[1] * Math.sin(rad)) * scale,
+      (family.origin[0] * Math.sin(rad) + family.origin[1] * Math.cos(rad)) * scale,
+    ];
+    const step: Vec2 = [
+      (family.offset[0] * dir[0] + family.offset[1] * normal[0]) * scale,
+      (family.offset[0] * dir[1] + family.offset[1] * normal[1]) * scale,
+    ];
+    const spacing = step[0] * normal[0] + step[1] * normal[1];
+    if (Math.abs(spacing) < EPSILON) continue;
+
+    const dashes = family.dashes.map(dash => dash * scale);
+    const period = dashes.reduce((sum, dash) => sum + Math.abs(dash), 0);
+    const continuous = dashes.length === 0 || period < EPSILON;
+    if (!continuous && dashes.every(dash => dash < 0)) continue;
+
+    // Sınırı kapsayan çizgi indeks aralığı
+    const offsets = corners.map(c => ((c[0] - origin[0]) * normal[0] + (c[1] - origin[1]) * normal[1]) / spacing);
+    const first = Math.ceil(Math.min(...offsets));
+    const last = Math.floor(Math.max(...offsets));
+    if (last - first >= maxElements) {
+      result.truncated = true;
+      continue;
+    }
+
+    for (let n = first; n <= last; n++) {
+      const base: Vec2 = [origin[0] + step[0] * n, origin[1] + step[1] * n];
+      const crossings: number[] = [];
+      edges.forEach(([a, b]) => {
+        const sa = (a[0] - base[0]) * normal[0] + (a[1] - base[1]) * normal[1];
+        const sb = (b[0] - base[0]) * normal[0] + (b[1] - base[1]) * normal[1];
+        if ((sa > 0) === (sb > 0)) return;
+        const ta = (a[0] - base[0]) * dir[0] + (a[1] - base[1]) * dir[1];
+        const tb = (b[0] - base[0]) * dir[0] + (b[1] - base[1]) * dir[1];
+        crossings.push(ta + (tb - ta) * sa / (sa - sb));
+      });
+      crossings.sort((x, y) => x - y);
+
+      const at = (t: number): Vec2 => [base[0] + dir[0] * t, base[1] + dir[1] * t];
+      for (let i = 0; i + 1 < crossings.length; i += 2) {
+        const [t0, t1] = [crossings[i], crossings[i + 1]];
+        if (t1 - t0 < EPSILON) continue;
+        if (continuous) {
+          result.segments.push([at(t0), at(t1)]);
+          if (++count >= maxElements) break;
+          continue;
+        }
+        // Kesikli çizgi: desen t = 0'dan itibaren periyodik
+        let position = Math.floor(t0 / period) * period;
+        while (position < t1 && count < maxElements) {
+          for (const dash of dashes) {
+            const end = position + Math.abs(dash);
+            if (dash > 0 && end > t0 && position < t1) {
+              result.segments.push([at(Math.max(position, t0)), at(Math.min(end, t1))]);
+              count++;
+            } else if (dash === 0 && position >= t0 && position <= t1) {
+              result.dots.push(at(position));
+              count++;
+            }
+            position = end;
+          }
+        }
+      }
+      if (count >= maxElements) {
+        result.truncated = true;
+        return result;
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Standard ANSI / ISO patterns in drawing units (metric, acadiso.pat values)
+ */
+export const STANDARD_PAT = `
+*ANSI31, ANSI Iron, Brick, Stone masonry
+45, 0,0, 0,3.175
+*ANSI32, ANSI Steel
+45, 0,0, 0,9.525
+45, 4.49013,0, 0,9.525
+*ANSI33, ANSI Bronze, Brass, Copper
+45, 0,0, 0,6.35
+45, 4.49013,0, 0,6.35, 3.175,-1.5875
+*ANSI34, ANSI Plastic, Rubber
+45, 0,0, 0,19.05
+45, 4.49013,0, 0,19.05
+45, 8.98026,0, 0,19.05
+45, 13.4704,0, 0,19.05
+*ANSI35, ANSI Fire brick, Refractory material
+45, 0,0, 0,6.35
+45, 4.49013,0, 0,6.35, 7.9375,-1.5875,0,-1.5875
+*ANSI36, ANSI Marble, Slate, Glass
+45, 0,0, 5.55625,3.175, 7.9375,-1.5875,0,-1.5875
+*ANSI37, ANSI Lead, Zinc, Magnesium, Sound/Heat/Elec Insulation
+45, 0,0, 0,3.175
+135, 0,0, 0,3.175
+*ANSI38, ANSI Aluminum
+45, 0,0, 0,3.175
+135, 0,0, 6.35,3.175, 7.9375,-4.7625
+*BRICK, Brick or masonry-type surface
+0, 0,0, 0,6.35
+90, 0,0, 0,12.7, 6.35,-6.35
+90, 6.35,0, 0,12.7, -6.35,6.35
+*ANGLE, Angle steel
+0, 0,0, 0,6.985, 5.08,-1.905
+90, 0,0, 0,6.985, 5.08,-1.905
+*CROSS, A series of crosses
+0, 0,0, 6.35,6.35, 3.175,-9.525
+90, 1.5875,-1.5875, 6.35,6.35, 3.175,-9.525
+*DASH, Dashed lines
+0, 0,0, 3.175,3.175, 3.175,-3.175
+*DOTS, A series of dots
+0, 0,0, 0.79375,1.5875, 0,-1.5875
+*HONEY, Honeycomb pattern
+0, 0,0, 4.7625,2.749630645, 3.175,-6.35
+120, 0,0, 4.7625,2.749630645, 3.175,-6.35
+60, 0,0, 4.7625,2.749630645, -6.35,3.175
+*LINE, Parallel horizontal lines
+0, 0,0, 0,3.175
+*NET, Horizontal / vertical grid
+0, 0,0, 0,3.175
+90, 0,0, 0,3.175
+*NET3, Network pattern 0-60-120
+0, 0,0, 0,3.175
+60, 0,0, 0,3.175
+120, 0,0, 0,3.175
+*SQUARE, Small aligned squares
+0, 0,0, 0,3.175, 3.175,-3.175
+90, 0,0, 0,3.175, 3.175,-3.175
+*ISO02W100, dashed line
+0, 0,0, 0,5, 12,-3
+*ISO03W100, dashed space line
+0, 0,0, 0,5, 12,-18
+*ISO04W100, long dashed dotted line
+0, 0,0, 0,5, 24,-3,0.5,-3
+*ISO05W100, long dashed double dotted line
+0, 0,0, 0,5, 24,-3,0.5,-3,0.5,-3
+*ISO06W100, long dashed triplicate dotted line
+0, 0,0, 0,5, 24,-3,0.5,-3,0.5,-3,0.5,-3
+*ISO07W100, dotted line
+0, 0,0, 0,5, 0.5,-3
+*ISO08W100, long dashed short dashed line
+0, 0,0, 0,5, 24,-3,6,-3
+*ISO09W100, long dashed double short dashed line
+0, 0,0, 0,5, 24,-3,6,-3,6,-3
+*ISO10W100, dashed dotted line
+0, 0,0, 0,5, 12,-3,0.5,-3
+*ISO11W100, double dashed dotted line
+0, 0,0, 0,5, 12,-3,12,-3,0.5,-3
+*ISO12W100, dashed double dotted line
+0, 0,0, 0,5, 12,-3,0.5,-3,0.5,-3
+*ISO13W100, double dashed double dotted line
+0, 0,0, 0,5, 12,-3,12,-3,0.5,-3,0.5,-3
+*ISO14W100, dashed triplicate dotted line
+0, 0,0, 0,5, 12,-3,0.5,-3,0.5,-3,0.5,-3
+*ISO15W100, double dashed triplicate dotted line
+0, 0,0, 0,5, 12,-3,12,-3,0.5,-3,0.5,-3,0.5,-3
+`;
@@ -0,0 +1,535 @@
+import { saveAs } from 'file-saver';
+import type { Entity, Point, LWPolylineEntity, HatchEntity, TableEntity, TextEntity } from '../types/entities';
+import type { BlockTable } from '../types/blocks';
+import type { Layer } from '../types/layers';
+import { DEFAULT_LAYER, getTransparencyOpacity } from '../types/layers';
+import type { PlotSettings, PlotDrawingData } from '../types/plot';
+import { DEFAULT_PLOT_SETTINGS, PLOT_DEFAULT_LINEWEIGHT, PLOT_HATCH_LINEWEIGHT } from '../types/plot';
+import { DXF_LINETYPES } from '../types/dxf';
+import { getDimensionGraphics } from './dimensionUtils';
+import { sampleSpline } from './geometryUtils';
+import { getReferenceOutputMembers, isBlockReference } from './blockUtils';
+import { getPolylineSegments, bulgeToArc, hasWidths, getPolylineWidthTriangles } from './polylineUtils';
+import { getHatchGeometry, getHatchGradientPaint, getHatchPatternConfig, isLineHatch } from './hatchGeometry';
+import type { GradientPaint, GradientStop } from './hatchGradient';
+import { computePlotLayout, getPlotColor, type PlotLayout } from './plotUtils';
+
+// İçerik mm cinsinden yazılır, sayfa matrisi PDF noktasına çevirir
+const MM_TO_PT = 72 / 25.4;
+
+// POINT işaretinin yarı boyu (çizim birimi, ekrandaki çizimle aynı)
+const POINT_SIZE = 0.5;
+
+// Helvetica glif genişlikleri (1/1000 em), ASCII 32–126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+// WinAnsi'deki İzlanda harflerinin yerine Türkçe harfler (Windows-1254 düzeni)
+const TURKISH_CODES: Record<string, number> = { 'Ğ': 208, 'İ': 221, 'Ş': 222, 'ğ': 240, 'ı': 253, 'ş': 254 };
+const FONT_ENCODING = '<< /Type /Encoding /BaseEncoding /WinAnsiEncoding /Differences [208 /Gbreve 221 /Idotaccent 222 /Scedilla 240 /gbreve 253 /dotlessi 254 /scedilla] >>';
+
+// Standart 14 yazı tipinden Helvetica ailesi (gömülmez)
+const FONTS = { F1: 'Helvetica', F2: 'Helvetica-Bold', F3: 'Helvetica-Oblique', F4: 'Helvetica-BoldOblique' };
+type FontName = keyof typeof FONTS;
+
+// Ortalanan metinde taban çizgisi kaydırması (Helvetica büyük harf yüksekliğinin yarısı, em)
+const TEXT_MIDDLE_OFFSET = 0.36;
+
+/**
+ * PDFExporter writes the visible entities as a single-page vector PDF using the plot
+ * settings of the print dialog: paper size, margins, scale, plot style and lineweights.
+ */
+export class PDFExporter {
+  private settings: PlotSettings;
+  private blocks: BlockTable = {};
+  private layers: Layer[] = [];
+  private layout: PlotLayout = computePlotLayout([], DEFAULT_PLOT_SETTINGS, { blocks: {} });
+  private opacities: number[] = [];
+  private shadings: string[] = [];
+
+  constructor(settings: Partial<PlotSettings> = {}) {
+    this.settings = { ...DEFAULT_PLOT_SETTINGS, ...settings };
+  }
+
+  export(entities: Entity[], data: PlotDrawingData): string {
+    this.blocks = data.blocks;
+    this.layers = data.layers ?? [];
+    this.opacities = [];
+    this.shadings = [];
+
+    const visible = entities.filter(entity => entity.visible);
+    this.layout = computePlotLayout(visible, this.settings, data);
+
+    // Blok üyeleri kendi katmanlarına dağıtılır; 0 katmanındakiler referansın katmanını alır
+    const byLayer = new Map<string, string[]>();
+    const add = (layerId: string, ops: string) => {
+      if (!ops) return;
+      if (!byLayer.has(layerId)) byLayer.set(layerId, []);
+      byLayer.get(layerId)!.push(ops);
+    };
+    visible.forEach(entity => {
+      if (isBlockReference(entity)) {
+        getReferenceOutputMembers(entity, this.blocks).forEach(member => add(member.layer, this.buildEntity(member)));
+      } else {
+        add(entity.layer, this.buildEntity(entity));
+      }
+    });
+
+    const { printable } = this.layout;
+    const content: string[] = [
+      `${MM_TO_PT.toFixed(6)} 0 0 ${MM_TO_PT.toFixed(6)} 0 0 cm`,
+      '1 J 1 j',
+      // Kenar boşlukları dışına taşan çizimler kırpılır
+      `${this.num(printable.x)} ${this.num(printable.y)} ${this.num(printable.width)} ${this.num(printable.height)} re W n`,
+    ];
+
+    const layerOrder = [...this.layers.map(layer => layer.id), ...[...byLayer.keys()].filter(id => !this.layers.some(layer => layer.id === id))];
+    layerOrder.forEach(layerId => {
+      const ops = byLayer.get(layerId);
+      const layer = this.getLayer(layerId);
+      if (!ops || !layer.visible || layer.frozen || layer.plot === false) return;
+      // Katman saydamlığı; kendi saydamlığı olan nesneler bunu geçersiz kılar
+      const opacity = getTransparencyOpacity(undefined, layer);
+      const state = opacity < 1 ? [`/GS${this.opacityState(opacity)} gs`] : [];
+      content.push('q', this.color(layer.color), `${this.num(this.lineWidth(layer.lineweight))} w`, this.dash(layer.linetype) || '[] 0 d', ...state, ...ops, 'Q');
+    });
+
+    return this.buildDocument(content.join('\n'));
+  }
+
+  // Katmandan farklı renk, kalınlık veya çizgi tipi olan entity'ler kendi grafik durumunda çizilir
+  private buildEntity(entity: Entity): string {
+    const ops = this.entityOps(entity);
+    if (!ops) return '';
+    const state: string[] = [];
+    if (entity.color && entity.color.toUpperCase() !== 'BYLAYER' && entity.color.toUpperCase() !== 'BYBLOCK') state.push(this.color(entity.color));
+    if (entity.lineWeight && entity.lineWeight > 0) state.push(`${this.num(this.lineWidth(entity.lineWeight))} w`);
+    if (entity.lineType && entity.lineType.toUpperCase() !== 'BYLAYER') state.push(this.dash(entity.lineType) || '[] 0 d');
+    if (entity.transparency !== undefined) state.push(`/GS${this.opacityState(getTransparencyOpacity(entity.transparency))} gs`);
+    return state.length > 0 ? ['q', ...state, ops, 'Q'].join('\n') : ops;
+  }
+
+  private entityOps(entity: Entity): string {
+    switch (entity.type) {
+      case 'LINE':
+        return `${this.xy(entity.start)} m ${this.xy(entity.end)} l S`;
+      case 'LWPOLYLINE':
+        return this.polylineEntityOps(entity);
+      case 'CIRCLE':
+        return `${this.ellipseOps(entity.center, entity.radius, entity.radius, 0, 0, Math.PI * 2)} h S`;
+      case 'ARC': {
+        let sweep = entity.endAngle - entity.startAngle;
+        if (sweep <= 0) sweep += Math.PI * 2;
+        return `${this.ellipseOps(entity.center, entity.radius, entity.radius, 0, entity.startAngle, sweep)} S`;
+      }
+      case 'ELLIPSE':
+        return `${this.ellipseOps(entity.center, entity.rx, entity.ry, entity.rotation || 0, 0, Math.PI * 2)} h S`;
+      case 'POINT': {
+        const [x, y] = entity.position;
+        return `${this.xy([x - POINT_SIZE, y, 0])} m ${this.xy([x + POINT_SIZE, y, 0])} l ${this.xy([x, y - POINT_SIZE, 0])} m ${this.xy([x, y + POINT_SIZE, 0])} l S`;
+      }
+      case 'SPLINE': {
+        const points = sampleSpline(entity);
+        if (points.length < 2) return '';
+        return `${this.pointsOps(points)}${entity.closed ? ' h' : ''} S`;
+      }
+      case 'RAY':
+      case 'XLINE':
+        return this.rayOps(entity.type, entity.origin, entity.direction);
+      case 'DONUT': {
+        const { center, innerRadius, outerRadius } = entity;
+        const inner = innerRadius > 0 ? ` ${this.ellipseOps(center, innerRadius, innerRadius, 0, 0, Math.PI * 2)} h` : '';
+        return `${this.ellipseOps(center, outerRadius, outerRadius, 0, 0, Math.PI * 2)} h${inner} f*`;
+      }
+      case 'TEXT':
+        return this.buildText(entity);
+      case 'DIMENSION':
+        return this.buildDimension(entity);
+      case 'HATCH':
+        return this.buildHatch(entity);
+      case 'TABLE':
+        return this.buildTable(entity);
+      default:
+        console.warn(`Unsupported entity type for PDF export: ${(entity as Entity).type}`);
+        return '';
+    }
+  }
+
+  private polylineEntityOps(entity: LWPolylineEntity): string {
+    if (entity.vertices.length < 2) return '';
+    // Genişlikli polyline'lar dolu şekil olarak çizilir
+    if (hasWidths(entity)) {
+      const triangles = getPolylineWidthTriangles(entity);
+      const ops: string[] = [];
+      for (let i = 0; i + 8 < triangles.length; i += 9) {
+        ops.push(`${this.xy([triangles[i], triangles[i + 1], 0])} m ${this.xy([triangles[i + 3], triangles[i + 4], 0])} l ${this.xy([triangles[i + 6], triangles[i + 7], 0])} l h`);
+      }
+      return `${ops.join(' ')} f`;
+    }
+    return `${this.polylineOps(entity)} S`;
+  }
+
+  private rayOps(type: 'RAY' | 'XLINE', origin: Point, direction: Point): string {
+    // Alanı her durumda aşacak uzunlukta çizilir, kenar boşluğu kırpar
+    const length = Math.hypot(direction[0], direction[1]) || 1;
+    const [dx, dy] = [direction[0] / length, direction[1] / length];
+    const { area, paperWidth, paperHeight, factor } = this.layout;
+    const reach = Math.hypot(origin[0] - (area.min[0] + area.max[0]) / 2, origin[1] - (area.min[1] + area.max[1]) / 2)
+      + Math.hypot(paperWidth, paperHeight) / factor;
+    const start: Point = type === 'XLINE' ? [origin[0] - dx * reach, origin[1] - dy * reach, 0] : origin;
+    return `${this.xy(start)} m ${this.xy([origin[0] + dx * reach, origin[1] + dy * reach, 0])} l S`;
+  }
+
+  private buildText(entity: TextEntity): string {
+    if (!entity.text) return '';
+    const align = entity.justification === 'center' || entity.justification === 'middle' ? 'center'
+      : entity.justification === 'right' ? 'right' : 'left';
+    const style = entity.textStyle;
+    return this.textOps(entity.position, entity.height, entity.text, entity.rotation || 0, align, false, this.font(style?.fontWeight === 'bold', style?.fontStyle === 'italic'));
+  }
+
+  private buildDimension(entity: Extract<Entity, { type: 'DIMENSION' }>): string {
+    const graphics = getDimensionGraphics(entity);
+    const ops: string[] = [];
+    const strokes = [
+      ...graphics.lines.map(([p1, p2]) => `${this.xy(p1)} m ${this.xy(p2)} l`),
+      ...graphics.arcs.map(arc => this.ellipseOps(arc.center, arc.radius, arc.radius, 0, arc.startAngle, arc.endAngle - arc.startAngle)),
+    ];
+    if (strokes.length > 0) ops.push(`${strokes.join(' ')} S`);
+    if (graphics.arrows.length > 0) {
+      ops.push(`${graphics.arrows.map(([tip, left, right]) => `${this.xy(tip)} m ${this.xy(left)} l ${this.xy(right)} l h`).join(' ')} f`);
+    }
+    graphics.texts.forEach(text => {
+      if (text.text) ops.push(this.textOps(text.position, text.height, text.text, text.rotation, 'center', true, 'F1'));
+    });
+    return ops.join('\n');
+  }
+
+  private buildHatch(entity: HatchEntity): string {
+    const paths = [entity.boundary, ...(entity.islands || [])].filter(path => path?.vertices?.length >= 3);
+    if (paths.length === 0) return '';
+    // Tarama opaklığı nesne / katman saydamlığıyla birleşir
+    const alpha = (entity.opacity ?? 1) * getTransparencyOpacity(entity.transparency, this.getLayer(entity.layer));
+    const opacity = alpha < 1 ? `/GS${this.opacityState(alpha)} gs ` : '';
+    const config = getHatchPatternConfig(entity);
+
+    const paint = getHatchGradientPaint(entity);
+    if (paint) {
+      const path = paths.map(p => `${this.polylineOps({ ...p, closed: true })} h`).join(' ');
+      return `q ${opacity}${path} W* n /Sh${this.shading(paint)} sh Q`;
+    }
+
+    if (!isLineHatch(entity) && config.type !== 'custom_image') {
+      const path = paths.map(p => `${this.polylineOps({ ...p, closed: true })} h`).join(' ');
+      return `q ${opacity}${path} f* Q`;
+    }
+
+    // Desen çizgileri vektör olarak; resim desenleri PDF'e gömülmez, ANSI31 çizgileriyle çizilir
+    const { lines, dots } = getHatchGeometry(config.type === 'custom_image' ? { ...entity, pattern: { ...entity.pattern, name: 'ANSI31' } } : entity);
+    const strokes = [
+      ...lines.map(([a, b]) => `${this.xy(a)} m ${this.xy(b)} l`),
+      ...dots.map(dot => `${this.xy(dot)} m ${this.xy(dot)} l`),
+    ];
+    if (strokes.length === 0) return '';
+    return `q ${opacity}[] 0 d 1 J ${PLOT_HATCH_LINEWEIGHT} w ${strokes.join(' ')} S Q`;
+  }
+
+  // Tablo döndürülmemiş olarak çizilip sol üst köşe etrafında döndürülür (ekrandaki çizimle aynı düzen)
+  private buildTable(entity: TableEntity): string {
+    const { position, rows, cols, rowHeight, colWidth, cellData, cellStyles, headerRow } = entity;
+    const [px, py] = [position[0], position[1]];
+    const ops: string[] = [];
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const background = cellStyles?.[row]?.[col]?.backgroundColor;
+        if (!background) continue;
+        const [x, y] = this.paper([px + col * colWidth, py - (row + 1) * rowHeight, 0]);
+        ops.push(`q ${this.rgb(background)} rg ${this.num(x)} ${this.num(y)} ${this.len(colWidth)} ${this.len(rowHeight)} re f Q`);
+      }
+    }
+
+    const grid: string[] = [];
+    for (let i = 0; i <= rows; i++) {
+      if (headerRow && i === 1) continue;
+      grid.push(`${this.xy([px, py - i * rowHeight, 0])} m ${this.xy([px + cols * colWidth, py - i * rowHeight, 0])} l`);
+    }
+    for (let j = 0; j <= cols; j++) {
+      grid.push(`${this.xy([px + j * colWidth, py, 0])} m ${this.xy([px + j * colWidth, py - rows * rowHeight, 0])} l`);
+    }
+    ops.push(`${grid.join(' ')} S`);
+    if (headerRow && rows > 0) {
+      ops.push(`q ${this.num(this.lineWidth(0) * 2)} w ${this.xy([px, py - rowHeight, 0])} m ${this.xy([px + cols * colWidth, py - rowHeight, 0])} l S Q`);
+    }
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const text = cellData?.[row]?.[col];
+        if (!text) continue;
+        const style = cellStyles?.[row]?.[col];
+        const alignment = style?.alignment || 'center';
+        const x = alignment === 'left' ? px + col * colWidth + colWidth * 0.05
+          : alignment === 'right' ? px + (col + 1) * colWidth - colWidth * 0.05
+            : px + col * colWidth + colWidth / 2;
+        const bold = style?.fontWeight === 'bold' || (!!headerRow && row === 0);
+        const ops_ = this.textOps([x, py - row * rowHeight - rowHeight / 2, 0], style?.textHeight || rowHeight * 0.6, text, 0, alignment, true, this.font(bold, false));
+        ops.push(style?.textColor ? `q ${this.rgb(style.textColor)} rg ${ops_} Q` : ops_);
+      }
+    }
+
+    if (!entity.rotation) return ops.join('\n');
+    const [x, y] = this.paper(position);
+    const cos = Math.cos(entity.rotation);
+    const sin = Math.sin(entity.rotation);
+    const matrix = [cos, sin, -sin, cos, x - cos * x + sin * y, y - sin * x - cos * y].map(v => this.num(v, 6)).join(' ');
+    return ['q', `${matrix} cm`, ...ops, 'Q'].join('\n');
+  }
+
+  // Metin: taban çizgisi konumda, döndürme konum etrafında; satırlar 1.5 yükseklik aralıklı
+  private textOps(position: Point, height: number, text: string, rotation: number, align: 'left' | 'center' | 'right', middle: boolean, font: FontName): string {
+    const size = height * this.layout.factor;
+    if (size <= 0) return '';
+    const [x0, y0] = this.paper(position);
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+
+    return text.split('\n').map((line, i) => {
+      const width = this.textWidth(line) * size;
+      const dx = align === 'right' ? -width : align === 'center' ? -width / 2 : 0;
+      const dy = -i * size * 1.5 - (middle ? size * TEXT_MIDDLE_OFFSET : 0);
+      const x = x0 + dx * cos - dy * sin;
+      const y = y0 + dx * sin + dy * cos;
+      const matrix = [cos, sin, -sin, cos].map(v => this.num(v, 6)).join(' ');
+      return `BT /${font} ${this.num(size)} Tf ${matrix} ${this.num(x)} ${this.num(y)} Tm (${this.encodeText(line)}) Tj ET`;
+    }).join('\n');
+  }
+
+  private font(bold: boolean, italic: boolean): FontName {
+    return bold ? (italic ? 'F4' : 'F2') : (italic ? 'F3' : 'F1');
+  }
+
+  // em cinsinden genişlik; aksanlı harfler taban harfinin genişliğini alır
+  private textWidth(text: string): number {
+    let width = 0;
+    for (const char of text) {
+      const base = char.normalize('NFD').charCodeAt(0);
+      width += base >= 32 && base <= 126 ? HELVETICA_WIDTHS[base - 32] : char === 'ı' ? 278 : 556;
+    }
+    return width / 1000;
+  }
+
+  // Kodlanamayan karakterler '?' olur; 127 üzeri sekizlik kaçışla yazılır (dosya ASCII kalır)
+  private encodeText(text: string): string {
+    const replaced = new Set(Object.values(TURKISH_CODES));
+    let result = '';
+    for (const char of text) {
+      let code = TURKISH_CODES[char] ?? char.charCodeAt(0);
+      if (TURKISH_CODES[char] === undefined && (code > 255 || (code >= 127 && code < 160) || replaced.has(code))) code = 63;
+      if (code < 32) code = 32;
+      if (char === '(' || char === ')' || char === '\\') result += `\\${char}`;
+      else result += code < 127 ? String.fromCharCode(code) : `\\${code.toString(8)}`;
+    }
+    return result;
+  }
+
+  private polylineOps(entity: Pick<LWPolylineEntity, 'vertices' | 'closed' | 'bulges'>): string {
+    const ops: string[] = [`${this.xy(entity.vertices[0])} m`];
+    getPolylineSegments(entity).forEach(segment => {
+      const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+      if (!arc) {
+        ops.push(`${this.xy(segment.end)} l`);
+        return;
+      }
+      ops.push(this.arcCurves(arc.center, arc.radius, arc.radius, 0, arc.startAngle, arc.sweep));
+    });
+    return ops.join(' ');
+  }
+
+  private pointsOps(points: Point[]): string {
+    return points.map((p, i) => `${this.xy(p)} ${i === 0 ? 'm' : 'l'}`).join(' ');
+  }
+
+  private ellipseOps(center: Point, rx: number, ry: number, rotation: number, startAngle: number, sweep: number): string {
+    const start = this.ellipsePoint(center, rx, ry, rotation, startAngle);
+    return `${this.xy(start)} m ${this.arcCurves(center, rx, ry, rotation, startAngle, sweep)}`;
+  }
+
+  // Eliptik yay kübik Bézier parçalarıyla (en fazla 90°); afin eşleme eğriyi korur
+  private arcCurves(center: Point, rx: number, ry: number, rotation: number, startAngle: number, sweep: number): string {
+    const count = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+    const delta = sweep / count;
+    const k = 4 / 3 * Math.tan(delta / 4);
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    const tangent = (angle: number): [number, number] => {
+      const tx = -rx * Math.sin(angle);
+      const ty = ry * Math.cos(angle);
+      return [cos * tx - sin * ty, sin * tx + cos * ty];
+    };
+
+    const curves: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const a0 = startAngle + delta * i;
+      const a1 = a0 + delta;
+      const p0 = this.ellipsePoint(center, rx, ry, rotation, a0);
+      const p1 = this.ellipsePoint(center, rx, ry, rotation, a1);
+      const t0 = tangent(a0);
+      const t1 = tangent(a1);
+      const c1: Point = [p0[0] + k * t0[0], p0[1] + k * t0[1], 0];
+      const c2: Point = [p1[0] - k * t1[0], p1[1] - k * t1[1], 0];
+      curves.push(`${this.xy(c1)} ${this.xy(c2)} ${this.xy(p1)} c`);
+    }
+    return curves.join(' ');
+  }
+
+  private ellipsePoint(center: Point, rx: number, ry: number, rotation: number, angle: number): Point {
+    const ex = rx * Math.cos(angle);
+    const ey = ry * Math.sin(angle);
+    return [
+      center[0] + ex * Math.cos(rotation) - ey * Math.sin(rotation),
+      center[1] + ex * Math.sin(rotation) + ey * Math.cos(rotation),
+      0,
+    ];
+  }
+
+  private opacityState(opacity: number): number {
+    const value = Number(Math.max(0, opacity).toFixed(3));
+    const index = this.opacities.indexOf(value);
+    if (index >= 0) return index + 1;
+    this.opacities.push(value);
+    return this.opacities.length;
+  }
+
+  // Gradyan: eksenel (tip 2) veya dairesel (tip 3) gölgeleme; çok duraklı geçiş dikişli fonksiyondur
+  private shading(paint: GradientPaint): number {
+    const [x0, y0] = this.paper(paint.start);
+    const [x1, y1] = this.paper(paint.end);
+    const segment = (a: GradientStop, b: GradientStop) =>
+      `<< /FunctionType 2 /Domain [0 1] /C0 [${this.rgb(a.color)}] /C1 [${this.rgb(b.color)}] /N 1 >>`;
+    const segments = paint.stops.slice(1).map((stop, i) => segment(paint.stops[i], stop));
+    const fn = segments.length === 1 ? segments[0]
+      : `<< /FunctionType 3 /Domain [0 1] /Functions [${segments.join(' ')}] /Bounds [${paint.stops.slice(1, -1).map(stop => this.num(stop.offset)).join(' ')}] /Encode [${segments.map(() => '0 1').join(' ')}] >>`;
+    const coords = paint.kind === 'radial'
+      ? `/ShadingType 3 /Coords [${this.num(x0)} ${this.num(y0)} 0 ${this.num(x0)} ${this.num(y0)} ${this.num(paint.radius * this.layout.factor)}]`
+      : `/ShadingType 2 /Coords [${this.num(x0)} ${this.num(y0)} ${this.num(x1)} ${this.num(y1)}]`;
+    this.shadings.push(`<< ${coords} /ColorSpace /DeviceRGB /Function ${fn} /Extend [true true] >>`);
+    return this.shadings.length;
+  }
+
+  // Çizgi kalınlıkları kağıt üzerindeki mm'dir, çizim ölçeğinden bağımsızdır
+  private lineWidth(weight: number | undefined): number {
+    const mode = this.settings.lineweightDisplay;
+    if (mode === 'hairline') return 0;
+    const width = weight && weight > 0 ? weight : PLOT_DEFAULT_LINEWEIGHT;
+    return mode === 'thick' ? width * 2 : width;
+  }
+
+  // DXF çizgi tipi desenleri (mm) kağıt üzerinde aynı boyla; nokta yuvarlak uçlu sıfır boy çizgidir
+  private dash(linetype: string | undefined): string {
+    const pattern = DXF_LINETYPES[(linetype || '').toUpperCase()]?.pattern;
+    if (!pattern || pattern.length === 0) return '';
+    return `[${pattern.map(value => this.num(Math.abs(value))).join(' ')}] 0 d`;
+  }
+
+  private color(color: string): string {
+    const rgb = this.rgb(color);
+    return `${rgb} RG ${rgb} rg`;
+  }
+
+  // Çizim stili (renkli / tek renk / gri tonlama) uygulanmış renk
+  private rgb(color: string): string {
+    const value = parseInt(getPlotColor(color, this.settings.plotStyle).replace('#', ''), 16);
+    return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff].map(c => this.num(c / 255)).join(' ');
+  }
+
+  private getLayer(id: string): Layer {
+    return this.layers.find(layer => layer.id === id) ?? { ...DEFAULT_LAYER, id, name: id };
+  }
+
+  private buildDocument(content: string): string {
+    const { paperWidth, paperHeight } = this.layout;
+    const objects: string[] = [];
+    const add = (body: string): number => objects.push(body);
+    const stream = (dict: string, data: string) => `<< ${dict ? `${dict} ` : ''}/Length ${data.length} >>\nstream\n${data}\nendstream`;
+
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    add('<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+    const page = add('');
+    const contents = add(stream('', content));
+    const encoding = add(FONT_ENCODING);
+
+    const fonts = Object.entries(FONTS).map(([name, baseFont]) =>
+      `/${name} ${add(`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding ${encoding} 0 R >>`)} 0 R`);
+    const states = this.opacities.map((opacity, i) => `/GS${i + 1} ${add(`<< /Type /ExtGState /ca ${opacity} /CA ${opacity} >>`)} 0 R`);
+    const shadings = this.shadings.map((shading, i) => `/Sh${i + 1} ${add(shading)} 0 R`);
+
+    const resources = [
+      `/Font << ${fonts.join(' ')} >>`,
+      states.length > 0 ? `/ExtGState << ${states.join(' ')} >>` : '',
+      shadings.length > 0 ? `/Shading << ${shadings.join(' ')} >>` : '',
+    ].filter(Boolean).join(' ');
+    objects[page - 1] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.num(paperWidth * MM_TO_PT)} ${this.num(paperHeight * MM_TO_PT)}] /Resources << ${resources} >> /Contents ${contents} 0 R >>`;
+
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((body, i) => {
+      const offset = pdf.length;
+      pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return pdf;
+  }
+
+  // Çizim koordinatından kağıt mm'sine (sol alt köşe başlangıç, y yukarı)
+  private paper(point: Point): [number, number] {
+    const { area, factor, origin } = this.layout;
+    return [origin[0] + (point[0] - area.min[0]) * factor, origin[1] + (point[1] - area.min[1]) * factor];
+  }
+
+  private xy(point: Point): string {
+    const [x, y] = this.paper(point);
+    return `${this.num(x)} ${this.num(y)}`;
+  }
+
+  private len(value: number): string {
+    return this.num(value * this.layout.factor);
+  }
+
+  private num(value: number, precision: number = 3): string {
+    return String(Number(value.toFixed(precision)));
+  }
+}
+
+/**
+ * Export entities to a vector PDF file and trigger download
+ */
+export const exportPDF = (
+  entities: Entity[],
+  filename: string = 'drawing.pdf',
+  settings: Partial<PlotSettings> = {},
+  data: PlotDrawingData
+): void => {
+  const pdf = new PDFExporter(settings).export(entities, data);
+  const blob = new Blob([pdf], { type: 'application/pdf' });
+  saveAs(blob, filename.replace(/\.(dxf|dwg|cadjson|svg|pdf)$/i, '') + '.pdf');
+};
+
+/**
+ * Export entities to a PDF document string
+ */
+export const exportPDFToString = (
+  entities: Entity[],
+  settings: Partial<PlotSettings> = {},
+  data: PlotDrawingData
+): string => {
+  return new PDFExporter(settings).export(entities, data);
+};
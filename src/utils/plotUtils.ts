@@ -0,0 +1,94 @@
+import type { Entity, Point } from '../types/entities';
+import type { PlotSettings, PlotStyle, PlotDrawingData } from '../types/plot';
+import { PAPER_SIZES, HPGL_PEN_COUNT } from '../types/plot';
+import { rgbToACI } from '../types/layers';
+import { calculateBoundingBox } from './geometryUtils';
+
+/**
+ * Placement of the plotted area on the sheet. Paper coordinates are millimetres
+ * from the lower-left corner of the sheet (y up).
+ */
+export interface PlotLayout {
+  paperWidth: number;
+  paperHeight: number;
+  printable: { x: number; y: number; width: number; height: number }; // Kenar boşlukları içindeki alan
+  area: { min: Point; max: Point }; // Çizim koordinatları
+  factor: number; // Kağıt mm / çizim birimi
+  origin: [number, number]; // area.min köşesinin kağıttaki konumu
+}
+
+/**
+ * '1:100' → 0.01 (paper units per drawing unit)
+ */
+export const parsePlotScale = (scale: string): number => {
+  const [paper, drawing] = scale.split(':').map(Number);
+  return paper > 0 && drawing > 0 ? paper / drawing : 1;
+};
+
+export const computePlotLayout = (entities: Entity[], settings: PlotSettings, data: PlotDrawingData): PlotLayout => {
+  const paper = PAPER_SIZES[settings.paperSize] || PAPER_SIZES['iso_a4'];
+  const landscape = settings.orientation === 'landscape';
+  const paperWidth = landscape ? paper.height : paper.width;
+  const paperHeight = landscape ? paper.width : paper.height;
+  const { top, right, bottom, left } = settings.margins;
+  const printable = {
+    x: left,
+    y: bottom,
+    width: Math.max(paperWidth - left - right, 1),
+    height: Math.max(paperHeight - top - bottom, 1),
+  };
+
+  // Görünüm sınırları bağlamda tutulmadığından 'display' kapsam olarak çizilir
+  const window = settings.plotArea === 'window' ? data.window : undefined;
+  const area = window
+    ? {
+      min: [Math.min(window.min[0], window.max[0]), Math.min(window.min[1], window.max[1]), 0] as Point,
+      max: [Math.max(window.min[0], window.max[0]), Math.max(window.min[1], window.max[1]), 0] as Point,
+    }
+    : calculateBoundingBox(entities.filter(entity => entity.visible), data.blocks) ?? { min: [0, 0, 0] as Point, max: [0, 0, 0] as Point };
+
+  const areaWidth = area.max[0] - area.min[0];
+  const areaHeight = area.max[1] - area.min[1];
+  let factor = (data.unitSize ?? 1) * parsePlotScale(settings.scale);
+  if (settings.fitToPaper && (areaWidth > 0 || areaHeight > 0)) {
+    factor = Math.min(
+      areaWidth > 0 ? printable.width / areaWidth : Infinity,
+      areaHeight > 0 ? printable.height / areaHeight : Infinity
+    );
+  }
+
+  const origin: [number, number] = settings.centerPlot
+    ? [printable.x + (printable.width - areaWidth * factor) / 2, printable.y + (printable.height - areaHeight * factor) / 2]
+    : [printable.x, printable.y];
+
+  return { paperWidth, paperHeight, printable, area, factor, origin };
+};
+
+/**
+ * Plot color for a white sheet: white (ACI 7) plots black, monochrome plots everything black
+ * and grayscale converts by luminance
+ */
+export const getPlotColor = (color: string, style: PlotStyle): string => {
+  const value = parseInt(color.replace('#', ''), 16);
+  if (style === 'monochrome' || isNaN(value) || color.toLowerCase() === '#ffffff') return '#000000';
+  if (style === 'grayscale') {
+    const gray = Math.round(((value >> 16) & 0xff) * 0.299 + ((value >> 8) & 0xff) * 0.587 + (value & 0xff) * 0.114);
+    return `#${gray.toString(16).padStart(2, '0').repeat(3)}`;
+  }
+  return color;
+};
+
+/**
+ * HPGL pen for a color. A layer plot style naming a pen ('Pen 3', 'P3', '3') or an
+ * AutoCAD color style ('Color_5') wins; otherwise the ACI index of the color is spread
+ * over the carousel (red = 1, yellow = 2 … white = 7). Monochrome plots with pen 1.
+ */
+export const getPlotPen = (color: string, layerPlotStyle: string | undefined, style: PlotStyle, penCount: number = HPGL_PEN_COUNT): number => {
+  if (style === 'monochrome') return 1;
+  const name = (layerPlotStyle || '').trim();
+  const pen = /^(?:pen[\s_#]*|p)?(\d+)$/i.exec(name);
+  if (pen && Number(pen[1]) > 0) return (Number(pen[1]) - 1) % penCount + 1;
+  const colorStyle = /^color[\s_]*(\d+)$/i.exec(name);
+  const aci = colorStyle ? Number(colorStyle[1]) : rgbToACI(color);
+  return (Math.min(Math.max(aci, 1), 255) - 1) % penCount + 1;
+};
@@ -0,0 +1,189 @@
+import type { Entity, BaseEntity, Point } from '../types/entities';
+import type { BlockTable } from '../types/blocks';
+import type { Layer } from '../types/layers';
+import { DEFAULT_LAYER, aciToRGB } from '../types/layers';
+import type { PointImportOptions, PointFileColumn, PointFileDelimiter } from '../types/survey';
+import { DEFAULT_POINT_IMPORT_OPTIONS, SURVEY_POINT_LAYER } from '../types/survey';
+import type { DXFImportReport } from './dxfLoader';
+
+interface PointImportResult {
+  entities: Entity[];
+  blocks: BlockTable;
+  layers: Layer[]; // Kod katmanları; entity.layer katman adını taşır
+  errors: string[];
+  warnings: string[];
+  report: DXFImportReport;
+}
+
+interface SurveyPoint {
+  number: string;
+  code: string;
+  position: Point;
+}
+
+// DXF katman adında geçersiz karakterler
+const INVALID_LAYER_CHARS = /[<>/\\":;?*|=`,]/g;
+
+const DELIMITERS: Record<Exclude<PointFileDelimiter, 'auto'>, RegExp> = {
+  comma: /,/,
+  semicolon: /;/,
+  tab: /\t/,
+  space: /\s+/,
+};
+
+const isDataLine = (line: string): boolean => {
+  const trimmed = line.trim();
+  return trimmed.length > 0 && !trimmed.startsWith('#') && !trimmed.startsWith('//');
+};
+
+/**
+ * Guess the delimiter from the first data lines: the separator found on most lines
+ * (tab, semicolon, comma in that priority), whitespace when none is present
+ */
+export const detectDelimiter = (content: string): Exclude<PointFileDelimiter, 'auto'> => {
+  const sample = content.split(/\r?\n/).filter(isDataLine).slice(0, 10);
+  let best: Exclude<PointFileDelimiter, 'auto'> = 'space';
+  let bestCount = 0;
+  (['tab', 'semicolon', 'comma'] as const).forEach(delimiter => {
+    const count = sample.filter(line => DELIMITERS[delimiter].test(line)).length;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/**
+ * Split a point file into trimmed cells (comment and empty lines are dropped)
+ */
+export const splitPointFile = (content: string, delimiter: PointFileDelimiter = 'auto'): string[][] => {
+  const separator = DELIMITERS[delimiter === 'auto' ? detectDelimiter(content) : delimiter];
+  return content
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter(isDataLine)
+    .map(line => line.trim().split(separator).map(cell => cell.trim().replace(/^"(.*)"$/, '$1')));
+};
+
+// Noktalı virgül / sekme ile ayrılmış dosyalarda ondalık virgül kullanılabilir
+const parseNumber = (value: string | undefined): number => {
+  if (value === undefined || value === '') return NaN;
+  const normalized = /^[-+]?\d+,\d+$/.test(value) ? value.replace(',', '.') : value;
+  return Number(normalized);
+};
+
+const layerName = (code: string): string => code.replace(INVALID_LAYER_CHARS, '_').trim() || SURVEY_POINT_LAYER;
+
+/**
+ * Parse a survey point file (P,N,E,Z,CODE or any column order given in the options)
+ * into POINT entities, optional number/code labels and code polylines. Northing maps
+ * to Y and easting to X. Rows without numeric coordinates are skipped; a first row of
+ * that kind is treated as a header.
+ */
+export const parsePointFile = (content: string, options: Partial<PointImportOptions> = {}): PointImportResult => {
+  const settings = { ...DEFAULT_POINT_IMPORT_OPTIONS, ...options };
+  const result: PointImportResult = {
+    entities: [],
+    blocks: {},
+    layers: [],
+    errors: [],
+    warnings: [],
+    report: { imported: {}, skipped: {}, blockCount: 0, warnings: [] },
+  };
+  result.report.warnings = result.warnings;
+
+  const column = (name: PointFileColumn) => settings.columns.indexOf(name);
+  const columns = {
+    point: column('point'),
+    northing: column('northing'),
+    easting: column('easting'),
+    elevation: column('elevation'),
+    code: column('code'),
+  };
+  if (columns.northing < 0 || columns.easting < 0) {
+    result.errors.push('Northing and easting columns must be assigned');
+    return result;
+  }
+
+  const points: SurveyPoint[] = [];
+  splitPointFile(content, settings.delimiter).forEach((cells, row) => {
+    const northing = parseNumber(cells[columns.northing]);
+    const easting = parseNumber(cells[columns.easting]);
+    if (!Number.isFinite(northing) || !Number.isFinite(easting)) {
+      if (row > 0) {
+        result.warnings.push(`Row ${row + 1} skipped: no numeric coordinates`);
+        result.report.skipped['ROW'] = (result.report.skipped['ROW'] || 0) + 1;
+      }
+      return;
+    }
+    const elevation = columns.elevation >= 0 ? parseNumber(cells[columns.elevation]) : 0;
+    points.push({
+      number: columns.point >= 0 ? cells[columns.point] || '' : String(points.length + 1),
+      code: columns.code >= 0 ? cells[columns.code] || '' : '',
+      position: [easting, northing, Number.isFinite(elevation) ? elevation : 0],
+    });
+  });
+
+  if (points.length === 0) {
+    result.errors.push('No points found in the file');
+    return result;
+  }
+
+  // Katmanlar koda göre; renkler ACI 1-6 sırasıyla dağıtılır
+  const layers = new Map<string, Layer>();
+  const getLayer = (code: string): string => {
+    const name = settings.layerByCode && code ? layerName(code) : SURVEY_POINT_LAYER;
+    if (!layers.has(name.toLowerCase())) {
+      layers.set(name.toLowerCase(), { ...DEFAULT_LAYER, id: name, name, color: aciToRGB(layers.size % 6 + 1) });
+    }
+    return layers.get(name.toLowerCase())!.name;
+  };
+
+  const count = (type: string) => {
+    result.report.imported[type] = (result.report.imported[type] || 0) + 1;
+  };
+  const common = (layer: string): Pick<BaseEntity, 'color' | 'layer' | 'visible' | 'locked'> =>
+    ({ color: 'BYLAYER', layer, visible: true, locked: false });
+
+  const height = settings.labelHeight > 0 ? settings.labelHeight : DEFAULT_POINT_IMPORT_OPTIONS.labelHeight;
+  points.forEach(point => {
+    const layer = getLayer(point.code);
+    const [x, y, z] = point.position;
+    result.entities.push({ id: generateId(), type: 'POINT', position: point.position, ...common(layer) });
+    count('POINT');
+    if (!settings.labels) return;
+    // Numara noktanın sağ üstünde, kod sağ altında
+    if (point.number) {
+      result.entities.push({ id: generateId(), type: 'TEXT', position: [x + height * 0.5, y + height * 0.5, z], text: point.number, height, ...common(layer) });
+      count('TEXT');
+    }
+    if (point.code) {
+      result.entities.push({ id: generateId(), type: 'TEXT', position: [x + height * 0.5, y - height * 1.5, z], text: point.code, height, ...common(layer) });
+      count('TEXT');
+    }
+  });
+
+  if (settings.connectByCode) {
+    const byCode = new Map<string, Point[]>();
+    points.filter(point => point.code).forEach(point => {
+      if (!byCode.has(point.code)) byCode.set(point.code, []);
+      byCode.get(point.code)!.push(point.position);
+    });
+    byCode.forEach((vertices, code) => {
+      if (vertices.length < 2) return;
+      result.entities.push({ id: generateId(), type: 'LWPOLYLINE', vertices, closed: false, ...common(getLayer(code)) });
+      count('LWPOLYLINE');
+    });
+  }
+
+  result.layers = [...layers.values()];
+  return result;
+};
+
+/**
+ * Generate unique entity ID
+ */
+const generateId = (): number => {
+  return Date.now() + Math.random();
+};
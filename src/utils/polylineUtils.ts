@@ -0,0 +1,503 @@
+import type { Point, LWPolylineEntity, LineEntity, ArcEntity } from '../types/entities';
+
+// LWPOLYLINE yay segmentleri (bulge) ve köşe genişlikleri
+// bulge = tan(θ/4); θ segmentin yay açısı, pozitif = saat yönü tersine (DXF grup kodu 42)
+
+const BULGE_EPSILON = 1e-9;
+const ARC_SEGMENTS_PER_TURN = 64; // Tam çember için örnekleme sayısı
+
+export interface PolylineSegment {
+    index: number; // Başlangıç köşesinin indeksi
+    start: Point;
+    end: Point;
+    bulge: number;
+}
+
+export interface BulgeArc {
+    center: Point;
+    radius: number;
+    startAngle: number; // Segment başlangıç noktasının açısı
+    sweep: number; // İşaretli yay açısı (pozitif = CCW)
+}
+
+// Geometri için gereken alanlar (çizim sırasındaki taslak polyline da kullanılabilir)
+export type PolylineShape = Pick<LWPolylineEntity, 'vertices' | 'closed' | 'bulges'>;
+
+export const getVertexBulge = (ent: PolylineShape, index: number): number => ent.bulges?.[index] || 0;
+
+export const hasArcSegments = (ent: PolylineShape): boolean =>
+    !!ent.bulges && ent.bulges.some(b => Math.abs(b) > BULGE_EPSILON);
+
+/**
+ * Start and end width of the segment that starts at the given vertex
+ */
+export const getSegmentWidths = (ent: LWPolylineEntity, index: number): [number, number] => {
+    const fallback = ent.constantWidth || 0;
+    return [ent.startWidths?.[index] ?? fallback, ent.endWidths?.[index] ?? fallback];
+};
+
+export const hasWidths = (ent: LWPolylineEntity): boolean =>
+    (ent.constantWidth || 0) > 0 ||
+    !!ent.startWidths?.some(w => w > 0) ||
+    !!ent.endWidths?.some(w => w > 0);
+
+/**
+ * Segments of a polyline in drawing order, including the closing segment of a closed polyline.
+ * Two bulged vertices form a closed loop (DXF circles and donuts); with a straight closing
+ * segment they would only retrace the first one, so it is left out
+ */
+export const getPolylineSegments = (ent: PolylineShape): PolylineSegment[] => {
+    const verts = ent.vertices;
+    const segments: PolylineSegment[] = [];
+    const closing = ent.closed && (verts.length > 2 || (verts.length === 2 && Math.abs(getVertexBulge(ent, 1)) >= BULGE_EPSILON));
+    const count = closing ? verts.length : verts.length - 1;
+    for (let i = 0; i < count; i++) {
+        segments.push({ index: i, start: verts[i], end: verts[(i + 1) % verts.length], bulge: getVertexBulge(ent, i) });
+    }
+    return segments;
+};
+
+/**
+ * Arc geometry of a bulged segment; null for a straight segment
+ */
+export const bulgeToArc = (start: Point, end: Point, bulge: number): BulgeArc | null => {
+    const dx = end[0] - start[0];
+    const dy = end[1] - start[1];
+    const chord = Math.hypot(dx, dy);
+    if (Math.abs(bulge) < BULGE_EPSILON || chord < BULGE_EPSILON) return null;
+
+    // Merkez, kiriş ortasından sol normale (1 - b²) / 4b * kiriş kadar uzakta
+    const offset = (1 - bulge * bulge) / (4 * bulge);
+    const center: Point = [
+        (start[0] + end[0]) / 2 - dy * offset,
+        (start[1] + end[1]) / 2 + dx * offset,
+        start[2] || 0
+    ];
+    return {
+        center,
+        radius: chord * (1 + bulge * bulge) / (4 * Math.abs(bulge)),
+        startAngle: Math.atan2(start[1] - center[1], start[0] - center[0]),
+        sweep: 4 * Math.atan(bulge)
+    };
+};
+
+const normalizeAngle = (angle: number): number => ((angle % (Math.PI * 2)) + Math.PI * 2) % (Math.PI * 2);
+
+const pointOnArc = (arc: BulgeArc, t: number, z: number): Point => {
+    const a = arc.startAngle + arc.sweep * t;
+    return [arc.center[0] + Math.cos(a) * arc.radius, arc.center[1] + Math.sin(a) * arc.radius, z];
+};
+
+/**
+ * Points along a segment from start to end (both included)
+ */
+export const sampleSegment = (segment: PolylineSegment): Point[] => {
+    const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+    if (!arc) return [segment.start, segment.end];
+    const steps = Math.max(4, Math.ceil(Math.abs(arc.sweep) / (Math.PI * 2) * ARC_SEGMENTS_PER_TURN));
+    const points: Point[] = [segment.start];
+    for (let i = 1; i < steps; i++) points.push(pointOnArc(arc, i / steps, segment.start[2] || 0));
+    points.push(segment.end);
+    return points;
+};
+
+/**
+ * Flatten a polyline to points with arc segments approximated by short chords.
+ * The closing point of a closed polyline is repeated only when closeLoop is set.
+ */
+export const tessellatePolyline = (ent: PolylineShape, closeLoop = false): Point[] => {
+    if (!hasArcSegments(ent)) {
+        return closeLoop && ent.closed && ent.vertices.length > 0 ? [...ent.vertices, ent.vertices[0]] : [...ent.vertices];
+    }
+    const points: Point[] = ent.vertices.length > 0 ? [ent.vertices[0]] : [];
+    getPolylineSegments(ent).forEach(segment => points.push(...sampleSegment(segment).slice(1)));
+    if (ent.closed && !closeLoop && points.length > 1) points.pop();
+    return points;
+};
+
+/**
+ * Midpoint of a segment (on the arc for bulged segments)
+ */
+export const getSegmentMidpoint = (segment: PolylineSegment): Point => {
+    const mid: Point = [
+        (segment.start[0] + segment.end[0]) / 2,
+        (segment.start[1] + segment.end[1]) / 2,
+        ((segment.start[2] || 0) + (segment.end[2] || 0)) / 2
+    ];
+    if (Math.abs(segment.bulge) < BULGE_EPSILON) return mid;
+    // Yay ortası kirişin sağ normali yönünde b * kiriş / 2 (sagitta) uzaklıkta
+    const dx = segment.end[0] - segment.start[0];
+    const dy = segment.end[1] - segment.start[1];
+    const s = segment.bulge / 2;
+    return [mid[0] + dy * s, mid[1] - dx * s, mid[2]];
+};
+
+const rotate2D = (v: [number, number], angle: number): [number, number] => {
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    return [v[0] * c - v[1] * s, v[0] * s + v[1] * c];
+};
+
+/**
+ * Unit direction of travel at the end of a segment (used to continue a tangent arc)
+ */
+export const getSegmentEndTangent = (segment: PolylineSegment): [number, number] => {
+    const dx = segment.end[0] - segment.start[0];
+    const dy = segment.end[1] - segment.start[1];
+    const len = Math.hypot(dx, dy) || 1;
+    return rotate2D([dx / len, dy / len], 2 * Math.atan(segment.bulge));
+};
+
+/**
+ * Direction of travel at the last vertex of a polyline being drawn (+X before the first segment)
+ */
+export const getPolylineEndTangent = (vertices: Point[], bulges: number[] = []): [number, number] => {
+    const n = vertices.length;
+    if (n < 2) return [1, 0];
+    return getSegmentEndTangent({ index: n - 2, start: vertices[n - 2], end: vertices[n - 1], bulge: bulges[n - 2] || 0 });
+};
+
+/**
+ * Bulge of the arc that leaves start along the given tangent and passes through end
+ */
+export const bulgeFromTangent = (start: Point, tangent: [number, number], end: Point): number => {
+    const cx = end[0] - start[0];
+    const cy = end[1] - start[1];
+    if (Math.hypot(cx, cy) < BULGE_EPSILON) return 0;
+    // Teğet ile kiriş arasındaki açı yay açısının yarısıdır
+    const alpha = Math.atan2(tangent[0] * cy - tangent[1] * cx, tangent[0] * cx + tangent[1] * cy);
+    const limit = Math.PI * 0.999; // Tam ters yön: sonsuz bulge
+    return Math.tan(Math.max(-limit, Math.min(limit, alpha)) / 2);
+};
+
+/**
+ * Bulge of the arc through start, a point on the arc and end
+ */
+export const bulgeFromThreePoints = (start: Point, through: Point, end: Point): number => {
+    const ax = through[0] - start[0], ay = through[1] - start[1];
+    const bx = end[0] - through[0], by = end[1] - through[1];
+    // Yay açısı, ara noktadaki dönüş açısının iki katıdır
+    const turn = Math.atan2(ax * by - ay * bx, ax * bx + ay * by);
+    return Math.tan(turn / 2);
+};
+
+/**
+ * Closest point on a segment to p
+ */
+export const closestPointOnSegment = (segment: PolylineSegment, px: number, py: number): Point => {
+    const { start, end } = segment;
+    const arc = bulgeToArc(start, end, segment.bulge);
+    if (!arc) {
+        const dx = end[0] - start[0];
+        const dy = end[1] - start[1];
+        const lenSq = dx * dx + dy * dy;
+        const t = lenSq > 0 ? Math.max(0, Math.min(1, ((px - start[0]) * dx + (py - start[1]) * dy) / lenSq)) : 0;
+        return [start[0] + dx * t, start[1] + dy * t, start[2] || 0];
+    }
+    // Açıyı yay yönünde başlangıca göre ölç; yay dışındaysa en yakın uç nokta
+    const a = Math.atan2(py - arc.center[1], px - arc.center[0]);
+    const rel = normalizeAngle((a - arc.startAngle) * Math.sign(arc.sweep));
+    if (rel <= Math.abs(arc.sweep)) return pointOnArc(arc, rel / Math.abs(arc.sweep), start[2] || 0);
+    const ds = Math.hypot(px - start[0], py - start[1]);
+    const de = Math.hypot(px - end[0], py - end[1]);
+    return ds <= de ? start : end;
+};
+
+/**
+ * Point at parameter t (0 = start, 1 = end) along a segment
+ */
+export const pointAtSegmentParameter = (segment: PolylineSegment, t: number): Point => {
+    const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+    if (arc) return pointOnArc(arc, t, segment.start[2] || 0);
+    return [
+        segment.start[0] + (segment.end[0] - segment.start[0]) * t,
+        segment.start[1] + (segment.end[1] - segment.start[1]) * t,
+        segment.start[2] || 0
+    ];
+};
+
+/**
+ * Parameter (0-1) of the point on the segment closest to p
+ */
+export const getSegmentParameter = (segment: PolylineSegment, px: number, py: number): number => {
+    const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+    if (!arc) {
+        const dx = segment.end[0] - segment.start[0];
+        const dy = segment.end[1] - segment.start[1];
+        const lenSq = dx * dx + dy * dy;
+        return lenSq > 0 ? Math.max(0, Math.min(1, ((px - segment.start[0]) * dx + (py - segment.start[1]) * dy) / lenSq)) : 0;
+    }
+    const point = closestPointOnSegment(segment, px, py);
+    const rel = normalizeAngle((Math.atan2(point[1] - arc.center[1], point[0] - arc.center[0]) - arc.startAngle) * Math.sign(arc.sweep));
+    return Math.min(1, rel / Math.abs(arc.sweep));
+};
+
+/**
+ * Closest point on the polyline to p and its distance
+ */
+export const closestPointOnPolyline = (ent: LWPolylineEntity, px: number, py: number): { point: Point; distance: number; segmentIndex: number } | null => {
+    let best: { point: Point; distance: number; segmentIndex: number } | null = null;
+    getPolylineSegments(ent).forEach(segment => {
+        const point = closestPointOnSegment(segment, px, py);
+        const distance = Math.hypot(px - point[0], py - point[1]);
+        if (!best || distance < best.distance) best = { point, distance, segmentIndex: segment.index };
+    });
+    return best;
+};
+
+/**
+ * Filled outline of a wide polyline as a triangle list (x, y, z per vertex)
+ */
+export const getPolylineWidthTriangles = (ent: LWPolylineEntity): number[] => {
+    const positions: number[] = [];
+    getPolylineSegments(ent).forEach(segment => {
+        const [startWidth, endWidth] = getSegmentWidths(ent, segment.index);
+        if (startWidth <= 0 && endWidth <= 0) return;
+        const points = sampleSegment(segment);
+        const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+        const dx = segment.end[0] - segment.start[0];
+        const dy = segment.end[1] - segment.start[1];
+        const len = Math.hypot(dx, dy) || 1;
+
+        // Her örnek noktada sol/sağ kenar; yayda normal radyal yöndedir
+        const edges = points.map((p, i) => {
+            const t = i / (points.length - 1);
+            const half = (startWidth + (endWidth - startWidth) * t) / 2;
+            let nx = -dy / len, ny = dx / len;
+            if (arc) {
+                nx = (p[0] - arc.center[0]) / arc.radius;
+                ny = (p[1] - arc.center[1]) / arc.radius;
+            }
+            const z = p[2] || 0;
+            return { left: [p[0] + nx * half, p[1] + ny * half, z], right: [p[0] - nx * half, p[1] - ny * half, z] };
+        });
+        for (let i = 0; i < edges.length - 1; i++) {
+            const a = edges[i], b = edges[i + 1];
+            positions.push(...a.left, ...a.right, ...b.left, ...b.left, ...a.right, ...b.right);
+        }
+    });
+    return positions;
+};
+
+/**
+ * Explode a polyline into LINE and ARC entities (without ids)
+ */
+export const explodePolyline = (ent: LWPolylineEntity): (Omit<LineEntity, 'id'> | Omit<ArcEntity, 'id'>)[] => {
+    const { color, layer, lineType, lineWeight } = ent;
+    return getPolylineSegments(ent).map(segment => {
+        const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+        if (!arc) {
+            return { type: 'LINE' as const, start: segment.start, end: segment.end, color, layer, lineType, lineWeight };
+        }
+        // ARC varlıkları her zaman CCW tanımlanır; açılar 0-2π aralığında
+        const startAngle = normalizeAngle(arc.startAngle);
+        const endAngle = normalizeAngle(arc.startAngle + arc.sweep);
+        return {
+            type: 'ARC' as const,
+            center: arc.center,
+            radius: arc.radius,
+            startAngle: arc.sweep > 0 ? startAngle : endAngle,
+            endAngle: arc.sweep > 0 ? endAngle : startAngle,
+            color,
+            layer,
+            lineType,
+            lineWeight
+        };
+    });
+};
+
+/**
+ * Per-vertex arrays reordered for a reversed polyline: bulges change sign, widths swap
+ */
+export const reversePolylineData = (ent: LWPolylineEntity): Pick<LWPolylineEntity, 'vertices' | 'bulges' | 'startWidths' | 'endWidths'> => {
+    const n = ent.vertices.length;
+    const vertices = [...ent.vertices].reverse();
+    // Açık: segment i (i → i+1) ters çevrilince n-2-i olur; kapalı: kapanış segmenti dahil
+    const source = (i: number) => ent.closed ? (2 * n - 2 - i) % n : n - 2 - i;
+    const pick = (values: number[] | undefined, sign = 1) => values
+        ? vertices.map((_, i) => (source(i) >= 0 ? (values[source(i)] || 0) * sign : 0))
+        : undefined;
+    return {
+        vertices,
+        bulges: pick(ent.bulges, -1),
+        startWidths: ent.endWidths ? pick(ent.endWidths) : undefined,
+        endWidths: ent.startWidths ? pick(ent.startWidths) : undefined
+    };
+};
+
+export interface PolylineLocation {
+    segment: number; // Segment indeksi
+    t: number; // Segment üzerindeki parametre (0-1)
+}
+
+type PolylineData = Pick<LWPolylineEntity, 'vertices' | 'bulges' | 'startWidths' | 'endWidths'>;
+
+/**
+ * Per-vertex data for a new polyline; arrays that are all zero are left out
+ */
+export const createPolylineData = (vertices: Point[], bulges: number[] = [], startWidths: number[] = [], endWidths: number[] = []): PolylineData => {
+    const fit = (values: number[]) => vertices.map((_, i) => values[i] || 0);
+    const used = (values: number[]) => fit(values).some(v => v !== 0);
+    const wide = used(startWidths) || used(endWidths);
+    return {
+        vertices,
+        bulges: used(bulges) ? fit(bulges) : undefined,
+        startWidths: wide ? fit(startWidths) : undefined,
+        endWidths: wide ? fit(endWidths) : undefined
+    };
+};
+
+/**
+ * Open part of a polyline between two locations in drawing direction.
+ * On a closed polyline the part wraps past the last vertex when needed.
+ */
+export const extractPolylinePart = (ent: LWPolylineEntity, from: PolylineLocation, to: PolylineLocation): PolylineData | null => {
+    const segments = getPolylineSegments(ent);
+    const n = segments.length;
+    if (n === 0) return null;
+    let steps = to.segment - from.segment;
+    if (ent.closed && n > 1) {
+        steps = (steps + n) % n;
+        if (steps === 0 && to.t < from.t) steps = n;
+    }
+    if (steps < 0) return null;
+
+    const vertices: Point[] = [];
+    const bulges: number[] = [];
+    const startWidths: number[] = [];
+    const endWidths: number[] = [];
+    for (let k = 0; k <= steps; k++) {
+        const segment = segments[(from.segment + k) % n];
+        const t0 = k === 0 ? from.t : 0;
+        const t1 = k === steps ? to.t : 1;
+        if (t1 - t0 < 1e-9) continue;
+        // Parça yayın açısı kısalır: bulge = tan(θ·Δt / 4); genişlik doğrusal
+        const [w0, w1] = getSegmentWidths(ent, segment.index);
+        vertices.push(pointAtSegmentParameter(segment, t0));
+        bulges.push(Math.tan(Math.atan(segment.bulge) * (t1 - t0)));
+        startWidths.push(w0 + (w1 - w0) * t0);
+        endWidths.push(w0 + (w1 - w0) * t1);
+    }
+    if (vertices.length === 0) return null;
+    vertices.push(pointAtSegmentParameter(segments[(from.segment + steps) % n], to.t));
+    bulges.push(0);
+    startWidths.push(0);
+    endWidths.push(0);
+
+    return {
+        vertices,
+        bulges: ent.bulges ? bulges : undefined,
+        startWidths: ent.startWidths ? startWidths : undefined,
+        endWidths: ent.endWidths ? endWidths : undefined
+    };
+};
+
+// Segment üzerindeki hareket yönü (birim vektör)
+const getSegmentTangentAt = (segment: PolylineSegment, t: number): [number, number] => {
+    const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+    if (!arc) {
+        const dx = segment.end[0] - segment.start[0];
+        const dy = segment.end[1] - segment.start[1];
+        const len = Math.hypot(dx, dy) || 1;
+        return [dx / len, dy / len];
+    }
+    const a = arc.startAngle + arc.sweep * t;
+    const sign = Math.sign(arc.sweep);
+    return [-Math.sin(a) * sign, Math.cos(a) * sign];
+};
+
+/**
+ * Side of the polyline a point lies on: 1 = left of the drawing direction, -1 = right
+ */
+export const getPolylineSide = (ent: LWPolylineEntity, point: Point): 1 | -1 => {
+    const closest = closestPointOnPolyline(ent, point[0], point[1]);
+    if (!closest) return 1;
+    const segment = getPolylineSegments(ent)[closest.segmentIndex];
+    const [tx, ty] = getSegmentTangentAt(segment, getSegmentParameter(segment, point[0], point[1]));
+    const cross = tx * (point[1] - closest.point[1]) - ty * (point[0] - closest.point[0]);
+    return cross >= 0 ? 1 : -1;
+};
+
+interface OffsetEntry {
+    point: Point;
+    bulge: number;
+    widths: [number, number];
+}
+
+/**
+ * Offset a polyline by distance (positive = left of the drawing direction).
+ * Arc segments stay concentric; line-line corners are mitred, other corners are
+ * joined with a round arc on the outside. Returns null if an arc segment collapses.
+ */
+export const offsetPolyline = (ent: LWPolylineEntity, distance: number): PolylineData | null => {
+    const segments = getPolylineSegments(ent).filter(seg => Math.hypot(seg.end[0] - seg.start[0], seg.end[1] - seg.start[1]) > 1e-9);
+    if (segments.length === 0) return null;
+
+    const offsets: PolylineSegment[] = [];
+    for (const segment of segments) {
+        const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+        const z = segment.start[2] || 0;
+        if (arc) {
+            // Sola kaydırma CCW yayda merkeze yaklaşır
+            const sign = Math.sign(arc.sweep);
+            if (arc.radius - distance * sign <= 1e-9) return null;
+            const shift = (p: Point): Point => [
+                p[0] + (arc.center[0] - p[0]) / arc.radius * distance * sign,
+                p[1] + (arc.center[1] - p[1]) / arc.radius * distance * sign,
+                z
+            ];
+            offsets.push({ ...segment, start: shift(segment.start), end: shift(segment.end) });
+        } else {
+            const [tx, ty] = getSegmentTangentAt(segment, 0);
+            offsets.push({
+                ...segment,
+                start: [segment.start[0] - ty * distance, segment.start[1] + tx * distance, z],
+                end: [segment.end[0] - ty * distance, segment.end[1] + tx * distance, z]
+            });
+        }
+    }
+
+    const entry = (segment: PolylineSegment, point: Point): OffsetEntry =>
+        ({ point, bulge: segment.bulge, widths: getSegmentWidths(ent, segment.index) });
+
+    // İki ofset segmentin birleşimi; son eleman sonraki segmenti başlatır
+    const join = (prevIndex: number, nextIndex: number): OffsetEntry[] => {
+        const prev = offsets[prevIndex], next = offsets[nextIndex];
+        const a = prev.end, b = next.start;
+        if (Math.hypot(b[0] - a[0], b[1] - a[1]) < 1e-9) return [entry(next, a)];
+
+        const d1 = getSegmentTangentAt(segments[prevIndex], 1);
+        const d2 = getSegmentTangentAt(segments[nextIndex], 0);
+        const cross = d1[0] * d2[1] - d1[1] * d2[0];
+        if (Math.abs(prev.bulge) < 1e-9 && Math.abs(next.bulge) < 1e-9 && Math.abs(cross) > 1e-9) {
+            const t = ((b[0] - a[0]) * d2[1] - (b[1] - a[1]) * d2[0]) / cross;
+            return [entry(next, [a[0] + d1[0] * t, a[1] + d1[1] * t, a[2]])];
+        }
+        // Dış köşede orijinal köşe merkezli yay, iç köşede düz bağlantı
+        const vertex = segments[nextIndex].start;
+        const outer = cross * distance < 0;
+        const angle = Math.atan2(
+            (a[0] - vertex[0]) * (b[1] - vertex[1]) - (a[1] - vertex[1]) * (b[0] - vertex[0]),
+            (a[0] - vertex[0]) * (b[0] - vertex[0]) + (a[1] - vertex[1]) * (b[1] - vertex[1])
+        );
+        const w = getSegmentWidths(ent, segments[prevIndex].index)[1];
+        return [{ point: a, bulge: outer ? Math.tan(angle / 4) : 0, widths: [w, w] }, entry(next, b)];
+    };
+
+    const entries: OffsetEntry[] = [];
+    const n = offsets.length;
+    if (ent.closed && n > 1) {
+        for (let i = 0; i < n; i++) entries.push(...join((i - 1 + n) % n, i));
+    } else {
+        entries.push(entry(offsets[0], offsets[0].start));
+        for (let i = 1; i < n; i++) entries.push(...join(i - 1, i));
+        entries.push({ point: offsets[n - 1].end, bulge: 0, widths: [0, 0] });
+    }
+
+    return {
+        vertices: entries.map(e => e.point),
+        bulges: ent.bulges || entries.some(e => e.bulge !== 0) ? entries.map(e => e.bulge) : undefined,
+        startWidths: ent.startWidths ? entries.map(e => e.widths[0]) : undefined,
+        endWidths: ent.endWidths ? entries.map(e => e.widths[1]) : undefined
+    };
+};
@@ -0,0 +1,177 @@
+import { saveAs } from 'file-saver';
+import type { DrawingSheet } from '../context/DrawingContext';
+import type { Layer } from '../types/layers';
+import { DEFAULT_LAYER } from '../types/layers';
+import type { DimensionSettings } from '../types/dimensionSettings';
+import { DEFAULT_DIMENSION_SETTINGS } from '../types/dimensionSettings';
+
+/*
+ * Native project file (.cadjson)
+ *
+ * A UTF-8 JSON document:
+ * {
+ *   "format": "cad-online-project",
+ *   "schemaVersion": 2,
+ *   "savedAt": "2026-01-01T12:00:00.000Z",
+ *   "activeSheetId": "sheet_...",
+ *   "activeLayerId": "0",
+ *   "sheets": [...],            // DrawingSheet: entities, block table, constraints, parameters, units
+ *   "layers": [...],            // Layer table shared by all sheets
+ *   "dimensionSettings": {...}, // DimensionSettings used for new dimensions
+ *   "camera": {...} | null      // Viewport position/zoom of the active sheet
+ * }
+ *
+ * Older data is upgraded one version at a time by MIGRATIONS when it is opened:
+ *   0 - single drawing { entities, fileName, baseUnit, ... } (early localStorage saves)
+ *   1 - { version: "1.0", savedAt, activeSheetId, sheets } (first .cadjson files, no layers)
+ * Files written by a newer build (schemaVersion > PROJECT_SCHEMA_VERSION) are rejected.
+ */
+
+export const PROJECT_FORMAT = 'cad-online-project';
+export const PROJECT_SCHEMA_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.cadjson';
+
+// Kamera durumunun localStorage anahtarı (Scene kaydeder, proje dosyası okur)
+export const CAMERA_STATE_KEY = 'cad_app_camera_state';
+
+export interface CameraState {
+    positionX: number;
+    positionY: number;
+    zoom: number;
+    targetX: number;
+    targetY: number;
+}
+
+export interface ProjectFile {
+    format: typeof PROJECT_FORMAT;
+    schemaVersion: number;
+    savedAt: string;
+    activeSheetId: string;
+    activeLayerId: string;
+    sheets: DrawingSheet[];
+    layers: Layer[];
+    dimensionSettings: DimensionSettings;
+    camera: CameraState | null;
+}
+
+export interface ProjectReadResult {
+    project: ProjectFile | null;
+    error?: string;
+}
+
+// Şema sürümü: sürüm alanı olmayan eski veriler içeriğinden tanınır
+const getSchemaVersion = (data: any): number => {
+    if (typeof data.schemaVersion === 'number') return data.schemaVersion;
+    if (Array.isArray(data.sheets)) return 1;
+    return 0;
+};
+
+// MIGRATIONS[n]: n sürümündeki veriyi n + 1 sürümüne yükseltir
+const MIGRATIONS: Record<number, (data: any) => any> = {
+    // Tek çizim -> sayfa listesi
+    0: (data) => ({
+        version: '1.0',
+        activeSheetId: '',
+        sheets: [{
+            id: `sheet_${Date.now()}`,
+            name: data.fileName || 'Untitled.dxf',
+            entities: data.entities,
+            isModified: false,
+            baseUnit: data.baseUnit || 'mm',
+            drawingUnit: data.drawingUnit || 'mm',
+            drawingScale: data.drawingScale || '1:1',
+        }],
+    }),
+    // Katman tablosu, ölçü ayarları ve kamera eklendi
+    1: (data) => ({
+        format: PROJECT_FORMAT,
+        schemaVersion: 2,
+        savedAt: data.savedAt || new Date().toISOString(),
+        activeSheetId: data.activeSheetId || '',
+        activeLayerId: data.activeLayerId || DEFAULT_LAYER.id,
+        sheets: data.sheets,
+        layers: data.layers || [DEFAULT_LAYER],
+        dimensionSettings: { ...DEFAULT_DIMENSION_SETTINGS },
+        camera: null,
+    }),
+};
+
+/**
+ * Upgrade parsed project data of any known schema version to the current one
+ */
+export const migrateProjectData = (data: any): ProjectReadResult => {
+    if (!data || typeof data !== 'object') {
+        return { project: null, error: 'Invalid project file.' };
+    }
+    if (!Array.isArray(data.sheets) && !Array.isArray(data.entities)) {
+        return { project: null, error: 'Invalid project file: no drawing data.' };
+    }
+
+    let version = getSchemaVersion(data);
+    if (version > PROJECT_SCHEMA_VERSION) {
+        return { project: null, error: `Project file version ${version} is newer than supported version ${PROJECT_SCHEMA_VERSION}.` };
+    }
+
+    let migrated = data;
+    while (version < PROJECT_SCHEMA_VERSION) {
+        migrated = MIGRATIONS[version](migrated);
+        version++;
+    }
+
+    const sheets: DrawingSheet[] = migrated.sheets;
+    if (!Array.isArray(sheets) || sheets.length === 0) {
+        return { project: null, error: 'Invalid project file: no sheets.' };
+    }
+    const layers: Layer[] = Array.isArray(migrated.layers) && migrated.layers.length > 0 ? migrated.layers : [DEFAULT_LAYER];
+
+    return {
+        project: {
+            format: PROJECT_FORMAT,
+            schemaVersion: PROJECT_SCHEMA_VERSION,
+            savedAt: migrated.savedAt || new Date().toISOString(),
+            activeSheetId: sheets.some(sheet => sheet.id === migrated.activeSheetId) ? migrated.activeSheetId : sheets[0].id,
+            activeLayerId: layers.some(layer => layer.id === migrated.activeLayerId) ? migrated.activeLayerId : layers[0].id,
+            sheets,
+            layers,
+            dimensionSettings: { ...DEFAULT_DIMENSION_SETTINGS, ...migrated.dimensionSettings },
+            camera: migrated.camera || null,
+        },
+    };
+};
+
+/**
+ * Build a project file of the current schema version
+ */
+export const createProjectFile = (
+    data: Omit<ProjectFile, 'format' | 'schemaVersion' | 'savedAt'>
+): ProjectFile => ({
+    format: PROJECT_FORMAT,
+    schemaVersion: PROJECT_SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    ...data,
+});
+
+/**
+ * Save a project file and trigger download
+ */
+export const exportProjectFile = (project: ProjectFile, filename: string): void => {
+    const name = filename.replace(/\.(dxf|dwg|json|cadjson)$/i, '') + PROJECT_FILE_EXTENSION;
+    const blob = new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
+    saveAs(blob, name);
+};
+
+/**
+ * Camera state stored by the viewport, if any
+ */
+export const loadCameraState = (): CameraState | null => {
+    try {
+        const saved = localStorage.getItem(CAMERA_STATE_KEY);
+        if (saved) {
+            const { positionX, positionY, zoom, targetX, targetY } = JSON.parse(saved);
+            return { positionX, positionY, zoom, targetX, targetY };
+        }
+    } catch (e) {
+        console.warn('Failed to load camera state:', e);
+    }
+    return null;
+};
@@ -0,0 +1,102 @@
+import type { Entity, HatchEntity } from '../types/entities';
+import type { BlockTable } from '../types/blocks';
+import type { Layer } from '../types/layers';
+import { DEFAULT_LAYER } from '../types/layers';
+import { isBlockReference } from './blockUtils';
+
+// PURGE: kullanılmayan katman, blok tanımı, özel tarama deseni ve boş sayfaların tespiti
+
+export type PurgeItemKind = 'layer' | 'block' | 'pattern' | 'sheet';
+
+export interface PurgeItem {
+    kind: PurgeItemKind;
+    id: string; // Katman ID, blok adı, desen ID veya sayfa ID
+    name: string;
+}
+
+// Sayfanın purge için gereken kısmı (DrawingSheet ile yapısal uyumlu)
+export interface PurgeSheet {
+    id: string;
+    name: string;
+    entities: Entity[];
+    blocks?: BlockTable;
+}
+
+export interface PurgeInput {
+    sheets: PurgeSheet[];
+    activeSheetId: string;
+    layers: Layer[];
+    activeLayerId: string;
+    customPatterns: Record<string, { name: string }>;
+    editingBlockName?: string | null; // Blok editöründe açık blok silinmez
+}
+
+/**
+ * Block names referenced from the entities, directly or through nested definitions
+ */
+export const getReferencedBlockNames = (entities: Entity[], blocks: BlockTable): Set<string> => {
+    const used = new Set<string>();
+    const visit = (list: Entity[]) => {
+        list.forEach(ent => {
+            if (!isBlockReference(ent) || used.has(ent.blockName)) return;
+            used.add(ent.blockName);
+            const definition = blocks[ent.blockName];
+            if (definition) visit(definition.entities);
+        });
+    };
+    visit(entities);
+    return used;
+};
+
+// Tüm sayfalardaki entity'ler ve blok üyeleri
+const allEntities = (sheets: PurgeSheet[]): Entity[] =>
+    sheets.flatMap(sheet => [
+        ...sheet.entities,
+        ...Object.values(sheet.blocks || {}).flatMap(def => def.entities),
+    ]);
+
+/**
+ * Items that can be purged: unreferenced layers (except layer 0 and the active layer),
+ * unused block definitions of the active sheet, unused custom hatch patterns and empty sheets
+ */
+export const findPurgeableItems = (input: PurgeInput): PurgeItem[] => {
+    const items: PurgeItem[] = [];
+    const entities = allEntities(input.sheets);
+
+    // Katmanlar: entity.layer katman ID'si veya (DXF'den gelen) adı olabilir
+    const usedLayers = new Set(entities.map(ent => ent.layer));
+    input.layers.forEach(layer => {
+        if (layer.id === DEFAULT_LAYER.id || layer.id === input.activeLayerId) return;
+        if (usedLayers.has(layer.id) || usedLayers.has(layer.name)) return;
+        items.push({ kind: 'layer', id: layer.id, name: layer.name });
+    });
+
+    // Bloklar: yalnızca kullanılmayan blokların içinde geçen iç içe bloklar da kullanılmaz sayılır
+    const activeSheet = input.sheets.find(sheet => sheet.id === input.activeSheetId);
+    if (activeSheet) {
+        const blocks = activeSheet.blocks || {};
+        const used = getReferencedBlockNames(activeSheet.entities, blocks);
+        Object.keys(blocks).sort().forEach(name => {
+            if (used.has(name) || name === input.editingBlockName) return;
+            items.push({ kind: 'block', id: name, name });
+        });
+    }
+
+    // Özel tarama desenleri
+    const usedPatterns = new Set(
+        entities.filter((ent): ent is HatchEntity => ent.type === 'HATCH').map(ent => ent.pattern?.name)
+    );
+    Object.entries(input.customPatterns).forEach(([id, config]) => {
+        if (!usedPatterns.has(id)) items.push({ kind: 'pattern', id, name: config.name || id });
+    });
+
+    // Boş sayfalar (aktif sayfa hariç)
+    input.sheets.forEach(sheet => {
+        if (sheet.id === input.activeSheetId) return;
+        if (sheet.entities.length === 0 && Object.keys(sheet.blocks || {}).length === 0) {
+            items.push({ kind: 'sheet', id: sheet.id, name: sheet.name });
+        }
+    });
+
+    return items;
+};
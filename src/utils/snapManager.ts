@@ -1,5 +1,7 @@
 import type { Entity, Point } from '../types/entities';
 import type { SnapMode, SnapSettings, SnapResult } from '../types/snap';
+import { getPolylineSegments, getSegmentMidpoint, closestPointOnPolyline } from './polylineUtils';
+import { findEntityIntersections } from './intersectionUtils';
 
 /**
  * SnapManager handles object snapping (OSNAP) functionality
@@ -124,10 +126,9 @@ export class SnapManager {
       let closestMidpoint: Point | null = null;
       let minDist = Infinity;
 
-      for (let i = 0; i < entity.vertices.length - 1; i++) {
-        const v1 = entity.vertices[i];
-        const v2 = entity.vertices[i + 1];
-        const midpoint: Point = [(v1[0] + v2[0]) / 2, (v1[1] + v2[1]) / 2, (v1[2] + v2[2]) / 2];
+      // Yay segmentlerinde orta nokta yayın üzerindedir
+      for (const segment of getPolylineSegments(entity)) {
+        const midpoint = getSegmentMidpoint(segment);
         const dist = this.distance(cursor, midpoint);
         if (dist < minDist) {
           minDist = dist;
@@ -149,10 +150,11 @@ export class SnapManager {
     return null;
   }
 
-  private findIntersection(_entity: Entity, _cursor: Point): Point | null {
-    // Complex - requires entity-entity intersection tests
-    // For now, skip
-    return null;
+  private findIntersection(entity: Entity, cursor: Point): Point | null {
+    const points = this.entities
+      .filter(other => other !== entity && other.visible)
+      .flatMap(other => findEntityIntersections(entity, other).map(result => result.point));
+    return this.findClosest(points, cursor);
   }
 
   private findPerpendicular(entity: Entity, cursor: Point): Point | null {
@@ -160,20 +162,8 @@ export class SnapManager {
       return this.projectPointOnLine(cursor, entity.start, entity.end);
     }
     if (entity.type === 'LWPOLYLINE') {
-      let closestPoint: Point | null = null;
-      let minDist = Infinity;
-
-      for (let i = 0; i < entity.vertices.length - 1; i++) {
-        const foot = this.projectPointOnLine(cursor, entity.vertices[i], entity.vertices[i + 1]);
-        if (foot) {
-          const dist = this.distance(cursor, foot);
-          if (dist < minDist) {
-            minDist = dist;
-            closestPoint = foot;
-          }
-        }
-      }
-      return closestPoint;
+      // Yay segmentleri dahil en yakın dik izdüşüm
+      return closestPointOnPolyline(entity, cursor[0], cursor[1])?.point ?? null;
     }
     return null;
   }
@@ -230,20 +220,8 @@ export class SnapManager {
       ];
     }
     if (entity.type === 'LWPOLYLINE') {
-      let closestPoint: Point | null = null;
-      let minDist = Infinity;
-
-      for (let i = 0; i < entity.vertices.length - 1; i++) {
-        const foot = this.projectPointOnLine(cursor, entity.vertices[i], entity.vertices[i + 1]);
-        if (foot) {
-          const dist = this.distance(cursor, foot);
-          if (dist < minDist) {
-            minDist = dist;
-            closestPoint = foot;
-          }
-        }
-      }
-      return closestPoint;
+      // Yay segmentleri dahil en yakın dik izdüşüm
+      return closestPointOnPolyline(entity, cursor[0], cursor[1])?.point ?? null;
     }
     return null;
   }
@@ -0,0 +1,65 @@
+import type { Point, SplineEntity } from '../types/entities';
+
+type SplineDefinition = Pick<SplineEntity, 'controlPoints' | 'degree' | 'knots' | 'fitPoints'>;
+
+/**
+ * Parametric SPLINE: points are evaluated for t in [start, end]
+ */
+export interface SplineEvaluator {
+  start: number;
+  end: number;
+  at: (t: number) => Point;
+}
+
+/**
+ * Build an evaluator for a SPLINE. Control points are evaluated as a B-spline of the
+ * entity's degree (with its knot vector when valid, otherwise clamped uniform); without
+ * control points (or with fewer than 3) the points are joined by straight spans, t being
+ * the span index.
+ */
+export const createSplineEvaluator = (ent: SplineDefinition): SplineEvaluator | null => {
+  const points = ent.controlPoints?.length ? ent.controlPoints : (ent.fitPoints || []);
+  const n = points.length;
+  if (n < 2) return null;
+
+  if (n < 3 || !ent.controlPoints?.length) {
+    return {
+      start: 0,
+      end: n - 1,
+      at: (t: number) => {
+        const i = Math.max(0, Math.min(n - 2, Math.floor(t)));
+        const f = t - i;
+        const a = points[i];
+        const b = points[i + 1];
+        return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, (a[2] || 0) + ((b[2] || 0) - (a[2] || 0)) * f];
+      }
+    };
+  }
+
+  const degree = Math.max(1, Math.min(ent.degree || 3, n - 1));
+  const knots = ent.knots && ent.knots.length === n + degree + 1
+    ? ent.knots
+    : Array.from({ length: n + degree + 1 }, (_, i) => Math.min(Math.max(i - degree, 0), n - degree));
+
+  return {
+    start: knots[degree],
+    end: knots[n],
+    at: (t: number) => {
+      // Knot span: knots[k] <= t < knots[k + 1]
+      let k = degree;
+      while (k < n - 1 && t >= knots[k + 1]) k++;
+
+      // De Boor
+      const d = points.slice(k - degree, k + 1).map(p => [p[0], p[1], p[2] || 0]);
+      for (let r = 1; r <= degree; r++) {
+        for (let j = degree; j >= r; j--) {
+          const i = j + k - degree;
+          const denominator = knots[i + degree - r + 1] - knots[i];
+          const alpha = denominator === 0 ? 0 : (t - knots[i]) / denominator;
+          for (let c = 0; c < 3; c++) d[j][c] = (1 - alpha) * d[j - 1][c] + alpha * d[j][c];
+        }
+      }
+      return [d[degree][0], d[degree][1], d[degree][2]];
+    }
+  };
+};
@@ -0,0 +1,490 @@
+import { saveAs } from 'file-saver';
+import type { Entity, Point, LWPolylineEntity, HatchEntity, TableEntity, TextEntity } from '../types/entities';
+import type { BlockTable } from '../types/blocks';
+import type { Layer } from '../types/layers';
+import { DEFAULT_LAYER, getTransparencyOpacity } from '../types/layers';
+import type { SVGExportOptions, SVGDrawingData } from '../types/svg';
+import { DEFAULT_SVG_EXPORT_OPTIONS, SVG_DEFAULT_LINEWEIGHT, SVG_HATCH_LINEWEIGHT } from '../types/svg';
+import { DXF_LINETYPES } from '../types/dxf';
+import { getDimensionGraphics } from './dimensionUtils';
+import { calculateBoundingBox, sampleSpline } from './geometryUtils';
+import { getReferenceOutputMembers, isBlockReference } from './blockUtils';
+import { getPolylineSegments, bulgeToArc, hasWidths, getPolylineWidthTriangles } from './polylineUtils';
+import type { HatchPatternConfig } from './hatchPatterns';
+import { getHatchGeometry, getHatchGradientPaint, getHatchPatternConfig, isLineHatch } from './hatchGeometry';
+import type { GradientPaint } from './hatchGradient';
+
+// Özel resim desenlerinin döşeme boyu (ekrandaki doku ile aynı: 50 birim x desen ölçeği)
+const IMAGE_PATTERN_TILE = 50;
+
+// POINT işaretinin yarı boyu (çizim birimi, ekrandaki çizimle aynı)
+const POINT_SIZE = 0.5;
+
+const DEFAULT_FONT = 'Arial, Helvetica, sans-serif';
+
+/**
+ * SVGExporter writes the visible entities as a scaled SVG drawing in millimetres.
+ * Each plottable layer becomes a <g> carrying its color, lineweight and linetype.
+ */
+export class SVGExporter {
+  private options: SVGExportOptions;
+  private blocks: BlockTable = {};
+  private layers: Layer[] = [];
+  private defs: string[] = [];
+  private area: { min: Point; max: Point } = { min: [0, 0, 0], max: [0, 0, 0] }; // Çizim koordinatları
+  private origin: Point = [0, 0, 0]; // Kağıdın sol üst köşesi (çizim koordinatları)
+  private factor = 1; // Kağıt mm / çizim birimi
+
+  constructor(options: Partial<SVGExportOptions> = {}) {
+    this.options = { ...DEFAULT_SVG_EXPORT_OPTIONS, ...options };
+  }
+
+  export(entities: Entity[], data: SVGDrawingData): string {
+    this.blocks = data.blocks;
+    this.layers = data.layers ?? [];
+    this.defs = [];
+
+    const visible = entities.filter(entity => entity.visible);
+    const area = this.options.area === 'window' && this.options.window
+      ? this.normalizeBox(this.options.window.min, this.options.window.max)
+      : calculateBoundingBox(visible, this.blocks) ?? { min: [0, 0, 0] as Point, max: [0, 0, 0] as Point };
+    this.area = area;
+    const { margin } = this.options;
+    this.factor = this.options.unitSize * this.options.scale;
+    this.origin = [area.min[0] - margin / this.factor, area.max[1] + margin / this.factor, 0];
+
+    const width = (area.max[0] - area.min[0]) * this.factor + margin * 2;
+    const height = (area.max[1] - area.min[1]) * this.factor + margin * 2;
+
+    // Blok üyeleri kendi katmanlarına dağıtılır; 0 katmanındakiler referansın katmanını alır
+    const byLayer = new Map<string, string[]>();
+    const add = (layerId: string, element: string) => {
+      if (!element) return;
+      if (!byLayer.has(layerId)) byLayer.set(layerId, []);
+      byLayer.get(layerId)!.push(element);
+    };
+    visible.forEach(entity => {
+      if (isBlockReference(entity)) {
+        getReferenceOutputMembers(entity, this.blocks).forEach(member => add(member.layer, this.withTransparency(member, this.buildEntity(member))));
+      } else {
+        add(entity.layer, this.withTransparency(entity, this.buildEntity(entity)));
+      }
+    });
+
+    const groups: string[] = [];
+    const layerOrder = [...this.layers.map(layer => layer.id), ...[...byLayer.keys()].filter(id => !this.layers.some(layer => layer.id === id))];
+    layerOrder.forEach(layerId => {
+      const elements = byLayer.get(layerId);
+      const layer = this.getLayer(layerId);
+      if (!elements || !layer.visible || layer.frozen || layer.plot === false) return;
+      groups.push(this.buildLayerGroup(layer, elements));
+    });
+
+    const svg: string[] = [];
+    svg.push('<?xml version="1.0" encoding="UTF-8" standalone="no"?>');
+    svg.push(`<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" width="${this.num(width)}mm" height="${this.num(height)}mm" viewBox="0 0 ${this.num(width)} ${this.num(height)}">`);
+    if (this.defs.length > 0) svg.push('<defs>', ...this.defs, '</defs>');
+    if (this.options.background) {
+      svg.push(`<rect width="${this.num(width)}" height="${this.num(height)}" fill="${this.options.background}"/>`);
+    }
+    svg.push(...groups);
+    svg.push('</svg>');
+
+    return svg.join('\n');
+  }
+
+  private buildLayerGroup(layer: Layer, elements: string[]): string {
+    const attrs = [
+      `id="${this.escape(this.elementId('layer', layer.name))}"`,
+      `inkscape:groupmode="layer"`,
+      `inkscape:label="${this.escape(layer.name)}"`,
+      `color="${this.plotColor(layer.color)}"`,
+      'stroke="currentColor"',
+      'fill="none"',
+      `stroke-width="${this.num(layer.lineweight > 0 ? layer.lineweight : SVG_DEFAULT_LINEWEIGHT)}"`,
+      'stroke-linecap="round"',
+      'stroke-linejoin="round"',
+    ];
+    const dash = this.dashArray(layer.linetype);
+    if (dash) attrs.push(`stroke-dasharray="${dash}"`);
+    return [`<g ${attrs.join(' ')}>`, ...elements, '</g>'].join('\n');
+  }
+
+  // Nesne (yoksa katman) saydamlığı tüm nesneye grup opaklığı olarak uygulanır
+  private withTransparency(entity: Entity, element: string): string {
+    const opacity = getTransparencyOpacity(entity.transparency, this.getLayer(entity.layer));
+    return element && opacity < 1 ? `<g opacity="${this.num(opacity)}">${element}</g>` : element;
+  }
+
+  private buildEntity(entity: Entity): string {
+    switch (entity.type) {
+      case 'LINE':
+        return `<line x1="${this.x(entity.start)}" y1="${this.y(entity.start)}" x2="${this.x(entity.end)}" y2="${this.y(entity.end)}"${this.style(entity)}/>`;
+      case 'LWPOLYLINE':
+        return this.buildPolyline(entity);
+      case 'CIRCLE':
+        return `<circle cx="${this.x(entity.center)}" cy="${this.y(entity.center)}" r="${this.len(entity.radius)}"${this.style(entity)}/>`;
+      case 'ARC': {
+        let sweep = entity.endAngle - entity.startAngle;
+        if (sweep <= 0) sweep += Math.PI * 2;
+        return `<path d="${this.arcPath(entity.center, entity.radius, entity.startAngle, sweep)}"${this.style(entity)}/>`;
+      }
+      case 'ELLIPSE': {
+        const cx = this.x(entity.center);
+        const cy = this.y(entity.center);
+        const rotation = this.num(-(entity.rotation || 0) * 180 / Math.PI);
+        return `<ellipse cx="${cx}" cy="${cy}" rx="${this.len(entity.rx)}" ry="${this.len(entity.ry)}" transform="rotate(${rotation} ${cx} ${cy})"${this.style(entity)}/>`;
+      }
+      case 'POINT': {
+        const p = entity.position;
+        const d = `M${this.xy([p[0] - POINT_SIZE, p[1], 0])}H${this.x([p[0] + POINT_SIZE, 0, 0])}M${this.xy([p[0], p[1] - POINT_SIZE, 0])}V${this.y([0, p[1] + POINT_SIZE, 0])}`;
+        return `<path d="${d}"${this.style(entity)}/>`;
+      }
+      case 'SPLINE': {
+        const points = sampleSpline(entity);
+        if (points.length < 2) return '';
+        return `<path d="${this.pointsPath(points, entity.closed)}"${this.style(entity)}/>`;
+      }
+      case 'RAY':
+      case 'XLINE':
+        return this.buildRay(entity.type, entity.origin, entity.direction, entity);
+      case 'DONUT': {
+        const { center, innerRadius, outerRadius } = entity;
+        const d = this.circlePath(center, outerRadius) + (innerRadius > 0 ? this.circlePath(center, innerRadius) : '');
+        return `<path d="${d}" fill="currentColor" fill-rule="evenodd" stroke="none"${this.colorAttr(entity.color)}/>`;
+      }
+      case 'TEXT':
+        return this.buildText(entity);
+      case 'DIMENSION':
+        return this.buildDimension(entity);
+      case 'HATCH':
+        return this.buildHatch(entity);
+      case 'TABLE':
+        return this.buildTable(entity);
+      default:
+        console.warn(`Unsupported entity type for SVG export: ${(entity as Entity).type}`);
+        return '';
+    }
+  }
+
+  private buildPolyline(entity: LWPolylineEntity): string {
+    if (entity.vertices.length < 2) return '';
+    // Genişlikli polyline'lar dolu şekil olarak çizilir
+    if (hasWidths(entity)) {
+      const triangles = getPolylineWidthTriangles(entity);
+      const d: string[] = [];
+      for (let i = 0; i + 8 < triangles.length; i += 9) {
+        d.push(`M${this.xy([triangles[i], triangles[i + 1], 0])}L${this.xy([triangles[i + 3], triangles[i + 4], 0])}L${this.xy([triangles[i + 6], triangles[i + 7], 0])}Z`);
+      }
+      return `<path d="${d.join('')}" fill="currentColor" stroke="none"${this.colorAttr(entity.color)}/>`;
+    }
+    return `<path d="${this.polylinePath(entity)}"${this.style(entity)}/>`;
+  }
+
+  private buildRay(type: 'RAY' | 'XLINE', origin: Point, direction: Point, entity: Entity): string {
+    // Alanı her durumda aşacak uzunlukta çizilir, görünüm kutusu kırpar
+    const length = Math.hypot(direction[0], direction[1]) || 1;
+    const [dx, dy] = [direction[0] / length, direction[1] / length];
+    const { min, max } = this.area;
+    const reach = Math.hypot(origin[0] - (min[0] + max[0]) / 2, origin[1] - (min[1] + max[1]) / 2)
+      + Math.hypot(max[0] - min[0], max[1] - min[1]) + (this.options.margin * 2) / this.factor;
+    const start: Point = type === 'XLINE' ? [origin[0] - dx * reach, origin[1] - dy * reach, 0] : origin;
+    const end: Point = [origin[0] + dx * reach, origin[1] + dy * reach, 0];
+    return `<line x1="${this.x(start)}" y1="${this.y(start)}" x2="${this.x(end)}" y2="${this.y(end)}"${this.style(entity)}/>`;
+  }
+
+  private buildText(entity: TextEntity): string {
+    if (!entity.text) return '';
+    const anchor = entity.justification === 'center' || entity.justification === 'middle' ? 'middle'
+      : entity.justification === 'right' ? 'end' : 'start';
+    const style = entity.textStyle;
+    const attrs = [
+      `font-family="${this.escape(style?.fontFamily || DEFAULT_FONT)}"`,
+      style?.fontWeight === 'bold' ? 'font-weight="bold"' : '',
+      style?.fontStyle === 'italic' ? 'font-style="italic"' : '',
+      anchor !== 'start' ? `text-anchor="${anchor}"` : '',
+    ].filter(Boolean).join(' ');
+    return this.textElement(entity.position, entity.height, entity.text, entity.rotation || 0, `${attrs}${this.colorAttr(entity.color)}`);
+  }
+
+  private buildDimension(entity: Extract<Entity, { type: 'DIMENSION' }>): string {
+    const graphics = getDimensionGraphics(entity);
+    const parts: string[] = [];
+    const d = [
+      ...graphics.lines.map(([p1, p2]) => `M${this.xy(p1)}L${this.xy(p2)}`),
+      ...graphics.arcs.map(arc => this.arcPath(arc.center, arc.radius, arc.startAngle, arc.endAngle - arc.startAngle)),
+    ].join('');
+    if (d) parts.push(`<path d="${d}"/>`);
+    if (graphics.arrows.length > 0) {
+      const arrows = graphics.arrows.map(([tip, left, right]) => `M${this.xy(tip)}L${this.xy(left)}L${this.xy(right)}Z`).join('');
+      parts.push(`<path d="${arrows}" fill="currentColor" stroke="none"/>`);
+    }
+    graphics.texts.forEach(text => {
+      if (text.text) parts.push(this.textElement(text.position, text.height, text.text, text.rotation, `font-family="${DEFAULT_FONT}" text-anchor="middle" dominant-baseline="middle"`));
+    });
+    return `<g${this.style(entity)}>${parts.join('')}</g>`;
+  }
+
+  private buildHatch(entity: HatchEntity): string {
+    const paths = [entity.boundary, ...(entity.islands || [])].filter(path => path?.vertices?.length >= 3);
+    if (paths.length === 0) return '';
+    const d = paths.map(path => this.polylinePath({ ...path, closed: true })).join('');
+    const config = getHatchPatternConfig(entity);
+
+    if (config.type === 'custom_image') {
+      const opacity = entity.opacity !== undefined && entity.opacity < 1 ? ` fill-opacity="${this.num(entity.opacity)}"` : '';
+      return `<path d="${d}" fill="url(#${this.buildImagePattern(entity, config)})" fill-rule="evenodd" stroke="none"${opacity}/>`;
+    }
+    const paint = getHatchGradientPaint(entity);
+    if (paint) {
+      const opacity = entity.opacity !== undefined && entity.opacity < 1 ? ` fill-opacity="${this.num(entity.opacity)}"` : '';
+      return `<path d="${d}" fill="url(#${this.buildGradient(paint)})" fill-rule="evenodd" stroke="none"${opacity}/>`;
+    }
+    if (!isLineHatch(entity)) {
+      const opacity = entity.opacity !== undefined && entity.opacity < 1 ? ` fill-opacity="${this.num(entity.opacity)}"` : '';
+      return `<path d="${d}" fill="currentColor" fill-rule="evenodd" stroke="none"${opacity}${this.colorAttr(entity.color)}/>`;
+    }
+
+    // Desen çizgileri gerçek vektör olarak; noktalar yuvarlak uçlu sıfır boylu alt yollar
+    const { lines, dots } = getHatchGeometry(entity);
+    const opacity = entity.opacity !== undefined && entity.opacity < 1 ? ` stroke-opacity="${this.num(entity.opacity)}"` : '';
+    const parts: string[] = [];
+    if (lines.length > 0) {
+      parts.push(`<path d="${lines.map(([a, b]) => `M${this.xy(a)}L${this.xy(b)}`).join('')}"/>`);
+    }
+    if (dots.length > 0) {
+      parts.push(`<path d="${dots.map(dot => `M${this.xy(dot)}h0`).join('')}" stroke-linecap="round"/>`);
+    }
+    if (parts.length === 0) return '';
+    return `<g fill="none" stroke-width="${SVG_HATCH_LINEWEIGHT}" stroke-dasharray="none"${opacity}${this.colorAttr(entity.color)}>${parts.join('')}</g>`;
+  }
+
+  // Resim deseni döşemesi kağıt koordinatlarında
+  private buildImagePattern(entity: HatchEntity, config: HatchPatternConfig): string {
+    const id = `hatch-${this.defs.length + 1}`;
+    const angle = (entity.rotation || 0) * 180 / Math.PI;
+    const size = IMAGE_PATTERN_TILE * (entity.scale || 1) * this.factor;
+    const content = config.imageData ? `<image href="${config.imageData}" width="${this.num(size)}" height="${this.num(size)}"/>` : '';
+    // Kağıtta y aşağı doğru; saat yönü tersine açı negatif döndürmedir
+    this.defs.push(`<pattern id="${id}" patternUnits="userSpaceOnUse" width="${this.num(size)}" height="${this.num(size)}" patternTransform="rotate(${this.num(-angle)})">${content}</pattern>`);
+    return id;
+  }
+
+  // Gradyan kağıt koordinatlarında; uçların dışı uç renkleriyle dolar
+  private buildGradient(paint: GradientPaint): string {
+    const id = `gradient-${this.defs.length + 1}`;
+    const stops = paint.stops.map(stop => `<stop offset="${this.num(stop.offset)}" stop-color="${stop.color}"/>`).join('');
+    this.defs.push(paint.kind === 'radial'
+      ? `<radialGradient id="${id}" gradientUnits="userSpaceOnUse" cx="${this.x(paint.start)}" cy="${this.y(paint.start)}" r="${this.len(paint.radius)}">${stops}</radialGradient>`
+      : `<linearGradient id="${id}" gradientUnits="userSpaceOnUse" x1="${this.x(paint.start)}" y1="${this.y(paint.start)}" x2="${this.x(paint.end)}" y2="${this.y(paint.end)}">${stops}</linearGradient>`);
+    return id;
+  }
+
+  // Tablo döndürülmemiş olarak çizilip sol üst köşe etrafında döndürülür (ekrandaki çizimle aynı düzen)
+  private buildTable(entity: TableEntity): string {
+    const { position, rows, cols, rowHeight, colWidth, cellData, cellStyles, headerRow } = entity;
+    const [px, py] = [position[0], position[1]];
+    const parts: string[] = [];
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const background = cellStyles?.[row]?.[col]?.backgroundColor;
+        if (background) {
+          parts.push(`<rect x="${this.x([px + col * colWidth, 0, 0])}" y="${this.y([0, py - row * rowHeight, 0])}" width="${this.len(colWidth)}" height="${this.len(rowHeight)}" fill="${background}" stroke="none"/>`);
+        }
+      }
+    }
+
+    const grid: string[] = [];
+    for (let i = 0; i <= rows; i++) {
+      if (headerRow && i === 1) continue;
+      grid.push(`M${this.xy([px, py - i * rowHeight, 0])}H${this.x([px + cols * colWidth, 0, 0])}`);
+    }
+    for (let j = 0; j <= cols; j++) {
+      grid.push(`M${this.xy([px + j * colWidth, py, 0])}V${this.y([0, py - rows * rowHeight, 0])}`);
+    }
+    parts.push(`<path d="${grid.join('')}"/>`);
+    if (headerRow && rows > 0) {
+      parts.push(`<path d="M${this.xy([px, py - rowHeight, 0])}H${this.x([px + cols * colWidth, 0, 0])}" stroke-width="${this.num(SVG_DEFAULT_LINEWEIGHT * 2)}"/>`);
+    }
+
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const text = cellData?.[row]?.[col];
+        if (!text) continue;
+        const style = cellStyles?.[row]?.[col];
+        const alignment = style?.alignment || 'center';
+        const x = alignment === 'left' ? px + col * colWidth + colWidth * 0.05
+          : alignment === 'right' ? px + (col + 1) * colWidth - colWidth * 0.05
+            : px + col * colWidth + colWidth / 2;
+        const attrs = [
+          `font-family="${DEFAULT_FONT}"`,
+          `text-anchor="${alignment === 'left' ? 'start' : alignment === 'right' ? 'end' : 'middle'}"`,
+          'dominant-baseline="middle"',
+          style?.fontWeight === 'bold' || (headerRow && row === 0) ? 'font-weight="bold"' : '',
+        ].filter(Boolean).join(' ');
+        parts.push(this.textElement([x, py - row * rowHeight - rowHeight / 2, 0], style?.textHeight || rowHeight * 0.6, text, 0, `${attrs}${this.colorAttr(style?.textColor)}`));
+      }
+    }
+
+    const rotation = entity.rotation ? ` transform="rotate(${this.num(-entity.rotation * 180 / Math.PI)} ${this.x(position)} ${this.y(position)})"` : '';
+    return `<g${rotation}${this.style(entity)}>${parts.join('')}</g>`;
+  }
+
+  // Metin: taban çizgisi konumda, döndürme konum etrafında
+  private textElement(position: Point, height: number, text: string, rotation: number, attrs: string): string {
+    const x = this.x(position);
+    const y = this.y(position);
+    const transform = rotation ? ` transform="rotate(${this.num(-rotation * 180 / Math.PI)} ${x} ${y})"` : '';
+    const lines = text.split('\n');
+    const content = lines.length === 1
+      ? this.escape(text)
+      : lines.map((line, i) => `<tspan x="${x}" dy="${i === 0 ? 0 : this.len(height * 1.5)}">${this.escape(line)}</tspan>`).join('');
+    return `<text x="${x}" y="${y}" font-size="${this.len(height)}" fill="currentColor" stroke="none"${transform} ${attrs}>${content}</text>`;
+  }
+
+  private polylinePath(entity: Pick<LWPolylineEntity, 'vertices' | 'closed' | 'bulges'>): string {
+    const d: string[] = [`M${this.xy(entity.vertices[0])}`];
+    getPolylineSegments(entity).forEach(segment => {
+      const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+      if (!arc) {
+        d.push(`L${this.xy(segment.end)}`);
+        return;
+      }
+      // y ekseni ters döndüğü için CCW yay SVG'de sweep-flag 0 olur
+      const large = Math.abs(arc.sweep) > Math.PI ? 1 : 0;
+      const sweepFlag = arc.sweep > 0 ? 0 : 1;
+      d.push(`A${this.len(arc.radius)} ${this.len(arc.radius)} 0 ${large} ${sweepFlag} ${this.xy(segment.end)}`);
+    });
+    if (entity.closed) d.push('Z');
+    return d.join('');
+  }
+
+  private pointsPath(points: Point[], closed: boolean): string {
+    return `M${points.map(p => this.xy(p)).join('L')}${closed ? 'Z' : ''}`;
+  }
+
+  // Saat yönü tersine yay (sweep > 0); tam daire iki yarım yay olarak yazılır
+  private arcPath(center: Point, radius: number, startAngle: number, sweep: number): string {
+    if (sweep >= Math.PI * 2 - 1e-9) return this.circlePath(center, radius);
+    const start = this.polar(center, radius, startAngle);
+    const end = this.polar(center, radius, startAngle + sweep);
+    const r = this.len(radius);
+    return `M${this.xy(start)}A${r} ${r} 0 ${sweep > Math.PI ? 1 : 0} 0 ${this.xy(end)}`;
+  }
+
+  private circlePath(center: Point, radius: number): string {
+    const r = this.len(radius);
+    const left = this.polar(center, radius, Math.PI);
+    const right = this.polar(center, radius, 0);
+    return `M${this.xy(right)}A${r} ${r} 0 1 0 ${this.xy(left)}A${r} ${r} 0 1 0 ${this.xy(right)}Z`;
+  }
+
+  // Katmandan farklı renk, kalınlık veya çizgi tipi olan entity'lerin öznitelikleri
+  private style(entity: Entity): string {
+    const attrs: string[] = [];
+    if (entity.lineWeight && entity.lineWeight > 0) attrs.push(`stroke-width="${this.num(entity.lineWeight)}"`);
+    if (entity.lineType && entity.lineType.toUpperCase() !== 'BYLAYER') {
+      attrs.push(`stroke-dasharray="${this.dashArray(entity.lineType) || 'none'}"`);
+    }
+    return (attrs.length > 0 ? ' ' + attrs.join(' ') : '') + this.colorAttr(entity.color);
+  }
+
+  private colorAttr(color: string | undefined): string {
+    if (!color || color.toUpperCase() === 'BYLAYER' || color.toUpperCase() === 'BYBLOCK') return '';
+    return ` color="${this.plotColor(color)}"`;
+  }
+
+  // Beyaz (ACI 7) açık arka planda siyah çizilir
+  private plotColor(color: string): string {
+    const background = this.options.background;
+    if (color.toLowerCase() !== '#ffffff' || (background && !this.isLight(background))) return color;
+    return '#000000';
+  }
+
+  private isLight(color: string): boolean {
+    const value = parseInt(color.replace('#', ''), 16);
+    if (isNaN(value)) return true;
+    return ((value >> 16) & 0xff) * 0.299 + ((value >> 8) & 0xff) * 0.587 + (value & 0xff) * 0.114 > 128;
+  }
+
+  // DXF çizgi tipi desenleri (mm) kağıt üzerinde aynı boyla kullanılır; nokta kısa çizgi olur
+  private dashArray(linetype: string | undefined): string {
+    const pattern = DXF_LINETYPES[(linetype || '').toUpperCase()]?.pattern;
+    if (!pattern || pattern.length === 0) return '';
+    return pattern.map(value => this.num(value === 0 ? SVG_HATCH_LINEWEIGHT : Math.abs(value))).join(' ');
+  }
+
+  private getLayer(id: string): Layer {
+    return this.layers.find(layer => layer.id === id) ?? { ...DEFAULT_LAYER, id, name: id };
+  }
+
+  private normalizeBox(a: Point, b: Point): { min: Point; max: Point } {
+    return {
+      min: [Math.min(a[0], b[0]), Math.min(a[1], b[1]), 0],
+      max: [Math.max(a[0], b[0]), Math.max(a[1], b[1]), 0],
+    };
+  }
+
+  private polar(center: Point, radius: number, angle: number): Point {
+    return [center[0] + Math.cos(angle) * radius, center[1] + Math.sin(angle) * radius, 0];
+  }
+
+  private x(point: Point): string {
+    return this.num((point[0] - this.origin[0]) * this.factor);
+  }
+
+  private y(point: Point): string {
+    return this.num((this.origin[1] - point[1]) * this.factor);
+  }
+
+  private xy(point: Point): string {
+    return `${this.x(point)} ${this.y(point)}`;
+  }
+
+  private len(value: number): string {
+    return this.num(value * this.factor);
+  }
+
+  private num(value: number): string {
+    return String(Number(value.toFixed(this.options.precision)));
+  }
+
+  private elementId(prefix: string, name: string): string {
+    return `${prefix}-${name.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
+
+/**
+ * Export entities to an SVG file and trigger download
+ */
+export const exportSVG = (
+  entities: Entity[],
+  filename: string = 'drawing.svg',
+  options: Partial<SVGExportOptions> = {},
+  data: SVGDrawingData
+): void => {
+  const svg = new SVGExporter(options).export(entities, data);
+  const blob = new Blob([svg], { type: 'image/svg+xml;charset=utf-8' });
+  saveAs(blob, filename.replace(/\.(dxf|dwg|cadjson|svg)$/i, '') + '.svg');
+};
+
+/**
+ * Export entities to an SVG string
+ */
+export const exportSVGToString = (
+  entities: Entity[],
+  options: Partial<SVGExportOptions> = {},
+  data: SVGDrawingData
+): string => {
+  return new SVGExporter(options).export(entities, data);
+};
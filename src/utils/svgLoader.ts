@@ -0,0 +1,838 @@
+import type { Entity, BaseEntity, Point, TextEntity } from '../types/entities';
+import type { BlockTable } from '../types/blocks';
+import type { Layer } from '../types/layers';
+import { DEFAULT_LAYER } from '../types/layers';
+import { createPolylineData } from './polylineUtils';
+import type { DXFImportReport } from './dxfLoader';
+
+interface SVGImportResult {
+  entities: Entity[];
+  blocks: BlockTable;
+  layers: Layer[]; // Gruplardan oluşan katmanlar; entity.layer katman adını taşır
+  errors: string[];
+  warnings: string[];
+  report: DXFImportReport;
+}
+
+// 2B afin dönüşüm [a, b, c, d, e, f]: x' = a*x + c*y + e, y' = b*x + d*y + f
+type Matrix = [number, number, number, number, number, number];
+type Vec2 = [number, number];
+
+type PathSegment =
+  | { type: 'line'; to: Vec2 }
+  | { type: 'cubic'; c1: Vec2; c2: Vec2; to: Vec2 }
+  | { type: 'arc'; rx: number; ry: number; rotation: number; largeArc: boolean; sweep: boolean; to: Vec2 };
+
+interface SubPath {
+  start: Vec2;
+  segments: PathSegment[];
+  closed: boolean;
+}
+
+// Miras alınan sunum özellikleri (stroke, fill, color, font-size, text-anchor, visibility)
+type StyleProperties = Record<string, string>;
+
+interface ImportContext {
+  result: SVGImportResult;
+  rules: Record<string, StyleProperties>; // <style> içindeki tag, .class ve #id kuralları
+  ids: Map<string, Element>;
+  inkscapeLayers: boolean; // Inkscape katmanları varsa yalnızca onlar katman olur
+  groupCount: number;
+  useDepth: number;
+}
+
+interface WalkState {
+  matrix: Matrix;
+  style: StyleProperties;
+  layer: string;
+  layerColor: string;
+}
+
+type CommonProperties = Pick<BaseEntity, 'color' | 'layer' | 'visible' | 'locked'>;
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Kullanıcı birimi CSS pikseli kabul edilir (96 dpi)
+const PX_TO_MM = 25.4 / 96;
+const UNIT_TO_PX: Record<string, number> = { px: 1, mm: 96 / 25.4, cm: 96 / 2.54, in: 96, pt: 96 / 72, pc: 16, em: 16, ex: 8 };
+
+const INHERITED_PROPERTIES = ['stroke', 'fill', 'color', 'font-size', 'text-anchor', 'visibility'];
+
+// Çizilmeyen veya yalnızca <use> ile çizilen elemanlar sessizce atlanır
+const NON_RENDERED_ELEMENTS = new Set([
+  'defs', 'symbol', 'clipPath', 'mask', 'pattern', 'marker', 'linearGradient', 'radialGradient',
+  'filter', 'style', 'title', 'desc', 'metadata', 'script',
+]);
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000', white: '#ffffff', red: '#ff0000', green: '#008000', lime: '#00ff00', blue: '#0000ff',
+  yellow: '#ffff00', cyan: '#00ffff', aqua: '#00ffff', magenta: '#ff00ff', fuchsia: '#ff00ff',
+  gray: '#808080', grey: '#808080', silver: '#c0c0c0', maroon: '#800000', olive: '#808000',
+  navy: '#000080', purple: '#800080', teal: '#008080', orange: '#ffa500',
+};
+
+const NUMBER_PATTERN = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/g;
+
+/**
+ * Parse SVG file content and convert to internal entity format (coordinates in millimetres)
+ */
+export const parseSvg = (fileContent: string): SVGImportResult => {
+  const result: SVGImportResult = {
+    entities: [],
+    blocks: {},
+    layers: [{ ...DEFAULT_LAYER }],
+    errors: [],
+    warnings: [],
+    report: { imported: {}, skipped: {}, blockCount: 0, warnings: [] },
+  };
+  result.report.warnings = result.warnings;
+
+  try {
+    const doc = new DOMParser().parseFromString(fileContent, 'image/svg+xml');
+    const root = doc.documentElement;
+    if (doc.getElementsByTagName('parsererror').length > 0 || !root || root.localName !== 'svg') {
+      result.errors.push('Failed to parse SVG file');
+      return result;
+    }
+
+    const ctx: ImportContext = {
+      result,
+      rules: readStyleRules(doc),
+      ids: new Map(),
+      inkscapeLayers: false,
+      groupCount: 0,
+      useDepth: 0,
+    };
+    collectIds(root, ctx);
+
+    walkChildren(root, ctx, {
+      matrix: rootMatrix(root),
+      style: {},
+      layer: DEFAULT_LAYER.name,
+      layerColor: DEFAULT_LAYER.color,
+    });
+  } catch (e) {
+    result.errors.push(`SVG Parse Error: ${e}`);
+  }
+
+  return result;
+};
+
+/**
+ * viewBox → mm dönüşümü; SVG'nin aşağı doğru y ekseni çizimde yukarı çevrilir
+ */
+const rootMatrix = (root: Element): Matrix => {
+  const viewBox = parseNumbers(root.getAttribute('viewBox'));
+  const width = parseLength(root.getAttribute('width'));
+  const height = parseLength(root.getAttribute('height'));
+
+  if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    const [minX, minY, vbWidth, vbHeight] = viewBox;
+    // preserveAspectRatio varsayılanı (meet): tek tip ölçek
+    const scales = [width / vbWidth, height / vbHeight].filter(s => Number.isFinite(s) && s > 0);
+    const scale = (scales.length > 0 ? Math.min(...scales) : 1) * PX_TO_MM;
+    return [scale, 0, 0, -scale, -minX * scale, (minY + vbHeight) * scale];
+  }
+
+  return [PX_TO_MM, 0, 0, -PX_TO_MM, 0, (Number.isFinite(height) ? height : 0) * PX_TO_MM];
+};
+
+const collectIds = (element: Element, ctx: ImportContext): void => {
+  const id = element.getAttribute('id');
+  if (id) ctx.ids.set(id, element);
+  if (element.localName === 'g' && element.getAttribute('inkscape:groupmode') === 'layer') ctx.inkscapeLayers = true;
+  Array.from(element.children).forEach(child => collectIds(child, ctx));
+};
+
+const walkChildren = (element: Element, ctx: ImportContext, state: WalkState): void => {
+  Array.from(element.children).forEach(child => walkElement(child, ctx, state));
+};
+
+const walkElement = (element: Element, ctx: ImportContext, parent: WalkState, extraTransform: Matrix = IDENTITY): void => {
+  const name = element.localName;
+  // Ad alanlı düzenleyici elemanları (sodipodi:namedview vb.)
+  if (element.tagName.includes(':') || NON_RENDERED_ELEMENTS.has(name)) return;
+
+  const own = elementStyle(element, ctx);
+  if (own.display === 'none') return;
+
+  const style = { ...parent.style };
+  INHERITED_PROPERTIES.forEach(property => {
+    if (own[property] !== undefined && own[property] !== 'inherit') style[property] = own[property];
+  });
+
+  const state: WalkState = {
+    ...parent,
+    matrix: multiply(multiply(parent.matrix, extraTransform), parseTransform(element.getAttribute('transform'))),
+    style,
+  };
+
+  switch (name) {
+    case 'g':
+      if (!ctx.inkscapeLayers || element.getAttribute('inkscape:groupmode') === 'layer') {
+        enterLayer(element, ctx, state);
+      }
+      walkChildren(element, ctx, state);
+      return;
+    case 'svg':
+      // İç içe svg kendi konumunda bir grup gibi ele alınır
+      state.matrix = multiply(state.matrix, [1, 0, 0, 1, attr(element, 'x'), attr(element, 'y')]);
+      walkChildren(element, ctx, state);
+      return;
+    case 'a':
+    case 'switch':
+      walkChildren(element, ctx, state);
+      return;
+    case 'use':
+      convertUse(element, ctx, state);
+      return;
+  }
+
+  if (style.visibility === 'hidden') return;
+
+  const entities = convertShape(element, state);
+  if (entities === null) {
+    ctx.result.report.skipped[name] = (ctx.result.report.skipped[name] || 0) + 1;
+    return;
+  }
+  if (entities.length > 0) {
+    ctx.result.report.imported[name] = (ctx.result.report.imported[name] || 0) + 1;
+    ctx.result.entities.push(...entities);
+  }
+};
+
+/**
+ * Grup bir katmana karşılık gelir: Inkscape etiketi, id veya sıra numarasıyla adlandırılır
+ */
+const enterLayer = (element: Element, ctx: ImportContext, state: WalkState): void => {
+  ctx.groupCount++;
+  const name = (element.getAttribute('inkscape:label') || element.getAttribute('id') || `Group ${ctx.groupCount}`).trim();
+  let layer = ctx.result.layers.find(l => l.name.toLowerCase() === name.toLowerCase());
+  if (!layer) {
+    layer = { ...DEFAULT_LAYER, id: name, name, color: styleColor(state.style) || DEFAULT_LAYER.color };
+    ctx.result.layers.push(layer);
+  }
+  state.layer = layer.name;
+  state.layerColor = layer.color;
+};
+
+const convertUse = (element: Element, ctx: ImportContext, state: WalkState): void => {
+  const href = element.getAttribute('href') || element.getAttribute('xlink:href') || '';
+  const target = href.startsWith('#') ? ctx.ids.get(href.slice(1)) : undefined;
+  if (!target || ctx.useDepth > 16) {
+    ctx.result.warnings.push(`<use> reference "${href}" could not be resolved`);
+    return;
+  }
+
+  ctx.useDepth++;
+  const offset: Matrix = [1, 0, 0, 1, attr(element, 'x'), attr(element, 'y')];
+  if (target.localName === 'symbol') {
+    walkChildren(target, ctx, { ...state, matrix: multiply(state.matrix, offset) });
+  } else {
+    walkElement(target, ctx, state, offset);
+  }
+  ctx.useDepth--;
+};
+
+/**
+ * Convert a shape element; returns null when the element type is not supported
+ */
+const convertShape = (element: Element, state: WalkState): Entity[] | null => {
+  const m = state.matrix;
+  const color = styleColor(state.style);
+  const common: CommonProperties = {
+    color: !color || color === state.layerColor ? 'BYLAYER' : color,
+    layer: state.layer,
+    visible: true,
+    locked: false,
+  };
+
+  switch (element.localName) {
+    case 'path':
+      return pathEntities(parsePath(element.getAttribute('d') || ''), m, common);
+
+    case 'rect': {
+      const x = attr(element, 'x');
+      const y = attr(element, 'y');
+      const w = attr(element, 'width');
+      const h = attr(element, 'height');
+      if (w <= 0 || h <= 0) return [];
+      // rx/ry yalnızca biri verilmişse diğeri de aynı kabul edilir
+      let rx = element.hasAttribute('rx') ? attr(element, 'rx') : attr(element, 'ry');
+      let ry = element.hasAttribute('ry') ? attr(element, 'ry') : rx;
+      rx = Math.min(Math.max(rx, 0), w / 2);
+      ry = Math.min(Math.max(ry, 0), h / 2);
+      const d = rx > 0 && ry > 0
+        ? `M${x + rx},${y} H${x + w - rx} A${rx},${ry} 0 0 1 ${x + w},${y + ry} V${y + h - ry} A${rx},${ry} 0 0 1 ${x + w - rx},${y + h}`
+          + ` H${x + rx} A${rx},${ry} 0 0 1 ${x},${y + h - ry} V${y + ry} A${rx},${ry} 0 0 1 ${x + rx},${y} Z`
+        : `M${x},${y} H${x + w} V${y + h} H${x} Z`;
+      return pathEntities(parsePath(d), m, common);
+    }
+
+    case 'circle': {
+      const r = attr(element, 'r');
+      return r > 0 ? [ellipseEntity([attr(element, 'cx'), attr(element, 'cy')], r, r, m, common)] : [];
+    }
+
+    case 'ellipse': {
+      const rx = attr(element, 'rx');
+      const ry = attr(element, 'ry');
+      return rx > 0 && ry > 0 ? [ellipseEntity([attr(element, 'cx'), attr(element, 'cy')], rx, ry, m, common)] : [];
+    }
+
+    case 'line':
+      return [{
+        id: generateId(),
+        type: 'LINE',
+        start: transformPoint(m, [attr(element, 'x1'), attr(element, 'y1')]),
+        end: transformPoint(m, [attr(element, 'x2'), attr(element, 'y2')]),
+        ...common,
+      }];
+
+    case 'polyline':
+    case 'polygon': {
+      const numbers = parseNumbers(element.getAttribute('points'));
+      if (numbers.length < 4) return [];
+      const points: Vec2[] = [];
+      for (let i = 0; i + 1 < numbers.length; i += 2) points.push([numbers[i], numbers[i + 1]]);
+      return pathEntities([{
+        start: points[0],
+        segments: points.slice(1).map(to => ({ type: 'line', to })),
+        closed: element.localName === 'polygon',
+      }], m, common);
+    }
+
+    case 'text':
+      return textEntities(element, state, common);
+  }
+
+  return null;
+};
+
+/**
+ * Alt yollar: yalnızca çizgi ve dairesel yaylardan oluşanlar LWPOLYLINE (bulge),
+ * Bézier veya eliptik yay içerenler parçalı kübik SPLINE olur
+ */
+const pathEntities = (subPaths: SubPath[], m: Matrix, common: CommonProperties): Entity[] => {
+  const entities: Entity[] = [];
+  subPaths.forEach(sub => {
+    if (sub.segments.length === 0) return;
+    const bulgeable = sub.segments.every(seg => seg.type === 'line'
+      || (seg.type === 'arc' && Math.abs(seg.rx - seg.ry) <= 1e-9 * Math.max(seg.rx, seg.ry) && isSimilarity(m)));
+    entities.push(bulgeable ? polylineEntity(sub, m, common) : splineEntity(sub, m, common));
+  });
+  return entities;
+};
+
+const polylineEntity = (sub: SubPath, m: Matrix, common: CommonProperties): Entity => {
+  const vertices: Vec2[] = [sub.start];
+  const bulges: number[] = [];
+  // Yansıtan dönüşüm (y çevirme dahil) yay yönünü tersine çevirir
+  const orientation = Math.sign(m[0] * m[3] - m[1] * m[2]);
+
+  let current = sub.start;
+  sub.segments.forEach(seg => {
+    if (seg.type === 'arc') {
+      const arc = arcCenter(current, seg);
+      if (!arc) return;
+      bulges.push(orientation * Math.tan(arc.sweep / 4));
+    } else {
+      bulges.push(0);
+    }
+    vertices.push(seg.to);
+    current = seg.to;
+  });
+
+  if (sub.closed && samePoint(vertices[vertices.length - 1], sub.start) && vertices.length > 1) {
+    vertices.pop();
+  } else {
+    bulges.push(0);
+  }
+
+  return {
+    id: generateId(),
+    type: 'LWPOLYLINE',
+    closed: sub.closed,
+    ...createPolylineData(vertices.map(v => transformPoint(m, v)), bulges),
+    ...common,
+  };
+};
+
+const splineEntity = (sub: SubPath, m: Matrix, common: CommonProperties): Entity => {
+  const controlPoints: Vec2[] = [sub.start];
+  let current = sub.start;
+
+  const addCubic = (c1: Vec2, c2: Vec2, to: Vec2) => {
+    controlPoints.push(c1, c2, to);
+    current = to;
+  };
+  // Doğru parçası 1/3 ve 2/3 noktalarında kontrol noktalarıyla tam kübiğe yükseltilir
+  const addLine = (to: Vec2) => addCubic(lerp(current, to, 1 / 3), lerp(current, to, 2 / 3), to);
+
+  sub.segments.forEach(seg => {
+    if (seg.type === 'line') addLine(seg.to);
+    else if (seg.type === 'cubic') addCubic(seg.c1, seg.c2, seg.to);
+    else arcToCubics(current, seg).forEach(([c1, c2, to]) => addCubic(c1, c2, to));
+  });
+  if (sub.closed && !samePoint(current, sub.start)) addLine(sub.start);
+
+  // Parçalı Bézier: iç düğümler derece kadar tekrarlanır
+  const pieces = (controlPoints.length - 1) / 3;
+  const knots = [0, 0, 0, 0];
+  for (let i = 1; i < pieces; i++) knots.push(i, i, i);
+  knots.push(pieces, pieces, pieces, pieces);
+
+  return {
+    id: generateId(),
+    type: 'SPLINE',
+    controlPoints: controlPoints.map(p => transformPoint(m, p)),
+    degree: 3,
+    knots,
+    closed: sub.closed,
+    ...common,
+  };
+};
+
+/**
+ * Circle or ellipse under an affine transform: axes from the singular values of M * diag(rx, ry)
+ */
+const ellipseEntity = (center: Vec2, rx: number, ry: number, m: Matrix, common: CommonProperties): Entity => {
+  const p = m[0] * rx, q = m[2] * ry, r = m[1] * rx, s = m[3] * ry;
+  const e = (p + s) / 2, f = (p - s) / 2, g = (r + q) / 2, h = (r - q) / 2;
+  const major = Math.hypot(e, h) + Math.hypot(f, g);
+  const minor = Math.abs(Math.hypot(e, h) - Math.hypot(f, g));
+  const position = transformPoint(m, center);
+
+  if (Math.abs(major - minor) <= 1e-9 * major) {
+    return { id: generateId(), type: 'CIRCLE', center: position, radius: major, ...common };
+  }
+  return {
+    id: generateId(),
+    type: 'ELLIPSE',
+    center: position,
+    rx: major,
+    ry: minor,
+    rotation: (Math.atan2(g, f) + Math.atan2(h, e)) / 2,
+    ...common,
+  };
+};
+
+/**
+ * <text> ve x/y/dy taşıyan her <tspan> ayrı bir TEXT olur
+ */
+const textEntities = (element: Element, state: WalkState, common: CommonProperties): Entity[] => {
+  const m = state.matrix;
+  const runs: { x: number; y: number; text: string; fontSize: number; anchor: string }[] = [];
+  const fontSize = (style: StyleProperties) => parseLength(style['font-size']) || 16;
+
+  let x = parseNumbers(element.getAttribute('x'))[0] || 0;
+  let y = parseNumbers(element.getAttribute('y'))[0] || 0;
+  let run = { x, y, text: '', fontSize: fontSize(state.style), anchor: state.style['text-anchor'] || 'start' };
+  runs.push(run);
+
+  Array.from(element.childNodes).forEach(node => {
+    if (node.nodeType === 3) {
+      run.text += node.textContent || '';
+      return;
+    }
+    if (node.nodeType !== 1 || (node as Element).localName !== 'tspan') return;
+    const tspan = node as Element;
+    const props = { ...state.style, ...tspanStyle(tspan) };
+    if (tspan.hasAttribute('x') || tspan.hasAttribute('y') || tspan.hasAttribute('dy')) {
+      x = tspan.hasAttribute('x') ? parseNumbers(tspan.getAttribute('x'))[0] || 0 : x;
+      y = tspan.hasAttribute('y') ? parseNumbers(tspan.getAttribute('y'))[0] || 0 : y;
+      y += parseLength(tspan.getAttribute('dy')) || 0;
+      run = { x, y, text: '', fontSize: fontSize(props), anchor: props['text-anchor'] || 'start' };
+      runs.push(run);
+    }
+    run.text += tspan.textContent || '';
+  });
+
+  return runs
+    .filter(r => r.text.trim() !== '')
+    .map(r => {
+      const height = r.fontSize * Math.hypot(m[2], m[3]);
+      const entity: TextEntity = {
+        id: generateId(),
+        type: 'TEXT',
+        position: transformPoint(m, [r.x, r.y]),
+        text: r.text.replace(/\s+/g, ' ').trim(),
+        height,
+        rotation: Math.atan2(m[1], m[0]),
+        ...common,
+      };
+      if (r.anchor === 'middle') entity.justification = 'center';
+      else if (r.anchor === 'end') entity.justification = 'right';
+      return entity;
+    });
+};
+
+const tspanStyle = (tspan: Element): StyleProperties => {
+  const style: StyleProperties = {};
+  ['font-size', 'text-anchor'].forEach(property => {
+    const value = tspan.getAttribute(property);
+    if (value) style[property] = value;
+  });
+  return { ...style, ...parseDeclarations(tspan.getAttribute('style') || '') };
+};
+
+// --- Path data ---
+
+/**
+ * Parse path data into subpaths; quadratic curves are raised to cubics
+ */
+const parsePath = (d: string): SubPath[] => {
+  const subPaths: SubPath[] = [];
+  let sub: SubPath | null = null;
+  let current: Vec2 = [0, 0];
+  let start: Vec2 = [0, 0];
+  let lastCubic: Vec2 | null = null; // S için yansıtılacak kontrol noktası
+  let lastQuad: Vec2 | null = null; // T için yansıtılacak kontrol noktası
+
+  const ensureSub = () => {
+    if (!sub) {
+      sub = { start: current, segments: [], closed: false };
+      subPaths.push(sub);
+    }
+    return sub;
+  };
+  const push = (segment: PathSegment) => {
+    ensureSub().segments.push(segment);
+    current = segment.to;
+  };
+  const quad = (control: Vec2, to: Vec2) => {
+    push({ type: 'cubic', c1: lerp(current, control, 2 / 3), c2: lerp(to, control, 2 / 3), to });
+    lastQuad = control;
+  };
+
+  const commandPattern = /([MmLlHhVvCcSsQqTtAaZz])([^MmLlHhVvCcSsQqTtAaZz]*)/g;
+  let match: RegExpExecArray | null;
+  while ((match = commandPattern.exec(d)) !== null) {
+    const command = match[1];
+    const relative = command === command.toLowerCase();
+    const args = command.toUpperCase() === 'A' ? parseArcArguments(match[2]) : parseNumbers(match[2]);
+    const rel = (x: number, y: number): Vec2 => relative ? [current[0] + x, current[1] + y] : [x, y];
+
+    switch (command.toUpperCase()) {
+      case 'M':
+        for (let i = 0; i + 1 < args.length; i += 2) {
+          if (i === 0) {
+            current = rel(args[0], args[1]);
+            start = current;
+            sub = null;
+          } else {
+            push({ type: 'line', to: rel(args[i], args[i + 1]) });
+          }
+        }
+        break;
+      case 'L':
+        for (let i = 0; i + 1 < args.length; i += 2) push({ type: 'line', to: rel(args[i], args[i + 1]) });
+        break;
+      case 'H':
+        args.forEach(value => push({ type: 'line', to: [relative ? current[0] + value : value, current[1]] }));
+        break;
+      case 'V':
+        args.forEach(value => push({ type: 'line', to: [current[0], relative ? current[1] + value : value] }));
+        break;
+      case 'C':
+        for (let i = 0; i + 5 < args.length; i += 6) {
+          const c1 = rel(args[i], args[i + 1]);
+          const c2 = rel(args[i + 2], args[i + 3]);
+          push({ type: 'cubic', c1, c2, to: rel(args[i + 4], args[i + 5]) });
+          lastCubic = c2;
+        }
+        break;
+      case 'S':
+        for (let i = 0; i + 3 < args.length; i += 4) {
+          const c1: Vec2 = lastCubic ? [2 * current[0] - lastCubic[0], 2 * current[1] - lastCubic[1]] : current;
+          const c2 = rel(args[i], args[i + 1]);
+          push({ type: 'cubic', c1, c2, to: rel(args[i + 2], args[i + 3]) });
+          lastCubic = c2;
+        }
+        break;
+      case 'Q':
+        for (let i = 0; i + 3 < args.length; i += 4) quad(rel(args[i], args[i + 1]), rel(args[i + 2], args[i + 3]));
+        break;
+      case 'T':
+        for (let i = 0; i + 1 < args.length; i += 2) {
+          const control: Vec2 = lastQuad ? [2 * current[0] - lastQuad[0], 2 * current[1] - lastQuad[1]] : current;
+          quad(control, rel(args[i], args[i + 1]));
+        }
+        break;
+      case 'A':
+        for (let i = 0; i + 6 < args.length; i += 7) {
+          const to = rel(args[i + 5], args[i + 6]);
+          if (samePoint(current, to)) continue;
+          const rx = Math.abs(args[i]);
+          const ry = Math.abs(args[i + 1]);
+          // Sıfır yarıçaplı yay doğru parçasıdır
+          push(rx === 0 || ry === 0
+            ? { type: 'line', to }
+            : { type: 'arc', rx, ry, rotation: args[i + 2], largeArc: args[i + 3] !== 0, sweep: args[i + 4] !== 0, to });
+        }
+        break;
+      case 'Z':
+        if (sub) (sub as SubPath).closed = true;
+        current = start;
+        sub = null;
+        break;
+    }
+
+    if (!'CcSs'.includes(command)) lastCubic = null;
+    if (!'QqTt'.includes(command)) lastQuad = null;
+  }
+
+  return subPaths;
+};
+
+// Yay bayrakları ayraçsız yazılabilir ("a1 1 0 011 1")
+const parseArcArguments = (text: string): number[] => {
+  const values: number[] = [];
+  let rest = text;
+  while (rest.trim() !== '') {
+    const isFlag = values.length % 7 === 3 || values.length % 7 === 4;
+    const match = isFlag ? /^[\s,]*([01])/.exec(rest) : new RegExp(`^[\\s,]*(${NUMBER_PATTERN.source})`).exec(rest);
+    if (!match) break;
+    values.push(parseFloat(match[1]));
+    rest = rest.slice(match[0].length);
+  }
+  return values;
+};
+
+/**
+ * Endpoint to center parameterization of an SVG arc (SVG 1.1 F.6.5), radii corrected when too small
+ */
+const arcCenter = (from: Vec2, seg: Extract<PathSegment, { type: 'arc' }>) => {
+  const phi = seg.rotation * Math.PI / 180;
+  const cos = Math.cos(phi);
+  const sin = Math.sin(phi);
+  const dx = (from[0] - seg.to[0]) / 2;
+  const dy = (from[1] - seg.to[1]) / 2;
+  const x1 = cos * dx + sin * dy;
+  const y1 = -sin * dx + cos * dy;
+  if (x1 === 0 && y1 === 0) return null;
+
+  let rx = seg.rx;
+  let ry = seg.ry;
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    rx *= Math.sqrt(lambda);
+    ry *= Math.sqrt(lambda);
+  }
+
+  const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  let coefficient = Math.sqrt(Math.max(0, numerator / denominator));
+  if (seg.largeArc === seg.sweep) coefficient = -coefficient;
+  const cx1 = coefficient * rx * y1 / ry;
+  const cy1 = -coefficient * ry * x1 / rx;
+
+  const startAngle = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx);
+  let sweep = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx) - startAngle;
+  if (!seg.sweep && sweep > 0) sweep -= Math.PI * 2;
+  if (seg.sweep && sweep < 0) sweep += Math.PI * 2;
+
+  return {
+    center: [cos * cx1 - sin * cy1 + (from[0] + seg.to[0]) / 2, sin * cx1 + cos * cy1 + (from[1] + seg.to[1]) / 2] as Vec2,
+    rx,
+    ry,
+    phi,
+    startAngle,
+    sweep,
+  };
+};
+
+// En fazla 90°'lik parçalara bölünmüş kübik Bézier yaklaşımı
+const arcToCubics = (from: Vec2, seg: Extract<PathSegment, { type: 'arc' }>): [Vec2, Vec2, Vec2][] => {
+  const arc = arcCenter(from, seg);
+  if (!arc) return [];
+  const count = Math.max(1, Math.ceil(Math.abs(arc.sweep) / (Math.PI / 2) - 1e-9));
+  const delta = arc.sweep / count;
+  const k = 4 / 3 * Math.tan(delta / 4);
+  const cos = Math.cos(arc.phi);
+  const sin = Math.sin(arc.phi);
+  const at = (angle: number): Vec2 => {
+    const ex = arc.rx * Math.cos(angle);
+    const ey = arc.ry * Math.sin(angle);
+    return [arc.center[0] + cos * ex - sin * ey, arc.center[1] + sin * ex + cos * ey];
+  };
+  const tangent = (angle: number): Vec2 => {
+    const tx = -arc.rx * Math.sin(angle);
+    const ty = arc.ry * Math.cos(angle);
+    return [cos * tx - sin * ty, sin * tx + cos * ty];
+  };
+
+  const cubics: [Vec2, Vec2, Vec2][] = [];
+  for (let i = 0; i < count; i++) {
+    const a0 = arc.startAngle + delta * i;
+    const a1 = a0 + delta;
+    const p0 = at(a0);
+    const p1 = i === count - 1 ? seg.to : at(a1);
+    const t0 = tangent(a0);
+    const t1 = tangent(a1);
+    cubics.push([[p0[0] + k * t0[0], p0[1] + k * t0[1]], [p1[0] - k * t1[0], p1[1] - k * t1[1]], p1]);
+  }
+  return cubics;
+};
+
+// --- Styles ---
+
+const readStyleRules = (doc: Document): Record<string, StyleProperties> => {
+  const rules: Record<string, StyleProperties> = {};
+  Array.from(doc.getElementsByTagName('style')).forEach(styleElement => {
+    const css = (styleElement.textContent || '').replace(/\/\*[\s\S]*?\*\//g, '');
+    const rulePattern = /([^{}]+)\{([^}]*)\}/g;
+    let match: RegExpExecArray | null;
+    while ((match = rulePattern.exec(css)) !== null) {
+      const declarations = parseDeclarations(match[2]);
+      match[1].split(',').map(s => s.trim()).filter(s => /^[.#]?[\w-]+$/.test(s)).forEach(selector => {
+        rules[selector] = { ...rules[selector], ...declarations };
+      });
+    }
+  });
+  return rules;
+};
+
+const parseDeclarations = (text: string): StyleProperties => {
+  const properties: StyleProperties = {};
+  text.split(';').forEach(declaration => {
+    const index = declaration.indexOf(':');
+    if (index > 0) properties[declaration.slice(0, index).trim()] = declaration.slice(index + 1).replace('!important', '').trim();
+  });
+  return properties;
+};
+
+// Öncelik: sunum öznitelikleri < tag < .class < #id < style özniteliği
+const elementStyle = (element: Element, ctx: ImportContext): StyleProperties => {
+  const style: StyleProperties = {};
+  [...INHERITED_PROPERTIES, 'display'].forEach(property => {
+    const value = element.getAttribute(property);
+    if (value !== null) style[property] = value.trim();
+  });
+  Object.assign(style, ctx.rules[element.localName]);
+  (element.getAttribute('class') || '').split(/\s+/).filter(Boolean).forEach(name => Object.assign(style, ctx.rules[`.${name}`]));
+  const id = element.getAttribute('id');
+  if (id) Object.assign(style, ctx.rules[`#${id}`]);
+  Object.assign(style, parseDeclarations(element.getAttribute('style') || ''));
+  return style;
+};
+
+/**
+ * Çizgi rengi, yoksa dolgu rengi; siyah ACI 7 gibi beyaz alınır (dışa aktarımda yine siyaha döner)
+ */
+const styleColor = (style: StyleProperties): string | undefined => {
+  const color = parseColor(style.stroke, style.color) ?? parseColor(style.fill, style.color);
+  return color === '#000000' ? '#ffffff' : color;
+};
+
+const parseColor = (value: string | undefined, currentColor?: string): string | undefined => {
+  if (!value) return undefined;
+  const text = value.trim().toLowerCase();
+  if (text === 'currentcolor') return parseColor(currentColor);
+  if (NAMED_COLORS[text]) return NAMED_COLORS[text];
+
+  const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(text);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(c => c + c).join('') : hex[1];
+    return `#${digits}`;
+  }
+
+  const rgb = /^rgba?\(([^)]*)\)$/.exec(text);
+  if (rgb) {
+    const channels = rgb[1].split(/[\s,/]+/).filter(Boolean).slice(0, 3).map(channel => {
+      const number = parseFloat(channel);
+      const value = channel.endsWith('%') ? number * 2.55 : number;
+      return Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, '0');
+    });
+    if (channels.length === 3) return `#${channels.join('')}`;
+  }
+
+  // none, transparent, url(#gradient) ve tanınmayan değerler
+  return undefined;
+};
+
+// --- Geometry helpers ---
+
+const parseTransform = (value: string | null): Matrix => {
+  let matrix = IDENTITY;
+  if (!value) return matrix;
+
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    const args = parseNumbers(match[2]);
+    let t: Matrix = IDENTITY;
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length === 6) t = args as Matrix;
+        break;
+      case 'translate':
+        t = [1, 0, 0, 1, args[0] || 0, args[1] || 0];
+        break;
+      case 'scale':
+        t = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const angle = (args[0] || 0) * Math.PI / 180;
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        const cx = args[1] || 0;
+        const cy = args[2] || 0;
+        t = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+        break;
+      }
+      case 'skewX':
+        t = [1, 0, Math.tan((args[0] || 0) * Math.PI / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        t = [1, Math.tan((args[0] || 0) * Math.PI / 180), 0, 1, 0, 0];
+        break;
+    }
+    matrix = multiply(matrix, t);
+  }
+  return matrix;
+};
+
+// m1 * m2: önce m2, sonra m1 uygulanır
+const multiply = (m1: Matrix, m2: Matrix): Matrix => [
+  m1[0] * m2[0] + m1[2] * m2[1],
+  m1[1] * m2[0] + m1[3] * m2[1],
+  m1[0] * m2[2] + m1[2] * m2[3],
+  m1[1] * m2[2] + m1[3] * m2[3],
+  m1[0] * m2[4] + m1[2] * m2[5] + m1[4],
+  m1[1] * m2[4] + m1[3] * m2[5] + m1[5],
+];
+
+const transformPoint = (m: Matrix, [x, y]: Vec2): Point => [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5], 0];
+
+// Döndürme + tek tip ölçek (yansıma dahil): daireler daire olarak kalır
+const isSimilarity = (m: Matrix): boolean => {
+  const tolerance = 1e-9 * (Math.abs(m[0]) + Math.abs(m[1]) + Math.abs(m[2]) + Math.abs(m[3]));
+  return (Math.abs(m[0] - m[3]) <= tolerance && Math.abs(m[1] + m[2]) <= tolerance)
+    || (Math.abs(m[0] + m[3]) <= tolerance && Math.abs(m[1] - m[2]) <= tolerance);
+};
+
+const lerp = (a: Vec2, b: Vec2, t: number): Vec2 => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+
+const samePoint = (a: Vec2, b: Vec2): boolean => Math.abs(a[0] - b[0]) < 1e-9 && Math.abs(a[1] - b[1]) < 1e-9;
+
+const parseNumbers = (text: string | null): number[] => (text?.match(NUMBER_PATTERN) || []).map(Number);
+
+// Birimli uzunluk kullanıcı birimine (px) çevrilir; yüzdeler çözülemez
+const parseLength = (text: string | null | undefined): number => {
+  const match = /^\s*([+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)\s*([a-z%]*)\s*$/i.exec(text || '');
+  if (!match || match[2] === '%') return NaN;
+  return parseFloat(match[1]) * (UNIT_TO_PX[match[2].toLowerCase()] ?? 1);
+};
+
+const attr = (element: Element, name: string): number => {
+  const value = parseLength(element.getAttribute(name));
+  return Number.isFinite(value) ? value : 0;
+};
+
+/**
+ * Generate unique entity ID
+ */
+const generateId = (): number => {
+  return Date.now() + Math.random();
+};
@@ -0,0 +1,263 @@
+import type { Entity, Point, LWPolylineEntity } from '../types/entities';
+import type { BlockTable } from '../types/blocks';
+import type { Layer } from '../types/layers';
+import { DEFAULT_LAYER } from '../types/layers';
+import type { CAMSettings, CAMLayerSettings, Toolpath } from '../types/cam';
+import { DEFAULT_CAM_LAYER_SETTINGS } from '../types/cam';
+import { pointInPolygon } from './geometryUtils';
+import { getReferenceOutputMembers, isBlockReference } from './blockUtils';
+import { getPolylineSegments, bulgeToArc, tessellatePolyline, offsetPolyline } from './polylineUtils';
+
+// Zincirlenmemiş parça veya zincir; bulges[i] vertices[i]'den başlayan segmentin
+interface PathPiece {
+  layer: string;
+  vertices: Point[];
+  bulges: number[];
+  closed: boolean;
+}
+
+// Çizim durumu: katman tablosu, bloklar ve bir çizim biriminin mm karşılığı
+export interface ToolpathData {
+  layers?: Layer[];
+  blocks: BlockTable;
+  unitSize?: number;
+}
+
+export interface ToolpathResult {
+  toolpaths: Toolpath[];
+  skipped: number; // Takım yolu olamayan entity sayısı (metin, tarama, spline...)
+  warnings: string[];
+}
+
+export const getCAMLayerSettings = (settings: CAMSettings, layerId: string): CAMLayerSettings =>
+  settings.layers[layerId] ?? DEFAULT_CAM_LAYER_SETTINGS;
+
+const distance = (a: Point, b: Point): number => Math.hypot(a[0] - b[0], a[1] - b[1]);
+
+const lastVertex = (piece: PathPiece): Point => piece.vertices[piece.vertices.length - 1];
+
+// Ters yön: segmentler ters sırada, yay yönleri ters işaretli
+const reversePiece = (piece: PathPiece): PathPiece => {
+  const n = piece.vertices.length;
+  return {
+    ...piece,
+    vertices: [...piece.vertices].reverse(),
+    bulges: piece.vertices.map((_, j) => -(piece.bulges[(n - 2 - j + n) % n] || 0)),
+  };
+};
+
+// Kapalı yolu index numaralı köşeden başlat
+const rotatePiece = (piece: PathPiece, index: number): PathPiece => ({
+  ...piece,
+  vertices: [...piece.vertices.slice(index), ...piece.vertices.slice(0, index)],
+  bulges: [...piece.bulges.slice(index), ...piece.bulges.slice(0, index)],
+});
+
+const joinPieces = (a: PathPiece, b: PathPiece): PathPiece => ({
+  ...a,
+  vertices: [...a.vertices, ...b.vertices.slice(1)],
+  bulges: [...a.bulges.slice(0, a.vertices.length - 1), ...b.bulges],
+});
+
+// Tam daire dört çeyrek yay olarak: iki köşeli kapalı yol ofset ve alan hesabında dejenere kalır
+const QUARTER_BULGE = Math.tan(Math.PI / 8);
+
+const circlePiece = (layer: string, center: Point, radius: number, startAngle: number): PathPiece => ({
+  layer,
+  vertices: [0, 1, 2, 3].map(i => [
+    center[0] + radius * Math.cos(startAngle + i * Math.PI / 2),
+    center[1] + radius * Math.sin(startAngle + i * Math.PI / 2),
+    0,
+  ] as Point),
+  bulges: [QUARTER_BULGE, QUARTER_BULGE, QUARTER_BULGE, QUARTER_BULGE],
+  closed: true,
+});
+
+const toPieces = (entity: Entity): PathPiece[] | null => {
+  const layer = entity.layer;
+  switch (entity.type) {
+    case 'LINE':
+      return [{ layer, vertices: [entity.start, entity.end], bulges: [0, 0], closed: false }];
+    case 'ARC': {
+      let sweep = entity.endAngle - entity.startAngle;
+      while (sweep <= 0) sweep += Math.PI * 2;
+      const at = (angle: number): Point => [
+        entity.center[0] + entity.radius * Math.cos(angle),
+        entity.center[1] + entity.radius * Math.sin(angle),
+        0,
+      ];
+      // Tam tur yay kapalı daire olarak
+      if (sweep >= Math.PI * 2 - 1e-9) return [circlePiece(layer, entity.center, entity.radius, entity.startAngle)];
+      return [{ layer, vertices: [at(entity.startAngle), at(entity.endAngle)], bulges: [Math.tan(sweep / 4), 0], closed: false }];
+    }
+    case 'CIRCLE':
+      return [circlePiece(layer, entity.center, entity.radius, 0)];
+    case 'LWPOLYLINE': {
+      if (entity.vertices.length < 2) return [];
+      const bulges = entity.vertices.map((_, i) => entity.bulges?.[i] || 0);
+      return [{ layer, vertices: entity.vertices, bulges, closed: entity.closed }];
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Chain open pieces whose endpoints meet within tolerance. A chain whose ends meet
+ * becomes a closed contour. Pieces are only joined within the same layer.
+ */
+const chainPieces = (pieces: PathPiece[], tolerance: number): PathPiece[] => {
+  const result: PathPiece[] = pieces.filter(piece => piece.closed);
+  const remaining = pieces.filter(piece => !piece.closed);
+
+  while (remaining.length > 0) {
+    let chain = remaining.shift()!;
+    let extended = true;
+    while (extended && !(chain.vertices.length > 2 && distance(chain.vertices[0], lastVertex(chain)) <= tolerance)) {
+      extended = false;
+      for (let i = 0; i < remaining.length; i++) {
+        const piece = remaining[i];
+        if (piece.layer !== chain.layer) continue;
+        const head = chain.vertices[0];
+        const tail = lastVertex(chain);
+        if (distance(tail, piece.vertices[0]) <= tolerance) chain = joinPieces(chain, piece);
+        else if (distance(tail, lastVertex(piece)) <= tolerance) chain = joinPieces(chain, reversePiece(piece));
+        else if (distance(head, lastVertex(piece)) <= tolerance) chain = joinPieces(piece, chain);
+        else if (distance(head, piece.vertices[0]) <= tolerance) chain = joinPieces(reversePiece(piece), chain);
+        else continue;
+        remaining.splice(i, 1);
+        extended = true;
+        break;
+      }
+    }
+
+    if (chain.vertices.length > 2 && distance(chain.vertices[0], lastVertex(chain)) <= tolerance) {
+      chain = { ...chain, vertices: chain.vertices.slice(0, -1), bulges: chain.bulges.slice(0, -1), closed: true };
+    }
+    result.push(chain);
+  }
+  return result;
+};
+
+/**
+ * Signed area of a closed path including its arc segments (CCW positive)
+ */
+export const getPathArea = (path: Pick<PathPiece, 'vertices' | 'bulges'>): number => {
+  let area = 0;
+  getPolylineSegments({ ...path, closed: true }).forEach(segment => {
+    area += (segment.start[0] * segment.end[1] - segment.end[0] * segment.start[1]) / 2;
+    const arc = bulgeToArc(segment.start, segment.end, segment.bulge);
+    if (arc) area += arc.radius * arc.radius / 2 * (arc.sweep - Math.sin(arc.sweep));
+  });
+  return area;
+};
+
+// offsetPolyline LWPOLYLINE bekler; yalnızca geometri alanları kullanılır
+const offsetPath = (path: PathPiece, offset: number): PathPiece | null => {
+  const entity: LWPolylineEntity = {
+    id: 0, type: 'LWPOLYLINE', color: 'BYLAYER', layer: path.layer,
+    vertices: path.vertices, bulges: path.bulges, closed: true,
+  };
+  const data = offsetPolyline(entity, offset);
+  if (!data || data.vertices.length < 2) return null;
+  const result = { ...path, vertices: data.vertices, bulges: data.vertices.map((_, i) => data.bulges?.[i] || 0) };
+  // Küçük delikte ofset kendi üstüne döner: yön değişirse kontur çökmüştür
+  return Math.sign(getPathArea(result)) === Math.sign(getPathArea(path)) ? result : null;
+};
+
+/**
+ * Build CAM toolpaths from LINE, ARC, LWPOLYLINE and CIRCLE entities on enabled layers.
+ * Connected pieces are chained, closed contours are kerf-compensated (outer contours
+ * outward, holes inward) and the result is ordered for cutting: open paths first, then
+ * closed contours from the deepest nesting level out so every part is released last.
+ * Coordinates stay in drawing units; the kerf and tolerance are converted with unitSize.
+ */
+export const generateToolpaths = (entities: Entity[], settings: CAMSettings, data: ToolpathData): ToolpathResult => {
+  const blocks = data.blocks;
+  const layers = data.layers ?? [];
+  const unitSize = data.unitSize ?? 1;
+  const warnings: string[] = [];
+  let skipped = 0;
+
+  const isCutLayer = (layerId: string) => {
+    const layer = layers.find(l => l.id === layerId) ?? { ...DEFAULT_LAYER, id: layerId };
+    return layer.visible && !layer.frozen && getCAMLayerSettings(settings, layerId).enabled;
+  };
+
+  // Blok üyeleri: 0 katmanındakiler referansın katmanında kesilir
+  const primitives: Entity[] = [];
+  entities.filter(entity => entity.visible !== false).forEach(entity => {
+    if (!isBlockReference(entity)) {
+      primitives.push(entity);
+      return;
+    }
+    primitives.push(...getReferenceOutputMembers(entity, blocks));
+  });
+
+  const pieces: PathPiece[] = [];
+  primitives.forEach(entity => {
+    if (!isCutLayer(entity.layer)) return;
+    const entityPieces = toPieces(entity);
+    if (entityPieces) pieces.push(...entityPieces);
+    else skipped++;
+  });
+  if (skipped > 0) warnings.push(`${skipped} entities skipped (only LINE, ARC, LWPOLYLINE and CIRCLE are cut)`);
+
+  const tolerance = Math.max(settings.tolerance, 1e-6) / unitSize;
+  const chains = chainPieces(pieces, tolerance);
+  const open = chains.filter(chain => !chain.closed);
+  const closed = chains.filter(chain => chain.closed && Math.abs(getPathArea(chain)) > tolerance * tolerance);
+
+  // İç içe geçme derinliği: konturu içeren (daha büyük) kapalı kontur sayısı
+  const outlines = closed.map(chain => tessellatePolyline(chain, true));
+  const areas = closed.map(chain => Math.abs(getPathArea(chain)));
+  const depths = closed.map((chain, i) => closed.reduce((depth, _, j) =>
+    j !== i && areas[j] > areas[i] && pointInPolygon(chain.vertices[0], outlines[j]) ? depth + 1 : depth, 0));
+
+  // Kapalı konturlar CCW'ye çevrilip kaydırılır; dış konturlar saat yönünde (tırmanma frezeleme) kesilir
+  const halfKerf = Math.max(settings.kerf, 0) / 2 / unitSize;
+  const contours = closed.map((chain, i) => {
+    const isOuter = depths[i] % 2 === 0;
+    let path = getPathArea(chain) < 0 ? reversePiece(chain) : chain;
+    if (halfKerf > 0) {
+      const shifted = offsetPath(path, isOuter ? -halfKerf : halfKerf);
+      if (shifted) path = shifted;
+      else warnings.push(`Kerf offset skipped for a contour on layer ${path.layer} (too small for the kerf)`);
+    }
+    return { path: isOuter ? reversePiece(path) : path, depth: depths[i], contour: isOuter ? 'outer' as const : 'inner' as const };
+  });
+
+  // En yakın komşu sırası: kapalı yollar en yakın köşeden, açık yollar en yakın uçtan başlar
+  const toolpaths: Toolpath[] = [];
+  let position: Point = [0, 0, 0];
+  const take = (group: { path: PathPiece; contour: Toolpath['contour'] }[]) => {
+    const pending = [...group];
+    while (pending.length > 0) {
+      let best = { index: 0, vertex: 0, reverse: false, distance: Infinity };
+      pending.forEach(({ path }, index) => {
+        if (path.closed) {
+          path.vertices.forEach((vertex, v) => {
+            const d = distance(position, vertex);
+            if (d < best.distance) best = { index, vertex: v, reverse: false, distance: d };
+          });
+        } else {
+          const dStart = distance(position, path.vertices[0]);
+          const dEnd = distance(position, lastVertex(path));
+          if (Math.min(dStart, dEnd) < best.distance) best = { index, vertex: 0, reverse: dEnd < dStart, distance: Math.min(dStart, dEnd) };
+        }
+      });
+      const [{ path, contour }] = pending.splice(best.index, 1);
+      const oriented = path.closed ? rotatePiece(path, best.vertex) : best.reverse ? reversePiece(path) : path;
+      toolpaths.push({ layer: oriented.layer, vertices: oriented.vertices, bulges: oriented.bulges, closed: oriented.closed, contour });
+      position = oriented.closed ? oriented.vertices[0] : lastVertex(oriented);
+    }
+  };
+
+  take(open.map(path => ({ path, contour: 'open' as const })));
+  const maxDepth = Math.max(-1, ...contours.map(c => c.depth));
+  for (let depth = maxDepth; depth >= 0; depth--) {
+    take(contours.filter(c => c.depth === depth));
+  }
+
+  return { toolpaths, skipped, warnings };
+};